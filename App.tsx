@@ -1,19 +1,71 @@
 import React, { useState, useRef, useEffect, useCallback, useMemo } from 'react';
 import ReactMarkdown, { Components } from 'react-markdown';
 import remarkGfm from 'remark-gfm';
-import { sendMessageToGemini, generateImage, synthesizeTemplate } from './services/geminiService';
-import { KnowledgeLevel, Message, PaneTab, TemplateCategory, Template, LogicDiagram, VisualItem } from './types';
-import { TEMPLATES, INITIAL_KNOWLEDGE_LEVEL } from './constants';
+import remarkMath from 'remark-math';
+import rehypeKatex from 'rehype-katex';
+import { streamMessageToGemini, generateImage, synthesizeTemplate, generateQuiz, generateSubmissionReview, summarizeConversation, AIServiceError, toAIServiceError, TutorContext } from './services/geminiService';
+import { hintsForProblem, nextHintLevel } from './services/hintLadder';
+import { TutorWorkspace } from './services/tutorTools';
+import { applyEvidence, applyLevelChange, bandOf, createCalibration, declineLevelChange, isAdaptive, LevelEvidence, quizEvidence, stepInBand, stepOf } from './services/levelCalibration';
+import { selectContext } from './services/contextWindow';
+import { ChatTurn } from './services/providers';
+import { buildQuizFollowUpPrompt, gradeQuiz } from './services/quizService';
+import { buildDiagramCheckPrompt, createDiagramRevision, extractMermaidBlocks, prepareMermaidItem } from './services/diagramService';
+import { downloadBlob, exportSession, ExportFormat } from './services/exportService';
+import { buildTemplatePack, createTemplate, deleteTemplate, duplicateTemplate, importTemplatePack, listLibrary, PackImportError, promoteTemplate, restoreTemplateVersion, updateTemplate } from './services/templateLibrary';
+import { createIntervention, detectCheatRequest, guardResponse, hasAttemptAfter, isSubstantiveAttempt } from './services/solutionGuard';
+import { completeWalkthroughStep, createWalkthrough, parseTemplateSteps } from './services/walkthroughService';
+import { isTraceable } from './services/pseudocodeTracer';
+import { ACCEPTED_SUBMISSION_TYPES, addSubmissionFiles, buildSubmissionParts, formatBytes, toAttachments, toSubmittedWork } from './services/submissionService';
+import { collectRunnableSource, describeTestRun, runHiddenTests } from './services/codeRunner';
+import { buildFeedbackReport, describeReport, findPreviousReport, revisionNumber } from './services/feedbackReport';
+import { deleteRubric, getActiveRubricId, listRubrics, saveRubric, setActiveRubricId as storeActiveRubricId } from './services/rubricStore';
+import { createSessionId, deleteSession, listSessions, loadSession, renameSession, saveSession } from './services/sessionStore';
+import { createLearnerId, ensureLearners, getActiveLearnerId, listMastery, recordAssessment, saveLearner, setActiveLearnerId as storeActiveLearnerId } from './services/masteryStore';
+import { KnowledgeLevel, Message, PaneTab, TemplateCategory, Template, LogicDiagram, VisualItem, StudySession, SessionSummary, QuizResponse, Learner, ConceptMastery, MentorAssessment, GuardIntervention, GuardInterventionKind, LibraryTemplate, TemplateDraft, Walkthrough, SubmissionFile, FeedbackReport, Rubric, TestRunResult, ConversationSummary, HintRecord, MessageHint, LevelCalibration, LevelChange, LevelMode } from './types';
+import { TEMPLATES, INITIAL_KNOWLEDGE_LEVEL, AUTOSAVE_DELAY_MS, DEFAULT_RUBRICS, MAX_HINTS_PER_PROBLEM, LEVEL_STEPS_PER_BAND } from './constants';
 import { LogicVisualizer } from './components/LogicVisualizer';
 import { Toast } from './components/Toast';
+import { SessionSidebar } from './components/SessionSidebar';
+import { ExportMenu } from './components/ExportMenu';
+import { QuizCard } from './components/QuizCard';
+import { MasteryDashboard } from './components/MasteryDashboard';
+import { SolutionGate } from './components/SolutionGate';
+import { TemplateCard } from './components/TemplateCard';
+import { TemplateEditor } from './components/TemplateEditor';
+import { SubmissionTray } from './components/SubmissionTray';
+import { FeedbackReportCard } from './components/FeedbackReportCard';
+import { RubricEditor } from './components/RubricEditor';
+import { PseudocodeTracer } from './components/PseudocodeTracer';
+import { BlueprintEditor } from './components/BlueprintEditor';
+import { WalkthroughProgress } from './components/WalkthroughProgress';
+import { TurnFailureNotice } from './components/TurnFailureNotice';
+import { LanguageSwitcher } from './components/LanguageSwitcher';
+import { LevelControl } from './components/LevelControl';
+import { CodeBlock } from './components/CodeBlock';
+import { useI18n } from './components/I18nProvider';
+import { languageOption } from './services/i18n';
 
 declare global {
   interface AIStudio {
     hasSelectedApiKey: () => Promise<boolean>;
     openSelectKey: () => Promise<void>;
   }
+  interface Window {
+    aistudio?: AIStudio; // Only present when running inside AI Studio with direct provider calls.
+  }
 }
 
+const needsNewKey = (error: AIServiceError) => error.kind === 'auth' || error.kind === 'permission';
+
+const openKeySelector = async () => {
+  try {
+    await window.aistudio?.openSelectKey();
+  } catch (err) {
+    console.error(err);
+  }
+};
+
 // --- UI COMPONENTS ---
 
 const UserIcon = () => (
@@ -52,9 +104,9 @@ const MarkdownRender: Components = {
   h1: ({node, ...props}) => <h1 className="text-lg font-bold text-stone-900 mt-6 mb-3 tracking-tight border-b border-stone-100 pb-2" {...props} />,
   h2: ({node, ...props}) => <h2 className="text-base font-bold text-stone-800 mt-5 mb-2" {...props} />,
   h3: ({node, ...props}) => <h3 className="text-sm font-bold text-stone-800 mt-4 mb-2 uppercase tracking-wide text-violet-700" {...props} />,
-  ul: ({node, ...props}) => <ul className="list-disc list-outside ml-5 mb-4 space-y-1 marker:text-violet-400 text-stone-700" {...props} />,
-  ol: ({node, ...props}) => <ol className="list-decimal list-outside ml-5 mb-4 space-y-1 marker:text-violet-400 text-stone-700" {...props} />,
-  li: ({node, ...props}) => <li className="pl-1" {...props} />,
+  ul: ({node, ...props}) => <ul className="list-disc list-outside ms-5 mb-4 space-y-1 marker:text-violet-400 text-stone-700" {...props} />,
+  ol: ({node, ...props}) => <ol className="list-decimal list-outside ms-5 mb-4 space-y-1 marker:text-violet-400 text-stone-700" {...props} />,
+  li: ({node, ...props}) => <li className="ps-1" {...props} />,
   blockquote: ({node, ...props}) => (
     <div className="flex gap-3 my-4">
         <div className="w-1 rounded-full bg-violet-300 shrink-0"></div>
@@ -62,58 +114,67 @@ const MarkdownRender: Components = {
     </div>
   ),
   a: ({node, ...props}) => <a className="text-violet-600 hover:text-violet-800 underline decoration-violet-300 hover:decoration-violet-600 transition-all font-medium" target="_blank" rel="noopener noreferrer" {...props} />,
-  code: ({node, inline, className, children, ...props}: any) => {
-    return inline ? (
-      <code className="font-mono text-[0.9em] bg-stone-100 text-violet-700 px-1.5 py-0.5 rounded border border-stone-200" {...props}>{children}</code>
-    ) : (
-      <div className="relative group my-4 rounded-xl overflow-hidden shadow-lg border border-stone-800/50">
-        <div className="flex items-center gap-1.5 px-4 py-2 bg-[#1e1e20] border-b border-stone-700/50">
-             <div className="w-2.5 h-2.5 rounded-full bg-red-400/20 group-hover:bg-red-500 transition-colors"></div>
-             <div className="w-2.5 h-2.5 rounded-full bg-amber-400/20 group-hover:bg-amber-500 transition-colors"></div>
-             <div className="w-2.5 h-2.5 rounded-full bg-green-400/20 group-hover:bg-green-500 transition-colors"></div>
-             <div className="ml-auto text-[10px] text-stone-500 font-mono uppercase tracking-widest">Logic Snippet</div>
-        </div>
-        <pre className="font-mono text-xs bg-[#1e1e20] text-stone-300 p-5 overflow-x-auto m-0 leading-relaxed" {...props}>
-          <code>{children}</code>
-        </pre>
-      </div>
-    );
+  // Fenced blocks arrive as <pre><code class="language-…">; anything else reaching `code` is inline.
+  pre: ({node, children}) => {
+    const code = React.Children.toArray(children)[0];
+    if (!React.isValidElement<{ className?: string; children?: React.ReactNode }>(code)) return <pre>{children}</pre>;
+    const language = /language-(\S+)/.exec(code.props.className || '')?.[1];
+    return <CodeBlock code={String(code.props.children ?? '').replace(/\n$/, '')} language={language} />;
   },
+  code: ({node, ...props}) => <code className="font-mono text-[0.9em] bg-stone-100 text-violet-700 px-1.5 py-0.5 rounded border border-stone-200" {...props} />,
   strong: ({node, ...props}) => <strong className="font-bold text-stone-900 bg-violet-50/80 px-0.5 rounded" {...props} />,
   table: ({node, ...props}) => <div className="overflow-x-auto my-4 rounded-lg border border-stone-200"><table className="min-w-full divide-y divide-stone-200" {...props} /></div>,
   thead: ({node, ...props}) => <thead className="bg-stone-50" {...props} />,
   tbody: ({node, ...props}) => <tbody className="divide-y divide-stone-200 bg-white" {...props} />,
   tr: ({node, ...props}) => <tr {...props} />,
-  th: ({node, ...props}) => <th className="px-4 py-3 text-left text-xs font-bold text-stone-500 uppercase tracking-wider" {...props} />,
+  th: ({node, ...props}) => <th className="px-4 py-3 text-start text-xs font-bold text-stone-500 uppercase tracking-wider" {...props} />,
   td: ({node, ...props}) => <td className="px-4 py-3 text-sm text-stone-700 whitespace-nowrap md:whitespace-pre-wrap" {...props} />,
 };
 
+const createWelcomeMessage = (text: string): Message => ({
+  id: 'welcome',
+  role: 'model',
+  text,
+  timestamp: Date.now(),
+});
+
 // --- MAIN APP COMPONENT ---
 
 const App: React.FC = () => {
+  const { language, t, tn } = useI18n();
+  // The greeting follows the interface language; callbacks read it through a ref so they stay stable.
+  const welcomeTextRef = useRef(t('chat.welcome'));
+  welcomeTextRef.current = t('chat.welcome');
+
   // State
-  const [messages, setMessages] = useState<Message[]>([
-    {
-      id: 'welcome',
-      role: 'model',
-      text: "Greetings. I am **Encrypt**. \n\nI am here to help you deconstruct complex logic without handing you the answers.\n\nI am fluent in **English, Hindi (हिन्दी), Telugu (తెలుగు), Tamil (தமிழ்)** and many more Indian languages.\n\nSelect your knowledge level above, and tell me: **What concept shall we architect today?**",
-      timestamp: Date.now(),
-    },
-  ]);
+  const [messages, setMessages] = useState<Message[]>(() => [createWelcomeMessage(welcomeTextRef.current)]);
   const [input, setInput] = useState('');
   const [isLoading, setIsLoading] = useState(false);
   const [knowledgeLevel, setKnowledgeLevel] = useState<KnowledgeLevel>(INITIAL_KNOWLEDGE_LEVEL);
   const [activeTab, setActiveTab] = useState<PaneTab>(PaneTab.VISUALIZER);
   const [visualization, setVisualization] = useState<LogicDiagram>({ items: [] });
   const [mentorMode, setMentorMode] = useState(false);
+  const [guardLog, setGuardLog] = useState<GuardIntervention[]>([]);
+  const [walkthrough, setWalkthrough] = useState<Walkthrough | null>(null);
+  const [contextSummary, setContextSummary] = useState<ConversationSummary | undefined>(undefined);
+  const [hints, setHints] = useState<HintRecord[]>([]);
+  const [calibration, setCalibration] = useState<LevelCalibration>(() => createCalibration(INITIAL_KNOWLEDGE_LEVEL));
+  const [levelHistory, setLevelHistory] = useState<LevelChange[]>([]);
+  const [levelNotice, setLevelNotice] = useState<{ change: LevelChange; applied: boolean } | null>(null); // A proposed or just-applied level change
+  const [quizRequested, setQuizRequested] = useState(false); // Set by the tutor; opens once its reply is done
   const [showToast, setShowToast] = useState(false);
-  const [toastMessage, setToastMessage] = useState("Think First! No direct code.");
+  const [toastMessage, setToastMessage] = useState('');
   
   // Mobile View State
   const [mobileView, setMobileView] = useState<'chat' | 'workspace'>('chat');
   
   // Templates State
+  const [library, setLibrary] = useState<LibraryTemplate[]>([]);
+  const [editingTemplate, setEditingTemplate] = useState<{ template: LibraryTemplate | null } | null>(null);
+  const [tracingTemplate, setTracingTemplate] = useState<Template | null>(null);
+  const [editingDiagram, setEditingDiagram] = useState<VisualItem | null>(null);
   const [sessionTemplates, setSessionTemplates] = useState<Template[]>([]);
+  const [usedTemplateIds, setUsedTemplateIds] = useState<string[]>([]);
   const [templateSearch, setTemplateSearch] = useState('');
   const [selectedCategory, setSelectedCategory] = useState<TemplateCategory>(TemplateCategory.ALL);
   const [isSynthesizing, setIsSynthesizing] = useState(false);
@@ -124,33 +185,293 @@ const App: React.FC = () => {
   const [isGeneratingImage, setIsGeneratingImage] = useState(false);
   const [generatedImageUrl, setGeneratedImageUrl] = useState<string | null>(null);
 
+  // Session State
+  const [sessions, setSessions] = useState<SessionSummary[]>([]);
+  const [activeSession, setActiveSession] = useState<{ id: string; name: string; createdAt: number } | null>(null);
+  const [isSidebarOpen, setIsSidebarOpen] = useState(false);
+  const skipNextSaveRef = useRef(true);
+  const pendingPromptRef = useRef<string | null>(null); // Sent once a freshly started session has rendered
+  const isDirtyRef = useRef(false);
+
+  // Mastery State
+  const [learners, setLearners] = useState<Learner[]>([]);
+  const [activeLearnerId, setActiveLearnerId] = useState<string | null>(null);
+  const [masteryRecords, setMasteryRecords] = useState<ConceptMastery[]>([]);
+
+  // Streaming State
+  const [streamingMessageId, setStreamingMessageId] = useState<string | null>(null);
+  const abortControllerRef = useRef<AbortController | null>(null);
+
   const messagesEndRef = useRef<HTMLDivElement>(null);
   const fileInputRef = useRef<HTMLInputElement>(null);
+  const [pendingFiles, setPendingFiles] = useState<SubmissionFile[]>([]);
+  const [submissionErrors, setSubmissionErrors] = useState<string[]>([]);
+  const [isReadingFiles, setIsReadingFiles] = useState(false);
+  const [reports, setReports] = useState<FeedbackReport[]>([]);
+  const [rubrics, setRubrics] = useState<Rubric[]>([]);
+  const [activeRubricId, setActiveRubricId] = useState<string | null>(() => getActiveRubricId());
+  const [editingRubric, setEditingRubric] = useState<{ rubric: Rubric | null } | null>(null);
+  const [testTemplateId, setTestTemplateId] = useState<string>('');
+  const [reviewStage, setReviewStage] = useState<'testing' | 'reviewing' | null>(null);
+  const packInputRef = useRef<HTMLInputElement>(null);
 
   useEffect(() => {
     messagesEndRef.current?.scrollIntoView({ behavior: 'smooth' });
   }, [messages, isLoading]);
 
+  // --- SESSION PERSISTENCE ---
+
+  const applySession = useCallback((session: StudySession) => {
+    skipNextSaveRef.current = true;
+    isDirtyRef.current = false;
+    setActiveSession({ id: session.id, name: session.name, createdAt: session.createdAt });
+    setMessages(session.messages.length > 0
+      ? session.messages.map(m => m.id === 'welcome' ? { ...m, text: welcomeTextRef.current } : m)
+      : [createWelcomeMessage(welcomeTextRef.current)]);
+    setVisualization({ items: session.visualItems });
+    setSessionTemplates(session.sessionTemplates);
+    setUsedTemplateIds(session.usedTemplateIds || []);
+    setKnowledgeLevel(session.knowledgeLevel);
+    setCalibration(session.calibration ?? createCalibration(session.knowledgeLevel));
+    setLevelHistory(session.levelHistory || []);
+    setMentorMode(session.mentorMode);
+    setGuardLog(session.guardLog || []);
+    setWalkthrough(session.walkthrough ?? null);
+    setContextSummary(session.contextSummary);
+    setHints(session.hints || []);
+    setLevelNotice(null);
+    setQuizRequested(false);
+    setReports(session.reports || []);
+    setGeneratedImageUrl(null);
+    setEditingDiagram(null);
+    setActiveTab(PaneTab.VISUALIZER);
+  }, []);
+
+  const startNewSession = useCallback((overrides: Partial<StudySession> = {}) => {
+    const now = Date.now();
+    applySession({
+      id: createSessionId(),
+      name: '',
+      createdAt: now,
+      updatedAt: now,
+      messages: [createWelcomeMessage(welcomeTextRef.current)],
+      visualItems: [],
+      sessionTemplates: [],
+      usedTemplateIds: [],
+      knowledgeLevel: INITIAL_KNOWLEDGE_LEVEL,
+      mentorMode: false,
+      guardLog: [],
+      reports: [],
+      ...overrides,
+    });
+  }, [applySession]);
+
+  const buildSession = (): StudySession | null => {
+    if (!activeSession) return null;
+    const firstQuestion = messages.find(m => m.role === 'user')?.text.trim();
+    const name = !activeSession.name && firstQuestion
+      ? firstQuestion.slice(0, 48) + (firstQuestion.length > 48 ? '…' : '')
+      : activeSession.name;
+    return {
+      id: activeSession.id,
+      name,
+      createdAt: activeSession.createdAt,
+      updatedAt: Date.now(),
+      messages,
+      visualItems: visualization.items,
+      sessionTemplates,
+      usedTemplateIds,
+      knowledgeLevel,
+      mentorMode,
+      guardLog,
+      walkthrough: walkthrough ?? undefined,
+      reports,
+      contextSummary,
+      hints,
+      calibration,
+      levelHistory,
+    };
+  };
+
+  const persistSession = async () => {
+    const session = buildSession();
+    if (!session) return;
+    isDirtyRef.current = false;
+    try {
+      const summary = await saveSession(session);
+      setSessions(prev => [summary, ...prev.filter(s => s.id !== summary.id)]);
+      if (session.name !== activeSession?.name) {
+        setActiveSession(prev => prev && prev.id === session.id ? { ...prev, name: session.name } : prev);
+      }
+    } catch (err) {
+      console.error("Session autosave failed", err);
+    }
+  };
+
+  // Restore the most recent session on launch, or start a fresh one.
+  useEffect(() => {
+    let cancelled = false;
+    (async () => {
+      try {
+        const saved = await listSessions();
+        if (cancelled) return;
+        setSessions(saved);
+        const restored = saved.length > 0 ? await loadSession(saved[0].id) : null;
+        if (cancelled) return;
+        if (restored) applySession(restored);
+        else startNewSession();
+      } catch (err) {
+        console.error("Session store unavailable, continuing without persistence", err);
+        if (!cancelled) startNewSession();
+      }
+    })();
+    return () => { cancelled = true; };
+  }, [applySession, startNewSession]);
+
+  // Autosave the workspace whenever it changes.
+  useEffect(() => {
+    if (!activeSession) return;
+    if (skipNextSaveRef.current) {
+      skipNextSaveRef.current = false;
+      return;
+    }
+    isDirtyRef.current = true;
+    const timer = setTimeout(persistSession, AUTOSAVE_DELAY_MS);
+    return () => clearTimeout(timer);
+  }, [messages, visualization.items, sessionTemplates, usedTemplateIds, knowledgeLevel, mentorMode, guardLog, walkthrough, reports, contextSummary, hints, calibration, levelHistory]);
+
+  useEffect(() => {
+    const text = t('chat.welcome');
+    setMessages(prev => prev.some(m => m.id === 'welcome' && m.text !== text)
+      ? prev.map(m => m.id === 'welcome' ? { ...m, text } : m)
+      : prev);
+  }, [t]);
+
+  const handleSelectSession = async (id: string) => {
+    if (isLoading || id === activeSession?.id) { setIsSidebarOpen(false); return; }
+    if (isDirtyRef.current) await persistSession();
+    try {
+      const session = await loadSession(id);
+      if (session) applySession(session);
+    } catch (err) {
+      console.error("Failed to load session", err);
+    }
+    setIsSidebarOpen(false);
+  };
+
+  const handleCreateSession = async () => {
+    if (isLoading) return;
+    if (isDirtyRef.current) await persistSession();
+    startNewSession();
+    setIsSidebarOpen(false);
+  };
+
+  const handleRenameSession = async (id: string, name: string) => {
+    setSessions(prev => prev.map(s => s.id === id ? { ...s, name } : s));
+    if (id === activeSession?.id) setActiveSession(prev => prev ? { ...prev, name } : prev);
+    try {
+      await renameSession(id, name);
+    } catch (err) {
+      console.error("Failed to rename session", err);
+    }
+  };
+
+  const handleDeleteSession = async (id: string) => {
+    if (isLoading && id === activeSession?.id) return;
+    try {
+      await deleteSession(id);
+    } catch (err) {
+      console.error("Failed to delete session", err);
+    }
+    const remaining = sessions.filter(s => s.id !== id);
+    setSessions(remaining);
+    if (id !== activeSession?.id) return;
+    const next = remaining.length > 0 ? await loadSession(remaining[0].id).catch(() => null) : null;
+    if (next) applySession(next);
+    else startNewSession();
+  };
+
+  // --- CONCEPT MASTERY ---
+
+  useEffect(() => {
+    ensureLearners()
+      .then(saved => {
+        setLearners(saved);
+        const storedId = getActiveLearnerId();
+        setActiveLearnerId(saved.some(l => l.id === storedId) ? storedId : saved[0].id);
+      })
+      .catch(err => console.error("Mastery store unavailable", err));
+  }, []);
+
+  useEffect(() => {
+    if (!activeLearnerId) return;
+    storeActiveLearnerId(activeLearnerId);
+    let cancelled = false;
+    listMastery(activeLearnerId)
+      .then(records => { if (!cancelled) setMasteryRecords(records); })
+      .catch(err => console.error("Failed to load mastery records", err));
+    return () => { cancelled = true; };
+  }, [activeLearnerId]);
+
+  const handleCreateLearner = async (name: string) => {
+    const learner: Learner = { id: createLearnerId(), name, createdAt: Date.now() };
+    try {
+      await saveLearner(learner);
+      setLearners(prev => [...prev, learner]);
+      setActiveLearnerId(learner.id);
+    } catch (err) {
+      console.error("Failed to create learner", err);
+    }
+  };
+
+  const applyAssessment = useCallback(async (assessment: MentorAssessment) => {
+    setMentorMode(assessment.status === 'satisfied');
+    if (!activeLearnerId) return;
+    try {
+      const record = await recordAssessment(activeLearnerId, assessment, activeSession?.id);
+      if (record) setMasteryRecords(prev => [record, ...prev.filter(r => r.id !== record.id)]);
+    } catch (err) {
+      console.error("Failed to record mastery", err);
+    }
+  }, [activeLearnerId, activeSession?.id]);
+
   // Handle automatic tab switching when logic is found
-  const extractVisualization = useCallback(async (text: string, imagePart?: string) => {
-    const mermaidRegex = /```(?:mermaid|flowchart|text|sequenceDiagram)?\s*([\s\S]*?)```/gi;
-    const conceptualRegex = /\[CONCEPTUAL_VISUAL:\s*([^\]]+)\]/gi;
-    
-    let match;
-    const newItems: VisualItem[] = [];
+  const appendVisualItems = useCallback((newItems: VisualItem[]) => {
+    if (newItems.length === 0) return;
+    setVisualization(prev => ({
+      ...prev,
+      items: [...prev.items, ...newItems]
+    }));
+    setActiveTab(PaneTab.VISUALIZER);
+    setMobileView('workspace');
+  }, []);
 
-    // Extract Mermaid Blocks
-    while ((match = mermaidRegex.exec(text)) !== null) {
-      const content = match[1].trim();
-      if (content.match(/^(graph|flowchart|sequenceDiagram|classDiagram|stateDiagram|erDiagram|gantt|pie|gitGraph|journey|C4Context)/i) || content.includes('-->')) {
-        newItems.push({
-          id: `mermaid-${Date.now()}-${Math.random()}`,
-          type: 'mermaid',
-          content: content,
+  // Renders in the background so the reply that asked for it is not held up.
+  const renderConceptImage = useCallback(async (prompt: string) => {
+    setIsGeneratingImage(true);
+    try {
+      const conceptualImg = await generateImage(prompt, "1K");
+      if (conceptualImg) {
+        appendVisualItems([{
+          id: `concept-${Date.now()}-${Math.random()}`,
+          type: 'image',
+          content: conceptualImg,
           timestamp: Date.now()
-        });
+        }]);
       }
+    } catch (err) {
+      const error = toAIServiceError(err);
+      console.error("Conceptual image generation failed", error);
+      if (needsNewKey(error)) await openKeySelector();
+    } finally {
+      setIsGeneratingImage(false);
     }
+  }, [appendVisualItems]);
+
+  // `skipMermaidBlocks` lets a streamed reply skip the diagrams it already extracted mid-stream.
+  const extractVisualization = useCallback(async (text: string, imagePart?: string, skipMermaidBlocks = 0) => {
+    // Extract Mermaid Blocks
+    const newItems: VisualItem[] = await Promise.all(extractMermaidBlocks(text).slice(skipMermaidBlocks).map(prepareMermaidItem));
 
     // Direct Image Part from Gemini
     if (imagePart) {
@@ -162,107 +483,519 @@ const App: React.FC = () => {
       });
     }
 
-    // Extract and Generate Conceptual Images
-    const conceptualMatches = [...text.matchAll(conceptualRegex)];
-    for (const cMatch of conceptualMatches) {
-      const prompt = cMatch[1].trim();
-      setIsGeneratingImage(true);
-      try {
-        const conceptualImg = await generateImage(prompt, "1K");
-        if (conceptualImg) {
-          newItems.push({
-            id: `concept-${Date.now()}-${Math.random()}`,
-            type: 'image',
-            content: conceptualImg,
-            timestamp: Date.now()
-          });
-        }
-      } catch (e: any) {
-        console.error("Conceptual image generation failed", e);
-        if (window.aistudio && (e.status === 403 || e.message?.includes('403') || e.message?.includes('Permission denied'))) {
-             try {
-                 await window.aistudio.openSelectKey();
-             } catch(err) { console.error(err); }
+    appendVisualItems(newItems);
+  }, [appendVisualItems]);
+
+  // --- LEVEL CALIBRATION ---
+
+  const changeLevel = useCallback((change: LevelChange) => {
+    setCalibration(prev => applyLevelChange(prev, change));
+    setKnowledgeLevel(bandOf(change.to));
+    setLevelHistory(prev => [...prev, change]);
+  }, []);
+
+  // Evidence always updates the estimate; a resulting change is applied or proposed depending on the mode.
+  const handleLevelEvidence = useCallback((evidence: LevelEvidence) => {
+    const { calibration: next, change } = applyEvidence(calibration, evidence);
+    setCalibration(next);
+    if (!change) return;
+    if (next.mode === 'auto') changeLevel(change);
+    setLevelNotice({ change, applied: next.mode === 'auto' });
+  }, [calibration, changeLevel]);
+
+  const handleSelectLevel = (level: KnowledgeLevel) => {
+    const to = stepOf(level);
+    if (to === calibration.step) return;
+    changeLevel({ from: calibration.step, to, source: 'manual', at: Date.now() });
+    setLevelNotice(null);
+  };
+
+  const handleLevelModeChange = (mode: LevelMode) => {
+    setCalibration(prev => ({ ...prev, mode, estimate: prev.step }));
+    setLevelNotice(null);
+  };
+
+  const handleAcceptLevelChange = (change: LevelChange) => {
+    changeLevel({ ...change, at: Date.now() });
+    setLevelNotice(null);
+  };
+
+  const handleDeclineLevelChange = () => {
+    setCalibration(declineLevelChange);
+    setLevelNotice(null);
+  };
+
+  const handleUndoLevelChange = (change: LevelChange) => {
+    changeLevel({ from: change.to, to: change.from, source: 'manual', at: Date.now() });
+    setLevelNotice(null);
+  };
+
+  const levelLabel = (step: number) => isAdaptive(calibration)
+    ? t('level.step', { level: t(`level.${bandOf(step)}`), step: stepInBand(step), steps: LEVEL_STEPS_PER_BAND })
+    : t(`level.${bandOf(step)}`);
+
+  // What the tutor's workspace tools act on, one per reply. Effects are queued and applied only once the reply
+  // has come back, so a failed reply that is retried does not add its blueprints and templates twice.
+  // Templates created during a reply are found by later rounds of it.
+  const createTurnWorkspace = useCallback(() => {
+    const created: Template[] = [];
+    const effects: (() => void)[] = [];
+    const workspace: TutorWorkspace = {
+      addBlueprint: async (mermaid) => {
+        const item = await prepareMermaidItem(mermaid);
+        effects.push(() => appendVisualItems([item]));
+      },
+      openTemplate: (title) => {
+        const query = title.trim().toLowerCase();
+        const candidates = [...created, ...library, ...sessionTemplates];
+        const tpl = candidates.find(c => c.title.toLowerCase() === query) ?? candidates.find(c => c.title.toLowerCase().includes(query));
+        if (!tpl) return undefined;
+        effects.push(() => {
+          setSelectedCategory(TemplateCategory.ALL);
+          setTemplateSearch(tpl.title);
+          setActiveTab(PaneTab.TEMPLATES);
+          setMobileView('workspace');
+          setUsedTemplateIds(prev => prev.includes(tpl.id) ? prev : [...prev, tpl.id]);
+        });
+        return tpl;
+      },
+      createTemplate: (draft) => {
+        const tpl: Template = { ...draft, id: `syn-${Date.now()}-${created.length}`, isSynthesized: true };
+        created.push(tpl);
+        effects.push(() => setSessionTemplates(prev => [tpl, ...prev]));
+        return tpl;
+      },
+      suggestKnowledgeLevel: (level, reason) => {
+        const change: LevelChange = { from: calibration.step, to: stepOf(level), source: 'conversation', reason, at: Date.now() };
+        effects.push(() => setLevelNotice({ change, applied: false }));
+      },
+      startQuiz: () => {
+        effects.push(() => setQuizRequested(true));
+      },
+      requestConceptImage: (prompt) => {
+        effects.push(() => { renderConceptImage(prompt); });
+      },
+    };
+    return { workspace, applyEffects: () => effects.splice(0).forEach(effect => effect()) };
+  }, [library, sessionTemplates, calibration.step, appendVisualItems, renderConceptImage]);
+
+  // --- SOLUTION GUARD ---
+
+  const logIntervention = useCallback((kind: GuardInterventionKind, detail: string, messageId?: string) => {
+    setGuardLog(prev => [...prev, createIntervention(kind, detail, messageId)]);
+  }, []);
+
+  // Runs the final reply through the guard; the original is kept on the message for the reveal gate.
+  const guardReply = useCallback((messageId: string, text: string): Partial<Message> => {
+    const { text: safeText, kinds } = guardResponse(text);
+    if (kinds.length === 0) return { text };
+    logIntervention('output_redacted', `Redacted ${kinds.join(' and ')} from the tutor reply`, messageId);
+    return { text: safeText, guarded: { original: text, kinds } };
+  }, [logIntervention]);
+
+  const handleTogglePin = (messageId: string) => {
+    setMessages(prev => prev.map(m => m.id === messageId ? { ...m, pinned: !m.pinned || undefined } : m));
+  };
+
+  const handleRevealSolution = (messageId: string) => {
+    if (!hasAttemptAfter(messages, messageId)) return;
+    setMessages(prev => prev.map(m => m.id === messageId && m.guarded
+      ? { ...m, text: m.guarded.original, guarded: { ...m.guarded, revealedAt: Date.now() } }
+      : m));
+    logIntervention('solution_revealed', 'Student revealed a redacted solution after attempting it', messageId);
+  };
+
+  // Streams a tutor reply into a placeholder message, pulling out diagrams as soon as their fences close.
+  const streamTutorReply = useCallback(async (
+    history: ChatTurn[],
+    prompt: string,
+    fallbackText: string,
+    turnContext: Pick<TutorContext, 'conversationSummary' | 'hintRequested'> = {}
+  ) => {
+    const controller = new AbortController();
+    abortControllerRef.current = controller;
+    const { name, nativeName } = languageOption(language);
+    const responseLanguage = name === nativeName ? name : `${name} (${nativeName})`;
+    const replyId = (Date.now() + 1).toString();
+    const updateReply = (patch: Partial<Message>) => setMessages(prev => prev.map(m => m.id === replyId ? { ...m, ...patch } : m));
+    let streamedText = '';
+    let extractedBlocks = 0;
+
+    setStreamingMessageId(replyId);
+    setMessages(prev => [...prev, { id: replyId, role: 'model', text: '', timestamp: Date.now(), knowledgeLevel }]);
+    const { workspace, applyEffects } = createTurnWorkspace();
+
+    try {
+      const response = await streamMessageToGemini(history, prompt, knowledgeLevel, {
+        signal: controller.signal,
+        context: { walkthrough: walkthrough ?? undefined, responseLanguage, hints, calibration, ...turnContext },
+        workspace,
+        onText: (text) => {
+          streamedText = text;
+          updateReply({ text: guardResponse(text).text });
+          const blocks = extractMermaidBlocks(text);
+          if (blocks.length > extractedBlocks) {
+            Promise.all(blocks.slice(extractedBlocks).map(prepareMermaidItem)).then(appendVisualItems);
+            extractedBlocks = blocks.length;
+          }
         }
-      } finally {
-        setIsGeneratingImage(false);
+      });
+
+      applyEffects();
+      if (response.aborted) {
+        if (response.text) updateReply({ ...guardReply(replyId, response.text), isPartial: true });
+        else setMessages(prev => prev.filter(m => m.id !== replyId));
+        return response;
+      }
+
+      // The cap is only stated in the prompt, so a hint the tutor gives past it is still recorded, flagged as over the cap.
+      const concept = response.hint?.concept || t('hint.currentProblem');
+      const given = response.hint ? hintsForProblem(hints, concept) : [];
+      const hint: MessageHint | undefined = response.hint && {
+        ...response.hint,
+        concept,
+        number: given.length + 1,
+        overCap: nextHintLevel(given.map(h => h.level)) === null || undefined,
+      };
+      updateReply({ ...guardReply(replyId, response.text || fallbackText), timestamp: Date.now(), hint });
+      if (hint) {
+        setHints(prev => [...prev, { concept: hint.concept, level: hint.level, messageId: replyId, requested: !!turnContext.hintRequested, overCap: hint.overCap, at: Date.now() }]);
       }
+      if (response.assessment) applyAssessment(response.assessment);
+      if (response.levelEvidence && isAdaptive(calibration)) handleLevelEvidence(response.levelEvidence);
+      if (response.completedWalkthroughStep) {
+        const step = response.completedWalkthroughStep;
+        setWalkthrough(prev => prev && completeWalkthroughStep(prev, step));
+      }
+      await extractVisualization(response.text, response.imagePart, extractedBlocks);
+      return response;
+    } catch (error) {
+      if (!streamedText) setMessages(prev => prev.filter(m => m.id !== replyId));
+      else updateReply({ ...guardReply(replyId, streamedText), isPartial: true });
+      throw error;
+    } finally {
+      abortControllerRef.current = null;
+      setStreamingMessageId(null);
     }
+  }, [knowledgeLevel, walkthrough, hints, calibration, language, createTurnWorkspace, handleLevelEvidence, appendVisualItems, extractVisualization, applyAssessment, guardReply, t]);
 
-    if (newItems.length > 0) {
-      setVisualization(prev => ({
-        ...prev,
-        items: [...prev.items, ...newItems]
-      }));
-      setActiveTab(PaneTab.VISUALIZER);
-      setMobileView('workspace');
+  const handleStopStreaming = () => abortControllerRef.current?.abort();
+
+  // If the summary cannot be updated the reply still goes out; only the overflowing turns are left out.
+  const foldIntoSummary = useCallback(async (current: ConversationSummary | undefined, overflow: Message[]) => {
+    try {
+      const text = await summarizeConversation(current?.text, overflow);
+      const next: ConversationSummary = { text, throughMessageId: overflow[overflow.length - 1].id, updatedAt: Date.now() };
+      setContextSummary(next);
+      return next;
+    } catch (err) {
+      console.error("Summarising earlier turns failed", err);
+      return current;
     }
   }, []);
 
-  const handleSendMessage = useCallback(async (customPrompt?: string) => {
+  // Streams the reply to a student turn. A failure is kept on the turn itself so it can be retried in place.
+  const requestReply = useCallback(async (turn: Message, previous: Message[]) => {
+    setIsLoading(true);
+    try {
+      const { history, overflow } = selectContext(previous, contextSummary);
+      const summary = overflow.length > 0 ? await foldIntoSummary(contextSummary, overflow) : contextSummary;
+      await streamTutorReply(history, turn.text, t('chat.fallbackReply'), {
+        conversationSummary: summary?.text,
+        hintRequested: turn.isHintRequest,
+      });
+    } catch (err) {
+      const error = toAIServiceError(err);
+      console.error("API Error", error);
+      setMessages(prev => prev.map(m => m.id === turn.id
+        ? { ...m, failure: { kind: error.kind, retryAfterMs: error.retryAfterMs, at: Date.now() } }
+        : m));
+    } finally { setIsLoading(false); }
+  }, [contextSummary, streamTutorReply, foldIntoSummary, t]);
+
+  // Quick actions go through the same check as typed input. Prompts the app builds from diagram, quiz or
+  // template data are `trusted`: they quote node labels and questions that can read like a request.
+  const handleSendMessage = useCallback(async (customPrompt?: string, { trusted = false }: { trusted?: boolean } = {}) => {
     const messageText = customPrompt || input;
     if (!messageText.trim()) return;
     
-    if (!customPrompt) {
-        const cheatRegex = /(give|write|show).*(code|answer|solution|full)/i;
-        if (cheatRegex.test(messageText) && !messageText.toLowerCase().includes('logic') && !messageText.toLowerCase().includes('explain') && !messageText.toLowerCase().includes('diagram')) {
-            setToastMessage("Think First! I cannot provide code directly. Let's discuss the logic.");
-            setShowToast(true);
-            return;
-        }
+    const cheatLanguage = trusted ? null : detectCheatRequest(messageText);
+    if (cheatLanguage) {
+        logIntervention('input_blocked', `${cheatLanguage} request for a direct solution: "${messageText.slice(0, 120)}"`);
+        setToastMessage(t('toast.cheat'));
+        setShowToast(true);
+        return;
     }
 
-    const newUserMsg: Message = { id: Date.now().toString(), role: 'user', text: messageText, timestamp: Date.now() };
+    const newUserMsg: Message = {
+      id: Date.now().toString(),
+      role: 'user',
+      text: messageText,
+      timestamp: Date.now(),
+      knowledgeLevel,
+      isAttempt: !customPrompt && isSubstantiveAttempt(messageText)
+    };
     setMessages((prev) => [...prev, newUserMsg]);
     if (!customPrompt) setInput('');
+    await requestReply(newUserMsg, messages);
+  }, [input, messages, knowledgeLevel, requestReply, logIntervention, t]);
+
+  // The problem the tutor last hinted on, which is what "I'm stuck" most likely refers to. The button stays
+  // available once that problem is out of hints: the student may have moved on, and the tutor tells them if not.
+  const hintProblem = hints[hints.length - 1]?.concept;
+  const hintsOnProblem = hintProblem ? hintsForProblem(hints, hintProblem) : [];
+
+  const handleRequestHint = () => {
+    if (isLoading) return;
+    const turn: Message = { id: Date.now().toString(), role: 'user', text: t('hint.stuckPrompt'), timestamp: Date.now(), knowledgeLevel, isHintRequest: true };
+    setMessages(prev => [...prev, turn]);
+    requestReply(turn, messages);
+  };
+
+  // Only the latest failed turn can be retried in place; anything after it is the partial reply of that attempt.
+  const failedTurnIndex = (messageId: string) => {
+    const index = messages.findIndex(m => m.id === messageId);
+    const isLatest = index >= 0 && messages.slice(index + 1).every(m => m.role === 'model' && m.isPartial);
+    return !isLoading && messages[index]?.failure && isLatest ? index : -1;
+  };
+
+  const handleRetryMessage = (messageId: string) => {
+    const index = failedTurnIndex(messageId);
+    if (index < 0) return;
+    const turn = { ...messages[index], failure: undefined };
+    setMessages([...messages.slice(0, index), turn]);
+    requestReply(turn, messages.slice(0, index));
+  };
+
+  // A blocked turn goes back into the input so the student can rephrase it.
+  const handleEditFailedMessage = (messageId: string) => {
+    const index = failedTurnIndex(messageId);
+    if (index < 0) return;
+    setInput(messages[index].text);
+    setMessages(messages.slice(0, index));
+  };
+
+  const handleChooseKeyAndRetry = async (messageId: string) => {
+    await openKeySelector();
+    handleRetryMessage(messageId);
+  };
+
+  const handleStartQuiz = async () => {
+    const conversation = messages
+      .filter(m => m.id !== 'welcome' && m.text.trim() && !m.quiz)
+      .slice(-8)
+      .map(m => `${m.role === 'user' ? 'Student' : 'Tutor'}: ${m.text}`)
+      .join('\n\n');
+    if (!conversation) {
+      setToastMessage(t('toast.quizNeedsContext'));
+      setShowToast(true);
+      return;
+    }
+
     setIsLoading(true);
+    try {
+      const quiz = await generateQuiz(conversation, knowledgeLevel);
+      if (quiz.questions.length === 0) throw new AIServiceError('invalid_output', "Quiz came back without usable questions");
+      setMessages(prev => [...prev, {
+        id: Date.now().toString(),
+        role: 'model',
+        text: t('chat.quizIntro', { topic: quiz.topic }),
+        timestamp: Date.now(),
+        knowledgeLevel,
+        quiz
+      }]);
+    } catch (err) {
+      const error = toAIServiceError(err);
+      console.error("Quiz generation failed", error);
+      const text = error.kind === 'invalid_output' || error.kind === 'unknown' ? t('chat.quizFailed') : t(`error.${error.kind}`);
+      setMessages(prev => [...prev, { id: Date.now().toString(), role: 'model', text, timestamp: Date.now() }]);
+      if (needsNewKey(error)) await openKeySelector();
+    } finally { setIsLoading(false); }
+  };
 
+  useEffect(() => {
+    if (!quizRequested || isLoading) return;
+    setQuizRequested(false);
+    handleStartQuiz();
+  }, [quizRequested, isLoading]);
+
+  const handleSubmitQuiz = async (messageId: string, responses: Record<string, QuizResponse>) => {
+    const quiz = messages.find(m => m.id === messageId)?.quiz;
+    if (!quiz) return;
     try {
-      const history = messages.map(m => ({ role: m.role, parts: [{ text: m.text }] }));
-      const response = await sendMessageToGemini(history, newUserMsg.text, knowledgeLevel);
-      
-      const newAiMsg: Message = { 
-        id: (Date.now() + 1).toString(), 
-        role: 'model', 
-        text: response.text || "I see. Let's explore the structure of this logic.", 
-        timestamp: Date.now() 
-      };
-      setMessages((prev) => [...prev, newAiMsg]);
+      const graded = await gradeQuiz(quiz, responses);
+      setMessages(prev => prev.map(m => m.id === messageId ? { ...m, quiz: graded } : m));
+      const evidence = isAdaptive(calibration) ? quizEvidence(graded, calibration.step) : undefined;
+      if (evidence) handleLevelEvidence({ ...evidence, reason: t('level.quizReason', { score: Math.round((graded.score ?? 0) * 100) }) });
+      const followUp = buildQuizFollowUpPrompt(graded);
+      if (followUp) await handleSendMessage(followUp, { trusted: true });
+    } catch (err) {
+      console.error("Quiz grading failed", err);
+      setToastMessage(t('toast.gradingFailed'));
+      setShowToast(true);
+    }
+  };
 
-      await extractVisualization(response.text, response.imagePart);
+  // Kick off the opening turn of a session started from a template, once its state has been applied.
+  useEffect(() => {
+    const prompt = pendingPromptRef.current;
+    if (!prompt || !activeSession) return;
+    pendingPromptRef.current = null;
+    handleSendMessage(prompt, { trusted: true });
+  }, [activeSession?.id]);
 
-      if (response.mentorStatus === 'satisfied') setMentorMode(true);
-      else if (response.mentorStatus === 'searching') setMentorMode(false);
-    } catch (error) {
-      console.error("API Error", error);
-      setMessages((prev) => [...prev, { id: Date.now().toString(), role: 'model', text: "Logical connection reset. Please rephrase.", timestamp: Date.now() }]);
-    } finally { setIsLoading(false); }
-  }, [input, messages, knowledgeLevel, extractVisualization]);
+  const handleStartWalkthrough = async (tpl: Template) => {
+    if (isLoading) return;
+    const guided = createWalkthrough(tpl);
+    if (!guided) {
+      setToastMessage(t('toast.noSteps'));
+      setShowToast(true);
+      return;
+    }
+    if (isDirtyRef.current) await persistSession();
+    pendingPromptRef.current = t('walkthrough.startPrompt', { title: tpl.title });
+    startNewSession({ name: t('walkthrough.sessionName', { title: tpl.title }), walkthrough: guided, usedTemplateIds: [tpl.id] });
+    setMobileView('chat');
+  };
+
+  const handleSaveDiagramRevision = (parent: VisualItem, content: string): VisualItem => {
+    const revision = createDiagramRevision(parent, content);
+    setVisualization(prev => ({ ...prev, items: [...prev.items, revision] }));
+    return revision;
+  };
+
+  const handleCheckDiagram = (revision: VisualItem) => {
+    const parent = visualization.items.find(i => i.id === revision.parentId);
+    setEditingDiagram(null);
+    setMobileView('chat');
+    handleSendMessage(buildDiagramCheckPrompt(revision, parent), { trusted: true });
+  };
+
+  const handleAskAboutDiagram = (prompt: string) => {
+    if (isLoading) {
+      setToastMessage(t('toast.waitForReply'));
+      setShowToast(true);
+      return;
+    }
+    setMobileView('chat');
+    handleSendMessage(prompt, { trusted: true });
+  };
 
   const handleRequestVisualization = () => {
-    handleSendMessage("Please provide an image or a diagram to explain the current concept. Appreciate it if you include a [CONCEPTUAL_VISUAL: ...] tag for a detailed vision.");
+    handleSendMessage(t('action.visualizePrompt'));
   };
 
-  const handleFileUpload = (e: React.ChangeEvent<HTMLInputElement>) => {
-    const file = e.target.files?.[0];
-    if (!file) return;
-    const reader = new FileReader();
-    reader.onload = async (event) => {
-      const content = event.target?.result as string;
-      const fileName = file.name;
-      const userMsg: Message = { id: Date.now().toString(), role: 'user', text: `I've uploaded "${fileName}" for your structural review.`, timestamp: Date.now() };
-      setMessages(prev => [...prev, userMsg]);
-      setIsLoading(true);
-      try {
-        const history = messages.map(m => ({ role: m.role, parts: [{ text: m.text }] }));
-        const prompt = `Review this logic draft from file "${fileName}":\n\n${content}`;
-        const response = await sendMessageToGemini(history, prompt, knowledgeLevel);
-        const aiMsg: Message = { id: (Date.now() + 1).toString(), role: 'model', text: response.text || "File processed.", timestamp: Date.now() };
-        setMessages((prev) => [...prev, aiMsg]);
-        await extractVisualization(response.text, response.imagePart);
-      } catch (err) { console.error(err); } finally { setIsLoading(false); if (fileInputRef.current) fileInputRef.current.value = ''; }
+  const handleAddSubmissionFiles = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const picked = Array.from(e.target.files || []);
+    if (fileInputRef.current) fileInputRef.current.value = '';
+    if (picked.length === 0) return;
+    setIsReadingFiles(true);
+    try {
+      const { files, errors } = await addSubmissionFiles(picked, pendingFiles);
+      setPendingFiles(files);
+      setSubmissionErrors(errors.map(issue => issue.kind === 'archiveSkipped'
+        ? tn('submission.archiveSkipped', issue.count, { name: issue.name })
+        : t(`submission.${issue.kind}`, issue)));
+    } catch (err) {
+      console.error("Reading submission failed", err);
+      setSubmissionErrors([t('submission.readFailed')]);
+    } finally {
+      setIsReadingFiles(false);
+    }
+  };
+
+  const handleSubmitFiles = async () => {
+    const rubric = rubrics.find(r => r.id === activeRubricId) ?? rubrics[0];
+    if (pendingFiles.length === 0 || isLoading || !rubric) return;
+    const files = pendingFiles;
+    const attachments = toAttachments(files);
+    const names = files.map(f => `"${f.name}"`);
+    // Drafts often quote the assignment ("write a program that..."), so uploads skip the input check
+    // and the review itself is told never to include a solution. A submission always counts as an attempt.
+    const userMsg: Message = {
+      id: Date.now().toString(),
+      role: 'user',
+      text: names.length > 3
+        ? tn('submission.uploadedMore', names.length - 3, { files: names.slice(0, 3).join(', ') })
+        : t('submission.uploaded', { files: names.join(', ') }),
+      timestamp: Date.now(),
+      knowledgeLevel,
+      isAttempt: true,
+      attachments,
+      submission: toSubmittedWork(files)
     };
-    reader.readAsText(file);
+    setMessages(prev => [...prev, userMsg]);
+    setPendingFiles([]);
+    setSubmissionErrors([]);
+    setIsLoading(true);
+    try {
+      const testTemplate = library.find(t => t.id === testTemplateId && t.tests?.cases.length);
+      const source = collectRunnableSource(files);
+      let testRun: TestRunResult | undefined;
+      if (testTemplate?.tests && source) {
+        setReviewStage('testing');
+        testRun = await runHiddenTests(source, testTemplate.tests, testTemplate);
+      }
+      setReviewStage('reviewing');
+      const previous = findPreviousReport(reports, attachments);
+      const testResults = testRun && testTemplate?.tests ? describeTestRun(testRun, testTemplate.tests) : undefined;
+      if (testResults) setMessages(prev => prev.map(m => m.id === userMsg.id ? { ...m, submission: toSubmittedWork(files, testResults) } : m));
+      const review = await generateSubmissionReview(buildSubmissionParts(files), rubric, knowledgeLevel, previous, testResults);
+      const report = buildFeedbackReport(review, rubric, attachments, previous, testRun);
+      setReports(prev => [...prev, report]);
+      setMessages(prev => [...prev, { id: (Date.now() + 1).toString(), role: 'model', text: describeReport(report), timestamp: Date.now(), knowledgeLevel }]);
+    } catch (err) {
+      const error = toAIServiceError(err);
+      console.error("Submission review failed", error);
+      // Put the files back and drop the turn, so submitting again does not repeat it.
+      setMessages(prev => prev.filter(m => m.id !== userMsg.id));
+      setPendingFiles(files);
+      setSubmissionErrors([t(`error.${error.kind}`)]);
+      if (needsNewKey(error)) await openKeySelector();
+    } finally {
+      setIsLoading(false);
+      setReviewStage(null);
+    }
+  };
+
+  // --- RUBRICS ---
+
+  useEffect(() => {
+    listRubrics()
+      .then(setRubrics)
+      .catch(err => {
+        console.error("Rubric store unavailable, using the default rubrics", err);
+        setRubrics(DEFAULT_RUBRICS);
+      });
+  }, []);
+
+  const handleSelectRubric = (id: string) => {
+    setActiveRubricId(id);
+    storeActiveRubricId(id);
+  };
+
+  const handleSaveRubric = async (rubric: Rubric) => {
+    try {
+      const saved = await saveRubric(rubric);
+      setRubrics(prev => prev.some(r => r.id === saved.id) ? prev.map(r => r.id === saved.id ? saved : r) : [...prev, saved]);
+      handleSelectRubric(saved.id);
+      setEditingRubric(null);
+    } catch (err) {
+      console.error("Failed to save rubric", err);
+      setToastMessage(t('toast.rubricSaveFailed'));
+      setShowToast(true);
+    }
+  };
+
+  const handleDeleteRubric = async (rubric: Rubric) => {
+    if (!window.confirm(t('rubric.confirmDelete', { name: rubric.name }))) return;
+    try {
+      await deleteRubric(rubric.id);
+      setRubrics(prev => prev.filter(r => r.id !== rubric.id));
+      setEditingRubric(null);
+    } catch (err) {
+      console.error("Failed to delete rubric", err);
+    }
   };
 
   const handleGenerateImage = async () => {
@@ -292,21 +1025,111 @@ const App: React.FC = () => {
           setActiveTab(PaneTab.VISUALIZER);
           setMobileView('workspace');
         }
-    } catch (error: any) { 
-        console.error("Image Gen Error", error); 
-        if (window.aistudio && (error.status === 403 || error.message?.includes('403') || error.message?.includes('Permission denied'))) {
-            try {
-                await window.aistudio.openSelectKey();
-                setToastMessage("Access Denied. Please select a paid API Key.");
-                setShowToast(true);
-            } catch(e) { console.error(e); }
-        }
+    } catch (err) {
+        const error = toAIServiceError(err);
+        console.error("Image Gen Error", error);
+        setToastMessage(t(`error.${error.kind}`));
+        setShowToast(true);
+        if (needsNewKey(error)) await openKeySelector();
     } finally { setIsGeneratingImage(false); }
   };
 
+  // --- TEMPLATE LIBRARY ---
+
+  useEffect(() => {
+    listLibrary()
+      .then(setLibrary)
+      .catch(err => {
+        console.error("Template library unavailable, showing built-ins only", err);
+        setLibrary(TEMPLATES.map(tpl => ({ ...tpl, source: 'builtin', version: 1, createdAt: 0, updatedAt: 0, history: [] })));
+      });
+  }, []);
+
+  const replaceInLibrary = (saved: LibraryTemplate) =>
+    setLibrary(prev => prev.some(t => t.id === saved.id) ? prev.map(t => t.id === saved.id ? saved : t) : [...prev, saved]);
+
+  const handleSaveTemplate = async (draft: TemplateDraft) => {
+    const target = editingTemplate?.template;
+    try {
+      const saved = target ? await updateTemplate(target.id, draft) : await createTemplate(draft);
+      replaceInLibrary(saved);
+      setEditingTemplate(null);
+    } catch (err) {
+      console.error("Failed to save template", err);
+      setToastMessage(t('toast.templateSaveFailed'));
+      setShowToast(true);
+    }
+  };
+
+  const handleRestoreTemplateVersion = async (version: number) => {
+    const target = editingTemplate?.template;
+    if (!target) return;
+    try {
+      const saved = await restoreTemplateVersion(target.id, version);
+      replaceInLibrary(saved);
+      setEditingTemplate({ template: saved });
+    } catch (err) {
+      console.error("Failed to restore template version", err);
+    }
+  };
+
+  const handleDuplicateTemplate = async (tpl: LibraryTemplate) => {
+    try {
+      replaceInLibrary(await duplicateTemplate(tpl));
+    } catch (err) {
+      console.error("Failed to duplicate template", err);
+    }
+  };
+
+  const handleDeleteTemplate = async (tpl: LibraryTemplate) => {
+    if (!window.confirm(tn('templates.confirmDelete', tpl.history.length, { title: tpl.title }))) return;
+    try {
+      await deleteTemplate(tpl.id);
+      setLibrary(prev => prev.filter(t => t.id !== tpl.id));
+    } catch (err) {
+      console.error("Failed to delete template", err);
+    }
+  };
+
+  const handlePromoteTemplate = async (tpl: Template) => {
+    try {
+      replaceInLibrary(await promoteTemplate(tpl));
+      setSessionTemplates(prev => prev.filter(t => t.id !== tpl.id));
+    } catch (err) {
+      console.error("Failed to promote template", err);
+    }
+  };
+
+  // Exports what the current category and search show, so a department can share one curriculum slice.
+  const handleExportPack = () => {
+    const ids = new Set(filteredTemplates.map(t => t.id));
+    const templates = library.filter(t => ids.has(t.id));
+    if (templates.length === 0) return;
+    const name = selectedCategory === TemplateCategory.ALL ? t('templates.packName') : t('templates.categoryPackName', { category: t(`category.${selectedCategory}`) });
+    downloadBlob(new Blob([buildTemplatePack(templates, name)], { type: 'application/json' }), `${name.toLowerCase().replace(/\s+/g, '-')}.json`);
+  };
+
+  const handleImportPack = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+    try {
+      const summary = await importTemplatePack(await file.text());
+      setLibrary(await listLibrary());
+      setToastMessage(summary.skipped
+        ? t('toast.packImportedSkipped', { added: summary.added, updated: summary.updated, skipped: summary.skipped })
+        : t('toast.packImported', { added: summary.added, updated: summary.updated }));
+    } catch (err) {
+      console.error("Template pack import failed", err);
+      setToastMessage(err instanceof PackImportError ? t(`toast.packError.${err.kind}`) : t('toast.packImportFailed'));
+    } finally {
+      setShowToast(true);
+      if (packInputRef.current) packInputRef.current.value = '';
+    }
+  };
+
   const filteredTemplates = useMemo(() => {
-    const allTemplates = [...TEMPLATES, ...sessionTemplates];
-    let list = allTemplates;
+    const libraryIds = new Set(library.map(t => t.id));
+    let list: (Template | LibraryTemplate)[] = [...library, ...sessionTemplates.filter(t => !libraryIds.has(t.id))];
     if (selectedCategory !== TemplateCategory.ALL) {
       list = list.filter(tpl => tpl.category === selectedCategory);
     }
@@ -317,9 +1140,24 @@ const App: React.FC = () => {
         const searchableText = `${tpl.title} ${tpl.description} ${tpl.content}`.toLowerCase();
         return keywords.every(kw => searchableText.includes(kw));
     });
-  }, [templateSearch, selectedCategory, sessionTemplates]);
+  }, [templateSearch, selectedCategory, sessionTemplates, library]);
 
-  const copyToClipboard = (content: string) => navigator.clipboard.writeText(content);
+  const copyTemplate = (tpl: Template) => {
+    navigator.clipboard.writeText(tpl.content);
+    setUsedTemplateIds(prev => prev.includes(tpl.id) ? prev : [...prev, tpl.id]);
+  };
+
+  const handleExport = async (format: ExportFormat) => {
+    const session = buildSession();
+    if (!session) return;
+    try {
+      await exportSession({ ...session, name: session.name || t('sessions.untitled') }, format, library);
+    } catch (err) {
+      console.error("Export failed", err);
+      setToastMessage(t('toast.exportFailed'));
+      setShowToast(true);
+    }
+  };
 
   const handleSynthesize = async () => {
     if (!templateSearch.trim()) return;
@@ -328,7 +1166,11 @@ const App: React.FC = () => {
       const newTpl = await synthesizeTemplate(templateSearch);
       setSessionTemplates(prev => [newTpl, ...prev]);
     } catch (err) {
-      console.error("Synthesis failed", err);
+      const error = toAIServiceError(err);
+      console.error("Synthesis failed", error);
+      setToastMessage(t(`error.${error.kind}`));
+      setShowToast(true);
+      if (needsNewKey(error)) await openKeySelector();
     } finally {
       setIsSynthesizing(false);
     }
@@ -337,18 +1179,68 @@ const App: React.FC = () => {
   return (
     <div className="flex h-[100dvh] w-screen bg-stone-50 text-stone-900 font-sans overflow-hidden">
       <Toast message={toastMessage} isVisible={showToast} onClose={() => setShowToast(false)} />
+      {editingTemplate && (
+        <TemplateEditor
+          key={editingTemplate.template ? `${editingTemplate.template.id}-v${editingTemplate.template.version}` : 'new'}
+          template={editingTemplate.template}
+          onSave={handleSaveTemplate}
+          onRestore={handleRestoreTemplateVersion}
+          onClose={() => setEditingTemplate(null)}
+        />
+      )}
+      {editingRubric && (
+        <RubricEditor
+          key={editingRubric.rubric?.id ?? 'new'}
+          rubric={editingRubric.rubric}
+          canDelete={rubrics.length > 1}
+          onSave={handleSaveRubric}
+          onDelete={handleDeleteRubric}
+          onClose={() => setEditingRubric(null)}
+        />
+      )}
+      {tracingTemplate && <PseudocodeTracer template={tracingTemplate} onClose={() => setTracingTemplate(null)} />}
+      {editingDiagram && (
+        <BlueprintEditor
+          key={editingDiagram.id}
+          item={editingDiagram}
+          items={visualization.items}
+          isBusy={isLoading}
+          onSave={handleSaveDiagramRevision}
+          onAskTutor={handleCheckDiagram}
+          onClose={() => setEditingDiagram(null)}
+        />
+      )}
+      <SessionSidebar
+        sessions={sessions}
+        activeSessionId={activeSession?.id ?? null}
+        isOpen={isSidebarOpen}
+        onClose={() => setIsSidebarOpen(false)}
+        onCreate={handleCreateSession}
+        onSelect={handleSelectSession}
+        onRename={handleRenameSession}
+        onDelete={handleDeleteSession}
+      />
       
       {/* HEADER */}
-      <div className="fixed top-0 left-0 right-0 h-16 bg-white/95 backdrop-blur-md border-b border-stone-200 flex items-center justify-between px-4 md:px-8 z-30 shadow-sm">
+      <div className="fixed top-0 inset-x-0 h-16 bg-white/95 backdrop-blur-md border-b border-stone-200 flex items-center justify-between px-4 md:px-8 z-30 shadow-sm">
         <div className="flex items-center gap-2 md:gap-3">
+            <button onClick={() => setIsSidebarOpen(true)} title={t('header.sessions')} className="p-2 -ms-2 text-stone-400 hover:text-violet-600 hover:bg-violet-50 rounded-lg transition-all">
+                <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" viewBox="0 0 20 20" fill="currentColor">
+                    <path fillRule="evenodd" d="M3 5a1 1 0 011-1h12a1 1 0 110 2H4a1 1 0 01-1-1zM3 10a1 1 0 011-1h12a1 1 0 110 2H4a1 1 0 01-1-1zM3 15a1 1 0 011-1h12a1 1 0 110 2H4a1 1 0 01-1-1z" clipRule="evenodd" />
+                </svg>
+            </button>
             <div className="w-8 h-8 md:w-10 md:h-10 bg-violet-600 rounded-xl flex items-center justify-center text-white font-bold text-lg md:text-xl shadow-lg shadow-violet-200">E</div>
-            <h1 className="font-bold text-lg md:text-xl tracking-tight truncate max-w-[120px] md:max-w-none">Encrypt <span className="text-violet-500 font-medium hidden md:inline">Infinite</span></h1>
+            <h1 className="font-bold text-lg md:text-xl tracking-tight truncate max-w-[120px] md:max-w-none">Encrypt <span className="text-violet-500 font-medium hidden md:inline">{t('header.subtitle')}</span></h1>
         </div>
-        <div className={`flex items-center gap-2 px-3 md:px-4 py-1.5 rounded-full border transition-all ${mentorMode ? 'bg-emerald-50 border-emerald-200' : 'bg-amber-50 border-amber-200'}`}>
-            <span className={`w-1.5 h-1.5 md:w-2 md:h-2 rounded-full ${mentorMode ? 'bg-emerald-500' : 'bg-amber-500 animate-pulse'}`}></span>
-            <span className={`text-[9px] md:text-[10px] font-bold uppercase tracking-widest ${mentorMode ? 'text-emerald-700' : 'text-amber-700'}`}>
-                {mentorMode ? 'Satisfied' : 'Socratic'}
-            </span>
+        <div className="flex items-center gap-2 md:gap-3">
+            <LanguageSwitcher />
+            <ExportMenu onExport={handleExport} disabled={!activeSession} />
+            <div className={`flex items-center gap-2 px-3 md:px-4 py-1.5 rounded-full border transition-all ${mentorMode ? 'bg-emerald-50 border-emerald-200' : 'bg-amber-50 border-amber-200'}`}>
+                <span className={`w-1.5 h-1.5 md:w-2 md:h-2 rounded-full ${mentorMode ? 'bg-emerald-500' : 'bg-amber-500 animate-pulse'}`}></span>
+                <span className={`text-[9px] md:text-[10px] font-bold uppercase tracking-widest ${mentorMode ? 'text-emerald-700' : 'text-amber-700'}`}>
+                    {mentorMode ? t('header.satisfied') : t('header.socratic')}
+                </span>
+            </div>
         </div>
       </div>
 
@@ -356,56 +1248,105 @@ const App: React.FC = () => {
       <main className="flex flex-col md:flex-row w-full pt-16 h-full pb-16 md:pb-0">
         
         {/* CHAT PANE */}
-        <div className={`w-full md:w-1/2 flex flex-col border-r border-stone-200 bg-white/50 h-full ${mobileView === 'chat' ? 'flex' : 'hidden md:flex'}`}>
+        <div className={`w-full md:w-1/2 flex flex-col border-e border-stone-200 bg-white/50 h-full ${mobileView === 'chat' ? 'flex' : 'hidden md:flex'}`}>
             
             {/* Logic Stream Header */}
             <div className="h-14 border-b border-stone-200 flex items-center justify-between px-4 md:px-6 bg-white shrink-0">
                 <div className="flex items-center gap-2">
                     <div className="w-2 h-2 rounded-full bg-violet-500 animate-pulse"></div>
-                    <span className="text-[10px] font-bold text-stone-500 uppercase tracking-widest">Logic Stream</span>
-                </div>
-                <div className="flex bg-stone-50 rounded-lg p-1 border border-stone-200 overflow-x-auto">
-                    {Object.values(KnowledgeLevel).map((level) => (
-                        <button key={level} onClick={() => setKnowledgeLevel(level)} className={`px-3 md:px-3 py-1.5 md:py-1 text-[10px] uppercase font-bold rounded-md transition-all whitespace-nowrap snap-center ${knowledgeLevel === level ? 'bg-white shadow-sm text-violet-600 border border-stone-100' : 'text-stone-400 hover:text-stone-600'}`}>{level}</button>
-                    ))}
+                    <span className="text-[10px] font-bold text-stone-500 uppercase tracking-widest">{t('chat.title')}</span>
+                    {activeSession && (
+                        <span className="hidden lg:inline text-[10px] text-stone-400 truncate max-w-[160px]">· {activeSession.name || t('sessions.untitled')}</span>
+                    )}
+                    {contextSummary && (
+                        <span className="hidden lg:inline text-[9px] font-bold uppercase tracking-wider text-violet-400 cursor-help" title={contextSummary.text}>· {t('chat.summarized')}</span>
+                    )}
                 </div>
+                <LevelControl calibration={calibration} history={levelHistory} onSelectLevel={handleSelectLevel} onModeChange={handleLevelModeChange} />
             </div>
 
             {/* Messages Area */}
             <div className="flex-1 overflow-y-auto p-4 md:p-6 space-y-8 bg-stone-50/30">
-                {messages.map((msg) => (
+                {messages.filter(msg => msg.text || msg.id !== streamingMessageId).map((msg) => (
                     <div key={msg.id} className={`flex gap-4 ${msg.role === 'user' ? 'flex-row-reverse' : 'flex-row'}`}>
                         {msg.role === 'user' ? <UserIcon /> : <AiIcon isMentor={mentorMode} />}
                         
                         <div className={`flex flex-col max-w-[85%] md:max-w-[80%] ${msg.role === 'user' ? 'items-end' : 'items-start'}`}>
                             <div className="flex items-center gap-2 mb-1.5 opacity-60">
                                 <span className="text-[10px] font-bold uppercase tracking-wider text-stone-500">
-                                    {msg.role === 'user' ? 'You' : 'Encrypt'}
+                                    {msg.role === 'user' ? t('chat.you') : 'Encrypt'}
                                 </span>
                                 <span className="text-[9px] text-stone-400">
-                                    {new Date(msg.timestamp).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}
+                                    {new Date(msg.timestamp).toLocaleTimeString(language, { hour: '2-digit', minute: '2-digit' })}
                                 </span>
+                                {msg.id === streamingMessageId && (
+                                    <span className="w-1.5 h-1.5 rounded-full bg-violet-500 animate-pulse"></span>
+                                )}
+                                {msg.isPartial && (
+                                    <span className="text-[9px] font-bold uppercase tracking-wider text-amber-600">{t('chat.stopped')}</span>
+                                )}
+                                {msg.hint && (
+                                    <span className="px-2 py-0.5 rounded-full bg-amber-50 border border-amber-200 text-[9px] font-bold uppercase tracking-wider text-amber-700" title={msg.hint.concept}>
+                                        {t('hint.badge', { number: msg.hint.number, max: MAX_HINTS_PER_PROBLEM })} · {t(`hint.level.${msg.hint.level}`)}
+                                    </span>
+                                )}
+                                {msg.id !== 'welcome' && msg.id !== streamingMessageId && (
+                                    <button
+                                        onClick={() => handleTogglePin(msg.id)}
+                                        title={msg.pinned ? t('chat.unpin') : t('chat.pin')}
+                                        className={`transition-colors ${msg.pinned ? 'text-violet-600' : 'text-stone-300 hover:text-violet-500'}`}
+                                    >
+                                        <svg xmlns="http://www.w3.org/2000/svg" className="h-3 w-3" viewBox="0 0 20 20" fill="currentColor">
+                                            <path d="M5 4a2 2 0 012-2h6a2 2 0 012 2v14l-5-2.5L5 18V4z" />
+                                        </svg>
+                                    </button>
+                                )}
                             </div>
                             
                             <div className={`w-full rounded-2xl p-5 shadow-sm border ${
                                 msg.role === 'user' 
-                                ? 'bg-violet-600 text-white border-violet-500 rounded-tr-sm' 
-                                : 'bg-white text-stone-800 border-stone-200 rounded-tl-sm'
+                                ? 'bg-violet-600 text-white border-violet-500 rounded-se-sm' 
+                                : 'bg-white text-stone-800 border-stone-200 rounded-ss-sm'
                             }`}>
-                                <div className={`${msg.role === 'user' ? 'text-white' : ''} text-sm`}>
-                                    <ReactMarkdown components={msg.role === 'user' ? undefined : MarkdownRender} remarkPlugins={[remarkGfm]}>
+                                <div dir="auto" className={`${msg.role === 'user' ? 'text-white' : ''} text-sm`}>
+                                    <ReactMarkdown components={msg.role === 'user' ? undefined : MarkdownRender} remarkPlugins={[remarkGfm, remarkMath]} rehypePlugins={[rehypeKatex]}>
                                         {msg.text}
                                     </ReactMarkdown>
                                 </div>
+                                {msg.attachments && msg.attachments.length > 0 && (
+                                    <div className="mt-3 flex flex-wrap gap-1.5">
+                                        {msg.attachments.map((file, index) => (
+                                            <span key={index} className="px-2 py-1 bg-violet-500/60 rounded-lg text-[10px] font-mono truncate max-w-[220px]" title={file.name}>
+                                                {file.kind === 'image' ? '🖼' : file.kind === 'pdf' ? '📄' : '⌨'} {file.name.split('/').pop()} · {formatBytes(file.size)}
+                                            </span>
+                                        ))}
+                                    </div>
+                                )}
+                                {msg.guarded && msg.id !== streamingMessageId && (
+                                    <SolutionGate guarded={msg.guarded} canReveal={hasAttemptAfter(messages, msg.id)} onReveal={() => handleRevealSolution(msg.id)} />
+                                )}
+                                {msg.quiz && (
+                                    <div className="mt-4">
+                                        <QuizCard quiz={msg.quiz} onSubmit={(responses) => handleSubmitQuiz(msg.id, responses)} disabled={isLoading} />
+                                    </div>
+                                )}
                             </div>
+                            {msg.failure && (
+                                <TurnFailureNotice
+                                    failure={msg.failure}
+                                    onRetry={failedTurnIndex(msg.id) >= 0 ? () => handleRetryMessage(msg.id) : undefined}
+                                    onEdit={failedTurnIndex(msg.id) >= 0 ? () => handleEditFailedMessage(msg.id) : undefined}
+                                    onChooseKey={window.aistudio && failedTurnIndex(msg.id) >= 0 ? () => handleChooseKeyAndRetry(msg.id) : undefined}
+                                />
+                            )}
                         </div>
                     </div>
                 ))}
 
-                {(isLoading || isGeneratingImage) && (
+                {((isLoading && !messages.some(m => m.id === streamingMessageId && m.text)) || isGeneratingImage) && (
                     <div className="flex gap-4">
                         <AiIcon isMentor={mentorMode} />
-                        <div className="flex items-center gap-1.5 h-10 px-4 bg-white rounded-2xl rounded-tl-sm border border-stone-200 shadow-sm">
+                        <div className="flex items-center gap-1.5 h-10 px-4 bg-white rounded-2xl rounded-ss-sm border border-stone-200 shadow-sm">
                              <div className="w-1.5 h-1.5 bg-violet-400 rounded-full animate-bounce"></div>
                              <div className="w-1.5 h-1.5 bg-violet-400 rounded-full animate-bounce [animation-delay:-0.15s]"></div>
                              <div className="w-1.5 h-1.5 bg-violet-400 rounded-full animate-bounce [animation-delay:-0.3s]"></div>
@@ -418,28 +1359,54 @@ const App: React.FC = () => {
             {/* Input & Actions Area */}
             <div className="p-4 md:p-6 border-t border-stone-200 bg-white/95 backdrop-blur-md shrink-0 shadow-[0_-4px_6px_-1px_rgba(0,0,0,0.02)]">
                 
+                {levelNotice && (levelNotice.applied || levelNotice.change.to !== calibration.step) && (
+                    <div className="flex items-center gap-3 mb-3 px-3 py-2 rounded-xl bg-violet-50 border border-violet-100">
+                        <p className="flex-1 text-[11px] leading-relaxed text-violet-800">
+                            <span className="font-bold">{t(levelNotice.applied ? 'level.adjusted' : 'level.suggested', { level: levelLabel(levelNotice.change.to) })}</span>
+                            {levelNotice.change.reason && ` ${levelNotice.change.reason}`}
+                        </p>
+                        {levelNotice.applied ? (
+                            <>
+                                <button onClick={() => handleUndoLevelChange(levelNotice.change)} className="text-[9px] font-bold uppercase tracking-wider px-2.5 py-1 rounded-lg border border-violet-200 text-violet-700 hover:bg-violet-100 transition-all">{t('level.undo')}</button>
+                                <button onClick={() => setLevelNotice(null)} className="text-[9px] font-bold uppercase tracking-wider px-2.5 py-1 rounded-lg bg-violet-600 text-white hover:bg-violet-700 transition-all">{t('level.ok')}</button>
+                            </>
+                        ) : (
+                            <>
+                                <button onClick={() => handleAcceptLevelChange(levelNotice.change)} className="text-[9px] font-bold uppercase tracking-wider px-2.5 py-1 rounded-lg bg-violet-600 text-white hover:bg-violet-700 transition-all">{t('level.switch')}</button>
+                                <button onClick={handleDeclineLevelChange} className="text-[9px] font-bold uppercase tracking-wider px-2.5 py-1 rounded-lg border border-violet-200 text-violet-700 hover:bg-violet-100 transition-all">{t('level.keep')}</button>
+                            </>
+                        )}
+                    </div>
+                )}
+
                 {/* Suggestion Chips */}
                 <div className="flex gap-2 pb-3 overflow-x-auto no-scrollbar mask-gradient mb-1">
                     <QuickAction 
-                        label="Analogy" 
+                        label={t('action.analogy')}
                         icon={<svg xmlns="http://www.w3.org/2000/svg" className="h-3 w-3" viewBox="0 0 20 20" fill="currentColor"><path d="M5 3a2 2 0 00-2 2v2a2 2 0 002 2h2a2 2 0 002-2V5a2 2 0 00-2-2H5zM5 11a2 2 0 00-2 2v2a2 2 0 002 2h2a2 2 0 002-2v-2a2 2 0 00-2-2H5zM11 5a2 2 0 012-2h2a2 2 0 012 2v2a2 2 0 01-2 2h-2a2 2 0 01-2-2V5zM11 13a2 2 0 012-2h2a2 2 0 012 2v2a2 2 0 01-2 2h-2a2 2 0 01-2-2v-2z" /></svg>}
-                        onClick={() => handleSendMessage("Explain this using a real-world analogy.")} 
+                        onClick={() => handleSendMessage(t('action.analogyPrompt'))} 
                         disabled={isLoading}
                     />
                     <QuickAction 
-                        label="Quiz Me" 
+                        label={hintsOnProblem.length > 0 ? `${t('hint.stuck')} · ${hintsOnProblem.length}/${MAX_HINTS_PER_PROBLEM}` : t('hint.stuck')}
+                        icon={<svg xmlns="http://www.w3.org/2000/svg" className="h-3 w-3" viewBox="0 0 20 20" fill="currentColor"><path d="M11 3a1 1 0 10-2 0v1a1 1 0 102 0V3zM15.657 5.757a1 1 0 00-1.414-1.414l-.707.707a1 1 0 001.414 1.414l.707-.707zM18 10a1 1 0 01-1 1h-1a1 1 0 110-2h1a1 1 0 011 1zM5.05 6.464A1 1 0 106.464 5.05l-.707-.707a1 1 0 00-1.414 1.414l.707.707zM5 10a1 1 0 01-1 1H3a1 1 0 110-2h1a1 1 0 011 1zM8 16v-1h4v1a2 2 0 11-4 0zM12 14c.015-.34.208-.646.477-.859a4 4 0 10-4.954 0c.27.213.462.519.476.859h4.002z" /></svg>}
+                        onClick={handleRequestHint}
+                        disabled={isLoading}
+                    />
+                    <QuickAction 
+                        label={t('action.quiz')}
                         icon={<svg xmlns="http://www.w3.org/2000/svg" className="h-3 w-3" viewBox="0 0 20 20" fill="currentColor"><path fillRule="evenodd" d="M18 10a8 8 0 11-16 0 8 8 0 0116 0zm-7 4a1 1 0 11-2 0 1 1 0 012 0zm-1-9a1 1 0 00-1 1v4a1 1 0 102 0V6a1 1 0 00-1-1z" clipRule="evenodd" /></svg>}
-                        onClick={() => handleSendMessage("Give me a short quiz to test my understanding.")} 
+                        onClick={handleStartQuiz} 
                         disabled={isLoading}
                     />
                     <QuickAction 
-                        label="Real World" 
+                        label={t('action.realWorld')}
                         icon={<svg xmlns="http://www.w3.org/2000/svg" className="h-3 w-3" viewBox="0 0 20 20" fill="currentColor"><path fillRule="evenodd" d="M10 18a8 8 0 100-16 8 8 0 000 16zM4.332 8.027a6.012 6.012 0 011.912-2.706C6.512 5.73 6.974 6 7.5 6A1.5 1.5 0 019 7.5V8a2 2 0 004 0 2 2 0 011.523-1.943A5.977 5.977 0 0116 10c0 .34-.028.675-.083 1H15a2 2 0 00-2 2v2.197A5.973 5.973 0 0110 16v-2a2 2 0 00-2-2 2 2 0 01-2-2 2 2 0 00-1.668-1.973z" clipRule="evenodd" /></svg>}
-                        onClick={() => handleSendMessage("How is this used in a real-world application?")} 
+                        onClick={() => handleSendMessage(t('action.realWorldPrompt'))} 
                         disabled={isLoading}
                     />
                      <QuickAction 
-                        label="Visualize" 
+                        label={t('action.visualize')}
                         icon={<svg xmlns="http://www.w3.org/2000/svg" className="h-3 w-3" viewBox="0 0 20 20" fill="currentColor"><path fillRule="evenodd" d="M3 3a1 1 0 000 2v8a2 2 0 002 2h2.586l-1.293 1.293a1 1 0 101.414 1.414L10 14.414l2.293 2.293a1 1 0 001.414-1.414L12.414 14H15a2 2 0 002-2V5a1 1 0 100-2H3zm11 4a1 1 0 10-2 0v4a1 1 0 102 0V7zm-3 1a1 1 0 10-2 0v3a1 1 0 102 0V8zM8 9a1 1 0 00-2 0v2a1 1 0 102 0V9z" clipRule="evenodd" /></svg>}
                         onClick={handleRequestVisualization} 
                         disabled={isLoading || isGeneratingImage}
@@ -454,18 +1421,30 @@ const App: React.FC = () => {
                         autoFocus
                         onChange={(e) => setInput(e.target.value)}
                         onKeyDown={(e) => e.key === 'Enter' && !e.shiftKey && (e.preventDefault(), handleSendMessage())}
-                        placeholder="Discuss the architecture of your thoughts..."
-                        className="w-full relative bg-white border border-stone-200 rounded-3xl px-5 py-4 pr-16 text-sm focus:outline-none focus:border-violet-500 focus:ring-1 focus:ring-violet-500 transition-all resize-none h-14 md:h-16 shadow-inner"
+                        placeholder={t('chat.placeholder')}
+                        className="w-full relative bg-white border border-stone-200 rounded-3xl px-5 py-4 pe-16 text-sm focus:outline-none focus:border-violet-500 focus:ring-1 focus:ring-violet-500 transition-all resize-none h-14 md:h-16 shadow-inner"
                     />
-                    <button 
-                        onClick={() => handleSendMessage()}
-                        disabled={isLoading || isGeneratingImage || !input.trim()}
-                        className="absolute right-2 top-1/2 -translate-y-1/2 p-2.5 bg-stone-900 text-white rounded-full hover:bg-violet-600 disabled:bg-stone-200 disabled:cursor-not-allowed transition-all shadow-lg hover:shadow-xl hover:scale-105 active:scale-95 flex items-center justify-center z-10"
-                    >
-                        <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4" viewBox="0 0 20 20" fill="currentColor">
-                            <path fillRule="evenodd" d="M10 18a8 8 0 100-16 8 8 0 000 16zm3.707-8.707l-3-3a1 1 0 00-1.414 1.414L10.586 9H7a1 1 0 100 2h3.586l-1.293 1.293a1 1 0 101.414 1.414l3-3a1 1 0 000-1.414z" clipRule="evenodd" />
-                        </svg>
-                    </button>
+                    {streamingMessageId ? (
+                        <button 
+                            onClick={handleStopStreaming}
+                            title={t('chat.stop')}
+                            className="absolute end-2 top-1/2 -translate-y-1/2 p-2.5 bg-red-500 text-white rounded-full hover:bg-red-600 transition-all shadow-lg hover:shadow-xl hover:scale-105 active:scale-95 flex items-center justify-center z-10"
+                        >
+                            <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4" viewBox="0 0 20 20" fill="currentColor">
+                                <path fillRule="evenodd" d="M10 18a8 8 0 100-16 8 8 0 000 16zM8 7a1 1 0 00-1 1v4a1 1 0 001 1h4a1 1 0 001-1V8a1 1 0 00-1-1H8z" clipRule="evenodd" />
+                            </svg>
+                        </button>
+                    ) : (
+                        <button 
+                            onClick={() => handleSendMessage()}
+                            disabled={isLoading || isGeneratingImage || !input.trim()}
+                            className="absolute end-2 top-1/2 -translate-y-1/2 p-2.5 bg-stone-900 text-white rounded-full hover:bg-violet-600 disabled:bg-stone-200 disabled:cursor-not-allowed transition-all shadow-lg hover:shadow-xl hover:scale-105 active:scale-95 flex items-center justify-center z-10"
+                        >
+                            <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4" viewBox="0 0 20 20" fill="currentColor">
+                                <path fillRule="evenodd" d="M10 18a8 8 0 100-16 8 8 0 000 16zm3.707-8.707l-3-3a1 1 0 00-1.414 1.414L10.586 9H7a1 1 0 100 2h3.586l-1.293 1.293a1 1 0 101.414 1.414l3-3a1 1 0 000-1.414z" clipRule="evenodd" />
+                            </svg>
+                        </button>
+                    )}
                 </div>
             </div>
         </div>
@@ -473,37 +1452,42 @@ const App: React.FC = () => {
         {/* WORKSPACE PANE */}
         <div className={`w-full md:w-1/2 bg-stone-50/50 flex-col h-full ${mobileView === 'workspace' ? 'flex' : 'hidden md:flex'}`}>
             <div className="h-14 flex border-b border-stone-200 bg-stone-50 px-2 md:px-4 pt-4 gap-2 overflow-x-auto no-scrollbar shrink-0">
-                {[PaneTab.VISUALIZER, PaneTab.TEMPLATES, PaneTab.UPLOAD, PaneTab.IMAGE_GEN].map(tab => (
+                {[PaneTab.VISUALIZER, PaneTab.TEMPLATES, PaneTab.UPLOAD, PaneTab.IMAGE_GEN, PaneTab.MASTERY].map(tab => (
                     <button key={tab} onClick={() => setActiveTab(tab)} className={`px-4 py-3 md:py-2 text-[10px] font-bold uppercase rounded-t-xl transition-all border-t border-x whitespace-nowrap min-w-[90px] md:min-w-0 ${activeTab === tab ? 'bg-white text-violet-600 border-stone-200 shadow-sm' : 'text-stone-400 border-transparent hover:text-stone-600'}`}>
-                        {tab === PaneTab.VISUALIZER && 'Blueprint'}
-                        {tab === PaneTab.TEMPLATES && 'Knowledge'}
-                        {tab === PaneTab.UPLOAD && 'Submissions'}
-                        {tab === PaneTab.IMAGE_GEN && 'Canvas'}
+                        {t(`tab.${tab}`)}
                     </button>
                 ))}
             </div>
+            {walkthrough && <WalkthroughProgress walkthrough={walkthrough} onEnd={() => setWalkthrough(null)} />}
             <div className="flex-1 overflow-y-auto p-4 md:p-6">
-                {activeTab === PaneTab.VISUALIZER && <LogicVisualizer items={visualization.items} />}
+                {activeTab === PaneTab.VISUALIZER && <LogicVisualizer items={visualization.items} onEdit={setEditingDiagram} onAsk={handleAskAboutDiagram} />}
                 
                 {activeTab === PaneTab.TEMPLATES && (
                     <div className="space-y-6">
                         <div className="flex flex-wrap gap-2 mb-4">
                             {Object.values(TemplateCategory).map(cat => (
-                                <button key={cat} onClick={() => setSelectedCategory(cat)} className={`px-3 py-2 md:py-1.5 rounded-full text-[9px] font-bold uppercase border transition-all ${selectedCategory === cat ? 'bg-violet-600 text-white border-violet-600' : 'bg-white text-stone-500 border-stone-200 hover:border-violet-300'}`}>{cat}</button>
+                                <button key={cat} onClick={() => setSelectedCategory(cat)} className={`px-3 py-2 md:py-1.5 rounded-full text-[9px] font-bold uppercase border transition-all ${selectedCategory === cat ? 'bg-violet-600 text-white border-violet-600' : 'bg-white text-stone-500 border-stone-200 hover:border-violet-300'}`}>{t(`category.${cat}`)}</button>
                             ))}
                         </div>
                         <div className="relative mb-8">
                             <input
                                 value={templateSearch}
                                 onChange={e => setTemplateSearch(e.target.value)}
-                                placeholder="Search logic templates..."
-                                className="w-full bg-white border border-stone-200 rounded-2xl py-4 pl-12 pr-4 text-sm focus:outline-none focus:border-violet-500 shadow-sm"
+                                placeholder={t('templates.search')}
+                                className="w-full bg-white border border-stone-200 rounded-2xl py-4 ps-12 pe-4 text-sm focus:outline-none focus:border-violet-500 shadow-sm"
                             />
-                            <svg xmlns="http://www.w3.org/2000/svg" className="absolute left-4 top-1/2 -translate-y-1/2 h-5 w-5 text-stone-300" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                            <svg xmlns="http://www.w3.org/2000/svg" className="absolute start-4 top-1/2 -translate-y-1/2 h-5 w-5 text-stone-300" fill="none" viewBox="0 0 24 24" stroke="currentColor">
                                 <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M21 21l-6-6m2-5a7 7 0 11-14 0 7 7 0 0114 0z" />
                             </svg>
                         </div>
 
+                        <div className="flex flex-wrap gap-2 -mt-4">
+                            <button onClick={() => setEditingTemplate({ template: null })} className="px-4 py-2 bg-violet-600 text-white rounded-xl text-[10px] font-bold uppercase tracking-widest hover:bg-violet-700 transition-all shadow-sm">{t('templates.new')}</button>
+                            <button onClick={() => packInputRef.current?.click()} className="px-4 py-2 bg-white border border-stone-200 text-stone-600 rounded-xl text-[10px] font-bold uppercase tracking-widest hover:border-violet-300 hover:text-violet-600 transition-all">{t('templates.import')}</button>
+                            <button onClick={handleExportPack} disabled={!filteredTemplates.some(t => library.some(l => l.id === t.id))} className="px-4 py-2 bg-white border border-stone-200 text-stone-600 rounded-xl text-[10px] font-bold uppercase tracking-widest hover:border-violet-300 hover:text-violet-600 disabled:opacity-50 transition-all">{t('templates.export')}</button>
+                            <input type="file" accept="application/json,.json" ref={packInputRef} onChange={handleImportPack} className="hidden" />
+                        </div>
+
                         {filteredTemplates.length === 0 && templateSearch.trim() && (
                             <div className="text-center py-16 bg-white rounded-3xl border border-stone-200 shadow-sm">
                                 <div className="w-16 h-16 bg-violet-50 rounded-full flex items-center justify-center mx-auto mb-4 text-violet-600">
@@ -511,50 +1495,58 @@ const App: React.FC = () => {
                                         <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19.428 15.428a2 2 0 00-1.022-.547l-2.387-.477a6 6 0 00-3.86.517l-.628.282a2 2 0 01-1.806 0l-.628-.282a6 6 0 00-3.86-.517l-2.387.477a2 2 0 00-1.022.547l-.34.34a2 2 0 000 2.828l1.245 1.245a2 2 0 002.828 0L9 15.586l1.245 1.245a2 2 0 002.828 0l1.245-1.245a2 2 0 002.828 0l1.245 1.245a2 2 0 002.828 0l.34-.34a2 2 0 000-2.828l-.34-.34z" />
                                     </svg>
                                 </div>
-                                <h3 className="font-bold text-stone-800 text-lg mb-2">Pattern Synthesizer</h3>
-                                <p className="text-sm text-stone-500 mb-8 max-w-xs mx-auto">Concept missing. Encrypt can architect a new template for you.</p>
-                                <button 
+                                <h3 className="font-bold text-stone-800 text-lg mb-2">{t('templates.synthTitle')}</h3>
+                                <p className="text-sm text-stone-500 mb-8 max-w-xs mx-auto">{t('templates.synthBody')}</p>
+                                <button
                                     onClick={handleSynthesize}
                                     disabled={isSynthesizing}
                                     className="px-8 py-3 bg-violet-600 text-white rounded-xl text-xs font-bold uppercase tracking-widest hover:bg-violet-700 disabled:bg-stone-300 transition-all shadow-lg shadow-violet-100"
                                 >
-                                    {isSynthesizing ? 'Architecting...' : 'Synthesize Logic'}
+                                    {isSynthesizing ? t('templates.synthesizing') : t('templates.synthesize')}
                                 </button>
                             </div>
                         )}
 
                         <div className="grid gap-6 pb-12">
-                            {filteredTemplates.map(tpl => (
-                                <div key={tpl.id} className={`p-6 bg-white border rounded-3xl group transition-all hover:border-violet-300 hover:shadow-xl hover:shadow-violet-100/30 ${tpl.isSynthesized ? 'border-violet-200' : 'border-stone-200'}`}>
-                                    <div className="flex justify-between items-start mb-4">
-                                        <div>
-                                            <span className="text-[9px] font-bold text-violet-500 uppercase tracking-widest bg-violet-50 px-2 py-0.5 rounded-md mb-2 inline-block">{tpl.category}</span>
-                                            <h4 className="font-bold text-stone-800 text-lg group-hover:text-violet-700 transition-colors">{tpl.title}</h4>
-                                        </div>
-                                        <button onClick={() => copyToClipboard(tpl.content)} className="p-2 text-stone-300 hover:text-violet-600 hover:bg-violet-50 rounded-lg transition-all">
-                                            <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" viewBox="0 0 20 20" fill="currentColor">
-                                                <path d="M7 9a2 2 0 012-2h6a2 2 0 012 2v6a2 2 0 01-2 2H9a2 2 0 01-2-2V9z" />
-                                                <path d="M5 5a2 2 0 012-2h6a2 2 0 012 2v1h2a2 2 0 012 2v6a2 2 0 01-2 2H9a2 2 0 01-2-2v-1H7a2 2 0 01-2-2V5z" />
-                                            </svg>
-                                        </button>
-                                    </div>
-                                    <p className="text-xs text-stone-500 mb-6 leading-relaxed">{tpl.description}</p>
-                                    <div className="bg-stone-50 p-5 rounded-2xl border border-stone-100 font-mono text-[10px] text-stone-600 leading-relaxed overflow-x-auto">
-                                        <pre>{tpl.content}</pre>
-                                    </div>
-                                </div>
-                            ))}
+                            {filteredTemplates.map(tpl => {
+                                const saved = library.find(t => t.id === tpl.id);
+                                return (
+                                    <TemplateCard
+                                        key={tpl.id}
+                                        template={tpl}
+                                        onCopy={() => copyTemplate(tpl)}
+                                        onEdit={saved && (() => setEditingTemplate({ template: saved }))}
+                                        onDuplicate={saved && (() => handleDuplicateTemplate(saved))}
+                                        onDelete={saved && (() => handleDeleteTemplate(saved))}
+                                        onPromote={saved ? undefined : () => handlePromoteTemplate(tpl)}
+                                        onStartGuided={parseTemplateSteps(tpl.content).length >= 2 ? () => handleStartWalkthrough(tpl) : undefined}
+                                        onTrace={isTraceable(tpl.content) ? () => setTracingTemplate(tpl) : undefined}
+                                    />
+                                );
+                            })}
                         </div>
                     </div>
                 )}
 
+                {activeTab === PaneTab.MASTERY && (
+                    <MasteryDashboard
+                        learners={learners}
+                        activeLearnerId={activeLearnerId}
+                        records={masteryRecords}
+                        onSelectLearner={setActiveLearnerId}
+                        onCreateLearner={handleCreateLearner}
+                    />
+                )}
+
                 {activeTab === PaneTab.UPLOAD && (
-                    <div className="h-full flex flex-col justify-center items-center">
+                    <div className="min-h-full flex flex-col justify-center items-center">
                         <div className="w-full max-w-md p-8 md:p-12 bg-white border-2 border-dashed border-stone-200 rounded-[2.5rem] hover:border-violet-400 hover:bg-violet-50/10 transition-all text-center group cursor-pointer relative shadow-sm">
                             <input 
                                 type="file" 
+                                multiple
+                                accept={ACCEPTED_SUBMISSION_TYPES}
                                 ref={fileInputRef}
-                                onChange={handleFileUpload}
+                                onChange={handleAddSubmissionFiles}
                                 className="absolute inset-0 w-full h-full opacity-0 cursor-pointer"
                             />
                             <div className="flex flex-col items-center">
@@ -563,11 +1555,60 @@ const App: React.FC = () => {
                                         <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={1.5} d="M7 16a4 4 0 01-.88-7.903A5 5 0 1115.9 6L16 6a5 5 0 011 9.9M15 13l-3-3m0 0l-3 3m3-3v12" />
                                     </svg>
                                 </div>
-                                <h3 className="text-lg md:text-xl font-bold text-stone-800 mb-2">Assignment Review</h3>
-                                <p className="text-xs md:text-sm text-stone-500 mb-8 max-w-[200px] mx-auto leading-relaxed">Submit your logic drafts for structural evaluation.</p>
-                                <span className="px-6 md:px-8 py-3 bg-stone-100 rounded-xl text-[9px] md:text-[10px] font-bold uppercase tracking-widest text-stone-600 group-hover:bg-violet-600 group-hover:text-white transition-all shadow-sm">Browse Files</span>
+                                <h3 className="text-lg md:text-xl font-bold text-stone-800 mb-2">{t('upload.title')}</h3>
+                                <p className="text-xs md:text-sm text-stone-500 mb-8 max-w-[240px] mx-auto leading-relaxed">{t('upload.body')}</p>
+                                <span className="px-6 md:px-8 py-3 bg-stone-100 rounded-xl text-[9px] md:text-[10px] font-bold uppercase tracking-widest text-stone-600 group-hover:bg-violet-600 group-hover:text-white transition-all shadow-sm">{pendingFiles.length > 0 ? t('upload.addMore') : t('upload.browse')}</span>
                             </div>
                         </div>
+                        <div className="w-full max-w-md mt-6 flex items-center gap-2">
+                            <span className="text-[9px] font-bold text-stone-400 uppercase tracking-[0.2em] shrink-0">{t('upload.rubric')}</span>
+                            <select
+                                value={rubrics.find(r => r.id === activeRubricId)?.id ?? rubrics[0]?.id ?? ''}
+                                onChange={e => handleSelectRubric(e.target.value)}
+                                className="flex-1 min-w-0 bg-white border border-stone-200 rounded-xl px-3 py-2 text-xs focus:outline-none focus:border-violet-500"
+                            >
+                                {rubrics.map(r => <option key={r.id} value={r.id}>{r.name} ({t('upload.points', { count: r.criteria.reduce((sum, c) => sum + c.maxScore, 0) })})</option>)}
+                            </select>
+                            <button
+                                onClick={() => setEditingRubric({ rubric: rubrics.find(r => r.id === activeRubricId) ?? rubrics[0] ?? null })}
+                                disabled={rubrics.length === 0}
+                                className="text-[9px] font-bold uppercase tracking-wider text-violet-600 hover:text-violet-800 disabled:text-stone-300"
+                            >
+                                {t('common.edit')}
+                            </button>
+                            <button onClick={() => setEditingRubric({ rubric: null })} className="text-[9px] font-bold uppercase tracking-wider text-violet-600 hover:text-violet-800">{t('common.new')}</button>
+                        </div>
+                        {library.some(t => t.tests?.cases.length) && (
+                            <div className="w-full max-w-md mt-2 flex items-center gap-2">
+                                <span className="text-[9px] font-bold text-stone-400 uppercase tracking-[0.2em] shrink-0">{t('upload.tests')}</span>
+                                <select
+                                    value={testTemplateId}
+                                    onChange={e => setTestTemplateId(e.target.value)}
+                                    className="flex-1 min-w-0 bg-white border border-stone-200 rounded-xl px-3 py-2 text-xs focus:outline-none focus:border-violet-500"
+                                >
+                                    <option value="">{t('upload.noTests')}</option>
+                                    {library.filter(tpl => tpl.tests?.cases.length).map(tpl => <option key={tpl.id} value={tpl.id}>{tpl.title} ({t('upload.testCount', { count: tpl.tests!.cases.length })})</option>)}
+                                </select>
+                            </div>
+                        )}
+                        <SubmissionTray
+                            files={pendingFiles}
+                            errors={submissionErrors}
+                            isReading={isReadingFiles}
+                            disabled={isLoading}
+                            onRemove={(id) => setPendingFiles(prev => prev.filter(f => f.id !== id))}
+                            onClear={() => { setPendingFiles([]); setSubmissionErrors([]); }}
+                            onSubmit={handleSubmitFiles}
+                        />
+                        {reviewStage && <p className="mt-4 text-center text-[10px] font-bold uppercase tracking-widest text-violet-500 animate-pulse">{reviewStage === 'testing' ? t('upload.testing') : t('upload.reviewing')}</p>}
+                        {reports.length > 0 && (
+                            <div className="w-full max-w-2xl mt-10 space-y-4 pb-12">
+                                <p className="text-[9px] font-bold text-stone-400 uppercase tracking-[0.2em]">{t('upload.reports')}</p>
+                                {[...reports].reverse().map(report => (
+                                    <FeedbackReportCard key={report.id} report={report} revision={revisionNumber(report, reports)} />
+                                ))}
+                            </div>
+                        )}
                     </div>
                 )}
 
@@ -576,7 +1617,7 @@ const App: React.FC = () => {
                         <div className="bg-white border border-stone-200 rounded-3xl p-6 shadow-sm shrink-0">
                             <textarea
                                 className="w-full bg-stone-50 border border-stone-200 rounded-2xl px-5 py-4 text-sm focus:outline-none focus:border-violet-500 transition-all resize-none h-28 mb-4 shadow-inner"
-                                placeholder="Conceptualize a visualization..."
+                                placeholder={t('canvas.placeholder')}
                                 value={imagePrompt}
                                 onChange={e => setImagePrompt(e.target.value)}
                             />
@@ -586,16 +1627,16 @@ const App: React.FC = () => {
                                     onChange={e => setImageSize(e.target.value)}
                                     className="bg-stone-100 border-none text-stone-600 py-2.5 px-4 rounded-xl text-[10px] font-bold uppercase tracking-widest focus:ring-0 cursor-pointer w-full md:w-auto"
                                 >
-                                    <option value="1K">Standard 1K</option>
-                                    <option value="2K">High-Res 2K</option>
-                                    <option value="4K">Ultra-Res 4K</option>
+                                    <option value="1K">{t('canvas.size1K')}</option>
+                                    <option value="2K">{t('canvas.size2K')}</option>
+                                    <option value="4K">{t('canvas.size4K')}</option>
                                 </select>
                                 <button 
                                     onClick={handleGenerateImage}
                                     disabled={isGeneratingImage || !imagePrompt.trim()}
                                     className="bg-violet-600 hover:bg-violet-700 disabled:bg-stone-300 text-white px-8 py-2.5 rounded-xl text-[10px] font-bold uppercase tracking-widest transition-all shadow-lg shadow-violet-100 active:scale-95 w-full md:w-auto"
                                 >
-                                    {isGeneratingImage ? 'Conceptualizing...' : 'Render Vision'}
+                                    {isGeneratingImage ? t('canvas.generating') : t('canvas.render')}
                                 </button>
                             </div>
                         </div>
@@ -603,11 +1644,11 @@ const App: React.FC = () => {
                             {isGeneratingImage ? (
                                 <div className="text-center">
                                     <div className="w-12 h-12 border-4 border-stone-100 border-t-violet-600 rounded-full animate-spin mb-4 mx-auto"></div>
-                                    <p className="text-[10px] font-bold text-stone-400 uppercase tracking-widest">Rendering...</p>
+                                    <p className="text-[10px] font-bold text-stone-400 uppercase tracking-widest">{t('canvas.rendering')}</p>
                                 </div>
                             ) : generatedImageUrl ? (
                                 <>
-                                    <img src={generatedImageUrl} className="max-h-full max-w-full object-contain p-6 group-hover:scale-105 transition-transform duration-700" alt="Generated Concept" />
+                                    <img src={generatedImageUrl} className="max-h-full max-w-full object-contain p-6 group-hover:scale-105 transition-transform duration-700" alt={t('canvas.generatedAlt')} />
                                     <button 
                                         onClick={() => {
                                           const newItem: VisualItem = {
@@ -620,9 +1661,9 @@ const App: React.FC = () => {
                                           setActiveTab(PaneTab.VISUALIZER);
                                           setMobileView('workspace');
                                         }}
-                                        className="absolute bottom-4 right-4 bg-white/90 backdrop-blur px-4 py-2 rounded-xl text-[10px] font-bold uppercase tracking-widest text-violet-600 shadow-lg border border-stone-100 opacity-0 group-hover:opacity-100 transition-opacity"
+                                        className="absolute bottom-4 end-4 bg-white/90 backdrop-blur px-4 py-2 rounded-xl text-[10px] font-bold uppercase tracking-widest text-violet-600 shadow-lg border border-stone-100 opacity-0 group-hover:opacity-100 transition-opacity"
                                     >
-                                        Append to Blueprint
+                                        {t('canvas.append')}
                                     </button>
                                 </>
                             ) : (
@@ -630,7 +1671,7 @@ const App: React.FC = () => {
                                     <svg xmlns="http://www.w3.org/2000/svg" className="h-20 w-20 mx-auto mb-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
                                         <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={1} d="M4 16l4.586-4.586a2 2 0 012.828 0L16 16m-2-2l1.586-1.586a2 2 0 012.828 0L20 14m-6-6h.01M6 20h12a2 2 0 002-2V6a2 2 0 00-2-2H6a2 2 0 00-2 2v12a2 2 0 002 2z" />
                                     </svg>
-                                    <p className="text-[10px] font-bold uppercase tracking-widest">Visual Canvas Empty</p>
+                                    <p className="text-[10px] font-bold uppercase tracking-widest">{t('canvas.empty')}</p>
                                 </div>
                             )}
                         </div>
@@ -641,7 +1682,7 @@ const App: React.FC = () => {
       </main>
 
       {/* MOBILE BOTTOM NAVIGATION */}
-      <div className="md:hidden fixed bottom-0 left-0 right-0 h-16 bg-white border-t border-stone-200 flex z-40 shadow-[0_-4px_6px_-1px_rgba(0,0,0,0.05)]">
+      <div className="md:hidden fixed bottom-0 inset-x-0 h-16 bg-white border-t border-stone-200 flex z-40 shadow-[0_-4px_6px_-1px_rgba(0,0,0,0.05)]">
         <button 
             onClick={() => setMobileView('chat')} 
             className={`flex-1 flex flex-col items-center justify-center gap-1 transition-colors ${mobileView === 'chat' ? 'text-violet-600 bg-violet-50/50' : 'text-stone-400 hover:bg-stone-50'}`}
@@ -649,7 +1690,7 @@ const App: React.FC = () => {
             <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
                 <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M8 10h.01M12 10h.01M16 10h.01M9 16H5a2 2 0 01-2-2V6a2 2 0 012-2h14a2 2 0 012 2v8a2 2 0 01-2 2h-5l-5 5v-5z" />
             </svg>
-            <span className="text-[10px] font-bold uppercase tracking-wide">Logic Stream</span>
+            <span className="text-[10px] font-bold uppercase tracking-wide">{t('chat.title')}</span>
         </button>
         <button 
             onClick={() => setMobileView('workspace')} 
@@ -658,7 +1699,7 @@ const App: React.FC = () => {
             <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
                 <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 11H5m14 0a2 2 0 012 2v6a2 2 0 01-2 2H5a2 2 0 01-2-2v-6a2 2 0 012-2m14 0V9a2 2 0 00-2-2M5 11V9a2 2 0 012-2m0 0V5a2 2 0 012-2h6a2 2 0 012 2v2M7 7h10" />
             </svg>
-            <span className="text-[10px] font-bold uppercase tracking-wide">Workspace</span>
+            <span className="text-[10px] font-bold uppercase tracking-wide">{t('nav.workspace')}</span>
         </button>
       </div>
     </div>
@@ -0,0 +1,235 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { VisualItem } from '../types';
+import { MermaidDiagram } from './MermaidDiagram';
+import { useI18n } from './I18nProvider';
+import { useBlueprintLabel } from './LogicVisualizer';
+import { diagramRevisions } from '../services/diagramService';
+import { describeDiff, diffDiagrams, diffHighlights, DiffTone, highlightDiagram, isEmptyDiff } from '../services/diagramDiff';
+import { validateMermaid } from '../services/mermaidRenderer';
+
+interface BlueprintEditorProps {
+  item: VisualItem;
+  items: VisualItem[]; // The whole Blueprint stack, for revision history and comparisons
+  isBusy: boolean; // The tutor is already replying
+  onSave: (parent: VisualItem, content: string) => VisualItem;
+  onAskTutor: (revision: VisualItem) => void;
+  onClose: () => void;
+}
+
+const PREVIEW_DELAY_MS = 400;
+
+const LEGEND: { tone: DiffTone; className: string }[] = [
+  { tone: 'added', className: 'bg-emerald-100 border-emerald-600' },
+  { tone: 'removed', className: 'bg-red-100 border-red-600' },
+  { tone: 'changed', className: 'bg-amber-100 border-amber-600' },
+];
+
+const TONE_TEXT: Record<DiffTone, string> = { added: 'text-emerald-700', removed: 'text-red-600', changed: 'text-amber-700' };
+
+export const BlueprintEditor: React.FC<BlueprintEditorProps> = ({ item, items, isBusy, onSave, onAskTutor, onClose }) => {
+  const { language, t } = useI18n();
+  const [base, setBase] = useState(item);
+  const [draft, setDraft] = useState(item.content);
+  const [preview, setPreview] = useState(item.content);
+  const [saveError, setSaveError] = useState<string | null>(null);
+  const [mode, setMode] = useState<'edit' | 'compare'>('edit');
+  // Compare an edit with the version it came from, or an original with its latest edit.
+  const [leftId, setLeftId] = useState(item.parentId ?? item.id);
+  const [rightId, setRightId] = useState(() => item.parentId ? item.id : diagramRevisions(items, item).slice(-1)[0]?.id ?? item.id);
+  const [highlighted, setHighlighted] = useState<{ left: string; right: string } | null>(null);
+
+  const diagrams = useMemo(() => items.filter(i => i.type === 'mermaid'), [items]);
+  const revisions = useMemo(() => diagramRevisions(items, base), [items, base]);
+  const isDirty = draft.trim() !== base.content.trim();
+
+  const labelFor = useBlueprintLabel(items);
+
+  useEffect(() => {
+    const timer = setTimeout(() => setPreview(draft), PREVIEW_DELAY_MS);
+    return () => clearTimeout(timer);
+  }, [draft]);
+
+  const left = diagrams.find(d => d.id === leftId);
+  const right = diagrams.find(d => d.id === rightId);
+  const diff = useMemo(() => left && right ? diffDiagrams(left.content, right.content) : null, [left, right]);
+  const changes = useMemo(() => left && right && diff ? describeDiff(diff, left.content, right.content) : [], [left, right, diff]);
+
+  useEffect(() => {
+    if (mode !== 'compare' || !left || !right || !diff) return;
+    let cancelled = false;
+    setHighlighted(null);
+    const { before, after } = diffHighlights(diff);
+    Promise.all([highlightDiagram(left.content, before), highlightDiagram(right.content, after)]).then(([l, r]) => {
+      if (!cancelled) setHighlighted({ left: l, right: r });
+    });
+    return () => { cancelled = true; };
+  }, [mode, left, right, diff]);
+
+  const selectBase = (revision: VisualItem) => {
+    if (isDirty && !window.confirm(t('blueprint.discard'))) return;
+    setBase(revision);
+    setDraft(revision.content);
+    setSaveError(null);
+  };
+
+  const saveDraft = async (): Promise<VisualItem | null> => {
+    const error = await validateMermaid(draft);
+    if (error) {
+      setSaveError(error);
+      return null;
+    }
+    setSaveError(null);
+    const revision = onSave(base, draft.trim());
+    setBase(revision);
+    setDraft(revision.content);
+    setLeftId(base.id);
+    setRightId(revision.id);
+    return revision;
+  };
+
+  const handleAsk = async () => {
+    const revision = isDirty ? await saveDraft() : base;
+    if (revision) onAskTutor(revision);
+  };
+
+  const select = (value: string, onChange: (id: string) => void) => (
+    <select
+      value={value}
+      onChange={e => onChange(e.target.value)}
+      className="bg-stone-50 border border-stone-200 rounded-lg px-2 py-1 text-[10px] font-bold text-stone-600 focus:outline-none focus:border-violet-500"
+    >
+      {diagrams.map(d => <option key={d.id} value={d.id}>{labelFor(d)}</option>)}
+    </select>
+  );
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-stone-900/20 backdrop-blur-sm" onClick={onClose}>
+      <div className="w-full max-w-6xl max-h-[90vh] bg-white rounded-3xl shadow-2xl flex flex-col overflow-hidden" onClick={e => e.stopPropagation()}>
+        <div className="h-14 px-6 flex items-center justify-between border-b border-stone-200 shrink-0 gap-4">
+          <div className="flex items-center gap-1 bg-stone-100 p-1 rounded-xl">
+            {(['edit', 'compare'] as const).map(m => (
+              <button
+                key={m}
+                onClick={() => setMode(m)}
+                className={`px-3 py-1 rounded-lg text-[10px] font-bold uppercase tracking-widest transition-all ${mode === m ? 'bg-white text-violet-600 shadow-sm' : 'text-stone-400 hover:text-stone-600'}`}
+              >
+                {m === 'edit' ? t('common.edit') : t('blueprint.compare')}
+              </button>
+            ))}
+          </div>
+          <span className="text-xs font-bold text-stone-600 uppercase tracking-widest truncate">{labelFor(base)}</span>
+          <button onClick={onClose} className="p-2 text-stone-400 hover:text-stone-700 rounded-lg">
+            <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4" viewBox="0 0 20 20" fill="currentColor">
+              <path fillRule="evenodd" d="M4.293 4.293a1 1 0 011.414 0L10 8.586l4.293-4.293a1 1 0 111.414 1.414L11.414 10l4.293 4.293a1 1 0 01-1.414 1.414L10 11.414l-4.293 4.293a1 1 0 01-1.414-1.414L8.586 10 4.293 5.707a1 1 0 010-1.414z" clipRule="evenodd" />
+            </svg>
+          </button>
+        </div>
+
+        {mode === 'edit' ? (
+          <div className="flex-1 overflow-y-auto p-6 space-y-4">
+            {revisions.length > 1 && (
+              <div className="flex flex-wrap items-center gap-2">
+                <p className="text-[9px] font-bold text-stone-400 uppercase tracking-[0.2em] mr-1">{t('blueprint.revisions')}</p>
+                {revisions.map((revision, index) => (
+                  <button
+                    key={revision.id}
+                    onClick={() => selectBase(revision)}
+                    title={new Date(revision.timestamp).toLocaleString(language)}
+                    className={`px-2.5 py-1 rounded-full text-[9px] font-bold uppercase border transition-all ${revision.id === base.id ? 'bg-violet-600 text-white border-violet-600' : 'bg-white text-stone-500 border-stone-200 hover:border-violet-300'}`}
+                  >
+                    {index === 0 ? t('blueprint.original') : t('blueprint.revision', { revision: index + 1 })}
+                  </button>
+                ))}
+              </div>
+            )}
+            <div className="grid md:grid-cols-2 gap-4">
+              <div className="flex flex-col min-w-0">
+                <p className="text-[9px] font-bold text-stone-400 uppercase tracking-[0.2em] mb-2">{t('blueprint.source')}</p>
+                <textarea
+                  value={draft}
+                  onChange={e => setDraft(e.target.value)}
+                  spellCheck={false}
+                  className="flex-1 min-h-[320px] bg-stone-50 border border-stone-200 rounded-2xl p-4 font-mono text-xs text-stone-700 leading-relaxed focus:outline-none focus:border-violet-500 resize-none"
+                />
+                {saveError && <p className="mt-2 text-[11px] text-red-600 font-mono whitespace-pre-wrap">{saveError}</p>}
+              </div>
+              <div className="min-w-0">
+                <p className="text-[9px] font-bold text-stone-400 uppercase tracking-[0.2em] mb-2">{t('blueprint.preview')}</p>
+                <div className="p-4 bg-white border border-stone-100 rounded-2xl shadow-sm">
+                  <MermaidDiagram source={preview} />
+                </div>
+              </div>
+            </div>
+          </div>
+        ) : (
+          <div className="flex-1 overflow-y-auto p-6 space-y-4">
+            <div className="grid md:grid-cols-2 gap-4">
+              {[{ id: leftId, set: setLeftId, source: highlighted?.left, caption: t('blueprint.before') }, { id: rightId, set: setRightId, source: highlighted?.right, caption: t('blueprint.after') }].map((side, index) => (
+                <div key={index} className="min-w-0">
+                  <div className="flex items-center justify-between mb-2">
+                    <p className="text-[9px] font-bold text-stone-400 uppercase tracking-[0.2em]">{side.caption}</p>
+                    {select(side.id, side.set)}
+                  </div>
+                  <div className="p-4 bg-white border border-stone-100 rounded-2xl shadow-sm">
+                    {side.source ? <MermaidDiagram source={side.source} /> : (
+                      <div className="flex items-center justify-center h-40">
+                        <div className="w-8 h-8 border-4 border-stone-100 border-t-violet-600 rounded-full animate-spin"></div>
+                      </div>
+                    )}
+                  </div>
+                </div>
+              ))}
+            </div>
+            <div className="p-4 bg-stone-50 border border-stone-100 rounded-2xl">
+              <div className="flex items-center justify-between mb-2">
+                <p className="text-[9px] font-bold text-stone-400 uppercase tracking-[0.2em]">{t('blueprint.changes')}</p>
+                {diff?.structural && (
+                  <div className="flex gap-3">
+                    {LEGEND.map(entry => (
+                      <span key={entry.tone} className="flex items-center gap-1 text-[9px] font-bold text-stone-400 uppercase tracking-wider">
+                        <span className={`w-2.5 h-2.5 rounded-sm border ${entry.className}`} />{t(`blueprint.legend.${entry.tone}`)}
+                      </span>
+                    ))}
+                  </div>
+                )}
+              </div>
+              {!diff || isEmptyDiff(diff) ? (
+                <p className="text-xs text-stone-400">{leftId === rightId ? t('blueprint.pickTwo') : t('blueprint.sameStructure')}</p>
+              ) : (
+                <>
+                  {!diff.structural && <p className="text-[10px] text-stone-400 mb-2">{t('blueprint.linesOnly')}</p>}
+                  <ul className="space-y-1">
+                    {changes.map((change, index) => <li key={index} className={`text-xs font-mono ${TONE_TEXT[change.tone]}`}>{t(`blueprint.change.${change.kind}`, change.params)}</li>)}
+                  </ul>
+                </>
+              )}
+            </div>
+          </div>
+        )}
+
+        <div className="px-6 py-4 border-t border-stone-200 flex justify-between items-center gap-2 shrink-0">
+          <p className="text-[10px] text-stone-400">{isDirty ? t('blueprint.unsaved') : t('blueprint.savedAsRevisions')}</p>
+          <div className="flex gap-2">
+            {mode === 'edit' && (
+              <button
+                onClick={saveDraft}
+                disabled={!isDirty}
+                className="px-4 py-2 text-[10px] font-bold uppercase tracking-widest text-violet-600 hover:text-violet-800 disabled:text-stone-300"
+              >
+                {t('blueprint.saveRevision')}
+              </button>
+            )}
+            <button
+              onClick={handleAsk}
+              disabled={isBusy || (base.origin !== 'edited' && !isDirty)}
+              title={base.origin !== 'edited' && !isDirty ? t('blueprint.changeFirst') : undefined}
+              className="px-6 py-2 bg-violet-600 text-white rounded-xl text-[10px] font-bold uppercase tracking-widest hover:bg-violet-700 disabled:bg-stone-300 transition-all shadow-lg shadow-violet-100"
+            >
+              {t('blueprint.check')}
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
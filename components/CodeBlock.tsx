@@ -0,0 +1,66 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { highlightCode } from '../services/codeHighlight';
+import { useI18n } from './I18nProvider';
+
+const COPIED_FEEDBACK_MS = 1500;
+
+interface CodeBlockProps {
+  code: string;
+  language?: string; // From the fence, e.g. ```python; detected when missing
+}
+
+// Always laid out left to right, so an Urdu interface mirrors the chat around it but never the code itself.
+export const CodeBlock: React.FC<CodeBlockProps> = ({ code, language }) => {
+  const { t } = useI18n();
+  const [showLineNumbers, setShowLineNumbers] = useState(false);
+  const [copied, setCopied] = useState(false);
+  const highlighted = useMemo(() => highlightCode(code, language), [code, language]);
+  const lineCount = code.split('\n').length;
+
+  useEffect(() => {
+    if (!copied) return;
+    const timer = setTimeout(() => setCopied(false), COPIED_FEEDBACK_MS);
+    return () => clearTimeout(timer);
+  }, [copied]);
+
+  const handleCopy = async () => {
+    try {
+      await navigator.clipboard.writeText(code);
+      setCopied(true);
+    } catch (err) {
+      console.error("Copy failed", err);
+    }
+  };
+
+  const toolClass = (active: boolean) => `px-2 py-0.5 rounded text-[9px] font-bold uppercase tracking-wider transition-colors ${active ? 'bg-violet-500/20 text-violet-300' : 'text-stone-500 hover:text-stone-300'}`;
+
+  return (
+    <div dir="ltr" className="relative group my-4 rounded-xl overflow-hidden shadow-lg border border-stone-800/50 bg-[#1e1e20]">
+      <div className="flex items-center gap-1.5 px-4 py-2 border-b border-stone-700/50">
+        <div className="w-2.5 h-2.5 rounded-full bg-red-400/20 group-hover:bg-red-500 transition-colors"></div>
+        <div className="w-2.5 h-2.5 rounded-full bg-amber-400/20 group-hover:bg-amber-500 transition-colors"></div>
+        <div className="w-2.5 h-2.5 rounded-full bg-green-400/20 group-hover:bg-green-500 transition-colors"></div>
+        <span
+          className="ms-3 text-[10px] text-stone-400 font-mono uppercase tracking-widest"
+          title={highlighted.detected ? t('code.detected') : undefined}
+        >
+          {highlighted.label ?? t('code.plainText')}
+        </span>
+        <div className="ms-auto flex items-center gap-1">
+          <button onClick={() => setShowLineNumbers(prev => !prev)} className={toolClass(showLineNumbers)} title={t('code.lineNumbers')}>#</button>
+          <button onClick={handleCopy} className={toolClass(copied)}>{copied ? t('code.copied') : t('code.copy')}</button>
+        </div>
+      </div>
+      <div className="flex font-mono text-xs leading-relaxed">
+        {showLineNumbers && (
+          <pre aria-hidden="true" className="select-none text-end text-stone-600 py-5 ps-4 pe-3 m-0 border-e border-stone-700/50">
+            {Array.from({ length: lineCount }, (_, i) => i + 1).join('\n')}
+          </pre>
+        )}
+        <pre className="flex-1 text-stone-300 p-5 overflow-x-auto m-0">
+          <code className="hljs" dangerouslySetInnerHTML={{ __html: highlighted.html }} />
+        </pre>
+      </div>
+    </div>
+  );
+};
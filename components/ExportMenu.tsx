@@ -0,0 +1,72 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { ExportFormat } from '../services/exportService';
+import { MessageKey } from '../locales';
+import { useI18n } from './I18nProvider';
+
+interface ExportMenuProps {
+  onExport: (format: ExportFormat) => Promise<void>;
+  disabled?: boolean;
+}
+
+const OPTIONS: { format: ExportFormat; label: string; hint: MessageKey }[] = [
+  { format: 'html', label: 'HTML', hint: 'export.htmlHint' },
+  { format: 'markdown', label: 'Markdown', hint: 'export.markdownHint' },
+  { format: 'pdf', label: 'PDF', hint: 'export.pdfHint' },
+];
+
+export const ExportMenu: React.FC<ExportMenuProps> = ({ onExport, disabled }) => {
+  const { t } = useI18n();
+  const [isOpen, setIsOpen] = useState(false);
+  const [busyFormat, setBusyFormat] = useState<ExportFormat | null>(null);
+  const menuRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    const onPointerDown = (e: PointerEvent) => {
+      if (!menuRef.current?.contains(e.target as Node)) setIsOpen(false);
+    };
+    document.addEventListener('pointerdown', onPointerDown);
+    return () => document.removeEventListener('pointerdown', onPointerDown);
+  }, [isOpen]);
+
+  const handleSelect = async (format: ExportFormat) => {
+    setBusyFormat(format);
+    try {
+      await onExport(format);
+      setIsOpen(false);
+    } finally {
+      setBusyFormat(null);
+    }
+  };
+
+  return (
+    <div ref={menuRef} className="relative">
+      <button
+        onClick={() => setIsOpen(prev => !prev)}
+        disabled={disabled}
+        title={t('export.button')}
+        className="p-2 text-stone-400 hover:text-violet-600 hover:bg-violet-50 rounded-lg transition-all disabled:opacity-50 disabled:cursor-not-allowed"
+      >
+        <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" viewBox="0 0 20 20" fill="currentColor">
+          <path fillRule="evenodd" d="M3 17a1 1 0 011-1h12a1 1 0 110 2H4a1 1 0 01-1-1zm3.293-7.707a1 1 0 011.414 0L9 10.586V3a1 1 0 112 0v7.586l1.293-1.293a1 1 0 111.414 1.414l-3 3a1 1 0 01-1.414 0l-3-3a1 1 0 010-1.414z" clipRule="evenodd" />
+        </svg>
+      </button>
+      {isOpen && (
+        <div className="absolute end-0 top-full mt-2 w-56 bg-white border border-stone-200 rounded-2xl shadow-xl shadow-stone-200/50 p-2 z-50">
+          <p className="px-3 pt-1 pb-2 text-[9px] font-bold text-stone-400 uppercase tracking-[0.2em]">{t('export.heading')}</p>
+          {OPTIONS.map(option => (
+            <button
+              key={option.format}
+              onClick={() => handleSelect(option.format)}
+              disabled={busyFormat !== null}
+              className="w-full text-start px-3 py-2 rounded-xl hover:bg-violet-50 transition-all disabled:opacity-50"
+            >
+              <span className="block text-xs font-bold text-stone-700">{busyFormat === option.format ? t('export.preparing') : option.label}</span>
+              <span className="block text-[10px] text-stone-400">{t(option.hint)}</span>
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,172 @@
+import React from 'react';
+import { FeedbackReport, RunnerError } from '../types';
+import { TEST_CASE_TIMEOUT_MS } from '../constants';
+import { reportTotals } from '../services/feedbackReport';
+import { useI18n } from './I18nProvider';
+
+interface FeedbackReportCardProps {
+  report: FeedbackReport;
+  revision: number; // 1 for a first submission, 2 for its first revision, ...
+}
+
+const SECTIONS: { key: 'strengths' | 'logicalGaps' | 'misconceptions' | 'unhandledEdgeCases'; tone: string }[] = [
+  { key: 'strengths', tone: 'text-emerald-700 bg-emerald-50 border-emerald-100' },
+  { key: 'logicalGaps', tone: 'text-amber-800 bg-amber-50 border-amber-100' },
+  { key: 'misconceptions', tone: 'text-red-700 bg-red-50 border-red-100' },
+  { key: 'unhandledEdgeCases', tone: 'text-violet-800 bg-violet-50 border-violet-100' },
+];
+
+const IssueList: React.FC<{ title: string; items: string[]; marker: string; className: string }> = ({ title, items, marker, className }) =>
+  items.length === 0 ? null : (
+    <div>
+      <p className="text-[9px] font-bold text-stone-400 uppercase tracking-[0.2em] mb-1">{title}</p>
+      <ul className="space-y-1">
+        {items.map((item, index) => (
+          <li key={index} className={`text-xs flex gap-2 ${className}`}><span className="shrink-0">{marker}</span><span>{item}</span></li>
+        ))}
+      </ul>
+    </div>
+  );
+
+// The runner's message, then what the student's code or the compiler said, which stays untranslated.
+const RunnerErrorText: React.FC<{ error: RunnerError; functionName: string; className: string; detailClassName: string }> = ({ error, functionName, className, detailClassName }) => {
+  const { t } = useI18n();
+  return (
+    <span className={className}>
+      {t(`runner.${error.kind}`, { name: functionName, seconds: TEST_CASE_TIMEOUT_MS / 1000 })}
+      {error.detail && (
+        <span className={detailClassName}>{error.line ? `${t('runner.line', { line: error.line })} ` : ''}{error.detail}</span>
+      )}
+    </span>
+  );
+};
+
+export const FeedbackReportCard: React.FC<FeedbackReportCardProps> = ({ report, revision }) => {
+  const { language, t, tn } = useI18n();
+  const { score, maxScore } = reportTotals(report);
+  const comparison = report.comparison;
+
+  return (
+    <div className="p-6 bg-white border border-stone-200 rounded-3xl shadow-sm space-y-5">
+      <div className="flex items-start justify-between gap-4">
+        <div className="min-w-0">
+          <div className="flex items-center gap-2 mb-1">
+            <span className="text-[9px] font-bold text-violet-500 uppercase tracking-widest bg-violet-50 px-2 py-0.5 rounded-md">{report.rubricName}</span>
+            {revision > 1 && <span className="text-[9px] font-bold text-stone-400 uppercase tracking-wider">{t('report.revision', { revision })}</span>}
+          </div>
+          <p className="text-xs font-bold text-stone-700 truncate" title={report.files.map(f => f.name).join(', ')}>
+            {report.files.map(f => f.name.split('/').pop()).join(', ')}
+          </p>
+          <p className="text-[10px] text-stone-400">{new Date(report.createdAt).toLocaleString(language, { dateStyle: 'medium', timeStyle: 'short' })}</p>
+        </div>
+        <div className="text-right shrink-0">
+          <p className="text-2xl font-bold text-stone-800">{score}<span className="text-sm text-stone-400">/{maxScore}</span></p>
+          {comparison && comparison.scoreChanges.length > 0 && (() => {
+            const delta = comparison.scoreChanges.reduce((sum, c) => sum + c.after - c.before, 0);
+            return (
+              <p className={`text-[10px] font-bold ${delta > 0 ? 'text-emerald-600' : delta < 0 ? 'text-red-500' : 'text-stone-400'}`}>
+                {t('report.sinceLast', { delta: delta > 0 ? `+${delta}` : delta })}
+              </p>
+            );
+          })()}
+        </div>
+      </div>
+
+      {report.summary && <p className="text-sm text-stone-600 leading-relaxed">{report.summary}</p>}
+
+      <div className="space-y-2">
+        {report.scores.map(s => {
+          const change = comparison?.scoreChanges.find(c => c.criterion === s.criterion);
+          return (
+            <div key={s.criterionId}>
+              <div className="flex items-center justify-between text-xs">
+                <span className="font-bold text-stone-700">{s.criterion}</span>
+                <span className="font-mono text-stone-500">
+                  {change && change.before !== change.after && (
+                    <span className={change.after > change.before ? 'text-emerald-600' : 'text-red-500'}>{change.before} → </span>
+                  )}
+                  {s.score}/{s.maxScore}
+                </span>
+              </div>
+              <div className="h-1.5 mt-1 bg-stone-100 rounded-full overflow-hidden">
+                <div className="h-full bg-violet-500 rounded-full transition-all" style={{ width: `${s.maxScore ? (s.score / s.maxScore) * 100 : 0}%` }} />
+              </div>
+              {s.comment && <p className="mt-1 text-[11px] text-stone-500">{s.comment}</p>}
+            </div>
+          );
+        })}
+      </div>
+
+      {report.testRun && (
+        <div className="p-4 bg-stone-50 border border-stone-100 rounded-2xl space-y-2">
+          <div className="flex items-center justify-between">
+            <p className="text-[9px] font-bold text-stone-400 uppercase tracking-[0.2em]">{t('report.hiddenTests', { title: report.testRun.templateTitle })}</p>
+            {!report.testRun.error && (
+              <span className={`text-xs font-bold ${report.testRun.passed === report.testRun.total ? 'text-emerald-600' : 'text-amber-700'}`}>
+                {t('report.passed', { passed: report.testRun.passed, total: report.testRun.total })}
+              </span>
+            )}
+          </div>
+          {report.testRun.error ? (
+            <RunnerErrorText error={report.testRun.error} functionName={report.testRun.functionName} className="block text-xs text-red-600" detailClassName="block mt-1 font-mono text-[10px]" />
+          ) : (
+            <>
+              <div className="flex gap-1">
+                {report.testRun.cases.map(c => (
+                  <div key={c.id} title={t(`report.case.${c.status}`)} className={`h-1.5 flex-1 rounded-full ${c.status === 'pass' ? 'bg-emerald-500' : c.status === 'skipped' ? 'bg-stone-200' : 'bg-red-400'}`} />
+                ))}
+              </div>
+              <ul className="space-y-1">
+                {report.testRun.cases.filter(c => c.status !== 'pass').map(c => {
+                  // The hint is bold, so it is spliced in where the translation puts it.
+                  const [beforeHint, afterHint] = t('report.caseWithHint', { outcome: t(`report.case.${c.status}`) }).split('{hint}');
+                  return (
+                    <li key={c.id} className="text-xs text-stone-600 flex gap-2">
+                      <span className="shrink-0 text-red-500">{c.status === 'skipped' ? '–' : '✗'}</span>
+                      <span>
+                        {c.hint ? <>{beforeHint}<span className="font-bold">{c.hint}</span>{afterHint}</> : t(`report.case.${c.status}`)}
+                        {c.status !== 'fail' && c.error && (
+                          <RunnerErrorText error={c.error} functionName={report.testRun!.functionName} className="block text-[10px] text-stone-400" detailClassName="block font-mono" />
+                        )}
+                      </span>
+                    </li>
+                  );
+                })}
+              </ul>
+            </>
+          )}
+          {report.testRun.logs.length > 0 && (
+            <details>
+              <summary className="text-[10px] text-stone-400 cursor-pointer">{tn('report.console', report.testRun.logs.length)}</summary>
+              <pre className="mt-1 p-2 bg-stone-900 text-emerald-300 rounded-lg font-mono text-[10px] max-h-32 overflow-auto">{report.testRun.logs.join('\n')}</pre>
+            </details>
+          )}
+        </div>
+      )}
+
+      {comparison && (
+        <div className="p-4 bg-stone-50 border border-stone-100 rounded-2xl space-y-3">
+          <p className="text-[9px] font-bold text-violet-500 uppercase tracking-[0.2em]">{t('report.compared')}</p>
+          <IssueList title={t('report.improved')} items={comparison.improvements} marker="↑" className="text-emerald-700" />
+          <IssueList title={t('report.fixed')} items={comparison.resolvedIssues} marker="✓" className="text-emerald-700 line-through decoration-emerald-300" />
+          <IssueList title={t('report.stillOpen')} items={comparison.remainingIssues} marker="•" className="text-amber-800" />
+          <IssueList title={t('report.newIssues')} items={comparison.newIssues} marker="+" className="text-red-600" />
+          {comparison.improvements.length + comparison.resolvedIssues.length + comparison.remainingIssues.length + comparison.newIssues.length === 0 && (
+            <p className="text-xs text-stone-400">{t('report.noDifferences')}</p>
+          )}
+        </div>
+      )}
+
+      <div className="grid md:grid-cols-2 gap-3">
+        {SECTIONS.filter(section => report[section.key].length > 0).map(section => (
+          <div key={section.key} className={`p-4 border rounded-2xl ${section.tone}`}>
+            <p className="text-[9px] font-bold uppercase tracking-[0.2em] mb-2">{t(`report.section.${section.key}`)}</p>
+            <ul className="space-y-1.5 list-disc pl-4">
+              {report[section.key].map((item, index) => <li key={index} className="text-xs leading-relaxed">{item}</li>)}
+            </ul>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,45 @@
+import React, { createContext, useCallback, useContext, useEffect, useMemo, useState } from 'react';
+import { UILanguage } from '../types';
+import { MessageKey } from '../locales';
+import { getStoredLanguage, languageOption, PluralKey, setStoredLanguage, translate, translateCount, TranslationParams } from '../services/i18n';
+
+interface I18nContextValue {
+  language: UILanguage;
+  direction: 'ltr' | 'rtl';
+  setLanguage: (language: UILanguage) => void;
+  t: (key: MessageKey, params?: TranslationParams) => string;
+  tn: (base: PluralKey, count: number, params?: TranslationParams) => string;
+}
+
+const I18nContext = createContext<I18nContextValue | null>(null);
+
+export const I18nProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+  const [language, setLanguageState] = useState<UILanguage>(getStoredLanguage);
+  const direction = languageOption(language).dir;
+
+  useEffect(() => {
+    document.documentElement.lang = language;
+    document.documentElement.dir = direction;
+  }, [language, direction]);
+
+  const setLanguage = useCallback((next: UILanguage) => {
+    setStoredLanguage(next);
+    setLanguageState(next);
+  }, []);
+
+  const value = useMemo<I18nContextValue>(() => ({
+    language,
+    direction,
+    setLanguage,
+    t: (key, params) => translate(language, key, params),
+    tn: (base, count, params) => translateCount(language, base, count, params),
+  }), [language, direction, setLanguage]);
+
+  return <I18nContext.Provider value={value}>{children}</I18nContext.Provider>;
+};
+
+export const useI18n = (): I18nContextValue => {
+  const context = useContext(I18nContext);
+  if (!context) throw new Error('useI18n must be used inside an I18nProvider');
+  return context;
+};
@@ -0,0 +1,51 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { UI_LANGUAGES } from '../constants';
+import { languageOption } from '../services/i18n';
+import { useI18n } from './I18nProvider';
+
+export const LanguageSwitcher: React.FC = () => {
+  const { language, setLanguage, t } = useI18n();
+  const [isOpen, setIsOpen] = useState(false);
+  const menuRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    const onPointerDown = (e: PointerEvent) => {
+      if (!menuRef.current?.contains(e.target as Node)) setIsOpen(false);
+    };
+    document.addEventListener('pointerdown', onPointerDown);
+    return () => document.removeEventListener('pointerdown', onPointerDown);
+  }, [isOpen]);
+
+  return (
+    <div ref={menuRef} className="relative">
+      <button
+        onClick={() => setIsOpen(prev => !prev)}
+        title={t('language.label')}
+        className="flex items-center gap-1.5 p-2 text-stone-400 hover:text-violet-600 hover:bg-violet-50 rounded-lg transition-all"
+      >
+        <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M3 5h12M9 3v2m1.048 9.5A18.022 18.022 0 016.412 9m6.088 9h7M11 21l5-10 5 10M12.751 5C11.783 10.77 8.07 15.61 3 18.129" />
+        </svg>
+        <span className="hidden sm:inline text-[10px] font-bold">{languageOption(language).nativeName}</span>
+      </button>
+      {isOpen && (
+        <div className="absolute end-0 top-full mt-2 w-48 max-h-80 overflow-y-auto bg-white border border-stone-200 rounded-2xl shadow-xl shadow-stone-200/50 p-2 z-50">
+          <p className="px-3 pt-1 pb-2 text-[9px] font-bold text-stone-400 uppercase tracking-[0.2em]">{t('language.label')}</p>
+          {UI_LANGUAGES.map(option => (
+            <button
+              key={option.code}
+              lang={option.code}
+              dir={option.dir}
+              onClick={() => { setLanguage(option.code); setIsOpen(false); }}
+              className={`w-full text-start px-3 py-2 rounded-xl transition-all ${option.code === language ? 'bg-violet-50' : 'hover:bg-stone-50'}`}
+            >
+              <span className={`block text-xs font-bold ${option.code === language ? 'text-violet-700' : 'text-stone-700'}`}>{option.nativeName}</span>
+              <span className="block text-[10px] text-stone-400">{option.name}</span>
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
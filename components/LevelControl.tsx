@@ -0,0 +1,92 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { LEVEL_STEPS_PER_BAND } from '../constants';
+import { bandOf, isAdaptive, stepInBand } from '../services/levelCalibration';
+import { KnowledgeLevel, LevelCalibration, LevelChange, LevelMode } from '../types';
+import { useI18n } from './I18nProvider';
+
+const MODES: LevelMode[] = ['manual', 'suggest', 'auto'];
+const HISTORY_SHOWN = 5;
+
+interface LevelControlProps {
+  calibration: LevelCalibration;
+  history: LevelChange[];
+  onSelectLevel: (level: KnowledgeLevel) => void;
+  onModeChange: (mode: LevelMode) => void;
+}
+
+export const LevelControl: React.FC<LevelControlProps> = ({ calibration, history, onSelectLevel, onModeChange }) => {
+  const { language, t } = useI18n();
+  const [isOpen, setIsOpen] = useState(false);
+  const menuRef = useRef<HTMLDivElement>(null);
+  const adaptive = isAdaptive(calibration);
+  const band = bandOf(calibration.step);
+  const position = stepInBand(calibration.step);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    const onPointerDown = (e: PointerEvent) => {
+      if (!menuRef.current?.contains(e.target as Node)) setIsOpen(false);
+    };
+    document.addEventListener('pointerdown', onPointerDown);
+    return () => document.removeEventListener('pointerdown', onPointerDown);
+  }, [isOpen]);
+
+  const stepLabel = (step: number) => t('level.step', { level: t(`level.${bandOf(step)}`), step: stepInBand(step), steps: LEVEL_STEPS_PER_BAND });
+
+  return (
+    <div className="flex items-center gap-1.5">
+      <div className="flex bg-stone-50 rounded-lg p-1 border border-stone-200 overflow-x-auto">
+        {Object.values(KnowledgeLevel).map((level) => (
+          <button key={level} onClick={() => onSelectLevel(level)} className={`flex items-center gap-1 px-3 md:px-3 py-1.5 md:py-1 text-[10px] uppercase font-bold rounded-md transition-all whitespace-nowrap snap-center ${band === level ? 'bg-white shadow-sm text-violet-600 border border-stone-100' : 'text-stone-400 hover:text-stone-600'}`}>
+            {t(`level.${level}`)}
+            {adaptive && band === level && (
+              <span className="flex gap-0.5" title={stepLabel(calibration.step)}>
+                {Array.from({ length: LEVEL_STEPS_PER_BAND }, (_, i) => (
+                  <span key={i} className={`w-1 h-1 rounded-full ${i < position ? 'bg-violet-500' : 'bg-stone-200'}`}></span>
+                ))}
+              </span>
+            )}
+          </button>
+        ))}
+      </div>
+      <div ref={menuRef} className="relative">
+        <button
+          onClick={() => setIsOpen(prev => !prev)}
+          title={t('level.mode')}
+          className={`p-1.5 rounded-lg border transition-all ${adaptive ? 'bg-violet-50 border-violet-200 text-violet-600' : 'border-stone-200 text-stone-400 hover:text-violet-600'}`}
+        >
+          <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4" viewBox="0 0 20 20" fill="currentColor">
+            <path d="M5 4a1 1 0 00-2 0v7.268a2 2 0 000 3.464V16a1 1 0 102 0v-1.268a2 2 0 000-3.464V4zM11 4a1 1 0 10-2 0v1.268a2 2 0 000 3.464V16a1 1 0 102 0V8.732a2 2 0 000-3.464V4zM16 3a1 1 0 011 1v7.268a2 2 0 010 3.464V16a1 1 0 11-2 0v-1.268a2 2 0 010-3.464V4a1 1 0 011-1z" />
+          </svg>
+        </button>
+        {isOpen && (
+          <div className="absolute end-0 top-full mt-2 w-60 bg-white border border-stone-200 rounded-2xl shadow-xl shadow-stone-200/50 p-2 z-50">
+            <p className="px-3 pt-1 pb-2 text-[9px] font-bold text-stone-400 uppercase tracking-[0.2em]">{t('level.mode')}</p>
+            {MODES.map(mode => (
+              <button
+                key={mode}
+                onClick={() => { onModeChange(mode); setIsOpen(false); }}
+                className={`w-full text-start px-3 py-2 rounded-xl text-xs font-bold transition-all ${calibration.mode === mode ? 'bg-violet-50 text-violet-700' : 'text-stone-700 hover:bg-stone-50'}`}
+              >
+                {t(`level.mode.${mode}`)}
+              </button>
+            ))}
+            {history.length > 0 && (
+              <>
+                <p className="px-3 pt-3 pb-2 text-[9px] font-bold text-stone-400 uppercase tracking-[0.2em] border-t border-stone-100 mt-2">{t('level.history')}</p>
+                {history.slice(-HISTORY_SHOWN).reverse().map(change => (
+                  <div key={change.at} className="px-3 py-1.5" title={change.reason}>
+                    <p className="text-[11px] text-stone-700">{stepLabel(change.from)} <span className="inline-block rtl:rotate-180">→</span> <span className="font-bold">{stepLabel(change.to)}</span></p>
+                    <p className="text-[9px] text-stone-400">
+                      {t(`level.source.${change.source}`)} · {new Date(change.at).toLocaleTimeString(language, { hour: '2-digit', minute: '2-digit' })}
+                    </p>
+                  </div>
+                ))}
+              </>
+            )}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
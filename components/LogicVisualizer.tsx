@@ -1,52 +1,87 @@
 
-import React, { useMemo } from 'react';
-import { VisualItem } from '../types';
+import React from 'react';
+import { DiagramAction, VisualItem } from '../types';
+import { MermaidDiagram } from './MermaidDiagram';
+import { useI18n } from './I18nProvider';
+import { DiagramGraph } from '../services/diagramDiff';
+import { blueprintLabel, blueprintPosition, buildDiagramElementPrompt, DiagramSelection } from '../services/diagramService';
 
 interface LogicVisualizerProps {
   items: VisualItem[];
   title?: string;
+  onEdit?: (item: VisualItem) => void;
+  onAsk?: (prompt: string) => void;
 }
 
-const VisualRenderer: React.FC<{ item: VisualItem }> = ({ item }) => {
-  const imageUrl = useMemo(() => {
-    if (item.type === 'image') return item.content;
-    try {
-      const cleanCode = item.content.trim();
-      const encoded = btoa(unescape(encodeURIComponent(cleanCode)));
-      return `https://mermaid.ink/img/${encoded}?bgColor=ffffff`;
-    } catch (e) {
-      console.error("Failed to encode mermaid diagram", e);
-      return null;
-    }
-  }, [item]);
+// "Blueprint 2 · Rev 3" in the interface language; prompts keep the English `blueprintLabel`.
+export const useBlueprintLabel = (items: VisualItem[]) => {
+  const { t } = useI18n();
+  return (item: VisualItem) => {
+    const { number, revision } = blueprintPosition(items, item);
+    return revision > 1 ? t('blueprint.labelRevision', { number: number || '?', revision }) : t('blueprint.label', { number: number || '?' });
+  };
+};
+
+interface VisualRendererProps {
+  item: VisualItem;
+  name: string;
+  label: string;
+  onEdit?: (item: VisualItem) => void;
+  onAsk?: (prompt: string) => void;
+}
 
-  if (!imageUrl) return null;
+const VisualRenderer: React.FC<VisualRendererProps> = ({ item, name, label, onEdit, onAsk }) => {
+  const { language, t, tn } = useI18n();
+  const handleAction = onAsk
+    ? (action: DiagramAction, selection: DiagramSelection, graph: DiagramGraph) => onAsk(buildDiagramElementPrompt(action, selection, graph, name))
+    : undefined;
 
   return (
     <div className="flex flex-col items-center justify-center w-full mb-8 last:mb-0">
       <div className="w-full bg-white p-4 rounded-2xl border border-stone-100 shadow-sm transition-all hover:shadow-md">
-        <img 
-          src={imageUrl} 
-          alt="Logic Visualization" 
-          className="w-full max-h-[500px] object-contain rounded-xl"
-          onError={(e) => {
-            (e.target as HTMLImageElement).src = 'https://via.placeholder.com/600x300?text=Logic+Rendering...';
-          }}
-        />
+        {item.type === 'mermaid' ? (
+          <MermaidDiagram source={item.content} onAction={handleAction} />
+        ) : (
+          <img 
+            src={item.content} 
+            alt={t('visualizer.vision')} 
+            className="w-full max-h-[500px] object-contain rounded-xl"
+          />
+        )}
         <div className="mt-3 flex justify-between items-center px-1">
-          <span className="text-[9px] font-bold text-stone-300 uppercase tracking-[0.2em]">
-            {item.type === 'mermaid' ? 'Structural Blueprint' : 'Conceptual Vision'}
-          </span>
-          <span className="text-[9px] text-stone-300">
-            {new Date(item.timestamp).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}
-          </span>
+          <div className="flex items-center gap-2">
+            <span className="text-[9px] font-bold text-stone-300 uppercase tracking-[0.2em]">
+              {item.type === 'mermaid' ? label : t('visualizer.vision')}
+            </span>
+            {item.origin === 'repaired' && (
+              <span title={tn('visualizer.repairedTitle', item.repairHistory?.length ?? 1)} className="text-[8px] font-bold uppercase tracking-wider text-amber-600 bg-amber-50 border border-amber-100 px-1.5 py-0.5 rounded">{t('visualizer.repaired')}</span>
+            )}
+            {item.origin === 'failed' && (
+              <span title={t('visualizer.failedTitle')} className="text-[8px] font-bold uppercase tracking-wider text-red-600 bg-red-50 border border-red-100 px-1.5 py-0.5 rounded">{t('visualizer.failed')}</span>
+            )}
+            {item.origin === 'edited' && (
+              <span title={t('visualizer.editedTitle')} className="text-[8px] font-bold uppercase tracking-wider text-violet-600 bg-violet-50 border border-violet-100 px-1.5 py-0.5 rounded">{t('visualizer.edited')}</span>
+            )}
+          </div>
+          <div className="flex items-center gap-3">
+            {item.type === 'mermaid' && onEdit && (
+              <button onClick={() => onEdit(item)} className="text-[9px] font-bold uppercase tracking-wider text-violet-600 hover:text-violet-800">
+                {t('common.edit')}
+              </button>
+            )}
+            <span className="text-[9px] text-stone-300">
+              {new Date(item.timestamp).toLocaleTimeString(language, { hour: '2-digit', minute: '2-digit' })}
+            </span>
+          </div>
         </div>
       </div>
     </div>
   );
 };
 
-export const LogicVisualizer: React.FC<LogicVisualizerProps> = ({ items, title }) => {
+export const LogicVisualizer: React.FC<LogicVisualizerProps> = ({ items, title, onEdit, onAsk }) => {
+  const { t, tn } = useI18n();
+  const labelFor = useBlueprintLabel(items);
   if (items.length === 0) {
     return (
       <div className="flex flex-col items-center justify-center h-full text-stone-400 p-12 text-center border-2 border-dashed border-stone-200 rounded-3xl bg-white/40">
@@ -55,8 +90,8 @@ export const LogicVisualizer: React.FC<LogicVisualizerProps> = ({ items, title }
             <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={1} d="M4 16l4.586-4.586a2 2 0 012.828 0L16 16m-2-2l1.586-1.586a2 2 0 012.828 0L20 14m-6-6h.01M6 20h12a2 2 0 002-2V6a2 2 0 00-2-2H6a2 2 0 00-2 2v12a2 2 0 002 2z" />
           </svg>
         </div>
-        <p className="text-xl font-bold text-stone-500">Visualization Stream</p>
-        <p className="text-sm mt-3 text-stone-400 max-w-xs">As you interact with Encrypt, diagrams and conceptual illustrations will appear here to clarify complex logic.</p>
+        <p className="text-xl font-bold text-stone-500">{t('visualizer.emptyTitle')}</p>
+        <p className="text-sm mt-3 text-stone-400 max-w-xs">{t('visualizer.emptyBody')}</p>
       </div>
     );
   }
@@ -66,21 +101,21 @@ export const LogicVisualizer: React.FC<LogicVisualizerProps> = ({ items, title }
       <div className="bg-white/80 backdrop-blur-md px-6 py-4 border-b border-stone-200 flex items-center justify-between sticky top-0 z-10">
         <div className="flex items-center gap-3">
           <div className="w-2 h-2 bg-violet-500 rounded-full animate-pulse"></div>
-          <span className="text-xs font-bold text-stone-600 uppercase tracking-widest">{title || "Active Blueprint Stack"}</span>
+          <span className="text-xs font-bold text-stone-600 uppercase tracking-widest">{title || t('visualizer.title')}</span>
         </div>
         <span className="text-[10px] font-bold text-violet-600 bg-violet-50 px-2.5 py-1 rounded-full border border-violet-100">
-          {items.length} Component{items.length !== 1 ? 's' : ''}
+          {tn('visualizer.components', items.length)}
         </span>
       </div>
       
       <div className="flex-1 p-6 overflow-y-auto bg-stone-50/30 space-y-4">
         {items.map((item) => (
-          <VisualRenderer key={item.id} item={item} />
+          <VisualRenderer key={item.id} item={item} name={blueprintLabel(items, item)} label={labelFor(item)} onEdit={onEdit} onAsk={onAsk} />
         ))}
       </div>
       
       <div className="bg-white/80 backdrop-blur-md px-6 py-3 border-t border-stone-200 text-center">
-         <p className="text-[9px] text-stone-400 uppercase tracking-[0.15em] font-medium">Auto-rendering synchronized with logic stream</p>
+         <p className="text-[9px] text-stone-400 uppercase tracking-[0.15em] font-medium">{t('visualizer.footer')}</p>
       </div>
     </div>
   );
@@ -0,0 +1,115 @@
+import React, { useState } from 'react';
+import { ConceptMastery, Learner } from '../types';
+import { useI18n } from './I18nProvider';
+
+interface MasteryDashboardProps {
+  learners: Learner[];
+  activeLearnerId: string | null;
+  records: ConceptMastery[];
+  onSelectLearner: (id: string) => void;
+  onCreateLearner: (name: string) => void;
+}
+
+const ConceptRow: React.FC<{ record: ConceptMastery }> = ({ record }) => {
+  const { language, t, tn } = useI18n();
+  const satisfied = record.status === 'satisfied';
+  const confidence = record.confidence !== undefined ? Math.round(record.confidence * 100) : null;
+
+  return (
+    <div className="p-4 bg-white border border-stone-200 rounded-2xl shadow-sm">
+      <div className="flex items-center justify-between gap-3">
+        <h4 className="text-sm font-bold text-stone-800 truncate">{record.concept}</h4>
+        <span className="shrink-0 text-[9px] text-stone-400 uppercase tracking-wider">
+          {tn('mastery.checks', record.assessments)} · {new Date(record.updatedAt).toLocaleDateString(language, { month: 'short', day: 'numeric' })}
+        </span>
+      </div>
+      {confidence !== null && (
+        <div className="mt-3 flex items-center gap-3">
+          <div className="flex-1 h-1.5 bg-stone-100 rounded-full overflow-hidden">
+            <div className={`h-full rounded-full ${satisfied ? 'bg-emerald-500' : 'bg-amber-400'}`} style={{ width: `${confidence}%` }} />
+          </div>
+          <span className="text-[10px] font-mono text-stone-400 w-9 text-right">{confidence}%</span>
+        </div>
+      )}
+      <div className="mt-3 flex items-center gap-1 flex-wrap">
+        {record.history.map((transition, index) => (
+          <span
+            key={index}
+            title={`${t(`mastery.status.${transition.status}`)} · ${new Date(transition.timestamp).toLocaleString(language)}`}
+            className={`w-2 h-2 rounded-full ${transition.status === 'satisfied' ? 'bg-emerald-500' : 'bg-amber-400'}`}
+          />
+        ))}
+        <span className="ml-1 text-[9px] text-stone-300 uppercase tracking-wider">
+          {tn('mastery.transitions', record.history.length)}
+        </span>
+      </div>
+    </div>
+  );
+};
+
+export const MasteryDashboard: React.FC<MasteryDashboardProps> = ({ learners, activeLearnerId, records, onSelectLearner, onCreateLearner }) => {
+  const { t } = useI18n();
+  const [newLearnerName, setNewLearnerName] = useState('');
+  const demonstrated = records.filter(r => r.status === 'satisfied');
+  const searching = records.filter(r => r.status === 'searching');
+
+  const handleCreate = () => {
+    const name = newLearnerName.trim();
+    if (!name) return;
+    onCreateLearner(name);
+    setNewLearnerName('');
+  };
+
+  return (
+    <div className="space-y-8 pb-12">
+      <div className="p-5 bg-white border border-stone-200 rounded-3xl shadow-sm">
+        <p className="text-[9px] font-bold text-stone-400 uppercase tracking-[0.2em] mb-3">{t('mastery.learner')}</p>
+        <div className="flex flex-wrap gap-2 mb-4">
+          {learners.map(learner => (
+            <button
+              key={learner.id}
+              onClick={() => onSelectLearner(learner.id)}
+              className={`px-3 py-1.5 rounded-full text-[10px] font-bold uppercase border transition-all ${learner.id === activeLearnerId ? 'bg-violet-600 text-white border-violet-600' : 'bg-white text-stone-500 border-stone-200 hover:border-violet-300'}`}
+            >
+              {learner.name}
+            </button>
+          ))}
+        </div>
+        <div className="flex gap-2">
+          <input
+            value={newLearnerName}
+            onChange={e => setNewLearnerName(e.target.value)}
+            onKeyDown={e => e.key === 'Enter' && handleCreate()}
+            placeholder={t('mastery.addLearner')}
+            className="flex-1 bg-stone-50 border border-stone-200 rounded-xl px-3 py-2 text-xs focus:outline-none focus:border-violet-500"
+          />
+          <button onClick={handleCreate} disabled={!newLearnerName.trim()} className="px-4 py-2 bg-stone-800 text-white rounded-xl text-[10px] font-bold uppercase tracking-widest hover:bg-violet-600 disabled:bg-stone-300 transition-all">{t('common.add')}</button>
+        </div>
+      </div>
+
+      {records.length === 0 ? (
+        <div className="text-center py-16 bg-white/40 border-2 border-dashed border-stone-200 rounded-3xl text-stone-400">
+          <h3 className="font-bold text-stone-600 text-lg mb-2">{t('mastery.emptyTitle')}</h3>
+          <p className="text-sm max-w-xs mx-auto">{t('mastery.emptyBody')}</p>
+        </div>
+      ) : (
+        <>
+          <section>
+            <h3 className="text-[10px] font-bold text-emerald-700 uppercase tracking-widest mb-3">{t('mastery.demonstrated', { count: demonstrated.length })}</h3>
+            <div className="grid gap-3">
+              {demonstrated.map(record => <ConceptRow key={record.id} record={record} />)}
+              {demonstrated.length === 0 && <p className="text-xs text-stone-400">{t('mastery.noneDemonstrated')}</p>}
+            </div>
+          </section>
+          <section>
+            <h3 className="text-[10px] font-bold text-amber-700 uppercase tracking-widest mb-3">{t('mastery.searching', { count: searching.length })}</h3>
+            <div className="grid gap-3">
+              {searching.map(record => <ConceptRow key={record.id} record={record} />)}
+              {searching.length === 0 && <p className="text-xs text-stone-400">{t('mastery.noneSearching')}</p>}
+            </div>
+          </section>
+        </>
+      )}
+    </div>
+  );
+};
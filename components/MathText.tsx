@@ -0,0 +1,14 @@
+import React, { useMemo } from 'react';
+import { splitMath } from '../services/mathText';
+
+// Plain text with any LaTeX in it typeset, for content that is not rendered as Markdown.
+export const MathText: React.FC<{ text: string }> = ({ text }) => {
+  const segments = useMemo(() => splitMath(text), [text]);
+  return (
+    <>
+      {segments.map((segment, i) => segment.kind === 'text'
+        ? <React.Fragment key={i}>{segment.text}</React.Fragment>
+        : <span key={i} className={segment.display ? 'block my-2' : undefined} dangerouslySetInnerHTML={{ __html: segment.html }} />)}
+    </>
+  );
+};
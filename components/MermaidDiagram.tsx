@@ -0,0 +1,173 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { DiagramAction } from '../types';
+import { DIAGRAM_ACTIONS } from '../constants';
+import { useI18n } from './I18nProvider';
+import { renderMermaid } from '../services/mermaidRenderer';
+import { DiagramGraph, parseFlowchart } from '../services/diagramDiff';
+import { DiagramSelection, describeSelection, selectionFromElement } from '../services/diagramService';
+
+interface MermaidDiagramProps {
+  source: string;
+  // Makes flowchart steps and links clickable; picking a menu entry hands the choice back.
+  onAction?: (action: DiagramAction, selection: DiagramSelection, graph: DiagramGraph) => void;
+}
+
+const MIN_SCALE = 0.25;
+const MAX_SCALE = 4;
+const ZOOM_STEP = 1.2;
+const CLICK_SLOP_PX = 4; // Pointer travel below this is a click rather than a pan
+const MENU_WIDTH_PX = 208;
+
+const clampScale = (scale: number) => Math.min(MAX_SCALE, Math.max(MIN_SCALE, scale));
+
+export const MermaidDiagram: React.FC<MermaidDiagramProps> = ({ source, onAction }) => {
+  const { t } = useI18n();
+  const [svg, setSvg] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [scale, setScale] = useState(1);
+  const [offset, setOffset] = useState({ x: 0, y: 0 });
+  const viewportRef = useRef<HTMLDivElement>(null);
+  const dragRef = useRef<{ pointerId: number; startX: number; startY: number; originX: number; originY: number; target: Element } | null>(null);
+  const [menu, setMenu] = useState<{ selection: DiagramSelection; x: number; y: number } | null>(null);
+  const interactive = Boolean(onAction);
+  const graph = useMemo(() => interactive ? parseFlowchart(source) : null, [source, interactive]);
+
+  useEffect(() => {
+    let cancelled = false;
+    setSvg(null);
+    setError(null);
+    setMenu(null);
+    renderMermaid(source).then(result => {
+      if (cancelled) return;
+      setSvg(result.svg ?? null);
+      setError(result.error ?? null);
+    });
+    return () => { cancelled = true; };
+  }, [source]);
+
+  // Ctrl/Cmd + wheel zooms; a plain wheel keeps scrolling the Blueprint stack.
+  useEffect(() => {
+    const viewport = viewportRef.current;
+    if (!viewport) return;
+    const onWheel = (e: WheelEvent) => {
+      if (!e.ctrlKey && !e.metaKey) return;
+      e.preventDefault();
+      setScale(prev => clampScale(e.deltaY < 0 ? prev * ZOOM_STEP : prev / ZOOM_STEP));
+    };
+    viewport.addEventListener('wheel', onWheel, { passive: false });
+    return () => viewport.removeEventListener('wheel', onWheel);
+  }, [svg]);
+
+  useEffect(() => {
+    if (!menu) return;
+    const onKeyDown = (e: KeyboardEvent) => { if (e.key === 'Escape') setMenu(null); };
+    window.addEventListener('keydown', onKeyDown);
+    return () => window.removeEventListener('keydown', onKeyDown);
+  }, [menu]);
+
+  const resetView = () => {
+    setScale(1);
+    setOffset({ x: 0, y: 0 });
+  };
+
+  const handlePointerDown = (e: React.PointerEvent<HTMLDivElement>) => {
+    if (e.button !== 0) return;
+    dragRef.current = { pointerId: e.pointerId, startX: e.clientX, startY: e.clientY, originX: offset.x, originY: offset.y, target: e.target as Element };
+    e.currentTarget.setPointerCapture(e.pointerId);
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLDivElement>) => {
+    const drag = dragRef.current;
+    if (!drag || drag.pointerId !== e.pointerId) return;
+    setOffset({ x: drag.originX + e.clientX - drag.startX, y: drag.originY + e.clientY - drag.startY });
+  };
+
+  // Pointer capture retargets the click to the viewport, so clicks are recognised here from the pointerdown target.
+  const handlePointerUp = (e: React.PointerEvent<HTMLDivElement>) => {
+    const drag = dragRef.current;
+    if (drag?.pointerId !== e.pointerId) return;
+    dragRef.current = null;
+    if (!graph || Math.hypot(e.clientX - drag.startX, e.clientY - drag.startY) > CLICK_SLOP_PX) return;
+    const selection = selectionFromElement(drag.target, graph);
+    const bounds = e.currentTarget.getBoundingClientRect();
+    setMenu(selection ? {
+      selection,
+      x: Math.max(0, Math.min(e.clientX - bounds.left, bounds.width - MENU_WIDTH_PX)),
+      y: e.clientY - bounds.top,
+    } : null);
+  };
+
+  const chooseAction = (action: DiagramAction) => {
+    if (!menu || !graph || !onAction) return;
+    setMenu(null);
+    onAction(action, menu.selection, graph);
+  };
+
+  if (error) {
+    return (
+      <div className="grid md:grid-cols-2 gap-3 w-full">
+        <div className="bg-red-50 border border-red-200 rounded-xl p-4">
+          <p className="text-[9px] font-bold text-red-600 uppercase tracking-[0.2em] mb-2">{t('diagram.syntaxError')}</p>
+          <pre className="font-mono text-[10px] text-red-700 whitespace-pre-wrap break-words leading-relaxed">{error}</pre>
+        </div>
+        <div className="bg-stone-50 border border-stone-200 rounded-xl p-4 overflow-x-auto">
+          <p className="text-[9px] font-bold text-stone-400 uppercase tracking-[0.2em] mb-2">{t('diagram.source')}</p>
+          <pre className="font-mono text-[10px] text-stone-600 leading-relaxed">{source}</pre>
+        </div>
+      </div>
+    );
+  }
+
+  if (!svg) {
+    return (
+      <div className="flex items-center justify-center h-40 w-full">
+        <div className="w-8 h-8 border-4 border-stone-100 border-t-violet-600 rounded-full animate-spin"></div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="relative w-full">
+      <div
+        ref={viewportRef}
+        onPointerDown={handlePointerDown}
+        onPointerMove={handlePointerMove}
+        onPointerUp={handlePointerUp}
+        onPointerCancel={() => { dragRef.current = null; }}
+        onDoubleClick={resetView}
+        className={`w-full max-h-[500px] overflow-hidden rounded-xl cursor-grab active:cursor-grabbing touch-none select-none ${graph ? '[&_g.node]:cursor-pointer [&_g.edgeLabel]:cursor-pointer [&_path[data-et=edge]]:cursor-pointer [&_g.node:hover]:opacity-80 [&_path[data-et=edge]:hover]:stroke-violet-500' : ''}`}
+      >
+        <div
+          className="flex justify-center origin-center transition-transform duration-75 [&_svg]:max-w-full [&_svg]:h-auto"
+          style={{ transform: `translate(${offset.x}px, ${offset.y}px) scale(${scale})` }}
+          dangerouslySetInnerHTML={{ __html: svg }}
+        />
+      </div>
+      <div className="absolute top-2 right-2 flex items-center gap-1 bg-white/90 backdrop-blur border border-stone-200 rounded-lg shadow-sm p-0.5">
+        <button onClick={() => setScale(prev => clampScale(prev / ZOOM_STEP))} title={t('diagram.zoomOut')} className="w-6 h-6 text-xs font-bold text-stone-500 hover:text-violet-600 rounded">−</button>
+        <button onClick={resetView} title={t('diagram.resetView')} className="px-1.5 h-6 text-[9px] font-bold text-stone-400 hover:text-violet-600 rounded tabular-nums">{Math.round(scale * 100)}%</button>
+        <button onClick={() => setScale(prev => clampScale(prev * ZOOM_STEP))} title={t('diagram.zoomIn')} className="w-6 h-6 text-xs font-bold text-stone-500 hover:text-violet-600 rounded">+</button>
+      </div>
+      {menu && graph && (
+        <div
+          className="absolute z-20 bg-white border border-stone-200 rounded-xl shadow-xl p-1"
+          style={{ left: menu.x, top: menu.y, width: MENU_WIDTH_PX }}
+        >
+          <div className="px-3 py-2 flex items-start justify-between gap-2 border-b border-stone-100 mb-1">
+            <p className="text-[10px] font-bold text-stone-600 leading-snug break-words">{describeSelection(menu.selection, graph)}</p>
+            <button onClick={() => setMenu(null)} className="text-stone-300 hover:text-stone-600 text-xs leading-none">×</button>
+          </div>
+          {DIAGRAM_ACTIONS.filter(action => action.appliesTo.includes(menu.selection.kind)).map(action => (
+            <button
+              key={action.id}
+              onClick={() => chooseAction(action)}
+              className="w-full text-left px-3 py-1.5 rounded-lg text-xs text-stone-600 hover:bg-violet-50 hover:text-violet-700"
+            >
+              {t(`diagram.action.${action.id}`)}
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,222 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { Template } from '../types';
+import { analyzeProgram, evaluateInputs, formatValue, parseProgram, suggestInput, traceProgram, TraceStep } from '../services/pseudocodeTracer';
+import { useI18n } from './I18nProvider';
+
+interface PseudocodeTracerProps {
+  template: Template;
+  onClose: () => void;
+}
+
+export const PseudocodeTracer: React.FC<PseudocodeTracerProps> = ({ template, onClose }) => {
+  const { t, tn } = useI18n();
+  const [code, setCode] = useState(template.content);
+  const [isEditing, setIsEditing] = useState(false);
+  const [inputs, setInputs] = useState<Record<string, string>>({});
+  const [inputError, setInputError] = useState<string | null>(null);
+  const [steps, setSteps] = useState<TraceStep[] | null>(null);
+  const [position, setPosition] = useState(0);
+
+  const parsed = useMemo(() => {
+    try {
+      const program = parseProgram(code);
+      return { program, info: analyzeProgram(program), error: null };
+    } catch (err: any) {
+      return { program: null, info: null, error: err.message as string };
+    }
+  }, [code]);
+
+  // Editing the code invalidates the trace; inputs keep whatever the student already typed.
+  useEffect(() => {
+    setSteps(null);
+    setPosition(0);
+    if (!parsed.info) return;
+    const info = parsed.info;
+    setInputs(prev => Object.fromEntries(info.inputs.map(name => [name, prev[name] ?? suggestInput(name, info)])));
+  }, [parsed]);
+
+  const handleRun = () => {
+    if (!parsed.program || !parsed.info) return;
+    try {
+      const values = evaluateInputs(parsed.info.inputs, inputs);
+      setInputError(null);
+      setSteps(traceProgram(parsed.program, parsed.info, values));
+      setPosition(0);
+      setIsEditing(false);
+    } catch (err: any) {
+      setInputError(err.message);
+    }
+  };
+
+  const step = steps?.[position];
+  const frame = step?.stack[step.stack.length - 1];
+  const lines = code.split('\n');
+  const last = steps ? steps.length - 1 : 0;
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-stone-900/20 backdrop-blur-sm" onClick={onClose}>
+      <div className="w-full max-w-5xl max-h-[90vh] bg-white rounded-3xl shadow-2xl flex flex-col overflow-hidden" onClick={e => e.stopPropagation()}>
+        <div className="h-14 px-6 flex items-center justify-between border-b border-stone-200 shrink-0">
+          <span className="text-xs font-bold text-stone-600 uppercase tracking-widest truncate">{t('trace.title', { title: template.title })}</span>
+          <button onClick={onClose} className="p-2 text-stone-400 hover:text-stone-700 rounded-lg">
+            <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4" viewBox="0 0 20 20" fill="currentColor">
+              <path fillRule="evenodd" d="M4.293 4.293a1 1 0 011.414 0L10 8.586l4.293-4.293a1 1 0 111.414 1.414L11.414 10l4.293 4.293a1 1 0 01-1.414 1.414L10 11.414l-4.293 4.293a1 1 0 01-1.414-1.414L8.586 10 4.293 5.707a1 1 0 010-1.414z" clipRule="evenodd" />
+            </svg>
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-6 grid md:grid-cols-[1fr_300px] gap-6">
+          <div className="min-w-0 space-y-3">
+            <div className="flex items-center justify-between">
+              <p className="text-[9px] font-bold text-stone-400 uppercase tracking-[0.2em]">{t('trace.pseudocode')}</p>
+              <button onClick={() => setIsEditing(prev => !prev)} className="text-[9px] font-bold uppercase tracking-wider text-violet-600 hover:text-violet-800">
+                {isEditing ? t('trace.doneEditing') : t('common.edit')}
+              </button>
+            </div>
+            {isEditing ? (
+              <textarea
+                value={code}
+                onChange={e => setCode(e.target.value)}
+                spellCheck={false}
+                className="w-full h-72 bg-stone-50 border border-stone-200 rounded-xl px-3 py-2 font-mono text-[11px] leading-relaxed focus:outline-none focus:border-violet-500 resize-y"
+              />
+            ) : (
+              <div className="bg-stone-50 border border-stone-100 rounded-xl py-2 font-mono text-[11px] leading-relaxed overflow-x-auto">
+                {lines.map((text, index) => {
+                  const isCurrent = step?.line === index;
+                  return (
+                    <div key={index} className={`flex pr-3 ${isCurrent ? (step.event === 'error' ? 'bg-red-100' : 'bg-violet-100') : ''}`}>
+                      <span className={`w-10 shrink-0 text-right pr-3 select-none ${isCurrent ? 'text-violet-600 font-bold' : 'text-stone-300'}`}>{index + 1}</span>
+                      <pre className={isCurrent ? 'text-stone-900 font-bold' : 'text-stone-600'}>{text || ' '}</pre>
+                    </div>
+                  );
+                })}
+              </div>
+            )}
+
+            {parsed.error && <p className="text-xs text-red-600">{parsed.error}</p>}
+            {parsed.info && parsed.info.undefinedFunctions.length > 0 && (
+              <p className="text-xs text-amber-700 bg-amber-50 border border-amber-200 rounded-xl px-3 py-2">
+                {tn('trace.undefined', parsed.info.undefinedFunctions.length, { names: parsed.info.undefinedFunctions.join(', ') })}
+              </p>
+            )}
+
+            {steps && step && (
+              <div className="space-y-3">
+                <div className="flex items-center gap-2">
+                  {[
+                    { label: '⏮', title: t('trace.first'), onClick: () => setPosition(0), disabled: position === 0 },
+                    { label: '◀', title: t('trace.back'), onClick: () => setPosition(p => Math.max(0, p - 1)), disabled: position === 0 },
+                    { label: '▶', title: t('trace.forward'), onClick: () => setPosition(p => Math.min(last, p + 1)), disabled: position === last },
+                    { label: '⏭', title: t('trace.last'), onClick: () => setPosition(last), disabled: position === last },
+                  ].map(control => (
+                    <button
+                      key={control.label}
+                      onClick={control.onClick}
+                      disabled={control.disabled}
+                      title={control.title}
+                      className="w-9 h-9 bg-stone-800 text-white rounded-xl text-xs hover:bg-violet-600 disabled:bg-stone-200 disabled:text-stone-400 transition-all"
+                    >
+                      {control.label}
+                    </button>
+                  ))}
+                  <input
+                    type="range"
+                    min={0}
+                    max={last}
+                    value={position}
+                    onChange={e => setPosition(Number(e.target.value))}
+                    className="flex-1 accent-violet-600"
+                  />
+                  <span className="text-[10px] font-mono text-stone-400 w-20 text-right">{position + 1} / {steps.length}</span>
+                </div>
+                <p className={`text-xs font-bold ${step.event === 'error' ? 'text-red-600' : step.event === 'done' ? 'text-emerald-600' : 'text-stone-600'}`}>
+                  {t(`trace.event.${step.event}`)}
+                  {step.event === 'call' && frame && ` ${frame.name}`}
+                  {(step.event === 'return' || step.event === 'done') && ` → ${formatValue(step.value)}`}
+                  {step.event === 'error' && `: ${step.error}`}
+                  {step.event !== 'done' && step.event !== 'error' && ` · ${t('trace.line', { line: step.line + 1 })}`}
+                </p>
+                {step.output.length > 0 && (
+                  <pre className="bg-stone-900 text-emerald-300 rounded-xl px-3 py-2 font-mono text-[10px] max-h-28 overflow-y-auto">{step.output.join('\n')}</pre>
+                )}
+              </div>
+            )}
+          </div>
+
+          <div className="space-y-5 min-w-0">
+            {parsed.info && (
+              <div>
+                <p className="text-[9px] font-bold text-stone-400 uppercase tracking-[0.2em] mb-2">
+                  {t('trace.inputs')}{parsed.info.entry ? ` · ${parsed.info.entry.name}` : ''}
+                </p>
+                <div className="space-y-2">
+                  {parsed.info.inputs.length === 0 && <p className="text-[10px] text-stone-400">{t('trace.noInputs')}</p>}
+                  {parsed.info.inputs.map(name => (
+                    <label key={name} className="flex items-center gap-2">
+                      <span className="w-24 shrink-0 text-[10px] font-mono font-bold text-stone-600 truncate" title={name}>{name}</span>
+                      <input
+                        value={inputs[name] ?? ''}
+                        onChange={e => setInputs(prev => ({ ...prev, [name]: e.target.value }))}
+                        placeholder={t('trace.inputPlaceholder')}
+                        className="flex-1 min-w-0 bg-stone-50 border border-stone-200 rounded-lg px-2 py-1 font-mono text-[11px] focus:outline-none focus:border-violet-500"
+                      />
+                    </label>
+                  ))}
+                </div>
+                {inputError && <p className="mt-2 text-[10px] text-red-600">{inputError}</p>}
+                <button
+                  onClick={handleRun}
+                  className="mt-3 w-full py-2 bg-violet-600 text-white rounded-xl text-[10px] font-bold uppercase tracking-widest hover:bg-violet-700 transition-all shadow-lg shadow-violet-100"
+                >
+                  {steps ? t('trace.restart') : t('trace.start')}
+                </button>
+              </div>
+            )}
+
+            {step && (
+              <div>
+                <p className="text-[9px] font-bold text-stone-400 uppercase tracking-[0.2em] mb-2">{t('trace.variables')}{frame ? ` · ${frame.name}` : ''}</p>
+                {frame && Object.keys(frame.vars).length > 0 ? (
+                  <table className="w-full text-[11px] font-mono">
+                    <tbody>
+                      {Object.entries(frame.vars).map(([name, value]) => {
+                        const previous = steps?.[position - 1]?.stack[step.stack.length - 1]?.vars[name];
+                        const changed = position > 0 && formatValue(previous) !== formatValue(value);
+                        return (
+                          <tr key={name} className="border-b border-stone-100">
+                            <td className="py-1 pr-2 font-bold text-stone-600 align-top">{name}</td>
+                            <td className={`py-1 break-all ${changed ? 'text-violet-700 font-bold' : 'text-stone-700'}`}>{formatValue(value)}</td>
+                          </tr>
+                        );
+                      })}
+                    </tbody>
+                  </table>
+                ) : (
+                  <p className="text-[10px] text-stone-400">{step.event === 'done' ? t('trace.allReturned') : t('trace.noVariables')}</p>
+                )}
+              </div>
+            )}
+
+            {step && step.stack.length > 0 && (
+              <div>
+                <p className="text-[9px] font-bold text-stone-400 uppercase tracking-[0.2em] mb-2">{t('trace.callStack', { depth: step.stack.length })}</p>
+                <div className="space-y-1">
+                  {[...step.stack].reverse().map((f, index) => (
+                    <div
+                      key={step.stack.length - index}
+                      className={`px-3 py-1.5 rounded-lg border font-mono text-[10px] truncate ${index === 0 ? 'bg-violet-50 border-violet-200 text-violet-800 font-bold' : 'bg-white border-stone-200 text-stone-500'}`}
+                      style={{ marginLeft: `${Math.min(step.stack.length - 1 - index, 8) * 6}px` }}
+                    >
+                      {f.name}({f.args.map(formatValue).join(', ')}) · {t('trace.line', { line: f.line + 1 })}
+                    </div>
+                  ))}
+                </div>
+              </div>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
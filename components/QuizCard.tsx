@@ -0,0 +1,138 @@
+import React, { useState } from 'react';
+import { Quiz, QuizResponse } from '../types';
+import { shuffledSteps } from '../services/quizService';
+import { useI18n } from './I18nProvider';
+
+interface QuizCardProps {
+  quiz: Quiz;
+  onSubmit: (responses: Record<string, QuizResponse>) => Promise<void>;
+  disabled?: boolean;
+}
+
+const initialResponses = (quiz: Quiz): Record<string, QuizResponse> => {
+  const responses: Record<string, QuizResponse> = {};
+  for (const question of quiz.questions) {
+    const previous = quiz.results?.find(r => r.questionId === question.id)?.response;
+    if (previous !== undefined) responses[question.id] = previous;
+    else if (question.kind === 'ordering') responses[question.id] = shuffledSteps(question);
+  }
+  return responses;
+};
+
+export const QuizCard: React.FC<QuizCardProps> = ({ quiz, onSubmit, disabled }) => {
+  const { t } = useI18n();
+  const [responses, setResponses] = useState<Record<string, QuizResponse>>(() => initialResponses(quiz));
+  const [isGrading, setIsGrading] = useState(false);
+  const isGraded = quiz.results !== undefined;
+
+  const setResponse = (questionId: string, value: QuizResponse) => setResponses(prev => ({ ...prev, [questionId]: value }));
+
+  const moveStep = (questionId: string, index: number, delta: number) => {
+    const steps = [...(responses[questionId] as string[])];
+    const target = index + delta;
+    if (target < 0 || target >= steps.length) return;
+    [steps[index], steps[target]] = [steps[target], steps[index]];
+    setResponse(questionId, steps);
+  };
+
+  const handleSubmit = async () => {
+    setIsGrading(true);
+    try {
+      await onSubmit(responses);
+    } finally {
+      setIsGrading(false);
+    }
+  };
+
+  return (
+    <div className="w-full bg-white border border-violet-200 rounded-2xl shadow-sm overflow-hidden">
+      <div className="px-5 py-3 bg-violet-50 border-b border-violet-100 flex items-center justify-between">
+        <span className="text-[10px] font-bold text-violet-700 uppercase tracking-widest">{t('quiz.title', { topic: quiz.topic })}</span>
+        {isGraded && (
+          <span className={`text-[10px] font-bold px-2 py-0.5 rounded-full ${(quiz.score ?? 0) >= 0.7 ? 'bg-emerald-100 text-emerald-700' : 'bg-amber-100 text-amber-700'}`}>
+            {Math.round((quiz.score ?? 0) * 100)}%
+          </span>
+        )}
+      </div>
+
+      <div className="p-5 space-y-6">
+        {quiz.questions.map((question, qIndex) => {
+          const result = quiz.results?.find(r => r.questionId === question.id);
+          const response = responses[question.id];
+          return (
+            <div key={question.id}>
+              <div className="flex items-start justify-between gap-3 mb-2">
+                <p className="text-sm font-bold text-stone-800">{qIndex + 1}. {question.prompt}</p>
+                {result && (
+                  <span className={`shrink-0 text-[9px] font-bold uppercase tracking-wider px-1.5 py-0.5 rounded ${result.correct ? 'bg-emerald-50 text-emerald-600' : 'bg-red-50 text-red-600'}`}>
+                    {result.correct ? t('quiz.correct') : result.score > 0 ? t('quiz.partly') : t('quiz.notYet')}
+                  </span>
+                )}
+              </div>
+              <p className="text-[9px] font-bold text-stone-400 uppercase tracking-wider mb-2">{t(`quiz.kind.${question.kind}`)}</p>
+
+              {question.kind === 'multiple_choice' && (
+                <div className="space-y-1.5">
+                  {question.options?.map((option, oIndex) => (
+                    <label key={oIndex} className={`flex items-center gap-2 px-3 py-2 rounded-xl border text-xs cursor-pointer transition-all ${response === oIndex ? 'border-violet-400 bg-violet-50 text-violet-800' : 'border-stone-200 text-stone-600 hover:border-violet-200'}`}>
+                      <input
+                        type="radio"
+                        name={question.id}
+                        checked={response === oIndex}
+                        disabled={isGraded}
+                        onChange={() => setResponse(question.id, oIndex)}
+                        className="accent-violet-600"
+                      />
+                      {option}
+                    </label>
+                  ))}
+                </div>
+              )}
+
+              {question.kind === 'ordering' && (
+                <ol className="space-y-1.5">
+                  {(response as string[] || []).map((step, sIndex, steps) => (
+                    <li key={step} className="flex items-center gap-2 px-3 py-2 rounded-xl border border-stone-200 text-xs text-stone-600 bg-stone-50">
+                      <span className="font-mono text-[10px] text-stone-400 w-4">{sIndex + 1}.</span>
+                      <span className="flex-1">{step}</span>
+                      {!isGraded && (
+                        <span className="flex gap-1">
+                          <button onClick={() => moveStep(question.id, sIndex, -1)} disabled={sIndex === 0} className="w-5 h-5 rounded text-stone-400 hover:text-violet-600 disabled:opacity-30">↑</button>
+                          <button onClick={() => moveStep(question.id, sIndex, 1)} disabled={sIndex === steps.length - 1} className="w-5 h-5 rounded text-stone-400 hover:text-violet-600 disabled:opacity-30">↓</button>
+                        </span>
+                      )}
+                    </li>
+                  ))}
+                </ol>
+              )}
+
+              {question.kind === 'short_answer' && (
+                <textarea
+                  value={typeof response === 'string' ? response : ''}
+                  onChange={e => setResponse(question.id, e.target.value)}
+                  disabled={isGraded}
+                  placeholder={t('quiz.placeholder')}
+                  className="w-full bg-stone-50 border border-stone-200 rounded-xl px-3 py-2 text-xs focus:outline-none focus:border-violet-500 resize-none h-20 disabled:text-stone-500"
+                />
+              )}
+
+              {result?.feedback && <p className="mt-2 text-[11px] text-stone-500 italic">{result.feedback}</p>}
+            </div>
+          );
+        })}
+      </div>
+
+      {!isGraded && (
+        <div className="px-5 pb-5">
+          <button
+            onClick={handleSubmit}
+            disabled={disabled || isGrading}
+            className="w-full py-2.5 bg-violet-600 text-white rounded-xl text-[10px] font-bold uppercase tracking-widest hover:bg-violet-700 disabled:bg-stone-300 transition-all shadow-lg shadow-violet-100"
+          >
+            {isGrading ? t('quiz.grading') : t('quiz.submit')}
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
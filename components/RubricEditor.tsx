@@ -0,0 +1,131 @@
+import React, { useState } from 'react';
+import { Rubric, RubricCriterion } from '../types';
+import { createCriterionId, createRubricId } from '../services/rubricStore';
+import { useI18n } from './I18nProvider';
+
+interface RubricEditorProps {
+  rubric: Rubric | null; // null creates a new rubric
+  canDelete: boolean;
+  onSave: (rubric: Rubric) => Promise<void>;
+  onDelete: (rubric: Rubric) => Promise<void>;
+  onClose: () => void;
+}
+
+const emptyCriterion = (): RubricCriterion => ({ id: createCriterionId(), name: '', description: '', maxScore: 3 });
+
+export const RubricEditor: React.FC<RubricEditorProps> = ({ rubric, canDelete, onSave, onDelete, onClose }) => {
+  const { t } = useI18n();
+  const [name, setName] = useState(rubric?.name ?? '');
+  const [criteria, setCriteria] = useState<RubricCriterion[]>(rubric?.criteria ?? [emptyCriterion()]);
+  const [isSaving, setIsSaving] = useState(false);
+  const usable = criteria.filter(c => c.name.trim());
+  const canSave = name.trim() !== '' && usable.length > 0;
+
+  const updateCriterion = (id: string, patch: Partial<RubricCriterion>) =>
+    setCriteria(prev => prev.map(c => c.id === id ? { ...c, ...patch } : c));
+
+  const handleSave = async () => {
+    if (!canSave) return;
+    setIsSaving(true);
+    try {
+      const now = Date.now();
+      await onSave({
+        id: rubric?.id ?? createRubricId(),
+        name: name.trim(),
+        criteria: usable.map(c => ({ ...c, name: c.name.trim(), description: c.description.trim(), maxScore: Math.max(1, Math.round(c.maxScore) || 1) })),
+        createdAt: rubric?.createdAt ?? now,
+        updatedAt: now,
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const total = usable.reduce((sum, c) => sum + (Math.round(c.maxScore) || 0), 0);
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-stone-900/20 backdrop-blur-sm" onClick={onClose}>
+      <div className="w-full max-w-2xl max-h-[90vh] bg-white rounded-3xl shadow-2xl flex flex-col overflow-hidden" onClick={e => e.stopPropagation()}>
+        <div className="h-14 px-6 flex items-center justify-between border-b border-stone-200 shrink-0">
+          <span className="text-xs font-bold text-stone-600 uppercase tracking-widest">{rubric ? t('rubric.edit') : t('rubric.new')}</span>
+          <button onClick={onClose} className="p-2 text-stone-400 hover:text-stone-700 rounded-lg">
+            <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4" viewBox="0 0 20 20" fill="currentColor">
+              <path fillRule="evenodd" d="M4.293 4.293a1 1 0 011.414 0L10 8.586l4.293-4.293a1 1 0 111.414 1.414L11.414 10l4.293 4.293a1 1 0 01-1.414 1.414L10 11.414l-4.293 4.293a1 1 0 01-1.414-1.414L8.586 10 4.293 5.707a1 1 0 010-1.414z" clipRule="evenodd" />
+            </svg>
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-6 space-y-4">
+          <input
+            value={name}
+            onChange={e => setName(e.target.value)}
+            placeholder={t('rubric.name')}
+            className="w-full bg-stone-50 border border-stone-200 rounded-xl px-3 py-2 text-sm font-bold focus:outline-none focus:border-violet-500"
+          />
+          <div className="flex items-center justify-between">
+            <p className="text-[9px] font-bold text-stone-400 uppercase tracking-[0.2em]">{t('rubric.criteria', { total })}</p>
+            <button onClick={() => setCriteria(prev => [...prev, emptyCriterion()])} className="text-[9px] font-bold uppercase tracking-wider text-violet-600 hover:text-violet-800">
+              {t('rubric.addCriterion')}
+            </button>
+          </div>
+          {criteria.map(criterion => (
+            <div key={criterion.id} className="p-3 border border-stone-200 rounded-2xl space-y-2">
+              <div className="flex gap-2">
+                <input
+                  value={criterion.name}
+                  onChange={e => updateCriterion(criterion.id, { name: e.target.value })}
+                  placeholder={t('rubric.criterion')}
+                  className="flex-1 min-w-0 bg-stone-50 border border-stone-200 rounded-lg px-3 py-1.5 text-xs font-bold focus:outline-none focus:border-violet-500"
+                />
+                <label className="flex items-center gap-1 text-[10px] text-stone-400">
+                  {t('rubric.max')}
+                  <input
+                    type="number"
+                    min={1}
+                    max={100}
+                    value={criterion.maxScore}
+                    onChange={e => updateCriterion(criterion.id, { maxScore: Number(e.target.value) })}
+                    className="w-14 bg-stone-50 border border-stone-200 rounded-lg px-2 py-1.5 text-xs font-mono focus:outline-none focus:border-violet-500"
+                  />
+                </label>
+                <button
+                  onClick={() => setCriteria(prev => prev.filter(c => c.id !== criterion.id))}
+                  title={t('rubric.removeCriterion')}
+                  className="p-1.5 text-stone-300 hover:text-red-500 hover:bg-red-50 rounded-lg"
+                >
+                  <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4" viewBox="0 0 20 20" fill="currentColor">
+                    <path fillRule="evenodd" d="M4.293 4.293a1 1 0 011.414 0L10 8.586l4.293-4.293a1 1 0 111.414 1.414L11.414 10l4.293 4.293a1 1 0 01-1.414 1.414L10 11.414l-4.293 4.293a1 1 0 01-1.414-1.414L8.586 10 4.293 5.707a1 1 0 010-1.414z" clipRule="evenodd" />
+                  </svg>
+                </button>
+              </div>
+              <textarea
+                value={criterion.description}
+                onChange={e => updateCriterion(criterion.id, { description: e.target.value })}
+                placeholder={t('rubric.fullMarks')}
+                className="w-full h-14 bg-stone-50 border border-stone-200 rounded-lg px-3 py-1.5 text-[11px] focus:outline-none focus:border-violet-500 resize-none"
+              />
+            </div>
+          ))}
+        </div>
+
+        <div className="px-6 py-4 border-t border-stone-200 flex justify-between gap-2 shrink-0">
+          <div>
+            {rubric && canDelete && (
+              <button onClick={() => onDelete(rubric)} className="px-4 py-2 text-[10px] font-bold uppercase tracking-widest text-red-500 hover:text-red-700">{t('common.delete')}</button>
+            )}
+          </div>
+          <div className="flex gap-2">
+            <button onClick={onClose} className="px-4 py-2 text-[10px] font-bold uppercase tracking-widest text-stone-500 hover:text-stone-800">{t('common.cancel')}</button>
+            <button
+              onClick={handleSave}
+              disabled={!canSave || isSaving}
+              className="px-6 py-2 bg-violet-600 text-white rounded-xl text-[10px] font-bold uppercase tracking-widest hover:bg-violet-700 disabled:bg-stone-300 transition-all shadow-lg shadow-violet-100"
+            >
+              {isSaving ? t('common.saving') : t('common.save')}
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
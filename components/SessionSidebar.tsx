@@ -0,0 +1,116 @@
+import React, { useState } from 'react';
+import { SessionSummary } from '../types';
+import { useI18n } from './I18nProvider';
+
+interface SessionSidebarProps {
+  sessions: SessionSummary[];
+  activeSessionId: string | null;
+  isOpen: boolean;
+  onClose: () => void;
+  onCreate: () => void;
+  onSelect: (id: string) => void;
+  onRename: (id: string, name: string) => void;
+  onDelete: (id: string) => void;
+}
+
+const SessionRow: React.FC<{
+  session: SessionSummary;
+  isActive: boolean;
+  onSelect: () => void;
+  onRename: (name: string) => void;
+  onDelete: () => void;
+}> = ({ session, isActive, onSelect, onRename, onDelete }) => {
+  const { language, t, tn } = useI18n();
+  const [isEditing, setIsEditing] = useState(false);
+  const [draft, setDraft] = useState(session.name);
+
+  const commitRename = () => {
+    setIsEditing(false);
+    const name = draft.trim();
+    if (name && name !== session.name) onRename(name);
+    else setDraft(session.name);
+  };
+
+  return (
+    <div className={`group rounded-2xl border px-4 py-3 transition-all ${isActive ? 'bg-violet-50 border-violet-200' : 'bg-white border-stone-200 hover:border-violet-300'}`}>
+      {isEditing ? (
+        <input
+          autoFocus
+          value={draft}
+          onChange={e => setDraft(e.target.value)}
+          onBlur={commitRename}
+          onKeyDown={e => {
+            if (e.key === 'Enter') commitRename();
+            if (e.key === 'Escape') { setDraft(session.name); setIsEditing(false); }
+          }}
+          className="w-full bg-white border border-violet-300 rounded-lg px-2 py-1 text-sm focus:outline-none focus:ring-1 focus:ring-violet-500"
+        />
+      ) : (
+        <button onClick={onSelect} className="w-full text-start">
+          <p className={`text-sm font-bold truncate ${isActive ? 'text-violet-700' : 'text-stone-700'}`}>{session.name || t('sessions.untitled')}</p>
+        </button>
+      )}
+      <div className="flex items-center justify-between mt-1.5">
+        <span className="text-[9px] text-stone-400 uppercase tracking-wider">
+          {new Date(session.updatedAt).toLocaleDateString(language, { month: 'short', day: 'numeric' })} · {tn('sessions.turns', session.messageCount)}
+        </span>
+        <div className="flex gap-1 opacity-0 group-hover:opacity-100 transition-opacity">
+          <button onClick={() => setIsEditing(true)} title={t('common.rename')} className="p-1 text-stone-400 hover:text-violet-600 rounded">
+            <svg xmlns="http://www.w3.org/2000/svg" className="h-3.5 w-3.5" viewBox="0 0 20 20" fill="currentColor">
+              <path d="M13.586 3.586a2 2 0 112.828 2.828l-.793.793-2.828-2.828.793-.793zM11.379 5.793L3 14.172V17h2.828l8.38-8.379-2.83-2.828z" />
+            </svg>
+          </button>
+          <button onClick={onDelete} title={t('common.delete')} className="p-1 text-stone-400 hover:text-red-500 rounded">
+            <svg xmlns="http://www.w3.org/2000/svg" className="h-3.5 w-3.5" viewBox="0 0 20 20" fill="currentColor">
+              <path fillRule="evenodd" d="M9 2a1 1 0 00-.894.553L7.382 4H4a1 1 0 000 2v10a2 2 0 002 2h8a2 2 0 002-2V6a1 1 0 100-2h-3.382l-.724-1.447A1 1 0 0011 2H9zM7 8a1 1 0 012 0v6a1 1 0 11-2 0V8zm5-1a1 1 0 00-1 1v6a1 1 0 102 0V8a1 1 0 00-1-1z" clipRule="evenodd" />
+            </svg>
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export const SessionSidebar: React.FC<SessionSidebarProps> = ({ sessions, activeSessionId, isOpen, onClose, onCreate, onSelect, onRename, onDelete }) => {
+  const { t } = useI18n();
+  if (!isOpen) return null;
+
+  return (
+    <div className="fixed inset-0 z-50 flex">
+      <div className="w-80 max-w-[85vw] h-full bg-stone-50 border-e border-stone-200 shadow-2xl flex flex-col">
+        <div className="h-16 px-5 flex items-center justify-between border-b border-stone-200 bg-white shrink-0">
+          <span className="text-xs font-bold text-stone-600 uppercase tracking-widest">{t('sessions.title')}</span>
+          <button onClick={onClose} className="p-2 text-stone-400 hover:text-stone-700 rounded-lg">
+            <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4" viewBox="0 0 20 20" fill="currentColor">
+              <path fillRule="evenodd" d="M4.293 4.293a1 1 0 011.414 0L10 8.586l4.293-4.293a1 1 0 111.414 1.414L11.414 10l4.293 4.293a1 1 0 01-1.414 1.414L10 11.414l-4.293 4.293a1 1 0 01-1.414-1.414L8.586 10 4.293 5.707a1 1 0 010-1.414z" clipRule="evenodd" />
+            </svg>
+          </button>
+        </div>
+        <div className="p-4 shrink-0">
+          <button
+            onClick={onCreate}
+            className="w-full py-3 bg-violet-600 text-white rounded-xl text-[10px] font-bold uppercase tracking-widest hover:bg-violet-700 transition-all shadow-lg shadow-violet-100 active:scale-95"
+          >
+            {t('sessions.new')}
+          </button>
+        </div>
+        <div className="flex-1 overflow-y-auto px-4 pb-6 space-y-2">
+          {sessions.map(session => (
+            <SessionRow
+              key={session.id}
+              session={session}
+              isActive={session.id === activeSessionId}
+              onSelect={() => onSelect(session.id)}
+              onRename={name => onRename(session.id, name)}
+              onDelete={() => onDelete(session.id)}
+            />
+          ))}
+          {sessions.length === 0 && (
+            <p className="text-xs text-stone-400 text-center py-8">{t('sessions.empty')}</p>
+          )}
+        </div>
+      </div>
+      <div className="flex-1 bg-stone-900/20 backdrop-blur-sm" onClick={onClose}></div>
+    </div>
+  );
+};
@@ -0,0 +1,47 @@
+import React from 'react';
+import { GuardedSolution } from '../types';
+import { MessageKey } from '../locales';
+import { useI18n } from './I18nProvider';
+
+interface SolutionGateProps {
+  guarded: GuardedSolution;
+  canReveal: boolean;
+  onReveal: () => void;
+}
+
+const KIND_LABELS: Record<GuardedSolution['kinds'][number], MessageKey> = {
+  code: 'gate.code',
+  proof: 'gate.proof',
+};
+
+export const SolutionGate: React.FC<SolutionGateProps> = ({ guarded, canReveal, onReveal }) => {
+  const { t } = useI18n();
+  if (guarded.revealedAt) {
+    return (
+      <p className="mt-3 text-[9px] font-bold uppercase tracking-wider text-stone-400">
+        {t('gate.revealed')}
+      </p>
+    );
+  }
+
+  return (
+    <div className="mt-4 p-4 rounded-xl border border-amber-200 bg-amber-50 flex items-start gap-3">
+      <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4 text-amber-500 shrink-0 mt-0.5" viewBox="0 0 20 20" fill="currentColor">
+        <path fillRule="evenodd" d="M5 9V7a5 5 0 0110 0v2a2 2 0 012 2v5a2 2 0 01-2 2H5a2 2 0 01-2-2v-5a2 2 0 012-2zm8-2v2H7V7a3 3 0 016 0z" clipRule="evenodd" />
+      </svg>
+      <div className="flex-1">
+        <p className="text-xs text-amber-800 leading-relaxed">
+          {t('gate.body', { kinds: guarded.kinds.map(kind => t(KIND_LABELS[kind])).join(t('gate.and')) })}
+          {' '}{canReveal ? t('gate.canReveal') : t('gate.cannotReveal')}
+        </p>
+        <button
+          onClick={onReveal}
+          disabled={!canReveal}
+          className="mt-3 px-4 py-1.5 bg-amber-600 text-white rounded-lg text-[10px] font-bold uppercase tracking-widest hover:bg-amber-700 disabled:bg-stone-300 transition-all"
+        >
+          {t('gate.reveal')}
+        </button>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,80 @@
+import React from 'react';
+import { SubmissionFile } from '../types';
+import { MAX_SUBMISSION_BYTES, MAX_SUBMISSION_FILES } from '../constants';
+import { formatBytes } from '../services/submissionService';
+import { useI18n } from './I18nProvider';
+
+interface SubmissionTrayProps {
+  files: SubmissionFile[];
+  errors: string[];
+  isReading: boolean;
+  disabled: boolean;
+  onRemove: (id: string) => void;
+  onClear: () => void;
+  onSubmit: () => void;
+}
+
+const FilePreview: React.FC<{ file: SubmissionFile }> = ({ file }) => {
+  if (file.kind === 'image') {
+    return <img src={`data:${file.mimeType};base64,${file.data}`} alt={file.name} className="w-14 h-14 object-cover rounded-xl border border-stone-200 shrink-0" />;
+  }
+  if (file.kind === 'pdf') {
+    return <div className="w-14 h-14 rounded-xl bg-red-50 border border-red-100 text-red-500 flex items-center justify-center text-[10px] font-bold shrink-0">PDF</div>;
+  }
+  return (
+    <pre className="w-14 h-14 rounded-xl bg-stone-50 border border-stone-200 p-1 text-[4px] leading-[5px] text-stone-500 overflow-hidden shrink-0">
+      {file.text?.split('\n').slice(0, 12).join('\n')}
+    </pre>
+  );
+};
+
+export const SubmissionTray: React.FC<SubmissionTrayProps> = ({ files, errors, isReading, disabled, onRemove, onClear, onSubmit }) => {
+  const { t } = useI18n();
+  const total = files.reduce((sum, f) => sum + f.size, 0);
+
+  return (
+    <div className="w-full max-w-md mt-6 space-y-3">
+      {errors.length > 0 && (
+        <div className="bg-red-50 border border-red-200 rounded-2xl px-4 py-3 space-y-1">
+          {errors.map((error, index) => <p key={index} className="text-[11px] text-red-700">{error}</p>)}
+        </div>
+      )}
+
+      {files.length > 0 && (
+        <div className="bg-white border border-stone-200 rounded-3xl p-4 shadow-sm">
+          <div className="flex items-center justify-between mb-3">
+            <p className="text-[9px] font-bold text-stone-400 uppercase tracking-[0.2em]">
+              {t('tray.summary', { count: files.length, max: MAX_SUBMISSION_FILES, size: formatBytes(total), limit: formatBytes(MAX_SUBMISSION_BYTES) })}
+            </p>
+            <button onClick={onClear} className="text-[9px] font-bold uppercase tracking-wider text-stone-400 hover:text-red-500">{t('tray.clear')}</button>
+          </div>
+          <div className="space-y-2 max-h-72 overflow-y-auto">
+            {files.map(file => (
+              <div key={file.id} className="flex items-center gap-3">
+                <FilePreview file={file} />
+                <div className="flex-1 min-w-0">
+                  <p className="text-xs font-bold text-stone-700 truncate" title={file.name}>{file.name}</p>
+                  <p className="text-[10px] text-stone-400 uppercase tracking-wider">{file.kind} · {formatBytes(file.size)}</p>
+                </div>
+                <button onClick={() => onRemove(file.id)} title={t('common.remove')} className="p-2 text-stone-300 hover:text-red-500 hover:bg-red-50 rounded-lg transition-all">
+                  <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4" viewBox="0 0 20 20" fill="currentColor">
+                    <path fillRule="evenodd" d="M4.293 4.293a1 1 0 011.414 0L10 8.586l4.293-4.293a1 1 0 111.414 1.414L11.414 10l4.293 4.293a1 1 0 01-1.414 1.414L10 11.414l-4.293 4.293a1 1 0 01-1.414-1.414L8.586 10 4.293 5.707a1 1 0 010-1.414z" clipRule="evenodd" />
+                  </svg>
+                </button>
+              </div>
+            ))}
+          </div>
+          <button
+            onClick={onSubmit}
+            disabled={disabled || isReading}
+            className="mt-4 w-full py-3 bg-violet-600 text-white rounded-xl text-[10px] font-bold uppercase tracking-widest hover:bg-violet-700 disabled:bg-stone-300 transition-all shadow-lg shadow-violet-100"
+          >
+            {t('tray.submit')}
+          </button>
+        </div>
+      )}
+
+      {isReading && <p className="text-center text-[10px] font-bold uppercase tracking-widest text-stone-400 animate-pulse">{t('tray.reading')}</p>}
+    </div>
+  );
+};
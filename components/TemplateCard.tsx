@@ -0,0 +1,102 @@
+import React from 'react';
+import { LibraryTemplate, Template } from '../types';
+import { MathText } from './MathText';
+import { useI18n } from './I18nProvider';
+
+interface TemplateCardProps {
+  template: Template | LibraryTemplate;
+  onCopy: () => void;
+  onEdit?: () => void;
+  onDuplicate?: () => void;
+  onDelete?: () => void;
+  onPromote?: () => void;
+  onStartGuided?: () => void;
+  onTrace?: () => void;
+}
+
+const isLibraryTemplate = (tpl: Template | LibraryTemplate): tpl is LibraryTemplate => 'version' in tpl;
+
+const ActionButton: React.FC<{ title: string; onClick: () => void; danger?: boolean; children: React.ReactNode }> = ({ title, onClick, danger, children }) => (
+  <button onClick={onClick} title={title} className={`p-2 text-stone-300 rounded-lg transition-all ${danger ? 'hover:text-red-500 hover:bg-red-50' : 'hover:text-violet-600 hover:bg-violet-50'}`}>
+    {children}
+  </button>
+);
+
+export const TemplateCard: React.FC<TemplateCardProps> = ({ template: tpl, onCopy, onEdit, onDuplicate, onDelete, onPromote, onStartGuided, onTrace }) => {
+  const { t, tn } = useI18n();
+  return (
+    <div className={`p-6 bg-white border rounded-3xl group transition-all hover:border-violet-300 hover:shadow-xl hover:shadow-violet-100/30 ${tpl.isSynthesized ? 'border-violet-200' : 'border-stone-200'}`}>
+      <div className="flex justify-between items-start mb-4">
+        <div>
+          <div className="flex items-center gap-2 mb-2">
+            <span className="text-[9px] font-bold text-violet-500 uppercase tracking-widest bg-violet-50 px-2 py-0.5 rounded-md">{t(`category.${tpl.category}`)}</span>
+            {isLibraryTemplate(tpl) && <span className="text-[9px] font-mono text-stone-400">v{tpl.version}</span>}
+            {tpl.tests && tpl.tests.cases.length > 0 && <span className="text-[9px] font-bold text-emerald-600 uppercase tracking-wider">{tn('templates.hiddenTests', tpl.tests.cases.length)}</span>}
+            {!isLibraryTemplate(tpl) && tpl.isSynthesized && <span className="text-[9px] font-bold text-amber-600 uppercase tracking-wider">{t('templates.sessionOnly')}</span>}
+          </div>
+          <h4 className="font-bold text-stone-800 text-lg group-hover:text-violet-700 transition-colors">{tpl.title}</h4>
+        </div>
+        <div className="flex shrink-0">
+          {onPromote && (
+            <ActionButton title={t('templates.saveToLibrary')} onClick={onPromote}>
+              <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" viewBox="0 0 20 20" fill="currentColor">
+                <path d="M5 4a2 2 0 012-2h6a2 2 0 012 2v14l-5-2.5L5 18V4z" />
+              </svg>
+            </ActionButton>
+          )}
+          {onEdit && (
+            <ActionButton title={t('common.edit')} onClick={onEdit}>
+              <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" viewBox="0 0 20 20" fill="currentColor">
+                <path d="M13.586 3.586a2 2 0 112.828 2.828l-.793.793-2.828-2.828.793-.793zM11.379 5.793L3 14.172V17h2.828l8.38-8.379-2.83-2.828z" />
+              </svg>
+            </ActionButton>
+          )}
+          {onDuplicate && (
+            <ActionButton title={t('templates.duplicate')} onClick={onDuplicate}>
+              <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" viewBox="0 0 20 20" fill="currentColor">
+                <path fillRule="evenodd" d="M10 3a1 1 0 011 1v5h5a1 1 0 110 2h-5v5a1 1 0 11-2 0v-5H4a1 1 0 110-2h5V4a1 1 0 011-1z" clipRule="evenodd" />
+              </svg>
+            </ActionButton>
+          )}
+          {onDelete && (
+            <ActionButton title={t('common.delete')} onClick={onDelete} danger>
+              <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" viewBox="0 0 20 20" fill="currentColor">
+                <path fillRule="evenodd" d="M9 2a1 1 0 00-.894.553L7.382 4H4a1 1 0 000 2v10a2 2 0 002 2h8a2 2 0 002-2V6a1 1 0 100-2h-3.382l-.724-1.447A1 1 0 0011 2H9zM7 8a1 1 0 012 0v6a1 1 0 11-2 0V8zm5-1a1 1 0 00-1 1v6a1 1 0 102 0V8a1 1 0 00-1-1z" clipRule="evenodd" />
+              </svg>
+            </ActionButton>
+          )}
+          <ActionButton title={t('common.copy')} onClick={onCopy}>
+            <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" viewBox="0 0 20 20" fill="currentColor">
+              <path d="M7 9a2 2 0 012-2h6a2 2 0 012 2v6a2 2 0 01-2 2H9a2 2 0 01-2-2V9z" />
+              <path d="M5 5a2 2 0 012-2h6a2 2 0 012 2v1h2a2 2 0 012 2v6a2 2 0 01-2 2H9a2 2 0 01-2-2v-1H7a2 2 0 01-2-2V5z" />
+            </svg>
+          </ActionButton>
+        </div>
+      </div>
+      <p className="text-xs text-stone-500 mb-6 leading-relaxed">{tpl.description}</p>
+      <div className="bg-stone-50 p-5 rounded-2xl border border-stone-100 font-mono text-[10px] text-stone-600 leading-relaxed overflow-x-auto">
+        <pre><MathText text={tpl.content} /></pre>
+      </div>
+      {(onStartGuided || onTrace) && (
+        <div className="mt-4 flex gap-2">
+          {onStartGuided && (
+            <button
+              onClick={onStartGuided}
+              className="flex-1 py-2.5 bg-stone-800 text-white rounded-xl text-[10px] font-bold uppercase tracking-widest hover:bg-violet-600 transition-all"
+            >
+              {t('templates.startGuided')}
+            </button>
+          )}
+          {onTrace && (
+            <button
+              onClick={onTrace}
+              className="flex-1 py-2.5 bg-white border border-stone-200 text-stone-700 rounded-xl text-[10px] font-bold uppercase tracking-widest hover:border-violet-400 hover:text-violet-700 transition-all"
+            >
+              {t('templates.stepThrough')}
+            </button>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
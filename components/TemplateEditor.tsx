@@ -0,0 +1,179 @@
+import React, { useState } from 'react';
+import { LibraryTemplate, TemplateCategory, TemplateDraft, TemplateTests, TestCase } from '../types';
+import { useI18n } from './I18nProvider';
+
+interface TemplateEditorProps {
+  template: LibraryTemplate | null; // null creates a new template
+  onSave: (draft: TemplateDraft) => Promise<void>;
+  onRestore: (version: number) => Promise<void>;
+  onClose: () => void;
+}
+
+const CATEGORIES = Object.values(TemplateCategory).filter(c => c !== TemplateCategory.ALL);
+
+const EMPTY_DRAFT: TemplateDraft = { title: '', description: '', content: '', category: TemplateCategory.CODING };
+
+const parsesAs = (json: string, check: (value: unknown) => boolean) => {
+  try { return check(JSON.parse(json)); } catch { return false; }
+};
+
+const isValidCase = (c: TestCase) => parsesAs(c.args, Array.isArray) && parsesAs(c.expected, () => true);
+
+const createCaseId = () => `case-${Date.now()}-${Math.random().toString(36).slice(2, 6)}`;
+
+// Teacher-only view of a template's hidden tests. Students only ever see each case's hint.
+const HiddenTestsSection: React.FC<{ tests?: TemplateTests; onChange: (tests?: TemplateTests) => void }> = ({ tests, onChange }) => {
+  const { t } = useI18n();
+  const [isOpen, setIsOpen] = useState(false);
+  const cases = tests?.cases ?? [];
+  const update = (patch: Partial<TemplateTests>) => onChange({ functionName: tests?.functionName ?? '', cases, ...patch });
+  const updateCase = (id: string, patch: Partial<TestCase>) => update({ cases: cases.map(c => c.id === id ? { ...c, ...patch } : c) });
+
+  return (
+    <div className="border border-stone-200 rounded-xl">
+      <button onClick={() => setIsOpen(prev => !prev)} className="w-full flex items-center justify-between px-3 py-2 text-left">
+        <span className="text-[9px] font-bold text-stone-400 uppercase tracking-[0.2em]">{t('templateEditor.tests', { count: cases.length })}</span>
+        <span className="text-[9px] font-bold uppercase tracking-wider text-violet-600">{isOpen ? t('common.hide') : t('common.show')}</span>
+      </button>
+      {isOpen && (
+        <div className="px-3 pb-3 space-y-2">
+          <p className="text-[10px] text-stone-400">{t('templateEditor.testsHelp')}</p>
+          <input
+            value={tests?.functionName ?? ''}
+            onChange={e => update({ functionName: e.target.value.trim() })}
+            placeholder={t('templateEditor.functionName')}
+            className="w-full bg-stone-50 border border-stone-200 rounded-lg px-3 py-1.5 font-mono text-xs focus:outline-none focus:border-violet-500"
+          />
+          {cases.map(c => (
+            <div key={c.id} className={`grid grid-cols-[1fr_1fr_1fr_auto] gap-2 ${isValidCase(c) ? '' : 'text-red-600'}`}>
+              <input value={c.args} onChange={e => updateCase(c.id, { args: e.target.value })} placeholder="[[1, 3, 5], 3]" className="min-w-0 bg-stone-50 border border-stone-200 rounded-lg px-2 py-1.5 font-mono text-[11px] focus:outline-none focus:border-violet-500" />
+              <input value={c.expected} onChange={e => updateCase(c.id, { expected: e.target.value })} placeholder={t('templateEditor.expected')} className="min-w-0 bg-stone-50 border border-stone-200 rounded-lg px-2 py-1.5 font-mono text-[11px] focus:outline-none focus:border-violet-500" />
+              <input value={c.hint} onChange={e => updateCase(c.id, { hint: e.target.value })} placeholder={t('templateEditor.hint')} className="min-w-0 bg-stone-50 border border-stone-200 rounded-lg px-2 py-1.5 text-[11px] focus:outline-none focus:border-violet-500" />
+              <button onClick={() => update({ cases: cases.filter(x => x.id !== c.id) })} title={t('common.remove')} className="px-2 text-stone-300 hover:text-red-500 text-xs">✕</button>
+            </div>
+          ))}
+          <button
+            onClick={() => update({ cases: [...cases, { id: createCaseId(), args: '', expected: '', hint: '' }] })}
+            className="text-[9px] font-bold uppercase tracking-wider text-violet-600 hover:text-violet-800"
+          >
+            {t('templateEditor.addCase')}
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export const TemplateEditor: React.FC<TemplateEditorProps> = ({ template, onSave, onRestore, onClose }) => {
+  const { language, t } = useI18n();
+  const [draft, setDraft] = useState<TemplateDraft>(() => template
+    ? { title: template.title, description: template.description, content: template.content, category: template.category, tests: template.tests }
+    : EMPTY_DRAFT);
+  const [previewVersion, setPreviewVersion] = useState<number | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+  const testsValid = !draft.tests || draft.tests.cases.length === 0
+    || (/^[A-Za-z_$][\w$]*$/.test(draft.tests.functionName) && draft.tests.cases.every(isValidCase));
+  const canSave = draft.title.trim() !== '' && draft.content.trim() !== '' && testsValid;
+
+  const update = (patch: Partial<TemplateDraft>) => setDraft(prev => ({ ...prev, ...patch }));
+
+  const handleSave = async () => {
+    if (!canSave) return;
+    setIsSaving(true);
+    try {
+      const tests = draft.tests && draft.tests.cases.length > 0 ? draft.tests : undefined;
+      await onSave({ ...draft, title: draft.title.trim(), description: draft.description.trim(), tests });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const history = template ? [...template.history].reverse() : [];
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-stone-900/20 backdrop-blur-sm" onClick={onClose}>
+      <div className="w-full max-w-2xl max-h-[90vh] bg-white rounded-3xl shadow-2xl flex flex-col overflow-hidden" onClick={e => e.stopPropagation()}>
+        <div className="h-14 px-6 flex items-center justify-between border-b border-stone-200 shrink-0">
+          <span className="text-xs font-bold text-stone-600 uppercase tracking-widest">
+            {template ? t('templateEditor.edit', { version: template.version }) : t('templates.new')}
+          </span>
+          <button onClick={onClose} className="p-2 text-stone-400 hover:text-stone-700 rounded-lg">
+            <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4" viewBox="0 0 20 20" fill="currentColor">
+              <path fillRule="evenodd" d="M4.293 4.293a1 1 0 011.414 0L10 8.586l4.293-4.293a1 1 0 111.414 1.414L11.414 10l4.293 4.293a1 1 0 01-1.414 1.414L10 11.414l-4.293 4.293a1 1 0 01-1.414-1.414L8.586 10 4.293 5.707a1 1 0 010-1.414z" clipRule="evenodd" />
+            </svg>
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-6 space-y-4">
+          <div className="grid md:grid-cols-[1fr_180px] gap-3">
+            <input
+              value={draft.title}
+              onChange={e => update({ title: e.target.value })}
+              placeholder={t('templateEditor.title')}
+              className="bg-stone-50 border border-stone-200 rounded-xl px-3 py-2 text-sm font-bold focus:outline-none focus:border-violet-500"
+            />
+            <select
+              value={draft.category}
+              onChange={e => update({ category: e.target.value as TemplateCategory })}
+              className="bg-stone-50 border border-stone-200 rounded-xl px-3 py-2 text-xs focus:outline-none focus:border-violet-500"
+            >
+              {CATEGORIES.map(cat => <option key={cat} value={cat}>{t(`category.${cat}`)}</option>)}
+            </select>
+          </div>
+          <input
+            value={draft.description}
+            onChange={e => update({ description: e.target.value })}
+            placeholder={t('templateEditor.description')}
+            className="w-full bg-stone-50 border border-stone-200 rounded-xl px-3 py-2 text-xs focus:outline-none focus:border-violet-500"
+          />
+          <textarea
+            value={draft.content}
+            onChange={e => update({ content: e.target.value })}
+            placeholder={t('templateEditor.content')}
+            className="w-full h-64 bg-stone-50 border border-stone-200 rounded-xl px-3 py-2 font-mono text-[11px] leading-relaxed focus:outline-none focus:border-violet-500 resize-y"
+          />
+          <HiddenTestsSection tests={draft.tests} onChange={tests => update({ tests })} />
+          {!testsValid && <p className="text-[10px] text-red-600">{t('templateEditor.invalidTests')}</p>}
+
+          {history.length > 0 && (
+            <div>
+              <p className="text-[9px] font-bold text-stone-400 uppercase tracking-[0.2em] mb-2">{t('templateEditor.history')}</p>
+              <div className="space-y-2">
+                {history.map(version => (
+                  <div key={version.version} className="border border-stone-200 rounded-xl">
+                    <div className="flex items-center justify-between px-3 py-2">
+                      <button onClick={() => setPreviewVersion(prev => prev === version.version ? null : version.version)} className="text-left">
+                        <span className="text-xs font-bold text-stone-700">v{version.version}</span>
+                        <span className="ml-2 text-[10px] text-stone-400">{version.title} · {new Date(version.savedAt).toLocaleString(language, { dateStyle: 'medium', timeStyle: 'short' })}</span>
+                      </button>
+                      <button
+                        onClick={() => onRestore(version.version)}
+                        className="text-[9px] font-bold uppercase tracking-wider text-violet-600 hover:text-violet-800"
+                      >
+                        {t('templateEditor.restore')}
+                      </button>
+                    </div>
+                    {previewVersion === version.version && (
+                      <pre className="mx-3 mb-3 p-3 bg-stone-50 rounded-lg font-mono text-[10px] text-stone-600 overflow-x-auto">{version.content}</pre>
+                    )}
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+        </div>
+
+        <div className="px-6 py-4 border-t border-stone-200 flex justify-end gap-2 shrink-0">
+          <button onClick={onClose} className="px-4 py-2 text-[10px] font-bold uppercase tracking-widest text-stone-500 hover:text-stone-800">{t('common.cancel')}</button>
+          <button
+            onClick={handleSave}
+            disabled={!canSave || isSaving}
+            className="px-6 py-2 bg-violet-600 text-white rounded-xl text-[10px] font-bold uppercase tracking-widest hover:bg-violet-700 disabled:bg-stone-300 transition-all shadow-lg shadow-violet-100"
+          >
+            {isSaving ? t('common.saving') : t('common.save')}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
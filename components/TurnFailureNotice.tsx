@@ -0,0 +1,39 @@
+import React from 'react';
+import { TurnFailure } from '../types';
+import { useI18n } from './I18nProvider';
+
+interface TurnFailureNoticeProps {
+  failure: TurnFailure;
+  onRetry?: () => void; // Omitted when the turn can no longer be retried in place.
+  onEdit?: () => void;
+  onChooseKey?: () => void; // Only available inside AI Studio.
+}
+
+export const TurnFailureNotice: React.FC<TurnFailureNoticeProps> = ({ failure, onRetry, onEdit, onChooseKey }) => {
+  const { t } = useI18n();
+  const isQuota = failure.kind === 'quota';
+  const needsKey = failure.kind === 'auth' || failure.kind === 'permission';
+  const buttonClass = `text-[9px] font-bold uppercase tracking-wider px-2.5 py-1 rounded-lg border transition-all ${
+    isQuota ? 'border-amber-200 text-amber-700 hover:bg-amber-100' : 'border-red-200 text-red-700 hover:bg-red-100'
+  }`;
+
+  return (
+    <div className={`mt-2 w-full rounded-xl border px-3 py-2 ${isQuota ? 'bg-amber-50 border-amber-200' : 'bg-red-50 border-red-100'}`}>
+      <p className={`text-[11px] leading-relaxed ${isQuota ? 'text-amber-800' : 'text-red-700'}`}>
+        {t(`error.${failure.kind}`)}
+        {isQuota && failure.retryAfterMs ? ` ${t('error.retryAfter', { seconds: Math.ceil(failure.retryAfterMs / 1000) })}` : ''}
+      </p>
+      <div className="flex flex-wrap justify-end gap-1.5 mt-2">
+        {needsKey && onChooseKey && (
+          <button onClick={onChooseKey} className={buttonClass}>{t('error.chooseKey')}</button>
+        )}
+        {failure.kind === 'safety' && onEdit && (
+          <button onClick={onEdit} className={buttonClass}>{t('error.edit')}</button>
+        )}
+        {failure.kind !== 'safety' && onRetry && (
+          <button onClick={onRetry} className={buttonClass}>{t('error.retry')}</button>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,44 @@
+import React from 'react';
+import { Walkthrough } from '../types';
+import { useI18n } from './I18nProvider';
+
+interface WalkthroughProgressProps {
+  walkthrough: Walkthrough;
+  onEnd: () => void;
+}
+
+export const WalkthroughProgress: React.FC<WalkthroughProgressProps> = ({ walkthrough, onEnd }) => {
+  const { t } = useI18n();
+  const total = walkthrough.steps.length;
+  const done = Math.min(walkthrough.currentStep, total);
+  const isComplete = !!walkthrough.completedAt;
+
+  return (
+    <div className="px-4 md:px-6 py-3 border-b border-stone-200 bg-white shrink-0">
+      <div className="flex items-center justify-between gap-3 mb-2">
+        <div className="min-w-0">
+          <p className="text-[9px] font-bold text-violet-500 uppercase tracking-[0.2em]">{t('walkthrough.title')}</p>
+          <p className="text-xs font-bold text-stone-700 truncate">{walkthrough.templateTitle}</p>
+        </div>
+        <div className="flex items-center gap-3 shrink-0">
+          <span className={`text-[10px] font-bold uppercase tracking-wider ${isComplete ? 'text-emerald-600' : 'text-stone-400'}`}>
+            {isComplete ? t('walkthrough.complete') : t('walkthrough.step', { current: done + 1, total })}
+          </span>
+          <button onClick={onEnd} className="text-[9px] font-bold uppercase tracking-wider text-stone-400 hover:text-red-500">
+            {isComplete ? t('walkthrough.dismiss') : t('walkthrough.end')}
+          </button>
+        </div>
+      </div>
+      <div className="flex gap-1">
+        {walkthrough.steps.map((step, index) => (
+          <div key={index} className="flex-1 min-w-0" title={step.title}>
+            <div className={`h-1.5 rounded-full transition-all ${step.completedAt ? 'bg-emerald-500' : index === walkthrough.currentStep ? 'bg-violet-500 animate-pulse' : 'bg-stone-200'}`} />
+            <p className={`mt-1 text-[9px] truncate ${index === walkthrough.currentStep ? 'font-bold text-violet-700' : step.completedAt ? 'text-emerald-700' : 'text-stone-400'}`}>
+              {index + 1}. {step.title}
+            </p>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
@@ -1,4 +1,4 @@
-import { Template, KnowledgeLevel, TemplateCategory } from './types';
+import { Template, KnowledgeLevel, TemplateCategory, Rubric, DiagramAction, UILanguageOption, HintLevel } from './types';
 
 export const SYSTEM_INSTRUCTION = `
 # ROLE
@@ -43,14 +43,13 @@ When explaining concepts, definitions, or technical terms:
 4. Never provide full solutions.
 
 # VISUALIZATION PROTOCOL
-You have two ways to visualize:
-1. **Structural Logic (Mermaid)**: For every complex concept, provide a Mermaid diagram (flowchart, sequence, etc.) in \`\`\`mermaid\`\`\` blocks. This is for showing HOW things work.
-2. **Conceptual Vision (Trigger)**: If a conceptual image (e.g., "A 3D cross-section of a black hole") would help, add the following tag to your response: \`[CONCEPTUAL_VISUAL: A detailed, clear educational illustration of ...]\`. The system will automatically render this.
+For every complex concept, provide a Mermaid diagram (flowchart, sequence, etc.) in \`\`\`mermaid\`\`\` blocks. This is for showing HOW things work.
 
 # MENTOR STATUS
 Use 'updateMentorStatus' tool:
 - 'satisfied': User demonstrated logical understanding.
 - 'searching': Still exploring or needs guidance.
+Always name the concept you are assessing (reuse the same name for the same concept across turns) and give your confidence from 0 to 1.
 `;
 
 export const TEMPLATES: Template[] = [
@@ -94,4 +93,112 @@ export const TEMPLATES: Template[] = [
   }
 ];
 
-export const INITIAL_KNOWLEDGE_LEVEL = KnowledgeLevel.BEGINNER;
\ No newline at end of file
+// Seeded into the rubric store on first launch; teachers can edit or replace them.
+export const DEFAULT_RUBRICS: Rubric[] = [
+  {
+    id: 'rubric-logic',
+    name: 'Algorithmic Logic',
+    createdAt: 0,
+    updatedAt: 0,
+    criteria: [
+      { id: 'correctness', name: 'Correctness', description: 'The logic produces the right result for every valid input.', maxScore: 4 },
+      { id: 'edge-cases', name: 'Edge Cases', description: 'Empty, minimal, maximal and invalid inputs are considered and handled.', maxScore: 3 },
+      { id: 'structure', name: 'Structure', description: 'The problem is decomposed into clear steps or functions with a single purpose each.', maxScore: 3 },
+      { id: 'reasoning', name: 'Reasoning', description: 'The student can justify why each step is needed, including complexity where relevant.', maxScore: 2 },
+    ],
+  },
+  {
+    id: 'rubric-proof',
+    name: 'Proof Writing',
+    createdAt: 1,
+    updatedAt: 1,
+    criteria: [
+      { id: 'setup', name: 'Setup', description: 'The claim, assumptions and proof technique are stated clearly.', maxScore: 2 },
+      { id: 'validity', name: 'Validity', description: 'Every step follows from earlier steps or known results.', maxScore: 4 },
+      { id: 'completeness', name: 'Completeness', description: 'All cases are covered, including base cases and boundaries.', maxScore: 3 },
+      { id: 'clarity', name: 'Clarity', description: 'The argument is easy to follow and reaches an explicit conclusion.', maxScore: 1 },
+    ],
+  },
+];
+
+export const INITIAL_KNOWLEDGE_LEVEL = KnowledgeLevel.BEGINNER;
+
+export const AUTOSAVE_DELAY_MS = 800;
+
+// Interface languages, in the order they appear in the switcher.
+export const UI_LANGUAGES: UILanguageOption[] = [
+  { code: 'en', name: 'English', nativeName: 'English', dir: 'ltr' },
+  { code: 'hi', name: 'Hindi', nativeName: 'हिन्दी', dir: 'ltr' },
+  { code: 'bn', name: 'Bengali', nativeName: 'বাংলা', dir: 'ltr' },
+  { code: 'te', name: 'Telugu', nativeName: 'తెలుగు', dir: 'ltr' },
+  { code: 'mr', name: 'Marathi', nativeName: 'मराठी', dir: 'ltr' },
+  { code: 'ta', name: 'Tamil', nativeName: 'தமிழ்', dir: 'ltr' },
+  { code: 'ur', name: 'Urdu', nativeName: 'اردو', dir: 'rtl' },
+  { code: 'gu', name: 'Gujarati', nativeName: 'ગુજરાતી', dir: 'ltr' },
+  { code: 'kn', name: 'Kannada', nativeName: 'ಕನ್ನಡ', dir: 'ltr' },
+  { code: 'ml', name: 'Malayalam', nativeName: 'മലയാളം', dir: 'ltr' },
+  { code: 'or', name: 'Odia', nativeName: 'ଓଡ଼ିଆ', dir: 'ltr' },
+  { code: 'pa', name: 'Punjabi', nativeName: 'ਪੰਜਾਬੀ', dir: 'ltr' },
+];
+
+// Automatic retries for transient AI failures: network drops, timeouts, overloaded servers and short rate limits.
+export const AI_MAX_RETRIES = 2;
+export const AI_RETRY_BASE_DELAY_MS = 1000;
+// Rate-limit waits longer than this are surfaced to the student instead of retried in the background.
+export const AI_MAX_RETRY_DELAY_MS = 10000;
+export const AI_STRUCTURED_TIMEOUT_MS = 120000;
+// A streamed reply that goes quiet for this long counts as timed out.
+export const AI_STREAM_IDLE_TIMEOUT_MS = 60000;
+
+// Estimated tokens of conversation history sent with each turn. Past this, the oldest turns are summarised
+// until the history is back under the target; the latest turns are always sent verbatim.
+export const CONTEXT_TOKEN_BUDGET = 16000;
+export const CONTEXT_TARGET_TOKENS = 10000;
+export const MIN_VERBATIM_TURNS = 6;
+
+// Rungs of the hint ladder, from least to most revealing, and the hint allowance for a single problem.
+export const HINT_LEVELS: HintLevel[] = ['nudge', 'subproblem', 'skeleton'];
+export const MAX_HINTS_PER_PROBLEM = 3;
+
+// The adaptive level scale: each knowledge level is split into this many finer steps.
+export const LEVEL_STEPS_PER_BAND = 3;
+// How far the running estimate must drift from the current step before the step changes.
+export const LEVEL_CHANGE_THRESHOLD = 0.75;
+
+// Rounds of workspace tool calls one tutor reply may make before it has to answer.
+export const MAX_TOOL_ROUNDS = 4;
+
+// Upper bound on hidden repair round-trips for a single invalid Mermaid block.
+export const MAX_MERMAID_REPAIR_ATTEMPTS = 2;
+
+// Menu shown when a student clicks a step or link in a flowchart Blueprint.
+export const DIAGRAM_ACTIONS: DiagramAction[] = [
+  { id: 'explain', appliesTo: ['node'] },
+  { id: 'why-branch', appliesTo: ['node', 'edge'] },
+  { id: 'what-if-fails', appliesTo: ['node', 'edge'] },
+  { id: 'example', appliesTo: ['node', 'edge'] },
+];
+
+// Solution-leak guard: a fenced block with at least this many code lines that also defines or runs
+// something is treated as a complete solution.
+export const MIN_SOLUTION_CODE_LINES = 10;
+
+// A worked proof needs at least this many steps between its heading and its conclusion to be redacted.
+export const MIN_PROOF_STEPS = 4;
+
+// Prose with no code or working must be at least this long to count as an attempt that unlocks a redacted solution.
+export const MIN_ATTEMPT_LENGTH = 40;
+
+// Submission limits. Images and PDFs travel inline as base64 (a third larger) in one request, which Gemini and
+// the proxy cap at about 20MB.
+export const MAX_SUBMISSION_FILES = 12;
+export const MAX_TEXT_FILE_BYTES = 256 * 1024;
+export const MAX_INLINE_FILE_BYTES = 7 * 1024 * 1024;
+export const MAX_SUBMISSION_BYTES = 12 * 1024 * 1024;
+export const MAX_ARCHIVE_BYTES = 25 * 1024 * 1024;
+
+// Sandboxed test runs: a single case that runs longer than this is stopped, and console output is capped.
+export const TEST_CASE_TIMEOUT_MS = 3000;
+// Loading the Python runtime the first time can take a while and is not counted against any test.
+export const PYTHON_LOAD_TIMEOUT_MS = 60000;
+export const MAX_RUNNER_LOG_LINES = 100;
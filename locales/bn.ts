@@ -0,0 +1,388 @@
+import { Messages } from './en';
+
+export const bn: Messages = {
+  'language.label': 'ইন্টারফেসের ভাষা',
+
+  'header.sessions': 'অধ্যয়ন সেশন',
+  'header.subtitle': 'অসীম',
+  'header.satisfied': 'সন্তুষ্ট',
+  'header.socratic': 'সক্রেটিক',
+
+  'level.Beginner': 'প্রাথমিক',
+  'level.Intermediate': 'মাঝারি',
+  'level.Advanced': 'উন্নত',
+  'level.suggested': 'আপনার টিউটর {level} স্তরে যাওয়ার পরামর্শ দিচ্ছেন।',
+  'level.switch': 'বদলান',
+  'level.keep': 'বর্তমানটি রাখুন',
+  'level.step': '{level}, ধাপ {step}/{steps}',
+  'level.adjusted': 'আপনার স্তর {level} করা হয়েছে।',
+  'level.undo': 'পূর্বাবস্থায় ফেরান',
+  'level.ok': 'ঠিক আছে',
+  'level.quizReason': 'আপনার কুইজ স্কোর {score}%।',
+  'level.mode': 'স্তর মোড',
+  'level.mode.manual': 'ম্যানুয়াল',
+  'level.mode.suggest': 'অভিযোজিত: পরিবর্তন প্রস্তাব করুন',
+  'level.mode.auto': 'অভিযোজিত: স্বয়ংক্রিয়ভাবে বদলান',
+  'level.history': 'স্তরের ইতিহাস',
+  'level.source.manual': 'আপনার বেছে নেওয়া',
+  'level.source.diagnostic': 'নির্ণায়ক প্রশ্ন',
+  'level.source.conversation': 'কথোপকথন',
+  'level.source.quiz': 'কুইজ',
+
+  'chat.title': 'যুক্তির ধারা',
+  'chat.you': 'আপনি',
+  'chat.stopped': 'থামানো হয়েছে',
+  'chat.placeholder': 'আপনার চিন্তার কাঠামো নিয়ে আলোচনা করুন...',
+  'chat.stop': 'উত্তর থামান',
+  'chat.pin': 'প্রসঙ্গে রাখুন',
+  'chat.unpin': 'প্রসঙ্গে রাখা বন্ধ করুন',
+  'chat.summarized': 'আগের কথোপকথনের সারাংশ করা হয়েছে',
+  'chat.welcome': 'নমস্কার। আমি **Encrypt**। \n\nসরাসরি উত্তর না দিয়ে, জটিল যুক্তি খুলে খুলে বুঝতে আপনাকে সাহায্য করতে আমি এখানে আছি।\n\nআমি **English, हिन्दी, తెలుగు, தமிழ்** সহ আরও অনেক ভারতীয় ভাষা জানি।\n\nওপরে আপনার জ্ঞানের স্তর বেছে নিন এবং বলুন: **আজ আমরা কোন ধারণার কাঠামো গড়ব?**',
+  'chat.quizFailed': 'এখন কুইজ তৈরি করা গেল না। অনুগ্রহ করে আবার চেষ্টা করুন।',
+  'chat.quizIntro': 'চলুন **{topic}** সম্পর্কে আপনার বোঝাপড়া যাচাই করি। প্রতিটি প্রশ্নের উত্তর দিন, তারপর জমা দিন।',
+  'chat.fallbackReply': 'বুঝেছি। চলো এই লজিকের গঠনটা দেখি।',
+
+  'action.analogy': 'উপমা',
+  'action.analogyPrompt': 'এটা দৈনন্দিন জীবনের একটা উপমা দিয়ে বুঝিয়ে দিন।',
+  'action.quiz': 'আমাকে পরীক্ষা করুন',
+  'action.realWorld': 'বাস্তব জগৎ',
+  'action.realWorldPrompt': 'বাস্তব জগতের কোনো অ্যাপ্লিকেশনে এটা কীভাবে ব্যবহার হয়?',
+  'action.visualize': 'ছবিতে দেখান',
+  'action.visualizePrompt': 'বর্তমান ধারণাটি বোঝাতে অনুগ্রহ করে একটি ছবি বা ডায়াগ্রাম দিন।',
+
+  'hint.stuck': 'আমি আটকে গেছি',
+  'hint.stuckPrompt': 'আমি আটকে গেছি। আমাকে একটা ইঙ্গিত দেবেন?',
+  'hint.badge': 'ইঙ্গিত {number}/{max}',
+  'hint.level.nudge': 'খোঁচা',
+  'hint.level.subproblem': 'উপ-সমস্যা',
+  'hint.level.skeleton': 'কাঠামো',
+  'hint.currentProblem': 'বর্তমান সমস্যা',
+
+  'tab.visualizer': 'ব্লুপ্রিন্ট',
+  'tab.templates': 'জ্ঞান',
+  'tab.upload': 'জমা',
+  'tab.image_gen': 'ক্যানভাস',
+  'tab.mastery': 'দক্ষতা',
+
+  'category.All': 'সব',
+  'category.Coding': 'কোডিং',
+  'category.Algorithms': 'অ্যালগরিদম',
+  'category.Mathematics': 'গণিত',
+  'category.Science': 'বিজ্ঞান',
+  'category.Writing': 'লেখা',
+  'category.Systems': 'সিস্টেম',
+  'category.Database': 'ডেটাবেস',
+  'category.Philosophy': 'দর্শন',
+  'category.Economics': 'অর্থনীতি',
+
+  'templates.search': 'যুক্তির টেমপ্লেট খুঁজুন...',
+  'templates.new': 'নতুন টেমপ্লেট',
+  'templates.import': 'প্যাক ইমপোর্ট',
+  'templates.export': 'প্যাক এক্সপোর্ট',
+  'templates.packName': 'Encrypt টেমপ্লেট',
+  'templates.categoryPackName': '{category} টেমপ্লেট',
+  'templates.synthTitle': 'প্যাটার্ন নির্মাতা',
+  'templates.synthBody': 'ধারণাটি পাওয়া যায়নি। Encrypt আপনার জন্য একটি নতুন টেমপ্লেট তৈরি করতে পারে।',
+  'templates.synthesizing': 'তৈরি হচ্ছে...',
+  'templates.synthesize': 'যুক্তি তৈরি করুন',
+  'templates.hiddenTests_one': '{count}টি লুকানো টেস্ট',
+  'templates.hiddenTests_other': '{count}টি লুকানো টেস্ট',
+  'templates.sessionOnly': 'শুধু এই সেশনে',
+  'templates.saveToLibrary': 'লাইব্রেরিতে সংরক্ষণ করুন',
+  'templates.duplicate': 'প্রতিলিপি তৈরি করুন',
+  'templates.startGuided': 'নির্দেশিত সেশন শুরু করুন',
+  'templates.stepThrough': 'ধাপে ধাপে চালান',
+  'templates.confirmDelete_one': '"{title}" এবং এর {count}টি পুরোনো সংস্করণ মুছে ফেলবেন?',
+  'templates.confirmDelete_other': '"{title}" এবং এর {count}টি পুরোনো সংস্করণ মুছে ফেলবেন?',
+
+  'upload.title': 'অ্যাসাইনমেন্ট পর্যালোচনা',
+  'upload.body': 'কাঠামোগত মূল্যায়নের জন্য আপনার যুক্তির খসড়া জমা দিন: সোর্স ফাইল, প্রজেক্টের .zip, PDF বা হাতে লেখা কাজের ছবি।',
+  'upload.browse': 'ফাইল বেছে নিন',
+  'upload.addMore': 'আরও ফাইল যোগ করুন',
+  'upload.rubric': 'রুব্রিক',
+  'upload.points': '{count} নম্বর',
+  'upload.tests': 'টেস্ট',
+  'upload.noTests': 'লুকানো টেস্ট চালাবেন না',
+  'upload.testCount': '{count}টি টেস্ট',
+  'upload.testing': 'লুকানো টেস্ট চলছে...',
+  'upload.reviewing': 'রুব্রিক অনুযায়ী পর্যালোচনা চলছে...',
+  'upload.reports': 'মতামত রিপোর্ট',
+
+  'canvas.placeholder': 'একটি দৃশ্যের কল্পনা লিখুন...',
+  'canvas.size1K': 'সাধারণ 1K',
+  'canvas.size2K': 'হাই-রেজ 2K',
+  'canvas.size4K': 'আল্ট্রা-রেজ 4K',
+  'canvas.generating': 'কল্পনা করা হচ্ছে...',
+  'canvas.render': 'ছবি তৈরি করুন',
+  'canvas.rendering': 'তৈরি হচ্ছে...',
+  'canvas.append': 'ব্লুপ্রিন্টে যোগ করুন',
+  'canvas.empty': 'ক্যানভাস খালি',
+  'canvas.generatedAlt': 'তৈরি করা ধারণা-চিত্র',
+
+  'nav.workspace': 'কর্মক্ষেত্র',
+
+  'toast.cheat': 'আগে ভাবুন! আমি সরাসরি কোড দিতে পারি না। চলুন যুক্তি নিয়ে কথা বলি।',
+  'toast.quizNeedsContext': 'আগে একটা ধারণা নিয়ে আলোচনা করি, তারপর সেটার ওপর আপনাকে পরীক্ষা করতে পারব।',
+  'toast.gradingFailed': 'মূল্যায়ন ব্যর্থ হয়েছে। অনুগ্রহ করে আবার জমা দিন।',
+  'toast.noSteps': 'এই টেমপ্লেটে ধাপে ধাপে এগোনোর মতো ক্রমিক ধাপ নেই।',
+  'toast.waitForReply': 'বর্তমান উত্তরটি শেষ হতে দিন, তারপর ওই ধাপ সম্পর্কে জিজ্ঞেস করুন।',
+  'toast.rubricSaveFailed': 'রুব্রিক সংরক্ষণ করা যায়নি।',
+  'toast.templateSaveFailed': 'টেমপ্লেট সংরক্ষণ করা যায়নি।',
+  'toast.packImported': '{added}টি নতুন ইমপোর্ট হয়েছে, {updated}টি আপডেট হয়েছে।',
+  'toast.packImportedSkipped': '{added}টি নতুন ইমপোর্ট হয়েছে, {updated}টি আপডেট হয়েছে, {skipped}টি অবৈধ বাদ দেওয়া হয়েছে।',
+  'toast.packImportFailed': 'টেমপ্লেট প্যাক ইমপোর্ট ব্যর্থ হয়েছে।',
+  'toast.packError.invalidJson': 'ফাইলটি বৈধ JSON নয়।',
+  'toast.packError.notPack': 'ফাইলটি Encrypt টেমপ্লেট প্যাক নয়।',
+  'toast.packError.newerVersion': 'এই প্যাকটি Encrypt-এর নতুন সংস্করণ থেকে এক্সপোর্ট করা হয়েছে।',
+  'toast.exportFailed': 'এক্সপোর্ট ব্যর্থ হয়েছে। অনুগ্রহ করে আবার চেষ্টা করুন।',
+
+  'visualizer.emptyTitle': 'দৃশ্যের ধারা',
+  'visualizer.emptyBody': 'Encrypt-এর সঙ্গে কথা বলার সময়, জটিল যুক্তি স্পষ্ট করার ডায়াগ্রাম ও ছবি এখানে দেখা যাবে।',
+  'visualizer.title': 'সক্রিয় ব্লুপ্রিন্ট',
+  'visualizer.components_one': '{count}টি উপাদান',
+  'visualizer.components_other': '{count}টি উপাদান',
+  'visualizer.footer': 'যুক্তির ধারার সঙ্গে স্বয়ংক্রিয়ভাবে হালনাগাদ হয়',
+  'visualizer.vision': 'ধারণাগত ছবি',
+  'visualizer.repaired': 'সংশোধিত',
+  'visualizer.failed': 'ব্যর্থ',
+  'visualizer.edited': 'সম্পাদিত',
+  'visualizer.repairedTitle_one': '{count}টি পার্স ত্রুটির পরে স্বয়ংক্রিয়ভাবে সংশোধিত',
+  'visualizer.repairedTitle_other': '{count}টি পার্স ত্রুটির পরে স্বয়ংক্রিয়ভাবে সংশোধিত',
+  'visualizer.failedTitle': 'টিউটর এই ডায়াগ্রামের সঠিক সংস্করণ তৈরি করতে পারেননি',
+  'visualizer.editedTitle': 'আগের ব্লুপ্রিন্টের আপনার সংশোধন',
+
+  'diagram.syntaxError': 'Mermaid সিনট্যাক্স ত্রুটি',
+  'diagram.source': 'উৎস',
+  'diagram.zoomOut': 'ছোট করুন',
+  'diagram.zoomIn': 'বড় করুন',
+  'diagram.resetView': 'দৃশ্য রিসেট করুন',
+  'diagram.action.explain': 'এই ধাপটি ব্যাখ্যা করুন',
+  'diagram.action.why-branch': 'এই শাখা কেন?',
+  'diagram.action.what-if-fails': 'এটি ব্যর্থ হলে কী হবে?',
+  'diagram.action.example': 'এর মধ্য দিয়ে একটি উদাহরণ চালিয়ে দেখান',
+
+  'blueprint.label': 'ব্লুপ্রিন্ট {number}',
+  'blueprint.labelRevision': 'ব্লুপ্রিন্ট {number} · সংশোধন {revision}',
+  'blueprint.compare': 'তুলনা করুন',
+  'blueprint.revisions': 'সংশোধনগুলি',
+  'blueprint.original': 'মূল',
+  'blueprint.revision': 'সংশোধন {revision}',
+  'blueprint.source': 'Mermaid উৎস',
+  'blueprint.preview': 'লাইভ প্রিভিউ',
+  'blueprint.before': 'আগে',
+  'blueprint.after': 'পরে',
+  'blueprint.changes': 'পরিবর্তন',
+  'blueprint.legend.added': 'যোগ করা',
+  'blueprint.legend.removed': 'সরানো',
+  'blueprint.legend.changed': 'নাম বদলানো',
+  'blueprint.pickTwo': 'তুলনার জন্য দুটি আলাদা ব্লুপ্রিন্ট বেছে নিন।',
+  'blueprint.sameStructure': 'এই দুটি সংস্করণের গঠন একই।',
+  'blueprint.linesOnly': 'শুধু ফ্লোচার্টই নোড ধরে তুলনা করা যায়; তাই পরিবর্তিত উৎস লাইন দেখানো হচ্ছে।',
+  'blueprint.change.addedStep': 'ধাপ "{label}" যোগ করা হয়েছে',
+  'blueprint.change.removedStep': 'ধাপ "{label}" সরানো হয়েছে',
+  'blueprint.change.renamedStep': '"{before}"-এর নাম বদলে "{after}" করা হয়েছে',
+  'blueprint.change.addedLink': 'লিঙ্ক {link} যোগ করা হয়েছে',
+  'blueprint.change.removedLink': 'লিঙ্ক {link} সরানো হয়েছে',
+  'blueprint.change.addedLine': 'লাইন যোগ করা হয়েছে: {line}',
+  'blueprint.change.removedLine': 'লাইন সরানো হয়েছে: {line}',
+  'blueprint.unsaved': 'সংরক্ষণ না করা পরিবর্তন',
+  'blueprint.savedAsRevisions': 'সম্পাদনা নতুন সংশোধন হিসেবে সংরক্ষিত হয়; মূলটি স্ট্যাকে থেকে যায়।',
+  'blueprint.saveRevision': 'সংশোধন সংরক্ষণ করুন',
+  'blueprint.changeFirst': 'আগে কিছু পরিবর্তন করুন',
+  'blueprint.check': 'আমার সংস্করণ কি ঠিক?',
+  'blueprint.discard': 'এই ব্লুপ্রিন্টের সংরক্ষণ না করা পরিবর্তন বাতিল করবেন?',
+
+  'sessions.title': 'অধ্যয়ন সেশন',
+  'sessions.new': 'নতুন সেশন',
+  'sessions.empty': 'এখনও কোনো সংরক্ষিত সেশন নেই।',
+  'sessions.untitled': 'নামহীন সেশন',
+  'sessions.turns_one': '{count}টি আলাপ',
+  'sessions.turns_other': '{count}টি আলাপ',
+
+  'tray.summary': '{count} / {max}টি ফাইল · {limit}-এর মধ্যে {size}',
+  'tray.clear': 'মুছুন',
+  'tray.submit': 'পর্যালোচনার জন্য জমা দিন',
+  'tray.reading': 'ফাইল পড়া হচ্ছে...',
+
+  'walkthrough.title': 'নির্দেশিত অনুশীলন',
+  'walkthrough.complete': 'সম্পূর্ণ',
+  'walkthrough.step': 'ধাপ {current} / {total}',
+  'walkthrough.dismiss': 'বন্ধ করুন',
+  'walkthrough.end': 'শেষ করুন',
+  'walkthrough.startPrompt': '"{title}" টেমপ্লেটটা আমাকে এক এক ধাপ করে বুঝিয়ে দাও।',
+  'walkthrough.sessionName': 'গাইডেড: {title}',
+
+  'export.button': 'সেশন এক্সপোর্ট করুন',
+  'export.heading': 'সেশন এক্সপোর্ট',
+  'export.preparing': 'প্রস্তুত হচ্ছে...',
+  'export.htmlHint': 'একটি স্বয়ংসম্পূর্ণ ফাইল',
+  'export.markdownHint': 'assets ফোল্ডারসহ .zip',
+  'export.pdfHint': 'ছাপার উপযোগী বিন্যাস',
+
+  'gate.revealed': 'আপনার চেষ্টার পরে পূর্ণ সমাধান দেখানো হয়েছে',
+  'gate.code': 'একটি সম্পূর্ণ প্রোগ্রাম',
+  'gate.proof': 'একটি সম্পূর্ণ প্রমাণ',
+  'gate.and': ' এবং ',
+  'gate.body': 'এই উত্তরে {kinds} ছিল, তাই এটিকে শুধু একটি কাঠামোয় সংক্ষিপ্ত করা হয়েছে।',
+  'gate.canReveal': 'আপনি চেষ্টা করেছেন, তাই এখন পূর্ণ সংস্করণের সঙ্গে মিলিয়ে দেখতে পারেন।',
+  'gate.cannotReveal': 'ফাঁকা জায়গাগুলো নিজে পূরণ করে আপনার চেষ্টা শেয়ার করুন, তাহলে পূর্ণ সংস্করণ খুলবে।',
+  'gate.reveal': 'সমাধান দেখান',
+
+  'error.auth': 'AI পরিষেবা API কী গ্রহণ করেনি।',
+  'error.permission': 'এই API কী দিয়ে ওই মডেল ব্যবহারের অনুমতি নেই। কোনো পেইড প্রজেক্টের কী বেছে নিন।',
+  'error.quota': 'AI পরিষেবা এই মুহূর্তে অনেক বেশি অনুরোধ পাচ্ছে।',
+  'error.safety': 'নিরাপত্তা নিয়মের কারণে AI পরিষেবা এর উত্তর দেয়নি। আপনার বার্তাটি অন্যভাবে লিখে দেখুন।',
+  'error.network': 'AI পরিষেবার সঙ্গে যোগাযোগ করা যায়নি। আপনার সংযোগ পরীক্ষা করে আবার চেষ্টা করুন।',
+  'error.timeout': 'AI পরিষেবা উত্তর দিতে খুব বেশি সময় নিয়েছে।',
+  'error.invalid_output': 'AI পরিষেবার পাঠানো উত্তরটি পড়া যায়নি।',
+  'error.server': 'AI পরিষেবায় এই মুহূর্তে সমস্যা হচ্ছে।',
+  'error.unknown': 'AI পরিষেবার সঙ্গে যোগাযোগের সময় কিছু একটা ভুল হয়েছে।',
+  'error.retryAfter': '{seconds} সেকেন্ড পরে আবার চেষ্টা করুন।',
+  'error.retry': 'আবার চেষ্টা করুন',
+  'error.edit': 'বার্তা সম্পাদনা করুন',
+  'error.chooseKey': 'API কী বেছে নিন',
+
+  'mastery.learner': 'শিক্ষার্থী',
+  'mastery.addLearner': 'শিক্ষার্থী যোগ করুন...',
+  'mastery.emptyTitle': 'এখনও কোনো ধারণা মূল্যায়ন করা হয়নি',
+  'mastery.emptyBody': 'Encrypt আপনার যুক্তি যাচাই করার সাথে সাথে, মূল্যায়ন করা প্রতিটি ধারণা এখানে দেখা যায়।',
+  'mastery.demonstrated': 'প্রমাণিত · {count}',
+  'mastery.noneDemonstrated': 'এখনও কিছু প্রমাণিত হয়নি। ভাবতে থাকুন।',
+  'mastery.searching': 'এখনও খোঁজা চলছে · {count}',
+  'mastery.noneSearching': 'মূল্যায়ন করা প্রতিটি ধারণা প্রমাণিত হয়েছে।',
+  'mastery.checks_one': '{count}টি যাচাই',
+  'mastery.checks_other': '{count}টি যাচাই',
+  'mastery.transitions_one': '{count}টি পরিবর্তন',
+  'mastery.transitions_other': '{count}টি পরিবর্তন',
+  'mastery.status.satisfied': 'সন্তুষ্ট',
+  'mastery.status.searching': 'খোঁজা চলছে',
+
+  'quiz.title': 'কুইজ · {topic}',
+  'quiz.kind.multiple_choice': 'একটি বেছে নিন',
+  'quiz.kind.ordering': 'ধাপগুলি ক্রমানুসারে সাজান',
+  'quiz.kind.short_answer': 'সংক্ষিপ্ত উত্তর',
+  'quiz.correct': 'সঠিক',
+  'quiz.partly': 'আংশিক',
+  'quiz.notYet': 'এখনও নয়',
+  'quiz.placeholder': 'আপনার যুক্তি ব্যাখ্যা করুন...',
+  'quiz.grading': 'মূল্যায়ন হচ্ছে...',
+  'quiz.submit': 'উত্তর জমা দিন',
+
+  'trace.title': 'ট্রেস · {title}',
+  'trace.pseudocode': 'সিউডোকোড',
+  'trace.doneEditing': 'সম্পাদনা শেষ',
+  'trace.undefined_one': 'এই টেমপ্লেট {names} আপনার পূরণ করার জন্য রেখে দেয়। ট্রেস করার আগে সিউডোকোড সম্পাদনা করে এটিকে FUNCTION দিয়ে সংজ্ঞায়িত করুন।',
+  'trace.undefined_other': 'এই টেমপ্লেট {names} আপনার পূরণ করার জন্য রেখে দেয়। ট্রেস করার আগে সিউডোকোড সম্পাদনা করে এগুলিকে FUNCTION দিয়ে সংজ্ঞায়িত করুন।',
+  'trace.first': 'প্রথম ধাপ',
+  'trace.back': 'এক ধাপ পিছনে',
+  'trace.forward': 'এক ধাপ সামনে',
+  'trace.last': 'শেষ ধাপ',
+  'trace.event.line': 'চলছে',
+  'trace.event.call': 'কল করছে',
+  'trace.event.return': 'ফিরছে',
+  'trace.event.done': 'শেষ হয়েছে',
+  'trace.event.error': 'থেমে গেছে',
+  'trace.line': 'লাইন {line}',
+  'trace.inputs': 'ইনপুট',
+  'trace.noInputs': 'এই কোডের কোনো ইনপুট লাগে না।',
+  'trace.inputPlaceholder': 'যেমন 5 বা [1, 2, 3]',
+  'trace.restart': 'আবার ট্রেস শুরু করুন',
+  'trace.start': 'ট্রেস শুরু করুন',
+  'trace.variables': 'ভেরিয়েবল',
+  'trace.allReturned': 'সব কল ফিরে এসেছে।',
+  'trace.noVariables': 'এখনও কোনো ভেরিয়েবল নেই।',
+  'trace.callStack': 'কল স্ট্যাক · {depth} গভীর',
+
+  'report.revision': 'সংশোধন {revision}',
+  'report.sinceLast': 'আগের সংস্করণ থেকে {delta}',
+  'report.hiddenTests': 'লুকানো টেস্ট · {title}',
+  'report.passed': '{passed}/{total} পাস',
+  'report.case.pass': 'পাস',
+  'report.case.skipped': 'চালানো হয়নি',
+  'report.case.timeout': 'সময় শেষ',
+  'report.case.error': 'ক্র্যাশ করেছে',
+  'report.case.fail': 'ভুল ফল',
+  'report.caseWithHint': '{hint}-এ {outcome}',
+  'runner.invalidFunction': '"{name}" বৈধ ফাংশনের নাম নয়।',
+  'runner.compile': 'কোড কম্পাইল হচ্ছে না।',
+  'runner.line': 'লাইন {line}:',
+  'runner.loadTimeout': 'কোড লোড হতে অনেক সময় লেগেছে।',
+  'runner.pythonLoadTimeout': 'Python রানটাইম সময়মতো লোড হয়নি। সংযোগ পরীক্ষা করে আবার চেষ্টা করো।',
+  'runner.missingFunction': '"{name}" নামে কোনো ফাংশন লেখা হয়নি।',
+  'runner.loadFailed': 'লোড হওয়ার সময় কোড ব্যর্থ হয়েছে।',
+  'runner.thrown': 'কোড একটি ত্রুটি দিয়েছে।',
+  'runner.timeout': '{seconds} সেকেন্ড পরেও চলছে। কোনো লুপ কি কখনো শেষ হয় না?',
+  'runner.resultTooLarge': 'ফলাফল তুলনা করার পক্ষে খুব বড় ছিল।',
+  'runner.crashed': 'কোড স্যান্ডবক্স ক্র্যাশ করিয়েছে; হয়তো মেমরি ফুরিয়ে গেছে।',
+  'report.console_one': 'কনসোল আউটপুট ({count} লাইন)',
+  'report.console_other': 'কনসোল আউটপুট ({count} লাইন)',
+  'report.compared': 'আগের সংস্করণের সাথে তুলনা',
+  'report.improved': 'কী উন্নত হয়েছে',
+  'report.fixed': 'ঠিক হয়েছে',
+  'report.stillOpen': 'এখনও বাকি',
+  'report.newIssues': 'এবার নতুন',
+  'report.noDifferences': 'পাওয়া সমস্যাগুলিতে কোনো পার্থক্য নেই।',
+  'report.section.strengths': 'শক্তির দিক',
+  'report.section.logicalGaps': 'যৌক্তিক ফাঁক',
+  'report.section.misconceptions': 'ভুল ধারণা',
+  'report.section.unhandledEdgeCases': 'সামলানো হয়নি এমন এজ কেস',
+
+  'templateEditor.edit': 'টেমপ্লেট সম্পাদনা · v{version}',
+  'templateEditor.title': 'শিরোনাম',
+  'templateEditor.description': 'সংক্ষিপ্ত বিবরণ',
+  'templateEditor.content': 'টেমপ্লেটের কাঠামো...',
+  'templateEditor.tests': 'লুকানো টেস্ট · {count}',
+  'templateEditor.testsHelp': 'JavaScript, TypeScript বা Python-এ জমা দেওয়া কাজ এগুলির উপর চালানো হয়। আর্গুমেন্ট একটি JSON array; শিক্ষার্থীরা ব্যর্থ কেসের শুধু ইঙ্গিত দেখে।',
+  'templateEditor.functionName': 'যে ফাংশন কল করতে হবে, যেমন binarySearch',
+  'templateEditor.expected': 'প্রত্যাশিত, যেমন 1',
+  'templateEditor.hint': 'ইঙ্গিত, যেমন লক্ষ্য শেষে',
+  'templateEditor.addCase': 'টেস্ট কেস যোগ করুন',
+  'templateEditor.invalidTests': 'প্রতিটি টেস্টে আর্গুমেন্টের JSON array ও প্রত্যাশিত JSON মান লাগবে, এবং ফাংশনের নাম বৈধ identifier হতে হবে।',
+  'templateEditor.history': 'সংস্করণের ইতিহাস',
+  'templateEditor.restore': 'পুনরুদ্ধার করুন',
+
+  'rubric.edit': 'রুব্রিক সম্পাদনা',
+  'rubric.new': 'নতুন রুব্রিক',
+  'rubric.name': 'রুব্রিকের নাম, যেমন সপ্তাহ 4: সর্টিং',
+  'rubric.criteria': 'মানদণ্ড · {total} পয়েন্ট',
+  'rubric.addCriterion': 'মানদণ্ড যোগ করুন',
+  'rubric.criterion': 'মানদণ্ড',
+  'rubric.max': 'সর্বোচ্চ',
+  'rubric.removeCriterion': 'মানদণ্ড সরান',
+  'rubric.fullMarks': 'পূর্ণ নম্বর দেখতে কেমন?',
+  'rubric.confirmDelete': 'রুব্রিক "{name}" মুছে ফেলবেন? বিদ্যমান রিপোর্টের নম্বর অপরিবর্তিত থাকবে।',
+
+  'submission.unsupported': '"{name}" সমর্থিত নয়। সোর্স ফাইল, ছবি (PNG, JPEG, WebP, HEIC), PDF বা আপনার প্রজেক্টের .zip আপলোড করুন।',
+  'submission.notText': '"{name}" টেক্সট ফাইল বলে মনে হচ্ছে না।',
+  'submission.archiveUnreadable': '"{name}" zip আর্কাইভ হিসেবে খোলা যায়নি।',
+  'submission.archiveEmpty': '"{name}" খালি।',
+  'submission.archiveSkipped_one': '"{name}"-এর {count}টি ফাইল বাদ দেওয়া হয়েছে যা সোর্স কোড, ছবি বা PDF নয়।',
+  'submission.archiveSkipped_other': '"{name}"-এর {count}টি ফাইল বাদ দেওয়া হয়েছে যা সোর্স কোড, ছবি বা PDF নয়।',
+  'submission.archiveTooLarge': '"{name}"-এর আকার {size}; আর্কাইভ সর্বোচ্চ {limit} হতে পারে।',
+  'submission.sourceTooLarge': '"{name}"-এর আকার {size}; সোর্স ফাইল সর্বোচ্চ {limit} হতে পারে।',
+  'submission.inlineTooLarge': '"{name}"-এর আকার {size}; ছবি ও PDF সর্বোচ্চ {limit} হতে পারে।',
+  'submission.tooManyFiles': 'একটি জমায় সর্বোচ্চ {max}টি ফাইল থাকতে পারে; "{name}" যোগ করা হয়নি।',
+  'submission.overTotal': '"{name}" যোগ করলে জমা {limit} ছাড়িয়ে যাবে।',
+  'submission.readFailed': 'ফাইলগুলি পড়া যায়নি। আবার চেষ্টা করুন।',
+  'submission.uploaded': 'গঠন পর্যালোচনার জন্য আমি {files} আপলোড করেছি।',
+  'submission.uploadedMore_one': 'গঠন পর্যালোচনার জন্য আমি {files} এবং আরও {count}টি ফাইল আপলোড করেছি।',
+  'submission.uploadedMore_other': 'গঠন পর্যালোচনার জন্য আমি {files} এবং আরও {count}টি ফাইল আপলোড করেছি।',
+
+  'code.plainText': 'সাধারণ লেখা',
+  'code.detected': 'ভাষা স্বয়ংক্রিয়ভাবে শনাক্ত হয়েছে',
+  'code.lineNumbers': 'লাইন নম্বর',
+  'code.copy': 'কপি করুন',
+  'code.copied': 'কপি হয়েছে',
+  'common.edit': 'সম্পাদনা',
+  'common.new': 'নতুন',
+  'common.rename': 'নাম বদলান',
+  'common.delete': 'মুছে ফেলুন',
+  'common.remove': 'সরান',
+  'common.cancel': 'বাতিল',
+  'common.save': 'সংরক্ষণ করুন',
+  'common.saving': 'সংরক্ষণ হচ্ছে...',
+  'common.add': 'যোগ করুন',
+  'common.show': 'দেখান',
+  'common.hide': 'লুকান',
+  'common.copy': 'কপি করুন',
+};
@@ -0,0 +1,390 @@
+// Source strings. Every other locale must translate each key; `{name}` placeholders are filled in by `translate`.
+export const en = {
+  'language.label': 'Interface language',
+
+  'header.sessions': 'Study sessions',
+  'header.subtitle': 'Infinite',
+  'header.satisfied': 'Satisfied',
+  'header.socratic': 'Socratic',
+
+  'level.Beginner': 'Beginner',
+  'level.Intermediate': 'Intermediate',
+  'level.Advanced': 'Advanced',
+  'level.suggested': 'Your tutor suggests switching to {level}.',
+  'level.switch': 'Switch',
+  'level.keep': 'Keep current',
+  'level.step': '{level}, step {step} of {steps}',
+  'level.adjusted': 'Your level was adjusted to {level}.',
+  'level.undo': 'Undo',
+  'level.ok': 'Got it',
+  'level.quizReason': 'Your quiz score was {score}%.',
+  'level.mode': 'Level mode',
+  'level.mode.manual': 'Manual',
+  'level.mode.suggest': 'Adaptive: suggest changes',
+  'level.mode.auto': 'Adaptive: adjust automatically',
+  'level.history': 'Level history',
+  'level.source.manual': 'Set by you',
+  'level.source.diagnostic': 'Diagnostic',
+  'level.source.conversation': 'Conversation',
+  'level.source.quiz': 'Quiz',
+
+  'chat.title': 'Logic Stream',
+  'chat.you': 'You',
+  'chat.stopped': 'Stopped',
+  'chat.placeholder': 'Discuss the architecture of your thoughts...',
+  'chat.stop': 'Stop generating',
+  'chat.pin': 'Keep in context',
+  'chat.unpin': 'Stop keeping in context',
+  'chat.summarized': 'Earlier turns summarised',
+  'chat.welcome': "Greetings. I am **Encrypt**. \n\nI am here to help you deconstruct complex logic without handing you the answers.\n\nI am fluent in **English, Hindi (हिन्दी), Telugu (తెలుగు), Tamil (தமிழ்)** and many more Indian languages.\n\nSelect your knowledge level above, and tell me: **What concept shall we architect today?**",
+  'chat.quizFailed': "I couldn't assemble a quiz just now. Please try again.",
+  'chat.quizIntro': "Let's check your understanding of **{topic}**. Answer each question, then submit.",
+  'chat.fallbackReply': 'I see. Let\'s explore the structure of this logic.',
+
+  'action.analogy': 'Analogy',
+  'action.analogyPrompt': 'Explain this using a real-world analogy.',
+  'action.quiz': 'Quiz Me',
+  'action.realWorld': 'Real World',
+  'action.realWorldPrompt': 'How is this used in a real-world application?',
+  'action.visualize': 'Visualize',
+  'action.visualizePrompt': 'Please provide an image or a diagram to explain the current concept.',
+
+  'hint.stuck': "I'm stuck",
+  'hint.stuckPrompt': "I'm stuck. Can I have a hint?",
+  'hint.badge': 'Hint {number}/{max}',
+  'hint.level.nudge': 'Nudge',
+  'hint.level.subproblem': 'Sub-problem',
+  'hint.level.skeleton': 'Skeleton',
+  'hint.currentProblem': 'Current problem',
+
+  'tab.visualizer': 'Blueprint',
+  'tab.templates': 'Knowledge',
+  'tab.upload': 'Submissions',
+  'tab.image_gen': 'Canvas',
+  'tab.mastery': 'Mastery',
+
+  'category.All': 'All',
+  'category.Coding': 'Coding',
+  'category.Algorithms': 'Algorithms',
+  'category.Mathematics': 'Mathematics',
+  'category.Science': 'Science',
+  'category.Writing': 'Writing',
+  'category.Systems': 'Systems',
+  'category.Database': 'Database',
+  'category.Philosophy': 'Philosophy',
+  'category.Economics': 'Economics',
+
+  'templates.search': 'Search logic templates...',
+  'templates.new': 'New Template',
+  'templates.import': 'Import Pack',
+  'templates.export': 'Export Pack',
+  'templates.packName': 'Encrypt Templates',
+  'templates.categoryPackName': '{category} Templates',
+  'templates.synthTitle': 'Pattern Synthesizer',
+  'templates.synthBody': 'Concept missing. Encrypt can architect a new template for you.',
+  'templates.synthesizing': 'Architecting...',
+  'templates.synthesize': 'Synthesize Logic',
+  'templates.hiddenTests_one': '{count} hidden test',
+  'templates.hiddenTests_other': '{count} hidden tests',
+  'templates.sessionOnly': 'This session only',
+  'templates.saveToLibrary': 'Save to library',
+  'templates.duplicate': 'Duplicate',
+  'templates.startGuided': 'Start Guided Session',
+  'templates.stepThrough': 'Step Through',
+  'templates.confirmDelete_one': 'Delete "{title}" and its {count} earlier version?',
+  'templates.confirmDelete_other': 'Delete "{title}" and its {count} earlier versions?',
+
+  'upload.title': 'Assignment Review',
+  'upload.body': 'Submit your logic drafts for structural evaluation: source files, a .zip of your project, PDFs or photos of handwritten work.',
+  'upload.browse': 'Browse Files',
+  'upload.addMore': 'Add More Files',
+  'upload.rubric': 'Rubric',
+  'upload.points': '{count} pts',
+  'upload.tests': 'Tests',
+  'upload.noTests': "Don't run hidden tests",
+  'upload.testCount': '{count} tests',
+  'upload.testing': 'Running hidden tests...',
+  'upload.reviewing': 'Reviewing against the rubric...',
+  'upload.reports': 'Feedback Reports',
+
+  'canvas.placeholder': 'Conceptualize a visualization...',
+  'canvas.size1K': 'Standard 1K',
+  'canvas.size2K': 'High-Res 2K',
+  'canvas.size4K': 'Ultra-Res 4K',
+  'canvas.generating': 'Conceptualizing...',
+  'canvas.render': 'Render Vision',
+  'canvas.rendering': 'Rendering...',
+  'canvas.append': 'Append to Blueprint',
+  'canvas.empty': 'Visual Canvas Empty',
+  'canvas.generatedAlt': 'Generated concept illustration',
+
+  'nav.workspace': 'Workspace',
+
+  'toast.cheat': "Think First! I cannot provide code directly. Let's discuss the logic.",
+  'toast.quizNeedsContext': "Let's explore a concept first, then I can quiz you on it.",
+  'toast.gradingFailed': 'Grading failed. Please submit again.',
+  'toast.noSteps': 'This template has no numbered steps to walk through.',
+  'toast.waitForReply': 'Let the current reply finish, then ask about that step.',
+  'toast.rubricSaveFailed': 'The rubric could not be saved.',
+  'toast.templateSaveFailed': 'Template could not be saved.',
+  'toast.packImported': 'Imported {added} new, {updated} updated.',
+  'toast.packImportedSkipped': 'Imported {added} new, {updated} updated, {skipped} invalid skipped.',
+  'toast.packImportFailed': 'Template pack import failed.',
+  'toast.packError.invalidJson': 'The file is not valid JSON.',
+  'toast.packError.notPack': 'The file is not an Encrypt template pack.',
+  'toast.packError.newerVersion': 'This pack was exported by a newer version of Encrypt.',
+  'toast.exportFailed': 'Export failed. Please try again.',
+
+  'visualizer.emptyTitle': 'Visualization Stream',
+  'visualizer.emptyBody': 'As you interact with Encrypt, diagrams and conceptual illustrations will appear here to clarify complex logic.',
+  'visualizer.title': 'Active Blueprint Stack',
+  'visualizer.components_one': '{count} Component',
+  'visualizer.components_other': '{count} Components',
+  'visualizer.footer': 'Auto-rendering synchronized with logic stream',
+  'visualizer.vision': 'Conceptual Vision',
+  'visualizer.repaired': 'Repaired',
+  'visualizer.failed': 'Failed',
+  'visualizer.edited': 'Edited',
+  'visualizer.repairedTitle_one': 'Auto-repaired after {count} parse error',
+  'visualizer.repairedTitle_other': 'Auto-repaired after {count} parse errors',
+  'visualizer.failedTitle': 'The tutor could not produce a valid version of this diagram',
+  'visualizer.editedTitle': 'Your revision of an earlier Blueprint',
+
+  'diagram.syntaxError': 'Mermaid Syntax Error',
+  'diagram.source': 'Source',
+  'diagram.zoomOut': 'Zoom out',
+  'diagram.zoomIn': 'Zoom in',
+  'diagram.resetView': 'Reset view',
+  'diagram.action.explain': 'Explain this step',
+  'diagram.action.why-branch': 'Why this branch?',
+  'diagram.action.what-if-fails': 'What if this fails?',
+  'diagram.action.example': 'Trace an example through it',
+
+  'blueprint.label': 'Blueprint {number}',
+  'blueprint.labelRevision': 'Blueprint {number} · Rev {revision}',
+  'blueprint.compare': 'Compare',
+  'blueprint.revisions': 'Revisions',
+  'blueprint.original': 'Original',
+  'blueprint.revision': 'Rev {revision}',
+  'blueprint.source': 'Mermaid Source',
+  'blueprint.preview': 'Live Preview',
+  'blueprint.before': 'Before',
+  'blueprint.after': 'After',
+  'blueprint.changes': 'Changes',
+  'blueprint.legend.added': 'Added',
+  'blueprint.legend.removed': 'Removed',
+  'blueprint.legend.changed': 'Renamed',
+  'blueprint.pickTwo': 'Pick two different Blueprints to compare.',
+  'blueprint.sameStructure': 'These two versions have the same structure.',
+  'blueprint.linesOnly': 'Only flowcharts can be compared node by node; showing changed source lines instead.',
+  'blueprint.change.addedStep': 'Added step "{label}"',
+  'blueprint.change.removedStep': 'Removed step "{label}"',
+  'blueprint.change.renamedStep': 'Renamed "{before}" to "{after}"',
+  'blueprint.change.addedLink': 'Added link {link}',
+  'blueprint.change.removedLink': 'Removed link {link}',
+  'blueprint.change.addedLine': 'Added line: {line}',
+  'blueprint.change.removedLine': 'Removed line: {line}',
+  'blueprint.unsaved': 'Unsaved changes',
+  'blueprint.savedAsRevisions': 'Edits are saved as new revisions; the original stays in the stack.',
+  'blueprint.saveRevision': 'Save Revision',
+  'blueprint.changeFirst': 'Make a change first',
+  'blueprint.check': 'Is My Version Right?',
+  'blueprint.discard': 'Discard your unsaved changes to this Blueprint?',
+
+  'sessions.title': 'Study Sessions',
+  'sessions.new': 'New Session',
+  'sessions.empty': 'No saved sessions yet.',
+  'sessions.untitled': 'Untitled Session',
+  'sessions.turns_one': '{count} turn',
+  'sessions.turns_other': '{count} turns',
+
+  'tray.summary': '{count} / {max} files · {size} of {limit}',
+  'tray.clear': 'Clear',
+  'tray.submit': 'Submit for Review',
+  'tray.reading': 'Reading files...',
+
+  'walkthrough.title': 'Guided Walkthrough',
+  'walkthrough.complete': 'Complete',
+  'walkthrough.step': 'Step {current} of {total}',
+  'walkthrough.dismiss': 'Dismiss',
+  'walkthrough.end': 'End',
+  'walkthrough.startPrompt': 'Guide me through the "{title}" template one step at a time.',
+  'walkthrough.sessionName': 'Guided: {title}',
+
+  'export.button': 'Export session',
+  'export.heading': 'Export Session',
+  'export.preparing': 'Preparing...',
+  'export.htmlHint': 'Single self-contained file',
+  'export.markdownHint': '.zip with an assets folder',
+  'export.pdfHint': 'Print-optimised layout',
+
+  'gate.revealed': 'Full solution revealed after your attempt',
+  'gate.code': 'a complete program',
+  'gate.proof': 'a finished proof',
+  'gate.and': ' and ',
+  'gate.body': 'This reply contained {kinds}, so it has been reduced to a skeleton.',
+  'gate.canReveal': 'You have made an attempt, so you can compare it with the full version.',
+  'gate.cannotReveal': 'Fill in the blanks yourself and share your attempt to unlock the full version.',
+  'gate.reveal': 'Reveal Solution',
+
+  'error.auth': 'The AI service did not accept the API key.',
+  'error.permission': 'This API key is not allowed to use that model. Choose a key from a paid project.',
+  'error.quota': 'The AI service is receiving too many requests right now.',
+  'error.safety': 'The AI service declined to answer this under its safety rules. Try rephrasing your message.',
+  'error.network': 'Could not reach the AI service. Check your connection and try again.',
+  'error.timeout': 'The AI service took too long to respond.',
+  'error.invalid_output': 'The AI service sent back a reply that could not be read.',
+  'error.server': 'The AI service is having trouble right now.',
+  'error.unknown': 'Something went wrong while contacting the AI service.',
+  'error.retryAfter': 'Try again in {seconds}s.',
+  'error.retry': 'Retry',
+  'error.edit': 'Edit message',
+  'error.chooseKey': 'Choose API key',
+
+  'mastery.learner': 'Learner',
+  'mastery.addLearner': 'Add a learner...',
+  'mastery.emptyTitle': 'No concepts assessed yet',
+  'mastery.emptyBody': 'As Encrypt checks your reasoning, every concept it assesses shows up here.',
+  'mastery.demonstrated': 'Demonstrated · {count}',
+  'mastery.noneDemonstrated': 'Nothing demonstrated yet. Keep reasoning it through.',
+  'mastery.searching': 'Still Searching · {count}',
+  'mastery.noneSearching': 'Every assessed concept has been demonstrated.',
+  'mastery.checks_one': '{count} check',
+  'mastery.checks_other': '{count} checks',
+  'mastery.transitions_one': '{count} transition',
+  'mastery.transitions_other': '{count} transitions',
+  'mastery.status.satisfied': 'Satisfied',
+  'mastery.status.searching': 'Searching',
+
+  'quiz.title': 'Quiz · {topic}',
+  'quiz.kind.multiple_choice': 'Choose one',
+  'quiz.kind.ordering': 'Put the steps in order',
+  'quiz.kind.short_answer': 'Short answer',
+  'quiz.correct': 'Correct',
+  'quiz.partly': 'Partly',
+  'quiz.notYet': 'Not yet',
+  'quiz.placeholder': 'Explain your reasoning...',
+  'quiz.grading': 'Grading...',
+  'quiz.submit': 'Submit Answers',
+
+  'trace.title': 'Trace · {title}',
+  'trace.pseudocode': 'Pseudocode',
+  'trace.doneEditing': 'Done Editing',
+  'trace.undefined_one': 'This template leaves {names} for you to fill in. Edit the pseudocode and define it with FUNCTION before tracing.',
+  'trace.undefined_other': 'This template leaves {names} for you to fill in. Edit the pseudocode and define them with FUNCTION before tracing.',
+  'trace.first': 'First step',
+  'trace.back': 'Step back',
+  'trace.forward': 'Step forward',
+  'trace.last': 'Last step',
+  'trace.event.line': 'Running',
+  'trace.event.call': 'Calling',
+  'trace.event.return': 'Returning',
+  'trace.event.done': 'Finished',
+  'trace.event.error': 'Stopped',
+  'trace.line': 'line {line}',
+  'trace.inputs': 'Inputs',
+  'trace.noInputs': 'This code needs no inputs.',
+  'trace.inputPlaceholder': 'e.g. 5 or [1, 2, 3]',
+  'trace.restart': 'Restart Trace',
+  'trace.start': 'Start Trace',
+  'trace.variables': 'Variables',
+  'trace.allReturned': 'All calls have returned.',
+  'trace.noVariables': 'No variables yet.',
+  'trace.callStack': 'Call Stack · {depth} deep',
+
+  'report.revision': 'Revision {revision}',
+  'report.sinceLast': '{delta} since last version',
+  'report.hiddenTests': 'Hidden Tests · {title}',
+  'report.passed': '{passed}/{total} passed',
+  'report.case.pass': 'Passed',
+  'report.case.skipped': 'Not run',
+  'report.case.timeout': 'Timed out',
+  'report.case.error': 'Crashed',
+  'report.case.fail': 'Wrong result',
+  'report.caseWithHint': '{outcome} on {hint}',
+  'runner.invalidFunction': '"{name}" is not a valid function name.',
+  'runner.compile': 'The code does not compile.',
+  'runner.line': 'Line {line}:',
+  'runner.loadTimeout': 'The code took too long to load.',
+  'runner.pythonLoadTimeout': 'The Python runtime did not load in time. Check your connection and try again.',
+  'runner.missingFunction': 'No function named "{name}" was defined.',
+  'runner.loadFailed': 'The code failed while loading.',
+  'runner.thrown': 'The code threw an error.',
+  'runner.timeout': 'Still running after {seconds}s. Is there a loop that never ends?',
+  'runner.resultTooLarge': 'The result was too large to compare.',
+  'runner.crashed': 'The code crashed the sandbox; it may have run out of memory.',
+  'report.console_one': 'Console output ({count} line)',
+  'report.console_other': 'Console output ({count} lines)',
+  'report.compared': 'Compared With Previous Version',
+  'report.improved': 'What Improved',
+  'report.fixed': 'Fixed',
+  'report.stillOpen': 'Still Open',
+  'report.newIssues': 'New This Time',
+  'report.noDifferences': 'No differences in the issues found.',
+  'report.section.strengths': 'Strengths',
+  'report.section.logicalGaps': 'Logical Gaps',
+  'report.section.misconceptions': 'Misconceptions',
+  'report.section.unhandledEdgeCases': 'Edge Cases Not Handled',
+
+  'templateEditor.edit': 'Edit Template · v{version}',
+  'templateEditor.title': 'Title',
+  'templateEditor.description': 'Short description',
+  'templateEditor.content': 'Template structure...',
+  'templateEditor.tests': 'Hidden Tests · {count}',
+  'templateEditor.testsHelp': 'Submissions in JavaScript, TypeScript or Python are run against these. Arguments are a JSON array; students only see the hint of a failing case.',
+  'templateEditor.functionName': 'Function to call, e.g. binarySearch',
+  'templateEditor.expected': 'expected, e.g. 1',
+  'templateEditor.hint': 'hint, e.g. target at the end',
+  'templateEditor.addCase': 'Add Test Case',
+  'templateEditor.invalidTests': 'Each test needs a JSON array of arguments and a JSON expected value, and the function name must be a valid identifier.',
+  'templateEditor.history': 'Version History',
+  'templateEditor.restore': 'Restore',
+
+  'rubric.edit': 'Edit Rubric',
+  'rubric.new': 'New Rubric',
+  'rubric.name': 'Rubric name, e.g. Week 4: Sorting',
+  'rubric.criteria': 'Criteria · {total} points',
+  'rubric.addCriterion': 'Add Criterion',
+  'rubric.criterion': 'Criterion',
+  'rubric.max': 'max',
+  'rubric.removeCriterion': 'Remove criterion',
+  'rubric.fullMarks': 'What does full marks look like?',
+  'rubric.confirmDelete': 'Delete the rubric "{name}"? Existing reports keep their scores.',
+
+  'submission.unsupported': '"{name}" is not supported. Upload source files, images (PNG, JPEG, WebP, HEIC), PDFs or a .zip of your project.',
+  'submission.notText': '"{name}" does not look like a text file.',
+  'submission.archiveUnreadable': '"{name}" could not be opened as a zip archive.',
+  'submission.archiveEmpty': '"{name}" is empty.',
+  'submission.archiveSkipped_one': 'Skipped {count} file in "{name}" that is not source code, images or PDFs.',
+  'submission.archiveSkipped_other': 'Skipped {count} files in "{name}" that are not source code, images or PDFs.',
+  'submission.archiveTooLarge': '"{name}" is {size}; archives can be at most {limit}.',
+  'submission.sourceTooLarge': '"{name}" is {size}; source files can be at most {limit}.',
+  'submission.inlineTooLarge': '"{name}" is {size}; images and PDFs can be at most {limit}.',
+  'submission.tooManyFiles': 'A submission can include at most {max} files; "{name}" was not added.',
+  'submission.overTotal': '"{name}" would take the submission over {limit}.',
+  'submission.readFailed': 'Those files could not be read. Please try again.',
+  'submission.uploaded': 'I\'ve uploaded {files} for your structural review.',
+  'submission.uploadedMore_one': 'I\'ve uploaded {files} and {count} more file for your structural review.',
+  'submission.uploadedMore_other': 'I\'ve uploaded {files} and {count} more files for your structural review.',
+
+  'code.plainText': 'Plain text',
+  'code.detected': 'Language detected automatically',
+  'code.lineNumbers': 'Line numbers',
+  'code.copy': 'Copy',
+  'code.copied': 'Copied',
+  'common.edit': 'Edit',
+  'common.new': 'New',
+  'common.rename': 'Rename',
+  'common.delete': 'Delete',
+  'common.remove': 'Remove',
+  'common.cancel': 'Cancel',
+  'common.save': 'Save',
+  'common.saving': 'Saving...',
+  'common.add': 'Add',
+  'common.show': 'Show',
+  'common.hide': 'Hide',
+  'common.copy': 'Copy',
+};
+
+export type MessageKey = keyof typeof en;
+export type Messages = Record<MessageKey, string>;
@@ -0,0 +1,388 @@
+import { Messages } from './en';
+
+export const gu: Messages = {
+  'language.label': 'ઇન્ટરફેસની ભાષા',
+
+  'header.sessions': 'અભ્યાસ સત્રો',
+  'header.subtitle': 'અનંત',
+  'header.satisfied': 'સંતુષ્ટ',
+  'header.socratic': 'સૉક્રેટિક',
+
+  'level.Beginner': 'શરૂઆતી',
+  'level.Intermediate': 'મધ્યમ',
+  'level.Advanced': 'અદ્યતન',
+  'level.suggested': 'તમારા ટ્યુટર {level} સ્તર પર જવાનું સૂચવે છે.',
+  'level.switch': 'બદલો',
+  'level.keep': 'હાલનું રાખો',
+  'level.step': '{level}, પગલું {step}/{steps}',
+  'level.adjusted': 'તમારું સ્તર {level} કરવામાં આવ્યું છે.',
+  'level.undo': 'પૂર્વવત્ કરો',
+  'level.ok': 'બરાબર',
+  'level.quizReason': 'તમારો ક્વિઝ સ્કોર {score}% છે.',
+  'level.mode': 'સ્તર મોડ',
+  'level.mode.manual': 'મેન્યુઅલ',
+  'level.mode.suggest': 'અનુકૂલનશીલ: ફેરફાર સૂચવો',
+  'level.mode.auto': 'અનુકૂલનશીલ: આપમેળે બદલો',
+  'level.history': 'સ્તર ઇતિહાસ',
+  'level.source.manual': 'તમે પસંદ કરેલું',
+  'level.source.diagnostic': 'નિદાન પ્રશ્નો',
+  'level.source.conversation': 'વાતચીત',
+  'level.source.quiz': 'ક્વિઝ',
+
+  'chat.title': 'તર્ક પ્રવાહ',
+  'chat.you': 'તમે',
+  'chat.stopped': 'અટકાવ્યું',
+  'chat.placeholder': 'તમારા વિચારોની રચના વિશે ચર્ચા કરો...',
+  'chat.stop': 'જવાબ અટકાવો',
+  'chat.pin': 'સંદર્ભમાં રાખો',
+  'chat.unpin': 'સંદર્ભમાં રાખવાનું બંધ કરો',
+  'chat.summarized': 'અગાઉની વાતચીતનો સારાંશ બનાવ્યો',
+  'chat.welcome': 'નમસ્તે. હું **Encrypt** છું. \n\nસીધા જવાબ આપ્યા વિના, જટિલ તર્કને ઉકેલીને સમજવામાં તમારી મદદ કરવા હું અહીં છું.\n\nહું **English, हिन्दी, తెలుగు, தமிழ்** અને બીજી ઘણી ભારતીય ભાષાઓ જાણું છું.\n\nઉપર તમારું જ્ઞાન સ્તર પસંદ કરો અને કહો: **આજે આપણે કઈ સંકલ્પનાની રચના કરીએ?**',
+  'chat.quizFailed': 'અત્યારે ક્વિઝ તૈયાર ન થઈ શકી. કૃપા કરીને ફરી પ્રયાસ કરો.',
+  'chat.quizIntro': 'ચાલો **{topic}** વિશેની તમારી સમજ ચકાસીએ. દરેક પ્રશ્નનો જવાબ આપો, પછી સબમિટ કરો.',
+  'chat.fallbackReply': 'સમજાયું. ચાલો આ લોજિકની રચના સમજીએ.',
+
+  'action.analogy': 'ઉપમા',
+  'action.analogyPrompt': 'આને રોજિંદા જીવનની કોઈ ઉપમાથી સમજાવો.',
+  'action.quiz': 'મારી કસોટી લો',
+  'action.realWorld': 'વાસ્તવિક દુનિયા',
+  'action.realWorldPrompt': 'વાસ્તવિક દુનિયાની કોઈ ઍપ્લિકેશનમાં આનો ઉપયોગ કેવી રીતે થાય છે?',
+  'action.visualize': 'દૃશ્ય બતાવો',
+  'action.visualizePrompt': 'આ સંકલ્પના સમજાવવા કૃપા કરીને કોઈ ચિત્ર અથવા આકૃતિ આપો.',
+
+  'hint.stuck': 'હું અટકી ગયો',
+  'hint.stuckPrompt': 'હું અટકી ગયો છું. શું મને એક સંકેત મળી શકે?',
+  'hint.badge': 'સંકેત {number}/{max}',
+  'hint.level.nudge': 'ઇશારો',
+  'hint.level.subproblem': 'પેટા-સમસ્યા',
+  'hint.level.skeleton': 'માળખું',
+  'hint.currentProblem': 'હાલનો પ્રશ્ન',
+
+  'tab.visualizer': 'બ્લૂપ્રિન્ટ',
+  'tab.templates': 'જ્ઞાન',
+  'tab.upload': 'સબમિશન',
+  'tab.image_gen': 'કૅનવાસ',
+  'tab.mastery': 'નિપુણતા',
+
+  'category.All': 'બધું',
+  'category.Coding': 'કોડિંગ',
+  'category.Algorithms': 'અલ્ગોરિધમ',
+  'category.Mathematics': 'ગણિત',
+  'category.Science': 'વિજ્ઞાન',
+  'category.Writing': 'લેખન',
+  'category.Systems': 'સિસ્ટમ્સ',
+  'category.Database': 'ડેટાબેઝ',
+  'category.Philosophy': 'તત્ત્વજ્ઞાન',
+  'category.Economics': 'અર્થશાસ્ત્ર',
+
+  'templates.search': 'તર્ક ટેમ્પ્લેટ શોધો...',
+  'templates.new': 'નવું ટેમ્પ્લેટ',
+  'templates.import': 'પૅક આયાત કરો',
+  'templates.export': 'પૅક નિકાસ કરો',
+  'templates.packName': 'Encrypt ટેમ્પ્લેટ્સ',
+  'templates.categoryPackName': '{category} ટેમ્પ્લેટ્સ',
+  'templates.synthTitle': 'પૅટર્ન સર્જક',
+  'templates.synthBody': 'આ સંકલ્પના મળી નહીં. Encrypt તમારા માટે નવું ટેમ્પ્લેટ બનાવી શકે છે.',
+  'templates.synthesizing': 'બનાવી રહ્યું છે...',
+  'templates.synthesize': 'તર્ક બનાવો',
+  'templates.hiddenTests_one': '{count} છુપાયેલો ટેસ્ટ',
+  'templates.hiddenTests_other': '{count} છુપાયેલા ટેસ્ટ',
+  'templates.sessionOnly': 'ફક્ત આ સત્ર માટે',
+  'templates.saveToLibrary': 'લાઇબ્રેરીમાં સાચવો',
+  'templates.duplicate': 'નકલ બનાવો',
+  'templates.startGuided': 'માર્ગદર્શિત સત્ર શરૂ કરો',
+  'templates.stepThrough': 'પગલે પગલે ચલાવો',
+  'templates.confirmDelete_one': '"{title}" અને તેનું {count} જૂનું સંસ્કરણ કાઢી નાખીએ?',
+  'templates.confirmDelete_other': '"{title}" અને તેનાં {count} જૂનાં સંસ્કરણો કાઢી નાખીએ?',
+
+  'upload.title': 'અસાઇનમેન્ટ સમીક્ષા',
+  'upload.body': 'માળખાકીય મૂલ્યાંકન માટે તમારા તર્કના મુસદ્દા સબમિટ કરો: સોર્સ ફાઇલો, પ્રોજેક્ટની .zip, PDF અથવા હાથે લખેલા કામના ફોટા.',
+  'upload.browse': 'ફાઇલો પસંદ કરો',
+  'upload.addMore': 'વધુ ફાઇલો ઉમેરો',
+  'upload.rubric': 'રુબ્રિક',
+  'upload.points': '{count} ગુણ',
+  'upload.tests': 'ટેસ્ટ',
+  'upload.noTests': 'છુપા ટેસ્ટ ન ચલાવો',
+  'upload.testCount': '{count} ટેસ્ટ',
+  'upload.testing': 'છુપા ટેસ્ટ ચાલી રહ્યા છે...',
+  'upload.reviewing': 'રુબ્રિક મુજબ સમીક્ષા થઈ રહી છે...',
+  'upload.reports': 'પ્રતિસાદ અહેવાલો',
+
+  'canvas.placeholder': 'કોઈ દૃશ્યની કલ્પના લખો...',
+  'canvas.size1K': 'સામાન્ય 1K',
+  'canvas.size2K': 'હાઇ-રેઝ 2K',
+  'canvas.size4K': 'અલ્ટ્રા-રેઝ 4K',
+  'canvas.generating': 'કલ્પના થઈ રહી છે...',
+  'canvas.render': 'ચિત્ર બનાવો',
+  'canvas.rendering': 'બની રહ્યું છે...',
+  'canvas.append': 'બ્લૂપ્રિન્ટમાં ઉમેરો',
+  'canvas.empty': 'કૅનવાસ ખાલી છે',
+  'canvas.generatedAlt': 'બનાવેલું સંકલ્પના ચિત્ર',
+
+  'nav.workspace': 'કાર્યક્ષેત્ર',
+
+  'toast.cheat': 'પહેલાં વિચારો! હું સીધો કોડ આપી શકતો નથી. ચાલો તર્ક વિશે વાત કરીએ.',
+  'toast.quizNeedsContext': 'પહેલાં કોઈ સંકલ્પના સમજીએ, પછી હું તેના પર તમારી કસોટી લઈ શકું.',
+  'toast.gradingFailed': 'મૂલ્યાંકન નિષ્ફળ ગયું. કૃપા કરીને ફરી સબમિટ કરો.',
+  'toast.noSteps': 'આ ટેમ્પ્લેટમાં એક પછી એક ચાલવા માટે ક્રમાંકિત પગલાં નથી.',
+  'toast.waitForReply': 'હાલનો જવાબ પૂરો થવા દો, પછી તે પગલા વિશે પૂછો.',
+  'toast.rubricSaveFailed': 'રુબ્રિક સાચવી શકાયું નહીં.',
+  'toast.templateSaveFailed': 'ટેમ્પ્લેટ સાચવી શકાયું નહીં.',
+  'toast.packImported': '{added} નવાં આયાત થયાં, {updated} અપડેટ થયાં.',
+  'toast.packImportedSkipped': '{added} નવાં આયાત થયાં, {updated} અપડેટ થયાં, {skipped} અમાન્ય છોડી દેવાયાં.',
+  'toast.packImportFailed': 'ટેમ્પ્લેટ પૅકની આયાત નિષ્ફળ ગઈ.',
+  'toast.packError.invalidJson': 'ફાઇલ માન્ય JSON નથી.',
+  'toast.packError.notPack': 'આ ફાઇલ Encrypt ટેમ્પ્લેટ પૅક નથી.',
+  'toast.packError.newerVersion': 'આ પૅક Encrypt ના નવા સંસ્કરણમાંથી નિકાસ થયેલું છે.',
+  'toast.exportFailed': 'નિકાસ નિષ્ફળ ગઈ. કૃપા કરીને ફરી પ્રયાસ કરો.',
+
+  'visualizer.emptyTitle': 'દૃશ્ય પ્રવાહ',
+  'visualizer.emptyBody': 'જેમ જેમ તમે Encrypt સાથે વાત કરશો, તેમ તેમ જટિલ તર્ક સ્પષ્ટ કરતી આકૃતિઓ અને ચિત્રો અહીં દેખાશે.',
+  'visualizer.title': 'સક્રિય બ્લૂપ્રિન્ટ',
+  'visualizer.components_one': '{count} ઘટક',
+  'visualizer.components_other': '{count} ઘટકો',
+  'visualizer.footer': 'તર્ક પ્રવાહ સાથે આપમેળે અપડેટ થાય છે',
+  'visualizer.vision': 'વૈચારિક ચિત્ર',
+  'visualizer.repaired': 'સુધાર્યું',
+  'visualizer.failed': 'નિષ્ફળ',
+  'visualizer.edited': 'સંપાદિત',
+  'visualizer.repairedTitle_one': '{count} પાર્સ ભૂલ પછી આપમેળે સુધાર્યું',
+  'visualizer.repairedTitle_other': '{count} પાર્સ ભૂલો પછી આપમેળે સુધાર્યું',
+  'visualizer.failedTitle': 'ટ્યૂટર આ આકૃતિનું માન્ય સંસ્કરણ બનાવી શક્યા નહીં',
+  'visualizer.editedTitle': 'અગાઉના બ્લૂપ્રિન્ટનું તમારું સંશોધન',
+
+  'diagram.syntaxError': 'Mermaid સિન્ટેક્સ ભૂલ',
+  'diagram.source': 'સ્રોત',
+  'diagram.zoomOut': 'નાનું કરો',
+  'diagram.zoomIn': 'મોટું કરો',
+  'diagram.resetView': 'દૃશ્ય રીસેટ કરો',
+  'diagram.action.explain': 'આ પગલું સમજાવો',
+  'diagram.action.why-branch': 'આ શાખા કેમ?',
+  'diagram.action.what-if-fails': 'જો આ નિષ્ફળ જાય તો?',
+  'diagram.action.example': 'આમાંથી એક ઉદાહરણ ચલાવીને બતાવો',
+
+  'blueprint.label': 'બ્લૂપ્રિન્ટ {number}',
+  'blueprint.labelRevision': 'બ્લૂપ્રિન્ટ {number} · સંશોધન {revision}',
+  'blueprint.compare': 'સરખામણી કરો',
+  'blueprint.revisions': 'સંશોધનો',
+  'blueprint.original': 'મૂળ',
+  'blueprint.revision': 'સંશોધન {revision}',
+  'blueprint.source': 'Mermaid સ્રોત',
+  'blueprint.preview': 'લાઇવ પૂર્વાવલોકન',
+  'blueprint.before': 'પહેલાં',
+  'blueprint.after': 'પછી',
+  'blueprint.changes': 'ફેરફારો',
+  'blueprint.legend.added': 'ઉમેર્યું',
+  'blueprint.legend.removed': 'દૂર કર્યું',
+  'blueprint.legend.changed': 'નામ બદલ્યું',
+  'blueprint.pickTwo': 'સરખામણી માટે બે અલગ બ્લૂપ્રિન્ટ પસંદ કરો.',
+  'blueprint.sameStructure': 'આ બંને સંસ્કરણોની રચના સરખી છે.',
+  'blueprint.linesOnly': 'માત્ર ફ્લોચાર્ટની નોડ-દર-નોડ સરખામણી થઈ શકે છે; તેથી બદલાયેલી સ્રોત લીટીઓ બતાવીએ છીએ.',
+  'blueprint.change.addedStep': 'પગલું "{label}" ઉમેર્યું',
+  'blueprint.change.removedStep': 'પગલું "{label}" દૂર કર્યું',
+  'blueprint.change.renamedStep': '"{before}" નું નામ બદલીને "{after}" કર્યું',
+  'blueprint.change.addedLink': 'કડી {link} ઉમેરી',
+  'blueprint.change.removedLink': 'કડી {link} દૂર કરી',
+  'blueprint.change.addedLine': 'લીટી ઉમેરી: {line}',
+  'blueprint.change.removedLine': 'લીટી દૂર કરી: {line}',
+  'blueprint.unsaved': 'સાચવ્યા વગરના ફેરફારો',
+  'blueprint.savedAsRevisions': 'ફેરફારો નવા સંશોધનો તરીકે સચવાય છે; મૂળ સ્ટેકમાં જ રહે છે.',
+  'blueprint.saveRevision': 'સંશોધન સાચવો',
+  'blueprint.changeFirst': 'પહેલાં કોઈ ફેરફાર કરો',
+  'blueprint.check': 'શું મારું સંસ્કરણ સાચું છે?',
+  'blueprint.discard': 'આ બ્લૂપ્રિન્ટના સાચવ્યા વગરના ફેરફારો છોડી દઈએ?',
+
+  'sessions.title': 'અભ્યાસ સત્રો',
+  'sessions.new': 'નવું સત્ર',
+  'sessions.empty': 'હજી સુધી કોઈ સાચવેલું સત્ર નથી.',
+  'sessions.untitled': 'નામ વગરનું સત્ર',
+  'sessions.turns_one': '{count} વાતચીત',
+  'sessions.turns_other': '{count} વાતચીત',
+
+  'tray.summary': '{count} / {max} ફાઇલો · {limit} માંથી {size}',
+  'tray.clear': 'સાફ કરો',
+  'tray.submit': 'સમીક્ષા માટે સબમિટ કરો',
+  'tray.reading': 'ફાઇલો વાંચી રહ્યું છે...',
+
+  'walkthrough.title': 'માર્ગદર્શિત અભ્યાસ',
+  'walkthrough.complete': 'પૂર્ણ',
+  'walkthrough.step': 'પગલું {current} / {total}',
+  'walkthrough.dismiss': 'બંધ કરો',
+  'walkthrough.end': 'સમાપ્ત કરો',
+  'walkthrough.startPrompt': '"{title}" ટેમ્પ્લેટમાં મને એક-એક પગલું કરીને લઈ જાઓ.',
+  'walkthrough.sessionName': 'માર્ગદર્શિત: {title}',
+
+  'export.button': 'સત્ર નિકાસ કરો',
+  'export.heading': 'સત્ર નિકાસ કરો',
+  'export.preparing': 'તૈયાર થઈ રહ્યું છે...',
+  'export.htmlHint': 'એક સ્વતંત્ર ફાઇલ',
+  'export.markdownHint': 'assets ફોલ્ડર સાથે .zip',
+  'export.pdfHint': 'છાપવા માટે તૈયાર લેઆઉટ',
+
+  'gate.revealed': 'તમારા પ્રયાસ પછી સંપૂર્ણ ઉકેલ બતાવ્યો',
+  'gate.code': 'એક સંપૂર્ણ પ્રોગ્રામ',
+  'gate.proof': 'એક સંપૂર્ણ સાબિતી',
+  'gate.and': ' અને ',
+  'gate.body': 'આ જવાબમાં {kinds} હતું, તેથી તેને માત્ર માળખા સુધી સીમિત કર્યો છે.',
+  'gate.canReveal': 'તમે પ્રયાસ કરી લીધો છે, તેથી હવે તેને સંપૂર્ણ આવૃત્તિ સાથે સરખાવી શકો છો.',
+  'gate.cannotReveal': 'ખાલી જગ્યાઓ જાતે ભરો અને તમારો પ્રયાસ શેર કરો, પછી સંપૂર્ણ આવૃત્તિ ખૂલશે.',
+  'gate.reveal': 'ઉકેલ બતાવો',
+
+  'error.auth': 'AI સેવાએ API કી સ્વીકારી નહીં.',
+  'error.permission': 'આ API કીથી તે મોડેલ વાપરવાની પરવાનગી નથી. પેઇડ પ્રોજેક્ટની કી પસંદ કરો.',
+  'error.quota': 'AI સેવાને અત્યારે ઘણી વધારે વિનંતીઓ મળી રહી છે.',
+  'error.safety': 'AI સેવાએ તેના સુરક્ષા નિયમોને કારણે આનો જવાબ ન આપ્યો. તમારો સંદેશ બીજા શબ્દોમાં લખી જુઓ.',
+  'error.network': 'AI સેવા સુધી પહોંચી શકાયું નહીં. તમારું કનેક્શન તપાસો અને ફરી પ્રયાસ કરો.',
+  'error.timeout': 'AI સેવાએ જવાબ આપવામાં ઘણો સમય લીધો.',
+  'error.invalid_output': 'AI સેવાએ મોકલેલો જવાબ વાંચી શકાયો નહીં.',
+  'error.server': 'AI સેવામાં અત્યારે સમસ્યા છે.',
+  'error.unknown': 'AI સેવાનો સંપર્ક કરતી વખતે કંઈક ખોટું થયું.',
+  'error.retryAfter': '{seconds} સેકન્ડ પછી ફરી પ્રયાસ કરો.',
+  'error.retry': 'ફરી પ્રયાસ કરો',
+  'error.edit': 'સંદેશ સંપાદિત કરો',
+  'error.chooseKey': 'API કી પસંદ કરો',
+
+  'mastery.learner': 'શીખનાર',
+  'mastery.addLearner': 'શીખનાર ઉમેરો...',
+  'mastery.emptyTitle': 'હજી સુધી કોઈ સંકલ્પનાનું મૂલ્યાંકન થયું નથી',
+  'mastery.emptyBody': 'Encrypt તમારા તર્કને તપાસે તેમ, મૂલ્યાંકન કરેલી દરેક સંકલ્પના અહીં દેખાય છે.',
+  'mastery.demonstrated': 'સાબિત કરેલી · {count}',
+  'mastery.noneDemonstrated': 'હજી કંઈ સાબિત થયું નથી. વિચારતા રહો.',
+  'mastery.searching': 'હજી શોધ ચાલુ · {count}',
+  'mastery.noneSearching': 'મૂલ્યાંકન કરેલી દરેક સંકલ્પના સાબિત થઈ ગઈ છે.',
+  'mastery.checks_one': '{count} તપાસ',
+  'mastery.checks_other': '{count} તપાસ',
+  'mastery.transitions_one': '{count} ફેરફાર',
+  'mastery.transitions_other': '{count} ફેરફારો',
+  'mastery.status.satisfied': 'સંતુષ્ટ',
+  'mastery.status.searching': 'શોધ ચાલુ',
+
+  'quiz.title': 'ક્વિઝ · {topic}',
+  'quiz.kind.multiple_choice': 'એક પસંદ કરો',
+  'quiz.kind.ordering': 'પગલાંને ક્રમમાં ગોઠવો',
+  'quiz.kind.short_answer': 'ટૂંકો જવાબ',
+  'quiz.correct': 'સાચું',
+  'quiz.partly': 'આંશિક',
+  'quiz.notYet': 'હજી નહીં',
+  'quiz.placeholder': 'તમારો તર્ક સમજાવો...',
+  'quiz.grading': 'મૂલ્યાંકન થઈ રહ્યું છે...',
+  'quiz.submit': 'જવાબો સબમિટ કરો',
+
+  'trace.title': 'ટ્રેસ · {title}',
+  'trace.pseudocode': 'સ્યુડોકોડ',
+  'trace.doneEditing': 'સંપાદન પૂર્ણ',
+  'trace.undefined_one': 'આ ટેમ્પ્લેટ {names} તમારે ભરવા માટે છોડે છે. ટ્રેસ કરતાં પહેલાં સ્યુડોકોડ સંપાદિત કરો અને તેને FUNCTION વડે વ્યાખ્યાયિત કરો.',
+  'trace.undefined_other': 'આ ટેમ્પ્લેટ {names} તમારે ભરવા માટે છોડે છે. ટ્રેસ કરતાં પહેલાં સ્યુડોકોડ સંપાદિત કરો અને તેમને FUNCTION વડે વ્યાખ્યાયિત કરો.',
+  'trace.first': 'પહેલું પગલું',
+  'trace.back': 'એક પગલું પાછળ',
+  'trace.forward': 'એક પગલું આગળ',
+  'trace.last': 'છેલ્લું પગલું',
+  'trace.event.line': 'ચાલી રહ્યું છે',
+  'trace.event.call': 'કૉલ કરી રહ્યું છે',
+  'trace.event.return': 'પાછું ફરી રહ્યું છે',
+  'trace.event.done': 'પૂર્ણ થયું',
+  'trace.event.error': 'અટક્યું',
+  'trace.line': 'લીટી {line}',
+  'trace.inputs': 'ઇનપુટ',
+  'trace.noInputs': 'આ કોડને કોઈ ઇનપુટની જરૂર નથી.',
+  'trace.inputPlaceholder': 'દા.ત. 5 અથવા [1, 2, 3]',
+  'trace.restart': 'ટ્રેસ ફરી શરૂ કરો',
+  'trace.start': 'ટ્રેસ શરૂ કરો',
+  'trace.variables': 'વેરિયેબલ',
+  'trace.allReturned': 'બધા કૉલ પાછા ફર્યા છે.',
+  'trace.noVariables': 'હજી કોઈ વેરિયેબલ નથી.',
+  'trace.callStack': 'કૉલ સ્ટેક · {depth} ઊંડું',
+
+  'report.revision': 'સંશોધન {revision}',
+  'report.sinceLast': 'છેલ્લા સંસ્કરણથી {delta}',
+  'report.hiddenTests': 'છુપાયેલા ટેસ્ટ · {title}',
+  'report.passed': '{passed}/{total} પાસ',
+  'report.case.pass': 'પાસ',
+  'report.case.skipped': 'ચલાવ્યું નહીં',
+  'report.case.timeout': 'સમય પૂરો થયો',
+  'report.case.error': 'ક્રેશ થયું',
+  'report.case.fail': 'ખોટું પરિણામ',
+  'report.caseWithHint': '{hint} પર {outcome}',
+  'runner.invalidFunction': '"{name}" માન્ય ફંક્શન નામ નથી.',
+  'runner.compile': 'કોડ કમ્પાઇલ થતો નથી.',
+  'runner.line': 'લાઇન {line}:',
+  'runner.loadTimeout': 'કોડ લોડ થવામાં બહુ સમય લાગ્યો.',
+  'runner.pythonLoadTimeout': 'Python રનટાઇમ સમયસર લોડ ન થયો. કનેક્શન તપાસો અને ફરી પ્રયાસ કરો.',
+  'runner.missingFunction': '"{name}" નામનું કોઈ ફંક્શન વ્યાખ્યાયિત કરાયું નથી.',
+  'runner.loadFailed': 'લોડ થતી વખતે કોડ નિષ્ફળ ગયો.',
+  'runner.thrown': 'કોડે એક ભૂલ આપી.',
+  'runner.timeout': '{seconds} સેકન્ડ પછી પણ ચાલી રહ્યો છે. શું કોઈ લૂપ ક્યારેય પૂરો થતો નથી?',
+  'runner.resultTooLarge': 'પરિણામ સરખામણી માટે ખૂબ મોટું હતું.',
+  'runner.crashed': 'કોડે સેન્ડબોક્સ ક્રેશ કર્યું; કદાચ મેમરી ખૂટી ગઈ.',
+  'report.console_one': 'કન્સોલ આઉટપુટ ({count} લીટી)',
+  'report.console_other': 'કન્સોલ આઉટપુટ ({count} લીટીઓ)',
+  'report.compared': 'અગાઉના સંસ્કરણ સાથે સરખામણી',
+  'report.improved': 'શું સુધર્યું',
+  'report.fixed': 'સુધારેલું',
+  'report.stillOpen': 'હજી બાકી',
+  'report.newIssues': 'આ વખતે નવું',
+  'report.noDifferences': 'મળેલી સમસ્યાઓમાં કોઈ ફરક નથી.',
+  'report.section.strengths': 'શક્તિઓ',
+  'report.section.logicalGaps': 'તાર્કિક ખામીઓ',
+  'report.section.misconceptions': 'ગેરસમજો',
+  'report.section.unhandledEdgeCases': 'ન સંભાળેલા એજ કેસ',
+
+  'templateEditor.edit': 'ટેમ્પ્લેટ સંપાદિત કરો · v{version}',
+  'templateEditor.title': 'શીર્ષક',
+  'templateEditor.description': 'ટૂંકું વર્ણન',
+  'templateEditor.content': 'ટેમ્પ્લેટ રચના...',
+  'templateEditor.tests': 'છુપાયેલા ટેસ્ટ · {count}',
+  'templateEditor.testsHelp': 'JavaScript, TypeScript અથવા Python માં સબમિશન આના પર ચલાવાય છે. આર્ગ્યુમેન્ટ JSON array હોય છે; વિદ્યાર્થીઓ નિષ્ફળ કેસનો માત્ર સંકેત જુએ છે.',
+  'templateEditor.functionName': 'કૉલ કરવાનું ફંક્શન, દા.ત. binarySearch',
+  'templateEditor.expected': 'અપેક્ષિત, દા.ત. 1',
+  'templateEditor.hint': 'સંકેત, દા.ત. અંતે લક્ષ્ય',
+  'templateEditor.addCase': 'ટેસ્ટ કેસ ઉમેરો',
+  'templateEditor.invalidTests': 'દરેક ટેસ્ટમાં આર્ગ્યુમેન્ટનો JSON array અને અપેક્ષિત JSON મૂલ્ય જોઈએ, અને ફંક્શનનું નામ માન્ય identifier હોવું જોઈએ.',
+  'templateEditor.history': 'સંસ્કરણ ઇતિહાસ',
+  'templateEditor.restore': 'પુનઃસ્થાપિત કરો',
+
+  'rubric.edit': 'રુબ્રિક સંપાદિત કરો',
+  'rubric.new': 'નવી રુબ્રિક',
+  'rubric.name': 'રુબ્રિકનું નામ, દા.ત. અઠવાડિયું 4: સૉર્ટિંગ',
+  'rubric.criteria': 'માપદંડ · {total} ગુણ',
+  'rubric.addCriterion': 'માપદંડ ઉમેરો',
+  'rubric.criterion': 'માપદંડ',
+  'rubric.max': 'મહત્તમ',
+  'rubric.removeCriterion': 'માપદંડ દૂર કરો',
+  'rubric.fullMarks': 'પૂરા ગુણ કેવા દેખાય?',
+  'rubric.confirmDelete': 'રુબ્રિક "{name}" કાઢી નાખીએ? હાલના અહેવાલોના ગુણ યથાવત્ રહેશે.',
+
+  'submission.unsupported': '"{name}" સમર્થિત નથી. સ્રોત ફાઇલો, ચિત્રો (PNG, JPEG, WebP, HEIC), PDF અથવા તમારા પ્રોજેક્ટની .zip અપલોડ કરો.',
+  'submission.notText': '"{name}" ટેક્સ્ટ ફાઇલ જેવી લાગતી નથી.',
+  'submission.archiveUnreadable': '"{name}" ને zip આર્કાઇવ તરીકે ખોલી શકાઈ નહીં.',
+  'submission.archiveEmpty': '"{name}" ખાલી છે.',
+  'submission.archiveSkipped_one': '"{name}" માં સ્રોત કોડ, ચિત્ર કે PDF ન હોય તેવી {count} ફાઇલ છોડી દીધી.',
+  'submission.archiveSkipped_other': '"{name}" માં સ્રોત કોડ, ચિત્રો કે PDF ન હોય તેવી {count} ફાઇલો છોડી દીધી.',
+  'submission.archiveTooLarge': '"{name}" {size} છે; આર્કાઇવ વધુમાં વધુ {limit} હોઈ શકે.',
+  'submission.sourceTooLarge': '"{name}" {size} છે; સ્રોત ફાઇલો વધુમાં વધુ {limit} હોઈ શકે.',
+  'submission.inlineTooLarge': '"{name}" {size} છે; ચિત્રો અને PDF વધુમાં વધુ {limit} હોઈ શકે.',
+  'submission.tooManyFiles': 'એક સબમિશનમાં વધુમાં વધુ {max} ફાઇલો હોઈ શકે; "{name}" ઉમેરાઈ નથી.',
+  'submission.overTotal': '"{name}" થી સબમિશન {limit} કરતાં મોટું થઈ જશે.',
+  'submission.readFailed': 'તે ફાઇલો વાંચી શકાઈ નહીં. કૃપા કરીને ફરી પ્રયાસ કરો.',
+  'submission.uploaded': 'રચનાની સમીક્ષા માટે મેં {files} અપલોડ કર્યું છે.',
+  'submission.uploadedMore_one': 'રચનાની સમીક્ષા માટે મેં {files} અને વધુ {count} ફાઇલ અપલોડ કરી છે.',
+  'submission.uploadedMore_other': 'રચનાની સમીક્ષા માટે મેં {files} અને વધુ {count} ફાઇલો અપલોડ કરી છે.',
+
+  'code.plainText': 'સાદો લખાણ',
+  'code.detected': 'ભાષા આપમેળે ઓળખાઈ',
+  'code.lineNumbers': 'લીટી ક્રમાંક',
+  'code.copy': 'કૉપિ કરો',
+  'code.copied': 'કૉપિ થયું',
+  'common.edit': 'સંપાદિત કરો',
+  'common.new': 'નવું',
+  'common.rename': 'નામ બદલો',
+  'common.delete': 'કાઢી નાખો',
+  'common.remove': 'દૂર કરો',
+  'common.cancel': 'રદ કરો',
+  'common.save': 'સાચવો',
+  'common.saving': 'સાચવી રહ્યું છે...',
+  'common.add': 'ઉમેરો',
+  'common.show': 'બતાવો',
+  'common.hide': 'છુપાવો',
+  'common.copy': 'કૉપિ કરો',
+};
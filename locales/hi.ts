@@ -0,0 +1,388 @@
+import { Messages } from './en';
+
+export const hi: Messages = {
+  'language.label': 'इंटरफ़ेस की भाषा',
+
+  'header.sessions': 'अध्ययन सत्र',
+  'header.subtitle': 'अनंत',
+  'header.satisfied': 'संतुष्ट',
+  'header.socratic': 'सुकराती',
+
+  'level.Beginner': 'शुरुआती',
+  'level.Intermediate': 'मध्यम',
+  'level.Advanced': 'उन्नत',
+  'level.suggested': 'आपके ट्यूटर का सुझाव है कि आप {level} स्तर पर जाएँ।',
+  'level.switch': 'बदलें',
+  'level.keep': 'मौजूदा रखें',
+  'level.step': '{level}, चरण {step}/{steps}',
+  'level.adjusted': 'आपका स्तर {level} कर दिया गया है।',
+  'level.undo': 'पूर्ववत करें',
+  'level.ok': 'ठीक है',
+  'level.quizReason': 'आपके क्विज़ में {score}% अंक आए।',
+  'level.mode': 'स्तर मोड',
+  'level.mode.manual': 'मैन्युअल',
+  'level.mode.suggest': 'अनुकूली: बदलाव सुझाएँ',
+  'level.mode.auto': 'अनुकूली: अपने-आप बदलें',
+  'level.history': 'स्तर इतिहास',
+  'level.source.manual': 'आपके द्वारा',
+  'level.source.diagnostic': 'नैदानिक प्रश्न',
+  'level.source.conversation': 'बातचीत',
+  'level.source.quiz': 'क्विज़',
+
+  'chat.title': 'तर्क धारा',
+  'chat.you': 'आप',
+  'chat.stopped': 'रोका गया',
+  'chat.placeholder': 'अपने विचारों की संरचना पर चर्चा करें...',
+  'chat.stop': 'उत्तर बनाना रोकें',
+  'chat.pin': 'संदर्भ में बनाए रखें',
+  'chat.unpin': 'संदर्भ में रखना बंद करें',
+  'chat.summarized': 'पुरानी बातचीत का सारांश बना',
+  'chat.welcome': 'नमस्ते। मैं **Encrypt** हूँ। \n\nमैं आपको सीधे उत्तर दिए बिना जटिल तर्क को खोलकर समझने में मदद करने के लिए यहाँ हूँ।\n\nमैं **English, हिन्दी, తెలుగు, தமிழ்** और कई अन्य भारतीय भाषाओं में बात कर सकता हूँ।\n\nऊपर अपना ज्ञान स्तर चुनें और बताइए: **आज हम किस अवधारणा की संरचना बनाएँ?**',
+  'chat.quizFailed': 'अभी क्विज़ तैयार नहीं हो सका। कृपया फिर से कोशिश करें।',
+  'chat.quizIntro': 'आइए **{topic}** की आपकी समझ जाँचें। हर प्रश्न का उत्तर दें, फिर जमा करें।',
+  'chat.fallbackReply': 'समझ गया। आइए इस लॉजिक की संरचना को समझते हैं।',
+
+  'action.analogy': 'उपमा',
+  'action.analogyPrompt': 'इसे किसी रोज़मर्रा की उपमा से समझाइए।',
+  'action.quiz': 'मेरी परीक्षा लें',
+  'action.realWorld': 'वास्तविक दुनिया',
+  'action.realWorldPrompt': 'वास्तविक दुनिया के किसी एप्लिकेशन में इसका उपयोग कैसे होता है?',
+  'action.visualize': 'दृश्य बनाएँ',
+  'action.visualizePrompt': 'कृपया इस अवधारणा को समझाने के लिए एक चित्र या आरेख दीजिए।',
+
+  'hint.stuck': 'मैं अटक गया',
+  'hint.stuckPrompt': 'मैं अटक गया हूँ। क्या मुझे एक संकेत मिल सकता है?',
+  'hint.badge': 'संकेत {number}/{max}',
+  'hint.level.nudge': 'इशारा',
+  'hint.level.subproblem': 'उप-समस्या',
+  'hint.level.skeleton': 'ढाँचा',
+  'hint.currentProblem': 'वर्तमान सवाल',
+
+  'tab.visualizer': 'ब्लूप्रिंट',
+  'tab.templates': 'ज्ञान',
+  'tab.upload': 'सबमिशन',
+  'tab.image_gen': 'कैनवास',
+  'tab.mastery': 'दक्षता',
+
+  'category.All': 'सभी',
+  'category.Coding': 'कोडिंग',
+  'category.Algorithms': 'एल्गोरिदम',
+  'category.Mathematics': 'गणित',
+  'category.Science': 'विज्ञान',
+  'category.Writing': 'लेखन',
+  'category.Systems': 'सिस्टम',
+  'category.Database': 'डेटाबेस',
+  'category.Philosophy': 'दर्शन',
+  'category.Economics': 'अर्थशास्त्र',
+
+  'templates.search': 'तर्क टेम्पलेट खोजें...',
+  'templates.new': 'नया टेम्पलेट',
+  'templates.import': 'पैक आयात करें',
+  'templates.export': 'पैक निर्यात करें',
+  'templates.packName': 'Encrypt टेम्पलेट',
+  'templates.categoryPackName': '{category} टेम्पलेट',
+  'templates.synthTitle': 'पैटर्न संश्लेषक',
+  'templates.synthBody': 'यह अवधारणा नहीं मिली। Encrypt आपके लिए नया टेम्पलेट बना सकता है।',
+  'templates.synthesizing': 'बना रहे हैं...',
+  'templates.synthesize': 'तर्क संश्लेषित करें',
+  'templates.hiddenTests_one': '{count} छिपा टेस्ट',
+  'templates.hiddenTests_other': '{count} छिपे टेस्ट',
+  'templates.sessionOnly': 'केवल इस सत्र के लिए',
+  'templates.saveToLibrary': 'लाइब्रेरी में सहेजें',
+  'templates.duplicate': 'प्रतिलिपि बनाएँ',
+  'templates.startGuided': 'निर्देशित सत्र शुरू करें',
+  'templates.stepThrough': 'चरण-दर-चरण चलाएँ',
+  'templates.confirmDelete_one': '"{title}" और उसका {count} पुराना संस्करण मिटाएँ?',
+  'templates.confirmDelete_other': '"{title}" और उसके {count} पुराने संस्करण मिटाएँ?',
+
+  'upload.title': 'असाइनमेंट समीक्षा',
+  'upload.body': 'संरचनात्मक मूल्यांकन के लिए अपने तर्क के मसौदे जमा करें: सोर्स फ़ाइलें, प्रोजेक्ट की .zip, PDF या हाथ से लिखे काम की तस्वीरें।',
+  'upload.browse': 'फ़ाइलें चुनें',
+  'upload.addMore': 'और फ़ाइलें जोड़ें',
+  'upload.rubric': 'रूब्रिक',
+  'upload.points': '{count} अंक',
+  'upload.tests': 'टेस्ट',
+  'upload.noTests': 'छिपे टेस्ट न चलाएँ',
+  'upload.testCount': '{count} टेस्ट',
+  'upload.testing': 'छिपे टेस्ट चल रहे हैं...',
+  'upload.reviewing': 'रूब्रिक के आधार पर समीक्षा हो रही है...',
+  'upload.reports': 'फ़ीडबैक रिपोर्ट',
+
+  'canvas.placeholder': 'किसी दृश्य की कल्पना लिखें...',
+  'canvas.size1K': 'सामान्य 1K',
+  'canvas.size2K': 'हाई-रेज़ 2K',
+  'canvas.size4K': 'अल्ट्रा-रेज़ 4K',
+  'canvas.generating': 'कल्पना हो रही है...',
+  'canvas.render': 'चित्र बनाएँ',
+  'canvas.rendering': 'बन रहा है...',
+  'canvas.append': 'ब्लूप्रिंट में जोड़ें',
+  'canvas.empty': 'कैनवास खाली है',
+  'canvas.generatedAlt': 'बनाया गया अवधारणा चित्र',
+
+  'nav.workspace': 'कार्यक्षेत्र',
+
+  'toast.cheat': 'पहले सोचिए! मैं सीधे कोड नहीं दे सकता। आइए तर्क पर बात करें।',
+  'toast.quizNeedsContext': 'पहले किसी अवधारणा को समझें, फिर मैं उस पर आपकी परीक्षा ले सकता हूँ।',
+  'toast.gradingFailed': 'मूल्यांकन विफल रहा। कृपया फिर से जमा करें।',
+  'toast.noSteps': 'इस टेम्पलेट में चरण-दर-चरण चलने के लिए क्रमांकित चरण नहीं हैं।',
+  'toast.waitForReply': 'मौजूदा उत्तर पूरा होने दें, फिर उस चरण के बारे में पूछें।',
+  'toast.rubricSaveFailed': 'रूब्रिक सहेजा नहीं जा सका।',
+  'toast.templateSaveFailed': 'टेम्पलेट सहेजा नहीं जा सका।',
+  'toast.packImported': '{added} नए आयात हुए, {updated} अपडेट हुए।',
+  'toast.packImportedSkipped': '{added} नए आयात हुए, {updated} अपडेट हुए, {skipped} अमान्य छोड़े गए।',
+  'toast.packImportFailed': 'टेम्पलेट पैक का आयात विफल रहा।',
+  'toast.packError.invalidJson': 'फ़ाइल मान्य JSON नहीं है।',
+  'toast.packError.notPack': 'यह फ़ाइल Encrypt टेम्पलेट पैक नहीं है।',
+  'toast.packError.newerVersion': 'यह पैक Encrypt के नए संस्करण से निर्यात किया गया था।',
+  'toast.exportFailed': 'निर्यात विफल रहा। कृपया फिर से कोशिश करें।',
+
+  'visualizer.emptyTitle': 'दृश्य धारा',
+  'visualizer.emptyBody': 'जैसे-जैसे आप Encrypt से बात करेंगे, जटिल तर्क को स्पष्ट करने वाले आरेख और चित्र यहाँ दिखाई देंगे।',
+  'visualizer.title': 'सक्रिय ब्लूप्रिंट',
+  'visualizer.components_one': '{count} घटक',
+  'visualizer.components_other': '{count} घटक',
+  'visualizer.footer': 'तर्क धारा के साथ अपने-आप अपडेट होता है',
+  'visualizer.vision': 'वैचारिक चित्र',
+  'visualizer.repaired': 'सुधारा गया',
+  'visualizer.failed': 'विफल',
+  'visualizer.edited': 'संपादित',
+  'visualizer.repairedTitle_one': '{count} पार्स त्रुटि के बाद अपने आप सुधारा गया',
+  'visualizer.repairedTitle_other': '{count} पार्स त्रुटियों के बाद अपने आप सुधारा गया',
+  'visualizer.failedTitle': 'ट्यूटर इस डायग्राम का सही संस्करण नहीं बना सका',
+  'visualizer.editedTitle': 'पहले के ब्लूप्रिंट का आपका संशोधन',
+
+  'diagram.syntaxError': 'Mermaid सिंटैक्स त्रुटि',
+  'diagram.source': 'स्रोत',
+  'diagram.zoomOut': 'छोटा करें',
+  'diagram.zoomIn': 'बड़ा करें',
+  'diagram.resetView': 'दृश्य रीसेट करें',
+  'diagram.action.explain': 'यह चरण समझाइए',
+  'diagram.action.why-branch': 'यह शाखा क्यों?',
+  'diagram.action.what-if-fails': 'अगर यह विफल हो तो?',
+  'diagram.action.example': 'इसमें एक उदाहरण चलाकर दिखाइए',
+
+  'blueprint.label': 'ब्लूप्रिंट {number}',
+  'blueprint.labelRevision': 'ब्लूप्रिंट {number} · संशोधन {revision}',
+  'blueprint.compare': 'तुलना करें',
+  'blueprint.revisions': 'संशोधन',
+  'blueprint.original': 'मूल',
+  'blueprint.revision': 'संशोधन {revision}',
+  'blueprint.source': 'Mermaid स्रोत',
+  'blueprint.preview': 'लाइव पूर्वावलोकन',
+  'blueprint.before': 'पहले',
+  'blueprint.after': 'बाद में',
+  'blueprint.changes': 'बदलाव',
+  'blueprint.legend.added': 'जोड़ा गया',
+  'blueprint.legend.removed': 'हटाया गया',
+  'blueprint.legend.changed': 'नाम बदला',
+  'blueprint.pickTwo': 'तुलना के लिए दो अलग ब्लूप्रिंट चुनें।',
+  'blueprint.sameStructure': 'इन दोनों संस्करणों की संरचना एक जैसी है।',
+  'blueprint.linesOnly': 'केवल फ़्लोचार्ट की नोड-दर-नोड तुलना हो सकती है; इसलिए बदली हुई स्रोत पंक्तियाँ दिखाई जा रही हैं।',
+  'blueprint.change.addedStep': 'चरण "{label}" जोड़ा',
+  'blueprint.change.removedStep': 'चरण "{label}" हटाया',
+  'blueprint.change.renamedStep': '"{before}" का नाम बदलकर "{after}" किया',
+  'blueprint.change.addedLink': 'कड़ी {link} जोड़ी',
+  'blueprint.change.removedLink': 'कड़ी {link} हटाई',
+  'blueprint.change.addedLine': 'पंक्ति जोड़ी: {line}',
+  'blueprint.change.removedLine': 'पंक्ति हटाई: {line}',
+  'blueprint.unsaved': 'बिना सहेजे बदलाव',
+  'blueprint.savedAsRevisions': 'बदलाव नए संशोधनों के रूप में सहेजे जाते हैं; मूल स्टैक में बना रहता है।',
+  'blueprint.saveRevision': 'संशोधन सहेजें',
+  'blueprint.changeFirst': 'पहले कोई बदलाव करें',
+  'blueprint.check': 'क्या मेरा संस्करण सही है?',
+  'blueprint.discard': 'इस ब्लूप्रिंट के बिना सहेजे बदलाव छोड़ दें?',
+
+  'sessions.title': 'अध्ययन सत्र',
+  'sessions.new': 'नया सत्र',
+  'sessions.empty': 'अभी तक कोई सहेजा गया सत्र नहीं है।',
+  'sessions.untitled': 'बिना नाम का सत्र',
+  'sessions.turns_one': '{count} बातचीत',
+  'sessions.turns_other': '{count} बातचीत',
+
+  'tray.summary': '{count} / {max} फ़ाइलें · {limit} में से {size}',
+  'tray.clear': 'हटाएँ',
+  'tray.submit': 'समीक्षा के लिए जमा करें',
+  'tray.reading': 'फ़ाइलें पढ़ी जा रही हैं...',
+
+  'walkthrough.title': 'निर्देशित अभ्यास',
+  'walkthrough.complete': 'पूरा हुआ',
+  'walkthrough.step': 'चरण {current} / {total}',
+  'walkthrough.dismiss': 'बंद करें',
+  'walkthrough.end': 'समाप्त करें',
+  'walkthrough.startPrompt': '"{title}" टेम्पलेट में मुझे एक-एक कदम करके ले चलिए।',
+  'walkthrough.sessionName': 'गाइडेड: {title}',
+
+  'export.button': 'सत्र निर्यात करें',
+  'export.heading': 'सत्र निर्यात करें',
+  'export.preparing': 'तैयार हो रहा है...',
+  'export.htmlHint': 'एक पूर्ण, स्वतंत्र फ़ाइल',
+  'export.markdownHint': 'assets फ़ोल्डर के साथ .zip',
+  'export.pdfHint': 'छपाई के लिए तैयार लेआउट',
+
+  'gate.revealed': 'आपके प्रयास के बाद पूरा हल दिखाया गया',
+  'gate.code': 'एक पूरा प्रोग्राम',
+  'gate.proof': 'एक पूरा प्रमाण',
+  'gate.and': ' और ',
+  'gate.body': 'इस उत्तर में {kinds} था, इसलिए इसे केवल ढाँचे तक सीमित कर दिया गया है।',
+  'gate.canReveal': 'आपने प्रयास कर लिया है, इसलिए अब आप इसकी तुलना पूरे संस्करण से कर सकते हैं।',
+  'gate.cannotReveal': 'खाली जगहें ख़ुद भरें और अपना प्रयास साझा करें, तब पूरा संस्करण खुलेगा।',
+  'gate.reveal': 'हल दिखाएँ',
+
+  'error.auth': 'AI सेवा ने API कुंजी स्वीकार नहीं की।',
+  'error.permission': 'इस API कुंजी से वह मॉडल इस्तेमाल नहीं किया जा सकता। किसी सशुल्क प्रोजेक्ट की कुंजी चुनें।',
+  'error.quota': 'AI सेवा को इस समय बहुत अधिक अनुरोध मिल रहे हैं।',
+  'error.safety': 'AI सेवा ने अपने सुरक्षा नियमों के कारण इसका उत्तर नहीं दिया। अपना संदेश दूसरे शब्दों में लिखकर देखें।',
+  'error.network': 'AI सेवा से संपर्क नहीं हो सका। अपना कनेक्शन जाँचें और फिर से कोशिश करें।',
+  'error.timeout': 'AI सेवा ने जवाब देने में बहुत देर लगा दी।',
+  'error.invalid_output': 'AI सेवा से मिला जवाब पढ़ा नहीं जा सका।',
+  'error.server': 'AI सेवा में इस समय कोई समस्या है।',
+  'error.unknown': 'AI सेवा से संपर्क करते समय कुछ गड़बड़ हो गई।',
+  'error.retryAfter': '{seconds} सेकंड बाद फिर से कोशिश करें।',
+  'error.retry': 'फिर से कोशिश करें',
+  'error.edit': 'संदेश संपादित करें',
+  'error.chooseKey': 'API कुंजी चुनें',
+
+  'mastery.learner': 'शिक्षार्थी',
+  'mastery.addLearner': 'शिक्षार्थी जोड़ें...',
+  'mastery.emptyTitle': 'अभी तक किसी अवधारणा का आकलन नहीं हुआ',
+  'mastery.emptyBody': 'जैसे-जैसे Encrypt आपके तर्क को जाँचता है, हर आकलित अवधारणा यहाँ दिखाई देती है।',
+  'mastery.demonstrated': 'प्रदर्शित · {count}',
+  'mastery.noneDemonstrated': 'अभी तक कुछ प्रदर्शित नहीं हुआ। सोचते रहिए।',
+  'mastery.searching': 'अभी खोज जारी · {count}',
+  'mastery.noneSearching': 'हर आकलित अवधारणा प्रदर्शित हो चुकी है।',
+  'mastery.checks_one': '{count} जाँच',
+  'mastery.checks_other': '{count} जाँचें',
+  'mastery.transitions_one': '{count} बदलाव',
+  'mastery.transitions_other': '{count} बदलाव',
+  'mastery.status.satisfied': 'संतुष्ट',
+  'mastery.status.searching': 'खोज जारी',
+
+  'quiz.title': 'क्विज़ · {topic}',
+  'quiz.kind.multiple_choice': 'एक चुनें',
+  'quiz.kind.ordering': 'चरणों को क्रम में लगाएँ',
+  'quiz.kind.short_answer': 'लघु उत्तर',
+  'quiz.correct': 'सही',
+  'quiz.partly': 'आंशिक',
+  'quiz.notYet': 'अभी नहीं',
+  'quiz.placeholder': 'अपना तर्क समझाइए...',
+  'quiz.grading': 'जाँच हो रही है...',
+  'quiz.submit': 'उत्तर जमा करें',
+
+  'trace.title': 'ट्रेस · {title}',
+  'trace.pseudocode': 'स्यूडोकोड',
+  'trace.doneEditing': 'संपादन पूरा',
+  'trace.undefined_one': 'यह टेम्पलेट {names} को आपके भरने के लिए छोड़ता है। ट्रेस करने से पहले स्यूडोकोड संपादित करें और इसे FUNCTION से परिभाषित करें।',
+  'trace.undefined_other': 'यह टेम्पलेट {names} को आपके भरने के लिए छोड़ता है। ट्रेस करने से पहले स्यूडोकोड संपादित करें और इन्हें FUNCTION से परिभाषित करें।',
+  'trace.first': 'पहला चरण',
+  'trace.back': 'एक चरण पीछे',
+  'trace.forward': 'एक चरण आगे',
+  'trace.last': 'अंतिम चरण',
+  'trace.event.line': 'चल रहा है',
+  'trace.event.call': 'कॉल हो रहा है',
+  'trace.event.return': 'लौट रहा है',
+  'trace.event.done': 'पूरा हुआ',
+  'trace.event.error': 'रुक गया',
+  'trace.line': 'पंक्ति {line}',
+  'trace.inputs': 'इनपुट',
+  'trace.noInputs': 'इस कोड को किसी इनपुट की ज़रूरत नहीं है।',
+  'trace.inputPlaceholder': 'जैसे 5 या [1, 2, 3]',
+  'trace.restart': 'ट्रेस फिर से शुरू करें',
+  'trace.start': 'ट्रेस शुरू करें',
+  'trace.variables': 'वेरिएबल',
+  'trace.allReturned': 'सभी कॉल लौट चुके हैं।',
+  'trace.noVariables': 'अभी कोई वेरिएबल नहीं।',
+  'trace.callStack': 'कॉल स्टैक · {depth} गहरा',
+
+  'report.revision': 'संशोधन {revision}',
+  'report.sinceLast': 'पिछले संस्करण से {delta}',
+  'report.hiddenTests': 'छिपे टेस्ट · {title}',
+  'report.passed': '{passed}/{total} पास',
+  'report.case.pass': 'पास',
+  'report.case.skipped': 'नहीं चला',
+  'report.case.timeout': 'समय समाप्त',
+  'report.case.error': 'क्रैश हुआ',
+  'report.case.fail': 'गलत परिणाम',
+  'report.caseWithHint': '{hint} पर {outcome}',
+  'runner.invalidFunction': '"{name}" मान्य फ़ंक्शन नाम नहीं है।',
+  'runner.compile': 'कोड कंपाइल नहीं होता।',
+  'runner.line': 'पंक्ति {line}:',
+  'runner.loadTimeout': 'कोड लोड होने में बहुत समय लगा।',
+  'runner.pythonLoadTimeout': 'Python रनटाइम समय पर लोड नहीं हुआ। अपना कनेक्शन जाँचें और फिर कोशिश करें।',
+  'runner.missingFunction': '"{name}" नाम का कोई फ़ंक्शन नहीं बनाया गया।',
+  'runner.loadFailed': 'लोड होते समय कोड विफल हो गया।',
+  'runner.thrown': 'कोड ने एक त्रुटि दी।',
+  'runner.timeout': '{seconds} सेकंड बाद भी चल रहा है। क्या कोई लूप कभी खत्म नहीं होता?',
+  'runner.resultTooLarge': 'परिणाम तुलना के लिए बहुत बड़ा था।',
+  'runner.crashed': 'कोड ने सैंडबॉक्स को क्रैश कर दिया; शायद मेमोरी खत्म हो गई।',
+  'report.console_one': 'कंसोल आउटपुट ({count} पंक्ति)',
+  'report.console_other': 'कंसोल आउटपुट ({count} पंक्तियाँ)',
+  'report.compared': 'पिछले संस्करण से तुलना',
+  'report.improved': 'क्या बेहतर हुआ',
+  'report.fixed': 'ठीक हुआ',
+  'report.stillOpen': 'अब भी बाकी',
+  'report.newIssues': 'इस बार नया',
+  'report.noDifferences': 'मिली समस्याओं में कोई अंतर नहीं।',
+  'report.section.strengths': 'मज़बूतियाँ',
+  'report.section.logicalGaps': 'तार्किक कमियाँ',
+  'report.section.misconceptions': 'गलत धारणाएँ',
+  'report.section.unhandledEdgeCases': 'छूटे हुए एज केस',
+
+  'templateEditor.edit': 'टेम्पलेट संपादित करें · v{version}',
+  'templateEditor.title': 'शीर्षक',
+  'templateEditor.description': 'संक्षिप्त विवरण',
+  'templateEditor.content': 'टेम्पलेट संरचना...',
+  'templateEditor.tests': 'छिपे टेस्ट · {count}',
+  'templateEditor.testsHelp': 'JavaScript, TypeScript या Python में जमा किए गए काम इन पर चलाए जाते हैं। आर्गुमेंट एक JSON array होते हैं; छात्र किसी विफल केस का केवल संकेत देखते हैं।',
+  'templateEditor.functionName': 'कॉल करने वाला फ़ंक्शन, जैसे binarySearch',
+  'templateEditor.expected': 'अपेक्षित, जैसे 1',
+  'templateEditor.hint': 'संकेत, जैसे आखिर में लक्ष्य',
+  'templateEditor.addCase': 'टेस्ट केस जोड़ें',
+  'templateEditor.invalidTests': 'हर टेस्ट में आर्गुमेंट का JSON array और अपेक्षित JSON मान होना चाहिए, और फ़ंक्शन का नाम मान्य पहचानकर्ता होना चाहिए।',
+  'templateEditor.history': 'संस्करण इतिहास',
+  'templateEditor.restore': 'पुनर्स्थापित करें',
+
+  'rubric.edit': 'रूब्रिक संपादित करें',
+  'rubric.new': 'नया रूब्रिक',
+  'rubric.name': 'रूब्रिक का नाम, जैसे सप्ताह 4: सॉर्टिंग',
+  'rubric.criteria': 'मानदंड · {total} अंक',
+  'rubric.addCriterion': 'मानदंड जोड़ें',
+  'rubric.criterion': 'मानदंड',
+  'rubric.max': 'अधिकतम',
+  'rubric.removeCriterion': 'मानदंड हटाएँ',
+  'rubric.fullMarks': 'पूरे अंक कैसे दिखते हैं?',
+  'rubric.confirmDelete': 'रूब्रिक "{name}" मिटाएँ? मौजूदा रिपोर्टों के अंक बने रहेंगे।',
+
+  'submission.unsupported': '"{name}" समर्थित नहीं है। स्रोत फ़ाइलें, चित्र (PNG, JPEG, WebP, HEIC), PDF या अपने प्रोजेक्ट की .zip अपलोड करें।',
+  'submission.notText': '"{name}" टेक्स्ट फ़ाइल जैसी नहीं लगती।',
+  'submission.archiveUnreadable': '"{name}" को zip आर्काइव के रूप में खोला नहीं जा सका।',
+  'submission.archiveEmpty': '"{name}" खाली है।',
+  'submission.archiveSkipped_one': '"{name}" में {count} फ़ाइल छोड़ दी गई जो स्रोत कोड, चित्र या PDF नहीं है।',
+  'submission.archiveSkipped_other': '"{name}" में {count} फ़ाइलें छोड़ दी गईं जो स्रोत कोड, चित्र या PDF नहीं हैं।',
+  'submission.archiveTooLarge': '"{name}" {size} की है; आर्काइव अधिकतम {limit} के हो सकते हैं।',
+  'submission.sourceTooLarge': '"{name}" {size} की है; स्रोत फ़ाइलें अधिकतम {limit} की हो सकती हैं।',
+  'submission.inlineTooLarge': '"{name}" {size} की है; चित्र और PDF अधिकतम {limit} के हो सकते हैं।',
+  'submission.tooManyFiles': 'एक सबमिशन में अधिकतम {max} फ़ाइलें हो सकती हैं; "{name}" नहीं जोड़ी गई।',
+  'submission.overTotal': '"{name}" से सबमिशन {limit} से बड़ा हो जाएगा।',
+  'submission.readFailed': 'वे फ़ाइलें पढ़ी नहीं जा सकीं। कृपया फिर से कोशिश करें।',
+  'submission.uploaded': 'मैंने संरचना की समीक्षा के लिए {files} अपलोड किया है।',
+  'submission.uploadedMore_one': 'मैंने संरचना की समीक्षा के लिए {files} और {count} और फ़ाइल अपलोड की है।',
+  'submission.uploadedMore_other': 'मैंने संरचना की समीक्षा के लिए {files} और {count} और फ़ाइलें अपलोड की हैं।',
+
+  'code.plainText': 'सादा पाठ',
+  'code.detected': 'भाषा अपने-आप पहचानी गई',
+  'code.lineNumbers': 'पंक्ति संख्या',
+  'code.copy': 'कॉपी करें',
+  'code.copied': 'कॉपी हो गया',
+  'common.edit': 'संपादित करें',
+  'common.new': 'नया',
+  'common.rename': 'नाम बदलें',
+  'common.delete': 'मिटाएँ',
+  'common.remove': 'हटाएँ',
+  'common.cancel': 'रद्द करें',
+  'common.save': 'सहेजें',
+  'common.saving': 'सहेजा जा रहा है...',
+  'common.add': 'जोड़ें',
+  'common.show': 'दिखाएँ',
+  'common.hide': 'छिपाएँ',
+  'common.copy': 'कॉपी करें',
+};
@@ -0,0 +1,17 @@
+import { UILanguage } from '../types';
+import { en, Messages, MessageKey } from './en';
+import { hi } from './hi';
+import { te } from './te';
+import { ta } from './ta';
+import { kn } from './kn';
+import { ml } from './ml';
+import { mr } from './mr';
+import { gu } from './gu';
+import { bn } from './bn';
+import { pa } from './pa';
+import { or } from './or';
+import { ur } from './ur';
+
+export type { Messages, MessageKey };
+
+export const MESSAGES: Record<UILanguage, Messages> = { en, hi, te, ta, kn, ml, mr, gu, bn, pa, or, ur };
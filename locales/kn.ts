@@ -0,0 +1,388 @@
+import { Messages } from './en';
+
+export const kn: Messages = {
+  'language.label': 'ಇಂಟರ್‌ಫೇಸ್ ಭಾಷೆ',
+
+  'header.sessions': 'ಅಧ್ಯಯನ ಅವಧಿಗಳು',
+  'header.subtitle': 'ಅನಂತ',
+  'header.satisfied': 'ತೃಪ್ತಿ',
+  'header.socratic': 'ಸಾಕ್ರಟಿಕ್',
+
+  'level.Beginner': 'ಆರಂಭಿಕ',
+  'level.Intermediate': 'ಮಧ್ಯಮ',
+  'level.Advanced': 'ಉನ್ನತ',
+  'level.suggested': 'ನಿಮ್ಮ ಬೋಧಕರು {level} ಹಂತಕ್ಕೆ ಬದಲಾಯಿಸಲು ಸೂಚಿಸುತ್ತಿದ್ದಾರೆ.',
+  'level.switch': 'ಬದಲಾಯಿಸಿ',
+  'level.keep': 'ಈಗಿನದೇ ಇರಲಿ',
+  'level.step': '{level}, ಹಂತ {step}/{steps}',
+  'level.adjusted': 'ನಿಮ್ಮ ಮಟ್ಟವನ್ನು {level}ಗೆ ಬದಲಾಯಿಸಲಾಗಿದೆ.',
+  'level.undo': 'ರದ್ದುಗೊಳಿಸಿ',
+  'level.ok': 'ಸರಿ',
+  'level.quizReason': 'ನಿಮ್ಮ ರಸಪ್ರಶ್ನೆ ಅಂಕ {score}%.',
+  'level.mode': 'ಮಟ್ಟದ ಮೋಡ್',
+  'level.mode.manual': 'ಕೈಯಾರೆ',
+  'level.mode.suggest': 'ಹೊಂದಾಣಿಕೆ: ಬದಲಾವಣೆ ಸೂಚಿಸಿ',
+  'level.mode.auto': 'ಹೊಂದಾಣಿಕೆ: ಸ್ವಯಂಚಾಲಿತವಾಗಿ ಬದಲಿಸಿ',
+  'level.history': 'ಮಟ್ಟದ ಇತಿಹಾಸ',
+  'level.source.manual': 'ನೀವು ಆಯ್ಕೆ ಮಾಡಿದ್ದು',
+  'level.source.diagnostic': 'ರೋಗನಿರ್ಣಯ ಪ್ರಶ್ನೆಗಳು',
+  'level.source.conversation': 'ಸಂಭಾಷಣೆ',
+  'level.source.quiz': 'ರಸಪ್ರಶ್ನೆ',
+
+  'chat.title': 'ತರ್ಕ ಹರಿವು',
+  'chat.you': 'ನೀವು',
+  'chat.stopped': 'ನಿಲ್ಲಿಸಲಾಗಿದೆ',
+  'chat.placeholder': 'ನಿಮ್ಮ ಆಲೋಚನೆಗಳ ರಚನೆಯ ಬಗ್ಗೆ ಚರ್ಚಿಸಿ...',
+  'chat.stop': 'ಉತ್ತರ ನಿಲ್ಲಿಸಿ',
+  'chat.pin': 'ಸಂದರ್ಭದಲ್ಲಿ ಇರಿಸಿ',
+  'chat.unpin': 'ಸಂದರ್ಭದಲ್ಲಿ ಇರಿಸುವುದನ್ನು ನಿಲ್ಲಿಸಿ',
+  'chat.summarized': 'ಹಿಂದಿನ ಸಂಭಾಷಣೆಯ ಸಾರಾಂಶ ಮಾಡಲಾಗಿದೆ',
+  'chat.welcome': 'ನಮಸ್ಕಾರ. ನಾನು **Encrypt**. \n\nಉತ್ತರಗಳನ್ನು ನೇರವಾಗಿ ಕೊಡದೆ, ಸಂಕೀರ್ಣ ತರ್ಕವನ್ನು ಬಿಡಿಸಿ ಅರ್ಥಮಾಡಿಕೊಳ್ಳಲು ನಿಮಗೆ ಸಹಾಯ ಮಾಡಲು ನಾನು ಇಲ್ಲಿದ್ದೇನೆ.\n\nನನಗೆ **English, हिन्दी, తెలుగు, தமிழ்** ಮತ್ತು ಇನ್ನೂ ಅನೇಕ ಭಾರತೀಯ ಭಾಷೆಗಳು ಬರುತ್ತವೆ.\n\nಮೇಲೆ ನಿಮ್ಮ ಜ್ಞಾನ ಮಟ್ಟವನ್ನು ಆರಿಸಿ ಹೇಳಿ: **ಇಂದು ನಾವು ಯಾವ ಪರಿಕಲ್ಪನೆಯನ್ನು ರೂಪಿಸೋಣ?**',
+  'chat.quizFailed': 'ಈಗ ರಸಪ್ರಶ್ನೆ ಸಿದ್ಧಪಡಿಸಲಾಗಲಿಲ್ಲ. ದಯವಿಟ್ಟು ಮತ್ತೆ ಪ್ರಯತ್ನಿಸಿ.',
+  'chat.quizIntro': '**{topic}** ಬಗ್ಗೆ ನಿಮ್ಮ ತಿಳುವಳಿಕೆಯನ್ನು ಪರಿಶೀಲಿಸೋಣ. ಪ್ರತಿ ಪ್ರಶ್ನೆಗೆ ಉತ್ತರಿಸಿ, ನಂತರ ಸಲ್ಲಿಸಿ.',
+  'chat.fallbackReply': 'ಅರ್ಥವಾಯಿತು. ಈ ತರ್ಕದ ರಚನೆಯನ್ನು ಪರಿಶೀಲಿಸೋಣ.',
+
+  'action.analogy': 'ಹೋಲಿಕೆ',
+  'action.analogyPrompt': 'ಇದನ್ನು ನಿಜ ಜೀವನದ ಒಂದು ಹೋಲಿಕೆಯ ಮೂಲಕ ವಿವರಿಸಿ.',
+  'action.quiz': 'ನನ್ನನ್ನು ಪರೀಕ್ಷಿಸಿ',
+  'action.realWorld': 'ನೈಜ ಜಗತ್ತು',
+  'action.realWorldPrompt': 'ನೈಜ ಜಗತ್ತಿನ ಒಂದು ಅಪ್ಲಿಕೇಶನ್‌ನಲ್ಲಿ ಇದನ್ನು ಹೇಗೆ ಬಳಸಲಾಗುತ್ತದೆ?',
+  'action.visualize': 'ದೃಶ್ಯೀಕರಿಸಿ',
+  'action.visualizePrompt': 'ಈ ಪರಿಕಲ್ಪನೆಯನ್ನು ವಿವರಿಸಲು ದಯವಿಟ್ಟು ಒಂದು ಚಿತ್ರ ಅಥವಾ ರೇಖಾಚಿತ್ರ ನೀಡಿ.',
+
+  'hint.stuck': 'ನಾನು ಸಿಲುಕಿದ್ದೇನೆ',
+  'hint.stuckPrompt': 'ನಾನು ಸಿಲುಕಿದ್ದೇನೆ. ನನಗೆ ಒಂದು ಸುಳಿವು ಸಿಗಬಹುದೇ?',
+  'hint.badge': 'ಸುಳಿವು {number}/{max}',
+  'hint.level.nudge': 'ಸೂಚನೆ',
+  'hint.level.subproblem': 'ಉಪ-ಸಮಸ್ಯೆ',
+  'hint.level.skeleton': 'ಅಸ್ಥಿಪಂಜರ',
+  'hint.currentProblem': 'ಪ್ರಸ್ತುತ ಸಮಸ್ಯೆ',
+
+  'tab.visualizer': 'ನೀಲನಕ್ಷೆ',
+  'tab.templates': 'ಜ್ಞಾನ',
+  'tab.upload': 'ಸಲ್ಲಿಕೆಗಳು',
+  'tab.image_gen': 'ಕ್ಯಾನ್ವಾಸ್',
+  'tab.mastery': 'ಪ್ರಾವೀಣ್ಯ',
+
+  'category.All': 'ಎಲ್ಲವೂ',
+  'category.Coding': 'ಕೋಡಿಂಗ್',
+  'category.Algorithms': 'ಅಲ್ಗಾರಿದಮ್‌ಗಳು',
+  'category.Mathematics': 'ಗಣಿತ',
+  'category.Science': 'ವಿಜ್ಞಾನ',
+  'category.Writing': 'ಬರವಣಿಗೆ',
+  'category.Systems': 'ವ್ಯವಸ್ಥೆಗಳು',
+  'category.Database': 'ಡೇಟಾಬೇಸ್',
+  'category.Philosophy': 'ತತ್ವಶಾಸ್ತ್ರ',
+  'category.Economics': 'ಅರ್ಥಶಾಸ್ತ್ರ',
+
+  'templates.search': 'ತರ್ಕ ಟೆಂಪ್ಲೇಟ್‌ಗಳನ್ನು ಹುಡುಕಿ...',
+  'templates.new': 'ಹೊಸ ಟೆಂಪ್ಲೇಟ್',
+  'templates.import': 'ಪ್ಯಾಕ್ ಆಮದು',
+  'templates.export': 'ಪ್ಯಾಕ್ ರಫ್ತು',
+  'templates.packName': 'Encrypt ಟೆಂಪ್ಲೇಟ್‌ಗಳು',
+  'templates.categoryPackName': '{category} ಟೆಂಪ್ಲೇಟ್‌ಗಳು',
+  'templates.synthTitle': 'ಮಾದರಿ ರಚನಾಕಾರ',
+  'templates.synthBody': 'ಈ ಪರಿಕಲ್ಪನೆ ಸಿಗಲಿಲ್ಲ. Encrypt ನಿಮಗಾಗಿ ಹೊಸ ಟೆಂಪ್ಲೇಟ್ ರಚಿಸಬಲ್ಲದು.',
+  'templates.synthesizing': 'ರಚಿಸುತ್ತಿದೆ...',
+  'templates.synthesize': 'ತರ್ಕ ರಚಿಸಿ',
+  'templates.hiddenTests_one': '{count} ಮರೆಮಾಡಿದ ಪರೀಕ್ಷೆ',
+  'templates.hiddenTests_other': '{count} ಮರೆಮಾಡಿದ ಪರೀಕ್ಷೆಗಳು',
+  'templates.sessionOnly': 'ಈ ಅವಧಿಗೆ ಮಾತ್ರ',
+  'templates.saveToLibrary': 'ಗ್ರಂಥಾಲಯದಲ್ಲಿ ಉಳಿಸಿ',
+  'templates.duplicate': 'ನಕಲು ಮಾಡಿ',
+  'templates.startGuided': 'ಮಾರ್ಗದರ್ಶಿತ ಅವಧಿ ಆರಂಭಿಸಿ',
+  'templates.stepThrough': 'ಹಂತ ಹಂತವಾಗಿ ನಡೆಸಿ',
+  'templates.confirmDelete_one': '"{title}" ಮತ್ತು ಅದರ {count} ಹಳೆಯ ಆವೃತ್ತಿಯನ್ನು ಅಳಿಸುವುದೇ?',
+  'templates.confirmDelete_other': '"{title}" ಮತ್ತು ಅದರ {count} ಹಳೆಯ ಆವೃತ್ತಿಗಳನ್ನು ಅಳಿಸುವುದೇ?',
+
+  'upload.title': 'ಅಸೈನ್‌ಮೆಂಟ್ ಪರಿಶೀಲನೆ',
+  'upload.body': 'ರಚನಾತ್ಮಕ ಮೌಲ್ಯಮಾಪನಕ್ಕಾಗಿ ನಿಮ್ಮ ತರ್ಕದ ಕರಡುಗಳನ್ನು ಸಲ್ಲಿಸಿ: ಸೋರ್ಸ್ ಫೈಲ್‌ಗಳು, ಪ್ರಾಜೆಕ್ಟ್‌ನ .zip, PDF ಅಥವಾ ಕೈಬರಹದ ಕೆಲಸದ ಫೋಟೋಗಳು.',
+  'upload.browse': 'ಫೈಲ್‌ಗಳನ್ನು ಆರಿಸಿ',
+  'upload.addMore': 'ಇನ್ನಷ್ಟು ಫೈಲ್‌ಗಳನ್ನು ಸೇರಿಸಿ',
+  'upload.rubric': 'ರೂಬ್ರಿಕ್',
+  'upload.points': '{count} ಅಂಕಗಳು',
+  'upload.tests': 'ಪರೀಕ್ಷೆಗಳು',
+  'upload.noTests': 'ಗುಪ್ತ ಪರೀಕ್ಷೆಗಳನ್ನು ಓಡಿಸಬೇಡಿ',
+  'upload.testCount': '{count} ಪರೀಕ್ಷೆಗಳು',
+  'upload.testing': 'ಗುಪ್ತ ಪರೀಕ್ಷೆಗಳು ನಡೆಯುತ್ತಿವೆ...',
+  'upload.reviewing': 'ರೂಬ್ರಿಕ್ ಪ್ರಕಾರ ಪರಿಶೀಲಿಸುತ್ತಿದೆ...',
+  'upload.reports': 'ಪ್ರತಿಕ್ರಿಯೆ ವರದಿಗಳು',
+
+  'canvas.placeholder': 'ಒಂದು ದೃಶ್ಯವನ್ನು ಕಲ್ಪಿಸಿ ಬರೆಯಿರಿ...',
+  'canvas.size1K': 'ಸಾಮಾನ್ಯ 1K',
+  'canvas.size2K': 'ಹೈ-ರೆಸ್ 2K',
+  'canvas.size4K': 'ಅಲ್ಟ್ರಾ-ರೆಸ್ 4K',
+  'canvas.generating': 'ಕಲ್ಪಿಸುತ್ತಿದೆ...',
+  'canvas.render': 'ಚಿತ್ರ ರಚಿಸಿ',
+  'canvas.rendering': 'ರಚನೆಯಾಗುತ್ತಿದೆ...',
+  'canvas.append': 'ನೀಲನಕ್ಷೆಗೆ ಸೇರಿಸಿ',
+  'canvas.empty': 'ಕ್ಯಾನ್ವಾಸ್ ಖಾಲಿಯಾಗಿದೆ',
+  'canvas.generatedAlt': 'ರಚಿಸಿದ ಪರಿಕಲ್ಪನೆ ಚಿತ್ರ',
+
+  'nav.workspace': 'ಕಾರ್ಯಕ್ಷೇತ್ರ',
+
+  'toast.cheat': 'ಮೊದಲು ಯೋಚಿಸಿ! ನಾನು ನೇರವಾಗಿ ಕೋಡ್ ಕೊಡಲಾರೆ. ತರ್ಕದ ಬಗ್ಗೆ ಮಾತನಾಡೋಣ.',
+  'toast.quizNeedsContext': 'ಮೊದಲು ಒಂದು ಪರಿಕಲ್ಪನೆಯನ್ನು ಅನ್ವೇಷಿಸೋಣ, ನಂತರ ಅದರ ಮೇಲೆ ನಿಮ್ಮನ್ನು ಪರೀಕ್ಷಿಸುತ್ತೇನೆ.',
+  'toast.gradingFailed': 'ಮೌಲ್ಯಮಾಪನ ವಿಫಲವಾಯಿತು. ದಯವಿಟ್ಟು ಮತ್ತೆ ಸಲ್ಲಿಸಿ.',
+  'toast.noSteps': 'ಈ ಟೆಂಪ್ಲೇಟ್‌ನಲ್ಲಿ ಹಂತ ಹಂತವಾಗಿ ಸಾಗಲು ಸಂಖ್ಯೆಯುಳ್ಳ ಹಂತಗಳಿಲ್ಲ.',
+  'toast.waitForReply': 'ಈಗಿನ ಉತ್ತರ ಮುಗಿಯುವವರೆಗೆ ಕಾಯಿರಿ, ನಂತರ ಆ ಹಂತದ ಬಗ್ಗೆ ಕೇಳಿ.',
+  'toast.rubricSaveFailed': 'ರೂಬ್ರಿಕ್ ಉಳಿಸಲಾಗಲಿಲ್ಲ.',
+  'toast.templateSaveFailed': 'ಟೆಂಪ್ಲೇಟ್ ಉಳಿಸಲಾಗಲಿಲ್ಲ.',
+  'toast.packImported': '{added} ಹೊಸವು ಆಮದಾದವು, {updated} ನವೀಕರಿಸಲಾಗಿದೆ.',
+  'toast.packImportedSkipped': '{added} ಹೊಸವು ಆಮದಾದವು, {updated} ನವೀಕರಿಸಲಾಗಿದೆ, {skipped} ಅಮಾನ್ಯವಾದವನ್ನು ಬಿಡಲಾಗಿದೆ.',
+  'toast.packImportFailed': 'ಟೆಂಪ್ಲೇಟ್ ಪ್ಯಾಕ್ ಆಮದು ವಿಫಲವಾಯಿತು.',
+  'toast.packError.invalidJson': 'ಫೈಲ್ ಮಾನ್ಯ JSON ಅಲ್ಲ.',
+  'toast.packError.notPack': 'ಈ ಫೈಲ್ Encrypt ಟೆಂಪ್ಲೇಟ್ ಪ್ಯಾಕ್ ಅಲ್ಲ.',
+  'toast.packError.newerVersion': 'ಈ ಪ್ಯಾಕ್ ಅನ್ನು Encrypt ನ ಹೊಸ ಆವೃತ್ತಿಯಿಂದ ರಫ್ತು ಮಾಡಲಾಗಿದೆ.',
+  'toast.exportFailed': 'ರಫ್ತು ವಿಫಲವಾಯಿತು. ದಯವಿಟ್ಟು ಮತ್ತೆ ಪ್ರಯತ್ನಿಸಿ.',
+
+  'visualizer.emptyTitle': 'ದೃಶ್ಯ ಹರಿವು',
+  'visualizer.emptyBody': 'ನೀವು Encrypt ಜೊತೆ ಮಾತನಾಡುತ್ತಿದ್ದಂತೆ, ಸಂಕೀರ್ಣ ತರ್ಕವನ್ನು ಸ್ಪಷ್ಟಪಡಿಸುವ ರೇಖಾಚಿತ್ರಗಳು ಮತ್ತು ಚಿತ್ರಗಳು ಇಲ್ಲಿ ಕಾಣಿಸುತ್ತವೆ.',
+  'visualizer.title': 'ಸಕ್ರಿಯ ನೀಲನಕ್ಷೆಗಳು',
+  'visualizer.components_one': '{count} ಘಟಕ',
+  'visualizer.components_other': '{count} ಘಟಕಗಳು',
+  'visualizer.footer': 'ತರ್ಕ ಹರಿವಿನೊಂದಿಗೆ ತಾನಾಗಿಯೇ ನವೀಕರಿಸಲಾಗುತ್ತದೆ',
+  'visualizer.vision': 'ಪರಿಕಲ್ಪನಾ ಚಿತ್ರ',
+  'visualizer.repaired': 'ಸರಿಪಡಿಸಲಾಗಿದೆ',
+  'visualizer.failed': 'ವಿಫಲ',
+  'visualizer.edited': 'ಸಂಪಾದಿಸಲಾಗಿದೆ',
+  'visualizer.repairedTitle_one': '{count} ಪಾರ್ಸ್ ದೋಷದ ನಂತರ ಸ್ವಯಂಚಾಲಿತವಾಗಿ ಸರಿಪಡಿಸಲಾಗಿದೆ',
+  'visualizer.repairedTitle_other': '{count} ಪಾರ್ಸ್ ದೋಷಗಳ ನಂತರ ಸ್ವಯಂಚಾಲಿತವಾಗಿ ಸರಿಪಡಿಸಲಾಗಿದೆ',
+  'visualizer.failedTitle': 'ಬೋಧಕರಿಗೆ ಈ ರೇಖಾಚಿತ್ರದ ಸರಿಯಾದ ಆವೃತ್ತಿಯನ್ನು ರಚಿಸಲು ಆಗಲಿಲ್ಲ',
+  'visualizer.editedTitle': 'ಹಿಂದಿನ ನೀಲನಕ್ಷೆಯ ನಿಮ್ಮ ಪರಿಷ್ಕರಣೆ',
+
+  'diagram.syntaxError': 'Mermaid ಸಿಂಟ್ಯಾಕ್ಸ್ ದೋಷ',
+  'diagram.source': 'ಮೂಲ',
+  'diagram.zoomOut': 'ಚಿಕ್ಕದಾಗಿಸಿ',
+  'diagram.zoomIn': 'ದೊಡ್ಡದಾಗಿಸಿ',
+  'diagram.resetView': 'ನೋಟವನ್ನು ಮರುಹೊಂದಿಸಿ',
+  'diagram.action.explain': 'ಈ ಹಂತವನ್ನು ವಿವರಿಸಿ',
+  'diagram.action.why-branch': 'ಈ ಶಾಖೆ ಏಕೆ?',
+  'diagram.action.what-if-fails': 'ಇದು ವಿಫಲವಾದರೆ?',
+  'diagram.action.example': 'ಇದರ ಮೂಲಕ ಒಂದು ಉದಾಹರಣೆಯನ್ನು ನಡೆಸಿ ತೋರಿಸಿ',
+
+  'blueprint.label': 'ನೀಲನಕ್ಷೆ {number}',
+  'blueprint.labelRevision': 'ನೀಲನಕ್ಷೆ {number} · ಪರಿಷ್ಕರಣೆ {revision}',
+  'blueprint.compare': 'ಹೋಲಿಸಿ',
+  'blueprint.revisions': 'ಪರಿಷ್ಕರಣೆಗಳು',
+  'blueprint.original': 'ಮೂಲ ಆವೃತ್ತಿ',
+  'blueprint.revision': 'ಪರಿಷ್ಕರಣೆ {revision}',
+  'blueprint.source': 'Mermaid ಮೂಲ',
+  'blueprint.preview': 'ನೇರ ಮುನ್ನೋಟ',
+  'blueprint.before': 'ಮೊದಲು',
+  'blueprint.after': 'ನಂತರ',
+  'blueprint.changes': 'ಬದಲಾವಣೆಗಳು',
+  'blueprint.legend.added': 'ಸೇರಿಸಲಾಗಿದೆ',
+  'blueprint.legend.removed': 'ತೆಗೆದುಹಾಕಲಾಗಿದೆ',
+  'blueprint.legend.changed': 'ಮರುಹೆಸರಿಸಲಾಗಿದೆ',
+  'blueprint.pickTwo': 'ಹೋಲಿಸಲು ಎರಡು ಬೇರೆ ನೀಲನಕ್ಷೆಗಳನ್ನು ಆಯ್ಕೆಮಾಡಿ.',
+  'blueprint.sameStructure': 'ಈ ಎರಡು ಆವೃತ್ತಿಗಳ ರಚನೆ ಒಂದೇ ಆಗಿದೆ.',
+  'blueprint.linesOnly': 'ಫ್ಲೋಚಾರ್ಟ್‌ಗಳನ್ನು ಮಾತ್ರ ನೋಡ್‌ವಾರು ಹೋಲಿಸಬಹುದು; ಹಾಗಾಗಿ ಬದಲಾದ ಮೂಲ ಸಾಲುಗಳನ್ನು ತೋರಿಸಲಾಗುತ್ತಿದೆ.',
+  'blueprint.change.addedStep': 'ಹಂತ "{label}" ಸೇರಿಸಲಾಗಿದೆ',
+  'blueprint.change.removedStep': 'ಹಂತ "{label}" ತೆಗೆದುಹಾಕಲಾಗಿದೆ',
+  'blueprint.change.renamedStep': '"{before}" ಅನ್ನು "{after}" ಎಂದು ಮರುಹೆಸರಿಸಲಾಗಿದೆ',
+  'blueprint.change.addedLink': 'ಕೊಂಡಿ {link} ಸೇರಿಸಲಾಗಿದೆ',
+  'blueprint.change.removedLink': 'ಕೊಂಡಿ {link} ತೆಗೆದುಹಾಕಲಾಗಿದೆ',
+  'blueprint.change.addedLine': 'ಸಾಲು ಸೇರಿಸಲಾಗಿದೆ: {line}',
+  'blueprint.change.removedLine': 'ಸಾಲು ತೆಗೆದುಹಾಕಲಾಗಿದೆ: {line}',
+  'blueprint.unsaved': 'ಉಳಿಸದ ಬದಲಾವಣೆಗಳು',
+  'blueprint.savedAsRevisions': 'ಸಂಪಾದನೆಗಳು ಹೊಸ ಪರಿಷ್ಕರಣೆಗಳಾಗಿ ಉಳಿಯುತ್ತವೆ; ಮೂಲ ಆವೃತ್ತಿ ಸ್ಟ್ಯಾಕ್‌ನಲ್ಲೇ ಇರುತ್ತದೆ.',
+  'blueprint.saveRevision': 'ಪರಿಷ್ಕರಣೆ ಉಳಿಸಿ',
+  'blueprint.changeFirst': 'ಮೊದಲು ಏನಾದರೂ ಬದಲಾಯಿಸಿ',
+  'blueprint.check': 'ನನ್ನ ಆವೃತ್ತಿ ಸರಿಯೇ?',
+  'blueprint.discard': 'ಈ ನೀಲನಕ್ಷೆಯ ಉಳಿಸದ ಬದಲಾವಣೆಗಳನ್ನು ಬಿಟ್ಟುಬಿಡುವುದೇ?',
+
+  'sessions.title': 'ಅಧ್ಯಯನ ಅವಧಿಗಳು',
+  'sessions.new': 'ಹೊಸ ಅವಧಿ',
+  'sessions.empty': 'ಇನ್ನೂ ಉಳಿಸಿದ ಅವಧಿಗಳಿಲ್ಲ.',
+  'sessions.untitled': 'ಹೆಸರಿಲ್ಲದ ಸೆಷನ್',
+  'sessions.turns_one': '{count} ಸಂಭಾಷಣೆ',
+  'sessions.turns_other': '{count} ಸಂಭಾಷಣೆಗಳು',
+
+  'tray.summary': '{count} / {max} ಫೈಲ್‌ಗಳು · {limit} ರಲ್ಲಿ {size}',
+  'tray.clear': 'ತೆರವುಗೊಳಿಸಿ',
+  'tray.submit': 'ಪರಿಶೀಲನೆಗೆ ಸಲ್ಲಿಸಿ',
+  'tray.reading': 'ಫೈಲ್‌ಗಳನ್ನು ಓದುತ್ತಿದೆ...',
+
+  'walkthrough.title': 'ಮಾರ್ಗದರ್ಶಿತ ಅಭ್ಯಾಸ',
+  'walkthrough.complete': 'ಪೂರ್ಣಗೊಂಡಿದೆ',
+  'walkthrough.step': 'ಹಂತ {current} / {total}',
+  'walkthrough.dismiss': 'ಮುಚ್ಚಿ',
+  'walkthrough.end': 'ಮುಗಿಸಿ',
+  'walkthrough.startPrompt': '"{title}" ಟೆಂಪ್ಲೇಟ್ ಅನ್ನು ಒಂದೊಂದೇ ಹಂತವಾಗಿ ನನಗೆ ತಿಳಿಸಿ.',
+  'walkthrough.sessionName': 'ಮಾರ್ಗದರ್ಶಿತ: {title}',
+
+  'export.button': 'ಅವಧಿಯನ್ನು ರಫ್ತು ಮಾಡಿ',
+  'export.heading': 'ಅವಧಿಯನ್ನು ರಫ್ತು ಮಾಡಿ',
+  'export.preparing': 'ಸಿದ್ಧಪಡಿಸುತ್ತಿದೆ...',
+  'export.htmlHint': 'ಒಂದೇ ಸ್ವಯಂಪೂರ್ಣ ಫೈಲ್',
+  'export.markdownHint': 'assets ಫೋಲ್ಡರ್ ಸಹಿತ .zip',
+  'export.pdfHint': 'ಮುದ್ರಣಕ್ಕೆ ತಕ್ಕ ವಿನ್ಯಾಸ',
+
+  'gate.revealed': 'ನಿಮ್ಮ ಪ್ರಯತ್ನದ ನಂತರ ಪೂರ್ಣ ಪರಿಹಾರ ತೋರಿಸಲಾಗಿದೆ',
+  'gate.code': 'ಒಂದು ಪೂರ್ಣ ಪ್ರೋಗ್ರಾಂ',
+  'gate.proof': 'ಒಂದು ಪೂರ್ಣ ಸಾಧನೆ',
+  'gate.and': ' ಮತ್ತು ',
+  'gate.body': 'ಈ ಉತ್ತರದಲ್ಲಿ {kinds} ಇತ್ತು, ಆದ್ದರಿಂದ ಅದನ್ನು ಕೇವಲ ಚೌಕಟ್ಟಿಗೆ ಇಳಿಸಲಾಗಿದೆ.',
+  'gate.canReveal': 'ನೀವು ಪ್ರಯತ್ನಿಸಿದ್ದೀರಿ, ಹಾಗಾಗಿ ಈಗ ಅದನ್ನು ಪೂರ್ಣ ಆವೃತ್ತಿಯೊಂದಿಗೆ ಹೋಲಿಸಬಹುದು.',
+  'gate.cannotReveal': 'ಖಾಲಿ ಜಾಗಗಳನ್ನು ನೀವೇ ತುಂಬಿ ನಿಮ್ಮ ಪ್ರಯತ್ನವನ್ನು ಹಂಚಿಕೊಂಡರೆ ಪೂರ್ಣ ಆವೃತ್ತಿ ತೆರೆಯುತ್ತದೆ.',
+  'gate.reveal': 'ಪರಿಹಾರ ತೋರಿಸಿ',
+
+  'error.auth': 'AI ಸೇವೆ API ಕೀಯನ್ನು ಸ್ವೀಕರಿಸಲಿಲ್ಲ.',
+  'error.permission': 'ಈ API ಕೀಯಿಂದ ಆ ಮಾದರಿಯನ್ನು ಬಳಸಲು ಅನುಮತಿ ಇಲ್ಲ. ಪಾವತಿಸಿದ ಪ್ರಾಜೆಕ್ಟ್‌ನ ಕೀಯನ್ನು ಆಯ್ಕೆಮಾಡಿ.',
+  'error.quota': 'AI ಸೇವೆಗೆ ಈಗ ತುಂಬಾ ಹೆಚ್ಚು ವಿನಂತಿಗಳು ಬರುತ್ತಿವೆ.',
+  'error.safety': 'ತನ್ನ ಸುರಕ್ಷತಾ ನಿಯಮಗಳ ಕಾರಣ AI ಸೇವೆ ಇದಕ್ಕೆ ಉತ್ತರಿಸಲಿಲ್ಲ. ನಿಮ್ಮ ಸಂದೇಶವನ್ನು ಬೇರೆ ರೀತಿಯಲ್ಲಿ ಬರೆದು ನೋಡಿ.',
+  'error.network': 'AI ಸೇವೆಯನ್ನು ತಲುಪಲು ಆಗಲಿಲ್ಲ. ನಿಮ್ಮ ಸಂಪರ್ಕವನ್ನು ಪರಿಶೀಲಿಸಿ ಮತ್ತೆ ಪ್ರಯತ್ನಿಸಿ.',
+  'error.timeout': 'AI ಸೇವೆ ಉತ್ತರಿಸಲು ತುಂಬಾ ಸಮಯ ತೆಗೆದುಕೊಂಡಿತು.',
+  'error.invalid_output': 'AI ಸೇವೆ ಕಳುಹಿಸಿದ ಉತ್ತರವನ್ನು ಓದಲು ಆಗಲಿಲ್ಲ.',
+  'error.server': 'AI ಸೇವೆಯಲ್ಲಿ ಈಗ ತೊಂದರೆ ಇದೆ.',
+  'error.unknown': 'AI ಸೇವೆಯನ್ನು ಸಂಪರ್ಕಿಸುವಾಗ ಏನೋ ತಪ್ಪಾಯಿತು.',
+  'error.retryAfter': '{seconds} ಸೆಕೆಂಡುಗಳ ನಂತರ ಮತ್ತೆ ಪ್ರಯತ್ನಿಸಿ.',
+  'error.retry': 'ಮತ್ತೆ ಪ್ರಯತ್ನಿಸಿ',
+  'error.edit': 'ಸಂದೇಶವನ್ನು ಸಂಪಾದಿಸಿ',
+  'error.chooseKey': 'API ಕೀ ಆಯ್ಕೆಮಾಡಿ',
+
+  'mastery.learner': 'ಕಲಿಯುವವರು',
+  'mastery.addLearner': 'ಕಲಿಯುವವರನ್ನು ಸೇರಿಸಿ...',
+  'mastery.emptyTitle': 'ಇನ್ನೂ ಯಾವುದೇ ಪರಿಕಲ್ಪನೆಯನ್ನು ಮೌಲ್ಯಮಾಪನ ಮಾಡಿಲ್ಲ',
+  'mastery.emptyBody': 'Encrypt ನಿಮ್ಮ ತರ್ಕವನ್ನು ಪರಿಶೀಲಿಸುತ್ತಿದ್ದಂತೆ, ಅದು ಮೌಲ್ಯಮಾಪನ ಮಾಡುವ ಪ್ರತಿಯೊಂದು ಪರಿಕಲ್ಪನೆಯೂ ಇಲ್ಲಿ ಕಾಣಿಸುತ್ತದೆ.',
+  'mastery.demonstrated': 'ಸಾಬೀತಾದವು · {count}',
+  'mastery.noneDemonstrated': 'ಇನ್ನೂ ಏನೂ ಸಾಬೀತಾಗಿಲ್ಲ. ಯೋಚಿಸುತ್ತಲೇ ಇರಿ.',
+  'mastery.searching': 'ಇನ್ನೂ ಹುಡುಕುತ್ತಿರುವವು · {count}',
+  'mastery.noneSearching': 'ಮೌಲ್ಯಮಾಪನ ಮಾಡಿದ ಪ್ರತಿಯೊಂದು ಪರಿಕಲ್ಪನೆಯೂ ಸಾಬೀತಾಗಿದೆ.',
+  'mastery.checks_one': '{count} ಪರಿಶೀಲನೆ',
+  'mastery.checks_other': '{count} ಪರಿಶೀಲನೆಗಳು',
+  'mastery.transitions_one': '{count} ಬದಲಾವಣೆ',
+  'mastery.transitions_other': '{count} ಬದಲಾವಣೆಗಳು',
+  'mastery.status.satisfied': 'ತೃಪ್ತಿ',
+  'mastery.status.searching': 'ಹುಡುಕುತ್ತಿದೆ',
+
+  'quiz.title': 'ರಸಪ್ರಶ್ನೆ · {topic}',
+  'quiz.kind.multiple_choice': 'ಒಂದನ್ನು ಆರಿಸಿ',
+  'quiz.kind.ordering': 'ಹಂತಗಳನ್ನು ಕ್ರಮದಲ್ಲಿ ಜೋಡಿಸಿ',
+  'quiz.kind.short_answer': 'ಸಣ್ಣ ಉತ್ತರ',
+  'quiz.correct': 'ಸರಿ',
+  'quiz.partly': 'ಭಾಗಶಃ',
+  'quiz.notYet': 'ಇನ್ನೂ ಇಲ್ಲ',
+  'quiz.placeholder': 'ನಿಮ್ಮ ತರ್ಕವನ್ನು ವಿವರಿಸಿ...',
+  'quiz.grading': 'ಮೌಲ್ಯಮಾಪನ ನಡೆಯುತ್ತಿದೆ...',
+  'quiz.submit': 'ಉತ್ತರಗಳನ್ನು ಸಲ್ಲಿಸಿ',
+
+  'trace.title': 'ಟ್ರೇಸ್ · {title}',
+  'trace.pseudocode': 'ಸೂಡೋಕೋಡ್',
+  'trace.doneEditing': 'ಸಂಪಾದನೆ ಮುಗಿದಿದೆ',
+  'trace.undefined_one': 'ಈ ಟೆಂಪ್ಲೇಟ್ {names} ಅನ್ನು ನೀವು ತುಂಬಲು ಬಿಡುತ್ತದೆ. ಟ್ರೇಸ್ ಮಾಡುವ ಮೊದಲು ಸೂಡೋಕೋಡ್ ಸಂಪಾದಿಸಿ ಅದನ್ನು FUNCTION ಮೂಲಕ ವ್ಯಾಖ್ಯಾನಿಸಿ.',
+  'trace.undefined_other': 'ಈ ಟೆಂಪ್ಲೇಟ್ {names} ಅನ್ನು ನೀವು ತುಂಬಲು ಬಿಡುತ್ತದೆ. ಟ್ರೇಸ್ ಮಾಡುವ ಮೊದಲು ಸೂಡೋಕೋಡ್ ಸಂಪಾದಿಸಿ ಅವುಗಳನ್ನು FUNCTION ಮೂಲಕ ವ್ಯಾಖ್ಯಾನಿಸಿ.',
+  'trace.first': 'ಮೊದಲ ಹಂತ',
+  'trace.back': 'ಒಂದು ಹಂತ ಹಿಂದೆ',
+  'trace.forward': 'ಒಂದು ಹಂತ ಮುಂದೆ',
+  'trace.last': 'ಕೊನೆಯ ಹಂತ',
+  'trace.event.line': 'ಚಾಲನೆಯಲ್ಲಿದೆ',
+  'trace.event.call': 'ಕರೆಯುತ್ತಿದೆ',
+  'trace.event.return': 'ಹಿಂತಿರುಗುತ್ತಿದೆ',
+  'trace.event.done': 'ಮುಗಿದಿದೆ',
+  'trace.event.error': 'ನಿಂತಿದೆ',
+  'trace.line': 'ಸಾಲು {line}',
+  'trace.inputs': 'ಇನ್‌ಪುಟ್‌ಗಳು',
+  'trace.noInputs': 'ಈ ಕೋಡ್‌ಗೆ ಇನ್‌ಪುಟ್‌ಗಳ ಅಗತ್ಯವಿಲ್ಲ.',
+  'trace.inputPlaceholder': 'ಉದಾ. 5 ಅಥವಾ [1, 2, 3]',
+  'trace.restart': 'ಟ್ರೇಸ್ ಮತ್ತೆ ಆರಂಭಿಸಿ',
+  'trace.start': 'ಟ್ರೇಸ್ ಆರಂಭಿಸಿ',
+  'trace.variables': 'ಚರಗಳು',
+  'trace.allReturned': 'ಎಲ್ಲಾ ಕರೆಗಳೂ ಹಿಂತಿರುಗಿವೆ.',
+  'trace.noVariables': 'ಇನ್ನೂ ಯಾವುದೇ ಚರಗಳಿಲ್ಲ.',
+  'trace.callStack': 'ಕಾಲ್ ಸ್ಟ್ಯಾಕ್ · {depth} ಆಳ',
+
+  'report.revision': 'ಪರಿಷ್ಕರಣೆ {revision}',
+  'report.sinceLast': 'ಹಿಂದಿನ ಆವೃತ್ತಿಯಿಂದ {delta}',
+  'report.hiddenTests': 'ಮರೆಮಾಡಿದ ಪರೀಕ್ಷೆಗಳು · {title}',
+  'report.passed': '{passed}/{total} ಉತ್ತೀರ್ಣ',
+  'report.case.pass': 'ಉತ್ತೀರ್ಣ',
+  'report.case.skipped': 'ನಡೆಸಲಿಲ್ಲ',
+  'report.case.timeout': 'ಸಮಯ ಮೀರಿದೆ',
+  'report.case.error': 'ಕ್ರ್ಯಾಶ್ ಆಯಿತು',
+  'report.case.fail': 'ತಪ್ಪು ಫಲಿತಾಂಶ',
+  'report.caseWithHint': '{hint} ನಲ್ಲಿ {outcome}',
+  'runner.invalidFunction': '"{name}" ಮಾನ್ಯ ಫಂಕ್ಷನ್ ಹೆಸರಲ್ಲ.',
+  'runner.compile': 'ಕೋಡ್ ಕಂಪೈಲ್ ಆಗುತ್ತಿಲ್ಲ.',
+  'runner.line': 'ಸಾಲು {line}:',
+  'runner.loadTimeout': 'ಕೋಡ್ ಲೋಡ್ ಆಗಲು ತುಂಬಾ ಸಮಯ ತೆಗೆದುಕೊಂಡಿತು.',
+  'runner.pythonLoadTimeout': 'Python ರನ್‌ಟೈಮ್ ಸಮಯಕ್ಕೆ ಲೋಡ್ ಆಗಲಿಲ್ಲ. ಸಂಪರ್ಕವನ್ನು ಪರಿಶೀಲಿಸಿ ಮತ್ತೆ ಪ್ರಯತ್ನಿಸಿ.',
+  'runner.missingFunction': '"{name}" ಹೆಸರಿನ ಯಾವುದೇ ಫಂಕ್ಷನ್ ವ್ಯಾಖ್ಯಾನಿಸಲಾಗಿಲ್ಲ.',
+  'runner.loadFailed': 'ಲೋಡ್ ಆಗುವಾಗ ಕೋಡ್ ವಿಫಲವಾಯಿತು.',
+  'runner.thrown': 'ಕೋಡ್ ಒಂದು ದೋಷವನ್ನು ನೀಡಿತು.',
+  'runner.timeout': '{seconds} ಸೆಕೆಂಡುಗಳ ನಂತರವೂ ಚಾಲನೆಯಲ್ಲಿದೆ. ಎಂದಿಗೂ ಮುಗಿಯದ ಲೂಪ್ ಇದೆಯೇ?',
+  'runner.resultTooLarge': 'ಫಲಿತಾಂಶ ಹೋಲಿಸಲು ತುಂಬಾ ದೊಡ್ಡದಾಗಿತ್ತು.',
+  'runner.crashed': 'ಕೋಡ್ ಸ್ಯಾಂಡ್‌ಬಾಕ್ಸ್ ಅನ್ನು ಕ್ರ್ಯಾಶ್ ಮಾಡಿತು; ಮೆಮೊರಿ ಖಾಲಿಯಾಗಿರಬಹುದು.',
+  'report.console_one': 'ಕನ್ಸೋಲ್ ಔಟ್‌ಪುಟ್ ({count} ಸಾಲು)',
+  'report.console_other': 'ಕನ್ಸೋಲ್ ಔಟ್‌ಪುಟ್ ({count} ಸಾಲುಗಳು)',
+  'report.compared': 'ಹಿಂದಿನ ಆವೃತ್ತಿಯೊಂದಿಗೆ ಹೋಲಿಕೆ',
+  'report.improved': 'ಏನು ಸುಧಾರಿಸಿದೆ',
+  'report.fixed': 'ಸರಿಪಡಿಸಲಾಗಿದೆ',
+  'report.stillOpen': 'ಇನ್ನೂ ಬಾಕಿ',
+  'report.newIssues': 'ಈ ಬಾರಿ ಹೊಸದು',
+  'report.noDifferences': 'ಕಂಡುಬಂದ ಸಮಸ್ಯೆಗಳಲ್ಲಿ ವ್ಯತ್ಯಾಸವಿಲ್ಲ.',
+  'report.section.strengths': 'ಬಲಗಳು',
+  'report.section.logicalGaps': 'ತಾರ್ಕಿಕ ಕೊರತೆಗಳು',
+  'report.section.misconceptions': 'ತಪ್ಪು ಕಲ್ಪನೆಗಳು',
+  'report.section.unhandledEdgeCases': 'ನಿರ್ವಹಿಸದ ಅಂಚಿನ ಪ್ರಕರಣಗಳು',
+
+  'templateEditor.edit': 'ಟೆಂಪ್ಲೇಟ್ ಸಂಪಾದಿಸಿ · v{version}',
+  'templateEditor.title': 'ಶೀರ್ಷಿಕೆ',
+  'templateEditor.description': 'ಸಂಕ್ಷಿಪ್ತ ವಿವರಣೆ',
+  'templateEditor.content': 'ಟೆಂಪ್ಲೇಟ್ ರಚನೆ...',
+  'templateEditor.tests': 'ಮರೆಮಾಡಿದ ಪರೀಕ್ಷೆಗಳು · {count}',
+  'templateEditor.testsHelp': 'JavaScript, TypeScript ಅಥವಾ Python ಸಲ್ಲಿಕೆಗಳನ್ನು ಇವುಗಳ ಮೇಲೆ ನಡೆಸಲಾಗುತ್ತದೆ. ಆರ್ಗ್ಯುಮೆಂಟ್‌ಗಳು JSON array; ವಿಫಲವಾದ ಪ್ರಕರಣದ ಸುಳಿವನ್ನು ಮಾತ್ರ ವಿದ್ಯಾರ್ಥಿಗಳು ನೋಡುತ್ತಾರೆ.',
+  'templateEditor.functionName': 'ಕರೆಯಬೇಕಾದ ಫಂಕ್ಷನ್, ಉದಾ. binarySearch',
+  'templateEditor.expected': 'ನಿರೀಕ್ಷಿತ, ಉದಾ. 1',
+  'templateEditor.hint': 'ಸುಳಿವು, ಉದಾ. ಕೊನೆಯಲ್ಲಿ ಗುರಿ',
+  'templateEditor.addCase': 'ಪರೀಕ್ಷಾ ಪ್ರಕರಣ ಸೇರಿಸಿ',
+  'templateEditor.invalidTests': 'ಪ್ರತಿ ಪರೀಕ್ಷೆಗೂ ಆರ್ಗ್ಯುಮೆಂಟ್‌ಗಳ JSON array ಮತ್ತು ನಿರೀಕ್ಷಿತ JSON ಮೌಲ್ಯ ಬೇಕು, ಮತ್ತು ಫಂಕ್ಷನ್ ಹೆಸರು ಮಾನ್ಯ identifier ಆಗಿರಬೇಕು.',
+  'templateEditor.history': 'ಆವೃತ್ತಿ ಇತಿಹಾಸ',
+  'templateEditor.restore': 'ಮರುಸ್ಥಾಪಿಸಿ',
+
+  'rubric.edit': 'ರೂಬ್ರಿಕ್ ಸಂಪಾದಿಸಿ',
+  'rubric.new': 'ಹೊಸ ರೂಬ್ರಿಕ್',
+  'rubric.name': 'ರೂಬ್ರಿಕ್ ಹೆಸರು, ಉದಾ. ವಾರ 4: ವಿಂಗಡಣೆ',
+  'rubric.criteria': 'ಮಾನದಂಡಗಳು · {total} ಅಂಕಗಳು',
+  'rubric.addCriterion': 'ಮಾನದಂಡ ಸೇರಿಸಿ',
+  'rubric.criterion': 'ಮಾನದಂಡ',
+  'rubric.max': 'ಗರಿಷ್ಠ',
+  'rubric.removeCriterion': 'ಮಾನದಂಡ ತೆಗೆದುಹಾಕಿ',
+  'rubric.fullMarks': 'ಪೂರ್ಣ ಅಂಕಗಳು ಹೇಗಿರುತ್ತವೆ?',
+  'rubric.confirmDelete': 'ರೂಬ್ರಿಕ್ "{name}" ಅಳಿಸುವುದೇ? ಈಗಿರುವ ವರದಿಗಳ ಅಂಕಗಳು ಹಾಗೇ ಉಳಿಯುತ್ತವೆ.',
+
+  'submission.unsupported': '"{name}" ಬೆಂಬಲಿತವಲ್ಲ. ಮೂಲ ಫೈಲ್‌ಗಳು, ಚಿತ್ರಗಳು (PNG, JPEG, WebP, HEIC), PDF ಗಳು ಅಥವಾ ನಿಮ್ಮ ಯೋಜನೆಯ .zip ಅನ್ನು ಅಪ್‌ಲೋಡ್ ಮಾಡಿ.',
+  'submission.notText': '"{name}" ಪಠ್ಯ ಫೈಲ್‌ನಂತೆ ಕಾಣುತ್ತಿಲ್ಲ.',
+  'submission.archiveUnreadable': '"{name}" ಅನ್ನು zip ಆರ್ಕೈವ್ ಆಗಿ ತೆರೆಯಲು ಆಗಲಿಲ್ಲ.',
+  'submission.archiveEmpty': '"{name}" ಖಾಲಿಯಾಗಿದೆ.',
+  'submission.archiveSkipped_one': '"{name}" ನಲ್ಲಿ ಮೂಲ ಕೋಡ್, ಚಿತ್ರ ಅಥವಾ PDF ಅಲ್ಲದ {count} ಫೈಲ್ ಅನ್ನು ಬಿಡಲಾಗಿದೆ.',
+  'submission.archiveSkipped_other': '"{name}" ನಲ್ಲಿ ಮೂಲ ಕೋಡ್, ಚಿತ್ರಗಳು ಅಥವಾ PDF ಅಲ್ಲದ {count} ಫೈಲ್‌ಗಳನ್ನು ಬಿಡಲಾಗಿದೆ.',
+  'submission.archiveTooLarge': '"{name}" ಗಾತ್ರ {size}; ಆರ್ಕೈವ್‌ಗಳು ಗರಿಷ್ಠ {limit} ಇರಬಹುದು.',
+  'submission.sourceTooLarge': '"{name}" ಗಾತ್ರ {size}; ಮೂಲ ಫೈಲ್‌ಗಳು ಗರಿಷ್ಠ {limit} ಇರಬಹುದು.',
+  'submission.inlineTooLarge': '"{name}" ಗಾತ್ರ {size}; ಚಿತ್ರಗಳು ಮತ್ತು PDF ಗಳು ಗರಿಷ್ಠ {limit} ಇರಬಹುದು.',
+  'submission.tooManyFiles': 'ಒಂದು ಸಲ್ಲಿಕೆಯಲ್ಲಿ ಗರಿಷ್ಠ {max} ಫೈಲ್‌ಗಳಿರಬಹುದು; "{name}" ಸೇರಿಸಲಾಗಿಲ್ಲ.',
+  'submission.overTotal': '"{name}" ಸಲ್ಲಿಕೆಯನ್ನು {limit} ಮೀರಿಸುತ್ತದೆ.',
+  'submission.readFailed': 'ಆ ಫೈಲ್‌ಗಳನ್ನು ಓದಲು ಆಗಲಿಲ್ಲ. ದಯವಿಟ್ಟು ಮತ್ತೆ ಪ್ರಯತ್ನಿಸಿ.',
+  'submission.uploaded': 'ರಚನಾ ವಿಮರ್ಶೆಗಾಗಿ {files} ಅಪ್‌ಲೋಡ್ ಮಾಡಿದ್ದೇನೆ.',
+  'submission.uploadedMore_one': 'ರಚನಾ ವಿಮರ್ಶೆಗಾಗಿ {files} ಮತ್ತು ಇನ್ನೂ {count} ಫೈಲ್ ಅಪ್‌ಲೋಡ್ ಮಾಡಿದ್ದೇನೆ.',
+  'submission.uploadedMore_other': 'ರಚನಾ ವಿಮರ್ಶೆಗಾಗಿ {files} ಮತ್ತು ಇನ್ನೂ {count} ಫೈಲ್‌ಗಳನ್ನು ಅಪ್‌ಲೋಡ್ ಮಾಡಿದ್ದೇನೆ.',
+
+  'code.plainText': 'ಸರಳ ಪಠ್ಯ',
+  'code.detected': 'ಭಾಷೆಯನ್ನು ಸ್ವಯಂಚಾಲಿತವಾಗಿ ಪತ್ತೆಹಚ್ಚಲಾಗಿದೆ',
+  'code.lineNumbers': 'ಸಾಲು ಸಂಖ್ಯೆಗಳು',
+  'code.copy': 'ನಕಲಿಸಿ',
+  'code.copied': 'ನಕಲಿಸಲಾಗಿದೆ',
+  'common.edit': 'ಸಂಪಾದಿಸಿ',
+  'common.new': 'ಹೊಸದು',
+  'common.rename': 'ಹೆಸರು ಬದಲಿಸಿ',
+  'common.delete': 'ಅಳಿಸಿ',
+  'common.remove': 'ತೆಗೆದುಹಾಕಿ',
+  'common.cancel': 'ರದ್ದುಮಾಡಿ',
+  'common.save': 'ಉಳಿಸಿ',
+  'common.saving': 'ಉಳಿಸಲಾಗುತ್ತಿದೆ...',
+  'common.add': 'ಸೇರಿಸಿ',
+  'common.show': 'ತೋರಿಸಿ',
+  'common.hide': 'ಮರೆಮಾಡಿ',
+  'common.copy': 'ನಕಲಿಸಿ',
+};
@@ -0,0 +1,388 @@
+import { Messages } from './en';
+
+export const ml: Messages = {
+  'language.label': 'ഇന്റർഫേസ് ഭാഷ',
+
+  'header.sessions': 'പഠന സെഷനുകൾ',
+  'header.subtitle': 'അനന്തം',
+  'header.satisfied': 'തൃപ്തി',
+  'header.socratic': 'സോക്രട്ടിക്',
+
+  'level.Beginner': 'തുടക്കക്കാർ',
+  'level.Intermediate': 'ഇടത്തരം',
+  'level.Advanced': 'ഉയർന്ന നില',
+  'level.suggested': '{level} നിലയിലേക്ക് മാറാൻ നിങ്ങളുടെ ട്യൂട്ടർ നിർദ്ദേശിക്കുന്നു.',
+  'level.switch': 'മാറ്റുക',
+  'level.keep': 'ഇപ്പോഴത്തേത് തുടരുക',
+  'level.step': '{level}, ഘട്ടം {step}/{steps}',
+  'level.adjusted': 'നിങ്ങളുടെ നില {level} ആയി മാറ്റി.',
+  'level.undo': 'പഴയപടിയാക്കുക',
+  'level.ok': 'ശരി',
+  'level.quizReason': 'നിങ്ങളുടെ ക്വിസ് സ്കോർ {score}%.',
+  'level.mode': 'നില മോഡ്',
+  'level.mode.manual': 'സ്വമേധയാ',
+  'level.mode.suggest': 'അനുയോജ്യം: മാറ്റങ്ങൾ നിർദ്ദേശിക്കുക',
+  'level.mode.auto': 'അനുയോജ്യം: സ്വയം മാറ്റുക',
+  'level.history': 'നില ചരിത്രം',
+  'level.source.manual': 'നിങ്ങൾ തിരഞ്ഞെടുത്തത്',
+  'level.source.diagnostic': 'നിർണയ ചോദ്യങ്ങൾ',
+  'level.source.conversation': 'സംഭാഷണം',
+  'level.source.quiz': 'ക്വിസ്',
+
+  'chat.title': 'യുക്തി പ്രവാഹം',
+  'chat.you': 'നിങ്ങൾ',
+  'chat.stopped': 'നിർത്തി',
+  'chat.placeholder': 'നിങ്ങളുടെ ചിന്തകളുടെ ഘടനയെക്കുറിച്ച് ചർച്ച ചെയ്യൂ...',
+  'chat.stop': 'മറുപടി നിർത്തുക',
+  'chat.pin': 'സന്ദർഭത്തിൽ നിലനിർത്തുക',
+  'chat.unpin': 'സന്ദർഭത്തിൽ നിലനിർത്തുന്നത് നിർത്തുക',
+  'chat.summarized': 'മുൻ സംഭാഷണം സംഗ്രഹിച്ചു',
+  'chat.welcome': 'നമസ്കാരം. ഞാൻ **Encrypt** ആണ്. \n\nഉത്തരങ്ങൾ നേരിട്ട് തരാതെ, സങ്കീർണമായ യുക്തി ഇഴപിരിച്ച് മനസ്സിലാക്കാൻ നിങ്ങളെ സഹായിക്കാനാണ് ഞാൻ ഇവിടെയുള്ളത്.\n\nഎനിക്ക് **English, हिन्दी, తెలుగు, தமிழ்** എന്നിവയും മറ്റ് നിരവധി ഇന്ത്യൻ ഭാഷകളും അറിയാം.\n\nമുകളിൽ നിങ്ങളുടെ അറിവിന്റെ നില തിരഞ്ഞെടുത്ത് പറയൂ: **ഇന്ന് നമ്മൾ ഏത് ആശയമാണ് രൂപപ്പെടുത്തേണ്ടത്?**',
+  'chat.quizFailed': 'ഇപ്പോൾ ക്വിസ് തയ്യാറാക്കാനായില്ല. ദയവായി വീണ്ടും ശ്രമിക്കൂ.',
+  'chat.quizIntro': '**{topic}** നിങ്ങൾക്ക് എത്രത്തോളം മനസ്സിലായി എന്ന് നോക്കാം. ഓരോ ചോദ്യത്തിനും ഉത്തരം നൽകി സമർപ്പിക്കൂ.',
+  'chat.fallbackReply': 'മനസ്സിലായി. ഈ ലോജിക്കിന്റെ ഘടന നമുക്ക് പരിശോധിക്കാം.',
+
+  'action.analogy': 'ഉപമ',
+  'action.analogyPrompt': 'ഇത് ഒരു നിത്യജീവിത ഉപമയിലൂടെ വിശദീകരിക്കൂ.',
+  'action.quiz': 'എന്നെ പരീക്ഷിക്കൂ',
+  'action.realWorld': 'യഥാർത്ഥ ലോകം',
+  'action.realWorldPrompt': 'യഥാർത്ഥ ലോകത്തിലെ ഒരു ആപ്ലിക്കേഷനിൽ ഇത് എങ്ങനെ ഉപയോഗിക്കുന്നു?',
+  'action.visualize': 'ദൃശ്യവൽക്കരിക്കൂ',
+  'action.visualizePrompt': 'ഈ ആശയം വിശദീകരിക്കാൻ ഒരു ചിത്രമോ രേഖാചിത്രമോ നൽകൂ.',
+
+  'hint.stuck': 'ഞാൻ കുടുങ്ങി',
+  'hint.stuckPrompt': 'ഞാൻ കുടുങ്ങിപ്പോയി. എനിക്ക് ഒരു സൂചന തരാമോ?',
+  'hint.badge': 'സൂചന {number}/{max}',
+  'hint.level.nudge': 'ചെറുസൂചന',
+  'hint.level.subproblem': 'ഉപ-പ്രശ്നം',
+  'hint.level.skeleton': 'അസ്ഥികൂടം',
+  'hint.currentProblem': 'നിലവിലെ പ്രശ്നം',
+
+  'tab.visualizer': 'ബ്ലൂപ്രിന്റ്',
+  'tab.templates': 'അറിവ്',
+  'tab.upload': 'സമർപ്പണങ്ങൾ',
+  'tab.image_gen': 'ക്യാൻവാസ്',
+  'tab.mastery': 'പ്രാവീണ്യം',
+
+  'category.All': 'എല്ലാം',
+  'category.Coding': 'കോഡിങ്',
+  'category.Algorithms': 'അൽഗോരിതങ്ങൾ',
+  'category.Mathematics': 'ഗണിതം',
+  'category.Science': 'ശാസ്ത്രം',
+  'category.Writing': 'എഴുത്ത്',
+  'category.Systems': 'സിസ്റ്റങ്ങൾ',
+  'category.Database': 'ഡാറ്റാബേസ്',
+  'category.Philosophy': 'തത്ത്വചിന്ത',
+  'category.Economics': 'സാമ്പത്തികശാസ്ത്രം',
+
+  'templates.search': 'യുക്തി ടെംപ്ലേറ്റുകൾ തിരയൂ...',
+  'templates.new': 'പുതിയ ടെംപ്ലേറ്റ്',
+  'templates.import': 'പാക്ക് ഇംപോർട്ട്',
+  'templates.export': 'പാക്ക് എക്സ്പോർട്ട്',
+  'templates.packName': 'Encrypt ടെംപ്ലേറ്റുകൾ',
+  'templates.categoryPackName': '{category} ടെംപ്ലേറ്റുകൾ',
+  'templates.synthTitle': 'പാറ്റേൺ സൃഷ്ടാവ്',
+  'templates.synthBody': 'ഈ ആശയം കണ്ടെത്തിയില്ല. Encrypt-ന് നിങ്ങൾക്കായി പുതിയ ടെംപ്ലേറ്റ് രൂപപ്പെടുത്താനാകും.',
+  'templates.synthesizing': 'രൂപപ്പെടുത്തുന്നു...',
+  'templates.synthesize': 'യുക്തി സൃഷ്ടിക്കൂ',
+  'templates.hiddenTests_one': '{count} മറഞ്ഞ ടെസ്റ്റ്',
+  'templates.hiddenTests_other': '{count} മറഞ്ഞ ടെസ്റ്റുകൾ',
+  'templates.sessionOnly': 'ഈ സെഷനിൽ മാത്രം',
+  'templates.saveToLibrary': 'ലൈബ്രറിയിൽ സേവ് ചെയ്യൂ',
+  'templates.duplicate': 'പകർപ്പ് ഉണ്ടാക്കൂ',
+  'templates.startGuided': 'ഗൈഡഡ് സെഷൻ തുടങ്ങൂ',
+  'templates.stepThrough': 'ഘട്ടം ഘട്ടമായി ഓടിക്കൂ',
+  'templates.confirmDelete_one': '"{title}" ഉം അതിന്റെ {count} പഴയ പതിപ്പും ഇല്ലാതാക്കണോ?',
+  'templates.confirmDelete_other': '"{title}" ഉം അതിന്റെ {count} പഴയ പതിപ്പുകളും ഇല്ലാതാക്കണോ?',
+
+  'upload.title': 'അസൈൻമെന്റ് അവലോകനം',
+  'upload.body': 'ഘടനാപരമായ വിലയിരുത്തലിനായി നിങ്ങളുടെ യുക്തിയുടെ കരടുകൾ സമർപ്പിക്കൂ: സോഴ്സ് ഫയലുകൾ, പ്രോജക്റ്റിന്റെ .zip, PDF അല്ലെങ്കിൽ കൈയെഴുത്ത് പ്രവൃത്തിയുടെ ഫോട്ടോകൾ.',
+  'upload.browse': 'ഫയലുകൾ തിരഞ്ഞെടുക്കൂ',
+  'upload.addMore': 'കൂടുതൽ ഫയലുകൾ ചേർക്കൂ',
+  'upload.rubric': 'റൂബ്രിക്',
+  'upload.points': '{count} മാർക്ക്',
+  'upload.tests': 'ടെസ്റ്റുകൾ',
+  'upload.noTests': 'മറഞ്ഞ ടെസ്റ്റുകൾ റൺ ചെയ്യേണ്ട',
+  'upload.testCount': '{count} ടെസ്റ്റുകൾ',
+  'upload.testing': 'മറഞ്ഞ ടെസ്റ്റുകൾ റൺ ചെയ്യുന്നു...',
+  'upload.reviewing': 'റൂബ്രിക് അനുസരിച്ച് അവലോകനം ചെയ്യുന്നു...',
+  'upload.reports': 'ഫീഡ്ബാക്ക് റിപ്പോർട്ടുകൾ',
+
+  'canvas.placeholder': 'ഒരു ദൃശ്യം സങ്കൽപ്പിച്ച് എഴുതൂ...',
+  'canvas.size1K': 'സാധാരണ 1K',
+  'canvas.size2K': 'ഹൈ-റെസ് 2K',
+  'canvas.size4K': 'അൾട്രാ-റെസ് 4K',
+  'canvas.generating': 'സങ്കൽപ്പിക്കുന്നു...',
+  'canvas.render': 'ചിത്രം സൃഷ്ടിക്കൂ',
+  'canvas.rendering': 'സൃഷ്ടിക്കുന്നു...',
+  'canvas.append': 'ബ്ലൂപ്രിന്റിൽ ചേർക്കൂ',
+  'canvas.empty': 'ക്യാൻവാസ് ശൂന്യമാണ്',
+  'canvas.generatedAlt': 'സൃഷ്ടിച്ച ആശയ ചിത്രം',
+
+  'nav.workspace': 'പ്രവർത്തനമേഖല',
+
+  'toast.cheat': 'ആദ്യം ചിന്തിക്കൂ! എനിക്ക് നേരിട്ട് കോഡ് തരാനാവില്ല. നമുക്ക് യുക്തിയെക്കുറിച്ച് സംസാരിക്കാം.',
+  'toast.quizNeedsContext': 'ആദ്യം ഒരു ആശയം പരിശോധിക്കാം, പിന്നീട് അതിൽ ഞാൻ നിങ്ങളെ പരീക്ഷിക്കാം.',
+  'toast.gradingFailed': 'മൂല്യനിർണയം പരാജയപ്പെട്ടു. ദയവായി വീണ്ടും സമർപ്പിക്കൂ.',
+  'toast.noSteps': 'ഈ ടെംപ്ലേറ്റിൽ ഘട്ടംഘട്ടമായി പോകാൻ നമ്പറിട്ട ഘട്ടങ്ങളില്ല.',
+  'toast.waitForReply': 'ഇപ്പോഴത്തെ മറുപടി തീരുന്നതുവരെ കാത്തിരിക്കൂ, എന്നിട്ട് ആ ഘട്ടത്തെക്കുറിച്ച് ചോദിക്കൂ.',
+  'toast.rubricSaveFailed': 'റൂബ്രിക് സേവ് ചെയ്യാനായില്ല.',
+  'toast.templateSaveFailed': 'ടെംപ്ലേറ്റ് സേവ് ചെയ്യാനായില്ല.',
+  'toast.packImported': '{added} പുതിയവ ഇംപോർട്ട് ചെയ്തു, {updated} പുതുക്കി.',
+  'toast.packImportedSkipped': '{added} പുതിയവ ഇംപോർട്ട് ചെയ്തു, {updated} പുതുക്കി, അസാധുവായ {skipped} എണ്ണം ഒഴിവാക്കി.',
+  'toast.packImportFailed': 'ടെംപ്ലേറ്റ് പാക്ക് ഇംപോർട്ട് പരാജയപ്പെട്ടു.',
+  'toast.packError.invalidJson': 'ഫയൽ സാധുവായ JSON അല്ല.',
+  'toast.packError.notPack': 'ഈ ഫയൽ ഒരു Encrypt ടെംപ്ലേറ്റ് പാക്ക് അല്ല.',
+  'toast.packError.newerVersion': 'ഈ പാക്ക് Encrypt-ന്റെ പുതിയ പതിപ്പിൽ നിന്ന് എക്സ്പോർട്ട് ചെയ്തതാണ്.',
+  'toast.exportFailed': 'എക്സ്പോർട്ട് പരാജയപ്പെട്ടു. ദയവായി വീണ്ടും ശ്രമിക്കൂ.',
+
+  'visualizer.emptyTitle': 'ദൃശ്യ പ്രവാഹം',
+  'visualizer.emptyBody': 'നിങ്ങൾ Encrypt-മായി സംസാരിക്കുമ്പോൾ, സങ്കീർണമായ യുക്തി വ്യക്തമാക്കുന്ന രേഖാചിത്രങ്ങളും ചിത്രങ്ങളും ഇവിടെ പ്രത്യക്ഷപ്പെടും.',
+  'visualizer.title': 'സജീവ ബ്ലൂപ്രിന്റുകൾ',
+  'visualizer.components_one': '{count} ഘടകം',
+  'visualizer.components_other': '{count} ഘടകങ്ങൾ',
+  'visualizer.footer': 'യുക്തി പ്രവാഹത്തിനൊപ്പം സ്വയം പുതുക്കുന്നു',
+  'visualizer.vision': 'ആശയ ചിത്രം',
+  'visualizer.repaired': 'ശരിയാക്കി',
+  'visualizer.failed': 'പരാജയം',
+  'visualizer.edited': 'തിരുത്തിയത്',
+  'visualizer.repairedTitle_one': '{count} പാഴ്‌സ് പിശകിന് ശേഷം സ്വയം ശരിയാക്കി',
+  'visualizer.repairedTitle_other': '{count} പാഴ്‌സ് പിശകുകൾക്ക് ശേഷം സ്വയം ശരിയാക്കി',
+  'visualizer.failedTitle': 'ഈ ഡയഗ്രത്തിന്റെ ശരിയായ പതിപ്പ് ഉണ്ടാക്കാൻ ട്യൂട്ടർക്ക് കഴിഞ്ഞില്ല',
+  'visualizer.editedTitle': 'മുമ്പത്തെ ബ്ലൂപ്രിന്റിന്റെ നിങ്ങളുടെ പുനരവലോകനം',
+
+  'diagram.syntaxError': 'Mermaid സിന്റാക്സ് പിശക്',
+  'diagram.source': 'ഉറവിടം',
+  'diagram.zoomOut': 'ചെറുതാക്കുക',
+  'diagram.zoomIn': 'വലുതാക്കുക',
+  'diagram.resetView': 'കാഴ്ച പുനഃസജ്ജമാക്കുക',
+  'diagram.action.explain': 'ഈ ഘട്ടം വിശദീകരിക്കൂ',
+  'diagram.action.why-branch': 'എന്തുകൊണ്ട് ഈ ശാഖ?',
+  'diagram.action.what-if-fails': 'ഇത് പരാജയപ്പെട്ടാൽ?',
+  'diagram.action.example': 'ഇതിലൂടെ ഒരു ഉദാഹരണം ഓടിച്ചു കാണിക്കൂ',
+
+  'blueprint.label': 'ബ്ലൂപ്രിന്റ് {number}',
+  'blueprint.labelRevision': 'ബ്ലൂപ്രിന്റ് {number} · പതിപ്പ് {revision}',
+  'blueprint.compare': 'താരതമ്യം ചെയ്യുക',
+  'blueprint.revisions': 'പതിപ്പുകൾ',
+  'blueprint.original': 'യഥാർത്ഥം',
+  'blueprint.revision': 'പതിപ്പ് {revision}',
+  'blueprint.source': 'Mermaid ഉറവിടം',
+  'blueprint.preview': 'തത്സമയ പ്രിവ്യൂ',
+  'blueprint.before': 'മുമ്പ്',
+  'blueprint.after': 'ശേഷം',
+  'blueprint.changes': 'മാറ്റങ്ങൾ',
+  'blueprint.legend.added': 'ചേർത്തു',
+  'blueprint.legend.removed': 'നീക്കി',
+  'blueprint.legend.changed': 'പേരുമാറ്റി',
+  'blueprint.pickTwo': 'താരതമ്യം ചെയ്യാൻ രണ്ട് വ്യത്യസ്ത ബ്ലൂപ്രിന്റുകൾ തിരഞ്ഞെടുക്കൂ.',
+  'blueprint.sameStructure': 'ഈ രണ്ട് പതിപ്പുകൾക്കും ഒരേ ഘടനയാണ്.',
+  'blueprint.linesOnly': 'ഫ്ലോചാർട്ടുകൾ മാത്രമേ നോഡ് തിരിച്ച് താരതമ്യം ചെയ്യാനാകൂ; അതിനാൽ മാറിയ ഉറവിട വരികൾ കാണിക്കുന്നു.',
+  'blueprint.change.addedStep': 'ഘട്ടം "{label}" ചേർത്തു',
+  'blueprint.change.removedStep': 'ഘട്ടം "{label}" നീക്കി',
+  'blueprint.change.renamedStep': '"{before}" എന്നതിന്റെ പേര് "{after}" എന്നാക്കി',
+  'blueprint.change.addedLink': 'ലിങ്ക് {link} ചേർത്തു',
+  'blueprint.change.removedLink': 'ലിങ്ക് {link} നീക്കി',
+  'blueprint.change.addedLine': 'വരി ചേർത്തു: {line}',
+  'blueprint.change.removedLine': 'വരി നീക്കി: {line}',
+  'blueprint.unsaved': 'സേവ് ചെയ്യാത്ത മാറ്റങ്ങൾ',
+  'blueprint.savedAsRevisions': 'തിരുത്തലുകൾ പുതിയ പതിപ്പുകളായി സേവ് ചെയ്യപ്പെടുന്നു; യഥാർത്ഥം സ്റ്റാക്കിൽ തന്നെ നിലനിൽക്കും.',
+  'blueprint.saveRevision': 'പതിപ്പ് സേവ് ചെയ്യൂ',
+  'blueprint.changeFirst': 'ആദ്യം ഒരു മാറ്റം വരുത്തൂ',
+  'blueprint.check': 'എന്റെ പതിപ്പ് ശരിയാണോ?',
+  'blueprint.discard': 'ഈ ബ്ലൂപ്രിന്റിലെ സേവ് ചെയ്യാത്ത മാറ്റങ്ങൾ ഉപേക്ഷിക്കണോ?',
+
+  'sessions.title': 'പഠന സെഷനുകൾ',
+  'sessions.new': 'പുതിയ സെഷൻ',
+  'sessions.empty': 'ഇതുവരെ സേവ് ചെയ്ത സെഷനുകളൊന്നുമില്ല.',
+  'sessions.untitled': 'പേരില്ലാത്ത സെഷൻ',
+  'sessions.turns_one': '{count} സംഭാഷണം',
+  'sessions.turns_other': '{count} സംഭാഷണങ്ങൾ',
+
+  'tray.summary': '{count} / {max} ഫയലുകൾ · {limit}-ൽ {size}',
+  'tray.clear': 'മായ്ക്കൂ',
+  'tray.submit': 'അവലോകനത്തിന് സമർപ്പിക്കൂ',
+  'tray.reading': 'ഫയലുകൾ വായിക്കുന്നു...',
+
+  'walkthrough.title': 'മാർഗനിർദേശിത പരിശീലനം',
+  'walkthrough.complete': 'പൂർത്തിയായി',
+  'walkthrough.step': 'ഘട്ടം {current} / {total}',
+  'walkthrough.dismiss': 'അടയ്ക്കൂ',
+  'walkthrough.end': 'അവസാനിപ്പിക്കൂ',
+  'walkthrough.startPrompt': '"{title}" ടെംപ്ലേറ്റിലൂടെ ഓരോ ഘട്ടമായി എന്നെ നയിക്കൂ.',
+  'walkthrough.sessionName': 'ഗൈഡഡ്: {title}',
+
+  'export.button': 'സെഷൻ എക്സ്പോർട്ട് ചെയ്യൂ',
+  'export.heading': 'സെഷൻ എക്സ്പോർട്ട്',
+  'export.preparing': 'തയ്യാറാക്കുന്നു...',
+  'export.htmlHint': 'സ്വയംപൂർണമായ ഒറ്റ ഫയൽ',
+  'export.markdownHint': 'assets ഫോൾഡറോടുകൂടിയ .zip',
+  'export.pdfHint': 'അച്ചടിക്കാൻ അനുയോജ്യമായ ലേഔട്ട്',
+
+  'gate.revealed': 'നിങ്ങളുടെ ശ്രമത്തിനുശേഷം പൂർണ പരിഹാരം കാണിച്ചു',
+  'gate.code': 'ഒരു പൂർണ പ്രോഗ്രാം',
+  'gate.proof': 'ഒരു പൂർണ തെളിവ്',
+  'gate.and': ' കൂടാതെ ',
+  'gate.body': 'ഈ മറുപടിയിൽ {kinds} ഉണ്ടായിരുന്നു, അതിനാൽ അത് ഒരു ചട്ടക്കൂട് മാത്രമായി ചുരുക്കി.',
+  'gate.canReveal': 'നിങ്ങൾ ശ്രമിച്ചുകഴിഞ്ഞു, അതിനാൽ ഇനി അത് പൂർണ പതിപ്പുമായി താരതമ്യം ചെയ്യാം.',
+  'gate.cannotReveal': 'വിട്ടുപോയ ഭാഗങ്ങൾ സ്വയം പൂരിപ്പിച്ച് നിങ്ങളുടെ ശ്രമം പങ്കുവെച്ചാൽ പൂർണ പതിപ്പ് തുറക്കും.',
+  'gate.reveal': 'പരിഹാരം കാണിക്കൂ',
+
+  'error.auth': 'AI സേവനം API കീ സ്വീകരിച്ചില്ല.',
+  'error.permission': 'ഈ API കീ ഉപയോഗിച്ച് ആ മോഡൽ ഉപയോഗിക്കാൻ അനുമതിയില്ല. പണമടച്ച ഒരു പ്രോജക്റ്റിലെ കീ തിരഞ്ഞെടുക്കുക.',
+  'error.quota': 'AI സേവനത്തിന് ഇപ്പോൾ വളരെയധികം അഭ്യർത്ഥനകൾ ലഭിക്കുന്നു.',
+  'error.safety': 'സുരക്ഷാ നിയമങ്ങൾ കാരണം AI സേവനം ഇതിന് മറുപടി നൽകിയില്ല. നിങ്ങളുടെ സന്ദേശം മറ്റൊരു രീതിയിൽ എഴുതി നോക്കൂ.',
+  'error.network': 'AI സേവനവുമായി ബന്ധപ്പെടാനായില്ല. കണക്ഷൻ പരിശോധിച്ച് വീണ്ടും ശ്രമിക്കുക.',
+  'error.timeout': 'AI സേവനം മറുപടി നൽകാൻ വളരെയധികം സമയമെടുത്തു.',
+  'error.invalid_output': 'AI സേവനം അയച്ച മറുപടി വായിക്കാനായില്ല.',
+  'error.server': 'AI സേവനത്തിൽ ഇപ്പോൾ ഒരു പ്രശ്നമുണ്ട്.',
+  'error.unknown': 'AI സേവനവുമായി ബന്ധപ്പെടുമ്പോൾ എന്തോ പിശക് സംഭവിച്ചു.',
+  'error.retryAfter': '{seconds} സെക്കൻഡിന് ശേഷം വീണ്ടും ശ്രമിക്കുക.',
+  'error.retry': 'വീണ്ടും ശ്രമിക്കുക',
+  'error.edit': 'സന്ദേശം തിരുത്തുക',
+  'error.chooseKey': 'API കീ തിരഞ്ഞെടുക്കുക',
+
+  'mastery.learner': 'പഠിതാവ്',
+  'mastery.addLearner': 'പഠിതാവിനെ ചേർക്കൂ...',
+  'mastery.emptyTitle': 'ഇതുവരെ ഒരു ആശയവും വിലയിരുത്തിയിട്ടില്ല',
+  'mastery.emptyBody': 'Encrypt നിങ്ങളുടെ യുക്തി പരിശോധിക്കുമ്പോൾ, അത് വിലയിരുത്തുന്ന ഓരോ ആശയവും ഇവിടെ കാണാം.',
+  'mastery.demonstrated': 'തെളിയിച്ചവ · {count}',
+  'mastery.noneDemonstrated': 'ഇതുവരെ ഒന്നും തെളിയിച്ചിട്ടില്ല. ചിന്തിച്ചുകൊണ്ടേയിരിക്കൂ.',
+  'mastery.searching': 'ഇപ്പോഴും തിരയുന്നവ · {count}',
+  'mastery.noneSearching': 'വിലയിരുത്തിയ എല്ലാ ആശയങ്ങളും തെളിയിച്ചുകഴിഞ്ഞു.',
+  'mastery.checks_one': '{count} പരിശോധന',
+  'mastery.checks_other': '{count} പരിശോധനകൾ',
+  'mastery.transitions_one': '{count} മാറ്റം',
+  'mastery.transitions_other': '{count} മാറ്റങ്ങൾ',
+  'mastery.status.satisfied': 'തൃപ്തി',
+  'mastery.status.searching': 'തിരയുന്നു',
+
+  'quiz.title': 'ക്വിസ് · {topic}',
+  'quiz.kind.multiple_choice': 'ഒന്ന് തിരഞ്ഞെടുക്കൂ',
+  'quiz.kind.ordering': 'ഘട്ടങ്ങൾ ക്രമത്തിലാക്കൂ',
+  'quiz.kind.short_answer': 'ചെറിയ ഉത്തരം',
+  'quiz.correct': 'ശരി',
+  'quiz.partly': 'ഭാഗികം',
+  'quiz.notYet': 'ഇതുവരെ ഇല്ല',
+  'quiz.placeholder': 'നിങ്ങളുടെ യുക്തി വിശദീകരിക്കൂ...',
+  'quiz.grading': 'വിലയിരുത്തുന്നു...',
+  'quiz.submit': 'ഉത്തരങ്ങൾ സമർപ്പിക്കൂ',
+
+  'trace.title': 'ട്രേസ് · {title}',
+  'trace.pseudocode': 'സ്യൂഡോകോഡ്',
+  'trace.doneEditing': 'തിരുത്തൽ കഴിഞ്ഞു',
+  'trace.undefined_one': 'ഈ ടെംപ്ലേറ്റ് {names} നിങ്ങൾക്ക് പൂരിപ്പിക്കാൻ വിടുന്നു. ട്രേസ് ചെയ്യുന്നതിന് മുമ്പ് സ്യൂഡോകോഡ് തിരുത്തി അത് FUNCTION ഉപയോഗിച്ച് നിർവചിക്കൂ.',
+  'trace.undefined_other': 'ഈ ടെംപ്ലേറ്റ് {names} നിങ്ങൾക്ക് പൂരിപ്പിക്കാൻ വിടുന്നു. ട്രേസ് ചെയ്യുന്നതിന് മുമ്പ് സ്യൂഡോകോഡ് തിരുത്തി അവ FUNCTION ഉപയോഗിച്ച് നിർവചിക്കൂ.',
+  'trace.first': 'ആദ്യ ഘട്ടം',
+  'trace.back': 'ഒരു ഘട്ടം പിന്നോട്ട്',
+  'trace.forward': 'ഒരു ഘട്ടം മുന്നോട്ട്',
+  'trace.last': 'അവസാന ഘട്ടം',
+  'trace.event.line': 'പ്രവർത്തിക്കുന്നു',
+  'trace.event.call': 'വിളിക്കുന്നു',
+  'trace.event.return': 'തിരികെ നൽകുന്നു',
+  'trace.event.done': 'പൂർത്തിയായി',
+  'trace.event.error': 'നിന്നു',
+  'trace.line': 'വരി {line}',
+  'trace.inputs': 'ഇൻപുട്ടുകൾ',
+  'trace.noInputs': 'ഈ കോഡിന് ഇൻപുട്ടുകൾ ആവശ്യമില്ല.',
+  'trace.inputPlaceholder': 'ഉദാ. 5 അല്ലെങ്കിൽ [1, 2, 3]',
+  'trace.restart': 'ട്രേസ് വീണ്ടും തുടങ്ങൂ',
+  'trace.start': 'ട്രേസ് തുടങ്ങൂ',
+  'trace.variables': 'വേരിയബിളുകൾ',
+  'trace.allReturned': 'എല്ലാ കോളുകളും തിരികെ വന്നു.',
+  'trace.noVariables': 'ഇതുവരെ വേരിയബിളുകൾ ഇല്ല.',
+  'trace.callStack': 'കോൾ സ്റ്റാക്ക് · {depth} ആഴം',
+
+  'report.revision': 'പതിപ്പ് {revision}',
+  'report.sinceLast': 'കഴിഞ്ഞ പതിപ്പിൽ നിന്ന് {delta}',
+  'report.hiddenTests': 'മറഞ്ഞ ടെസ്റ്റുകൾ · {title}',
+  'report.passed': '{passed}/{total} വിജയിച്ചു',
+  'report.case.pass': 'വിജയിച്ചു',
+  'report.case.skipped': 'ഓടിച്ചില്ല',
+  'report.case.timeout': 'സമയം കഴിഞ്ഞു',
+  'report.case.error': 'ക്രാഷായി',
+  'report.case.fail': 'തെറ്റായ ഫലം',
+  'report.caseWithHint': '{hint} എന്നതിൽ {outcome}',
+  'runner.invalidFunction': '"{name}" സാധുവായ ഫംഗ്ഷൻ പേരല്ല.',
+  'runner.compile': 'കോഡ് കംപൈൽ ആകുന്നില്ല.',
+  'runner.line': 'വരി {line}:',
+  'runner.loadTimeout': 'കോഡ് ലോഡ് ആകാൻ വളരെയധികം സമയമെടുത്തു.',
+  'runner.pythonLoadTimeout': 'Python റൺടൈം സമയത്ത് ലോഡ് ആയില്ല. കണക്ഷൻ പരിശോധിച്ച് വീണ്ടും ശ്രമിക്കൂ.',
+  'runner.missingFunction': '"{name}" എന്ന പേരിൽ ഒരു ഫംഗ്ഷനും നിർവചിച്ചിട്ടില്ല.',
+  'runner.loadFailed': 'ലോഡ് ചെയ്യുമ്പോൾ കോഡ് പരാജയപ്പെട്ടു.',
+  'runner.thrown': 'കോഡ് ഒരു പിശക് ഉണ്ടാക്കി.',
+  'runner.timeout': '{seconds} സെക്കൻഡ് കഴിഞ്ഞിട്ടും പ്രവർത്തിക്കുന്നു. ഒരിക്കലും അവസാനിക്കാത്ത ലൂപ്പ് ഉണ്ടോ?',
+  'runner.resultTooLarge': 'താരതമ്യം ചെയ്യാൻ കഴിയാത്തത്ര വലുതായിരുന്നു ഫലം.',
+  'runner.crashed': 'കോഡ് സാൻഡ്‌ബോക്സിനെ ക്രാഷ് ചെയ്തു; മെമ്മറി തീർന്നിരിക്കാം.',
+  'report.console_one': 'കൺസോൾ ഔട്ട്‌പുട്ട് ({count} വരി)',
+  'report.console_other': 'കൺസോൾ ഔട്ട്‌പുട്ട് ({count} വരികൾ)',
+  'report.compared': 'മുമ്പത്തെ പതിപ്പുമായി താരതമ്യം',
+  'report.improved': 'എന്ത് മെച്ചപ്പെട്ടു',
+  'report.fixed': 'പരിഹരിച്ചവ',
+  'report.stillOpen': 'ഇപ്പോഴും ബാക്കി',
+  'report.newIssues': 'ഇത്തവണ പുതിയവ',
+  'report.noDifferences': 'കണ്ടെത്തിയ പ്രശ്നങ്ങളിൽ വ്യത്യാസമില്ല.',
+  'report.section.strengths': 'ശക്തികൾ',
+  'report.section.logicalGaps': 'യുക്തിപരമായ വിടവുകൾ',
+  'report.section.misconceptions': 'തെറ്റിദ്ധാരണകൾ',
+  'report.section.unhandledEdgeCases': 'കൈകാര്യം ചെയ്യാത്ത എഡ്ജ് കേസുകൾ',
+
+  'templateEditor.edit': 'ടെംപ്ലേറ്റ് തിരുത്തൂ · v{version}',
+  'templateEditor.title': 'തലക്കെട്ട്',
+  'templateEditor.description': 'ചെറിയ വിവരണം',
+  'templateEditor.content': 'ടെംപ്ലേറ്റ് ഘടന...',
+  'templateEditor.tests': 'മറഞ്ഞ ടെസ്റ്റുകൾ · {count}',
+  'templateEditor.testsHelp': 'JavaScript, TypeScript അല്ലെങ്കിൽ Python സമർപ്പണങ്ങൾ ഇവയ്‌ക്കെതിരെ ഓടിക്കുന്നു. ആർഗ്യുമെന്റുകൾ ഒരു JSON array ആണ്; പരാജയപ്പെട്ട കേസിന്റെ സൂചന മാത്രമേ വിദ്യാർത്ഥികൾ കാണൂ.',
+  'templateEditor.functionName': 'വിളിക്കേണ്ട ഫംഗ്ഷൻ, ഉദാ. binarySearch',
+  'templateEditor.expected': 'പ്രതീക്ഷിക്കുന്നത്, ഉദാ. 1',
+  'templateEditor.hint': 'സൂചന, ഉദാ. ലക്ഷ്യം അവസാനം',
+  'templateEditor.addCase': 'ടെസ്റ്റ് കേസ് ചേർക്കൂ',
+  'templateEditor.invalidTests': 'ഓരോ ടെസ്റ്റിനും ആർഗ്യുമെന്റുകളുടെ JSON array-യും പ്രതീക്ഷിക്കുന്ന JSON മൂല്യവും വേണം, ഫംഗ്ഷന്റെ പേര് സാധുവായ identifier ആയിരിക്കണം.',
+  'templateEditor.history': 'പതിപ്പ് ചരിത്രം',
+  'templateEditor.restore': 'പുനഃസ്ഥാപിക്കൂ',
+
+  'rubric.edit': 'റൂബ്രിക് തിരുത്തൂ',
+  'rubric.new': 'പുതിയ റൂബ്രിക്',
+  'rubric.name': 'റൂബ്രിക്കിന്റെ പേര്, ഉദാ. ആഴ്ച 4: സോർട്ടിംഗ്',
+  'rubric.criteria': 'മാനദണ്ഡങ്ങൾ · {total} പോയിന്റ്',
+  'rubric.addCriterion': 'മാനദണ്ഡം ചേർക്കൂ',
+  'rubric.criterion': 'മാനദണ്ഡം',
+  'rubric.max': 'പരമാവധി',
+  'rubric.removeCriterion': 'മാനദണ്ഡം നീക്കൂ',
+  'rubric.fullMarks': 'മുഴുവൻ മാർക്ക് എങ്ങനെയിരിക്കും?',
+  'rubric.confirmDelete': 'റൂബ്രിക് "{name}" ഇല്ലാതാക്കണോ? നിലവിലുള്ള റിപ്പോർട്ടുകളുടെ സ്കോറുകൾ അതേപടി നിലനിൽക്കും.',
+
+  'submission.unsupported': '"{name}" പിന്തുണയ്ക്കുന്നില്ല. സോഴ്‌സ് ഫയലുകൾ, ചിത്രങ്ങൾ (PNG, JPEG, WebP, HEIC), PDF-കൾ അല്ലെങ്കിൽ നിങ്ങളുടെ പ്രോജക്റ്റിന്റെ .zip അപ്‌ലോഡ് ചെയ്യൂ.',
+  'submission.notText': '"{name}" ഒരു ടെക്സ്റ്റ് ഫയലായി തോന്നുന്നില്ല.',
+  'submission.archiveUnreadable': '"{name}" ഒരു zip ആർക്കൈവായി തുറക്കാനായില്ല.',
+  'submission.archiveEmpty': '"{name}" ശൂന്യമാണ്.',
+  'submission.archiveSkipped_one': '"{name}" ലെ സോഴ്‌സ് കോഡോ ചിത്രമോ PDF-ഓ അല്ലാത്ത {count} ഫയൽ ഒഴിവാക്കി.',
+  'submission.archiveSkipped_other': '"{name}" ലെ സോഴ്‌സ് കോഡോ ചിത്രങ്ങളോ PDF-കളോ അല്ലാത്ത {count} ഫയലുകൾ ഒഴിവാക്കി.',
+  'submission.archiveTooLarge': '"{name}" {size} ആണ്; ആർക്കൈവുകൾ പരമാവധി {limit} ആകാം.',
+  'submission.sourceTooLarge': '"{name}" {size} ആണ്; സോഴ്‌സ് ഫയലുകൾ പരമാവധി {limit} ആകാം.',
+  'submission.inlineTooLarge': '"{name}" {size} ആണ്; ചിത്രങ്ങളും PDF-കളും പരമാവധി {limit} ആകാം.',
+  'submission.tooManyFiles': 'ഒരു സമർപ്പണത്തിൽ പരമാവധി {max} ഫയലുകൾ ആകാം; "{name}" ചേർത്തില്ല.',
+  'submission.overTotal': '"{name}" സമർപ്പണത്തെ {limit} കടത്തും.',
+  'submission.readFailed': 'ആ ഫയലുകൾ വായിക്കാനായില്ല. ദയവായി വീണ്ടും ശ്രമിക്കൂ.',
+  'submission.uploaded': 'ഘടനാ അവലോകനത്തിനായി {files} അപ്‌ലോഡ് ചെയ്തു.',
+  'submission.uploadedMore_one': 'ഘടനാ അവലോകനത്തിനായി {files}, കൂടാതെ {count} ഫയൽ കൂടി അപ്‌ലോഡ് ചെയ്തു.',
+  'submission.uploadedMore_other': 'ഘടനാ അവലോകനത്തിനായി {files}, കൂടാതെ {count} ഫയലുകൾ കൂടി അപ്‌ലോഡ് ചെയ്തു.',
+
+  'code.plainText': 'സാധാരണ ടെക്സ്റ്റ്',
+  'code.detected': 'ഭാഷ സ്വയം കണ്ടെത്തി',
+  'code.lineNumbers': 'വരി നമ്പറുകൾ',
+  'code.copy': 'പകർത്തുക',
+  'code.copied': 'പകർത്തി',
+  'common.edit': 'തിരുത്തൂ',
+  'common.new': 'പുതിയത്',
+  'common.rename': 'പേര് മാറ്റൂ',
+  'common.delete': 'ഇല്ലാതാക്കൂ',
+  'common.remove': 'നീക്കം ചെയ്യൂ',
+  'common.cancel': 'റദ്ദാക്കൂ',
+  'common.save': 'സേവ് ചെയ്യൂ',
+  'common.saving': 'സേവ് ചെയ്യുന്നു...',
+  'common.add': 'ചേർക്കൂ',
+  'common.show': 'കാണിക്കൂ',
+  'common.hide': 'മറയ്ക്കൂ',
+  'common.copy': 'പകർത്തുക',
+};
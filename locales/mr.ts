@@ -0,0 +1,388 @@
+import { Messages } from './en';
+
+export const mr: Messages = {
+  'language.label': 'इंटरफेसची भाषा',
+
+  'header.sessions': 'अभ्यास सत्रे',
+  'header.subtitle': 'अनंत',
+  'header.satisfied': 'समाधानी',
+  'header.socratic': 'सॉक्रेटिक',
+
+  'level.Beginner': 'नवशिका',
+  'level.Intermediate': 'मध्यम',
+  'level.Advanced': 'प्रगत',
+  'level.suggested': 'तुमचे ट्यूटर {level} स्तरावर जाण्याचा सल्ला देत आहेत.',
+  'level.switch': 'बदला',
+  'level.keep': 'सध्याचे ठेवा',
+  'level.step': '{level}, टप्पा {step}/{steps}',
+  'level.adjusted': 'तुमचा स्तर {level} केला आहे.',
+  'level.undo': 'पूर्ववत करा',
+  'level.ok': 'ठीक आहे',
+  'level.quizReason': 'तुमचा क्विझ स्कोअर {score}% आहे.',
+  'level.mode': 'स्तर मोड',
+  'level.mode.manual': 'मॅन्युअल',
+  'level.mode.suggest': 'अनुकूली: बदल सुचवा',
+  'level.mode.auto': 'अनुकूली: आपोआप बदला',
+  'level.history': 'स्तर इतिहास',
+  'level.source.manual': 'तुम्ही निवडलेले',
+  'level.source.diagnostic': 'निदान प्रश्न',
+  'level.source.conversation': 'संवाद',
+  'level.source.quiz': 'क्विझ',
+
+  'chat.title': 'तर्क प्रवाह',
+  'chat.you': 'तुम्ही',
+  'chat.stopped': 'थांबवले',
+  'chat.placeholder': 'तुमच्या विचारांच्या रचनेवर चर्चा करा...',
+  'chat.stop': 'उत्तर तयार करणे थांबवा',
+  'chat.pin': 'संदर्भात ठेवा',
+  'chat.unpin': 'संदर्भात ठेवणे थांबवा',
+  'chat.summarized': 'जुन्या संवादाचा सारांश केला',
+  'chat.welcome': 'नमस्कार. मी **Encrypt** आहे. \n\nथेट उत्तरे न देता गुंतागुंतीचा तर्क उलगडून समजून घेण्यासाठी मी तुमची मदत करेन.\n\nमला **English, हिन्दी, తెలుగు, தமிழ்** आणि इतर अनेक भारतीय भाषा येतात.\n\nवर तुमची ज्ञान पातळी निवडा आणि सांगा: **आज आपण कोणत्या संकल्पनेची रचना करूया?**',
+  'chat.quizFailed': 'आत्ता प्रश्नमंजुषा तयार करता आली नाही. कृपया पुन्हा प्रयत्न करा.',
+  'chat.quizIntro': 'चला, **{topic}** बद्दलची तुमची समज तपासूया. प्रत्येक प्रश्नाचे उत्तर द्या, मग सबमिट करा.',
+  'chat.fallbackReply': 'समजलं. चला या लॉजिकची रचना समजून घेऊया.',
+
+  'action.analogy': 'उपमा',
+  'action.analogyPrompt': 'हे रोजच्या जीवनातील उपमेने समजावून सांगा.',
+  'action.quiz': 'माझी परीक्षा घ्या',
+  'action.realWorld': 'प्रत्यक्ष जग',
+  'action.realWorldPrompt': 'प्रत्यक्ष वापरातील एखाद्या अ‍ॅप्लिकेशनमध्ये हे कसे वापरले जाते?',
+  'action.visualize': 'दृश्य दाखवा',
+  'action.visualizePrompt': 'ही संकल्पना समजावण्यासाठी कृपया एखादे चित्र किंवा आकृती द्या.',
+
+  'hint.stuck': 'मी अडकलो',
+  'hint.stuckPrompt': 'मी अडकलो आहे. मला एक सूचना मिळेल का?',
+  'hint.badge': 'सूचना {number}/{max}',
+  'hint.level.nudge': 'इशारा',
+  'hint.level.subproblem': 'उप-समस्या',
+  'hint.level.skeleton': 'सांगाडा',
+  'hint.currentProblem': 'सध्याचा प्रश्न',
+
+  'tab.visualizer': 'ब्लूप्रिंट',
+  'tab.templates': 'ज्ञान',
+  'tab.upload': 'सबमिशन',
+  'tab.image_gen': 'कॅनव्हास',
+  'tab.mastery': 'प्रावीण्य',
+
+  'category.All': 'सर्व',
+  'category.Coding': 'कोडिंग',
+  'category.Algorithms': 'अल्गोरिदम',
+  'category.Mathematics': 'गणित',
+  'category.Science': 'विज्ञान',
+  'category.Writing': 'लेखन',
+  'category.Systems': 'सिस्टीम्स',
+  'category.Database': 'डेटाबेस',
+  'category.Philosophy': 'तत्त्वज्ञान',
+  'category.Economics': 'अर्थशास्त्र',
+
+  'templates.search': 'तर्क टेम्पलेट शोधा...',
+  'templates.new': 'नवीन टेम्पलेट',
+  'templates.import': 'पॅक आयात करा',
+  'templates.export': 'पॅक निर्यात करा',
+  'templates.packName': 'Encrypt टेम्पलेट्स',
+  'templates.categoryPackName': '{category} टेम्पलेट्स',
+  'templates.synthTitle': 'पॅटर्न संश्लेषक',
+  'templates.synthBody': 'ही संकल्पना सापडली नाही. Encrypt तुमच्यासाठी नवीन टेम्पलेट तयार करू शकतो.',
+  'templates.synthesizing': 'तयार करत आहे...',
+  'templates.synthesize': 'तर्क तयार करा',
+  'templates.hiddenTests_one': '{count} लपवलेली चाचणी',
+  'templates.hiddenTests_other': '{count} लपवलेल्या चाचण्या',
+  'templates.sessionOnly': 'फक्त या सत्रासाठी',
+  'templates.saveToLibrary': 'लायब्ररीत जतन करा',
+  'templates.duplicate': 'प्रत बनवा',
+  'templates.startGuided': 'मार्गदर्शित सत्र सुरू करा',
+  'templates.stepThrough': 'पायरीपायरीने चालवा',
+  'templates.confirmDelete_one': '"{title}" आणि त्याची {count} जुनी आवृत्ती हटवायची?',
+  'templates.confirmDelete_other': '"{title}" आणि त्याच्या {count} जुन्या आवृत्त्या हटवायच्या?',
+
+  'upload.title': 'असाइनमेंट पुनरावलोकन',
+  'upload.body': 'रचनात्मक मूल्यमापनासाठी तुमचे तर्काचे मसुदे सबमिट करा: सोर्स फाइल्स, प्रोजेक्टची .zip, PDF किंवा हाताने लिहिलेल्या कामाचे फोटो.',
+  'upload.browse': 'फाइल्स निवडा',
+  'upload.addMore': 'आणखी फाइल्स जोडा',
+  'upload.rubric': 'रुब्रिक',
+  'upload.points': '{count} गुण',
+  'upload.tests': 'चाचण्या',
+  'upload.noTests': 'लपलेल्या चाचण्या चालवू नका',
+  'upload.testCount': '{count} चाचण्या',
+  'upload.testing': 'लपलेल्या चाचण्या चालू आहेत...',
+  'upload.reviewing': 'रुब्रिकनुसार पुनरावलोकन चालू आहे...',
+  'upload.reports': 'अभिप्राय अहवाल',
+
+  'canvas.placeholder': 'एखाद्या दृश्याची कल्पना लिहा...',
+  'canvas.size1K': 'सामान्य 1K',
+  'canvas.size2K': 'हाय-रेझ 2K',
+  'canvas.size4K': 'अल्ट्रा-रेझ 4K',
+  'canvas.generating': 'कल्पना साकारत आहे...',
+  'canvas.render': 'चित्र तयार करा',
+  'canvas.rendering': 'तयार होत आहे...',
+  'canvas.append': 'ब्लूप्रिंटमध्ये जोडा',
+  'canvas.empty': 'कॅनव्हास रिकामा आहे',
+  'canvas.generatedAlt': 'तयार केलेले संकल्पना चित्र',
+
+  'nav.workspace': 'कार्यक्षेत्र',
+
+  'toast.cheat': 'आधी विचार करा! मी थेट कोड देऊ शकत नाही. चला तर्कावर बोलूया.',
+  'toast.quizNeedsContext': 'आधी एखादी संकल्पना समजून घेऊ, मग मी त्यावर तुमची परीक्षा घेऊ शकतो.',
+  'toast.gradingFailed': 'मूल्यमापन अयशस्वी झाले. कृपया पुन्हा सबमिट करा.',
+  'toast.noSteps': 'या टेम्पलेटमध्ये टप्प्याटप्प्याने जाण्यासाठी क्रमांकित टप्पे नाहीत.',
+  'toast.waitForReply': 'सध्याचे उत्तर पूर्ण होऊ द्या, मग त्या टप्प्याबद्दल विचारा.',
+  'toast.rubricSaveFailed': 'रुब्रिक जतन करता आले नाही.',
+  'toast.templateSaveFailed': 'टेम्पलेट जतन करता आले नाही.',
+  'toast.packImported': '{added} नवीन आयात झाले, {updated} अद्ययावत झाले.',
+  'toast.packImportedSkipped': '{added} नवीन आयात झाले, {updated} अद्ययावत झाले, {skipped} अवैध वगळले.',
+  'toast.packImportFailed': 'टेम्पलेट पॅक आयात अयशस्वी झाला.',
+  'toast.packError.invalidJson': 'फाइल वैध JSON नाही.',
+  'toast.packError.notPack': 'ही फाइल Encrypt टेम्पलेट पॅक नाही.',
+  'toast.packError.newerVersion': 'हा पॅक Encrypt च्या नवीन आवृत्तीतून निर्यात केला आहे.',
+  'toast.exportFailed': 'निर्यात अयशस्वी झाली. कृपया पुन्हा प्रयत्न करा.',
+
+  'visualizer.emptyTitle': 'दृश्य प्रवाह',
+  'visualizer.emptyBody': 'तुम्ही Encrypt शी संवाद साधाल तसतसे गुंतागुंतीचा तर्क स्पष्ट करणाऱ्या आकृत्या आणि चित्रे येथे दिसतील.',
+  'visualizer.title': 'सक्रिय ब्लूप्रिंट',
+  'visualizer.components_one': '{count} घटक',
+  'visualizer.components_other': '{count} घटक',
+  'visualizer.footer': 'तर्क प्रवाहासोबत आपोआप अद्ययावत होते',
+  'visualizer.vision': 'संकल्पनात्मक चित्र',
+  'visualizer.repaired': 'दुरुस्त केले',
+  'visualizer.failed': 'अयशस्वी',
+  'visualizer.edited': 'संपादित',
+  'visualizer.repairedTitle_one': '{count} पार्स त्रुटीनंतर आपोआप दुरुस्त केले',
+  'visualizer.repairedTitle_other': '{count} पार्स त्रुटींनंतर आपोआप दुरुस्त केले',
+  'visualizer.failedTitle': 'ट्यूटरला या आकृतीची योग्य आवृत्ती तयार करता आली नाही',
+  'visualizer.editedTitle': 'आधीच्या ब्लूप्रिंटची तुमची सुधारणा',
+
+  'diagram.syntaxError': 'Mermaid सिंटॅक्स त्रुटी',
+  'diagram.source': 'स्रोत',
+  'diagram.zoomOut': 'लहान करा',
+  'diagram.zoomIn': 'मोठे करा',
+  'diagram.resetView': 'दृश्य रीसेट करा',
+  'diagram.action.explain': 'ही पायरी समजावून सांगा',
+  'diagram.action.why-branch': 'ही शाखा का?',
+  'diagram.action.what-if-fails': 'हे अयशस्वी झाले तर?',
+  'diagram.action.example': 'यातून एक उदाहरण चालवून दाखवा',
+
+  'blueprint.label': 'ब्लूप्रिंट {number}',
+  'blueprint.labelRevision': 'ब्लूप्रिंट {number} · सुधारणा {revision}',
+  'blueprint.compare': 'तुलना करा',
+  'blueprint.revisions': 'सुधारणा',
+  'blueprint.original': 'मूळ',
+  'blueprint.revision': 'सुधारणा {revision}',
+  'blueprint.source': 'Mermaid स्रोत',
+  'blueprint.preview': 'थेट पूर्वावलोकन',
+  'blueprint.before': 'आधी',
+  'blueprint.after': 'नंतर',
+  'blueprint.changes': 'बदल',
+  'blueprint.legend.added': 'जोडले',
+  'blueprint.legend.removed': 'काढले',
+  'blueprint.legend.changed': 'नाव बदलले',
+  'blueprint.pickTwo': 'तुलना करण्यासाठी दोन वेगळे ब्लूप्रिंट निवडा.',
+  'blueprint.sameStructure': 'या दोन आवृत्त्यांची रचना सारखीच आहे.',
+  'blueprint.linesOnly': 'फक्त फ्लोचार्टची नोड-दर-नोड तुलना करता येते; म्हणून बदललेल्या स्रोत ओळी दाखवत आहोत.',
+  'blueprint.change.addedStep': 'पायरी "{label}" जोडली',
+  'blueprint.change.removedStep': 'पायरी "{label}" काढली',
+  'blueprint.change.renamedStep': '"{before}" चे नाव बदलून "{after}" केले',
+  'blueprint.change.addedLink': 'दुवा {link} जोडला',
+  'blueprint.change.removedLink': 'दुवा {link} काढला',
+  'blueprint.change.addedLine': 'ओळ जोडली: {line}',
+  'blueprint.change.removedLine': 'ओळ काढली: {line}',
+  'blueprint.unsaved': 'जतन न केलेले बदल',
+  'blueprint.savedAsRevisions': 'बदल नवीन सुधारणा म्हणून जतन होतात; मूळ स्टॅकमध्ये राहते.',
+  'blueprint.saveRevision': 'सुधारणा जतन करा',
+  'blueprint.changeFirst': 'आधी काहीतरी बदल करा',
+  'blueprint.check': 'माझी आवृत्ती बरोबर आहे का?',
+  'blueprint.discard': 'या ब्लूप्रिंटमधील जतन न केलेले बदल टाकून द्यायचे?',
+
+  'sessions.title': 'अभ्यास सत्रे',
+  'sessions.new': 'नवीन सत्र',
+  'sessions.empty': 'अद्याप कोणतेही जतन केलेले सत्र नाही.',
+  'sessions.untitled': 'नाव नसलेले सत्र',
+  'sessions.turns_one': '{count} संवाद',
+  'sessions.turns_other': '{count} संवाद',
+
+  'tray.summary': '{count} / {max} फाइल्स · {limit} पैकी {size}',
+  'tray.clear': 'काढून टाका',
+  'tray.submit': 'पुनरावलोकनासाठी सबमिट करा',
+  'tray.reading': 'फाइल्स वाचत आहे...',
+
+  'walkthrough.title': 'मार्गदर्शित सराव',
+  'walkthrough.complete': 'पूर्ण',
+  'walkthrough.step': 'टप्पा {current} / {total}',
+  'walkthrough.dismiss': 'बंद करा',
+  'walkthrough.end': 'संपवा',
+  'walkthrough.startPrompt': '"{title}" टेम्पलेटमधून मला एकेक पायरी करून घेऊन चला.',
+  'walkthrough.sessionName': 'मार्गदर्शित: {title}',
+
+  'export.button': 'सत्र निर्यात करा',
+  'export.heading': 'सत्र निर्यात करा',
+  'export.preparing': 'तयार करत आहे...',
+  'export.htmlHint': 'एकच स्वयंपूर्ण फाइल',
+  'export.markdownHint': 'assets फोल्डरसह .zip',
+  'export.pdfHint': 'छपाईसाठी तयार मांडणी',
+
+  'gate.revealed': 'तुमच्या प्रयत्नानंतर पूर्ण उत्तर दाखवले',
+  'gate.code': 'एक पूर्ण प्रोग्राम',
+  'gate.proof': 'एक पूर्ण सिद्धता',
+  'gate.and': ' आणि ',
+  'gate.body': 'या उत्तरात {kinds} होते, म्हणून ते फक्त आराखड्यापुरते मर्यादित केले आहे.',
+  'gate.canReveal': 'तुम्ही प्रयत्न केला आहे, त्यामुळे आता तुम्ही तो पूर्ण आवृत्तीशी ताडून पाहू शकता.',
+  'gate.cannotReveal': 'रिकाम्या जागा स्वतः भरा आणि तुमचा प्रयत्न शेअर करा, मग पूर्ण आवृत्ती उघडेल.',
+  'gate.reveal': 'उत्तर दाखवा',
+
+  'error.auth': 'AI सेवेने API की स्वीकारली नाही.',
+  'error.permission': 'या API कीने ते मॉडेल वापरता येत नाही. सशुल्क प्रोजेक्टची की निवडा.',
+  'error.quota': 'AI सेवेला सध्या खूप जास्त विनंत्या येत आहेत.',
+  'error.safety': 'AI सेवेने तिच्या सुरक्षा नियमांमुळे याचे उत्तर दिले नाही. तुमचा संदेश वेगळ्या शब्दांत लिहून पाहा.',
+  'error.network': 'AI सेवेशी संपर्क होऊ शकला नाही. तुमचे कनेक्शन तपासा आणि पुन्हा प्रयत्न करा.',
+  'error.timeout': 'AI सेवेला उत्तर द्यायला खूप वेळ लागला.',
+  'error.invalid_output': 'AI सेवेकडून आलेले उत्तर वाचता आले नाही.',
+  'error.server': 'AI सेवेत सध्या अडचण आहे.',
+  'error.unknown': 'AI सेवेशी संपर्क करताना काहीतरी चूक झाली.',
+  'error.retryAfter': '{seconds} सेकंदांनी पुन्हा प्रयत्न करा.',
+  'error.retry': 'पुन्हा प्रयत्न करा',
+  'error.edit': 'संदेश संपादित करा',
+  'error.chooseKey': 'API की निवडा',
+
+  'mastery.learner': 'विद्यार्थी',
+  'mastery.addLearner': 'विद्यार्थी जोडा...',
+  'mastery.emptyTitle': 'अजून कोणत्याही संकल्पनेचे मूल्यमापन झालेले नाही',
+  'mastery.emptyBody': 'Encrypt तुमचा तर्क तपासत असताना, मूल्यमापन केलेली प्रत्येक संकल्पना इथे दिसते.',
+  'mastery.demonstrated': 'सिद्ध केलेले · {count}',
+  'mastery.noneDemonstrated': 'अजून काहीही सिद्ध झालेले नाही. विचार करत राहा.',
+  'mastery.searching': 'अजून शोध सुरू · {count}',
+  'mastery.noneSearching': 'मूल्यमापन केलेली प्रत्येक संकल्पना सिद्ध झाली आहे.',
+  'mastery.checks_one': '{count} तपासणी',
+  'mastery.checks_other': '{count} तपासण्या',
+  'mastery.transitions_one': '{count} बदल',
+  'mastery.transitions_other': '{count} बदल',
+  'mastery.status.satisfied': 'समाधानी',
+  'mastery.status.searching': 'शोध सुरू',
+
+  'quiz.title': 'प्रश्नमंजुषा · {topic}',
+  'quiz.kind.multiple_choice': 'एक निवडा',
+  'quiz.kind.ordering': 'पायऱ्या क्रमाने लावा',
+  'quiz.kind.short_answer': 'लहान उत्तर',
+  'quiz.correct': 'बरोबर',
+  'quiz.partly': 'अंशतः',
+  'quiz.notYet': 'अजून नाही',
+  'quiz.placeholder': 'तुमचा तर्क समजावून सांगा...',
+  'quiz.grading': 'तपासत आहे...',
+  'quiz.submit': 'उत्तरे सादर करा',
+
+  'trace.title': 'ट्रेस · {title}',
+  'trace.pseudocode': 'स्यूडोकोड',
+  'trace.doneEditing': 'संपादन पूर्ण',
+  'trace.undefined_one': 'हे टेम्पलेट {names} तुम्ही भरण्यासाठी सोडते. ट्रेस करण्यापूर्वी स्यूडोकोड संपादित करा आणि ते FUNCTION ने परिभाषित करा.',
+  'trace.undefined_other': 'हे टेम्पलेट {names} तुम्ही भरण्यासाठी सोडते. ट्रेस करण्यापूर्वी स्यूडोकोड संपादित करा आणि ते FUNCTION ने परिभाषित करा.',
+  'trace.first': 'पहिली पायरी',
+  'trace.back': 'एक पायरी मागे',
+  'trace.forward': 'एक पायरी पुढे',
+  'trace.last': 'शेवटची पायरी',
+  'trace.event.line': 'चालू आहे',
+  'trace.event.call': 'कॉल करत आहे',
+  'trace.event.return': 'परत येत आहे',
+  'trace.event.done': 'पूर्ण झाले',
+  'trace.event.error': 'थांबले',
+  'trace.line': 'ओळ {line}',
+  'trace.inputs': 'इनपुट',
+  'trace.noInputs': 'या कोडला कोणत्याही इनपुटची गरज नाही.',
+  'trace.inputPlaceholder': 'उदा. 5 किंवा [1, 2, 3]',
+  'trace.restart': 'ट्रेस पुन्हा सुरू करा',
+  'trace.start': 'ट्रेस सुरू करा',
+  'trace.variables': 'व्हेरिएबल',
+  'trace.allReturned': 'सर्व कॉल परत आले आहेत.',
+  'trace.noVariables': 'अजून कोणतेही व्हेरिएबल नाहीत.',
+  'trace.callStack': 'कॉल स्टॅक · {depth} खोल',
+
+  'report.revision': 'सुधारणा {revision}',
+  'report.sinceLast': 'मागील आवृत्तीपासून {delta}',
+  'report.hiddenTests': 'लपवलेल्या चाचण्या · {title}',
+  'report.passed': '{passed}/{total} उत्तीर्ण',
+  'report.case.pass': 'उत्तीर्ण',
+  'report.case.skipped': 'चालवली नाही',
+  'report.case.timeout': 'वेळ संपली',
+  'report.case.error': 'क्रॅश झाले',
+  'report.case.fail': 'चुकीचा निकाल',
+  'report.caseWithHint': '{hint} वर {outcome}',
+  'runner.invalidFunction': '"{name}" हे वैध फंक्शन नाव नाही.',
+  'runner.compile': 'कोड कंपाइल होत नाही.',
+  'runner.line': 'ओळ {line}:',
+  'runner.loadTimeout': 'कोड लोड होण्यास खूप वेळ लागला.',
+  'runner.pythonLoadTimeout': 'Python रनटाइम वेळेत लोड झाला नाही. कनेक्शन तपासा आणि पुन्हा प्रयत्न करा.',
+  'runner.missingFunction': '"{name}" नावाचे कोणतेही फंक्शन लिहिलेले नाही.',
+  'runner.loadFailed': 'लोड होताना कोड अयशस्वी झाला.',
+  'runner.thrown': 'कोडने एक त्रुटी दिली.',
+  'runner.timeout': '{seconds} सेकंदांनंतरही चालू आहे. कधीच न संपणारा लूप आहे का?',
+  'runner.resultTooLarge': 'निकाल तुलना करण्यासाठी खूप मोठा होता.',
+  'runner.crashed': 'कोडमुळे सँडबॉक्स क्रॅश झाला; कदाचित मेमरी संपली असेल.',
+  'report.console_one': 'कन्सोल आउटपुट ({count} ओळ)',
+  'report.console_other': 'कन्सोल आउटपुट ({count} ओळी)',
+  'report.compared': 'मागील आवृत्तीशी तुलना',
+  'report.improved': 'काय सुधारले',
+  'report.fixed': 'दुरुस्त झाले',
+  'report.stillOpen': 'अजून बाकी',
+  'report.newIssues': 'या वेळी नवीन',
+  'report.noDifferences': 'आढळलेल्या समस्यांमध्ये कोणताही फरक नाही.',
+  'report.section.strengths': 'बलस्थाने',
+  'report.section.logicalGaps': 'तार्किक उणिवा',
+  'report.section.misconceptions': 'गैरसमज',
+  'report.section.unhandledEdgeCases': 'न हाताळलेले एज केस',
+
+  'templateEditor.edit': 'टेम्पलेट संपादित करा · v{version}',
+  'templateEditor.title': 'शीर्षक',
+  'templateEditor.description': 'थोडक्यात वर्णन',
+  'templateEditor.content': 'टेम्पलेट रचना...',
+  'templateEditor.tests': 'लपवलेल्या चाचण्या · {count}',
+  'templateEditor.testsHelp': 'JavaScript, TypeScript किंवा Python मधील सबमिशन यांच्यावर चालवले जातात. आर्ग्युमेंट JSON array असतात; विद्यार्थ्यांना अयशस्वी केसचा फक्त संकेत दिसतो.',
+  'templateEditor.functionName': 'कॉल करायचे फंक्शन, उदा. binarySearch',
+  'templateEditor.expected': 'अपेक्षित, उदा. 1',
+  'templateEditor.hint': 'संकेत, उदा. शेवटी लक्ष्य',
+  'templateEditor.addCase': 'टेस्ट केस जोडा',
+  'templateEditor.invalidTests': 'प्रत्येक चाचणीला आर्ग्युमेंटचा JSON array आणि अपेक्षित JSON मूल्य हवे, आणि फंक्शनचे नाव वैध identifier असावे.',
+  'templateEditor.history': 'आवृत्ती इतिहास',
+  'templateEditor.restore': 'पुनर्संचयित करा',
+
+  'rubric.edit': 'रुब्रिक संपादित करा',
+  'rubric.new': 'नवीन रुब्रिक',
+  'rubric.name': 'रुब्रिकचे नाव, उदा. आठवडा 4: सॉर्टिंग',
+  'rubric.criteria': 'निकष · {total} गुण',
+  'rubric.addCriterion': 'निकष जोडा',
+  'rubric.criterion': 'निकष',
+  'rubric.max': 'कमाल',
+  'rubric.removeCriterion': 'निकष काढा',
+  'rubric.fullMarks': 'पूर्ण गुण कसे दिसतात?',
+  'rubric.confirmDelete': 'रुब्रिक "{name}" हटवायचे? सध्याच्या अहवालांचे गुण कायम राहतील.',
+
+  'submission.unsupported': '"{name}" समर्थित नाही. स्रोत फाइल्स, चित्रे (PNG, JPEG, WebP, HEIC), PDF किंवा तुमच्या प्रकल्पाची .zip अपलोड करा.',
+  'submission.notText': '"{name}" मजकूर फाइल वाटत नाही.',
+  'submission.archiveUnreadable': '"{name}" zip आर्काइव्ह म्हणून उघडता आले नाही.',
+  'submission.archiveEmpty': '"{name}" रिकामे आहे.',
+  'submission.archiveSkipped_one': '"{name}" मधील {count} फाइल वगळली जी स्रोत कोड, चित्र किंवा PDF नाही.',
+  'submission.archiveSkipped_other': '"{name}" मधील {count} फाइल्स वगळल्या ज्या स्रोत कोड, चित्रे किंवा PDF नाहीत.',
+  'submission.archiveTooLarge': '"{name}" {size} आहे; आर्काइव्ह जास्तीत जास्त {limit} असू शकतात.',
+  'submission.sourceTooLarge': '"{name}" {size} आहे; स्रोत फाइल्स जास्तीत जास्त {limit} असू शकतात.',
+  'submission.inlineTooLarge': '"{name}" {size} आहे; चित्रे आणि PDF जास्तीत जास्त {limit} असू शकतात.',
+  'submission.tooManyFiles': 'एका सबमिशनमध्ये जास्तीत जास्त {max} फाइल्स असू शकतात; "{name}" जोडली नाही.',
+  'submission.overTotal': '"{name}" मुळे सबमिशन {limit} पेक्षा मोठे होईल.',
+  'submission.readFailed': 'त्या फाइल्स वाचता आल्या नाहीत. कृपया पुन्हा प्रयत्न करा.',
+  'submission.uploaded': 'रचनेच्या पुनरावलोकनासाठी मी {files} अपलोड केले आहे.',
+  'submission.uploadedMore_one': 'रचनेच्या पुनरावलोकनासाठी मी {files} आणि आणखी {count} फाइल अपलोड केली आहे.',
+  'submission.uploadedMore_other': 'रचनेच्या पुनरावलोकनासाठी मी {files} आणि आणखी {count} फाइल्स अपलोड केल्या आहेत.',
+
+  'code.plainText': 'साधा मजकूर',
+  'code.detected': 'भाषा आपोआप ओळखली',
+  'code.lineNumbers': 'ओळ क्रमांक',
+  'code.copy': 'कॉपी करा',
+  'code.copied': 'कॉपी झाले',
+  'common.edit': 'संपादित करा',
+  'common.new': 'नवीन',
+  'common.rename': 'नाव बदला',
+  'common.delete': 'हटवा',
+  'common.remove': 'काढा',
+  'common.cancel': 'रद्द करा',
+  'common.save': 'जतन करा',
+  'common.saving': 'जतन करत आहे...',
+  'common.add': 'जोडा',
+  'common.show': 'दाखवा',
+  'common.hide': 'लपवा',
+  'common.copy': 'कॉपी करा',
+};
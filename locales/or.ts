@@ -0,0 +1,388 @@
+import { Messages } from './en';
+
+export const or: Messages = {
+  'language.label': 'ଇଣ୍ଟରଫେସ୍ ଭାଷା',
+
+  'header.sessions': 'ଅଧ୍ୟୟନ ସେସନ୍',
+  'header.subtitle': 'ଅନନ୍ତ',
+  'header.satisfied': 'ସନ୍ତୁଷ୍ଟ',
+  'header.socratic': 'ସକ୍ରେଟିକ୍',
+
+  'level.Beginner': 'ପ୍ରାରମ୍ଭିକ',
+  'level.Intermediate': 'ମଧ୍ୟମ',
+  'level.Advanced': 'ଉନ୍ନତ',
+  'level.suggested': 'ଆପଣଙ୍କ ଟ୍ୟୁଟର {level} ସ୍ତରକୁ ଯିବାକୁ ପରାମର୍ଶ ଦେଉଛନ୍ତି।',
+  'level.switch': 'ବଦଳାନ୍ତୁ',
+  'level.keep': 'ବର୍ତ୍ତମାନରଟି ରଖନ୍ତୁ',
+  'level.step': '{level}, ପଦକ୍ଷେପ {step}/{steps}',
+  'level.adjusted': 'ଆପଣଙ୍କ ସ୍ତର {level} କରାଯାଇଛି।',
+  'level.undo': 'ପୂର୍ବାବସ୍ଥାକୁ ଫେରାନ୍ତୁ',
+  'level.ok': 'ଠିକ୍ ଅଛି',
+  'level.quizReason': 'ଆପଣଙ୍କ କୁଇଜ୍ ସ୍କୋର {score}%।',
+  'level.mode': 'ସ୍ତର ମୋଡ୍',
+  'level.mode.manual': 'ମାନୁଆଲ୍',
+  'level.mode.suggest': 'ଅନୁକୂଳ: ପରିବର୍ତ୍ତନ ପରାମର୍ଶ ଦିଅନ୍ତୁ',
+  'level.mode.auto': 'ଅନୁକୂଳ: ସ୍ୱୟଂଚାଳିତ ଭାବେ ବଦଳାନ୍ତୁ',
+  'level.history': 'ସ୍ତର ଇତିହାସ',
+  'level.source.manual': 'ଆପଣ ବାଛିଥିବା',
+  'level.source.diagnostic': 'ନିର୍ଣ୍ଣୟ ପ୍ରଶ୍ନ',
+  'level.source.conversation': 'କଥୋପକଥନ',
+  'level.source.quiz': 'କୁଇଜ୍',
+
+  'chat.title': 'ତର୍କ ଧାରା',
+  'chat.you': 'ଆପଣ',
+  'chat.stopped': 'ବନ୍ଦ କରାଗଲା',
+  'chat.placeholder': 'ଆପଣଙ୍କ ଚିନ୍ତାର ଗଠନ ବିଷୟରେ ଆଲୋଚନା କରନ୍ତୁ...',
+  'chat.stop': 'ଉତ୍ତର ବନ୍ଦ କରନ୍ତୁ',
+  'chat.pin': 'ପ୍ରସଙ୍ଗରେ ରଖନ୍ତୁ',
+  'chat.unpin': 'ପ୍ରସଙ୍ଗରେ ରଖିବା ବନ୍ଦ କରନ୍ତୁ',
+  'chat.summarized': 'ପୂର୍ବ କଥୋପକଥନର ସାରାଂଶ କରାଗଲା',
+  'chat.welcome': 'ନମସ୍କାର। ମୁଁ **Encrypt**। \n\nସିଧାସଳଖ ଉତ୍ତର ନ ଦେଇ, ଜଟିଳ ତର୍କକୁ ଖୋଲି ବୁଝିବାରେ ଆପଣଙ୍କୁ ସାହାଯ୍ୟ କରିବା ପାଇଁ ମୁଁ ଏଠାରେ ଅଛି।\n\nମୁଁ **English, हिन्दी, తెలుగు, தமிழ்** ଏବଂ ଆହୁରି ଅନେକ ଭାରତୀୟ ଭାଷା ଜାଣେ।\n\nଉପରେ ଆପଣଙ୍କ ଜ୍ଞାନ ସ୍ତର ବାଛନ୍ତୁ ଏବଂ କୁହନ୍ତୁ: **ଆଜି ଆମେ କେଉଁ ଧାରଣାର ଗଠନ କରିବା?**',
+  'chat.quizFailed': 'ବର୍ତ୍ତମାନ କୁଇଜ୍ ପ୍ରସ୍ତୁତ ହୋଇପାରିଲା ନାହିଁ। ଦୟାକରି ପୁଣି ଚେଷ୍ଟା କରନ୍ତୁ।',
+  'chat.quizIntro': 'ଆସନ୍ତୁ **{topic}** ବିଷୟରେ ଆପଣଙ୍କ ବୁଝାମଣା ଯାଞ୍ଚ କରିବା। ପ୍ରତ୍ୟେକ ପ୍ରଶ୍ନର ଉତ୍ତର ଦିଅନ୍ତୁ, ତା’ପରେ ଦାଖଲ କରନ୍ତୁ।',
+  'chat.fallbackReply': 'ବୁଝିଲି। ଆସ ଏହି ଲଜିକ୍‌ର ଗଠନ ଦେଖିବା।',
+
+  'action.analogy': 'ଉପମା',
+  'action.analogyPrompt': 'ଏହାକୁ ଦୈନନ୍ଦିନ ଜୀବନର ଏକ ଉପମା ଦେଇ ବୁଝାନ୍ତୁ।',
+  'action.quiz': 'ମୋର ପରୀକ୍ଷା ନିଅନ୍ତୁ',
+  'action.realWorld': 'ବାସ୍ତବ ଦୁନିଆ',
+  'action.realWorldPrompt': 'ବାସ୍ତବ ଦୁନିଆର କୌଣସି ଆପ୍ଲିକେସନରେ ଏହା କିପରି ବ୍ୟବହାର ହୁଏ?',
+  'action.visualize': 'ଦୃଶ୍ୟ ଦେଖାନ୍ତୁ',
+  'action.visualizePrompt': 'ଏହି ଧାରଣାକୁ ବୁଝାଇବା ପାଇଁ ଦୟାକରି ଏକ ଛବି ବା ଚିତ୍ର ଦିଅନ୍ତୁ।',
+
+  'hint.stuck': 'ମୁଁ ଅଟକିଗଲି',
+  'hint.stuckPrompt': 'ମୁଁ ଅଟକିଗଲି। ମୋତେ ଗୋଟିଏ ସୂଚନା ମିଳିପାରିବ କି?',
+  'hint.badge': 'ସୂଚନା {number}/{max}',
+  'hint.level.nudge': 'ଇଙ୍ଗିତ',
+  'hint.level.subproblem': 'ଉପ-ସମସ୍ୟା',
+  'hint.level.skeleton': 'ଢାଞ୍ଚା',
+  'hint.currentProblem': 'ବର୍ତ୍ତମାନର ସମସ୍ୟା',
+
+  'tab.visualizer': 'ବ୍ଲୁପ୍ରିଣ୍ଟ',
+  'tab.templates': 'ଜ୍ଞାନ',
+  'tab.upload': 'ଦାଖଲ',
+  'tab.image_gen': 'କ୍ୟାନଭାସ୍',
+  'tab.mastery': 'ଦକ୍ଷତା',
+
+  'category.All': 'ସବୁ',
+  'category.Coding': 'କୋଡିଂ',
+  'category.Algorithms': 'ଆଲଗୋରିଦମ୍',
+  'category.Mathematics': 'ଗଣିତ',
+  'category.Science': 'ବିଜ୍ଞାନ',
+  'category.Writing': 'ଲେଖା',
+  'category.Systems': 'ସିଷ୍ଟମ୍',
+  'category.Database': 'ଡାଟାବେସ୍',
+  'category.Philosophy': 'ଦର୍ଶନ',
+  'category.Economics': 'ଅର୍ଥନୀତି',
+
+  'templates.search': 'ତର୍କ ଟେମ୍ପଲେଟ୍ ଖୋଜନ୍ତୁ...',
+  'templates.new': 'ନୂଆ ଟେମ୍ପଲେଟ୍',
+  'templates.import': 'ପ୍ୟାକ୍ ଆମଦାନୀ',
+  'templates.export': 'ପ୍ୟାକ୍ ରପ୍ତାନି',
+  'templates.packName': 'Encrypt ଟେମ୍ପଲେଟ୍',
+  'templates.categoryPackName': '{category} ଟେମ୍ପଲେଟ୍',
+  'templates.synthTitle': 'ପ୍ୟାଟର୍ନ ନିର୍ମାତା',
+  'templates.synthBody': 'ଏହି ଧାରଣା ମିଳିଲା ନାହିଁ। Encrypt ଆପଣଙ୍କ ପାଇଁ ନୂଆ ଟେମ୍ପଲେଟ୍ ତିଆରି କରିପାରିବ।',
+  'templates.synthesizing': 'ତିଆରି ହେଉଛି...',
+  'templates.synthesize': 'ତର୍କ ତିଆରି କରନ୍ତୁ',
+  'templates.hiddenTests_one': '{count}ଟି ଲୁଚା ପରୀକ୍ଷା',
+  'templates.hiddenTests_other': '{count}ଟି ଲୁଚା ପରୀକ୍ଷା',
+  'templates.sessionOnly': 'କେବଳ ଏହି ସେସନ୍',
+  'templates.saveToLibrary': 'ଲାଇବ୍ରେରୀରେ ସେଭ୍ କରନ୍ତୁ',
+  'templates.duplicate': 'ନକଲ କରନ୍ତୁ',
+  'templates.startGuided': 'ନିର୍ଦ୍ଦେଶିତ ସେସନ୍ ଆରମ୍ଭ କରନ୍ତୁ',
+  'templates.stepThrough': 'ପଦକ୍ଷେପ ଅନୁସାରେ ଚଲାନ୍ତୁ',
+  'templates.confirmDelete_one': '"{title}" ଓ ଏହାର {count}ଟି ପୁରୁଣା ସଂସ୍କରଣ ବିଲୋପ କରିବେ କି?',
+  'templates.confirmDelete_other': '"{title}" ଓ ଏହାର {count}ଟି ପୁରୁଣା ସଂସ୍କରଣ ବିଲୋପ କରିବେ କି?',
+
+  'upload.title': 'ଆସାଇନମେଣ୍ଟ ସମୀକ୍ଷା',
+  'upload.body': 'ଗଠନମୂଳକ ମୂଲ୍ୟାଙ୍କନ ପାଇଁ ଆପଣଙ୍କ ତର୍କର ଖସଡ଼ା ଦାଖଲ କରନ୍ତୁ: ସୋର୍ସ ଫାଇଲ୍, ପ୍ରୋଜେକ୍ଟର .zip, PDF କିମ୍ବା ହାତଲେଖା କାମର ଫଟୋ।',
+  'upload.browse': 'ଫାଇଲ୍ ବାଛନ୍ତୁ',
+  'upload.addMore': 'ଅଧିକ ଫାଇଲ୍ ଯୋଡ଼ନ୍ତୁ',
+  'upload.rubric': 'ରୁବ୍ରିକ୍',
+  'upload.points': '{count} ନମ୍ବର',
+  'upload.tests': 'ପରୀକ୍ଷା',
+  'upload.noTests': 'ଲୁକ୍କାୟିତ ପରୀକ୍ଷା ଚଲାନ୍ତୁ ନାହିଁ',
+  'upload.testCount': '{count}ଟି ପରୀକ୍ଷା',
+  'upload.testing': 'ଲୁକ୍କାୟିତ ପରୀକ୍ଷା ଚାଲିଛି...',
+  'upload.reviewing': 'ରୁବ୍ରିକ୍ ଅନୁସାରେ ସମୀକ୍ଷା ଚାଲିଛି...',
+  'upload.reports': 'ମତାମତ ରିପୋର୍ଟ',
+
+  'canvas.placeholder': 'ଏକ ଦୃଶ୍ୟର କଳ୍ପନା ଲେଖନ୍ତୁ...',
+  'canvas.size1K': 'ସାଧାରଣ 1K',
+  'canvas.size2K': 'ହାଇ-ରେଜ୍ 2K',
+  'canvas.size4K': 'ଅଲଟ୍ରା-ରେଜ୍ 4K',
+  'canvas.generating': 'କଳ୍ପନା ଚାଲିଛି...',
+  'canvas.render': 'ଛବି ତିଆରି କରନ୍ତୁ',
+  'canvas.rendering': 'ତିଆରି ହେଉଛି...',
+  'canvas.append': 'ବ୍ଲୁପ୍ରିଣ୍ଟରେ ଯୋଡ଼ନ୍ତୁ',
+  'canvas.empty': 'କ୍ୟାନଭାସ୍ ଖାଲି ଅଛି',
+  'canvas.generatedAlt': 'ତିଆରି ହୋଇଥିବା ଧାରଣା ଚିତ୍ର',
+
+  'nav.workspace': 'କାର୍ଯ୍ୟକ୍ଷେତ୍ର',
+
+  'toast.cheat': 'ପ୍ରଥମେ ଭାବନ୍ତୁ! ମୁଁ ସିଧାସଳଖ କୋଡ୍ ଦେଇପାରିବି ନାହିଁ। ଆସନ୍ତୁ ତର୍କ ବିଷୟରେ କଥା ହେବା।',
+  'toast.quizNeedsContext': 'ପ୍ରଥମେ ଏକ ଧାରଣା ବୁଝିବା, ତା’ପରେ ମୁଁ ସେଥିରେ ଆପଣଙ୍କ ପରୀକ୍ଷା ନେଇପାରିବି।',
+  'toast.gradingFailed': 'ମୂଲ୍ୟାଙ୍କନ ବିଫଳ ହେଲା। ଦୟାକରି ପୁଣି ଦାଖଲ କରନ୍ତୁ।',
+  'toast.noSteps': 'ଏହି ଟେମ୍ପଲେଟରେ ପାଦେ ପାଦେ ଯିବା ପାଇଁ କ୍ରମିକ ପଦକ୍ଷେପ ନାହିଁ।',
+  'toast.waitForReply': 'ବର୍ତ୍ତମାନର ଉତ୍ତର ଶେଷ ହେବାକୁ ଦିଅନ୍ତୁ, ତା’ପରେ ସେହି ପଦକ୍ଷେପ ବିଷୟରେ ପଚାରନ୍ତୁ।',
+  'toast.rubricSaveFailed': 'ରୁବ୍ରିକ୍ ସଞ୍ଚୟ କରାଯାଇପାରିଲା ନାହିଁ।',
+  'toast.templateSaveFailed': 'ଟେମ୍ପଲେଟ୍ ସଞ୍ଚୟ କରାଯାଇପାରିଲା ନାହିଁ।',
+  'toast.packImported': '{added}ଟି ନୂଆ ଆମଦାନୀ ହେଲା, {updated}ଟି ଅପଡେଟ୍ ହେଲା।',
+  'toast.packImportedSkipped': '{added}ଟି ନୂଆ ଆମଦାନୀ ହେଲା, {updated}ଟି ଅପଡେଟ୍ ହେଲା, {skipped}ଟି ଅବୈଧ ଛାଡ଼ିଦିଆଗଲା।',
+  'toast.packImportFailed': 'ଟେମ୍ପଲେଟ୍ ପ୍ୟାକ୍ ଆମଦାନୀ ବିଫଳ ହେଲା।',
+  'toast.packError.invalidJson': 'ଫାଇଲ୍ ବୈଧ JSON ନୁହେଁ।',
+  'toast.packError.notPack': 'ଏହି ଫାଇଲ୍ Encrypt ଟେମ୍ପଲେଟ୍ ପ୍ୟାକ୍ ନୁହେଁ।',
+  'toast.packError.newerVersion': 'ଏହି ପ୍ୟାକ୍ Encrypt ର ନୂଆ ସଂସ୍କରଣରୁ ରପ୍ତାନି ହୋଇଛି।',
+  'toast.exportFailed': 'ରପ୍ତାନି ବିଫଳ ହେଲା। ଦୟାକରି ପୁଣି ଚେଷ୍ଟା କରନ୍ତୁ।',
+
+  'visualizer.emptyTitle': 'ଦୃଶ୍ୟ ଧାରା',
+  'visualizer.emptyBody': 'ଆପଣ Encrypt ସହ କଥା ହେବା ସହିତ, ଜଟିଳ ତର୍କକୁ ସ୍ପଷ୍ଟ କରୁଥିବା ଚିତ୍ର ଓ ଛବି ଏଠାରେ ଦେଖାଯିବ।',
+  'visualizer.title': 'ସକ୍ରିୟ ବ୍ଲୁପ୍ରିଣ୍ଟ',
+  'visualizer.components_one': '{count}ଟି ଉପାଦାନ',
+  'visualizer.components_other': '{count}ଟି ଉପାଦାନ',
+  'visualizer.footer': 'ତର୍କ ଧାରା ସହ ସ୍ୱୟଂଚାଳିତ ଭାବେ ଅପଡେଟ୍ ହୁଏ',
+  'visualizer.vision': 'ଧାରଣାଗତ ଛବି',
+  'visualizer.repaired': 'ସଂଶୋଧିତ',
+  'visualizer.failed': 'ବିଫଳ',
+  'visualizer.edited': 'ସମ୍ପାଦିତ',
+  'visualizer.repairedTitle_one': '{count}ଟି ପାର୍ସ ତ୍ରୁଟି ପରେ ସ୍ୱୟଂଚାଳିତ ଭାବେ ସଂଶୋଧିତ',
+  'visualizer.repairedTitle_other': '{count}ଟି ପାର୍ସ ତ୍ରୁଟି ପରେ ସ୍ୱୟଂଚାଳିତ ଭାବେ ସଂଶୋଧିତ',
+  'visualizer.failedTitle': 'ଟ୍ୟୁଟର ଏହି ଚିତ୍ରର ଏକ ବୈଧ ସଂସ୍କରଣ ତିଆରି କରିପାରିଲେ ନାହିଁ',
+  'visualizer.editedTitle': 'ପୂର୍ବ ବ୍ଲୁପ୍ରିଣ୍ଟର ଆପଣଙ୍କ ସଂଶୋଧନ',
+
+  'diagram.syntaxError': 'Mermaid ସିଣ୍ଟାକ୍ସ ତ୍ରୁଟି',
+  'diagram.source': 'ଉତ୍ସ',
+  'diagram.zoomOut': 'ଛୋଟ କରନ୍ତୁ',
+  'diagram.zoomIn': 'ବଡ଼ କରନ୍ତୁ',
+  'diagram.resetView': 'ଦୃଶ୍ୟ ରିସେଟ୍ କରନ୍ତୁ',
+  'diagram.action.explain': 'ଏହି ପଦକ୍ଷେପ ବୁଝାନ୍ତୁ',
+  'diagram.action.why-branch': 'ଏହି ଶାଖା କାହିଁକି?',
+  'diagram.action.what-if-fails': 'ଏହା ବିଫଳ ହେଲେ କଣ ହେବ?',
+  'diagram.action.example': 'ଏହା ଦେଇ ଏକ ଉଦାହରଣ ଚଲାଇ ଦେଖାନ୍ତୁ',
+
+  'blueprint.label': 'ବ୍ଲୁପ୍ରିଣ୍ଟ {number}',
+  'blueprint.labelRevision': 'ବ୍ଲୁପ୍ରିଣ୍ଟ {number} · ସଂଶୋଧନ {revision}',
+  'blueprint.compare': 'ତୁଳନା କରନ୍ତୁ',
+  'blueprint.revisions': 'ସଂଶୋଧନଗୁଡ଼ିକ',
+  'blueprint.original': 'ମୂଳ',
+  'blueprint.revision': 'ସଂଶୋଧନ {revision}',
+  'blueprint.source': 'Mermaid ଉତ୍ସ',
+  'blueprint.preview': 'ଲାଇଭ୍ ପ୍ରିଭ୍ୟୁ',
+  'blueprint.before': 'ପୂର୍ବରୁ',
+  'blueprint.after': 'ପରେ',
+  'blueprint.changes': 'ପରିବର୍ତ୍ତନ',
+  'blueprint.legend.added': 'ଯୋଡ଼ାଗଲା',
+  'blueprint.legend.removed': 'ହଟାଗଲା',
+  'blueprint.legend.changed': 'ନାମ ବଦଳାଗଲା',
+  'blueprint.pickTwo': 'ତୁଳନା ପାଇଁ ଦୁଇଟି ଭିନ୍ନ ବ୍ଲୁପ୍ରିଣ୍ଟ ବାଛନ୍ତୁ।',
+  'blueprint.sameStructure': 'ଏହି ଦୁଇ ସଂସ୍କରଣର ଗଠନ ସମାନ।',
+  'blueprint.linesOnly': 'କେବଳ ଫ୍ଲୋଚାର୍ଟର ନୋଡ୍ ଅନୁଯାୟୀ ତୁଳନା ହୋଇପାରେ; ତେଣୁ ବଦଳିଥିବା ଉତ୍ସ ଧାଡ଼ି ଦେଖାଯାଉଛି।',
+  'blueprint.change.addedStep': 'ପଦକ୍ଷେପ "{label}" ଯୋଡ଼ାଗଲା',
+  'blueprint.change.removedStep': 'ପଦକ୍ଷେପ "{label}" ହଟାଗଲା',
+  'blueprint.change.renamedStep': '"{before}"ର ନାମ ବଦଳାଇ "{after}" କରାଗଲା',
+  'blueprint.change.addedLink': 'ଲିଙ୍କ୍ {link} ଯୋଡ଼ାଗଲା',
+  'blueprint.change.removedLink': 'ଲିଙ୍କ୍ {link} ହଟାଗଲା',
+  'blueprint.change.addedLine': 'ଧାଡ଼ି ଯୋଡ଼ାଗଲା: {line}',
+  'blueprint.change.removedLine': 'ଧାଡ଼ି ହଟାଗଲା: {line}',
+  'blueprint.unsaved': 'ସେଭ୍ ହୋଇନଥିବା ପରିବର୍ତ୍ତନ',
+  'blueprint.savedAsRevisions': 'ସମ୍ପାଦନା ନୂଆ ସଂଶୋଧନ ଭାବେ ସେଭ୍ ହୁଏ; ମୂଳଟି ଷ୍ଟାକ୍‌ରେ ରହେ।',
+  'blueprint.saveRevision': 'ସଂଶୋଧନ ସେଭ୍ କରନ୍ତୁ',
+  'blueprint.changeFirst': 'ପ୍ରଥମେ କିଛି ପରିବର୍ତ୍ତନ କରନ୍ତୁ',
+  'blueprint.check': 'ମୋ ସଂସ୍କରଣ ଠିକ୍ କି?',
+  'blueprint.discard': 'ଏହି ବ୍ଲୁପ୍ରିଣ୍ଟର ସେଭ୍ ହୋଇନଥିବା ପରିବର୍ତ୍ତନ ବାତିଲ କରିବେ କି?',
+
+  'sessions.title': 'ଅଧ୍ୟୟନ ସେସନ୍',
+  'sessions.new': 'ନୂଆ ସେସନ୍',
+  'sessions.empty': 'ଏପର୍ଯ୍ୟନ୍ତ କୌଣସି ସଞ୍ଚିତ ସେସନ୍ ନାହିଁ।',
+  'sessions.untitled': 'ନାମହୀନ ସେସନ୍',
+  'sessions.turns_one': '{count}ଟି କଥୋପକଥନ',
+  'sessions.turns_other': '{count}ଟି କଥୋପକଥନ',
+
+  'tray.summary': '{count} / {max} ଫାଇଲ୍ · {limit} ମଧ୍ୟରୁ {size}',
+  'tray.clear': 'ସଫା କରନ୍ତୁ',
+  'tray.submit': 'ସମୀକ୍ଷା ପାଇଁ ଦାଖଲ କରନ୍ତୁ',
+  'tray.reading': 'ଫାଇଲ୍ ପଢ଼ାଯାଉଛି...',
+
+  'walkthrough.title': 'ମାର୍ଗଦର୍ଶିତ ଅଭ୍ୟାସ',
+  'walkthrough.complete': 'ସମ୍ପୂର୍ଣ୍ଣ',
+  'walkthrough.step': 'ପଦକ୍ଷେପ {current} / {total}',
+  'walkthrough.dismiss': 'ବନ୍ଦ କରନ୍ତୁ',
+  'walkthrough.end': 'ଶେଷ କରନ୍ତୁ',
+  'walkthrough.startPrompt': '"{title}" ଟେମ୍ପଲେଟ୍‌ରେ ମୋତେ ଗୋଟିଏ ଗୋଟିଏ ପାହାଚରେ ନେଇଚାଲ।',
+  'walkthrough.sessionName': 'ମାର୍ଗଦର୍ଶିତ: {title}',
+
+  'export.button': 'ସେସନ୍ ରପ୍ତାନି କରନ୍ତୁ',
+  'export.heading': 'ସେସନ୍ ରପ୍ତାନି',
+  'export.preparing': 'ପ୍ରସ୍ତୁତ ହେଉଛି...',
+  'export.htmlHint': 'ଗୋଟିଏ ସ୍ୱୟଂସମ୍ପୂର୍ଣ୍ଣ ଫାଇଲ୍',
+  'export.markdownHint': 'assets ଫୋଲ୍ଡର ସହ .zip',
+  'export.pdfHint': 'ଛପା ପାଇଁ ଉପଯୁକ୍ତ ବିନ୍ୟାସ',
+
+  'gate.revealed': 'ଆପଣଙ୍କ ଚେଷ୍ଟା ପରେ ସମ୍ପୂର୍ଣ୍ଣ ସମାଧାନ ଦେଖାଗଲା',
+  'gate.code': 'ଏକ ସମ୍ପୂର୍ଣ୍ଣ ପ୍ରୋଗ୍ରାମ୍',
+  'gate.proof': 'ଏକ ସମ୍ପୂର୍ଣ୍ଣ ପ୍ରମାଣ',
+  'gate.and': ' ଏବଂ ',
+  'gate.body': 'ଏହି ଉତ୍ତରରେ {kinds} ଥିଲା, ତେଣୁ ଏହାକୁ କେବଳ ଏକ ଢାଞ୍ଚାରେ ସୀମିତ କରାଯାଇଛି।',
+  'gate.canReveal': 'ଆପଣ ଚେଷ୍ଟା କରିସାରିଛନ୍ତି, ତେଣୁ ଏବେ ଏହାକୁ ସମ୍ପୂର୍ଣ୍ଣ ସଂସ୍କରଣ ସହ ତୁଳନା କରିପାରିବେ।',
+  'gate.cannotReveal': 'ଖାଲି ସ୍ଥାନଗୁଡ଼ିକ ନିଜେ ପୂରଣ କରି ଆପଣଙ୍କ ଚେଷ୍ଟା ସେୟାର କରନ୍ତୁ, ତା’ପରେ ସମ୍ପୂର୍ଣ୍ଣ ସଂସ୍କରଣ ଖୋଲିବ।',
+  'gate.reveal': 'ସମାଧାନ ଦେଖାନ୍ତୁ',
+
+  'error.auth': 'AI ସେବା API କି ଗ୍ରହଣ କଲା ନାହିଁ।',
+  'error.permission': 'ଏହି API କି ସହିତ ସେହି ମଡେଲ ବ୍ୟବହାର କରିବାର ଅନୁମତି ନାହିଁ। ଏକ ପେଡ୍ ପ୍ରୋଜେକ୍ଟର କି ବାଛନ୍ତୁ।',
+  'error.quota': 'AI ସେବାକୁ ବର୍ତ୍ତମାନ ବହୁତ ଅଧିକ ଅନୁରୋଧ ଆସୁଛି।',
+  'error.safety': 'ସୁରକ୍ଷା ନିୟମ ଯୋଗୁଁ AI ସେବା ଏହାର ଉତ୍ତର ଦେଲା ନାହିଁ। ଆପଣଙ୍କ ସନ୍ଦେଶକୁ ଅନ୍ୟ ଭାବରେ ଲେଖି ଦେଖନ୍ତୁ।',
+  'error.network': 'AI ସେବା ସହ ଯୋଗାଯୋଗ ହୋଇପାରିଲା ନାହିଁ। ଆପଣଙ୍କ ସଂଯୋଗ ଯାଞ୍ଚ କରି ପୁଣି ଚେଷ୍ଟା କରନ୍ତୁ।',
+  'error.timeout': 'AI ସେବା ଉତ୍ତର ଦେବାକୁ ବହୁତ ସମୟ ନେଲା।',
+  'error.invalid_output': 'AI ସେବା ପଠାଇଥିବା ଉତ୍ତର ପଢ଼ାଯାଇପାରିଲା ନାହିଁ।',
+  'error.server': 'AI ସେବାରେ ବର୍ତ୍ତମାନ ସମସ୍ୟା ଅଛି।',
+  'error.unknown': 'AI ସେବା ସହ ଯୋଗାଯୋଗ କରିବା ସମୟରେ କିଛି ଭୁଲ ହେଲା।',
+  'error.retryAfter': '{seconds} ସେକେଣ୍ଡ ପରେ ପୁଣି ଚେଷ୍ଟା କରନ୍ତୁ।',
+  'error.retry': 'ପୁଣି ଚେଷ୍ଟା କରନ୍ତୁ',
+  'error.edit': 'ସନ୍ଦେଶ ସମ୍ପାଦନ କରନ୍ତୁ',
+  'error.chooseKey': 'API କି ବାଛନ୍ତୁ',
+
+  'mastery.learner': 'ଶିକ୍ଷାର୍ଥୀ',
+  'mastery.addLearner': 'ଶିକ୍ଷାର୍ଥୀ ଯୋଡ଼ନ୍ତୁ...',
+  'mastery.emptyTitle': 'ଏପର୍ଯ୍ୟନ୍ତ କୌଣସି ଧାରଣାର ମୂଲ୍ୟାଙ୍କନ ହୋଇନାହିଁ',
+  'mastery.emptyBody': 'Encrypt ଆପଣଙ୍କ ଯୁକ୍ତି ଯାଞ୍ଚ କଲାବେଳେ, ମୂଲ୍ୟାଙ୍କିତ ପ୍ରତ୍ୟେକ ଧାରଣା ଏଠାରେ ଦେଖାଯାଏ।',
+  'mastery.demonstrated': 'ପ୍ରମାଣିତ · {count}',
+  'mastery.noneDemonstrated': 'ଏପର୍ଯ୍ୟନ୍ତ କିଛି ପ୍ରମାଣିତ ହୋଇନାହିଁ। ଭାବୁଥାନ୍ତୁ।',
+  'mastery.searching': 'ଏବେ ବି ଖୋଜା ଚାଲିଛି · {count}',
+  'mastery.noneSearching': 'ମୂଲ୍ୟାଙ୍କିତ ପ୍ରତ୍ୟେକ ଧାରଣା ପ୍ରମାଣିତ ହୋଇସାରିଛି।',
+  'mastery.checks_one': '{count}ଟି ଯାଞ୍ଚ',
+  'mastery.checks_other': '{count}ଟି ଯାଞ୍ଚ',
+  'mastery.transitions_one': '{count}ଟି ପରିବର୍ତ୍ତନ',
+  'mastery.transitions_other': '{count}ଟି ପରିବର୍ତ୍ତନ',
+  'mastery.status.satisfied': 'ସନ୍ତୁଷ୍ଟ',
+  'mastery.status.searching': 'ଖୋଜା ଚାଲିଛି',
+
+  'quiz.title': 'କୁଇଜ୍ · {topic}',
+  'quiz.kind.multiple_choice': 'ଗୋଟିଏ ବାଛନ୍ତୁ',
+  'quiz.kind.ordering': 'ପଦକ୍ଷେପଗୁଡ଼ିକୁ କ୍ରମରେ ସଜାନ୍ତୁ',
+  'quiz.kind.short_answer': 'ସଂକ୍ଷିପ୍ତ ଉତ୍ତର',
+  'quiz.correct': 'ଠିକ୍',
+  'quiz.partly': 'ଆଂଶିକ',
+  'quiz.notYet': 'ଏପର୍ଯ୍ୟନ୍ତ ନୁହେଁ',
+  'quiz.placeholder': 'ଆପଣଙ୍କ ଯୁକ୍ତି ବୁଝାନ୍ତୁ...',
+  'quiz.grading': 'ମୂଲ୍ୟାଙ୍କନ ଚାଲିଛି...',
+  'quiz.submit': 'ଉତ୍ତର ଦାଖଲ କରନ୍ତୁ',
+
+  'trace.title': 'ଟ୍ରେସ୍ · {title}',
+  'trace.pseudocode': 'ସୁଡୋକୋଡ୍',
+  'trace.doneEditing': 'ସମ୍ପାଦନା ଶେଷ',
+  'trace.undefined_one': 'ଏହି ଟେମ୍ପଲେଟ୍ {names} ଆପଣଙ୍କୁ ପୂରଣ କରିବାକୁ ଛାଡ଼ିଛି। ଟ୍ରେସ୍ କରିବା ପୂର୍ବରୁ ସୁଡୋକୋଡ୍ ସମ୍ପାଦନ କରି ଏହାକୁ FUNCTION ସହ ବ୍ୟାଖ୍ୟା କରନ୍ତୁ।',
+  'trace.undefined_other': 'ଏହି ଟେମ୍ପଲେଟ୍ {names} ଆପଣଙ୍କୁ ପୂରଣ କରିବାକୁ ଛାଡ଼ିଛି। ଟ୍ରେସ୍ କରିବା ପୂର୍ବରୁ ସୁଡୋକୋଡ୍ ସମ୍ପାଦନ କରି ସେଗୁଡ଼ିକୁ FUNCTION ସହ ବ୍ୟାଖ୍ୟା କରନ୍ତୁ।',
+  'trace.first': 'ପ୍ରଥମ ପଦକ୍ଷେପ',
+  'trace.back': 'ଗୋଟିଏ ପଦକ୍ଷେପ ପଛକୁ',
+  'trace.forward': 'ଗୋଟିଏ ପଦକ୍ଷେପ ଆଗକୁ',
+  'trace.last': 'ଶେଷ ପଦକ୍ଷେପ',
+  'trace.event.line': 'ଚାଲୁଛି',
+  'trace.event.call': 'କଲ୍ କରୁଛି',
+  'trace.event.return': 'ଫେରୁଛି',
+  'trace.event.done': 'ଶେଷ ହେଲା',
+  'trace.event.error': 'ଅଟକିଗଲା',
+  'trace.line': 'ଧାଡ଼ି {line}',
+  'trace.inputs': 'ଇନପୁଟ୍',
+  'trace.noInputs': 'ଏହି କୋଡ୍‌କୁ କୌଣସି ଇନପୁଟ୍ ଦରକାର ନାହିଁ।',
+  'trace.inputPlaceholder': 'ଯେପରି 5 କିମ୍ବା [1, 2, 3]',
+  'trace.restart': 'ଟ୍ରେସ୍ ପୁଣି ଆରମ୍ଭ କରନ୍ତୁ',
+  'trace.start': 'ଟ୍ରେସ୍ ଆରମ୍ଭ କରନ୍ତୁ',
+  'trace.variables': 'ଭେରିଏବଲ୍',
+  'trace.allReturned': 'ସମସ୍ତ କଲ୍ ଫେରିଆସିଛି।',
+  'trace.noVariables': 'ଏପର୍ଯ୍ୟନ୍ତ କୌଣସି ଭେରିଏବଲ୍ ନାହିଁ।',
+  'trace.callStack': 'କଲ୍ ଷ୍ଟାକ୍ · {depth} ଗଭୀର',
+
+  'report.revision': 'ସଂଶୋଧନ {revision}',
+  'report.sinceLast': 'ପୂର୍ବ ସଂସ୍କରଣଠାରୁ {delta}',
+  'report.hiddenTests': 'ଲୁଚା ପରୀକ୍ଷା · {title}',
+  'report.passed': '{passed}/{total} ପାସ୍',
+  'report.case.pass': 'ପାସ୍',
+  'report.case.skipped': 'ଚଲାଯାଇନାହିଁ',
+  'report.case.timeout': 'ସମୟ ସରିଗଲା',
+  'report.case.error': 'କ୍ରାସ୍ ହେଲା',
+  'report.case.fail': 'ଭୁଲ ଫଳାଫଳ',
+  'report.caseWithHint': '{hint}ରେ {outcome}',
+  'runner.invalidFunction': '"{name}" ଏକ ବୈଧ ଫଙ୍କସନ୍ ନାମ ନୁହେଁ।',
+  'runner.compile': 'କୋଡ୍ କମ୍ପାଇଲ୍ ହେଉନାହିଁ।',
+  'runner.line': 'ଧାଡ଼ି {line}:',
+  'runner.loadTimeout': 'କୋଡ୍ ଲୋଡ୍ ହେବାକୁ ବହୁତ ସମୟ ଲାଗିଲା।',
+  'runner.pythonLoadTimeout': 'Python ରନଟାଇମ୍ ସମୟରେ ଲୋଡ୍ ହେଲା ନାହିଁ। ସଂଯୋଗ ଯାଞ୍ଚ କରି ପୁଣି ଚେଷ୍ଟା କର।',
+  'runner.missingFunction': '"{name}" ନାମରେ କୌଣସି ଫଙ୍କସନ୍ ଲେଖାଯାଇନାହିଁ।',
+  'runner.loadFailed': 'ଲୋଡ୍ ହେବା ସମୟରେ କୋଡ୍ ବିଫଳ ହେଲା।',
+  'runner.thrown': 'କୋଡ୍ ଏକ ତ୍ରୁଟି ଦେଲା।',
+  'runner.timeout': '{seconds} ସେକେଣ୍ଡ ପରେ ବି ଚାଲୁଛି। କୌଣସି ଲୁପ୍ କେବେ ଶେଷ ହେଉନାହିଁ କି?',
+  'runner.resultTooLarge': 'ଫଳାଫଳ ତୁଳନା ପାଇଁ ବହୁତ ବଡ଼ ଥିଲା।',
+  'runner.crashed': 'କୋଡ୍ ସାଣ୍ଡବକ୍ସକୁ କ୍ରାସ୍ କଲା; ବୋଧହୁଏ ମେମୋରୀ ସରିଗଲା।',
+  'report.console_one': 'କନସୋଲ୍ ଆଉଟପୁଟ୍ ({count} ଧାଡ଼ି)',
+  'report.console_other': 'କନସୋଲ୍ ଆଉଟପୁଟ୍ ({count} ଧାଡ଼ି)',
+  'report.compared': 'ପୂର୍ବ ସଂସ୍କରଣ ସହ ତୁଳନା',
+  'report.improved': 'କଣ ଉନ୍ନତ ହେଲା',
+  'report.fixed': 'ଠିକ୍ ହେଲା',
+  'report.stillOpen': 'ଏବେ ବି ବାକି',
+  'report.newIssues': 'ଏଥର ନୂଆ',
+  'report.noDifferences': 'ମିଳିଥିବା ସମସ୍ୟାରେ କୌଣସି ପାର୍ଥକ୍ୟ ନାହିଁ।',
+  'report.section.strengths': 'ଶକ୍ତି',
+  'report.section.logicalGaps': 'ଯୁକ୍ତିଗତ ଫାଙ୍କ',
+  'report.section.misconceptions': 'ଭୁଲ ଧାରଣା',
+  'report.section.unhandledEdgeCases': 'ସମ୍ଭାଳି ନଥିବା ଏଜ୍ କେସ୍',
+
+  'templateEditor.edit': 'ଟେମ୍ପଲେଟ୍ ସମ୍ପାଦନ · v{version}',
+  'templateEditor.title': 'ଶୀର୍ଷକ',
+  'templateEditor.description': 'ସଂକ୍ଷିପ୍ତ ବିବରଣୀ',
+  'templateEditor.content': 'ଟେମ୍ପଲେଟ୍ ଗଠନ...',
+  'templateEditor.tests': 'ଲୁଚା ପରୀକ୍ଷା · {count}',
+  'templateEditor.testsHelp': 'JavaScript, TypeScript କିମ୍ବା Python ରେ ଦାଖଲ କାମ ଏଗୁଡ଼ିକ ଉପରେ ଚଲାଯାଏ। ଆର୍ଗୁମେଣ୍ଟ ଏକ JSON array; ଛାତ୍ରମାନେ ବିଫଳ କେସ୍‌ର କେବଳ ସୂଚନା ଦେଖନ୍ତି।',
+  'templateEditor.functionName': 'କଲ୍ କରିବାକୁ ଥିବା ଫଙ୍କସନ୍, ଯେପରି binarySearch',
+  'templateEditor.expected': 'ଆଶା କରାଯାଉଥିବା, ଯେପରି 1',
+  'templateEditor.hint': 'ସୂଚନା, ଯେପରି ଶେଷରେ ଲକ୍ଷ୍ୟ',
+  'templateEditor.addCase': 'ପରୀକ୍ଷା କେସ୍ ଯୋଡ଼ନ୍ତୁ',
+  'templateEditor.invalidTests': 'ପ୍ରତ୍ୟେକ ପରୀକ୍ଷାରେ ଆର୍ଗୁମେଣ୍ଟର JSON array ଓ ଆଶା କରାଯାଉଥିବା JSON ମୂଲ୍ୟ ଦରକାର, ଏବଂ ଫଙ୍କସନ୍ ନାମ ଏକ ବୈଧ identifier ହେବା ଆବଶ୍ୟକ।',
+  'templateEditor.history': 'ସଂସ୍କରଣ ଇତିହାସ',
+  'templateEditor.restore': 'ପୁନଃସ୍ଥାପନ କରନ୍ତୁ',
+
+  'rubric.edit': 'ରୁବ୍ରିକ୍ ସମ୍ପାଦନ',
+  'rubric.new': 'ନୂଆ ରୁବ୍ରିକ୍',
+  'rubric.name': 'ରୁବ୍ରିକ୍ ନାମ, ଯେପରି ସପ୍ତାହ 4: ସର୍ଟିଂ',
+  'rubric.criteria': 'ମାନଦଣ୍ଡ · {total} ପଏଣ୍ଟ',
+  'rubric.addCriterion': 'ମାନଦଣ୍ଡ ଯୋଡ଼ନ୍ତୁ',
+  'rubric.criterion': 'ମାନଦଣ୍ଡ',
+  'rubric.max': 'ସର୍ବାଧିକ',
+  'rubric.removeCriterion': 'ମାନଦଣ୍ଡ ହଟାନ୍ତୁ',
+  'rubric.fullMarks': 'ପୂର୍ଣ୍ଣ ନମ୍ବର କିପରି ଦେଖାଯାଏ?',
+  'rubric.confirmDelete': 'ରୁବ୍ରିକ୍ "{name}" ବିଲୋପ କରିବେ କି? ବର୍ତ୍ତମାନର ରିପୋର୍ଟର ନମ୍ବର ଅପରିବର୍ତ୍ତିତ ରହିବ।',
+
+  'submission.unsupported': '"{name}" ସମର୍ଥିତ ନୁହେଁ। ଉତ୍ସ ଫାଇଲ୍, ଛବି (PNG, JPEG, WebP, HEIC), PDF କିମ୍ବା ଆପଣଙ୍କ ପ୍ରୋଜେକ୍ଟର .zip ଅପଲୋଡ୍ କରନ୍ତୁ।',
+  'submission.notText': '"{name}" ଏକ ଟେକ୍ସଟ୍ ଫାଇଲ୍ ପରି ଲାଗୁନାହିଁ।',
+  'submission.archiveUnreadable': '"{name}"କୁ zip ଆର୍କାଇଭ୍ ଭାବେ ଖୋଲିହେଲା ନାହିଁ।',
+  'submission.archiveEmpty': '"{name}" ଖାଲି ଅଛି।',
+  'submission.archiveSkipped_one': '"{name}"ରେ {count}ଟି ଫାଇଲ୍ ଛାଡ଼ିଦିଆଗଲା ଯାହା ଉତ୍ସ କୋଡ୍, ଛବି କିମ୍ବା PDF ନୁହେଁ।',
+  'submission.archiveSkipped_other': '"{name}"ରେ {count}ଟି ଫାଇଲ୍ ଛାଡ଼ିଦିଆଗଲା ଯାହା ଉତ୍ସ କୋଡ୍, ଛବି କିମ୍ବା PDF ନୁହେଁ।',
+  'submission.archiveTooLarge': '"{name}" {size}; ଆର୍କାଇଭ୍ ସର୍ବାଧିକ {limit} ହୋଇପାରେ।',
+  'submission.sourceTooLarge': '"{name}" {size}; ଉତ୍ସ ଫାଇଲ୍ ସର୍ବାଧିକ {limit} ହୋଇପାରେ।',
+  'submission.inlineTooLarge': '"{name}" {size}; ଛବି ଓ PDF ସର୍ବାଧିକ {limit} ହୋଇପାରେ।',
+  'submission.tooManyFiles': 'ଗୋଟିଏ ଦାଖଲରେ ସର୍ବାଧିକ {max}ଟି ଫାଇଲ୍ ରହିପାରେ; "{name}" ଯୋଡ଼ାଯାଇନାହିଁ।',
+  'submission.overTotal': '"{name}" ଯୋଡ଼ିଲେ ଦାଖଲ {limit}ରୁ ବଡ଼ ହୋଇଯିବ।',
+  'submission.readFailed': 'ସେହି ଫାଇଲ୍‌ଗୁଡ଼ିକ ପଢ଼ିହେଲା ନାହିଁ। ଦୟାକରି ପୁଣି ଚେଷ୍ଟା କରନ୍ତୁ।',
+  'submission.uploaded': 'ଗଠନ ସମୀକ୍ଷା ପାଇଁ ମୁଁ {files} ଅପଲୋଡ୍ କରିଛି।',
+  'submission.uploadedMore_one': 'ଗଠନ ସମୀକ୍ଷା ପାଇଁ ମୁଁ {files} ଏବଂ ଆଉ {count}ଟି ଫାଇଲ୍ ଅପଲୋଡ୍ କରିଛି।',
+  'submission.uploadedMore_other': 'ଗଠନ ସମୀକ୍ଷା ପାଇଁ ମୁଁ {files} ଏବଂ ଆଉ {count}ଟି ଫାଇଲ୍ ଅପଲୋଡ୍ କରିଛି।',
+
+  'code.plainText': 'ସାଧାରଣ ଲେଖା',
+  'code.detected': 'ଭାଷା ସ୍ୱୟଂଚାଳିତ ଭାବେ ଚିହ୍ନଟ ହେଲା',
+  'code.lineNumbers': 'ଧାଡ଼ି ସଂଖ୍ୟା',
+  'code.copy': 'କପି କରନ୍ତୁ',
+  'code.copied': 'କପି ହେଲା',
+  'common.edit': 'ସମ୍ପାଦନ',
+  'common.new': 'ନୂଆ',
+  'common.rename': 'ନାମ ବଦଳାନ୍ତୁ',
+  'common.delete': 'ବିଲୋପ କରନ୍ତୁ',
+  'common.remove': 'ହଟାନ୍ତୁ',
+  'common.cancel': 'ବାତିଲ',
+  'common.save': 'ସେଭ୍ କରନ୍ତୁ',
+  'common.saving': 'ସେଭ୍ ହେଉଛି...',
+  'common.add': 'ଯୋଡ଼ନ୍ତୁ',
+  'common.show': 'ଦେଖାନ୍ତୁ',
+  'common.hide': 'ଲୁଚାନ୍ତୁ',
+  'common.copy': 'କପି କରନ୍ତୁ',
+};
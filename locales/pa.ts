@@ -0,0 +1,388 @@
+import { Messages } from './en';
+
+export const pa: Messages = {
+  'language.label': 'ਇੰਟਰਫ਼ੇਸ ਦੀ ਭਾਸ਼ਾ',
+
+  'header.sessions': 'ਅਧਿਐਨ ਸੈਸ਼ਨ',
+  'header.subtitle': 'ਅਨੰਤ',
+  'header.satisfied': 'ਸੰਤੁਸ਼ਟ',
+  'header.socratic': 'ਸੁਕਰਾਤੀ',
+
+  'level.Beginner': 'ਸ਼ੁਰੂਆਤੀ',
+  'level.Intermediate': 'ਦਰਮਿਆਨਾ',
+  'level.Advanced': 'ਉੱਨਤ',
+  'level.suggested': "ਤੁਹਾਡਾ ਟਿਊਟਰ {level} ਪੱਧਰ 'ਤੇ ਜਾਣ ਦਾ ਸੁਝਾਅ ਦਿੰਦਾ ਹੈ।",
+  'level.switch': 'ਬਦਲੋ',
+  'level.keep': 'ਮੌਜੂਦਾ ਰੱਖੋ',
+  'level.step': '{level}, ਪੜਾਅ {step}/{steps}',
+  'level.adjusted': 'ਤੁਹਾਡਾ ਪੱਧਰ {level} ਕਰ ਦਿੱਤਾ ਗਿਆ ਹੈ।',
+  'level.undo': 'ਵਾਪਸ ਕਰੋ',
+  'level.ok': 'ਠੀਕ ਹੈ',
+  'level.quizReason': 'ਤੁਹਾਡਾ ਕੁਇਜ਼ ਸਕੋਰ {score}% ਹੈ।',
+  'level.mode': 'ਪੱਧਰ ਮੋਡ',
+  'level.mode.manual': 'ਮੈਨੁਅਲ',
+  'level.mode.suggest': 'ਅਨੁਕੂਲ: ਬਦਲਾਅ ਸੁਝਾਓ',
+  'level.mode.auto': 'ਅਨੁਕੂਲ: ਆਪਣੇ-ਆਪ ਬਦਲੋ',
+  'level.history': 'ਪੱਧਰ ਇਤਿਹਾਸ',
+  'level.source.manual': 'ਤੁਹਾਡੇ ਵੱਲੋਂ',
+  'level.source.diagnostic': 'ਜਾਂਚ ਸਵਾਲ',
+  'level.source.conversation': 'ਗੱਲਬਾਤ',
+  'level.source.quiz': 'ਕੁਇਜ਼',
+
+  'chat.title': 'ਤਰਕ ਧਾਰਾ',
+  'chat.you': 'ਤੁਸੀਂ',
+  'chat.stopped': 'ਰੋਕਿਆ ਗਿਆ',
+  'chat.placeholder': 'ਆਪਣੇ ਵਿਚਾਰਾਂ ਦੀ ਬਣਤਰ ਬਾਰੇ ਚਰਚਾ ਕਰੋ...',
+  'chat.stop': 'ਜਵਾਬ ਰੋਕੋ',
+  'chat.pin': 'ਸੰਦਰਭ ਵਿੱਚ ਰੱਖੋ',
+  'chat.unpin': 'ਸੰਦਰਭ ਵਿੱਚ ਰੱਖਣਾ ਬੰਦ ਕਰੋ',
+  'chat.summarized': 'ਪਿਛਲੀ ਗੱਲਬਾਤ ਦਾ ਸਾਰ ਬਣਾਇਆ ਗਿਆ',
+  'chat.welcome': 'ਸਤ ਸ੍ਰੀ ਅਕਾਲ। ਮੈਂ **Encrypt** ਹਾਂ। \n\nਮੈਂ ਤੁਹਾਨੂੰ ਸਿੱਧੇ ਜਵਾਬ ਦਿੱਤੇ ਬਿਨਾਂ ਔਖੇ ਤਰਕ ਨੂੰ ਖੋਲ੍ਹ ਕੇ ਸਮਝਣ ਵਿੱਚ ਮਦਦ ਕਰਨ ਲਈ ਇੱਥੇ ਹਾਂ।\n\nਮੈਨੂੰ **English, हिन्दी, తెలుగు, தமிழ்** ਅਤੇ ਹੋਰ ਕਈ ਭਾਰਤੀ ਭਾਸ਼ਾਵਾਂ ਆਉਂਦੀਆਂ ਹਨ।\n\nਉੱਪਰ ਆਪਣਾ ਗਿਆਨ ਪੱਧਰ ਚੁਣੋ ਅਤੇ ਦੱਸੋ: **ਅੱਜ ਅਸੀਂ ਕਿਹੜੇ ਸੰਕਲਪ ਦੀ ਬਣਤਰ ਬਣਾਈਏ?**',
+  'chat.quizFailed': 'ਹੁਣੇ ਕੁਇਜ਼ ਤਿਆਰ ਨਹੀਂ ਹੋ ਸਕਿਆ। ਕਿਰਪਾ ਕਰਕੇ ਫਿਰ ਕੋਸ਼ਿਸ਼ ਕਰੋ।',
+  'chat.quizIntro': 'ਆਓ **{topic}** ਬਾਰੇ ਤੁਹਾਡੀ ਸਮਝ ਪਰਖੀਏ। ਹਰ ਸਵਾਲ ਦਾ ਜਵਾਬ ਦਿਓ, ਫਿਰ ਜਮ੍ਹਾਂ ਕਰੋ।',
+  'chat.fallbackReply': 'ਸਮਝ ਗਿਆ। ਆਓ ਇਸ ਲਾਜਿਕ ਦੀ ਬਣਤਰ ਨੂੰ ਸਮਝੀਏ।',
+
+  'action.analogy': 'ਉਪਮਾ',
+  'action.analogyPrompt': 'ਇਸ ਨੂੰ ਰੋਜ਼ਾਨਾ ਜ਼ਿੰਦਗੀ ਦੀ ਕਿਸੇ ਉਪਮਾ ਨਾਲ ਸਮਝਾਓ।',
+  'action.quiz': 'ਮੇਰੀ ਪਰਖ ਕਰੋ',
+  'action.realWorld': 'ਅਸਲ ਦੁਨੀਆ',
+  'action.realWorldPrompt': 'ਅਸਲ ਦੁਨੀਆ ਦੀ ਕਿਸੇ ਐਪਲੀਕੇਸ਼ਨ ਵਿੱਚ ਇਸ ਦੀ ਵਰਤੋਂ ਕਿਵੇਂ ਹੁੰਦੀ ਹੈ?',
+  'action.visualize': 'ਦ੍ਰਿਸ਼ ਬਣਾਓ',
+  'action.visualizePrompt': 'ਇਸ ਸੰਕਲਪ ਨੂੰ ਸਮਝਾਉਣ ਲਈ ਕਿਰਪਾ ਕਰਕੇ ਕੋਈ ਤਸਵੀਰ ਜਾਂ ਚਿੱਤਰ ਦਿਓ।',
+
+  'hint.stuck': 'ਮੈਂ ਫਸ ਗਿਆ',
+  'hint.stuckPrompt': 'ਮੈਂ ਫਸ ਗਿਆ ਹਾਂ। ਕੀ ਮੈਨੂੰ ਇੱਕ ਸੰਕੇਤ ਮਿਲ ਸਕਦਾ ਹੈ?',
+  'hint.badge': 'ਸੰਕੇਤ {number}/{max}',
+  'hint.level.nudge': 'ਇਸ਼ਾਰਾ',
+  'hint.level.subproblem': 'ਉਪ-ਸਮੱਸਿਆ',
+  'hint.level.skeleton': 'ਢਾਂਚਾ',
+  'hint.currentProblem': 'ਮੌਜੂਦਾ ਸਵਾਲ',
+
+  'tab.visualizer': 'ਬਲੂਪ੍ਰਿੰਟ',
+  'tab.templates': 'ਗਿਆਨ',
+  'tab.upload': 'ਸਬਮਿਸ਼ਨ',
+  'tab.image_gen': 'ਕੈਨਵਸ',
+  'tab.mastery': 'ਮੁਹਾਰਤ',
+
+  'category.All': 'ਸਾਰੇ',
+  'category.Coding': 'ਕੋਡਿੰਗ',
+  'category.Algorithms': 'ਐਲਗੋਰਿਦਮ',
+  'category.Mathematics': 'ਗਣਿਤ',
+  'category.Science': 'ਵਿਗਿਆਨ',
+  'category.Writing': 'ਲਿਖਤ',
+  'category.Systems': 'ਸਿਸਟਮ',
+  'category.Database': 'ਡਾਟਾਬੇਸ',
+  'category.Philosophy': 'ਦਰਸ਼ਨ',
+  'category.Economics': 'ਅਰਥ ਸ਼ਾਸਤਰ',
+
+  'templates.search': 'ਤਰਕ ਟੈਂਪਲੇਟ ਖੋਜੋ...',
+  'templates.new': 'ਨਵਾਂ ਟੈਂਪਲੇਟ',
+  'templates.import': 'ਪੈਕ ਆਯਾਤ ਕਰੋ',
+  'templates.export': 'ਪੈਕ ਨਿਰਯਾਤ ਕਰੋ',
+  'templates.packName': 'Encrypt ਟੈਂਪਲੇਟ',
+  'templates.categoryPackName': '{category} ਟੈਂਪਲੇਟ',
+  'templates.synthTitle': 'ਪੈਟਰਨ ਸਿਰਜਕ',
+  'templates.synthBody': 'ਇਹ ਸੰਕਲਪ ਨਹੀਂ ਮਿਲਿਆ। Encrypt ਤੁਹਾਡੇ ਲਈ ਨਵਾਂ ਟੈਂਪਲੇਟ ਬਣਾ ਸਕਦਾ ਹੈ।',
+  'templates.synthesizing': 'ਬਣਾ ਰਿਹਾ ਹੈ...',
+  'templates.synthesize': 'ਤਰਕ ਬਣਾਓ',
+  'templates.hiddenTests_one': '{count} ਲੁਕਿਆ ਟੈਸਟ',
+  'templates.hiddenTests_other': '{count} ਲੁਕੇ ਟੈਸਟ',
+  'templates.sessionOnly': 'ਸਿਰਫ਼ ਇਸ ਸੈਸ਼ਨ ਲਈ',
+  'templates.saveToLibrary': 'ਲਾਇਬ੍ਰੇਰੀ ਵਿੱਚ ਸੰਭਾਲੋ',
+  'templates.duplicate': 'ਨਕਲ ਬਣਾਓ',
+  'templates.startGuided': 'ਨਿਰਦੇਸ਼ਿਤ ਸੈਸ਼ਨ ਸ਼ੁਰੂ ਕਰੋ',
+  'templates.stepThrough': 'ਕਦਮ-ਦਰ-ਕਦਮ ਚਲਾਓ',
+  'templates.confirmDelete_one': '"{title}" ਅਤੇ ਇਸਦਾ {count} ਪੁਰਾਣਾ ਸੰਸਕਰਣ ਮਿਟਾਉਣਾ ਹੈ?',
+  'templates.confirmDelete_other': '"{title}" ਅਤੇ ਇਸਦੇ {count} ਪੁਰਾਣੇ ਸੰਸਕਰਣ ਮਿਟਾਉਣੇ ਹਨ?',
+
+  'upload.title': 'ਅਸਾਈਨਮੈਂਟ ਸਮੀਖਿਆ',
+  'upload.body': 'ਢਾਂਚਾਗਤ ਮੁਲਾਂਕਣ ਲਈ ਆਪਣੇ ਤਰਕ ਦੇ ਖਰੜੇ ਜਮ੍ਹਾਂ ਕਰੋ: ਸੋਰਸ ਫ਼ਾਈਲਾਂ, ਪ੍ਰੋਜੈਕਟ ਦੀ .zip, PDF ਜਾਂ ਹੱਥ ਨਾਲ ਲਿਖੇ ਕੰਮ ਦੀਆਂ ਤਸਵੀਰਾਂ।',
+  'upload.browse': 'ਫ਼ਾਈਲਾਂ ਚੁਣੋ',
+  'upload.addMore': 'ਹੋਰ ਫ਼ਾਈਲਾਂ ਜੋੜੋ',
+  'upload.rubric': 'ਰੂਬ੍ਰਿਕ',
+  'upload.points': '{count} ਅੰਕ',
+  'upload.tests': 'ਟੈਸਟ',
+  'upload.noTests': 'ਲੁਕੇ ਟੈਸਟ ਨਾ ਚਲਾਓ',
+  'upload.testCount': '{count} ਟੈਸਟ',
+  'upload.testing': 'ਲੁਕੇ ਟੈਸਟ ਚੱਲ ਰਹੇ ਹਨ...',
+  'upload.reviewing': 'ਰੂਬ੍ਰਿਕ ਮੁਤਾਬਕ ਸਮੀਖਿਆ ਹੋ ਰਹੀ ਹੈ...',
+  'upload.reports': 'ਫੀਡਬੈਕ ਰਿਪੋਰਟਾਂ',
+
+  'canvas.placeholder': 'ਕਿਸੇ ਦ੍ਰਿਸ਼ ਦੀ ਕਲਪਨਾ ਲਿਖੋ...',
+  'canvas.size1K': 'ਆਮ 1K',
+  'canvas.size2K': 'ਹਾਈ-ਰੈਜ਼ 2K',
+  'canvas.size4K': 'ਅਲਟ੍ਰਾ-ਰੈਜ਼ 4K',
+  'canvas.generating': 'ਕਲਪਨਾ ਹੋ ਰਹੀ ਹੈ...',
+  'canvas.render': 'ਤਸਵੀਰ ਬਣਾਓ',
+  'canvas.rendering': 'ਬਣ ਰਹੀ ਹੈ...',
+  'canvas.append': 'ਬਲੂਪ੍ਰਿੰਟ ਵਿੱਚ ਜੋੜੋ',
+  'canvas.empty': 'ਕੈਨਵਸ ਖ਼ਾਲੀ ਹੈ',
+  'canvas.generatedAlt': 'ਬਣਾਇਆ ਗਿਆ ਸੰਕਲਪ ਚਿੱਤਰ',
+
+  'nav.workspace': 'ਕਾਰਜ ਖੇਤਰ',
+
+  'toast.cheat': 'ਪਹਿਲਾਂ ਸੋਚੋ! ਮੈਂ ਸਿੱਧਾ ਕੋਡ ਨਹੀਂ ਦੇ ਸਕਦਾ। ਆਓ ਤਰਕ ਬਾਰੇ ਗੱਲ ਕਰੀਏ।',
+  'toast.quizNeedsContext': 'ਪਹਿਲਾਂ ਕੋਈ ਸੰਕਲਪ ਸਮਝੀਏ, ਫਿਰ ਮੈਂ ਉਸ ਉੱਤੇ ਤੁਹਾਡੀ ਪਰਖ ਕਰ ਸਕਦਾ ਹਾਂ।',
+  'toast.gradingFailed': 'ਮੁਲਾਂਕਣ ਅਸਫਲ ਰਿਹਾ। ਕਿਰਪਾ ਕਰਕੇ ਦੁਬਾਰਾ ਜਮ੍ਹਾਂ ਕਰੋ।',
+  'toast.noSteps': 'ਇਸ ਟੈਂਪਲੇਟ ਵਿੱਚ ਕਦਮ-ਦਰ-ਕਦਮ ਚੱਲਣ ਲਈ ਨੰਬਰ ਵਾਲੇ ਕਦਮ ਨਹੀਂ ਹਨ।',
+  'toast.waitForReply': 'ਮੌਜੂਦਾ ਜਵਾਬ ਪੂਰਾ ਹੋਣ ਦਿਓ, ਫਿਰ ਉਸ ਕਦਮ ਬਾਰੇ ਪੁੱਛੋ।',
+  'toast.rubricSaveFailed': 'ਰੂਬ੍ਰਿਕ ਸੰਭਾਲਿਆ ਨਹੀਂ ਜਾ ਸਕਿਆ।',
+  'toast.templateSaveFailed': 'ਟੈਂਪਲੇਟ ਸੰਭਾਲਿਆ ਨਹੀਂ ਜਾ ਸਕਿਆ।',
+  'toast.packImported': '{added} ਨਵੇਂ ਆਯਾਤ ਹੋਏ, {updated} ਅੱਪਡੇਟ ਹੋਏ।',
+  'toast.packImportedSkipped': '{added} ਨਵੇਂ ਆਯਾਤ ਹੋਏ, {updated} ਅੱਪਡੇਟ ਹੋਏ, {skipped} ਅਵੈਧ ਛੱਡੇ ਗਏ।',
+  'toast.packImportFailed': 'ਟੈਂਪਲੇਟ ਪੈਕ ਦਾ ਆਯਾਤ ਅਸਫਲ ਰਿਹਾ।',
+  'toast.packError.invalidJson': 'ਫ਼ਾਈਲ ਸਹੀ JSON ਨਹੀਂ ਹੈ।',
+  'toast.packError.notPack': 'ਇਹ ਫ਼ਾਈਲ Encrypt ਟੈਂਪਲੇਟ ਪੈਕ ਨਹੀਂ ਹੈ।',
+  'toast.packError.newerVersion': 'ਇਹ ਪੈਕ Encrypt ਦੇ ਨਵੇਂ ਸੰਸਕਰਣ ਤੋਂ ਨਿਰਯਾਤ ਕੀਤਾ ਗਿਆ ਸੀ।',
+  'toast.exportFailed': 'ਨਿਰਯਾਤ ਅਸਫਲ ਰਿਹਾ। ਕਿਰਪਾ ਕਰਕੇ ਫਿਰ ਕੋਸ਼ਿਸ਼ ਕਰੋ।',
+
+  'visualizer.emptyTitle': 'ਦ੍ਰਿਸ਼ ਧਾਰਾ',
+  'visualizer.emptyBody': 'ਜਿਵੇਂ-ਜਿਵੇਂ ਤੁਸੀਂ Encrypt ਨਾਲ ਗੱਲ ਕਰੋਗੇ, ਔਖੇ ਤਰਕ ਨੂੰ ਸਪਸ਼ਟ ਕਰਨ ਵਾਲੇ ਚਿੱਤਰ ਅਤੇ ਤਸਵੀਰਾਂ ਇੱਥੇ ਦਿਖਾਈ ਦੇਣਗੀਆਂ।',
+  'visualizer.title': 'ਸਰਗਰਮ ਬਲੂਪ੍ਰਿੰਟ',
+  'visualizer.components_one': '{count} ਹਿੱਸਾ',
+  'visualizer.components_other': '{count} ਹਿੱਸੇ',
+  'visualizer.footer': 'ਤਰਕ ਧਾਰਾ ਦੇ ਨਾਲ ਆਪਣੇ-ਆਪ ਅੱਪਡੇਟ ਹੁੰਦਾ ਹੈ',
+  'visualizer.vision': 'ਸੰਕਲਪੀ ਤਸਵੀਰ',
+  'visualizer.repaired': 'ਠੀਕ ਕੀਤਾ',
+  'visualizer.failed': 'ਅਸਫਲ',
+  'visualizer.edited': 'ਸੋਧਿਆ',
+  'visualizer.repairedTitle_one': '{count} ਪਾਰਸ ਗ਼ਲਤੀ ਤੋਂ ਬਾਅਦ ਆਪਣੇ ਆਪ ਠੀਕ ਕੀਤਾ',
+  'visualizer.repairedTitle_other': '{count} ਪਾਰਸ ਗ਼ਲਤੀਆਂ ਤੋਂ ਬਾਅਦ ਆਪਣੇ ਆਪ ਠੀਕ ਕੀਤਾ',
+  'visualizer.failedTitle': 'ਟਿਊਟਰ ਇਸ ਚਿੱਤਰ ਦਾ ਸਹੀ ਸੰਸਕਰਣ ਨਹੀਂ ਬਣਾ ਸਕਿਆ',
+  'visualizer.editedTitle': 'ਪਿਛਲੇ ਬਲੂਪ੍ਰਿੰਟ ਦੀ ਤੁਹਾਡੀ ਸੋਧ',
+
+  'diagram.syntaxError': 'Mermaid ਸਿੰਟੈਕਸ ਗ਼ਲਤੀ',
+  'diagram.source': 'ਸਰੋਤ',
+  'diagram.zoomOut': 'ਛੋਟਾ ਕਰੋ',
+  'diagram.zoomIn': 'ਵੱਡਾ ਕਰੋ',
+  'diagram.resetView': 'ਦ੍ਰਿਸ਼ ਰੀਸੈੱਟ ਕਰੋ',
+  'diagram.action.explain': 'ਇਹ ਕਦਮ ਸਮਝਾਓ',
+  'diagram.action.why-branch': 'ਇਹ ਸ਼ਾਖਾ ਕਿਉਂ?',
+  'diagram.action.what-if-fails': 'ਜੇ ਇਹ ਅਸਫਲ ਹੋਵੇ ਤਾਂ?',
+  'diagram.action.example': 'ਇਸ ਵਿੱਚੋਂ ਇੱਕ ਉਦਾਹਰਣ ਚਲਾ ਕੇ ਦਿਖਾਓ',
+
+  'blueprint.label': 'ਬਲੂਪ੍ਰਿੰਟ {number}',
+  'blueprint.labelRevision': 'ਬਲੂਪ੍ਰਿੰਟ {number} · ਸੋਧ {revision}',
+  'blueprint.compare': 'ਤੁਲਨਾ ਕਰੋ',
+  'blueprint.revisions': 'ਸੋਧਾਂ',
+  'blueprint.original': 'ਮੂਲ',
+  'blueprint.revision': 'ਸੋਧ {revision}',
+  'blueprint.source': 'Mermaid ਸਰੋਤ',
+  'blueprint.preview': 'ਲਾਈਵ ਝਲਕ',
+  'blueprint.before': 'ਪਹਿਲਾਂ',
+  'blueprint.after': 'ਬਾਅਦ',
+  'blueprint.changes': 'ਤਬਦੀਲੀਆਂ',
+  'blueprint.legend.added': 'ਜੋੜਿਆ',
+  'blueprint.legend.removed': 'ਹਟਾਇਆ',
+  'blueprint.legend.changed': 'ਨਾਂ ਬਦਲਿਆ',
+  'blueprint.pickTwo': 'ਤੁਲਨਾ ਲਈ ਦੋ ਵੱਖਰੇ ਬਲੂਪ੍ਰਿੰਟ ਚੁਣੋ।',
+  'blueprint.sameStructure': 'ਇਹਨਾਂ ਦੋਵਾਂ ਸੰਸਕਰਣਾਂ ਦੀ ਬਣਤਰ ਇੱਕੋ ਜਿਹੀ ਹੈ।',
+  'blueprint.linesOnly': 'ਸਿਰਫ਼ ਫ਼ਲੋਚਾਰਟਾਂ ਦੀ ਨੋਡ-ਦਰ-ਨੋਡ ਤੁਲਨਾ ਹੋ ਸਕਦੀ ਹੈ; ਇਸ ਲਈ ਬਦਲੀਆਂ ਸਰੋਤ ਲਾਈਨਾਂ ਦਿਖਾਈਆਂ ਜਾ ਰਹੀਆਂ ਹਨ।',
+  'blueprint.change.addedStep': 'ਕਦਮ "{label}" ਜੋੜਿਆ',
+  'blueprint.change.removedStep': 'ਕਦਮ "{label}" ਹਟਾਇਆ',
+  'blueprint.change.renamedStep': '"{before}" ਦਾ ਨਾਂ ਬਦਲ ਕੇ "{after}" ਕੀਤਾ',
+  'blueprint.change.addedLink': 'ਲਿੰਕ {link} ਜੋੜਿਆ',
+  'blueprint.change.removedLink': 'ਲਿੰਕ {link} ਹਟਾਇਆ',
+  'blueprint.change.addedLine': 'ਲਾਈਨ ਜੋੜੀ: {line}',
+  'blueprint.change.removedLine': 'ਲਾਈਨ ਹਟਾਈ: {line}',
+  'blueprint.unsaved': 'ਬਿਨਾਂ ਸੰਭਾਲੀਆਂ ਤਬਦੀਲੀਆਂ',
+  'blueprint.savedAsRevisions': 'ਸੋਧਾਂ ਨਵੇਂ ਸੰਸਕਰਣਾਂ ਵਜੋਂ ਸੰਭਾਲੀਆਂ ਜਾਂਦੀਆਂ ਹਨ; ਮੂਲ ਸਟੈਕ ਵਿੱਚ ਹੀ ਰਹਿੰਦਾ ਹੈ।',
+  'blueprint.saveRevision': 'ਸੋਧ ਸੰਭਾਲੋ',
+  'blueprint.changeFirst': 'ਪਹਿਲਾਂ ਕੋਈ ਤਬਦੀਲੀ ਕਰੋ',
+  'blueprint.check': 'ਕੀ ਮੇਰਾ ਸੰਸਕਰਣ ਸਹੀ ਹੈ?',
+  'blueprint.discard': 'ਇਸ ਬਲੂਪ੍ਰਿੰਟ ਦੀਆਂ ਬਿਨਾਂ ਸੰਭਾਲੀਆਂ ਤਬਦੀਲੀਆਂ ਛੱਡ ਦੇਈਏ?',
+
+  'sessions.title': 'ਅਧਿਐਨ ਸੈਸ਼ਨ',
+  'sessions.new': 'ਨਵਾਂ ਸੈਸ਼ਨ',
+  'sessions.empty': 'ਹਾਲੇ ਕੋਈ ਸੰਭਾਲਿਆ ਸੈਸ਼ਨ ਨਹੀਂ।',
+  'sessions.untitled': 'ਬਿਨਾਂ ਨਾਮ ਦਾ ਸੈਸ਼ਨ',
+  'sessions.turns_one': '{count} ਗੱਲਬਾਤ',
+  'sessions.turns_other': '{count} ਗੱਲਬਾਤਾਂ',
+
+  'tray.summary': '{count} / {max} ਫ਼ਾਈਲਾਂ · {limit} ਵਿੱਚੋਂ {size}',
+  'tray.clear': 'ਸਾਫ਼ ਕਰੋ',
+  'tray.submit': 'ਸਮੀਖਿਆ ਲਈ ਜਮ੍ਹਾਂ ਕਰੋ',
+  'tray.reading': 'ਫ਼ਾਈਲਾਂ ਪੜ੍ਹੀਆਂ ਜਾ ਰਹੀਆਂ ਹਨ...',
+
+  'walkthrough.title': 'ਮਾਰਗਦਰਸ਼ਿਤ ਅਭਿਆਸ',
+  'walkthrough.complete': 'ਪੂਰਾ',
+  'walkthrough.step': 'ਕਦਮ {current} / {total}',
+  'walkthrough.dismiss': 'ਬੰਦ ਕਰੋ',
+  'walkthrough.end': 'ਸਮਾਪਤ ਕਰੋ',
+  'walkthrough.startPrompt': '"{title}" ਟੈਂਪਲੇਟ ਵਿੱਚ ਮੈਨੂੰ ਇੱਕ-ਇੱਕ ਕਦਮ ਕਰਕੇ ਲੈ ਚੱਲੋ।',
+  'walkthrough.sessionName': 'ਗਾਈਡਡ: {title}',
+
+  'export.button': 'ਸੈਸ਼ਨ ਨਿਰਯਾਤ ਕਰੋ',
+  'export.heading': 'ਸੈਸ਼ਨ ਨਿਰਯਾਤ ਕਰੋ',
+  'export.preparing': 'ਤਿਆਰ ਹੋ ਰਿਹਾ ਹੈ...',
+  'export.htmlHint': 'ਇੱਕ ਪੂਰੀ, ਸੁਤੰਤਰ ਫ਼ਾਈਲ',
+  'export.markdownHint': 'assets ਫੋਲਡਰ ਸਮੇਤ .zip',
+  'export.pdfHint': 'ਛਪਾਈ ਲਈ ਤਿਆਰ ਖਾਕਾ',
+
+  'gate.revealed': 'ਤੁਹਾਡੀ ਕੋਸ਼ਿਸ਼ ਤੋਂ ਬਾਅਦ ਪੂਰਾ ਹੱਲ ਦਿਖਾਇਆ ਗਿਆ',
+  'gate.code': 'ਇੱਕ ਪੂਰਾ ਪ੍ਰੋਗਰਾਮ',
+  'gate.proof': 'ਇੱਕ ਪੂਰਾ ਸਬੂਤ',
+  'gate.and': ' ਅਤੇ ',
+  'gate.body': 'ਇਸ ਜਵਾਬ ਵਿੱਚ {kinds} ਸੀ, ਇਸ ਲਈ ਇਸ ਨੂੰ ਸਿਰਫ਼ ਢਾਂਚੇ ਤੱਕ ਸੀਮਤ ਕਰ ਦਿੱਤਾ ਗਿਆ ਹੈ।',
+  'gate.canReveal': 'ਤੁਸੀਂ ਕੋਸ਼ਿਸ਼ ਕਰ ਲਈ ਹੈ, ਇਸ ਲਈ ਹੁਣ ਤੁਸੀਂ ਇਸ ਦੀ ਤੁਲਨਾ ਪੂਰੇ ਰੂਪ ਨਾਲ ਕਰ ਸਕਦੇ ਹੋ।',
+  'gate.cannotReveal': 'ਖ਼ਾਲੀ ਥਾਵਾਂ ਆਪ ਭਰੋ ਅਤੇ ਆਪਣੀ ਕੋਸ਼ਿਸ਼ ਸਾਂਝੀ ਕਰੋ, ਫਿਰ ਪੂਰਾ ਰੂਪ ਖੁੱਲ੍ਹੇਗਾ।',
+  'gate.reveal': 'ਹੱਲ ਦਿਖਾਓ',
+
+  'error.auth': 'AI ਸੇਵਾ ਨੇ API ਕੁੰਜੀ ਸਵੀਕਾਰ ਨਹੀਂ ਕੀਤੀ।',
+  'error.permission': 'ਇਸ API ਕੁੰਜੀ ਨਾਲ ਉਹ ਮਾਡਲ ਵਰਤਣ ਦੀ ਇਜਾਜ਼ਤ ਨਹੀਂ ਹੈ। ਕਿਸੇ ਭੁਗਤਾਨ ਵਾਲੇ ਪ੍ਰੋਜੈਕਟ ਦੀ ਕੁੰਜੀ ਚੁਣੋ।',
+  'error.quota': 'AI ਸੇਵਾ ਨੂੰ ਇਸ ਵੇਲੇ ਬਹੁਤ ਜ਼ਿਆਦਾ ਬੇਨਤੀਆਂ ਮਿਲ ਰਹੀਆਂ ਹਨ।',
+  'error.safety': 'AI ਸੇਵਾ ਨੇ ਆਪਣੇ ਸੁਰੱਖਿਆ ਨਿਯਮਾਂ ਕਾਰਨ ਇਸਦਾ ਜਵਾਬ ਨਹੀਂ ਦਿੱਤਾ। ਆਪਣਾ ਸੁਨੇਹਾ ਹੋਰ ਸ਼ਬਦਾਂ ਵਿੱਚ ਲਿਖ ਕੇ ਦੇਖੋ।',
+  'error.network': 'AI ਸੇਵਾ ਤੱਕ ਪਹੁੰਚ ਨਹੀਂ ਹੋ ਸਕੀ। ਆਪਣਾ ਕਨੈਕਸ਼ਨ ਜਾਂਚੋ ਅਤੇ ਦੁਬਾਰਾ ਕੋਸ਼ਿਸ਼ ਕਰੋ।',
+  'error.timeout': 'AI ਸੇਵਾ ਨੇ ਜਵਾਬ ਦੇਣ ਵਿੱਚ ਬਹੁਤ ਸਮਾਂ ਲਾ ਦਿੱਤਾ।',
+  'error.invalid_output': 'AI ਸੇਵਾ ਵੱਲੋਂ ਭੇਜਿਆ ਜਵਾਬ ਪੜ੍ਹਿਆ ਨਹੀਂ ਜਾ ਸਕਿਆ।',
+  'error.server': 'AI ਸੇਵਾ ਵਿੱਚ ਇਸ ਵੇਲੇ ਕੋਈ ਸਮੱਸਿਆ ਹੈ।',
+  'error.unknown': 'AI ਸੇਵਾ ਨਾਲ ਸੰਪਰਕ ਕਰਦੇ ਸਮੇਂ ਕੁਝ ਗਲਤ ਹੋ ਗਿਆ।',
+  'error.retryAfter': '{seconds} ਸਕਿੰਟ ਬਾਅਦ ਦੁਬਾਰਾ ਕੋਸ਼ਿਸ਼ ਕਰੋ।',
+  'error.retry': 'ਦੁਬਾਰਾ ਕੋਸ਼ਿਸ਼ ਕਰੋ',
+  'error.edit': 'ਸੁਨੇਹਾ ਸੋਧੋ',
+  'error.chooseKey': 'API ਕੁੰਜੀ ਚੁਣੋ',
+
+  'mastery.learner': 'ਸਿੱਖਿਆਰਥੀ',
+  'mastery.addLearner': 'ਸਿੱਖਿਆਰਥੀ ਜੋੜੋ...',
+  'mastery.emptyTitle': 'ਹਾਲੇ ਕਿਸੇ ਸੰਕਲਪ ਦਾ ਮੁਲਾਂਕਣ ਨਹੀਂ ਹੋਇਆ',
+  'mastery.emptyBody': 'ਜਿਵੇਂ-ਜਿਵੇਂ Encrypt ਤੁਹਾਡੇ ਤਰਕ ਦੀ ਜਾਂਚ ਕਰਦਾ ਹੈ, ਮੁਲਾਂਕਣ ਕੀਤਾ ਹਰ ਸੰਕਲਪ ਇੱਥੇ ਦਿਖਾਈ ਦਿੰਦਾ ਹੈ।',
+  'mastery.demonstrated': 'ਸਾਬਤ ਕੀਤੇ · {count}',
+  'mastery.noneDemonstrated': 'ਹਾਲੇ ਕੁਝ ਸਾਬਤ ਨਹੀਂ ਹੋਇਆ। ਸੋਚਦੇ ਰਹੋ।',
+  'mastery.searching': 'ਹਾਲੇ ਖੋਜ ਜਾਰੀ · {count}',
+  'mastery.noneSearching': 'ਮੁਲਾਂਕਣ ਕੀਤਾ ਹਰ ਸੰਕਲਪ ਸਾਬਤ ਹੋ ਚੁੱਕਾ ਹੈ।',
+  'mastery.checks_one': '{count} ਜਾਂਚ',
+  'mastery.checks_other': '{count} ਜਾਂਚਾਂ',
+  'mastery.transitions_one': '{count} ਤਬਦੀਲੀ',
+  'mastery.transitions_other': '{count} ਤਬਦੀਲੀਆਂ',
+  'mastery.status.satisfied': 'ਸੰਤੁਸ਼ਟ',
+  'mastery.status.searching': 'ਖੋਜ ਜਾਰੀ',
+
+  'quiz.title': 'ਕੁਇਜ਼ · {topic}',
+  'quiz.kind.multiple_choice': 'ਇੱਕ ਚੁਣੋ',
+  'quiz.kind.ordering': 'ਕਦਮਾਂ ਨੂੰ ਕ੍ਰਮ ਵਿੱਚ ਲਗਾਓ',
+  'quiz.kind.short_answer': 'ਛੋਟਾ ਜਵਾਬ',
+  'quiz.correct': 'ਸਹੀ',
+  'quiz.partly': 'ਅੰਸ਼ਕ',
+  'quiz.notYet': 'ਹਾਲੇ ਨਹੀਂ',
+  'quiz.placeholder': 'ਆਪਣਾ ਤਰਕ ਸਮਝਾਓ...',
+  'quiz.grading': 'ਮੁਲਾਂਕਣ ਹੋ ਰਿਹਾ ਹੈ...',
+  'quiz.submit': 'ਜਵਾਬ ਭੇਜੋ',
+
+  'trace.title': 'ਟ੍ਰੇਸ · {title}',
+  'trace.pseudocode': 'ਸੂਡੋਕੋਡ',
+  'trace.doneEditing': 'ਸੋਧ ਪੂਰੀ',
+  'trace.undefined_one': 'ਇਹ ਟੈਂਪਲੇਟ {names} ਤੁਹਾਡੇ ਭਰਨ ਲਈ ਛੱਡਦਾ ਹੈ। ਟ੍ਰੇਸ ਕਰਨ ਤੋਂ ਪਹਿਲਾਂ ਸੂਡੋਕੋਡ ਸੋਧੋ ਅਤੇ ਇਸਨੂੰ FUNCTION ਨਾਲ ਪਰਿਭਾਸ਼ਿਤ ਕਰੋ।',
+  'trace.undefined_other': 'ਇਹ ਟੈਂਪਲੇਟ {names} ਤੁਹਾਡੇ ਭਰਨ ਲਈ ਛੱਡਦਾ ਹੈ। ਟ੍ਰੇਸ ਕਰਨ ਤੋਂ ਪਹਿਲਾਂ ਸੂਡੋਕੋਡ ਸੋਧੋ ਅਤੇ ਇਹਨਾਂ ਨੂੰ FUNCTION ਨਾਲ ਪਰਿਭਾਸ਼ਿਤ ਕਰੋ।',
+  'trace.first': 'ਪਹਿਲਾ ਕਦਮ',
+  'trace.back': 'ਇੱਕ ਕਦਮ ਪਿੱਛੇ',
+  'trace.forward': 'ਇੱਕ ਕਦਮ ਅੱਗੇ',
+  'trace.last': 'ਆਖ਼ਰੀ ਕਦਮ',
+  'trace.event.line': 'ਚੱਲ ਰਿਹਾ ਹੈ',
+  'trace.event.call': 'ਕਾਲ ਕਰ ਰਿਹਾ ਹੈ',
+  'trace.event.return': 'ਵਾਪਸ ਆ ਰਿਹਾ ਹੈ',
+  'trace.event.done': 'ਪੂਰਾ ਹੋਇਆ',
+  'trace.event.error': 'ਰੁਕ ਗਿਆ',
+  'trace.line': 'ਲਾਈਨ {line}',
+  'trace.inputs': 'ਇਨਪੁਟ',
+  'trace.noInputs': 'ਇਸ ਕੋਡ ਨੂੰ ਕਿਸੇ ਇਨਪੁਟ ਦੀ ਲੋੜ ਨਹੀਂ।',
+  'trace.inputPlaceholder': 'ਜਿਵੇਂ 5 ਜਾਂ [1, 2, 3]',
+  'trace.restart': 'ਟ੍ਰੇਸ ਮੁੜ ਸ਼ੁਰੂ ਕਰੋ',
+  'trace.start': 'ਟ੍ਰੇਸ ਸ਼ੁਰੂ ਕਰੋ',
+  'trace.variables': 'ਵੇਰੀਏਬਲ',
+  'trace.allReturned': 'ਸਾਰੀਆਂ ਕਾਲਾਂ ਵਾਪਸ ਆ ਗਈਆਂ ਹਨ।',
+  'trace.noVariables': 'ਹਾਲੇ ਕੋਈ ਵੇਰੀਏਬਲ ਨਹੀਂ।',
+  'trace.callStack': 'ਕਾਲ ਸਟੈਕ · {depth} ਡੂੰਘਾ',
+
+  'report.revision': 'ਸੋਧ {revision}',
+  'report.sinceLast': 'ਪਿਛਲੇ ਸੰਸਕਰਣ ਤੋਂ {delta}',
+  'report.hiddenTests': 'ਲੁਕੇ ਟੈਸਟ · {title}',
+  'report.passed': '{passed}/{total} ਪਾਸ',
+  'report.case.pass': 'ਪਾਸ',
+  'report.case.skipped': 'ਨਹੀਂ ਚਲਾਇਆ',
+  'report.case.timeout': 'ਸਮਾਂ ਖ਼ਤਮ',
+  'report.case.error': 'ਕ੍ਰੈਸ਼ ਹੋਇਆ',
+  'report.case.fail': 'ਗ਼ਲਤ ਨਤੀਜਾ',
+  'report.caseWithHint': '{hint} \'ਤੇ {outcome}',
+  'runner.invalidFunction': '"{name}" ਠੀਕ ਫੰਕਸ਼ਨ ਨਾਮ ਨਹੀਂ ਹੈ।',
+  'runner.compile': 'ਕੋਡ ਕੰਪਾਈਲ ਨਹੀਂ ਹੁੰਦਾ।',
+  'runner.line': 'ਲਾਈਨ {line}:',
+  'runner.loadTimeout': 'ਕੋਡ ਲੋਡ ਹੋਣ ਵਿੱਚ ਬਹੁਤ ਸਮਾਂ ਲੱਗਿਆ।',
+  'runner.pythonLoadTimeout': 'Python ਰਨਟਾਈਮ ਸਮੇਂ ਸਿਰ ਲੋਡ ਨਹੀਂ ਹੋਇਆ। ਕਨੈਕਸ਼ਨ ਜਾਂਚੋ ਅਤੇ ਮੁੜ ਕੋਸ਼ਿਸ਼ ਕਰੋ।',
+  'runner.missingFunction': '"{name}" ਨਾਮ ਦਾ ਕੋਈ ਫੰਕਸ਼ਨ ਨਹੀਂ ਬਣਾਇਆ ਗਿਆ।',
+  'runner.loadFailed': 'ਲੋਡ ਹੁੰਦੇ ਸਮੇਂ ਕੋਡ ਅਸਫਲ ਹੋ ਗਿਆ।',
+  'runner.thrown': 'ਕੋਡ ਨੇ ਇੱਕ ਗਲਤੀ ਦਿੱਤੀ।',
+  'runner.timeout': '{seconds} ਸਕਿੰਟ ਬਾਅਦ ਵੀ ਚੱਲ ਰਿਹਾ ਹੈ। ਕੀ ਕੋਈ ਲੂਪ ਕਦੇ ਖਤਮ ਨਹੀਂ ਹੁੰਦਾ?',
+  'runner.resultTooLarge': 'ਨਤੀਜਾ ਤੁਲਨਾ ਲਈ ਬਹੁਤ ਵੱਡਾ ਸੀ।',
+  'runner.crashed': 'ਕੋਡ ਨੇ ਸੈਂਡਬਾਕਸ ਕ੍ਰੈਸ਼ ਕਰ ਦਿੱਤਾ; ਸ਼ਾਇਦ ਮੈਮਰੀ ਖਤਮ ਹੋ ਗਈ।',
+  'report.console_one': 'ਕੰਸੋਲ ਆਉਟਪੁਟ ({count} ਲਾਈਨ)',
+  'report.console_other': 'ਕੰਸੋਲ ਆਉਟਪੁਟ ({count} ਲਾਈਨਾਂ)',
+  'report.compared': 'ਪਿਛਲੇ ਸੰਸਕਰਣ ਨਾਲ ਤੁਲਨਾ',
+  'report.improved': 'ਕੀ ਸੁਧਰਿਆ',
+  'report.fixed': 'ਠੀਕ ਕੀਤਾ',
+  'report.stillOpen': 'ਹਾਲੇ ਬਾਕੀ',
+  'report.newIssues': 'ਇਸ ਵਾਰ ਨਵਾਂ',
+  'report.noDifferences': 'ਲੱਭੀਆਂ ਸਮੱਸਿਆਵਾਂ ਵਿੱਚ ਕੋਈ ਫ਼ਰਕ ਨਹੀਂ।',
+  'report.section.strengths': 'ਖ਼ੂਬੀਆਂ',
+  'report.section.logicalGaps': 'ਤਰਕ ਦੀਆਂ ਕਮੀਆਂ',
+  'report.section.misconceptions': 'ਗ਼ਲਤ ਧਾਰਨਾਵਾਂ',
+  'report.section.unhandledEdgeCases': 'ਨਾ ਸੰਭਾਲੇ ਐਜ ਕੇਸ',
+
+  'templateEditor.edit': 'ਟੈਂਪਲੇਟ ਸੋਧੋ · v{version}',
+  'templateEditor.title': 'ਸਿਰਲੇਖ',
+  'templateEditor.description': 'ਛੋਟਾ ਵੇਰਵਾ',
+  'templateEditor.content': 'ਟੈਂਪਲੇਟ ਢਾਂਚਾ...',
+  'templateEditor.tests': 'ਲੁਕੇ ਟੈਸਟ · {count}',
+  'templateEditor.testsHelp': 'JavaScript, TypeScript ਜਾਂ Python ਵਿੱਚ ਭੇਜਿਆ ਕੰਮ ਇਹਨਾਂ \'ਤੇ ਚਲਾਇਆ ਜਾਂਦਾ ਹੈ। ਆਰਗੂਮੈਂਟ ਇੱਕ JSON array ਹਨ; ਵਿਦਿਆਰਥੀ ਅਸਫਲ ਕੇਸ ਦਾ ਸਿਰਫ਼ ਸੰਕੇਤ ਦੇਖਦੇ ਹਨ।',
+  'templateEditor.functionName': 'ਕਾਲ ਕਰਨ ਵਾਲਾ ਫੰਕਸ਼ਨ, ਜਿਵੇਂ binarySearch',
+  'templateEditor.expected': 'ਉਮੀਦ ਕੀਤਾ, ਜਿਵੇਂ 1',
+  'templateEditor.hint': 'ਸੰਕੇਤ, ਜਿਵੇਂ ਅਖ਼ੀਰ \'ਤੇ ਟੀਚਾ',
+  'templateEditor.addCase': 'ਟੈਸਟ ਕੇਸ ਜੋੜੋ',
+  'templateEditor.invalidTests': 'ਹਰ ਟੈਸਟ ਵਿੱਚ ਆਰਗੂਮੈਂਟਾਂ ਦੀ JSON array ਅਤੇ ਉਮੀਦ ਕੀਤੀ JSON ਮੁੱਲ ਚਾਹੀਦਾ ਹੈ, ਅਤੇ ਫੰਕਸ਼ਨ ਦਾ ਨਾਂ ਸਹੀ identifier ਹੋਣਾ ਚਾਹੀਦਾ ਹੈ।',
+  'templateEditor.history': 'ਸੰਸਕਰਣ ਇਤਿਹਾਸ',
+  'templateEditor.restore': 'ਬਹਾਲ ਕਰੋ',
+
+  'rubric.edit': 'ਰੂਬ੍ਰਿਕ ਸੋਧੋ',
+  'rubric.new': 'ਨਵੀਂ ਰੂਬ੍ਰਿਕ',
+  'rubric.name': 'ਰੂਬ੍ਰਿਕ ਦਾ ਨਾਂ, ਜਿਵੇਂ ਹਫ਼ਤਾ 4: ਸੌਰਟਿੰਗ',
+  'rubric.criteria': 'ਮਾਪਦੰਡ · {total} ਅੰਕ',
+  'rubric.addCriterion': 'ਮਾਪਦੰਡ ਜੋੜੋ',
+  'rubric.criterion': 'ਮਾਪਦੰਡ',
+  'rubric.max': 'ਵੱਧ ਤੋਂ ਵੱਧ',
+  'rubric.removeCriterion': 'ਮਾਪਦੰਡ ਹਟਾਓ',
+  'rubric.fullMarks': 'ਪੂਰੇ ਅੰਕ ਕਿਹੋ ਜਿਹੇ ਦਿਸਦੇ ਹਨ?',
+  'rubric.confirmDelete': 'ਰੂਬ੍ਰਿਕ "{name}" ਮਿਟਾਉਣੀ ਹੈ? ਮੌਜੂਦਾ ਰਿਪੋਰਟਾਂ ਦੇ ਅੰਕ ਉਵੇਂ ਹੀ ਰਹਿਣਗੇ।',
+
+  'submission.unsupported': '"{name}" ਸਮਰਥਿਤ ਨਹੀਂ ਹੈ। ਸਰੋਤ ਫ਼ਾਈਲਾਂ, ਤਸਵੀਰਾਂ (PNG, JPEG, WebP, HEIC), PDF ਜਾਂ ਆਪਣੇ ਪ੍ਰੋਜੈਕਟ ਦੀ .zip ਅੱਪਲੋਡ ਕਰੋ।',
+  'submission.notText': '"{name}" ਟੈਕਸਟ ਫ਼ਾਈਲ ਨਹੀਂ ਲੱਗਦੀ।',
+  'submission.archiveUnreadable': '"{name}" ਨੂੰ zip ਆਰਕਾਈਵ ਵਜੋਂ ਨਹੀਂ ਖੋਲ੍ਹਿਆ ਜਾ ਸਕਿਆ।',
+  'submission.archiveEmpty': '"{name}" ਖ਼ਾਲੀ ਹੈ।',
+  'submission.archiveSkipped_one': '"{name}" ਵਿੱਚ {count} ਫ਼ਾਈਲ ਛੱਡ ਦਿੱਤੀ ਜੋ ਸਰੋਤ ਕੋਡ, ਤਸਵੀਰ ਜਾਂ PDF ਨਹੀਂ ਹੈ।',
+  'submission.archiveSkipped_other': '"{name}" ਵਿੱਚ {count} ਫ਼ਾਈਲਾਂ ਛੱਡ ਦਿੱਤੀਆਂ ਜੋ ਸਰੋਤ ਕੋਡ, ਤਸਵੀਰਾਂ ਜਾਂ PDF ਨਹੀਂ ਹਨ।',
+  'submission.archiveTooLarge': '"{name}" {size} ਹੈ; ਆਰਕਾਈਵ ਵੱਧ ਤੋਂ ਵੱਧ {limit} ਹੋ ਸਕਦੇ ਹਨ।',
+  'submission.sourceTooLarge': '"{name}" {size} ਹੈ; ਸਰੋਤ ਫ਼ਾਈਲਾਂ ਵੱਧ ਤੋਂ ਵੱਧ {limit} ਹੋ ਸਕਦੀਆਂ ਹਨ।',
+  'submission.inlineTooLarge': '"{name}" {size} ਹੈ; ਤਸਵੀਰਾਂ ਅਤੇ PDF ਵੱਧ ਤੋਂ ਵੱਧ {limit} ਹੋ ਸਕਦੇ ਹਨ।',
+  'submission.tooManyFiles': 'ਇੱਕ ਸਬਮਿਸ਼ਨ ਵਿੱਚ ਵੱਧ ਤੋਂ ਵੱਧ {max} ਫ਼ਾਈਲਾਂ ਹੋ ਸਕਦੀਆਂ ਹਨ; "{name}" ਨਹੀਂ ਜੋੜੀ ਗਈ।',
+  'submission.overTotal': '"{name}" ਨਾਲ ਸਬਮਿਸ਼ਨ {limit} ਤੋਂ ਵੱਡੀ ਹੋ ਜਾਵੇਗੀ।',
+  'submission.readFailed': 'ਉਹ ਫ਼ਾਈਲਾਂ ਪੜ੍ਹੀਆਂ ਨਹੀਂ ਜਾ ਸਕੀਆਂ। ਕਿਰਪਾ ਕਰਕੇ ਮੁੜ ਕੋਸ਼ਿਸ਼ ਕਰੋ।',
+  'submission.uploaded': 'ਬਣਤਰ ਦੀ ਸਮੀਖਿਆ ਲਈ ਮੈਂ {files} ਅੱਪਲੋਡ ਕੀਤਾ ਹੈ।',
+  'submission.uploadedMore_one': 'ਬਣਤਰ ਦੀ ਸਮੀਖਿਆ ਲਈ ਮੈਂ {files} ਅਤੇ {count} ਹੋਰ ਫ਼ਾਈਲ ਅੱਪਲੋਡ ਕੀਤੀ ਹੈ।',
+  'submission.uploadedMore_other': 'ਬਣਤਰ ਦੀ ਸਮੀਖਿਆ ਲਈ ਮੈਂ {files} ਅਤੇ {count} ਹੋਰ ਫ਼ਾਈਲਾਂ ਅੱਪਲੋਡ ਕੀਤੀਆਂ ਹਨ।',
+
+  'code.plainText': 'ਸਾਦਾ ਲਿਖਤ',
+  'code.detected': 'ਭਾਸ਼ਾ ਆਪਣੇ-ਆਪ ਪਛਾਣੀ ਗਈ',
+  'code.lineNumbers': 'ਲਾਈਨ ਨੰਬਰ',
+  'code.copy': 'ਕਾਪੀ ਕਰੋ',
+  'code.copied': 'ਕਾਪੀ ਹੋ ਗਿਆ',
+  'common.edit': 'ਸੋਧੋ',
+  'common.new': 'ਨਵਾਂ',
+  'common.rename': 'ਨਾਂ ਬਦਲੋ',
+  'common.delete': 'ਮਿਟਾਓ',
+  'common.remove': 'ਹਟਾਓ',
+  'common.cancel': 'ਰੱਦ ਕਰੋ',
+  'common.save': 'ਸੰਭਾਲੋ',
+  'common.saving': 'ਸੰਭਾਲਿਆ ਜਾ ਰਿਹਾ ਹੈ...',
+  'common.add': 'ਜੋੜੋ',
+  'common.show': 'ਦਿਖਾਓ',
+  'common.hide': 'ਲੁਕਾਓ',
+  'common.copy': 'ਕਾਪੀ ਕਰੋ',
+};
@@ -0,0 +1,388 @@
+import { Messages } from './en';
+
+export const ta: Messages = {
+  'language.label': 'இடைமுக மொழி',
+
+  'header.sessions': 'கற்றல் அமர்வுகள்',
+  'header.subtitle': 'முடிவிலி',
+  'header.satisfied': 'திருப்தி',
+  'header.socratic': 'சாக்ரடீஸ் முறை',
+
+  'level.Beginner': 'தொடக்கநிலை',
+  'level.Intermediate': 'இடைநிலை',
+  'level.Advanced': 'மேம்பட்ட நிலை',
+  'level.suggested': 'உங்கள் ஆசிரியர் {level} நிலைக்கு மாற பரிந்துரைக்கிறார்.',
+  'level.switch': 'மாற்று',
+  'level.keep': 'தற்போதையதை வை',
+  'level.step': '{level}, படி {step}/{steps}',
+  'level.adjusted': 'உங்கள் நிலை {level} ஆக மாற்றப்பட்டது.',
+  'level.undo': 'செயல்தவிர்',
+  'level.ok': 'சரி',
+  'level.quizReason': 'உங்கள் வினாடி வினா மதிப்பெண் {score}%.',
+  'level.mode': 'நிலை முறை',
+  'level.mode.manual': 'கைமுறை',
+  'level.mode.suggest': 'தகவமைப்பு: மாற்றங்களைப் பரிந்துரை',
+  'level.mode.auto': 'தகவமைப்பு: தானாக மாற்று',
+  'level.history': 'நிலை வரலாறு',
+  'level.source.manual': 'நீங்கள் அமைத்தது',
+  'level.source.diagnostic': 'கண்டறிதல் கேள்விகள்',
+  'level.source.conversation': 'உரையாடல்',
+  'level.source.quiz': 'வினாடி வினா',
+
+  'chat.title': 'தர்க்க ஓட்டம்',
+  'chat.you': 'நீங்கள்',
+  'chat.stopped': 'நிறுத்தப்பட்டது',
+  'chat.placeholder': 'உங்கள் சிந்தனையின் கட்டமைப்பைப் பற்றி விவாதியுங்கள்...',
+  'chat.stop': 'பதிலை நிறுத்து',
+  'chat.pin': 'சூழலில் வைத்திரு',
+  'chat.unpin': 'சூழலில் வைப்பதை நிறுத்து',
+  'chat.summarized': 'முந்தைய உரையாடல் சுருக்கப்பட்டது',
+  'chat.welcome': 'வணக்கம். நான் **Encrypt**. \n\nவிடைகளை நேரடியாகத் தராமல், சிக்கலான தர்க்கத்தைப் பிரித்துப் புரிந்துகொள்ள உங்களுக்கு உதவ நான் இங்கே இருக்கிறேன்.\n\nஎனக்கு **English, हिन्दी, తెలుగు, தமிழ்** மற்றும் பல இந்திய மொழிகள் தெரியும்.\n\nமேலே உங்கள் அறிவு நிலையைத் தேர்ந்தெடுத்துச் சொல்லுங்கள்: **இன்று எந்தக் கருத்தை நாம் கட்டமைக்கலாம்?**',
+  'chat.quizFailed': 'இப்போது வினாடி வினாவைத் தயாரிக்க முடியவில்லை. மீண்டும் முயலுங்கள்.',
+  'chat.quizIntro': '**{topic}** பற்றிய உங்கள் புரிதலைச் சரிபார்ப்போம். ஒவ்வொரு கேள்விக்கும் பதிலளித்து, பிறகு சமர்ப்பியுங்கள்.',
+  'chat.fallbackReply': 'புரிகிறது. இந்த லாஜிக்கின் கட்டமைப்பை ஆராய்வோம்.',
+
+  'action.analogy': 'உவமை',
+  'action.analogyPrompt': 'இதை ஒரு அன்றாட வாழ்க்கை உவமையுடன் விளக்குங்கள்.',
+  'action.quiz': 'என்னைச் சோதியுங்கள்',
+  'action.realWorld': 'நிஜ உலகம்',
+  'action.realWorldPrompt': 'நிஜ உலகப் பயன்பாட்டில் இது எப்படிப் பயன்படுத்தப்படுகிறது?',
+  'action.visualize': 'காட்சிப்படுத்து',
+  'action.visualizePrompt': 'தற்போதைய கருத்தை விளக்க ஒரு படம் அல்லது வரைபடம் தாருங்கள்.',
+
+  'hint.stuck': 'நான் சிக்கிக்கொண்டேன்',
+  'hint.stuckPrompt': 'நான் சிக்கிக்கொண்டேன். எனக்கு ஒரு குறிப்பு தர முடியுமா?',
+  'hint.badge': 'குறிப்பு {number}/{max}',
+  'hint.level.nudge': 'தூண்டல்',
+  'hint.level.subproblem': 'துணைச் சிக்கல்',
+  'hint.level.skeleton': 'எலும்புக்கூடு',
+  'hint.currentProblem': 'தற்போதைய கேள்வி',
+
+  'tab.visualizer': 'வரைவு',
+  'tab.templates': 'அறிவு',
+  'tab.upload': 'சமர்ப்பிப்புகள்',
+  'tab.image_gen': 'கேன்வாஸ்',
+  'tab.mastery': 'தேர்ச்சி',
+
+  'category.All': 'அனைத்தும்',
+  'category.Coding': 'நிரலாக்கம்',
+  'category.Algorithms': 'வழிமுறைகள்',
+  'category.Mathematics': 'கணிதம்',
+  'category.Science': 'அறிவியல்',
+  'category.Writing': 'எழுத்து',
+  'category.Systems': 'அமைப்புகள்',
+  'category.Database': 'தரவுத்தளம்',
+  'category.Philosophy': 'தத்துவம்',
+  'category.Economics': 'பொருளாதாரம்',
+
+  'templates.search': 'தர்க்க வார்ப்புருக்களைத் தேடுங்கள்...',
+  'templates.new': 'புதிய வார்ப்புரு',
+  'templates.import': 'தொகுப்பை இறக்கு',
+  'templates.export': 'தொகுப்பை ஏற்றுமதி செய்',
+  'templates.packName': 'Encrypt டெம்ப்ளேட்கள்',
+  'templates.categoryPackName': '{category} டெம்ப்ளேட்கள்',
+  'templates.synthTitle': 'வடிவ உருவாக்கி',
+  'templates.synthBody': 'இந்தக் கருத்து இல்லை. Encrypt உங்களுக்காகப் புதிய வார்ப்புருவை உருவாக்க முடியும்.',
+  'templates.synthesizing': 'உருவாக்குகிறது...',
+  'templates.synthesize': 'தர்க்கத்தை உருவாக்கு',
+  'templates.hiddenTests_one': '{count} மறைந்த சோதனை',
+  'templates.hiddenTests_other': '{count} மறைந்த சோதனைகள்',
+  'templates.sessionOnly': 'இந்த அமர்வுக்கு மட்டும்',
+  'templates.saveToLibrary': 'நூலகத்தில் சேமி',
+  'templates.duplicate': 'நகல் எடு',
+  'templates.startGuided': 'வழிகாட்டும் அமர்வைத் தொடங்கு',
+  'templates.stepThrough': 'படிப்படியாக இயக்கு',
+  'templates.confirmDelete_one': '"{title}" மற்றும் அதன் {count} பழைய பதிப்பை நீக்கவா?',
+  'templates.confirmDelete_other': '"{title}" மற்றும் அதன் {count} பழைய பதிப்புகளை நீக்கவா?',
+
+  'upload.title': 'பணி மதிப்பாய்வு',
+  'upload.body': 'கட்டமைப்பு மதிப்பீட்டிற்காக உங்கள் தர்க்க வரைவுகளைச் சமர்ப்பியுங்கள்: மூலக் கோப்புகள், திட்டத்தின் .zip, PDF அல்லது கையால் எழுதிய பணியின் புகைப்படங்கள்.',
+  'upload.browse': 'கோப்புகளைத் தேர்ந்தெடு',
+  'upload.addMore': 'மேலும் கோப்புகளைச் சேர்',
+  'upload.rubric': 'மதிப்பீட்டு அளவுகோல்',
+  'upload.points': '{count} மதிப்பெண்',
+  'upload.tests': 'சோதனைகள்',
+  'upload.noTests': 'மறைந்த சோதனைகளை இயக்க வேண்டாம்',
+  'upload.testCount': '{count} சோதனைகள்',
+  'upload.testing': 'மறைந்த சோதனைகள் இயங்குகின்றன...',
+  'upload.reviewing': 'அளவுகோலின்படி மதிப்பாய்வு செய்கிறது...',
+  'upload.reports': 'கருத்து அறிக்கைகள்',
+
+  'canvas.placeholder': 'ஒரு காட்சியைக் கற்பனை செய்து எழுதுங்கள்...',
+  'canvas.size1K': 'வழக்கமான 1K',
+  'canvas.size2K': 'உயர் தெளிவு 2K',
+  'canvas.size4K': 'மிக உயர் தெளிவு 4K',
+  'canvas.generating': 'கற்பனை செய்கிறது...',
+  'canvas.render': 'படத்தை உருவாக்கு',
+  'canvas.rendering': 'உருவாகிறது...',
+  'canvas.append': 'வரைவில் சேர்',
+  'canvas.empty': 'கேன்வாஸ் காலியாக உள்ளது',
+  'canvas.generatedAlt': 'உருவாக்கப்பட்ட கருத்துப் படம்',
+
+  'nav.workspace': 'பணியிடம்',
+
+  'toast.cheat': 'முதலில் சிந்தியுங்கள்! என்னால் நேரடியாகக் குறியீடு தர முடியாது. தர்க்கத்தைப் பற்றிப் பேசுவோம்.',
+  'toast.quizNeedsContext': 'முதலில் ஒரு கருத்தை ஆராய்வோம், பிறகு அதில் உங்களைச் சோதிக்கிறேன்.',
+  'toast.gradingFailed': 'மதிப்பீடு தோல்வியடைந்தது. மீண்டும் சமர்ப்பியுங்கள்.',
+  'toast.noSteps': 'இந்த வார்ப்புருவில் படிப்படியாகச் செல்ல எண்ணிடப்பட்ட படிகள் இல்லை.',
+  'toast.waitForReply': 'தற்போதைய பதில் முடியும் வரை காத்திருந்து, பிறகு அந்தப் படியைப் பற்றிக் கேளுங்கள்.',
+  'toast.rubricSaveFailed': 'அளவுகோலைச் சேமிக்க முடியவில்லை.',
+  'toast.templateSaveFailed': 'வார்ப்புருவைச் சேமிக்க முடியவில்லை.',
+  'toast.packImported': '{added} புதியவை இறக்கப்பட்டன, {updated} புதுப்பிக்கப்பட்டன.',
+  'toast.packImportedSkipped': '{added} புதியவை இறக்கப்பட்டன, {updated} புதுப்பிக்கப்பட்டன, {skipped} செல்லாதவை தவிர்க்கப்பட்டன.',
+  'toast.packImportFailed': 'வார்ப்புருத் தொகுப்பை இறக்க முடியவில்லை.',
+  'toast.packError.invalidJson': 'கோப்பு சரியான JSON அல்ல.',
+  'toast.packError.notPack': 'இந்தக் கோப்பு Encrypt வார்ப்புருத் தொகுப்பு அல்ல.',
+  'toast.packError.newerVersion': 'இந்தத் தொகுப்பு Encrypt-இன் புதிய பதிப்பிலிருந்து ஏற்றுமதி செய்யப்பட்டது.',
+  'toast.exportFailed': 'ஏற்றுமதி தோல்வியடைந்தது. மீண்டும் முயலுங்கள்.',
+
+  'visualizer.emptyTitle': 'காட்சி ஓட்டம்',
+  'visualizer.emptyBody': 'நீங்கள் Encrypt உடன் உரையாடும்போது, சிக்கலான தர்க்கத்தைத் தெளிவுபடுத்தும் வரைபடங்களும் படங்களும் இங்கே தோன்றும்.',
+  'visualizer.title': 'செயலில் உள்ள வரைவுகள்',
+  'visualizer.components_one': '{count} கூறு',
+  'visualizer.components_other': '{count} கூறுகள்',
+  'visualizer.footer': 'தர்க்க ஓட்டத்துடன் தானாகப் புதுப்பிக்கப்படுகிறது',
+  'visualizer.vision': 'கருத்துப் படம்',
+  'visualizer.repaired': 'சரிசெய்யப்பட்டது',
+  'visualizer.failed': 'தோல்வி',
+  'visualizer.edited': 'திருத்தப்பட்டது',
+  'visualizer.repairedTitle_one': '{count} பாகுபடுத்தல் பிழைக்குப் பிறகு தானாகச் சரிசெய்யப்பட்டது',
+  'visualizer.repairedTitle_other': '{count} பாகுபடுத்தல் பிழைகளுக்குப் பிறகு தானாகச் சரிசெய்யப்பட்டது',
+  'visualizer.failedTitle': 'இந்த வரைபடத்தின் சரியான பதிப்பை ஆசிரியரால் உருவாக்க முடியவில்லை',
+  'visualizer.editedTitle': 'முந்தைய வரைவின் உங்கள் திருத்தம்',
+
+  'diagram.syntaxError': 'Mermaid தொடரியல் பிழை',
+  'diagram.source': 'மூலம்',
+  'diagram.zoomOut': 'சிறிதாக்கு',
+  'diagram.zoomIn': 'பெரிதாக்கு',
+  'diagram.resetView': 'காட்சியை மீட்டமை',
+  'diagram.action.explain': 'இந்தப் படியை விளக்குங்கள்',
+  'diagram.action.why-branch': 'ஏன் இந்தக் கிளை?',
+  'diagram.action.what-if-fails': 'இது தோல்வியுற்றால்?',
+  'diagram.action.example': 'இதன் வழியாக ஒரு உதாரணத்தை இயக்கிக் காட்டுங்கள்',
+
+  'blueprint.label': 'வரைவு {number}',
+  'blueprint.labelRevision': 'வரைவு {number} · திருத்தம் {revision}',
+  'blueprint.compare': 'ஒப்பிடு',
+  'blueprint.revisions': 'திருத்தங்கள்',
+  'blueprint.original': 'மூலப்பதிப்பு',
+  'blueprint.revision': 'திருத்தம் {revision}',
+  'blueprint.source': 'Mermaid மூலம்',
+  'blueprint.preview': 'நேரடி முன்னோட்டம்',
+  'blueprint.before': 'முன்',
+  'blueprint.after': 'பின்',
+  'blueprint.changes': 'மாற்றங்கள்',
+  'blueprint.legend.added': 'சேர்க்கப்பட்டது',
+  'blueprint.legend.removed': 'நீக்கப்பட்டது',
+  'blueprint.legend.changed': 'பெயர் மாற்றப்பட்டது',
+  'blueprint.pickTwo': 'ஒப்பிட இரண்டு வெவ்வேறு வரைவுகளைத் தேர்ந்தெடுங்கள்.',
+  'blueprint.sameStructure': 'இந்த இரண்டு பதிப்புகளுக்கும் ஒரே அமைப்பு.',
+  'blueprint.linesOnly': 'பாய்வுப்படங்களை மட்டுமே கணு வாரியாக ஒப்பிட முடியும்; எனவே மாறிய மூல வரிகள் காட்டப்படுகின்றன.',
+  'blueprint.change.addedStep': 'படி "{label}" சேர்க்கப்பட்டது',
+  'blueprint.change.removedStep': 'படி "{label}" நீக்கப்பட்டது',
+  'blueprint.change.renamedStep': '"{before}" என்பது "{after}" எனப் பெயர் மாற்றப்பட்டது',
+  'blueprint.change.addedLink': 'இணைப்பு {link} சேர்க்கப்பட்டது',
+  'blueprint.change.removedLink': 'இணைப்பு {link} நீக்கப்பட்டது',
+  'blueprint.change.addedLine': 'வரி சேர்க்கப்பட்டது: {line}',
+  'blueprint.change.removedLine': 'வரி நீக்கப்பட்டது: {line}',
+  'blueprint.unsaved': 'சேமிக்கப்படாத மாற்றங்கள்',
+  'blueprint.savedAsRevisions': 'திருத்தங்கள் புதிய பதிப்புகளாகச் சேமிக்கப்படும்; மூலப்பதிப்பு அடுக்கில் அப்படியே இருக்கும்.',
+  'blueprint.saveRevision': 'திருத்தத்தைச் சேமி',
+  'blueprint.changeFirst': 'முதலில் ஒரு மாற்றம் செய்யுங்கள்',
+  'blueprint.check': 'என் பதிப்பு சரியா?',
+  'blueprint.discard': 'இந்த வரைவில் சேமிக்கப்படாத மாற்றங்களைக் கைவிடவா?',
+
+  'sessions.title': 'கற்றல் அமர்வுகள்',
+  'sessions.new': 'புதிய அமர்வு',
+  'sessions.empty': 'இன்னும் சேமித்த அமர்வுகள் இல்லை.',
+  'sessions.untitled': 'பெயரிடப்படாத அமர்வு',
+  'sessions.turns_one': '{count} உரையாடல்',
+  'sessions.turns_other': '{count} உரையாடல்கள்',
+
+  'tray.summary': '{count} / {max} கோப்புகள் · {limit} இல் {size}',
+  'tray.clear': 'அழி',
+  'tray.submit': 'மதிப்பாய்வுக்குச் சமர்ப்பி',
+  'tray.reading': 'கோப்புகளைப் படிக்கிறது...',
+
+  'walkthrough.title': 'வழிகாட்டும் பயிற்சி',
+  'walkthrough.complete': 'முடிந்தது',
+  'walkthrough.step': 'படி {current} / {total}',
+  'walkthrough.dismiss': 'மூடு',
+  'walkthrough.end': 'முடி',
+  'walkthrough.startPrompt': '"{title}" டெம்ப்ளேட்டை ஒவ்வொரு படியாக எனக்கு விளக்குங்கள்.',
+  'walkthrough.sessionName': 'வழிகாட்டல்: {title}',
+
+  'export.button': 'அமர்வை ஏற்றுமதி செய்',
+  'export.heading': 'அமர்வை ஏற்றுமதி செய்',
+  'export.preparing': 'தயாராகிறது...',
+  'export.htmlHint': 'தனித்து இயங்கும் ஒரே கோப்பு',
+  'export.markdownHint': 'assets கோப்புறையுடன் .zip',
+  'export.pdfHint': 'அச்சிடத் தகுந்த வடிவமைப்பு',
+
+  'gate.revealed': 'உங்கள் முயற்சிக்குப் பிறகு முழுத் தீர்வு காட்டப்பட்டது',
+  'gate.code': 'ஒரு முழு நிரல்',
+  'gate.proof': 'ஒரு முழு நிரூபணம்',
+  'gate.and': ' மற்றும் ',
+  'gate.body': 'இந்தப் பதிலில் {kinds} இருந்தது, எனவே அது ஒரு எலும்புக்கூடாகச் சுருக்கப்பட்டுள்ளது.',
+  'gate.canReveal': 'நீங்கள் முயற்சி செய்துவிட்டீர்கள், எனவே இப்போது அதை முழுப் பதிப்புடன் ஒப்பிடலாம்.',
+  'gate.cannotReveal': 'இடைவெளிகளை நீங்களே நிரப்பி உங்கள் முயற்சியைப் பகிர்ந்தால் முழுப் பதிப்பு திறக்கும்.',
+  'gate.reveal': 'தீர்வைக் காட்டு',
+
+  'error.auth': 'AI சேவை API விசையை ஏற்கவில்லை.',
+  'error.permission': 'இந்த API விசையால் அந்த மாடலைப் பயன்படுத்த அனுமதி இல்லை. கட்டணத் திட்டத்தின் விசையைத் தேர்ந்தெடுக்கவும்.',
+  'error.quota': 'AI சேவைக்கு இப்போது மிக அதிகமான கோரிக்கைகள் வருகின்றன.',
+  'error.safety': 'பாதுகாப்பு விதிகளின் காரணமாக AI சேவை இதற்குப் பதிலளிக்கவில்லை. உங்கள் செய்தியை வேறு விதமாக எழுதிப் பாருங்கள்.',
+  'error.network': 'AI சேவையை அணுக முடியவில்லை. உங்கள் இணைப்பைச் சரிபார்த்து மீண்டும் முயலவும்.',
+  'error.timeout': 'AI சேவை பதிலளிக்க மிக அதிக நேரம் எடுத்துக்கொண்டது.',
+  'error.invalid_output': 'AI சேவை அனுப்பிய பதிலைப் படிக்க முடியவில்லை.',
+  'error.server': 'AI சேவையில் இப்போது சிக்கல் உள்ளது.',
+  'error.unknown': 'AI சேவையைத் தொடர்புகொள்ளும்போது ஏதோ தவறு நடந்தது.',
+  'error.retryAfter': '{seconds} வினாடிகளில் மீண்டும் முயலவும்.',
+  'error.retry': 'மீண்டும் முயல்க',
+  'error.edit': 'செய்தியைத் திருத்து',
+  'error.chooseKey': 'API விசையைத் தேர்ந்தெடு',
+
+  'mastery.learner': 'கற்பவர்',
+  'mastery.addLearner': 'கற்பவரைச் சேர்க்கவும்...',
+  'mastery.emptyTitle': 'இன்னும் எந்தக் கருத்தும் மதிப்பிடப்படவில்லை',
+  'mastery.emptyBody': 'Encrypt உங்கள் சிந்தனையைச் சரிபார்க்கும்போது, அது மதிப்பிடும் ஒவ்வொரு கருத்தும் இங்கே தோன்றும்.',
+  'mastery.demonstrated': 'நிரூபிக்கப்பட்டவை · {count}',
+  'mastery.noneDemonstrated': 'இன்னும் எதுவும் நிரூபிக்கப்படவில்லை. தொடர்ந்து சிந்தியுங்கள்.',
+  'mastery.searching': 'இன்னும் தேடுபவை · {count}',
+  'mastery.noneSearching': 'மதிப்பிடப்பட்ட ஒவ்வொரு கருத்தும் நிரூபிக்கப்பட்டுவிட்டது.',
+  'mastery.checks_one': '{count} சரிபார்ப்பு',
+  'mastery.checks_other': '{count} சரிபார்ப்புகள்',
+  'mastery.transitions_one': '{count} மாற்றம்',
+  'mastery.transitions_other': '{count} மாற்றங்கள்',
+  'mastery.status.satisfied': 'திருப்தி',
+  'mastery.status.searching': 'தேடுகிறது',
+
+  'quiz.title': 'வினாடி வினா · {topic}',
+  'quiz.kind.multiple_choice': 'ஒன்றைத் தேர்ந்தெடுங்கள்',
+  'quiz.kind.ordering': 'படிகளை வரிசைப்படுத்துங்கள்',
+  'quiz.kind.short_answer': 'சுருக்கமான பதில்',
+  'quiz.correct': 'சரி',
+  'quiz.partly': 'ஓரளவு',
+  'quiz.notYet': 'இன்னும் இல்லை',
+  'quiz.placeholder': 'உங்கள் காரணத்தை விளக்குங்கள்...',
+  'quiz.grading': 'மதிப்பிடப்படுகிறது...',
+  'quiz.submit': 'பதில்களைச் சமர்ப்பி',
+
+  'trace.title': 'தடமறிதல் · {title}',
+  'trace.pseudocode': 'போலிக்குறியீடு',
+  'trace.doneEditing': 'திருத்தம் முடிந்தது',
+  'trace.undefined_one': 'இந்த வார்ப்புரு {names} என்பதை நீங்கள் நிரப்ப விட்டுவிடுகிறது. தடமறிவதற்கு முன் போலிக்குறியீட்டைத் திருத்தி அதை FUNCTION மூலம் வரையறுங்கள்.',
+  'trace.undefined_other': 'இந்த வார்ப்புரு {names} ஆகியவற்றை நீங்கள் நிரப்ப விட்டுவிடுகிறது. தடமறிவதற்கு முன் போலிக்குறியீட்டைத் திருத்தி அவற்றை FUNCTION மூலம் வரையறுங்கள்.',
+  'trace.first': 'முதல் படி',
+  'trace.back': 'ஒரு படி பின்',
+  'trace.forward': 'ஒரு படி முன்',
+  'trace.last': 'கடைசி படி',
+  'trace.event.line': 'இயங்குகிறது',
+  'trace.event.call': 'அழைக்கிறது',
+  'trace.event.return': 'திரும்புகிறது',
+  'trace.event.done': 'முடிந்தது',
+  'trace.event.error': 'நின்றது',
+  'trace.line': 'வரி {line}',
+  'trace.inputs': 'உள்ளீடுகள்',
+  'trace.noInputs': 'இந்தக் குறியீட்டுக்கு உள்ளீடுகள் தேவையில்லை.',
+  'trace.inputPlaceholder': 'எ.கா. 5 அல்லது [1, 2, 3]',
+  'trace.restart': 'தடமறிதலை மீண்டும் தொடங்கு',
+  'trace.start': 'தடமறிதலைத் தொடங்கு',
+  'trace.variables': 'மாறிகள்',
+  'trace.allReturned': 'எல்லா அழைப்புகளும் திரும்பிவிட்டன.',
+  'trace.noVariables': 'இன்னும் மாறிகள் இல்லை.',
+  'trace.callStack': 'அழைப்பு அடுக்கு · {depth} ஆழம்',
+
+  'report.revision': 'திருத்தம் {revision}',
+  'report.sinceLast': 'கடந்த பதிப்பிலிருந்து {delta}',
+  'report.hiddenTests': 'மறைந்த சோதனைகள் · {title}',
+  'report.passed': '{passed}/{total} தேர்ச்சி',
+  'report.case.pass': 'தேர்ச்சி',
+  'report.case.skipped': 'இயக்கப்படவில்லை',
+  'report.case.timeout': 'நேரம் முடிந்தது',
+  'report.case.error': 'செயலிழந்தது',
+  'report.case.fail': 'தவறான முடிவு',
+  'report.caseWithHint': '{hint} இல் {outcome}',
+  'runner.invalidFunction': '"{name}" சரியான ஃபங்ஷன் பெயர் அல்ல.',
+  'runner.compile': 'கோடு கம்பைல் ஆகவில்லை.',
+  'runner.line': 'வரி {line}:',
+  'runner.loadTimeout': 'கோடு ஏற்ற அதிக நேரம் ஆனது.',
+  'runner.pythonLoadTimeout': 'Python இயக்கச்சூழல் நேரத்திற்குள் ஏறவில்லை. இணைப்பைச் சரிபார்த்து மீண்டும் முயலுங்கள்.',
+  'runner.missingFunction': '"{name}" என்ற பெயரில் எந்த ஃபங்ஷனும் வரையறுக்கப்படவில்லை.',
+  'runner.loadFailed': 'ஏற்றும்போது கோடு தோல்வியடைந்தது.',
+  'runner.thrown': 'கோடு ஒரு பிழையை எழுப்பியது.',
+  'runner.timeout': '{seconds} வினாடிகளுக்குப் பிறகும் இயங்குகிறது. முடிவில்லாத லூப் உள்ளதா?',
+  'runner.resultTooLarge': 'ஒப்பிட முடியாத அளவுக்கு முடிவு பெரியதாக இருந்தது.',
+  'runner.crashed': 'கோடு சாண்ட்பாக்ஸை செயலிழக்கச் செய்தது; நினைவகம் தீர்ந்திருக்கலாம்.',
+  'report.console_one': 'கன்சோல் வெளியீடு ({count} வரி)',
+  'report.console_other': 'கன்சோல் வெளியீடு ({count} வரிகள்)',
+  'report.compared': 'முந்தைய பதிப்புடன் ஒப்பீடு',
+  'report.improved': 'என்ன மேம்பட்டது',
+  'report.fixed': 'சரிசெய்யப்பட்டவை',
+  'report.stillOpen': 'இன்னும் உள்ளவை',
+  'report.newIssues': 'இம்முறை புதியவை',
+  'report.noDifferences': 'கண்டறிந்த சிக்கல்களில் வேறுபாடு இல்லை.',
+  'report.section.strengths': 'பலங்கள்',
+  'report.section.logicalGaps': 'தர்க்க இடைவெளிகள்',
+  'report.section.misconceptions': 'தவறான புரிதல்கள்',
+  'report.section.unhandledEdgeCases': 'கையாளப்படாத விளிம்பு நிலைகள்',
+
+  'templateEditor.edit': 'வார்ப்புருவைத் திருத்து · v{version}',
+  'templateEditor.title': 'தலைப்பு',
+  'templateEditor.description': 'சுருக்கமான விளக்கம்',
+  'templateEditor.content': 'வார்ப்புரு அமைப்பு...',
+  'templateEditor.tests': 'மறைந்த சோதனைகள் · {count}',
+  'templateEditor.testsHelp': 'JavaScript, TypeScript அல்லது Python சமர்ப்பிப்புகள் இவற்றில் இயக்கப்படும். அளபுருக்கள் ஒரு JSON array; தோல்வியுற்ற சோதனையின் குறிப்பை மட்டுமே மாணவர்கள் பார்ப்பார்கள்.',
+  'templateEditor.functionName': 'அழைக்க வேண்டிய செயல்பாடு, எ.கா. binarySearch',
+  'templateEditor.expected': 'எதிர்பார்ப்பது, எ.கா. 1',
+  'templateEditor.hint': 'குறிப்பு, எ.கா. இலக்கு கடைசியில்',
+  'templateEditor.addCase': 'சோதனையைச் சேர்',
+  'templateEditor.invalidTests': 'ஒவ்வொரு சோதனைக்கும் அளபுருக்களின் JSON array-யும் எதிர்பார்க்கும் JSON மதிப்பும் தேவை; செயல்பாட்டின் பெயர் சரியான identifier ஆக இருக்க வேண்டும்.',
+  'templateEditor.history': 'பதிப்பு வரலாறு',
+  'templateEditor.restore': 'மீட்டமை',
+
+  'rubric.edit': 'மதிப்பீட்டு அளவுகோலைத் திருத்து',
+  'rubric.new': 'புதிய மதிப்பீட்டு அளவுகோல்',
+  'rubric.name': 'அளவுகோல் பெயர், எ.கா. வாரம் 4: வரிசைப்படுத்தல்',
+  'rubric.criteria': 'நிபந்தனைகள் · {total} மதிப்பெண்கள்',
+  'rubric.addCriterion': 'நிபந்தனையைச் சேர்',
+  'rubric.criterion': 'நிபந்தனை',
+  'rubric.max': 'அதிகபட்சம்',
+  'rubric.removeCriterion': 'நிபந்தனையை அகற்று',
+  'rubric.fullMarks': 'முழு மதிப்பெண் எப்படி இருக்கும்?',
+  'rubric.confirmDelete': 'அளவுகோல் "{name}" ஐ நீக்கவா? ஏற்கனவே உள்ள அறிக்கைகளின் மதிப்பெண்கள் அப்படியே இருக்கும்.',
+
+  'submission.unsupported': '"{name}" ஆதரிக்கப்படவில்லை. மூலக் கோப்புகள், படங்கள் (PNG, JPEG, WebP, HEIC), PDF-கள் அல்லது உங்கள் திட்டத்தின் .zip ஐப் பதிவேற்றுங்கள்.',
+  'submission.notText': '"{name}" உரைக் கோப்பாகத் தெரியவில்லை.',
+  'submission.archiveUnreadable': '"{name}" ஐ zip காப்பகமாகத் திறக்க முடியவில்லை.',
+  'submission.archiveEmpty': '"{name}" காலியாக உள்ளது.',
+  'submission.archiveSkipped_one': '"{name}" இல் மூலக் குறியீடு, படம் அல்லது PDF அல்லாத {count} கோப்பு தவிர்க்கப்பட்டது.',
+  'submission.archiveSkipped_other': '"{name}" இல் மூலக் குறியீடு, படங்கள் அல்லது PDF அல்லாத {count} கோப்புகள் தவிர்க்கப்பட்டன.',
+  'submission.archiveTooLarge': '"{name}" இன் அளவு {size}; காப்பகங்கள் அதிகபட்சம் {limit} இருக்கலாம்.',
+  'submission.sourceTooLarge': '"{name}" இன் அளவு {size}; மூலக் கோப்புகள் அதிகபட்சம் {limit} இருக்கலாம்.',
+  'submission.inlineTooLarge': '"{name}" இன் அளவு {size}; படங்களும் PDF-களும் அதிகபட்சம் {limit} இருக்கலாம்.',
+  'submission.tooManyFiles': 'ஒரு சமர்ப்பிப்பில் அதிகபட்சம் {max} கோப்புகள் இருக்கலாம்; "{name}" சேர்க்கப்படவில்லை.',
+  'submission.overTotal': '"{name}" சமர்ப்பிப்பை {limit} ஐத் தாண்டச் செய்யும்.',
+  'submission.readFailed': 'அந்தக் கோப்புகளைப் படிக்க முடியவில்லை. மீண்டும் முயலுங்கள்.',
+  'submission.uploaded': 'கட்டமைப்பு மதிப்பாய்வுக்காக {files} பதிவேற்றியுள்ளேன்.',
+  'submission.uploadedMore_one': 'கட்டமைப்பு மதிப்பாய்வுக்காக {files} மற்றும் மேலும் {count} கோப்பைப் பதிவேற்றியுள்ளேன்.',
+  'submission.uploadedMore_other': 'கட்டமைப்பு மதிப்பாய்வுக்காக {files} மற்றும் மேலும் {count} கோப்புகளைப் பதிவேற்றியுள்ளேன்.',
+
+  'code.plainText': 'வெற்று உரை',
+  'code.detected': 'மொழி தானாகக் கண்டறியப்பட்டது',
+  'code.lineNumbers': 'வரி எண்கள்',
+  'code.copy': 'நகலெடு',
+  'code.copied': 'நகலெடுக்கப்பட்டது',
+  'common.edit': 'திருத்து',
+  'common.new': 'புதியது',
+  'common.rename': 'பெயர் மாற்று',
+  'common.delete': 'நீக்கு',
+  'common.remove': 'அகற்று',
+  'common.cancel': 'ரத்துசெய்',
+  'common.save': 'சேமி',
+  'common.saving': 'சேமிக்கிறது...',
+  'common.add': 'சேர்',
+  'common.show': 'காட்டு',
+  'common.hide': 'மறை',
+  'common.copy': 'நகலெடு',
+};
@@ -0,0 +1,388 @@
+import { Messages } from './en';
+
+export const te: Messages = {
+  'language.label': 'ఇంటర్‌ఫేస్ భాష',
+
+  'header.sessions': 'అధ్యయన సెషన్‌లు',
+  'header.subtitle': 'అనంతం',
+  'header.satisfied': 'సంతృప్తి',
+  'header.socratic': 'సోక్రటిక్',
+
+  'level.Beginner': 'ప్రారంభ స్థాయి',
+  'level.Intermediate': 'మధ్యస్థ స్థాయి',
+  'level.Advanced': 'ఉన్నత స్థాయి',
+  'level.suggested': 'మీ ట్యూటర్ {level} స్థాయికి మారమని సూచిస్తున్నారు.',
+  'level.switch': 'మార్చు',
+  'level.keep': 'ప్రస్తుతదే ఉంచు',
+  'level.step': '{level}, దశ {step}/{steps}',
+  'level.adjusted': 'మీ స్థాయి {level}కి మార్చబడింది.',
+  'level.undo': 'రద్దు చేయి',
+  'level.ok': 'సరే',
+  'level.quizReason': 'మీ క్విజ్ స్కోరు {score}%.',
+  'level.mode': 'స్థాయి మోడ్',
+  'level.mode.manual': 'మాన్యువల్',
+  'level.mode.suggest': 'అనుకూల: మార్పులను సూచించు',
+  'level.mode.auto': 'అనుకూల: స్వయంచాలకంగా మార్చు',
+  'level.history': 'స్థాయి చరిత్ర',
+  'level.source.manual': 'మీరు ఎంచుకున్నది',
+  'level.source.diagnostic': 'నిర్ధారణ ప్రశ్నలు',
+  'level.source.conversation': 'సంభాషణ',
+  'level.source.quiz': 'క్విజ్',
+
+  'chat.title': 'తర్క ప్రవాహం',
+  'chat.you': 'మీరు',
+  'chat.stopped': 'ఆపబడింది',
+  'chat.placeholder': 'మీ ఆలోచనల నిర్మాణం గురించి చర్చించండి...',
+  'chat.stop': 'సమాధానం ఆపండి',
+  'chat.pin': 'సందర్భంలో ఉంచండి',
+  'chat.unpin': 'సందర్భంలో ఉంచడం ఆపండి',
+  'chat.summarized': 'పాత సంభాషణ సారాంశం చేయబడింది',
+  'chat.welcome': 'నమస్కారం. నేను **Encrypt**. \n\nసమాధానాలు నేరుగా ఇవ్వకుండా, క్లిష్టమైన తర్కాన్ని విడదీసి అర్థం చేసుకోవడంలో మీకు సహాయం చేయడానికి నేను ఇక్కడ ఉన్నాను.\n\nనాకు **English, हिन्दी, తెలుగు, தமிழ்** మరియు అనేక ఇతర భారతీయ భాషలు వచ్చు.\n\nపైన మీ జ్ఞాన స్థాయిని ఎంచుకుని చెప్పండి: **ఈ రోజు మనం ఏ భావనను నిర్మిద్దాం?**',
+  'chat.quizFailed': 'ఇప్పుడు క్విజ్ తయారు చేయలేకపోయాను. దయచేసి మళ్లీ ప్రయత్నించండి.',
+  'chat.quizIntro': '**{topic}** పై మీ అవగాహనను పరీక్షిద్దాం. ప్రతి ప్రశ్నకు సమాధానం ఇచ్చి, ఆపై సమర్పించండి.',
+  'chat.fallbackReply': 'అర్థమైంది. ఈ లాజిక్ నిర్మాణాన్ని పరిశీలిద్దాం.',
+
+  'action.analogy': 'ఉపమానం',
+  'action.analogyPrompt': 'దీనిని ఒక నిజ జీవిత ఉపమానంతో వివరించండి.',
+  'action.quiz': 'నన్ను పరీక్షించండి',
+  'action.realWorld': 'నిజ ప్రపంచం',
+  'action.realWorldPrompt': 'నిజ ప్రపంచంలోని ఒక అప్లికేషన్‌లో ఇది ఎలా ఉపయోగపడుతుంది?',
+  'action.visualize': 'దృశ్యీకరించు',
+  'action.visualizePrompt': 'ప్రస్తుత భావనను వివరించడానికి దయచేసి ఒక చిత్రం లేదా రేఖాచిత్రం ఇవ్వండి.',
+
+  'hint.stuck': 'నేను ఇరుక్కుపోయాను',
+  'hint.stuckPrompt': 'నేను ఇరుక్కుపోయాను. నాకు ఒక సూచన ఇస్తారా?',
+  'hint.badge': 'సూచన {number}/{max}',
+  'hint.level.nudge': 'చిన్న సూచన',
+  'hint.level.subproblem': 'ఉప-సమస్య',
+  'hint.level.skeleton': 'అస్థిపంజరం',
+  'hint.currentProblem': 'ప్రస్తుత సమస్య',
+
+  'tab.visualizer': 'బ్లూప్రింట్',
+  'tab.templates': 'జ్ఞానం',
+  'tab.upload': 'సమర్పణలు',
+  'tab.image_gen': 'కాన్వాస్',
+  'tab.mastery': 'ప్రావీణ్యం',
+
+  'category.All': 'అన్నీ',
+  'category.Coding': 'కోడింగ్',
+  'category.Algorithms': 'అల్గారిథమ్‌లు',
+  'category.Mathematics': 'గణితం',
+  'category.Science': 'విజ్ఞానశాస్త్రం',
+  'category.Writing': 'రచన',
+  'category.Systems': 'సిస్టమ్స్',
+  'category.Database': 'డేటాబేస్',
+  'category.Philosophy': 'తత్వశాస్త్రం',
+  'category.Economics': 'అర్థశాస్త్రం',
+
+  'templates.search': 'తర్క టెంప్లేట్‌లను వెతకండి...',
+  'templates.new': 'కొత్త టెంప్లేట్',
+  'templates.import': 'ప్యాక్ దిగుమతి',
+  'templates.export': 'ప్యాక్ ఎగుమతి',
+  'templates.packName': 'Encrypt టెంప్లేట్‌లు',
+  'templates.categoryPackName': '{category} టెంప్లేట్‌లు',
+  'templates.synthTitle': 'నమూనా సృష్టికర్త',
+  'templates.synthBody': 'ఈ భావన కనబడలేదు. Encrypt మీ కోసం కొత్త టెంప్లేట్‌ను రూపొందించగలదు.',
+  'templates.synthesizing': 'రూపొందిస్తోంది...',
+  'templates.synthesize': 'తర్కాన్ని రూపొందించు',
+  'templates.hiddenTests_one': '{count} దాచిన పరీక్ష',
+  'templates.hiddenTests_other': '{count} దాచిన పరీక్షలు',
+  'templates.sessionOnly': 'ఈ సెషన్‌కు మాత్రమే',
+  'templates.saveToLibrary': 'లైబ్రరీలో సేవ్ చేయి',
+  'templates.duplicate': 'నకలు చేయి',
+  'templates.startGuided': 'మార్గదర్శక సెషన్ ప్రారంభించు',
+  'templates.stepThrough': 'దశలవారీగా నడుపు',
+  'templates.confirmDelete_one': '"{title}" మరియు దాని {count} పాత రూపాన్ని తొలగించాలా?',
+  'templates.confirmDelete_other': '"{title}" మరియు దాని {count} పాత రూపాలను తొలగించాలా?',
+
+  'upload.title': 'అసైన్‌మెంట్ సమీక్ష',
+  'upload.body': 'నిర్మాణాత్మక మూల్యాంకనం కోసం మీ తర్క ముసాయిదాలను సమర్పించండి: సోర్స్ ఫైళ్లు, ప్రాజెక్ట్ .zip, PDFలు లేదా చేతితో రాసిన పని ఫోటోలు.',
+  'upload.browse': 'ఫైళ్లను ఎంచుకోండి',
+  'upload.addMore': 'మరిన్ని ఫైళ్లు జోడించండి',
+  'upload.rubric': 'రూబ్రిక్',
+  'upload.points': '{count} మార్కులు',
+  'upload.tests': 'పరీక్షలు',
+  'upload.noTests': 'దాచిన పరీక్షలు నడపవద్దు',
+  'upload.testCount': '{count} పరీక్షలు',
+  'upload.testing': 'దాచిన పరీక్షలు నడుస్తున్నాయి...',
+  'upload.reviewing': 'రూబ్రిక్ ప్రకారం సమీక్షిస్తోంది...',
+  'upload.reports': 'అభిప్రాయ నివేదికలు',
+
+  'canvas.placeholder': 'ఒక దృశ్యాన్ని ఊహించి రాయండి...',
+  'canvas.size1K': 'సాధారణ 1K',
+  'canvas.size2K': 'హై-రెస్ 2K',
+  'canvas.size4K': 'అల్ట్రా-రెస్ 4K',
+  'canvas.generating': 'ఊహిస్తోంది...',
+  'canvas.render': 'చిత్రం రూపొందించు',
+  'canvas.rendering': 'రూపొందుతోంది...',
+  'canvas.append': 'బ్లూప్రింట్‌కు జోడించు',
+  'canvas.empty': 'కాన్వాస్ ఖాళీగా ఉంది',
+  'canvas.generatedAlt': 'రూపొందించిన భావన చిత్రం',
+
+  'nav.workspace': 'కార్యక్షేత్రం',
+
+  'toast.cheat': 'ముందు ఆలోచించండి! నేను నేరుగా కోడ్ ఇవ్వలేను. తర్కం గురించి మాట్లాడుకుందాం.',
+  'toast.quizNeedsContext': 'ముందు ఒక భావనను అన్వేషిద్దాం, తర్వాత దానిపై మిమ్మల్ని పరీక్షిస్తాను.',
+  'toast.gradingFailed': 'మూల్యాంకనం విఫలమైంది. దయచేసి మళ్లీ సమర్పించండి.',
+  'toast.noSteps': 'ఈ టెంప్లేట్‌లో దశలవారీగా నడవడానికి సంఖ్యలతో కూడిన దశలు లేవు.',
+  'toast.waitForReply': 'ప్రస్తుత సమాధానం పూర్తయ్యే వరకు ఆగి, ఆ దశ గురించి అడగండి.',
+  'toast.rubricSaveFailed': 'రూబ్రిక్‌ను సేవ్ చేయలేకపోయాం.',
+  'toast.templateSaveFailed': 'టెంప్లేట్‌ను సేవ్ చేయలేకపోయాం.',
+  'toast.packImported': '{added} కొత్తవి దిగుమతి అయ్యాయి, {updated} నవీకరించబడ్డాయి.',
+  'toast.packImportedSkipped': '{added} కొత్తవి దిగుమతి అయ్యాయి, {updated} నవీకరించబడ్డాయి, {skipped} చెల్లనివి వదిలివేయబడ్డాయి.',
+  'toast.packImportFailed': 'టెంప్లేట్ ప్యాక్ దిగుమతి విఫలమైంది.',
+  'toast.packError.invalidJson': 'ఫైల్ చెల్లుబాటు అయ్యే JSON కాదు.',
+  'toast.packError.notPack': 'ఈ ఫైల్ Encrypt టెంప్లేట్ ప్యాక్ కాదు.',
+  'toast.packError.newerVersion': 'ఈ ప్యాక్ Encrypt యొక్క కొత్త వెర్షన్ నుండి ఎగుమతి చేయబడింది.',
+  'toast.exportFailed': 'ఎగుమతి విఫలమైంది. దయచేసి మళ్లీ ప్రయత్నించండి.',
+
+  'visualizer.emptyTitle': 'దృశ్య ప్రవాహం',
+  'visualizer.emptyBody': 'మీరు Encrypt తో మాట్లాడుతున్న కొద్దీ, క్లిష్టమైన తర్కాన్ని స్పష్టం చేసే రేఖాచిత్రాలు మరియు చిత్రాలు ఇక్కడ కనిపిస్తాయి.',
+  'visualizer.title': 'సక్రియ బ్లూప్రింట్‌లు',
+  'visualizer.components_one': '{count} భాగం',
+  'visualizer.components_other': '{count} భాగాలు',
+  'visualizer.footer': 'తర్క ప్రవాహంతో పాటు స్వయంచాలకంగా నవీకరించబడుతుంది',
+  'visualizer.vision': 'భావనాత్మక చిత్రం',
+  'visualizer.repaired': 'సరిచేయబడింది',
+  'visualizer.failed': 'విఫలం',
+  'visualizer.edited': 'సవరించబడింది',
+  'visualizer.repairedTitle_one': '{count} పార్స్ లోపం తర్వాత స్వయంచాలకంగా సరిచేయబడింది',
+  'visualizer.repairedTitle_other': '{count} పార్స్ లోపాల తర్వాత స్వయంచాలకంగా సరిచేయబడింది',
+  'visualizer.failedTitle': 'ట్యూటర్ ఈ రేఖాచిత్రం యొక్క సరైన రూపాన్ని తయారు చేయలేకపోయారు',
+  'visualizer.editedTitle': 'మునుపటి బ్లూప్రింట్‌కు మీ సవరణ',
+
+  'diagram.syntaxError': 'Mermaid సింటాక్స్ లోపం',
+  'diagram.source': 'మూలం',
+  'diagram.zoomOut': 'చిన్నదిగా చేయి',
+  'diagram.zoomIn': 'పెద్దదిగా చేయి',
+  'diagram.resetView': 'వీక్షణను రీసెట్ చేయి',
+  'diagram.action.explain': 'ఈ దశను వివరించండి',
+  'diagram.action.why-branch': 'ఈ శాఖ ఎందుకు?',
+  'diagram.action.what-if-fails': 'ఇది విఫలమైతే?',
+  'diagram.action.example': 'దీని ద్వారా ఒక ఉదాహరణను నడిపి చూపండి',
+
+  'blueprint.label': 'బ్లూప్రింట్ {number}',
+  'blueprint.labelRevision': 'బ్లూప్రింట్ {number} · సవరణ {revision}',
+  'blueprint.compare': 'పోల్చు',
+  'blueprint.revisions': 'సవరణలు',
+  'blueprint.original': 'అసలు',
+  'blueprint.revision': 'సవరణ {revision}',
+  'blueprint.source': 'Mermaid మూలం',
+  'blueprint.preview': 'ప్రత్యక్ష ప్రివ్యూ',
+  'blueprint.before': 'ముందు',
+  'blueprint.after': 'తర్వాత',
+  'blueprint.changes': 'మార్పులు',
+  'blueprint.legend.added': 'జోడించబడింది',
+  'blueprint.legend.removed': 'తీసివేయబడింది',
+  'blueprint.legend.changed': 'పేరు మార్చబడింది',
+  'blueprint.pickTwo': 'పోల్చడానికి రెండు వేర్వేరు బ్లూప్రింట్‌లను ఎంచుకోండి.',
+  'blueprint.sameStructure': 'ఈ రెండు రూపాల నిర్మాణం ఒకటే.',
+  'blueprint.linesOnly': 'ఫ్లోచార్ట్‌లను మాత్రమే నోడ్ వారీగా పోల్చవచ్చు; అందుకే మారిన మూల పంక్తులను చూపిస్తున్నాం.',
+  'blueprint.change.addedStep': 'దశ "{label}" జోడించబడింది',
+  'blueprint.change.removedStep': 'దశ "{label}" తీసివేయబడింది',
+  'blueprint.change.renamedStep': '"{before}" పేరు "{after}"గా మార్చబడింది',
+  'blueprint.change.addedLink': 'లింక్ {link} జోడించబడింది',
+  'blueprint.change.removedLink': 'లింక్ {link} తీసివేయబడింది',
+  'blueprint.change.addedLine': 'పంక్తి జోడించబడింది: {line}',
+  'blueprint.change.removedLine': 'పంక్తి తీసివేయబడింది: {line}',
+  'blueprint.unsaved': 'సేవ్ చేయని మార్పులు',
+  'blueprint.savedAsRevisions': 'సవరణలు కొత్త రూపాలుగా సేవ్ అవుతాయి; అసలుది స్టాక్‌లోనే ఉంటుంది.',
+  'blueprint.saveRevision': 'సవరణను సేవ్ చేయి',
+  'blueprint.changeFirst': 'ముందుగా ఏదైనా మార్పు చేయండి',
+  'blueprint.check': 'నా రూపం సరైనదేనా?',
+  'blueprint.discard': 'ఈ బ్లూప్రింట్‌లో సేవ్ చేయని మార్పులను వదిలేయాలా?',
+
+  'sessions.title': 'అధ్యయన సెషన్‌లు',
+  'sessions.new': 'కొత్త సెషన్',
+  'sessions.empty': 'ఇంకా సేవ్ చేసిన సెషన్‌లు లేవు.',
+  'sessions.untitled': 'పేరులేని సెషన్',
+  'sessions.turns_one': '{count} సంభాషణ',
+  'sessions.turns_other': '{count} సంభాషణలు',
+
+  'tray.summary': '{count} / {max} ఫైళ్లు · {limit} లో {size}',
+  'tray.clear': 'తొలగించు',
+  'tray.submit': 'సమీక్షకు సమర్పించండి',
+  'tray.reading': 'ఫైళ్లను చదువుతోంది...',
+
+  'walkthrough.title': 'మార్గదర్శక అభ్యాసం',
+  'walkthrough.complete': 'పూర్తయింది',
+  'walkthrough.step': 'దశ {current} / {total}',
+  'walkthrough.dismiss': 'మూసివేయి',
+  'walkthrough.end': 'ముగించు',
+  'walkthrough.startPrompt': '"{title}" టెంప్లేట్‌ను ఒక్కో అడుగు చొప్పున నాకు వివరించండి.',
+  'walkthrough.sessionName': 'గైడెడ్: {title}',
+
+  'export.button': 'సెషన్ ఎగుమతి',
+  'export.heading': 'సెషన్ ఎగుమతి',
+  'export.preparing': 'సిద్ధం చేస్తోంది...',
+  'export.htmlHint': 'ఒకే స్వయంసంపూర్ణ ఫైల్',
+  'export.markdownHint': 'assets ఫోల్డర్‌తో .zip',
+  'export.pdfHint': 'ముద్రణకు అనువైన లేఅవుట్',
+
+  'gate.revealed': 'మీ ప్రయత్నం తర్వాత పూర్తి పరిష్కారం చూపబడింది',
+  'gate.code': 'పూర్తి ప్రోగ్రామ్',
+  'gate.proof': 'పూర్తి నిరూపణ',
+  'gate.and': ' మరియు ',
+  'gate.body': 'ఈ సమాధానంలో {kinds} ఉంది, కాబట్టి దానిని కేవలం చట్రానికి తగ్గించాం.',
+  'gate.canReveal': 'మీరు ప్రయత్నించారు, కాబట్టి ఇప్పుడు దానిని పూర్తి రూపంతో పోల్చుకోవచ్చు.',
+  'gate.cannotReveal': 'ఖాళీలను మీరే పూరించి మీ ప్రయత్నాన్ని పంచుకుంటే పూర్తి రూపం తెరుచుకుంటుంది.',
+  'gate.reveal': 'పరిష్కారం చూపించు',
+
+  'error.auth': 'AI సేవ API కీని అంగీకరించలేదు.',
+  'error.permission': 'ఈ API కీతో ఆ మోడల్‌ను ఉపయోగించడానికి అనుమతి లేదు. చెల్లింపు ప్రాజెక్ట్ నుండి కీని ఎంచుకోండి.',
+  'error.quota': 'AI సేవకు ప్రస్తుతం చాలా ఎక్కువ అభ్యర్థనలు వస్తున్నాయి.',
+  'error.safety': 'AI సేవ తన భద్రతా నియమాల కారణంగా దీనికి సమాధానం ఇవ్వలేదు. మీ సందేశాన్ని మరో విధంగా రాసి చూడండి.',
+  'error.network': 'AI సేవను చేరుకోలేకపోయాం. మీ కనెక్షన్‌ను తనిఖీ చేసి మళ్లీ ప్రయత్నించండి.',
+  'error.timeout': 'AI సేవ స్పందించడానికి చాలా సమయం తీసుకుంది.',
+  'error.invalid_output': 'AI సేవ పంపిన సమాధానాన్ని చదవలేకపోయాం.',
+  'error.server': 'AI సేవలో ప్రస్తుతం సమస్య ఉంది.',
+  'error.unknown': 'AI సేవను సంప్రదిస్తున్నప్పుడు ఏదో పొరపాటు జరిగింది.',
+  'error.retryAfter': '{seconds} సెకన్ల తర్వాత మళ్లీ ప్రయత్నించండి.',
+  'error.retry': 'మళ్లీ ప్రయత్నించండి',
+  'error.edit': 'సందేశాన్ని సవరించండి',
+  'error.chooseKey': 'API కీని ఎంచుకోండి',
+
+  'mastery.learner': 'అభ్యాసకుడు',
+  'mastery.addLearner': 'అభ్యాసకుడిని జోడించండి...',
+  'mastery.emptyTitle': 'ఇంకా ఏ భావననూ అంచనా వేయలేదు',
+  'mastery.emptyBody': 'Encrypt మీ తర్కాన్ని తనిఖీ చేస్తున్నప్పుడు, అది అంచనా వేసే ప్రతి భావన ఇక్కడ కనిపిస్తుంది.',
+  'mastery.demonstrated': 'నిరూపించినవి · {count}',
+  'mastery.noneDemonstrated': 'ఇంకా ఏదీ నిరూపించలేదు. ఆలోచిస్తూనే ఉండండి.',
+  'mastery.searching': 'ఇంకా వెతుకుతున్నవి · {count}',
+  'mastery.noneSearching': 'అంచనా వేసిన ప్రతి భావనా నిరూపించబడింది.',
+  'mastery.checks_one': '{count} తనిఖీ',
+  'mastery.checks_other': '{count} తనిఖీలు',
+  'mastery.transitions_one': '{count} మార్పు',
+  'mastery.transitions_other': '{count} మార్పులు',
+  'mastery.status.satisfied': 'సంతృప్తి',
+  'mastery.status.searching': 'వెతుకుతోంది',
+
+  'quiz.title': 'క్విజ్ · {topic}',
+  'quiz.kind.multiple_choice': 'ఒకటి ఎంచుకోండి',
+  'quiz.kind.ordering': 'దశలను క్రమంలో పెట్టండి',
+  'quiz.kind.short_answer': 'చిన్న సమాధానం',
+  'quiz.correct': 'సరైనది',
+  'quiz.partly': 'పాక్షికం',
+  'quiz.notYet': 'ఇంకా కాదు',
+  'quiz.placeholder': 'మీ తర్కాన్ని వివరించండి...',
+  'quiz.grading': 'మూల్యాంకనం జరుగుతోంది...',
+  'quiz.submit': 'సమాధానాలు సమర్పించండి',
+
+  'trace.title': 'ట్రేస్ · {title}',
+  'trace.pseudocode': 'సూడోకోడ్',
+  'trace.doneEditing': 'సవరణ పూర్తైంది',
+  'trace.undefined_one': 'ఈ టెంప్లేట్ {names}ని మీరు పూరించడానికి వదిలేస్తుంది. ట్రేస్ చేసే ముందు సూడోకోడ్‌ను సవరించి దాన్ని FUNCTIONతో నిర్వచించండి.',
+  'trace.undefined_other': 'ఈ టెంప్లేట్ {names}ని మీరు పూరించడానికి వదిలేస్తుంది. ట్రేస్ చేసే ముందు సూడోకోడ్‌ను సవరించి వాటిని FUNCTIONతో నిర్వచించండి.',
+  'trace.first': 'మొదటి దశ',
+  'trace.back': 'ఒక దశ వెనక్కి',
+  'trace.forward': 'ఒక దశ ముందుకు',
+  'trace.last': 'చివరి దశ',
+  'trace.event.line': 'నడుస్తోంది',
+  'trace.event.call': 'కాల్ చేస్తోంది',
+  'trace.event.return': 'తిరిగి వస్తోంది',
+  'trace.event.done': 'పూర్తైంది',
+  'trace.event.error': 'ఆగిపోయింది',
+  'trace.line': 'పంక్తి {line}',
+  'trace.inputs': 'ఇన్‌పుట్‌లు',
+  'trace.noInputs': 'ఈ కోడ్‌కు ఇన్‌పుట్‌లు అవసరం లేదు.',
+  'trace.inputPlaceholder': 'ఉదా. 5 లేదా [1, 2, 3]',
+  'trace.restart': 'ట్రేస్ మళ్లీ ప్రారంభించు',
+  'trace.start': 'ట్రేస్ ప్రారంభించు',
+  'trace.variables': 'వేరియబుల్స్',
+  'trace.allReturned': 'అన్ని కాల్‌లు తిరిగి వచ్చాయి.',
+  'trace.noVariables': 'ఇంకా వేరియబుల్స్ లేవు.',
+  'trace.callStack': 'కాల్ స్టాక్ · {depth} లోతు',
+
+  'report.revision': 'సవరణ {revision}',
+  'report.sinceLast': 'గత రూపం నుండి {delta}',
+  'report.hiddenTests': 'దాచిన పరీక్షలు · {title}',
+  'report.passed': '{passed}/{total} ఉత్తీర్ణం',
+  'report.case.pass': 'ఉత్తీర్ణం',
+  'report.case.skipped': 'నడపలేదు',
+  'report.case.timeout': 'సమయం ముగిసింది',
+  'report.case.error': 'క్రాష్ అయింది',
+  'report.case.fail': 'తప్పు ఫలితం',
+  'report.caseWithHint': '{hint} వద్ద {outcome}',
+  'runner.invalidFunction': '"{name}" సరైన ఫంక్షన్ పేరు కాదు.',
+  'runner.compile': 'కోడ్ కంపైల్ కావడం లేదు.',
+  'runner.line': 'పంక్తి {line}:',
+  'runner.loadTimeout': 'కోడ్ లోడ్ కావడానికి చాలా సమయం పట్టింది.',
+  'runner.pythonLoadTimeout': 'Python రన్‌టైమ్ సమయానికి లోడ్ కాలేదు. మీ కనెక్షన్‌ను తనిఖీ చేసి మళ్లీ ప్రయత్నించండి.',
+  'runner.missingFunction': '"{name}" అనే పేరుతో ఏ ఫంక్షన్ నిర్వచించబడలేదు.',
+  'runner.loadFailed': 'లోడ్ అవుతున్నప్పుడు కోడ్ విఫలమైంది.',
+  'runner.thrown': 'కోడ్ ఒక లోపాన్ని ఇచ్చింది.',
+  'runner.timeout': '{seconds} సెకన్ల తర్వాత కూడా నడుస్తోంది. ఎప్పటికీ ముగియని లూప్ ఉందా?',
+  'runner.resultTooLarge': 'ఫలితం పోల్చడానికి చాలా పెద్దదిగా ఉంది.',
+  'runner.crashed': 'కోడ్ శాండ్‌బాక్స్‌ను క్రాష్ చేసింది; మెమరీ అయిపోయి ఉండవచ్చు.',
+  'report.console_one': 'కన్సోల్ అవుట్‌పుట్ ({count} పంక్తి)',
+  'report.console_other': 'కన్సోల్ అవుట్‌పుట్ ({count} పంక్తులు)',
+  'report.compared': 'గత రూపంతో పోలిక',
+  'report.improved': 'ఏం మెరుగైంది',
+  'report.fixed': 'సరిచేయబడినవి',
+  'report.stillOpen': 'ఇంకా మిగిలినవి',
+  'report.newIssues': 'ఈసారి కొత్తవి',
+  'report.noDifferences': 'కనుగొన్న సమస్యలలో తేడా లేదు.',
+  'report.section.strengths': 'బలాలు',
+  'report.section.logicalGaps': 'తార్కిక లోపాలు',
+  'report.section.misconceptions': 'అపోహలు',
+  'report.section.unhandledEdgeCases': 'నిర్వహించని ఎడ్జ్ కేసులు',
+
+  'templateEditor.edit': 'టెంప్లేట్ సవరించు · v{version}',
+  'templateEditor.title': 'శీర్షిక',
+  'templateEditor.description': 'సంక్షిప్త వివరణ',
+  'templateEditor.content': 'టెంప్లేట్ నిర్మాణం...',
+  'templateEditor.tests': 'దాచిన పరీక్షలు · {count}',
+  'templateEditor.testsHelp': 'JavaScript, TypeScript లేదా Pythonలో సమర్పణలు వీటిపై నడపబడతాయి. ఆర్గ్యుమెంట్‌లు JSON array; విఫలమైన కేసు సూచన మాత్రమే విద్యార్థులకు కనిపిస్తుంది.',
+  'templateEditor.functionName': 'పిలవాల్సిన ఫంక్షన్, ఉదా. binarySearch',
+  'templateEditor.expected': 'ఆశించినది, ఉదా. 1',
+  'templateEditor.hint': 'సూచన, ఉదా. చివరలో లక్ష్యం',
+  'templateEditor.addCase': 'టెస్ట్ కేస్ జోడించు',
+  'templateEditor.invalidTests': 'ప్రతి పరీక్షకు ఆర్గ్యుమెంట్‌ల JSON array మరియు ఆశించిన JSON విలువ కావాలి, ఫంక్షన్ పేరు చెల్లుబాటు అయ్యే identifier అయి ఉండాలి.',
+  'templateEditor.history': 'రూపాల చరిత్ర',
+  'templateEditor.restore': 'పునరుద్ధరించు',
+
+  'rubric.edit': 'రూబ్రిక్ సవరించు',
+  'rubric.new': 'కొత్త రూబ్రిక్',
+  'rubric.name': 'రూబ్రిక్ పేరు, ఉదా. వారం 4: సార్టింగ్',
+  'rubric.criteria': 'ప్రమాణాలు · {total} మార్కులు',
+  'rubric.addCriterion': 'ప్రమాణం జోడించు',
+  'rubric.criterion': 'ప్రమాణం',
+  'rubric.max': 'గరిష్ఠం',
+  'rubric.removeCriterion': 'ప్రమాణం తీసివేయి',
+  'rubric.fullMarks': 'పూర్తి మార్కులు ఎలా ఉంటాయి?',
+  'rubric.confirmDelete': 'రూబ్రిక్ "{name}" తొలగించాలా? ఇప్పటికే ఉన్న నివేదికల మార్కులు అలాగే ఉంటాయి.',
+
+  'submission.unsupported': '"{name}"కు మద్దతు లేదు. సోర్స్ ఫైల్‌లు, చిత్రాలు (PNG, JPEG, WebP, HEIC), PDFలు లేదా మీ ప్రాజెక్ట్ .zipను అప్‌లోడ్ చేయండి.',
+  'submission.notText': '"{name}" టెక్స్ట్ ఫైల్‌లా కనిపించడం లేదు.',
+  'submission.archiveUnreadable': '"{name}"ను zip ఆర్కైవ్‌గా తెరవలేకపోయాం.',
+  'submission.archiveEmpty': '"{name}" ఖాళీగా ఉంది.',
+  'submission.archiveSkipped_one': '"{name}"లో సోర్స్ కోడ్, చిత్రం లేదా PDF కాని {count} ఫైల్‌ను వదిలేశాం.',
+  'submission.archiveSkipped_other': '"{name}"లో సోర్స్ కోడ్, చిత్రాలు లేదా PDFలు కాని {count} ఫైల్‌లను వదిలేశాం.',
+  'submission.archiveTooLarge': '"{name}" పరిమాణం {size}; ఆర్కైవ్‌లు గరిష్ఠంగా {limit} ఉండవచ్చు.',
+  'submission.sourceTooLarge': '"{name}" పరిమాణం {size}; సోర్స్ ఫైల్‌లు గరిష్ఠంగా {limit} ఉండవచ్చు.',
+  'submission.inlineTooLarge': '"{name}" పరిమాణం {size}; చిత్రాలు మరియు PDFలు గరిష్ఠంగా {limit} ఉండవచ్చు.',
+  'submission.tooManyFiles': 'ఒక సమర్పణలో గరిష్ఠంగా {max} ఫైల్‌లు ఉండవచ్చు; "{name}" జోడించబడలేదు.',
+  'submission.overTotal': '"{name}" వల్ల సమర్పణ {limit} దాటుతుంది.',
+  'submission.readFailed': 'ఆ ఫైల్‌లను చదవలేకపోయాం. దయచేసి మళ్లీ ప్రయత్నించండి.',
+  'submission.uploaded': 'నిర్మాణ సమీక్ష కోసం {files} అప్‌లోడ్ చేశాను.',
+  'submission.uploadedMore_one': 'నిర్మాణ సమీక్ష కోసం {files}, మరో {count} ఫైల్ అప్‌లోడ్ చేశాను.',
+  'submission.uploadedMore_other': 'నిర్మాణ సమీక్ష కోసం {files}, మరో {count} ఫైల్‌లు అప్‌లోడ్ చేశాను.',
+
+  'code.plainText': 'సాధారణ పాఠ్యం',
+  'code.detected': 'భాష స్వయంచాలకంగా గుర్తించబడింది',
+  'code.lineNumbers': 'పంక్తి సంఖ్యలు',
+  'code.copy': 'కాపీ చేయి',
+  'code.copied': 'కాపీ అయింది',
+  'common.edit': 'సవరించు',
+  'common.new': 'కొత్తది',
+  'common.rename': 'పేరు మార్చు',
+  'common.delete': 'తొలగించు',
+  'common.remove': 'తీసివేయి',
+  'common.cancel': 'రద్దు చేయి',
+  'common.save': 'సేవ్ చేయి',
+  'common.saving': 'సేవ్ అవుతోంది...',
+  'common.add': 'జోడించు',
+  'common.show': 'చూపించు',
+  'common.hide': 'దాచు',
+  'common.copy': 'కాపీ చేయి',
+};
@@ -0,0 +1,388 @@
+import { Messages } from './en';
+
+export const ur: Messages = {
+  'language.label': 'انٹرفیس کی زبان',
+
+  'header.sessions': 'مطالعے کے سیشن',
+  'header.subtitle': 'لامحدود',
+  'header.satisfied': 'مطمئن',
+  'header.socratic': 'سقراطی',
+
+  'level.Beginner': 'ابتدائی',
+  'level.Intermediate': 'درمیانہ',
+  'level.Advanced': 'اعلیٰ',
+  'level.suggested': 'آپ کے ٹیوٹر {level} سطح پر جانے کا مشورہ دیتے ہیں۔',
+  'level.switch': 'بدلیں',
+  'level.keep': 'موجودہ رکھیں',
+  'level.step': '{level}، مرحلہ {step}/{steps}',
+  'level.adjusted': 'آپ کی سطح {level} کر دی گئی ہے۔',
+  'level.undo': 'واپس کریں',
+  'level.ok': 'ٹھیک ہے',
+  'level.quizReason': 'آپ کا کوئز اسکور {score}% ہے۔',
+  'level.mode': 'سطح کا موڈ',
+  'level.mode.manual': 'دستی',
+  'level.mode.suggest': 'موافق: تبدیلیاں تجویز کریں',
+  'level.mode.auto': 'موافق: خود بخود بدلیں',
+  'level.history': 'سطح کی تاریخ',
+  'level.source.manual': 'آپ کی منتخب کردہ',
+  'level.source.diagnostic': 'تشخیصی سوالات',
+  'level.source.conversation': 'گفتگو',
+  'level.source.quiz': 'کوئز',
+
+  'chat.title': 'منطق کا دھارا',
+  'chat.you': 'آپ',
+  'chat.stopped': 'روک دیا گیا',
+  'chat.placeholder': 'اپنے خیالات کی ساخت پر بات کریں...',
+  'chat.stop': 'جواب روکیں',
+  'chat.pin': 'سیاق میں رکھیں',
+  'chat.unpin': 'سیاق میں رکھنا بند کریں',
+  'chat.summarized': 'پچھلی گفتگو کا خلاصہ بنا دیا گیا',
+  'chat.welcome': 'السلام علیکم۔ میں **Encrypt** ہوں۔ \n\nمیں آپ کو سیدھے جواب دیے بغیر پیچیدہ منطق کو کھول کر سمجھنے میں مدد دینے کے لیے یہاں ہوں۔\n\nمیں **English، हिन्दी، తెలుగు، தமிழ்** اور کئی دوسری ہندوستانی زبانیں جانتا ہوں۔\n\nاوپر اپنی معلومات کی سطح منتخب کریں اور بتائیں: **آج ہم کس تصور کی ساخت تیار کریں؟**',
+  'chat.quizFailed': 'ابھی کوئز تیار نہیں ہو سکا۔ براہِ کرم دوبارہ کوشش کریں۔',
+  'chat.quizIntro': 'آئیے **{topic}** کے بارے میں آپ کی سمجھ جانچیں۔ ہر سوال کا جواب دیں، پھر جمع کرائیں۔',
+  'chat.fallbackReply': 'سمجھ گیا۔ آئیے اس منطق کی ساخت کو سمجھتے ہیں۔',
+
+  'action.analogy': 'تمثیل',
+  'action.analogyPrompt': 'اسے روزمرہ زندگی کی کسی تمثیل سے سمجھائیں۔',
+  'action.quiz': 'میرا امتحان لیں',
+  'action.realWorld': 'حقیقی دنیا',
+  'action.realWorldPrompt': 'حقیقی دنیا کی کسی ایپلیکیشن میں اس کا استعمال کیسے ہوتا ہے؟',
+  'action.visualize': 'تصویر بنائیں',
+  'action.visualizePrompt': 'اس تصور کو سمجھانے کے لیے براہِ کرم کوئی تصویر یا خاکہ دیں۔',
+
+  'hint.stuck': 'میں اٹک گیا',
+  'hint.stuckPrompt': 'میں اٹک گیا ہوں۔ کیا مجھے ایک اشارہ مل سکتا ہے؟',
+  'hint.badge': 'اشارہ {number}/{max}',
+  'hint.level.nudge': 'ہلکا اشارہ',
+  'hint.level.subproblem': 'ذیلی مسئلہ',
+  'hint.level.skeleton': 'ڈھانچہ',
+  'hint.currentProblem': 'موجودہ سوال',
+
+  'tab.visualizer': 'بلیو پرنٹ',
+  'tab.templates': 'علم',
+  'tab.upload': 'جمع شدہ کام',
+  'tab.image_gen': 'کینوس',
+  'tab.mastery': 'مہارت',
+
+  'category.All': 'سب',
+  'category.Coding': 'کوڈنگ',
+  'category.Algorithms': 'الگورتھم',
+  'category.Mathematics': 'ریاضی',
+  'category.Science': 'سائنس',
+  'category.Writing': 'تحریر',
+  'category.Systems': 'سسٹمز',
+  'category.Database': 'ڈیٹا بیس',
+  'category.Philosophy': 'فلسفہ',
+  'category.Economics': 'معاشیات',
+
+  'templates.search': 'منطقی ٹیمپلیٹ تلاش کریں...',
+  'templates.new': 'نیا ٹیمپلیٹ',
+  'templates.import': 'پیک درآمد کریں',
+  'templates.export': 'پیک برآمد کریں',
+  'templates.packName': 'Encrypt ٹیمپلیٹس',
+  'templates.categoryPackName': '{category} ٹیمپلیٹس',
+  'templates.synthTitle': 'نمونہ ساز',
+  'templates.synthBody': 'یہ تصور نہیں ملا۔ Encrypt آپ کے لیے نیا ٹیمپلیٹ تیار کر سکتا ہے۔',
+  'templates.synthesizing': 'تیار ہو رہا ہے...',
+  'templates.synthesize': 'منطق تیار کریں',
+  'templates.hiddenTests_one': '{count} پوشیدہ ٹیسٹ',
+  'templates.hiddenTests_other': '{count} پوشیدہ ٹیسٹ',
+  'templates.sessionOnly': 'صرف اس سیشن کے لیے',
+  'templates.saveToLibrary': 'لائبریری میں محفوظ کریں',
+  'templates.duplicate': 'نقل بنائیں',
+  'templates.startGuided': 'رہنمائی والا سیشن شروع کریں',
+  'templates.stepThrough': 'قدم بہ قدم چلائیں',
+  'templates.confirmDelete_one': '"{title}" اور اس کا {count} پرانا نسخہ حذف کریں؟',
+  'templates.confirmDelete_other': '"{title}" اور اس کے {count} پرانے نسخے حذف کریں؟',
+
+  'upload.title': 'اسائنمنٹ کا جائزہ',
+  'upload.body': 'ساختی جانچ کے لیے اپنی منطق کے مسودے جمع کرائیں: سورس فائلیں، پروجیکٹ کی .zip، PDF یا ہاتھ سے لکھے کام کی تصاویر۔',
+  'upload.browse': 'فائلیں منتخب کریں',
+  'upload.addMore': 'مزید فائلیں شامل کریں',
+  'upload.rubric': 'روبرک',
+  'upload.points': '{count} نمبر',
+  'upload.tests': 'ٹیسٹ',
+  'upload.noTests': 'پوشیدہ ٹیسٹ نہ چلائیں',
+  'upload.testCount': '{count} ٹیسٹ',
+  'upload.testing': 'پوشیدہ ٹیسٹ چل رہے ہیں...',
+  'upload.reviewing': 'روبرک کے مطابق جائزہ لیا جا رہا ہے...',
+  'upload.reports': 'فیڈبیک رپورٹس',
+
+  'canvas.placeholder': 'کسی منظر کا تصور لکھیں...',
+  'canvas.size1K': 'معیاری 1K',
+  'canvas.size2K': 'ہائی ریز 2K',
+  'canvas.size4K': 'الٹرا ریز 4K',
+  'canvas.generating': 'تصور بن رہا ہے...',
+  'canvas.render': 'تصویر بنائیں',
+  'canvas.rendering': 'بن رہی ہے...',
+  'canvas.append': 'بلیو پرنٹ میں شامل کریں',
+  'canvas.empty': 'کینوس خالی ہے',
+  'canvas.generatedAlt': 'بنایا گیا تصوراتی خاکہ',
+
+  'nav.workspace': 'کام کی جگہ',
+
+  'toast.cheat': 'پہلے سوچیں! میں براہِ راست کوڈ نہیں دے سکتا۔ آئیے منطق پر بات کریں۔',
+  'toast.quizNeedsContext': 'پہلے کسی تصور کو سمجھ لیں، پھر میں اس پر آپ کا امتحان لے سکتا ہوں۔',
+  'toast.gradingFailed': 'جانچ ناکام رہی۔ براہِ کرم دوبارہ جمع کرائیں۔',
+  'toast.noSteps': 'اس ٹیمپلیٹ میں مرحلہ وار چلنے کے لیے نمبر والے مراحل نہیں ہیں۔',
+  'toast.waitForReply': 'موجودہ جواب مکمل ہونے دیں، پھر اس مرحلے کے بارے میں پوچھیں۔',
+  'toast.rubricSaveFailed': 'روبرک محفوظ نہیں ہو سکا۔',
+  'toast.templateSaveFailed': 'ٹیمپلیٹ محفوظ نہیں ہو سکا۔',
+  'toast.packImported': '{added} نئے درآمد ہوئے، {updated} اپ ڈیٹ ہوئے۔',
+  'toast.packImportedSkipped': '{added} نئے درآمد ہوئے، {updated} اپ ڈیٹ ہوئے، {skipped} غلط چھوڑ دیے گئے۔',
+  'toast.packImportFailed': 'ٹیمپلیٹ پیک کی درآمد ناکام رہی۔',
+  'toast.packError.invalidJson': 'فائل درست JSON نہیں ہے۔',
+  'toast.packError.notPack': 'یہ فائل Encrypt ٹیمپلیٹ پیک نہیں ہے۔',
+  'toast.packError.newerVersion': 'یہ پیک Encrypt کے نئے ورژن سے برآمد کیا گیا تھا۔',
+  'toast.exportFailed': 'برآمد ناکام رہی۔ براہِ کرم دوبارہ کوشش کریں۔',
+
+  'visualizer.emptyTitle': 'بصری دھارا',
+  'visualizer.emptyBody': 'جیسے جیسے آپ Encrypt سے بات کریں گے، پیچیدہ منطق واضح کرنے والے خاکے اور تصاویر یہاں نظر آئیں گی۔',
+  'visualizer.title': 'فعال بلیو پرنٹ',
+  'visualizer.components_one': '{count} جزو',
+  'visualizer.components_other': '{count} اجزا',
+  'visualizer.footer': 'منطق کے دھارے کے ساتھ خود بخود تازہ ہوتا ہے',
+  'visualizer.vision': 'تصوراتی تصویر',
+  'visualizer.repaired': 'درست کیا گیا',
+  'visualizer.failed': 'ناکام',
+  'visualizer.edited': 'ترمیم شدہ',
+  'visualizer.repairedTitle_one': '{count} پارس غلطی کے بعد خودکار طور پر درست کیا گیا',
+  'visualizer.repairedTitle_other': '{count} پارس غلطیوں کے بعد خودکار طور پر درست کیا گیا',
+  'visualizer.failedTitle': 'ٹیوٹر اس خاکے کا درست نسخہ نہیں بنا سکا',
+  'visualizer.editedTitle': 'پچھلے بلیو پرنٹ میں آپ کی ترمیم',
+
+  'diagram.syntaxError': 'Mermaid سنٹیکس کی غلطی',
+  'diagram.source': 'ماخذ',
+  'diagram.zoomOut': 'چھوٹا کریں',
+  'diagram.zoomIn': 'بڑا کریں',
+  'diagram.resetView': 'منظر ری سیٹ کریں',
+  'diagram.action.explain': 'یہ قدم سمجھائیں',
+  'diagram.action.why-branch': 'یہ شاخ کیوں؟',
+  'diagram.action.what-if-fails': 'اگر یہ ناکام ہو تو؟',
+  'diagram.action.example': 'اس میں سے ایک مثال چلا کر دکھائیں',
+
+  'blueprint.label': 'بلیو پرنٹ {number}',
+  'blueprint.labelRevision': 'بلیو پرنٹ {number} · ترمیم {revision}',
+  'blueprint.compare': 'موازنہ کریں',
+  'blueprint.revisions': 'ترامیم',
+  'blueprint.original': 'اصل',
+  'blueprint.revision': 'ترمیم {revision}',
+  'blueprint.source': 'Mermaid ماخذ',
+  'blueprint.preview': 'براہ راست پیش نظارہ',
+  'blueprint.before': 'پہلے',
+  'blueprint.after': 'بعد',
+  'blueprint.changes': 'تبدیلیاں',
+  'blueprint.legend.added': 'شامل کیا',
+  'blueprint.legend.removed': 'ہٹایا',
+  'blueprint.legend.changed': 'نام بدلا',
+  'blueprint.pickTwo': 'موازنے کے لیے دو مختلف بلیو پرنٹ منتخب کریں۔',
+  'blueprint.sameStructure': 'ان دونوں نسخوں کی ساخت ایک جیسی ہے۔',
+  'blueprint.linesOnly': 'صرف فلو چارٹ کا نوڈ بہ نوڈ موازنہ ہو سکتا ہے؛ اس لیے بدلی ہوئی ماخذ سطریں دکھائی جا رہی ہیں۔',
+  'blueprint.change.addedStep': 'قدم "{label}" شامل کیا',
+  'blueprint.change.removedStep': 'قدم "{label}" ہٹایا',
+  'blueprint.change.renamedStep': '"{before}" کا نام بدل کر "{after}" کیا',
+  'blueprint.change.addedLink': 'لنک {link} شامل کیا',
+  'blueprint.change.removedLink': 'لنک {link} ہٹایا',
+  'blueprint.change.addedLine': 'سطر شامل کی: {line}',
+  'blueprint.change.removedLine': 'سطر ہٹائی: {line}',
+  'blueprint.unsaved': 'غیر محفوظ تبدیلیاں',
+  'blueprint.savedAsRevisions': 'ترامیم نئے نسخوں کے طور پر محفوظ ہوتی ہیں؛ اصل اسٹیک میں موجود رہتا ہے۔',
+  'blueprint.saveRevision': 'ترمیم محفوظ کریں',
+  'blueprint.changeFirst': 'پہلے کوئی تبدیلی کریں',
+  'blueprint.check': 'کیا میرا نسخہ درست ہے؟',
+  'blueprint.discard': 'اس بلیو پرنٹ کی غیر محفوظ تبدیلیاں ترک کر دیں؟',
+
+  'sessions.title': 'مطالعے کے سیشن',
+  'sessions.new': 'نیا سیشن',
+  'sessions.empty': 'ابھی تک کوئی محفوظ سیشن نہیں۔',
+  'sessions.untitled': 'بے نام سیشن',
+  'sessions.turns_one': '{count} گفتگو',
+  'sessions.turns_other': '{count} گفتگوئیں',
+
+  'tray.summary': '{count} / {max} فائلیں · {limit} میں سے {size}',
+  'tray.clear': 'صاف کریں',
+  'tray.submit': 'جائزے کے لیے جمع کرائیں',
+  'tray.reading': 'فائلیں پڑھی جا رہی ہیں...',
+
+  'walkthrough.title': 'رہنمائی والی مشق',
+  'walkthrough.complete': 'مکمل',
+  'walkthrough.step': 'مرحلہ {current} از {total}',
+  'walkthrough.dismiss': 'بند کریں',
+  'walkthrough.end': 'ختم کریں',
+  'walkthrough.startPrompt': '"{title}" ٹیمپلیٹ میں مجھے ایک ایک قدم کر کے لے چلیں۔',
+  'walkthrough.sessionName': 'رہنمائی: {title}',
+
+  'export.button': 'سیشن برآمد کریں',
+  'export.heading': 'سیشن برآمد کریں',
+  'export.preparing': 'تیار ہو رہا ہے...',
+  'export.htmlHint': 'ایک مکمل، خود مختار فائل',
+  'export.markdownHint': 'assets فولڈر کے ساتھ .zip',
+  'export.pdfHint': 'چھپائی کے لیے موزوں ترتیب',
+
+  'gate.revealed': 'آپ کی کوشش کے بعد مکمل حل دکھایا گیا',
+  'gate.code': 'ایک مکمل پروگرام',
+  'gate.proof': 'ایک مکمل ثبوت',
+  'gate.and': ' اور ',
+  'gate.body': 'اس جواب میں {kinds} تھا، اس لیے اسے صرف ڈھانچے تک محدود کر دیا گیا ہے۔',
+  'gate.canReveal': 'آپ کوشش کر چکے ہیں، اس لیے اب آپ اس کا موازنہ مکمل نسخے سے کر سکتے ہیں۔',
+  'gate.cannotReveal': 'خالی جگہیں خود پُر کریں اور اپنی کوشش شیئر کریں، پھر مکمل نسخہ کھلے گا۔',
+  'gate.reveal': 'حل دکھائیں',
+
+  'error.auth': 'AI سروس نے API کلید قبول نہیں کی۔',
+  'error.permission': 'اس API کلید سے وہ ماڈل استعمال کرنے کی اجازت نہیں۔ کسی ادائیگی والے پروجیکٹ کی کلید منتخب کریں۔',
+  'error.quota': 'AI سروس کو اس وقت بہت زیادہ درخواستیں مل رہی ہیں۔',
+  'error.safety': 'AI سروس نے اپنے حفاظتی اصولوں کی وجہ سے اس کا جواب نہیں دیا۔ اپنا پیغام دوسرے الفاظ میں لکھ کر دیکھیں۔',
+  'error.network': 'AI سروس سے رابطہ نہیں ہو سکا۔ اپنا کنکشن چیک کریں اور دوبارہ کوشش کریں۔',
+  'error.timeout': 'AI سروس نے جواب دینے میں بہت دیر لگا دی۔',
+  'error.invalid_output': 'AI سروس کا بھیجا ہوا جواب پڑھا نہیں جا سکا۔',
+  'error.server': 'AI سروس میں اس وقت کوئی مسئلہ ہے۔',
+  'error.unknown': 'AI سروس سے رابطہ کرتے وقت کچھ غلط ہو گیا۔',
+  'error.retryAfter': '{seconds} سیکنڈ بعد دوبارہ کوشش کریں۔',
+  'error.retry': 'دوبارہ کوشش کریں',
+  'error.edit': 'پیغام میں ترمیم کریں',
+  'error.chooseKey': 'API کلید منتخب کریں',
+
+  'mastery.learner': 'سیکھنے والا',
+  'mastery.addLearner': 'سیکھنے والا شامل کریں...',
+  'mastery.emptyTitle': 'ابھی تک کسی تصور کا جائزہ نہیں لیا گیا',
+  'mastery.emptyBody': 'جیسے جیسے Encrypt آپ کے استدلال کو جانچتا ہے، جائزہ لیا گیا ہر تصور یہاں ظاہر ہوتا ہے۔',
+  'mastery.demonstrated': 'ثابت شدہ · {count}',
+  'mastery.noneDemonstrated': 'ابھی کچھ ثابت نہیں ہوا۔ سوچتے رہیں۔',
+  'mastery.searching': 'ابھی تلاش جاری · {count}',
+  'mastery.noneSearching': 'جائزہ لیا گیا ہر تصور ثابت ہو چکا ہے۔',
+  'mastery.checks_one': '{count} جانچ',
+  'mastery.checks_other': '{count} جانچیں',
+  'mastery.transitions_one': '{count} تبدیلی',
+  'mastery.transitions_other': '{count} تبدیلیاں',
+  'mastery.status.satisfied': 'مطمئن',
+  'mastery.status.searching': 'تلاش جاری',
+
+  'quiz.title': 'کوئز · {topic}',
+  'quiz.kind.multiple_choice': 'ایک منتخب کریں',
+  'quiz.kind.ordering': 'قدموں کو ترتیب دیں',
+  'quiz.kind.short_answer': 'مختصر جواب',
+  'quiz.correct': 'درست',
+  'quiz.partly': 'جزوی',
+  'quiz.notYet': 'ابھی نہیں',
+  'quiz.placeholder': 'اپنا استدلال بیان کریں...',
+  'quiz.grading': 'جانچ ہو رہی ہے...',
+  'quiz.submit': 'جوابات جمع کریں',
+
+  'trace.title': 'ٹریس · {title}',
+  'trace.pseudocode': 'سوڈو کوڈ',
+  'trace.doneEditing': 'ترمیم مکمل',
+  'trace.undefined_one': 'یہ ٹیمپلیٹ {names} آپ کے بھرنے کے لیے چھوڑتا ہے۔ ٹریس کرنے سے پہلے سوڈو کوڈ میں ترمیم کریں اور اسے FUNCTION سے متعین کریں۔',
+  'trace.undefined_other': 'یہ ٹیمپلیٹ {names} آپ کے بھرنے کے لیے چھوڑتا ہے۔ ٹریس کرنے سے پہلے سوڈو کوڈ میں ترمیم کریں اور انہیں FUNCTION سے متعین کریں۔',
+  'trace.first': 'پہلا قدم',
+  'trace.back': 'ایک قدم پیچھے',
+  'trace.forward': 'ایک قدم آگے',
+  'trace.last': 'آخری قدم',
+  'trace.event.line': 'چل رہا ہے',
+  'trace.event.call': 'کال کر رہا ہے',
+  'trace.event.return': 'واپس آ رہا ہے',
+  'trace.event.done': 'مکمل',
+  'trace.event.error': 'رک گیا',
+  'trace.line': 'سطر {line}',
+  'trace.inputs': 'ان پٹ',
+  'trace.noInputs': 'اس کوڈ کو کسی ان پٹ کی ضرورت نہیں۔',
+  'trace.inputPlaceholder': 'مثلاً 5 یا [1, 2, 3]',
+  'trace.restart': 'ٹریس دوبارہ شروع کریں',
+  'trace.start': 'ٹریس شروع کریں',
+  'trace.variables': 'متغیرات',
+  'trace.allReturned': 'تمام کالیں واپس آ چکی ہیں۔',
+  'trace.noVariables': 'ابھی کوئی متغیر نہیں۔',
+  'trace.callStack': 'کال اسٹیک · {depth} گہرا',
+
+  'report.revision': 'ترمیم {revision}',
+  'report.sinceLast': 'پچھلے نسخے سے {delta}',
+  'report.hiddenTests': 'پوشیدہ ٹیسٹ · {title}',
+  'report.passed': '{passed}/{total} پاس',
+  'report.case.pass': 'پاس',
+  'report.case.skipped': 'نہیں چلایا گیا',
+  'report.case.timeout': 'وقت ختم',
+  'report.case.error': 'کریش ہوا',
+  'report.case.fail': 'غلط نتیجہ',
+  'report.caseWithHint': '{hint} پر {outcome}',
+  'runner.invalidFunction': '"{name}" درست فنکشن کا نام نہیں ہے۔',
+  'runner.compile': 'کوڈ کمپائل نہیں ہوتا۔',
+  'runner.line': 'سطر {line}:',
+  'runner.loadTimeout': 'کوڈ لوڈ ہونے میں بہت وقت لگا۔',
+  'runner.pythonLoadTimeout': 'Python رن ٹائم وقت پر لوڈ نہیں ہوا۔ اپنا کنکشن چیک کریں اور دوبارہ کوشش کریں۔',
+  'runner.missingFunction': '"{name}" نام کا کوئی فنکشن نہیں بنایا گیا۔',
+  'runner.loadFailed': 'لوڈ ہوتے وقت کوڈ ناکام ہو گیا۔',
+  'runner.thrown': 'کوڈ نے ایک خرابی دی۔',
+  'runner.timeout': '{seconds} سیکنڈ بعد بھی چل رہا ہے۔ کیا کوئی لوپ کبھی ختم نہیں ہوتا؟',
+  'runner.resultTooLarge': 'نتیجہ موازنے کے لیے بہت بڑا تھا۔',
+  'runner.crashed': 'کوڈ نے سینڈ باکس کو کریش کر دیا؛ شاید میموری ختم ہو گئی۔',
+  'report.console_one': 'کنسول آؤٹ پٹ ({count} سطر)',
+  'report.console_other': 'کنسول آؤٹ پٹ ({count} سطریں)',
+  'report.compared': 'پچھلے نسخے سے موازنہ',
+  'report.improved': 'کیا بہتر ہوا',
+  'report.fixed': 'درست ہوا',
+  'report.stillOpen': 'ابھی باقی',
+  'report.newIssues': 'اس بار نیا',
+  'report.noDifferences': 'پائے گئے مسائل میں کوئی فرق نہیں۔',
+  'report.section.strengths': 'خوبیاں',
+  'report.section.logicalGaps': 'منطقی خلا',
+  'report.section.misconceptions': 'غلط فہمیاں',
+  'report.section.unhandledEdgeCases': 'نہ سنبھالے گئے ایج کیس',
+
+  'templateEditor.edit': 'ٹیمپلیٹ میں ترمیم · v{version}',
+  'templateEditor.title': 'عنوان',
+  'templateEditor.description': 'مختصر تفصیل',
+  'templateEditor.content': 'ٹیمپلیٹ کا ڈھانچہ...',
+  'templateEditor.tests': 'پوشیدہ ٹیسٹ · {count}',
+  'templateEditor.testsHelp': 'JavaScript، TypeScript یا Python میں جمع کرایا گیا کام ان پر چلایا جاتا ہے۔ آرگیومنٹس ایک JSON array ہیں؛ طلبہ ناکام کیس کا صرف اشارہ دیکھتے ہیں۔',
+  'templateEditor.functionName': 'کال کیا جانے والا فنکشن، مثلاً binarySearch',
+  'templateEditor.expected': 'متوقع، مثلاً 1',
+  'templateEditor.hint': 'اشارہ، مثلاً آخر میں ہدف',
+  'templateEditor.addCase': 'ٹیسٹ کیس شامل کریں',
+  'templateEditor.invalidTests': 'ہر ٹیسٹ کو آرگیومنٹس کی JSON array اور متوقع JSON قدر درکار ہے، اور فنکشن کا نام درست identifier ہونا چاہیے۔',
+  'templateEditor.history': 'نسخوں کی تاریخ',
+  'templateEditor.restore': 'بحال کریں',
+
+  'rubric.edit': 'روبرک میں ترمیم',
+  'rubric.new': 'نیا روبرک',
+  'rubric.name': 'روبرک کا نام، مثلاً ہفتہ 4: سارٹنگ',
+  'rubric.criteria': 'معیارات · {total} پوائنٹس',
+  'rubric.addCriterion': 'معیار شامل کریں',
+  'rubric.criterion': 'معیار',
+  'rubric.max': 'زیادہ سے زیادہ',
+  'rubric.removeCriterion': 'معیار ہٹائیں',
+  'rubric.fullMarks': 'پورے نمبر کیسے دکھتے ہیں؟',
+  'rubric.confirmDelete': 'روبرک "{name}" حذف کریں؟ موجودہ رپورٹوں کے نمبر برقرار رہیں گے۔',
+
+  'submission.unsupported': '"{name}" معاون نہیں ہے۔ ماخذ فائلیں، تصاویر (PNG، JPEG، WebP، HEIC)، PDF یا اپنے پروجیکٹ کی .zip اپ لوڈ کریں۔',
+  'submission.notText': '"{name}" ٹیکسٹ فائل نہیں لگتی۔',
+  'submission.archiveUnreadable': '"{name}" کو zip آرکائیو کے طور پر نہیں کھولا جا سکا۔',
+  'submission.archiveEmpty': '"{name}" خالی ہے۔',
+  'submission.archiveSkipped_one': '"{name}" میں {count} فائل چھوڑ دی گئی جو ماخذ کوڈ، تصویر یا PDF نہیں ہے۔',
+  'submission.archiveSkipped_other': '"{name}" میں {count} فائلیں چھوڑ دی گئیں جو ماخذ کوڈ، تصاویر یا PDF نہیں ہیں۔',
+  'submission.archiveTooLarge': '"{name}" کا حجم {size} ہے؛ آرکائیو زیادہ سے زیادہ {limit} ہو سکتے ہیں۔',
+  'submission.sourceTooLarge': '"{name}" کا حجم {size} ہے؛ ماخذ فائلیں زیادہ سے زیادہ {limit} ہو سکتی ہیں۔',
+  'submission.inlineTooLarge': '"{name}" کا حجم {size} ہے؛ تصاویر اور PDF زیادہ سے زیادہ {limit} ہو سکتے ہیں۔',
+  'submission.tooManyFiles': 'ایک جمع کرائے گئے کام میں زیادہ سے زیادہ {max} فائلیں ہو سکتی ہیں؛ "{name}" شامل نہیں کی گئی۔',
+  'submission.overTotal': '"{name}" سے جمع کرایا گیا کام {limit} سے بڑا ہو جائے گا۔',
+  'submission.readFailed': 'وہ فائلیں پڑھی نہیں جا سکیں۔ براہ کرم دوبارہ کوشش کریں۔',
+  'submission.uploaded': 'میں نے ساخت کے جائزے کے لیے {files} اپ لوڈ کیا ہے۔',
+  'submission.uploadedMore_one': 'میں نے ساخت کے جائزے کے لیے {files} اور {count} مزید فائل اپ لوڈ کی ہے۔',
+  'submission.uploadedMore_other': 'میں نے ساخت کے جائزے کے لیے {files} اور {count} مزید فائلیں اپ لوڈ کی ہیں۔',
+
+  'code.plainText': 'سادہ متن',
+  'code.detected': 'زبان خود بخود پہچانی گئی',
+  'code.lineNumbers': 'سطر نمبر',
+  'code.copy': 'کاپی کریں',
+  'code.copied': 'کاپی ہو گیا',
+  'common.edit': 'ترمیم',
+  'common.new': 'نیا',
+  'common.rename': 'نام بدلیں',
+  'common.delete': 'حذف کریں',
+  'common.remove': 'ہٹائیں',
+  'common.cancel': 'منسوخ کریں',
+  'common.save': 'محفوظ کریں',
+  'common.saving': 'محفوظ ہو رہا ہے...',
+  'common.add': 'شامل کریں',
+  'common.show': 'دکھائیں',
+  'common.hide': 'چھپائیں',
+  'common.copy': 'کاپی کریں',
+};
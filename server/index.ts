@@ -0,0 +1,286 @@
+import { createServer, IncomingMessage, ServerResponse } from 'node:http';
+import { existsSync } from 'node:fs';
+import { ChatPart, ChatRequest, ChatTurn, getProvider, ImageRequest, JsonSchema, StructuredRequest, ToolDeclaration } from '../services/providers';
+import { createRateLimiter, RateLimitRule } from './rateLimiter';
+
+// Small backend that keeps the model API key off the client. The browser's `proxy` provider posts
+// provider-neutral requests here and this process forwards them to the configured upstream provider.
+
+for (const file of ['.env.local', '.env']) {
+  if (existsSync(file)) process.loadEnvFile(file);
+}
+// The Gemini provider reads API_KEY, matching what AI Studio injects in the browser.
+process.env.API_KEY ??= process.env.GEMINI_API_KEY;
+
+if (getProvider().name === 'proxy') {
+  console.error('LLM_PROVIDER=proxy would forward the backend to itself. Set it to gemini, openai or mock.');
+  process.exit(1);
+}
+
+const PORT = Number(process.env.SERVER_PORT) || 8787;
+const MAX_BODY_BYTES = 20 * 1024 * 1024;
+
+const perMinute = (limit: number): RateLimitRule => ({ limit, windowMs: 60_000 });
+
+const limiters = {
+  chat: createRateLimiter(perMinute(Number(process.env.RATE_LIMIT_CHAT) || 20)),
+  structured: createRateLimiter(perMinute(Number(process.env.RATE_LIMIT_STRUCTURED) || 30)),
+  image: createRateLimiter(perMinute(Number(process.env.RATE_LIMIT_IMAGE) || 5)),
+};
+
+// A client id alone is trivially rotated, so every address also gets a coarser shared budget.
+const ipMultiplier = 4;
+const ipLimiters = {
+  chat: createRateLimiter(perMinute((Number(process.env.RATE_LIMIT_CHAT) || 20) * ipMultiplier)),
+  structured: createRateLimiter(perMinute((Number(process.env.RATE_LIMIT_STRUCTURED) || 30) * ipMultiplier)),
+  image: createRateLimiter(perMinute((Number(process.env.RATE_LIMIT_IMAGE) || 5) * ipMultiplier)),
+};
+
+type Route = keyof typeof limiters;
+
+class HttpError extends Error {
+  constructor(public status: number, message: string, public headers: Record<string, string> = {}) {
+    super(message);
+  }
+}
+
+const readJson = (req: IncomingMessage): Promise<unknown> =>
+  new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    let size = 0;
+    req.on('data', (chunk: Buffer) => {
+      size += chunk.length;
+      if (size > MAX_BODY_BYTES) {
+        reject(new HttpError(413, 'Request body too large.'));
+        req.destroy();
+        return;
+      }
+      chunks.push(chunk);
+    });
+    req.on('end', () => {
+      try {
+        resolve(JSON.parse(Buffer.concat(chunks).toString('utf8') || '{}'));
+      } catch {
+        reject(new HttpError(400, 'Request body is not valid JSON.'));
+      }
+    });
+    req.on('error', reject);
+  });
+
+// Lets the client tell safety blocks and malformed model output apart from other upstream failures.
+const errorCode = (error: any): string | undefined => (error?.name === 'SyntaxError' ? 'invalid_output' : error?.code);
+
+const sendJson = (res: ServerResponse, status: number, body: unknown, headers: Record<string, string> = {}) => {
+  res.writeHead(status, { 'Content-Type': 'application/json', ...headers });
+  res.end(JSON.stringify(body));
+};
+
+const enforceRateLimit = (route: Route, req: IncomingMessage) => {
+  const ip = req.socket.remoteAddress || 'unknown';
+  const client = String(req.headers['x-encrypt-client'] || ip).slice(0, 100);
+  for (const decision of [limiters[route].check(`${ip}|${client}`), ipLimiters[route].check(ip)]) {
+    if (!decision.allowed) {
+      const retryAfter = Math.ceil(decision.retryAfterMs / 1000);
+      throw new HttpError(429, `Rate limit reached. Try again in ${retryAfter}s.`, { 'Retry-After': String(retryAfter) });
+    }
+  }
+};
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const optionalString = (value: unknown, what: string): string | undefined => {
+  if (value === undefined) return undefined;
+  if (typeof value !== 'string') throw new HttpError(400, `${what} must be a string.`);
+  return value;
+};
+
+// Rebuilds each part from the fields ChatPart defines, so nothing unchecked reaches the provider.
+const sanitizePart = (raw: unknown): ChatPart => {
+  if (!isRecord(raw)) throw new HttpError(400, 'Every part must be an object.');
+  const part: ChatPart = {};
+  if (raw.text !== undefined) part.text = optionalString(raw.text, 'A part\'s text');
+  if (raw.inlineData !== undefined) {
+    const { inlineData } = raw;
+    if (!isRecord(inlineData) || typeof inlineData.mimeType !== 'string' || typeof inlineData.data !== 'string') {
+      throw new HttpError(400, 'inlineData needs a mimeType and base64 data.');
+    }
+    part.inlineData = { mimeType: inlineData.mimeType, data: inlineData.data };
+  }
+  if (raw.functionCall !== undefined) {
+    const { functionCall } = raw;
+    if (!isRecord(functionCall) || typeof functionCall.name !== 'string' || !isRecord(functionCall.args)) {
+      throw new HttpError(400, 'functionCall needs a name and an args object.');
+    }
+    part.functionCall = {
+      id: optionalString(functionCall.id, 'functionCall.id'),
+      name: functionCall.name,
+      args: functionCall.args,
+      thoughtSignature: optionalString(functionCall.thoughtSignature, 'functionCall.thoughtSignature'),
+    };
+  }
+  if (raw.functionResponse !== undefined) {
+    const { functionResponse } = raw;
+    if (!isRecord(functionResponse) || typeof functionResponse.name !== 'string' || !isRecord(functionResponse.response)) {
+      throw new HttpError(400, 'functionResponse needs a name and a response object.');
+    }
+    part.functionResponse = {
+      id: optionalString(functionResponse.id, 'functionResponse.id'),
+      name: functionResponse.name,
+      response: functionResponse.response,
+    };
+  }
+  return part;
+};
+
+const sanitizeParts = (raw: unknown): ChatPart[] => {
+  if (!Array.isArray(raw)) throw new HttpError(400, 'parts must be an array.');
+  return raw.map(sanitizePart);
+};
+
+const sanitizeTurn = (raw: unknown): ChatTurn => {
+  if (!isRecord(raw) || (raw.role !== 'user' && raw.role !== 'model')) {
+    throw new HttpError(400, 'Every turn needs a role of user or model.');
+  }
+  return { role: raw.role, parts: sanitizeParts(raw.parts) };
+};
+
+// Schemas are forwarded as given, so only the top-level shape is checked.
+const isSchema = (value: unknown): value is JsonSchema => isRecord(value) && typeof value.type === 'string';
+
+const sanitizeTool = (raw: unknown): ToolDeclaration => {
+  if (!isRecord(raw) || typeof raw.name !== 'string' || typeof raw.description !== 'string' || !isSchema(raw.parameters)) {
+    throw new HttpError(400, 'Every tool needs a name, a description and a parameters schema.');
+  }
+  return { name: raw.name, description: raw.description, parameters: raw.parameters };
+};
+
+// Only forward the fields the provider interface defines; the model and key stay server-side.
+const sanitizeChatRequest = (raw: unknown): ChatRequest => {
+  if (!isRecord(raw) || !Array.isArray(raw.contents)) throw new HttpError(400, 'A chat request needs a contents array.');
+  if (raw.tools !== undefined && !Array.isArray(raw.tools)) throw new HttpError(400, 'tools must be an array.');
+  return {
+    contents: raw.contents.map(sanitizeTurn),
+    systemInstruction: typeof raw.systemInstruction === 'string' ? raw.systemInstruction : undefined,
+    tools: Array.isArray(raw.tools) ? raw.tools.map(sanitizeTool) : undefined,
+    thinkingBudget: typeof raw.thinkingBudget === 'number' ? Math.min(raw.thinkingBudget, 8000) : undefined,
+  };
+};
+
+const sanitizeStructuredRequest = (raw: unknown): StructuredRequest => {
+  if (!isRecord(raw) || typeof raw.prompt !== 'string' || !isSchema(raw.schema)) {
+    throw new HttpError(400, 'A structured request needs a prompt and a schema.');
+  }
+  return {
+    prompt: raw.prompt,
+    parts: raw.parts === undefined ? undefined : sanitizeParts(raw.parts),
+    schema: raw.schema,
+    systemInstruction: typeof raw.systemInstruction === 'string' ? raw.systemInstruction : undefined,
+  };
+};
+
+const IMAGE_SIZES = ['1K', '2K', '4K'];
+
+const sanitizeImageRequest = (raw: unknown): ImageRequest => {
+  if (!isRecord(raw) || typeof raw.prompt !== 'string') throw new HttpError(400, 'An image request needs a prompt.');
+  return {
+    prompt: raw.prompt.slice(0, 4000),
+    size: typeof raw.size === 'string' && IMAGE_SIZES.includes(raw.size) ? raw.size : '1K',
+    aspectRatio: typeof raw.aspectRatio === 'string' ? raw.aspectRatio : undefined,
+  };
+};
+
+// Every route posts { request, stream? }.
+const readBody = async (req: IncomingMessage): Promise<{ request: unknown; stream: boolean }> => {
+  const body = await readJson(req);
+  if (!isRecord(body)) throw new HttpError(400, 'Request body must be a JSON object.');
+  return { request: body.request, stream: body.stream === true };
+};
+
+// Aborts the upstream call when the browser disconnects, e.g. after the user presses Stop.
+const abortOnDisconnect = (res: ServerResponse) => {
+  const controller = new AbortController();
+  res.on('close', () => {
+    if (!res.writableEnded) controller.abort();
+  });
+  return controller.signal;
+};
+
+const handleChat = async (req: IncomingMessage, res: ServerResponse) => {
+  const body = await readBody(req);
+  const signal = abortOnDisconnect(res);
+  const request = { ...sanitizeChatRequest(body.request), signal };
+
+  if (!body.stream) {
+    sendJson(res, 200, await getProvider().chat(request));
+    return;
+  }
+
+  res.writeHead(200, { 'Content-Type': 'application/x-ndjson', 'Cache-Control': 'no-cache' });
+  let sent = '';
+  try {
+    const result = await getProvider().streamChat(request, text => {
+      res.write(JSON.stringify({ type: 'text', text: text.slice(sent.length) }) + '\n');
+      sent = text;
+    });
+    res.end(JSON.stringify({ type: 'result', result }) + '\n');
+  } catch (error: any) {
+    // Headers are already out, so failures travel as a final event instead of a status code.
+    res.end(JSON.stringify({ type: 'error', error: { message: error?.message || 'Upstream error', status: error?.status, code: errorCode(error) } }) + '\n');
+  }
+};
+
+const handleStructured = async (req: IncomingMessage, res: ServerResponse) => {
+  const body = await readBody(req);
+  const request = { ...sanitizeStructuredRequest(body.request), signal: abortOnDisconnect(res) };
+  sendJson(res, 200, await getProvider().generateStructured(request));
+};
+
+const handleImage = async (req: IncomingMessage, res: ServerResponse) => {
+  const body = await readBody(req);
+  const image = await getProvider().generateImage(sanitizeImageRequest(body.request));
+  sendJson(res, 200, { image });
+};
+
+const ROUTES: Record<string, { route: Route; handler: (req: IncomingMessage, res: ServerResponse) => Promise<void> }> = {
+  '/api/chat': { route: 'chat', handler: handleChat },
+  '/api/structured': { route: 'structured', handler: handleStructured },
+  '/api/image': { route: 'image', handler: handleImage },
+};
+
+const server = createServer(async (req, res) => {
+  const path = (req.url || '').split('?')[0];
+
+  if (req.method === 'GET' && path === '/api/health') {
+    sendJson(res, 200, { ok: true, provider: getProvider().name });
+    return;
+  }
+
+  const entry = ROUTES[path];
+  if (!entry || req.method !== 'POST') {
+    sendJson(res, 404, { error: 'Not found.' });
+    return;
+  }
+
+  try {
+    enforceRateLimit(entry.route, req);
+    await entry.handler(req, res);
+  } catch (error: any) {
+    const status = error instanceof HttpError ? error.status : Number(error?.status) || 502;
+    if (!(error instanceof HttpError)) console.error(`${path} failed`, error);
+    if (res.headersSent) {
+      res.end();
+      return;
+    }
+    sendJson(res, status, { error: error?.message || 'Upstream error', code: errorCode(error) }, error instanceof HttpError ? error.headers : {});
+  }
+});
+
+setInterval(() => {
+  Object.values(limiters).forEach(limiter => limiter.prune());
+  Object.values(ipLimiters).forEach(limiter => limiter.prune());
+}, 5 * 60_000).unref();
+
+server.listen(PORT, () => {
+  console.log(`Encrypt backend listening on http://localhost:${PORT} (provider: ${getProvider().name})`);
+});
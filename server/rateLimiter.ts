@@ -0,0 +1,37 @@
+// Fixed-window request counter per client. Memory-only, which is enough for a single backend instance.
+
+export interface RateLimitRule {
+  limit: number;
+  windowMs: number;
+}
+
+export interface RateLimitDecision {
+  allowed: boolean;
+  retryAfterMs: number;
+}
+
+export const createRateLimiter = ({ limit, windowMs }: RateLimitRule) => {
+  const windows = new Map<string, { startedAt: number; count: number }>();
+
+  const check = (clientKey: string, now = Date.now()): RateLimitDecision => {
+    const current = windows.get(clientKey);
+    if (!current || now - current.startedAt >= windowMs) {
+      windows.set(clientKey, { startedAt: now, count: 1 });
+      return { allowed: true, retryAfterMs: 0 };
+    }
+    if (current.count >= limit) {
+      return { allowed: false, retryAfterMs: windowMs - (now - current.startedAt) };
+    }
+    current.count++;
+    return { allowed: true, retryAfterMs: 0 };
+  };
+
+  // Drops expired windows so idle clients do not accumulate forever.
+  const prune = (now = Date.now()) => {
+    for (const [key, window] of windows) {
+      if (now - window.startedAt >= windowMs) windows.delete(key);
+    }
+  };
+
+  return { check, prune };
+};
@@ -0,0 +1,127 @@
+import { AI_MAX_RETRIES, AI_MAX_RETRY_DELAY_MS, AI_RETRY_BASE_DELAY_MS } from "../constants";
+import { AIErrorKind } from "../types";
+
+// One error type for every AI call, whichever provider or transport raised it. The UI picks its recovery
+// (retry, choose another key, rephrase) from the kind alone.
+
+const RETRYABLE_KINDS: AIErrorKind[] = ['quota', 'network', 'timeout', 'server'];
+
+export class AIServiceError extends Error {
+  constructor(public kind: AIErrorKind, message: string, public status?: number, public retryAfterMs?: number) {
+    super(message);
+    this.name = 'AIServiceError';
+  }
+
+  get retryable() {
+    return RETRYABLE_KINDS.includes(this.kind);
+  }
+}
+
+// Gemini reports the suggested wait inside the message, e.g. "Please retry in 12.5s" or "retryDelay":"12s".
+const parseRetryDelayMs = (message: string) => {
+  const match = message.match(/retry in (\d+(?:\.\d+)?)\s*s|"retryDelay":\s*"(\d+(?:\.\d+)?)s"/i);
+  return match ? Math.ceil(Number(match[1] ?? match[2]) * 1000) : undefined;
+};
+
+const classify = (status: number | undefined, name: string, message: string, code?: string): AIErrorKind => {
+  if (code === 'safety') return 'safety';
+  if (name === 'SyntaxError' || code === 'invalid_output') return 'invalid_output';
+  if (name === 'TimeoutError' || status === 408 || status === 504 || /DEADLINE_EXCEEDED|timed out/i.test(message)) return 'timeout';
+  if (status === 401 || /API_KEY_INVALID|API key not valid|UNAUTHENTICATED|invalid api key/i.test(message)) return 'auth';
+  if (status === 403 || /PERMISSION_DENIED|Permission denied/i.test(message)) return 'permission';
+  if (status === 429 || /RESOURCE_EXHAUSTED|quota|rate limit/i.test(message)) return 'quota';
+  if (status !== undefined && status >= 500) return 'server';
+  if (/Failed to fetch|NetworkError|Load failed|fetch failed|ECONNRESET|ECONNREFUSED|ENOTFOUND|EAI_AGAIN/i.test(message)) return 'network';
+  return 'unknown';
+};
+
+export const toAIServiceError = (error: unknown): AIServiceError => {
+  if (error instanceof AIServiceError) return error;
+  const raw = (error ?? {}) as { status?: unknown; code?: unknown; retryAfter?: unknown; name?: unknown; message?: unknown };
+  const message = typeof raw.message === 'string' ? raw.message : String(error);
+  const status = Number(raw.status) || undefined;
+  const kind = classify(status, typeof raw.name === 'string' ? raw.name : '', message, typeof raw.code === 'string' ? raw.code : undefined);
+  const retryAfterMs = Number(raw.retryAfter) > 0 ? Number(raw.retryAfter) * 1000 : parseRetryDelayMs(message);
+  return new AIServiceError(kind, message, status, kind === 'quota' ? retryAfterMs : undefined);
+};
+
+export const isPermissionError = (error: unknown) => toAIServiceError(error).kind === 'permission';
+
+// Providers throw this for replies withheld by the model's safety filters, so it survives the proxy hop.
+export const safetyBlockError = (reason?: string) =>
+  Object.assign(new Error(`The response was blocked by safety filters${reason ? ` (${reason})` : ''}.`), { code: 'safety' });
+
+const wait = (ms: number, signal?: AbortSignal) => new Promise<void>(resolve => {
+  const timer = setTimeout(done, ms);
+  function done() {
+    clearTimeout(timer);
+    signal?.removeEventListener('abort', done);
+    resolve();
+  }
+  signal?.addEventListener('abort', done, { once: true });
+});
+
+export interface RetryOptions {
+  signal?: AbortSignal;
+  retries?: number;
+  shouldRetry?: (error: AIServiceError) => boolean;
+}
+
+// Runs the call again on transient failures, backing off exponentially with jitter. A stop from the user
+// rethrows the original error untouched so callers can tell it apart from a failure.
+export const withRetry = async <T>(run: () => Promise<T>, { signal, retries = AI_MAX_RETRIES, shouldRetry = error => error.retryable }: RetryOptions = {}): Promise<T> => {
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await run();
+    } catch (raw) {
+      if (signal?.aborted) throw raw;
+      const error = toAIServiceError(raw);
+      if (attempt >= retries || !shouldRetry(error)) throw error;
+      const backoff = AI_RETRY_BASE_DELAY_MS * 2 ** attempt * (0.75 + Math.random() / 2);
+      const delay = error.retryAfterMs ?? backoff;
+      // A long rate-limit wait is the student's call, not something to sit through silently.
+      if (delay > AI_MAX_RETRY_DELAY_MS) throw error;
+      await wait(delay, signal);
+      if (signal?.aborted) throw error;
+    }
+  }
+};
+
+export interface Deadline {
+  signal: AbortSignal;
+  extend: () => void; // Restarts the clock, e.g. whenever more of a stream arrives.
+  expired: () => boolean;
+  clear: () => void;
+}
+
+// An abort signal that fires after `ms` of inactivity, or as soon as the caller's own signal does.
+export const createDeadline = (ms: number, parent?: AbortSignal): Deadline => {
+  const controller = new AbortController();
+  let expired = false;
+  let timer: ReturnType<typeof setTimeout>;
+  const onParentAbort = () => controller.abort(parent?.reason);
+  const extend = () => {
+    clearTimeout(timer);
+    timer = setTimeout(() => {
+      expired = true;
+      controller.abort();
+    }, ms);
+  };
+
+  if (parent?.aborted) controller.abort(parent.reason);
+  else parent?.addEventListener('abort', onParentAbort, { once: true });
+  extend();
+
+  return {
+    signal: controller.signal,
+    extend,
+    expired: () => expired,
+    clear: () => {
+      clearTimeout(timer);
+      parent?.removeEventListener('abort', onParentAbort);
+    },
+  };
+};
+
+export const timeoutError = (ms: number) =>
+  new AIServiceError('timeout', `No response from the AI service within ${Math.round(ms / 1000)}s.`, 408);
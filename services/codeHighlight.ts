@@ -0,0 +1,77 @@
+import hljs from 'highlight.js/lib/core';
+import bash from 'highlight.js/lib/languages/bash';
+import c from 'highlight.js/lib/languages/c';
+import cpp from 'highlight.js/lib/languages/cpp';
+import csharp from 'highlight.js/lib/languages/csharp';
+import css from 'highlight.js/lib/languages/css';
+import go from 'highlight.js/lib/languages/go';
+import java from 'highlight.js/lib/languages/java';
+import javascript from 'highlight.js/lib/languages/javascript';
+import json from 'highlight.js/lib/languages/json';
+import kotlin from 'highlight.js/lib/languages/kotlin';
+import python from 'highlight.js/lib/languages/python';
+import rust from 'highlight.js/lib/languages/rust';
+import sql from 'highlight.js/lib/languages/sql';
+import typescript from 'highlight.js/lib/languages/typescript';
+import xml from 'highlight.js/lib/languages/xml';
+
+// Syntax highlighting for the languages students most often bring to a session. Only these grammars are
+// registered, which keeps the bundle small and stops auto-detection from guessing obscure languages.
+
+const LANGUAGES = { python, javascript, typescript, java, c, cpp, csharp, go, rust, kotlin, sql, bash, json, xml, css };
+type HighlightLanguage = keyof typeof LANGUAGES;
+
+const LABELS: Record<HighlightLanguage, string> = {
+  python: 'Python',
+  javascript: 'JavaScript',
+  typescript: 'TypeScript',
+  java: 'Java',
+  c: 'C',
+  cpp: 'C++',
+  csharp: 'C#',
+  go: 'Go',
+  rust: 'Rust',
+  kotlin: 'Kotlin',
+  sql: 'SQL',
+  bash: 'Shell',
+  json: 'JSON',
+  xml: 'HTML',
+  css: 'CSS',
+};
+
+// Below this, highlight.js's best guess for an unlabelled block is usually wrong (pseudocode, prose, output).
+const MIN_DETECTION_RELEVANCE = 2;
+
+for (const [name, grammar] of Object.entries(LANGUAGES)) hljs.registerLanguage(name, grammar);
+
+const NAMES = Object.keys(LANGUAGES) as HighlightLanguage[];
+
+// Resolves fence tags and their aliases ("py", "js", "c++", "sh", "html") to a registered grammar.
+const resolveLanguage = (tag: string): HighlightLanguage | undefined => {
+  const grammar = hljs.getLanguage(tag);
+  return grammar ? NAMES.find(name => hljs.getLanguage(name) === grammar) : undefined;
+};
+
+const escapeHtml = (text: string) =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+export interface HighlightedCode {
+  html: string; // Escaped markup, safe to inject
+  label?: string; // Language shown in the snippet header; unset for plain text
+  detected: boolean; // The language was guessed rather than given on the fence
+}
+
+export const highlightCode = (code: string, fenceLanguage?: string): HighlightedCode => {
+  const tag = fenceLanguage?.trim().toLowerCase();
+  if (tag) {
+    const language = resolveLanguage(tag);
+    if (language) return { html: hljs.highlight(code, { language, ignoreIllegals: true }).value, label: LABELS[language], detected: false };
+    // Tags we have no grammar for, such as mermaid or pseudocode, are still worth showing.
+    return { html: escapeHtml(code), label: ['text', 'plaintext', 'txt'].includes(tag) ? undefined : tag, detected: false };
+  }
+
+  const guess = hljs.highlightAuto(code, NAMES);
+  const language = guess.language ? resolveLanguage(guess.language) : undefined;
+  if (language && guess.relevance >= MIN_DETECTION_RELEVANCE) return { html: guess.value, label: LABELS[language], detected: true };
+  return { html: escapeHtml(code), detected: false };
+};
@@ -0,0 +1,263 @@
+import { MAX_RUNNER_LOG_LINES, PYTHON_LOAD_TIMEOUT_MS, TEST_CASE_TIMEOUT_MS } from "../constants";
+import { RunnerError, RunnerLanguage, SubmissionFile, TemplateTests, TestCaseResult, TestRunResult } from "../types";
+
+const PYODIDE_URL = 'https://cdn.jsdelivr.net/pyodide/v0.27.2/full/pyodide.js';
+const JS_LOAD_TIMEOUT_MS = 10000;
+const MAX_RESULT_CHARS = 20000;
+
+// Runs inside a dedicated worker. Everything lives in one closure so student code, which runs in the worker's
+// global scope, cannot reach postMessage or the runner state. Network and storage APIs are removed before the
+// student's code is evaluated. Browsers do not expose a per-worker heap limit, so runaway allocations surface as
+// a crashed worker, which the main thread reports, and long runs are stopped by terminating the worker.
+const WORKER_SOURCE = `(() => {
+  const post = self.postMessage.bind(self);
+  const logs = [];
+  let maxLogs = 0;
+  const format = (value) => { if (typeof value === 'string') return value; try { return JSON.stringify(value); } catch { return String(value); } };
+  const capture = (...args) => { if (logs.length < maxLogs) logs.push(args.map(format).join(' ')); };
+  const sandboxConsole = { log: capture, info: capture, warn: capture, error: capture, debug: capture };
+
+  const lockDown = () => {
+    for (const name of ['fetch', 'XMLHttpRequest', 'WebSocket', 'EventSource', 'importScripts', 'indexedDB', 'caches', 'BroadcastChannel', 'postMessage', 'Worker']) {
+      try { Object.defineProperty(self, name, { value: undefined, configurable: false, writable: false }); } catch (e) {}
+    }
+    self.console = sandboxConsole;
+  };
+
+  const loadPython = async (code, functionName) => {
+    importScripts(${JSON.stringify(PYODIDE_URL)});
+    const pyodide = await loadPyodide();
+    lockDown();
+    pyodide.setStdout({ batched: capture });
+    pyodide.setStderr({ batched: capture });
+    pyodide.runPython(code);
+    const fn = pyodide.globals.get(functionName);
+    if (!fn || typeof fn !== 'function') return null;
+    pyodide.globals.set('__encrypt_fn', fn);
+    return (args) => {
+      pyodide.globals.set('__encrypt_args', JSON.stringify(args));
+      return JSON.parse(pyodide.runPython("__import__('json').dumps(__encrypt_fn(*__import__('json').loads(__encrypt_args)))"));
+    };
+  };
+
+  const loadJavaScript = (code, functionName) => {
+    lockDown();
+    const module = { exports: {} };
+    const fn = new Function('module', 'exports', 'console', code +
+      '\\n;return typeof ' + functionName + ' === "function" ? ' + functionName +
+      ' : (typeof module.exports === "function" ? module.exports : module.exports.' + functionName + ');')(module, module.exports, sandboxConsole);
+    return typeof fn === 'function' ? fn : null;
+  };
+
+  self.onmessage = async ({ data }) => {
+    maxLogs = data.maxLogLines;
+    let fn;
+    try {
+      fn = data.language === 'python' ? await loadPython(data.code, data.functionName) : loadJavaScript(data.code, data.functionName);
+    } catch (e) {
+      post({ type: 'load-error', error: { kind: 'loadFailed', detail: String(e && e.message || e) }, logs });
+      return;
+    }
+    if (!fn) {
+      post({ type: 'load-error', error: { kind: 'missingFunction' }, logs });
+      return;
+    }
+    post({ type: 'ready' });
+    for (const testCase of data.cases) {
+      post({ type: 'start', id: testCase.id });
+      const started = performance.now();
+      try {
+        const actual = await fn(...JSON.parse(testCase.args));
+        post({ type: 'result', id: testCase.id, actual: JSON.stringify(actual === undefined ? null : actual), durationMs: performance.now() - started });
+      } catch (e) {
+        post({ type: 'result', id: testCase.id, error: { kind: 'thrown', detail: String(e && e.name ? e.name + ': ' + e.message : e) }, durationMs: performance.now() - started });
+      }
+    }
+    post({ type: 'done', logs });
+  };
+})();`;
+
+type WorkerMessage =
+  | { type: 'ready' }
+  | { type: 'start'; id: string }
+  | { type: 'result'; id: string; actual?: string; error?: RunnerError; durationMs: number }
+  | { type: 'load-error'; error: RunnerError; logs: string[] }
+  | { type: 'done'; logs: string[] };
+
+const LANGUAGE_EXTENSIONS: Record<string, RunnerLanguage> = {
+  js: 'javascript', mjs: 'javascript', cjs: 'javascript',
+  ts: 'typescript', mts: 'typescript',
+  py: 'python',
+};
+
+export const runnerLanguageOf = (fileName: string): RunnerLanguage | undefined =>
+  LANGUAGE_EXTENSIONS[fileName.split('.').pop()?.toLowerCase() || ''];
+
+// Picks the language most of the submitted source files are written in and joins those files into one program.
+export const collectRunnableSource = (files: SubmissionFile[]) => {
+  const byLanguage = new Map<RunnerLanguage, SubmissionFile[]>();
+  for (const file of files) {
+    const language = file.kind === 'text' ? runnerLanguageOf(file.name) : undefined;
+    if (language) byLanguage.set(language, [...(byLanguage.get(language) || []), file]);
+  }
+  const [language, sources] = [...byLanguage].sort((a, b) => b[1].length - a[1].length)[0] || [];
+  if (!language || !sources) return null;
+  return { language, fileNames: sources.map(f => f.name), code: sources.map(f => f.text || '').join('\n\n') };
+};
+
+// JavaScript goes through the TypeScript compiler too, which turns ES module syntax into something new Function accepts.
+const transpile = async (code: string): Promise<{ code: string } | { error: RunnerError }> => {
+  const tsModule = await import('typescript');
+  const ts: typeof import('typescript') = (tsModule as { default?: typeof import('typescript') }).default ?? tsModule;
+  const output = ts.transpileModule(code, {
+    compilerOptions: { target: ts.ScriptTarget.ES2020, module: ts.ModuleKind.CommonJS, allowJs: true },
+    reportDiagnostics: true,
+  });
+  const diagnostic = output.diagnostics?.find(d => d.category === ts.DiagnosticCategory.Error);
+  if (diagnostic) {
+    const position = diagnostic.file && diagnostic.start !== undefined ? diagnostic.file.getLineAndCharacterOfPosition(diagnostic.start) : null;
+    return { error: { kind: 'compile', detail: ts.flattenDiagnosticMessageText(diagnostic.messageText, '\n'), line: position ? position.line + 1 : undefined } };
+  }
+  return { code: output.outputText };
+};
+
+const sameValue = (a: unknown, b: unknown): boolean => {
+  if (typeof a === 'number' && typeof b === 'number') return Math.abs(a - b) <= 1e-9 * Math.max(1, Math.abs(a), Math.abs(b));
+  if (Array.isArray(a) && Array.isArray(b)) return a.length === b.length && a.every((v, i) => sameValue(v, b[i]));
+  if (a && b && typeof a === 'object' && typeof b === 'object' && !Array.isArray(a) && !Array.isArray(b)) {
+    const keys = Object.keys(a as object);
+    return keys.length === Object.keys(b as object).length
+      && keys.every(k => sameValue((a as Record<string, unknown>)[k], (b as Record<string, unknown>)[k]));
+  }
+  return a === b;
+};
+
+const isIdentifier = (name: string) => /^[A-Za-z_$][\w$]*$/.test(name);
+
+// Runs every hidden case against the student's code in a throwaway worker. Never rejects; failures are reported.
+export const runHiddenTests = async (
+  source: { language: RunnerLanguage; code: string; fileNames: string[] },
+  tests: TemplateTests,
+  template: { id: string; title: string }
+): Promise<TestRunResult> => {
+  const results = new Map<string, TestCaseResult>(tests.cases.map(c => [c.id, { id: c.id, status: 'skipped', hint: c.hint }]));
+  const base = {
+    templateId: template.id, templateTitle: template.title, functionName: tests.functionName,
+    language: source.language, fileNames: source.fileNames, total: tests.cases.length,
+  };
+  const finish = (logs: string[], error?: RunnerError): TestRunResult => {
+    const cases = tests.cases.map(c => results.get(c.id)!);
+    return { ...base, cases, passed: cases.filter(c => c.status === 'pass').length, logs, error };
+  };
+
+  if (!isIdentifier(tests.functionName)) return finish([], { kind: 'invalidFunction' });
+
+  let code = source.code;
+  if (source.language !== 'python') {
+    try {
+      const compiled = await transpile(code);
+      if ('error' in compiled) return finish([], compiled.error);
+      code = compiled.code;
+    } catch (err: any) {
+      return finish([], { kind: 'compile', detail: err.message });
+    }
+  }
+
+  const workerUrl = URL.createObjectURL(new Blob([WORKER_SOURCE], { type: 'text/javascript' }));
+  const worker = new Worker(workerUrl);
+
+  return new Promise<TestRunResult>(resolve => {
+    let currentId: string | null = null;
+    let timer: ReturnType<typeof setTimeout>;
+    const settle = (logs: string[], error?: RunnerError) => {
+      clearTimeout(timer);
+      worker.terminate();
+      URL.revokeObjectURL(workerUrl);
+      resolve(finish(logs, error));
+    };
+    const arm = (ms: number, onExpire: () => void) => {
+      clearTimeout(timer);
+      timer = setTimeout(onExpire, ms);
+    };
+
+    arm(source.language === 'python' ? PYTHON_LOAD_TIMEOUT_MS : JS_LOAD_TIMEOUT_MS, () =>
+      settle([], { kind: source.language === 'python' ? 'pythonLoadTimeout' : 'loadTimeout' }));
+
+    worker.onmessage = ({ data }: MessageEvent<WorkerMessage>) => {
+      switch (data.type) {
+        case 'start':
+          currentId = data.id;
+          arm(TEST_CASE_TIMEOUT_MS, () => {
+            results.set(data.id, { ...results.get(data.id)!, status: 'timeout', error: { kind: 'timeout' } });
+            settle([]);
+          });
+          break;
+        case 'result': {
+          const testCase = tests.cases.find(c => c.id === data.id)!;
+          const result = results.get(data.id)!;
+          if (data.error) {
+            results.set(data.id, { ...result, status: 'error', error: data.error, durationMs: data.durationMs });
+          } else if ((data.actual?.length ?? 0) > MAX_RESULT_CHARS) {
+            results.set(data.id, { ...result, status: 'fail', error: { kind: 'resultTooLarge' }, durationMs: data.durationMs });
+          } else {
+            let passed = false;
+            try { passed = sameValue(JSON.parse(data.actual ?? 'null'), JSON.parse(testCase.expected)); } catch { passed = false; }
+            results.set(data.id, { ...result, status: passed ? 'pass' : 'fail', actual: data.actual, durationMs: data.durationMs });
+          }
+          currentId = null;
+          break;
+        }
+        case 'load-error':
+          settle(data.logs, data.error);
+          break;
+        case 'done':
+          settle(data.logs);
+          break;
+      }
+    };
+
+    worker.onerror = (event) => {
+      event.preventDefault();
+      const error: RunnerError = { kind: 'crashed', detail: event.message || undefined };
+      if (currentId) results.set(currentId, { ...results.get(currentId)!, status: 'error', error });
+      settle([], currentId ? undefined : error);
+    };
+
+    worker.postMessage({
+      language: source.language,
+      code,
+      functionName: tests.functionName,
+      cases: tests.cases.map(({ id, args }) => ({ id, args })),
+      maxLogLines: MAX_RUNNER_LOG_LINES,
+    });
+  });
+};
+
+// How failures read in the tutor's prompt; the report shows the translated `runner.<kind>` message instead.
+const RUNNER_ERRORS: Record<RunnerError['kind'], string> = {
+  invalidFunction: 'The template\'s function name is not a valid identifier.',
+  compile: 'The code does not compile.',
+  loadTimeout: 'The code took too long to load.',
+  pythonLoadTimeout: 'The Python runtime did not load in time.',
+  missingFunction: 'The function the tests call was not defined.',
+  loadFailed: 'The code failed while loading.',
+  thrown: 'The code threw an error.',
+  timeout: `Still running after ${TEST_CASE_TIMEOUT_MS / 1000}s; a loop may never end.`,
+  resultTooLarge: 'The result was too large to compare.',
+  crashed: 'The code crashed the sandbox; it may have run out of memory.',
+};
+
+const describeError = ({ kind, detail, line }: RunnerError) =>
+  [RUNNER_ERRORS[kind], line ? `Line ${line}:` : '', detail ?? ''].filter(Boolean).join(' ');
+
+// What the tutor is told about the run. It sees the hidden inputs so it can ask pointed questions, and is asked not
+// to reveal them or the fix.
+export const describeTestRun = (run: TestRunResult, tests: TemplateTests): string => {
+  if (run.error) return `Hidden tests for "${run.templateTitle}" (calling ${tests.functionName}) could not run: ${describeError(run.error)}`;
+  const lines = run.cases.filter(c => c.status !== 'pass').map(c => {
+    const testCase = tests.cases.find(t => t.id === c.id);
+    const outcome = c.status === 'skipped' ? 'was not run' : c.status === 'fail' ? `returned ${c.actual}` : `${c.status === 'timeout' ? 'timed out' : 'threw'}${c.error ? `: ${describeError(c.error)}` : ''}`;
+    return `- "${c.hint || c.id}": ${tests.functionName}(${testCase?.args.replace(/^\[|\]$/g, '') ?? '?'}) expected ${testCase?.expected ?? '?'}, ${outcome}`;
+  });
+  return [`Hidden tests for "${run.templateTitle}" (${run.language}): ${run.passed}/${run.total} passed.`, ...lines].join('\n');
+};
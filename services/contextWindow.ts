@@ -0,0 +1,84 @@
+import { CONTEXT_TARGET_TOKENS, CONTEXT_TOKEN_BUDGET, MIN_VERBATIM_TURNS } from "../constants";
+import { ConversationSummary, Message } from "../types";
+import { ChatPart, ChatTurn } from "./providers";
+import { buildSubmissionParts } from "./submissionService";
+
+// Decides which turns of a session go to the model verbatim. Recent turns, pinned turns and submissions
+// are always sent; older turns are folded into a running summary once the history outgrows its budget.
+
+// A rough count that avoids a tokenizer round-trip: about four characters per token for Latin script,
+// and nearer one per character for Indic and Arabic scripts, which tokenise far less efficiently.
+export const estimateTokens = (text: string) => {
+  let ascii = 0;
+  let other = 0;
+  for (const ch of text) {
+    if (ch.charCodeAt(0) < 128) ascii++;
+    else other++;
+  }
+  return Math.ceil(ascii / 4 + other / 1.5);
+};
+
+// The welcome text, app notes and turns that never got a reply are not part of the conversation.
+const isConversational = (message: Message) =>
+  message.id !== 'welcome' && message.role !== 'system' && !message.failure && !!message.text.trim();
+
+// Submissions stay together with the review that answered them.
+const isAnchored = (message: Message, previous?: Message) =>
+  !!message.pinned || !!message.attachments?.length || (message.role === 'model' && !!previous?.attachments?.length);
+
+// A submission turn carries the source files and test results it uploaded, not just its one-line caption.
+const toParts = (message: Message): ChatPart[] => {
+  const { submission } = message;
+  if (!submission) return [{ text: message.text }];
+  return [
+    { text: message.text },
+    ...buildSubmissionParts(submission.files),
+    ...(submission.testResults ? [{ text: submission.testResults }] : []),
+  ];
+};
+
+// Submission turns no longer hold image or PDF data, so their text is all there is to count.
+const messageTokens = (message: Message) => estimateTokens(
+  [message.text, ...(message.submission?.files.map(f => f.text ?? '') ?? []), message.submission?.testResults ?? ''].join('\n')
+);
+
+// Gemini expects turns to alternate, so back-to-back turns from the same side are merged.
+const toChatTurns = (messages: Message[]): ChatTurn[] => messages.reduce<ChatTurn[]>((turns, message) => {
+  const role = message.role === 'user' ? 'user' : 'model';
+  const last = turns[turns.length - 1];
+  if (last?.role === role) last.parts.push(...toParts(message));
+  else turns.push({ role, parts: toParts(message) });
+  return turns;
+}, []);
+
+export interface ContextSelection {
+  history: ChatTurn[];
+  overflow: Message[]; // Turns that no longer fit and are not yet covered by the summary, oldest first
+}
+
+export const selectContext = (messages: Message[], summary?: ConversationSummary): ContextSelection => {
+  const entries = messages
+    .map((message, index) => ({ message, anchored: isAnchored(message, messages[index - 1]), tokens: messageTokens(message) }))
+    .filter(entry => isConversational(entry.message));
+
+  const summarized = summary ? entries.findIndex(entry => entry.message.id === summary.throughMessageId) + 1 : 0;
+  const kept = entries.filter((entry, index) => index >= summarized || entry.anchored);
+  let total = kept.reduce((sum, entry) => sum + entry.tokens, summary ? estimateTokens(summary.text) : 0);
+
+  const overflow: Message[] = [];
+  if (total > CONTEXT_TOKEN_BUDGET) {
+    // Fold down to the lower target so the summary is refreshed every few turns rather than on every one.
+    const foldable = kept.slice(0, Math.max(0, kept.length - MIN_VERBATIM_TURNS));
+    for (const entry of foldable) {
+      if (total <= CONTEXT_TARGET_TOKENS) break;
+      if (entry.anchored) continue;
+      overflow.push(entry.message);
+      total -= entry.tokens;
+    }
+  }
+
+  return {
+    history: toChatTurns(kept.filter(entry => !overflow.includes(entry.message)).map(entry => entry.message)),
+    overflow,
+  };
+};
@@ -0,0 +1,74 @@
+import { DEFAULT_RUBRICS, TEMPLATES } from "../constants";
+import { LibraryTemplate } from "../types";
+
+const DB_NAME = 'encrypt-workspace';
+const DB_VERSION = 4;
+
+export const SESSIONS_STORE = 'sessions';
+export const ASSETS_STORE = 'assets';
+export const LEARNERS_STORE = 'learners';
+export const MASTERY_STORE = 'mastery';
+export const TEMPLATES_STORE = 'templates';
+export const RUBRICS_STORE = 'rubrics';
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+export const openDatabase = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      if (typeof indexedDB === 'undefined') {
+        reject(new Error('IndexedDB is not available in this environment.'));
+        return;
+      }
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(SESSIONS_STORE)) {
+          db.createObjectStore(SESSIONS_STORE, { keyPath: 'id' });
+        }
+        if (!db.objectStoreNames.contains(ASSETS_STORE)) {
+          const assets = db.createObjectStore(ASSETS_STORE, { keyPath: 'id' });
+          assets.createIndex('sessionId', 'sessionId', { unique: false });
+        }
+        if (!db.objectStoreNames.contains(LEARNERS_STORE)) {
+          db.createObjectStore(LEARNERS_STORE, { keyPath: 'id' });
+        }
+        if (!db.objectStoreNames.contains(MASTERY_STORE)) {
+          const mastery = db.createObjectStore(MASTERY_STORE, { keyPath: 'id' });
+          mastery.createIndex('learnerId', 'learnerId', { unique: false });
+        }
+        if (!db.objectStoreNames.contains(TEMPLATES_STORE)) {
+          // Seed the library with the built-in templates once; after that they are ordinary, editable entries.
+          const templates = db.createObjectStore(TEMPLATES_STORE, { keyPath: 'id' });
+          const now = Date.now();
+          TEMPLATES.forEach((tpl, index) => {
+            const record: LibraryTemplate = { ...tpl, source: 'builtin', version: 1, createdAt: now + index, updatedAt: now, history: [] };
+            templates.put(record);
+          });
+        }
+        if (!db.objectStoreNames.contains(RUBRICS_STORE)) {
+          const rubrics = db.createObjectStore(RUBRICS_STORE, { keyPath: 'id' });
+          const now = Date.now();
+          DEFAULT_RUBRICS.forEach((rubric, index) => rubrics.put({ ...rubric, createdAt: now + index, updatedAt: now }));
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+    dbPromise.catch(() => { dbPromise = null; });
+  }
+  return dbPromise;
+};
+
+export const promisify = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+export const transactionDone = (tx: IDBTransaction): Promise<void> =>
+  new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
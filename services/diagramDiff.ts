@@ -0,0 +1,273 @@
+import { validateMermaid } from "./mermaidRenderer";
+
+export interface DiagramNode {
+  id: string;
+  label: string;
+}
+
+export interface DiagramEdge {
+  index: number; // Position in Mermaid's link order, which is what linkStyle counts
+  from: string;
+  to: string;
+  label: string;
+}
+
+export interface DiagramGraph {
+  nodes: DiagramNode[];
+  edges: DiagramEdge[];
+}
+
+export interface DiagramDiff {
+  structural: boolean; // false when either side is not a flowchart and only source lines were compared
+  addedNodes: DiagramNode[];
+  removedNodes: DiagramNode[];
+  relabeledNodes: { id: string; before: string; after: string }[];
+  addedEdges: DiagramEdge[];
+  removedEdges: DiagramEdge[];
+  addedLines: string[];
+  removedLines: string[];
+}
+
+export type DiffTone = 'added' | 'removed' | 'changed';
+
+export interface DiagramHighlight {
+  tone: DiffTone;
+  nodes: string[];
+  edges: number[];
+}
+
+const FLOWCHART_HEADER = /^\s*(flowchart|graph)\b/i;
+const DIRECTIVE = /^(classDef|class|style|linkStyle|click|direction|subgraph|end|accTitle|accDescr)\b/;
+const NODE_ID = /^[\p{L}\p{N}_]+/u;
+const SHAPE_CLOSERS: Record<string, string> = { '[': ']', '(': ')', '{': '}', '>': ']' };
+// `A -- text --> B`, `A -. text .-> B`, or a bare arrow with an optional `|text|` label after it.
+const LINK = /^\s*(?:<?(?:--|==|-\.)\s+([^|]*?)\s+(?:-{2,}|={2,}|\.-)[>ox]?|<?(?:-{2,}|={2,}|-\.+-|~{3,})[>ox]?)\s*(?:\|([^|]*)\|)?\s*/;
+
+const TONE_STYLES: Record<DiffTone, { className: string; fill: string; stroke: string }> = {
+  added: { className: 'encryptAdded', fill: '#d1fae5', stroke: '#059669' },
+  removed: { className: 'encryptRemoved', fill: '#fee2e2', stroke: '#dc2626' },
+  changed: { className: 'encryptChanged', fill: '#fef3c7', stroke: '#d97706' },
+};
+
+const cleanLabel = (raw: string) => raw.trim().replace(/^[[({/\\>]+|[\])}/\\]+$/g, '').trim().replace(/^"(.*)"$/s, '$1').trim();
+
+// Splits on `;` and newlines, but not inside quoted or bracketed labels.
+const splitStatements = (source: string): string[] => {
+  const statements: string[] = [];
+  let current = '';
+  let depth = 0;
+  let quoted = false;
+  for (const char of source) {
+    if (char === '"') quoted = !quoted;
+    else if (!quoted && '[({'.includes(char)) depth++;
+    else if (!quoted && '])}'.includes(char)) depth = Math.max(0, depth - 1);
+    if (!quoted && depth === 0 && (char === ';' || char === '\n')) {
+      statements.push(current);
+      current = '';
+    } else {
+      current += char;
+    }
+  }
+  return [...statements, current].map(s => s.trim()).filter(Boolean);
+};
+
+// Reads `id`, `id[label]`, `id((label))`, `id>label]` and friends from the start of `text`.
+const readNode = (text: string): { node: DiagramNode; rest: string } | null => {
+  const id = text.match(NODE_ID)?.[0];
+  if (!id) return null;
+  let rest = text.slice(id.length);
+  let label = '';
+  const opener = rest[0];
+  if (opener && SHAPE_CLOSERS[opener]) {
+    const closer = SHAPE_CLOSERS[opener];
+    let depth = 0;
+    let quoted = false;
+    let end = -1;
+    for (let i = 0; i < rest.length; i++) {
+      const char = rest[i];
+      if (char === '"') quoted = !quoted;
+      if (quoted) continue;
+      if (char === opener && opener !== '>') depth++;
+      else if (char === closer && (opener === '>' || --depth === 0)) { end = i; break; }
+    }
+    if (end === -1) return null;
+    label = cleanLabel(rest.slice(1, end));
+    rest = rest.slice(end + 1);
+  }
+  rest = rest.replace(/^:::[\w-]+/, '');
+  return { node: { id, label }, rest };
+};
+
+// `A & B` groups fan out into one link per pair, in the order Mermaid numbers them.
+const readNodeGroup = (text: string): { nodes: DiagramNode[]; rest: string } | null => {
+  const nodes: DiagramNode[] = [];
+  let rest = text;
+  while (true) {
+    const read = readNode(rest.trimStart());
+    if (!read) return nodes.length > 0 ? { nodes, rest } : null;
+    nodes.push(read.node);
+    rest = read.rest;
+    const amp = rest.match(/^\s*&\s*/);
+    if (!amp) return { nodes, rest };
+    rest = rest.slice(amp[0].length);
+  }
+};
+
+// Best-effort reading of a flowchart's nodes and links. Returns null for every other diagram type.
+export const parseFlowchart = (source: string): DiagramGraph | null => {
+  const lines = source.split('\n').filter(line => !line.trim().startsWith('%%'));
+  const headerIndex = lines.findIndex(line => line.trim() !== '');
+  if (headerIndex === -1 || !FLOWCHART_HEADER.test(lines[headerIndex])) return null;
+
+  const nodes = new Map<string, DiagramNode>();
+  const edges: DiagramEdge[] = [];
+  const addNode = (node: DiagramNode) => {
+    const existing = nodes.get(node.id);
+    if (!existing) nodes.set(node.id, { id: node.id, label: node.label || node.id });
+    else if (node.label) existing.label = node.label;
+  };
+
+  const body = lines.slice(headerIndex + 1).join('\n');
+  for (const statement of splitStatements(body)) {
+    if (DIRECTIVE.test(statement)) continue;
+    let rest = statement;
+    let previous: DiagramNode[] | null = null;
+    let linkLabel = '';
+    while (rest.trim()) {
+      const group = readNodeGroup(rest);
+      if (!group) break;
+      group.nodes.forEach(addNode);
+      if (previous) {
+        for (const from of previous) {
+          for (const to of group.nodes) edges.push({ index: edges.length, from: from.id, to: to.id, label: linkLabel });
+        }
+      }
+      const link = group.rest.match(LINK);
+      if (!link) break;
+      previous = group.nodes;
+      linkLabel = cleanLabel(link[1] ?? link[2] ?? '');
+      rest = group.rest.slice(link[0].length);
+    }
+  }
+  return { nodes: [...nodes.values()], edges };
+};
+
+const edgeKey = (edge: DiagramEdge) => `${edge.from}\u0000${edge.to}\u0000${edge.label}`;
+
+// Items of `a` with no partner in `b`, matching duplicates one for one.
+const unmatched = <T>(a: T[], b: T[], key: (item: T) => string): T[] => {
+  const counts = new Map<string, number>();
+  b.forEach(item => counts.set(key(item), (counts.get(key(item)) ?? 0) + 1));
+  return a.filter(item => {
+    const remaining = counts.get(key(item)) ?? 0;
+    if (remaining === 0) return true;
+    counts.set(key(item), remaining - 1);
+    return false;
+  });
+};
+
+const sourceLines = (source: string) => source.split('\n').map(line => line.trim()).filter(line => line && !line.startsWith('%%'));
+
+export const diffDiagrams = (before: string, after: string): DiagramDiff => {
+  const addedLines = unmatched(sourceLines(after), sourceLines(before), line => line);
+  const removedLines = unmatched(sourceLines(before), sourceLines(after), line => line);
+  const a = parseFlowchart(before);
+  const b = parseFlowchart(after);
+  if (!a || !b) {
+    return { structural: false, addedNodes: [], removedNodes: [], relabeledNodes: [], addedEdges: [], removedEdges: [], addedLines, removedLines };
+  }
+
+  const beforeNodes = new Map(a.nodes.map(n => [n.id, n]));
+  const afterIds = new Set(b.nodes.map(n => n.id));
+  return {
+    structural: true,
+    addedNodes: b.nodes.filter(n => !beforeNodes.has(n.id)),
+    removedNodes: a.nodes.filter(n => !afterIds.has(n.id)),
+    relabeledNodes: b.nodes.flatMap(n => {
+      const previous = beforeNodes.get(n.id);
+      return previous && previous.label !== n.label ? [{ id: n.id, before: previous.label, after: n.label }] : [];
+    }),
+    addedEdges: unmatched(b.edges, a.edges, edgeKey),
+    removedEdges: unmatched(a.edges, b.edges, edgeKey),
+    addedLines,
+    removedLines,
+  };
+};
+
+export const isEmptyDiff = (diff: DiagramDiff) => diff.structural
+  ? diff.addedNodes.length + diff.removedNodes.length + diff.relabeledNodes.length + diff.addedEdges.length + diff.removedEdges.length === 0
+  : diff.addedLines.length + diff.removedLines.length === 0;
+
+// What each side of a side-by-side view should colour: removals on the older version, additions on the newer one.
+export const diffHighlights = (diff: DiagramDiff): { before: DiagramHighlight[]; after: DiagramHighlight[] } => ({
+  before: [{ tone: 'removed', nodes: diff.removedNodes.map(n => n.id), edges: diff.removedEdges.map(e => e.index) }],
+  after: [
+    { tone: 'added', nodes: diff.addedNodes.map(n => n.id), edges: diff.addedEdges.map(e => e.index) },
+    { tone: 'changed', nodes: diff.relabeledNodes.map(n => n.id), edges: [] },
+  ],
+});
+
+const styleLines = (highlights: DiagramHighlight[], withEdges: boolean): string[] => highlights.flatMap(({ tone, nodes, edges }) => {
+  const style = TONE_STYLES[tone];
+  const lines: string[] = [];
+  if (nodes.length > 0) {
+    lines.push(`classDef ${style.className} fill:${style.fill},stroke:${style.stroke},stroke-width:2px`);
+    lines.push(`class ${nodes.join(',')} ${style.className}`);
+  }
+  if (withEdges && edges.length > 0) lines.push(`linkStyle ${edges.join(',')} stroke:${style.stroke},stroke-width:3px`);
+  return lines;
+});
+
+// Appends Mermaid styling for the highlights. If our reading of the links was off, linkStyle indices can fall out of
+// range and break the parse, so edges are dropped first and the plain source is the last resort.
+export const highlightDiagram = async (source: string, highlights: DiagramHighlight[]): Promise<string> => {
+  if (!parseFlowchart(source)) return source;
+  for (const withEdges of [true, false]) {
+    const lines = styleLines(highlights, withEdges);
+    if (lines.length === 0) return source;
+    const candidate = `${source.trimEnd()}\n${lines.join('\n')}`;
+    if (!(await validateMermaid(candidate))) return candidate;
+  }
+  return source;
+};
+
+const edgeText = (edge: DiagramEdge, graph: Map<string, string>) =>
+  `${graph.get(edge.from) ?? edge.from} → ${graph.get(edge.to) ?? edge.to}${edge.label ? ` ("${edge.label}")` : ''}`;
+
+export type DiffChangeKind = 'addedStep' | 'removedStep' | 'renamedStep' | 'addedLink' | 'removedLink' | 'addedLine' | 'removedLine';
+
+// One entry of the change list. `params` fills the compare view's translated sentence for `kind`.
+export interface DiffChange {
+  kind: DiffChangeKind;
+  tone: DiffTone;
+  params: Record<string, string>;
+}
+
+export const describeDiff = (diff: DiagramDiff, before: string, after: string): DiffChange[] => {
+  if (!diff.structural) {
+    return [
+      ...diff.addedLines.map((line): DiffChange => ({ kind: 'addedLine', tone: 'added', params: { line } })),
+      ...diff.removedLines.map((line): DiffChange => ({ kind: 'removedLine', tone: 'removed', params: { line } })),
+    ];
+  }
+  const labels = new Map([...(parseFlowchart(before)?.nodes ?? []), ...(parseFlowchart(after)?.nodes ?? [])].map(n => [n.id, n.label]));
+  return [
+    ...diff.addedNodes.map((n): DiffChange => ({ kind: 'addedStep', tone: 'added', params: { label: n.label } })),
+    ...diff.removedNodes.map((n): DiffChange => ({ kind: 'removedStep', tone: 'removed', params: { label: n.label } })),
+    ...diff.relabeledNodes.map((n): DiffChange => ({ kind: 'renamedStep', tone: 'changed', params: { before: n.before, after: n.after } })),
+    ...diff.addedEdges.map((e): DiffChange => ({ kind: 'addedLink', tone: 'added', params: { link: edgeText(e, labels) } })),
+    ...diff.removedEdges.map((e): DiffChange => ({ kind: 'removedLink', tone: 'removed', params: { link: edgeText(e, labels) } })),
+  ];
+};
+
+// The change list in English, for the prompt that asks the tutor about an edit.
+export const formatChange = ({ kind, params: p }: DiffChange): string => ({
+  addedStep: () => `Added step "${p.label}"`,
+  removedStep: () => `Removed step "${p.label}"`,
+  renamedStep: () => `Renamed "${p.before}" to "${p.after}"`,
+  addedLink: () => `Added link ${p.link}`,
+  removedLink: () => `Removed link ${p.link}`,
+  addedLine: () => `Added line: ${p.line}`,
+  removedLine: () => `Removed line: ${p.line}`,
+})[kind]();
+
@@ -0,0 +1,199 @@
+import { MAX_MERMAID_REPAIR_ATTEMPTS } from "../constants";
+import { DiagramAction, MermaidRepairAttempt, VisualItem } from "../types";
+import { DiagramEdge, DiagramGraph, describeDiff, diffDiagrams, formatChange } from "./diagramDiff";
+import { repairMermaidDiagram } from "./geminiService";
+import { validateMermaid } from "./mermaidRenderer";
+
+interface FencedBlock {
+  lang: string;
+  content: string;
+}
+
+const MERMAID_HEADER_REGEX = /^(graph|flowchart|sequenceDiagram|classDiagram|stateDiagram(-v2)?|erDiagram|gantt|pie|gitGraph|journey|mindmap|timeline|C4Context)\b/i;
+
+// Fence tags the model uses for diagrams besides `mermaid` itself; these still need a Mermaid header.
+const DIAGRAM_FENCE_TAGS = new Set(['', 'flowchart', 'graph', 'sequencediagram']);
+
+// Walks the text line by line so each opening fence pairs with its own closing fence; unclosed blocks are ignored.
+const parseFencedBlocks = (text: string): FencedBlock[] => {
+  const blocks: FencedBlock[] = [];
+  let open: { fence: string; lang: string; lines: string[] } | null = null;
+
+  for (const line of text.split('\n')) {
+    const fence = line.match(/^\s*(`{3,}|~{3,})\s*([^\s`]*)/);
+    if (!open) {
+      if (fence) open = { fence: fence[1], lang: fence[2].toLowerCase(), lines: [] };
+      continue;
+    }
+    if (fence && fence[1][0] === open.fence[0] && fence[1].length >= open.fence.length && !fence[2]) {
+      blocks.push({ lang: open.lang, content: open.lines.join('\n').trim() });
+      open = null;
+      continue;
+    }
+    open.lines.push(line);
+  }
+  return blocks;
+};
+
+export const isDiagramBlock = (lang: string, content: string) =>
+  lang === 'mermaid' || (DIAGRAM_FENCE_TAGS.has(lang) && MERMAID_HEADER_REGEX.test(content.trim()));
+
+// Only closed fences count, so this is safe to run on a partially streamed reply.
+export const extractMermaidBlocks = (text: string): string[] =>
+  parseFencedBlocks(text)
+    .filter(({ lang, content }) => isDiagramBlock(lang, content))
+    .map(({ content }) => content)
+    .filter(content => content.length > 0);
+
+const createMermaidItem = (content: string, origin: VisualItem['origin'], repairHistory?: MermaidRepairAttempt[]): VisualItem => ({
+  id: `mermaid-${Date.now()}-${Math.random()}`,
+  type: 'mermaid',
+  content,
+  timestamp: Date.now(),
+  origin,
+  ...(repairHistory && repairHistory.length > 0 ? { repairHistory } : {})
+});
+
+// Validates a block and, if it fails to parse, asks the tutor for a corrected version behind the scenes.
+export const prepareMermaidItem = async (source: string): Promise<VisualItem> => {
+  let error = await validateMermaid(source);
+  if (!error) return createMermaidItem(source, 'original');
+
+  const repairHistory: MermaidRepairAttempt[] = [];
+  let candidate = source;
+
+  while (error && candidate && repairHistory.length < MAX_MERMAID_REPAIR_ATTEMPTS) {
+    repairHistory.push({ content: candidate, error });
+    try {
+      candidate = await repairMermaidDiagram(candidate, error);
+    } catch (err) {
+      console.error("Mermaid repair request failed", err);
+      break;
+    }
+    error = candidate ? await validateMermaid(candidate) : 'Repair returned an empty diagram.';
+  }
+
+  if (!error) return createMermaidItem(candidate, 'repaired', repairHistory);
+  if (candidate && candidate !== repairHistory[repairHistory.length - 1]?.content) {
+    repairHistory.push({ content: candidate, error });
+  }
+  return createMermaidItem(source, 'failed', repairHistory);
+};
+
+// A student's edit is stored as a new item that points back at the version it was made from.
+export const createDiagramRevision = (parent: VisualItem, content: string): VisualItem => ({
+  ...createMermaidItem(content, 'edited'),
+  parentId: parent.id,
+});
+
+const rootOf = (items: VisualItem[], item: VisualItem): VisualItem => {
+  const seen = new Set<string>();
+  let current = item;
+  while (current.parentId && !seen.has(current.id)) {
+    seen.add(current.id);
+    const parent = items.find(i => i.id === current.parentId);
+    if (!parent) break;
+    current = parent;
+  }
+  return current;
+};
+
+// Every version of the Blueprint `item` belongs to, original first.
+export const diagramRevisions = (items: VisualItem[], item: VisualItem): VisualItem[] => {
+  const rootId = rootOf(items, item).id;
+  return items
+    .filter(i => i.type === 'mermaid' && rootOf(items, i).id === rootId)
+    .sort((a, b) => a.timestamp - b.timestamp);
+};
+
+// Which diagram the tutor drew `item` belongs to (1-based, 0 if unknown) and which version of it it is (1 for the original).
+export const blueprintPosition = (items: VisualItem[], item: VisualItem): { number: number; revision: number } => {
+  const chain = diagramRevisions(items, item);
+  const roots = items.filter(i => i.type === 'mermaid' && !i.parentId);
+  return { number: roots.findIndex(r => r.id === chain[0]?.id) + 1, revision: chain.findIndex(r => r.id === item.id) + 1 };
+};
+
+// "Blueprint 2" for the second diagram the tutor drew, "Blueprint 2 · Rev 3" for the student's second edit of it.
+// This English form goes into prompts; the interface translates `blueprintPosition` itself.
+export const blueprintLabel = (items: VisualItem[], item: VisualItem): string => {
+  const { number, revision } = blueprintPosition(items, item);
+  return `Blueprint ${number || '?'}${revision > 1 ? ` · Rev ${revision}` : ''}`;
+};
+
+export const buildDiagramCheckPrompt = (revision: VisualItem, parent?: VisualItem): string => {
+  const changes = parent ? describeDiff(diffDiagrams(parent.content, revision.content), parent.content, revision.content) : [];
+  return [
+    'I edited one of the Blueprints. Is my version right? Point out anything that is wrong or missing, but let me fix it myself.',
+    '```mermaid\n' + revision.content.trim() + '\n```',
+    changes.length > 0 ? `What I changed:\n${changes.map(c => `- ${formatChange(c)}`).join('\n')}` : '',
+  ].filter(Boolean).join('\n\n');
+};
+
+export type DiagramSelection = { kind: 'node'; nodeId: string } | { kind: 'edge'; edgeIndex: number };
+
+// Mermaid numbers repeated links between the same pair 0, 2, 3, ... (it skips 1).
+const mermaidEdgeId = (edge: DiagramEdge, edges: DiagramEdge[]) => {
+  const earlier = edges.filter(e => e.index < edge.index && e.from === edge.from && e.to === edge.to).length;
+  return `L_${edge.from}_${edge.to}_${earlier === 0 ? 0 : earlier + 1}`;
+};
+
+// Maps a clicked element of a rendered flowchart back to the step or link it draws. Nodes render as
+// `g.node#<svg id>-flowchart-<node id>-<n>`; link paths and their labels carry `data-id="L_<from>_<to>_<n>"`.
+export const selectionFromElement = (element: Element, graph: DiagramGraph): DiagramSelection | null => {
+  const node = element.closest('g.node');
+  if (node) {
+    const nodeId = node.id.match(/flowchart-(.+)-\d+$/)?.[1];
+    return nodeId && graph.nodes.some(n => n.id === nodeId) ? { kind: 'node', nodeId } : null;
+  }
+  const link = element.closest('[data-et="edge"]') ?? element.closest('g.edgeLabel')?.querySelector('[data-id]');
+  const linkId = (link?.getAttribute('data-id') || link?.id || '').replace(/^.*?(?=L_)/, '');
+  const edge = linkId ? graph.edges.find(e => mermaidEdgeId(e, graph.edges) === linkId) : undefined;
+  return edge ? { kind: 'edge', edgeIndex: edge.index } : null;
+};
+
+const nodeLabel = (graph: DiagramGraph, id: string) => graph.nodes.find(n => n.id === id)?.label ?? id;
+
+export const describeSelection = (selection: DiagramSelection, graph: DiagramGraph): string => {
+  if (selection.kind === 'node') return nodeLabel(graph, selection.nodeId);
+  const edge = graph.edges[selection.edgeIndex];
+  return `${nodeLabel(graph, edge.from)} → ${nodeLabel(graph, edge.to)}${edge.label ? ` (${edge.label})` : ''}`;
+};
+
+const quoteList = (graph: DiagramGraph, edges: DiagramEdge[], end: 'from' | 'to') =>
+  edges.map(e => `"${nodeLabel(graph, e[end])}"${e.label ? ` (${e.label})` : ''}`).join(', ');
+
+// A question about one step or link, with enough of its surroundings that the tutor knows exactly which one is meant.
+export const buildDiagramElementPrompt = (action: DiagramAction, selection: DiagramSelection, graph: DiagramGraph, diagramName: string): string => {
+  const where = `This is in ${diagramName}${graph.nodes[0] ? ` (the flowchart that starts at "${graph.nodes[0].label}")` : ''}.`;
+
+  if (selection.kind === 'node') {
+    const label = nodeLabel(graph, selection.nodeId);
+    const incoming = graph.edges.filter(e => e.to === selection.nodeId);
+    const outgoing = graph.edges.filter(e => e.from === selection.nodeId);
+    const question = {
+      'explain': `Can you explain the step "${label}"?`,
+      'why-branch': `Why does the flow go where it does after "${label}"?`,
+      'what-if-fails': `What happens if "${label}" fails or gets an input it doesn't expect?`,
+      'example': `Can you trace a concrete example through "${label}"?`,
+    }[action.id];
+    const neighbours = [
+      incoming.length > 0 ? `It comes after ${quoteList(graph, incoming, 'from')}.` : 'Nothing leads into it.',
+      outgoing.length > 0 ? `It leads to ${quoteList(graph, outgoing, 'to')}.` : 'It is an end point.',
+    ];
+    return [question, where, ...neighbours].join(' ');
+  }
+
+  const edge = graph.edges[selection.edgeIndex];
+  const from = nodeLabel(graph, edge.from);
+  const to = nodeLabel(graph, edge.to);
+  const condition = edge.label ? ` when "${edge.label}"` : '';
+  const siblings = graph.edges.filter(e => e.from === edge.from && e.index !== edge.index);
+  const question = {
+    'explain': `Can you explain the link from "${from}" to "${to}"${condition}?`,
+    'why-branch': `Why does the flow go from "${from}" to "${to}"${condition}?`,
+    'what-if-fails': `What happens if the flow goes from "${from}" to "${to}"${condition} when it shouldn't, or never gets there?`,
+    'example': `Can you trace a concrete example that goes from "${from}" to "${to}"${condition}?`,
+  }[action.id];
+  const alternatives = siblings.length > 0 ? `The other way out of "${from}" goes to ${quoteList(graph, siblings, 'to')}.` : '';
+  return [question, where, alternatives].filter(Boolean).join(' ');
+};
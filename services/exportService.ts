@@ -0,0 +1,267 @@
+import React from 'react';
+import { renderToStaticMarkup } from 'react-dom/server';
+import ReactMarkdown from 'react-markdown';
+import remarkGfm from 'remark-gfm';
+import JSZip from 'jszip';
+import { MAX_HINTS_PER_PROBLEM } from '../constants';
+import { HintLevel, Message, StudySession, Template, VisualItem } from '../types';
+import { renderMermaid } from './mermaidRenderer';
+import { summarizeHintUsage } from './hintLadder';
+
+export type ExportFormat = 'html' | 'markdown' | 'pdf';
+
+interface RenderedVisual {
+  item: VisualItem;
+  svg?: string;
+  dataUrl?: string;
+  error?: string;
+}
+
+const escapeHtml = (value: string) =>
+  value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+const slugify = (value: string) =>
+  value.toLowerCase().replace(/[^\p{L}\p{N}]+/gu, '-').replace(/^-+|-+$/g, '').slice(0, 60) || 'session';
+
+const formatTimestamp = (timestamp: number) =>
+  new Date(timestamp).toLocaleString([], { dateStyle: 'medium', timeStyle: 'short' });
+
+const roleLabel = (message: Message) => (message.role === 'user' ? 'Student' : message.role === 'model' ? 'Encrypt' : 'System');
+
+const transcriptOf = (session: StudySession) => session.messages.filter(m => m.text.trim());
+
+const quizSummary = (message: Message) => {
+  const quiz = message.quiz;
+  if (!quiz) return null;
+  if (quiz.score === undefined) return `Quiz "${quiz.topic}" (${quiz.questions.length} questions, not submitted)`;
+  const correct = (quiz.results || []).filter(r => r.correct).length;
+  return `Quiz "${quiz.topic}": ${Math.round(quiz.score * 100)}% (${correct}/${quiz.questions.length} correct)`;
+};
+
+const HINT_LABELS: Record<HintLevel, string> = { nudge: 'nudge question', subproblem: 'sub-problem pointer', skeleton: 'partial skeleton' };
+
+const hintNote = (message: Message) =>
+  message.hint ? `Hint ${message.hint.number} of ${MAX_HINTS_PER_PROBLEM}${message.hint.overCap ? ' (over the limit)' : ''} on "${message.hint.concept}": ${HINT_LABELS[message.hint.level]}` : null;
+
+// Hints per problem, so a teacher can see how much of the work was done independently.
+const hintRows = (session: StudySession) => summarizeHintUsage(session.hints || []).map(problem => ({
+  problem: problem.concept,
+  count: `${problem.levels.length} of ${MAX_HINTS_PER_PROBLEM}${problem.overCap ? ` (${problem.overCap} over the limit)` : ''}`,
+  rungs: problem.levels.map(level => HINT_LABELS[level]).join(', '),
+  requested: String(problem.requested),
+}));
+
+// Library templates the learner opened plus every template synthesized during the session.
+const templatesOf = (session: StudySession, library: Template[]) => {
+  const used = new Set(session.usedTemplateIds || []);
+  const fromLibrary = library.filter(tpl => used.has(tpl.id));
+  const synthesized = session.sessionTemplates.filter(tpl => !fromLibrary.some(t => t.id === tpl.id));
+  return [...fromLibrary, ...synthesized];
+};
+
+const renderVisuals = async (items: VisualItem[]): Promise<RenderedVisual[]> => {
+  const rendered: RenderedVisual[] = [];
+  for (const item of items) {
+    if (item.type === 'image') {
+      rendered.push({ item, dataUrl: item.content });
+      continue;
+    }
+    const { svg, error } = await renderMermaid(item.content);
+    rendered.push({ item, svg, error });
+  }
+  return rendered;
+};
+
+const markdownToHtml = (text: string) =>
+  renderToStaticMarkup(React.createElement(ReactMarkdown, { remarkPlugins: [remarkGfm] }, text));
+
+const DOCUMENT_STYLES = `
+  body { font-family: ui-sans-serif, system-ui, sans-serif; color: #1c1917; max-width: 860px; margin: 0 auto; padding: 40px 24px; line-height: 1.6; }
+  h1 { font-size: 28px; margin-bottom: 4px; }
+  h2 { font-size: 18px; text-transform: uppercase; letter-spacing: 0.12em; color: #6d28d9; border-bottom: 1px solid #e7e5e4; padding-bottom: 6px; margin-top: 40px; }
+  .meta { color: #78716c; font-size: 13px; }
+  .message { border: 1px solid #e7e5e4; border-radius: 12px; padding: 12px 16px; margin: 12px 0; }
+  .message.user { background: #f5f3ff; border-color: #ddd6fe; }
+  .message header { font-size: 11px; font-weight: 700; text-transform: uppercase; letter-spacing: 0.08em; color: #78716c; margin-bottom: 6px; }
+  .message header .level { color: #7c3aed; margin-left: 8px; }
+  pre { background: #1e1e20; color: #e7e5e4; padding: 12px; border-radius: 8px; overflow-x: auto; font-size: 12px; }
+  code { font-family: ui-monospace, monospace; }
+  table { border-collapse: collapse; } td, th { border: 1px solid #e7e5e4; padding: 4px 8px; }
+  figure { margin: 16px 0; border: 1px solid #e7e5e4; border-radius: 12px; padding: 16px; text-align: center; }
+  figure svg, figure img { max-width: 100%; height: auto; }
+  figcaption { font-size: 11px; color: #a8a29e; text-transform: uppercase; letter-spacing: 0.12em; margin-top: 8px; }
+  .render-error { color: #b91c1c; font-size: 12px; text-align: left; }
+  .template pre { background: #fafaf9; color: #44403c; border: 1px solid #e7e5e4; }
+`;
+
+const PRINT_STYLES = `
+  @page { size: A4; margin: 18mm 16mm; }
+  @media print {
+    body { padding: 0; max-width: none; font-size: 11pt; }
+    .message, figure, .template { break-inside: avoid; }
+    h2 { break-after: avoid; }
+    pre { white-space: pre-wrap; word-break: break-word; background: #f5f5f4; color: #1c1917; border: 1px solid #d6d3d1; }
+  }
+`;
+
+const visualCaption = (visual: RenderedVisual, index: number) =>
+  `${visual.item.type === 'mermaid' ? 'Structural Blueprint' : 'Conceptual Vision'} ${index + 1} · ${formatTimestamp(visual.item.timestamp)}`;
+
+const buildHtmlDocument = (session: StudySession, visuals: RenderedVisual[], templates: Template[], forPrint: boolean) => {
+  const messagesHtml = transcriptOf(session).map(message => `
+    <article class="message ${message.role}">
+      <header>${roleLabel(message)} · ${formatTimestamp(message.timestamp)}${message.knowledgeLevel ? `<span class="level">${escapeHtml(message.knowledgeLevel)}</span>` : ''}</header>
+      ${markdownToHtml(message.text)}
+      ${quizSummary(message) ? `<p class="meta"><strong>${escapeHtml(quizSummary(message)!)}</strong></p>` : ''}
+      ${hintNote(message) ? `<p class="meta">${escapeHtml(hintNote(message)!)}</p>` : ''}
+    </article>`).join('\n');
+
+  const hints = hintRows(session);
+  const hintsHtml = hints.length > 0
+    ? `<table><tr><th>Problem</th><th>Hints</th><th>Rungs</th><th>Asked for</th></tr>${hints.map(row =>
+        `<tr><td>${escapeHtml(row.problem)}</td><td>${row.count}</td><td>${row.rungs}</td><td>${row.requested}</td></tr>`).join('')}</table>`
+    : '<p>No hints were used in this session.</p>';
+
+  const visualsHtml = visuals.map((visual, index) => {
+    const body = visual.svg
+      ? visual.svg
+      : visual.dataUrl
+        ? `<img src="${visual.dataUrl}" alt="Conceptual visualization" />`
+        : `<div class="render-error"><strong>Diagram could not be rendered:</strong> ${escapeHtml(visual.error || 'unknown error')}<pre>${escapeHtml(visual.item.content)}</pre></div>`;
+    return `<figure>${body}<figcaption>${escapeHtml(visualCaption(visual, index))}</figcaption></figure>`;
+  }).join('\n');
+
+  const templatesHtml = templates.map(tpl => `
+    <section class="template">
+      <h3>${escapeHtml(tpl.title)} <span class="meta">(${escapeHtml(tpl.category)}${tpl.isSynthesized ? ', synthesized' : ''})</span></h3>
+      <p>${escapeHtml(tpl.description)}</p>
+      <pre>${escapeHtml(tpl.content)}</pre>
+    </section>`).join('\n');
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="UTF-8" />
+<title>${escapeHtml(session.name)}</title>
+<style>${DOCUMENT_STYLES}${forPrint ? PRINT_STYLES : ''}</style>
+</head>
+<body>
+  <h1>${escapeHtml(session.name)}</h1>
+  <p class="meta">Started ${formatTimestamp(session.createdAt)} · Last activity ${formatTimestamp(session.updatedAt)} · Current level: ${escapeHtml(session.knowledgeLevel)}</p>
+  <h2>Hints Used</h2>
+  ${hintsHtml}
+  <h2>Reasoning Transcript</h2>
+  ${messagesHtml}
+  ${visuals.length > 0 ? `<h2>Blueprint</h2>\n${visualsHtml}` : ''}
+  ${templates.length > 0 ? `<h2>Templates Used</h2>\n${templatesHtml}` : ''}
+</body>
+</html>`;
+};
+
+const IMAGE_EXTENSIONS: Record<string, string> = { 'image/png': 'png', 'image/jpeg': 'jpg', 'image/webp': 'webp', 'image/gif': 'gif', 'image/svg+xml': 'svg' };
+
+const buildMarkdownArchive = async (session: StudySession, visuals: RenderedVisual[], templates: Template[]) => {
+  const zip = new JSZip();
+  const assets = zip.folder('assets')!;
+  const lines: string[] = [
+    `# ${session.name}`,
+    '',
+    `_Started ${formatTimestamp(session.createdAt)} · Last activity ${formatTimestamp(session.updatedAt)} · Current level: ${session.knowledgeLevel}_`,
+    '',
+    '## Hints Used',
+    '',
+  ];
+
+  const hints = hintRows(session);
+  if (hints.length > 0) {
+    lines.push('| Problem | Hints | Rungs | Asked for |', '| --- | --- | --- | --- |');
+    for (const row of hints) lines.push(`| ${row.problem.replace(/\|/g, '\\|')} | ${row.count} | ${row.rungs} | ${row.requested} |`);
+  } else {
+    lines.push('No hints were used in this session.');
+  }
+  lines.push('', '## Reasoning Transcript', '');
+
+  for (const message of transcriptOf(session)) {
+    lines.push(`### ${roleLabel(message)} · ${formatTimestamp(message.timestamp)}${message.knowledgeLevel ? ` · ${message.knowledgeLevel}` : ''}`, '', message.text, '');
+    const quiz = quizSummary(message);
+    if (quiz) lines.push(`**${quiz}**`, '');
+    const hint = hintNote(message);
+    if (hint) lines.push(`_${hint}_`, '');
+  }
+
+  if (visuals.length > 0) {
+    lines.push('## Blueprint', '');
+    visuals.forEach((visual, index) => {
+      const caption = visualCaption(visual, index);
+      if (visual.svg) {
+        const file = `diagram-${index + 1}.svg`;
+        assets.file(file, visual.svg);
+        lines.push(`![${caption}](assets/${file})`, '', '```mermaid', visual.item.content, '```', '');
+      } else if (visual.dataUrl) {
+        const [header, data] = visual.dataUrl.split(',', 2);
+        const mimeType = header.match(/^data:([^;]+)/)?.[1] || 'image/png';
+        const file = `image-${index + 1}.${IMAGE_EXTENSIONS[mimeType] || 'png'}`;
+        assets.file(file, data, { base64: true });
+        lines.push(`![${caption}](assets/${file})`, '');
+      } else {
+        lines.push(`> ${caption}: could not be rendered (${visual.error || 'unknown error'})`, '', '```mermaid', visual.item.content, '```', '');
+      }
+    });
+  }
+
+  if (templates.length > 0) {
+    lines.push('## Templates Used', '');
+    for (const tpl of templates) {
+      lines.push(`### ${tpl.title} (${tpl.category}${tpl.isSynthesized ? ', synthesized' : ''})`, '', tpl.description, '', '```', tpl.content, '```', '');
+    }
+  }
+
+  zip.file(`${slugify(session.name)}.md`, lines.join('\n'));
+  return zip.generateAsync({ type: 'blob' });
+};
+
+export const downloadBlob = (blob: Blob, fileName: string) => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+};
+
+// Prints from a hidden iframe so popup blockers do not interfere; the browser's dialog offers "Save as PDF".
+const printHtml = (html: string) =>
+  new Promise<void>((resolve) => {
+    const frame = document.createElement('iframe');
+    frame.style.position = 'fixed';
+    frame.style.width = '0';
+    frame.style.height = '0';
+    frame.style.border = '0';
+    frame.srcdoc = html;
+    frame.onload = () => {
+      const win = frame.contentWindow!;
+      win.addEventListener('afterprint', () => frame.remove());
+      win.focus();
+      win.print();
+      resolve();
+    };
+    document.body.appendChild(frame);
+  });
+
+export const exportSession = async (session: StudySession, format: ExportFormat, library: Template[]) => {
+  const visuals = await renderVisuals(session.visualItems);
+  const templates = templatesOf(session, library);
+  const baseName = slugify(session.name);
+
+  switch (format) {
+    case 'html':
+      downloadBlob(new Blob([buildHtmlDocument(session, visuals, templates, false)], { type: 'text/html' }), `${baseName}.html`);
+      return;
+    case 'markdown':
+      downloadBlob(await buildMarkdownArchive(session, visuals, templates), `${baseName}.zip`);
+      return;
+    case 'pdf':
+      await printHtml(buildHtmlDocument(session, visuals, templates, true));
+      return;
+  }
+};
@@ -0,0 +1,114 @@
+import { CriterionScore, FeedbackReport, ReportComparison, Rubric, SubmissionAttachment, TestRunResult } from "../types";
+
+// Fields the review model fills in; everything else on a report is bookkeeping.
+export interface GeneratedReview {
+  summary: string;
+  strengths: string[];
+  logicalGaps: string[];
+  misconceptions: string[];
+  unhandledEdgeCases: string[];
+  scores: { criterionId: string; score: number; comment: string }[];
+  improvements?: string[]; // Only requested for revisions
+  resolvedIssues?: string[];
+}
+
+const baseName = (name: string) => name.split('/').pop()!.toLowerCase();
+
+const normalizeIssue = (issue: string) => issue.toLowerCase().replace(/[^\p{L}\p{N}]+/gu, ' ').trim();
+
+const stringList = (value: unknown): string[] =>
+  Array.isArray(value) ? value.filter((v): v is string => typeof v === 'string' && v.trim() !== '').map(v => v.trim()) : [];
+
+export const reportIssues = (report: Pick<FeedbackReport, 'logicalGaps' | 'misconceptions' | 'unhandledEdgeCases'>) =>
+  [...report.logicalGaps, ...report.misconceptions, ...report.unhandledEdgeCases];
+
+export const reportTotals = (report: FeedbackReport) => ({
+  score: report.scores.reduce((sum, s) => sum + s.score, 0),
+  maxScore: report.scores.reduce((sum, s) => sum + s.maxScore, 0),
+});
+
+// A submission counts as a revision of the latest earlier report that shares at least one file name with it.
+export const findPreviousReport = (reports: FeedbackReport[], files: SubmissionAttachment[]): FeedbackReport | undefined => {
+  const names = new Set(files.map(f => baseName(f.name)));
+  return [...reports]
+    .sort((a, b) => b.createdAt - a.createdAt)
+    .find(report => report.files.some(f => names.has(baseName(f.name))));
+};
+
+const compareReports = (previous: FeedbackReport, next: FeedbackReport, review: GeneratedReview): ReportComparison => {
+  const scoreChanges = next.scores.flatMap(score => {
+    const before = previous.scores.find(s => s.criterionId === score.criterionId || s.criterion === score.criterion);
+    return before ? [{ criterion: score.criterion, before: before.score, after: score.score, maxScore: score.maxScore }] : [];
+  });
+
+  // The model names the previous issues it considers fixed; anything it did not name is still open.
+  const resolvedKeys = new Set(stringList(review.resolvedIssues).map(normalizeIssue));
+  const previousIssues = reportIssues(previous);
+  const previousKeys = new Set(previousIssues.map(normalizeIssue));
+
+  return {
+    previousReportId: previous.id,
+    scoreChanges,
+    improvements: stringList(review.improvements),
+    resolvedIssues: previousIssues.filter(issue => resolvedKeys.has(normalizeIssue(issue))),
+    remainingIssues: previousIssues.filter(issue => !resolvedKeys.has(normalizeIssue(issue))),
+    newIssues: reportIssues(next).filter(issue => !previousKeys.has(normalizeIssue(issue))),
+  };
+};
+
+// Scores are clamped to the rubric and matched back to criteria by id; criteria the model skipped score zero.
+export const buildFeedbackReport = (
+  review: GeneratedReview,
+  rubric: Rubric,
+  files: SubmissionAttachment[],
+  previous?: FeedbackReport,
+  testRun?: TestRunResult
+): FeedbackReport => {
+  const createdAt = Date.now();
+  const scores: CriterionScore[] = rubric.criteria.map(criterion => {
+    const scored = (review.scores || []).find(s => s.criterionId === criterion.id);
+    const score = Math.min(criterion.maxScore, Math.max(0, Math.round(Number(scored?.score) || 0)));
+    return { criterionId: criterion.id, criterion: criterion.name, score, maxScore: criterion.maxScore, comment: scored?.comment?.trim() || '' };
+  });
+
+  const report: FeedbackReport = {
+    id: `report-${createdAt}-${Math.random().toString(36).slice(2, 8)}`,
+    createdAt,
+    rubricId: rubric.id,
+    rubricName: rubric.name,
+    files,
+    summary: review.summary?.trim() || '',
+    strengths: stringList(review.strengths),
+    logicalGaps: stringList(review.logicalGaps),
+    misconceptions: stringList(review.misconceptions),
+    unhandledEdgeCases: stringList(review.unhandledEdgeCases),
+    scores,
+    ...(testRun ? { testRun } : {}),
+  };
+  return previous ? { ...report, comparison: compareReports(previous, report, review) } : report;
+};
+
+// Follows the chain of comparisons back to the first submission: 1 for an original, 2 for its first revision, ...
+export const revisionNumber = (report: FeedbackReport, reports: FeedbackReport[]): number => {
+  let revision = 1;
+  let current: FeedbackReport | undefined = report;
+  while (current?.comparison && revision <= reports.length) {
+    const previousId: string = current.comparison.previousReportId;
+    current = reports.find(r => r.id === previousId);
+    revision++;
+  }
+  return revision;
+};
+
+// The chat turn that accompanies a report, so follow-up questions have the findings in context.
+export const describeReport = (report: FeedbackReport): string => {
+  const { score, maxScore } = reportTotals(report);
+  const issues = [...report.logicalGaps, ...report.misconceptions].slice(0, 3);
+  return [
+    `**Review ready:** ${score}/${maxScore} on *${report.rubricName}*.`,
+    report.testRun && !report.testRun.error ? `Hidden tests: ${report.testRun.passed}/${report.testRun.total} passed.` : '',
+    report.summary,
+    issues.length > 0 ? `Worth thinking about:\n${issues.map(issue => `- ${issue}`).join('\n')}` : '',
+    'The full report is in the Submissions tab. Which point would you like to reason through first?',
+  ].filter(Boolean).join('\n\n');
+};
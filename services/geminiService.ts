@@ -1,38 +1,115 @@
-import { GoogleGenAI, FunctionDeclaration, Type, Tool, GenerateContentResponse } from "@google/genai";
-import { SYSTEM_INSTRUCTION } from "../constants";
-import { Template, TemplateCategory, KnowledgeLevel } from "../types";
+import { AI_STREAM_IDLE_TIMEOUT_MS, AI_STRUCTURED_TIMEOUT_MS, HINT_LEVELS, MAX_TOOL_ROUNDS, SYSTEM_INSTRUCTION } from "../constants";
+import { Template, TemplateCategory, KnowledgeLevel, MentorAssessment, MentorStatus, Quiz, QuizQuestion, QuizQuestionKind, Walkthrough, Rubric, FeedbackReport, HintLevel, HintRecord, LevelCalibration } from "../types";
+import { buildWalkthroughInstruction } from "./walkthroughService";
+import { buildHintInstruction, isHintLevel } from "./hintLadder";
+import { buildCalibrationInstruction, isAdaptive, LEVEL_STEPS, LevelEvidence } from "./levelCalibration";
+import { GeneratedReview, reportIssues } from "./feedbackReport";
+import { buildToolInstruction, isTutorTool, runToolCall, tutorToolDeclarations, TutorWorkspace } from "./tutorTools";
+import { ChatPart, ChatRequest, ChatResult, ChatTurn, getProvider, StructuredRequest, ToolDeclaration } from "./providers";
+import { AIServiceError, createDeadline, timeoutError, withRetry } from "./aiErrors";
 
-const updateMentorStatusTool: FunctionDeclaration = {
+// Every export below rejects with an AIServiceError, except when the caller's own signal stopped the request.
+export { AIServiceError, toAIServiceError } from "./aiErrors";
+
+const updateMentorStatusTool: ToolDeclaration = {
   name: 'updateMentorStatus',
-  description: 'Updates the mentor mode status based on user understanding.',
+  description: 'Reports how well the user understands the concept currently being discussed.',
   parameters: {
-    type: Type.OBJECT,
+    type: 'object',
     properties: {
       status: {
-        type: Type.STRING,
+        type: 'string',
         enum: ['searching', 'satisfied'],
         description: 'The new status of the mentor mode. Use "satisfied" when the user understands the core logic.',
       },
+      concept: {
+        type: 'string',
+        description: 'Short, reusable name of the concept being assessed, e.g. "Binary Search" or "Recursion Base Cases".',
+      },
+      confidence: {
+        type: 'number',
+        description: 'How confident you are in this status, from 0 (guess) to 1 (certain).',
+      },
     },
-    required: ['status'],
+    required: ['status', 'concept', 'confidence'],
   },
 };
 
-const tools: Tool[] = [{ functionDeclarations: [updateMentorStatusTool] }];
+const completeWalkthroughStepTool: ToolDeclaration = {
+  name: 'completeWalkthroughStep',
+  description: 'Marks the current step of a guided template walkthrough as understood, so the walkthrough moves on to the next step.',
+  parameters: {
+    type: 'object',
+    properties: {
+      step: { type: 'number', description: 'The 1-based number of the step the student has just demonstrated understanding of.' },
+    },
+    required: ['step'],
+  },
+};
 
-let aiInstance: GoogleGenAI | null = null;
+const offerHintTool: ToolDeclaration = {
+  name: 'offerHint',
+  description: 'Records that this reply gives the student a hint, and which rung of the hint ladder it is on.',
+  parameters: {
+    type: 'object',
+    properties: {
+      level: {
+        type: 'string',
+        enum: HINT_LEVELS,
+        description: '"nudge" for a guiding question, "subproblem" for a pointer to the sub-problem to solve first, "skeleton" for a partial skeleton with the key steps left blank.',
+      },
+      concept: {
+        type: 'string',
+        description: 'Short, reusable name of the problem the hint is for, e.g. "Reverse a Linked List".',
+      },
+    },
+    required: ['level', 'concept'],
+  },
+};
 
-const getAIInstance = () => {
-  if (!aiInstance) {
-    aiInstance = new GoogleGenAI({ apiKey: process.env.API_KEY });
-  }
-  return aiInstance;
+const calibrateLevelTool: ToolDeclaration = {
+  name: 'calibrateLevel',
+  description: 'Reports where the student\'s latest reply places them on the adaptive level scale.',
+  parameters: {
+    type: 'object',
+    properties: {
+      step: { type: 'integer', description: `The step the reply suggests, from 1 to ${LEVEL_STEPS}.` },
+      confidence: { type: 'number', description: 'How clear the evidence is, from 0 (a hint of it) to 1 (clear-cut).' },
+      evidence: { type: 'string', description: 'One short sentence, addressed to the student, on what in their reply shows this.' },
+      topic: { type: 'string', description: 'Short, reusable name of the topic being discussed.' },
+      diagnostic: { type: 'boolean', description: 'True when this concludes the opening diagnostic for the topic.' },
+    },
+    required: ['step', 'confidence', 'evidence', 'topic'],
+  },
 };
 
+const tools: ToolDeclaration[] = [updateMentorStatusTool, offerHintTool];
+
+// Extra per-request state the tutor should know about beyond the conversation itself.
+export interface TutorContext {
+  walkthrough?: Walkthrough;
+  responseLanguage?: string; // The interface language, e.g. "Urdu (اردو)"
+  conversationSummary?: string; // Earlier turns that no longer fit in the history
+  hints?: HintRecord[];
+  hintRequested?: boolean; // The student pressed "I'm stuck"
+  calibration?: LevelCalibration;
+}
+
 export interface ChatResponse {
   text: string;
-  mentorStatus?: 'searching' | 'satisfied';
+  assessment?: MentorAssessment;
+  completedWalkthroughStep?: number;
+  hint?: { level: HintLevel; concept: string }; // concept is empty when the tutor did not name the problem
+  levelEvidence?: LevelEvidence;
   imagePart?: string;
+  aborted?: boolean;
+}
+
+export interface StreamOptions {
+  onText: (text: string) => void; // Receives the accumulated text so far, not just the delta.
+  signal?: AbortSignal;
+  context?: TutorContext;
+  workspace?: TutorWorkspace; // Lets the tutor act on the workspace; without one it can only talk
 }
 
 const getLevelInstruction = (level: string): string => {
@@ -66,85 +143,219 @@ const getLevelInstruction = (level: string): string => {
   }
 };
 
-export const sendMessageToGemini = async (
-  history: { role: string; parts: { text: string }[] }[],
-  currentMessage: string,
-  knowledgeLevel: string
-): Promise<ChatResponse> => {
-  const ai = getAIInstance();
-  const model = 'gemini-3-flash-preview'; 
-
-  const contents = [
-    ...history,
-    { role: 'user', parts: [{ text: currentMessage }] }
+const buildChatRequest = (
+  history: ChatTurn[],
+  currentMessage: string | ChatPart[],
+  knowledgeLevel: string,
+  context: TutorContext = {},
+  canUseWorkspace = false
+): ChatRequest => {
+  const sections = [
+    SYSTEM_INSTRUCTION,
+    getLevelInstruction(knowledgeLevel),
+    'ALWAYS provide a Mermaid diagram (using \`\`\`mermaid\`) if the logic can be visualized. Focus on the core structural logic.',
   ];
+  const adaptive = !!context.calibration && isAdaptive(context.calibration);
+  // In adaptive mode level changes come from the calibration instead of one-off suggestions.
+  const requestTools = [...tools, ...(canUseWorkspace ? tutorToolDeclarations : [])]
+    .filter(tool => !adaptive || tool.name !== 'suggestKnowledgeLevel');
+  if (adaptive) {
+    sections.push(buildCalibrationInstruction(context.calibration!));
+    requestTools.push(calibrateLevelTool);
+  }
+  const toolInstruction = buildToolInstruction(requestTools);
+  if (toolInstruction) sections.push(toolInstruction);
+  if (context.walkthrough && !context.walkthrough.completedAt) {
+    sections.push(buildWalkthroughInstruction(context.walkthrough));
+    requestTools.push(completeWalkthroughStepTool);
+  }
+  sections.push(buildHintInstruction(context.hints ?? [], !!context.hintRequested));
+  if (context.conversationSummary) {
+    sections.push(`# EARLIER IN THIS SESSION
+The oldest turns of this conversation have been condensed into the summary below. Build on what the student has already understood instead of re-teaching it.
 
-  const levelSpecificInstruction = getLevelInstruction(knowledgeLevel);
-
-  const response: GenerateContentResponse = await ai.models.generateContent({
-    model,
-    contents,
-    config: {
-      systemInstruction: `${SYSTEM_INSTRUCTION}\n\n${levelSpecificInstruction}\n\nALWAYS provide a Mermaid diagram (using \`\`\`mermaid\`) if the logic can be visualized. Focus on the core structural logic.`,
-      tools: tools,
-      thinkingConfig: { thinkingBudget: 4000 }
-    },
-  });
+${context.conversationSummary}`);
+  }
+  if (context.responseLanguage) {
+    sections.push(`# PREFERRED LANGUAGE
+The student has set their interface to ${context.responseLanguage}. Reply in ${context.responseLanguage} by default. If the student writes to you in a different language, reply in the language they wrote in instead. Code identifiers, Mermaid node ids and image prompts stay in English.`);
+  }
 
-  let mentorStatus: 'searching' | 'satisfied' | undefined = undefined;
-  const candidate = response.candidates?.[0];
-  const functionCalls = candidate?.content?.parts?.filter(p => p.functionCall).map(p => p.functionCall);
+  return {
+    contents: [
+      ...history,
+      { role: 'user', parts: typeof currentMessage === 'string' ? [{ text: currentMessage }] : currentMessage }
+    ],
+    systemInstruction: sections.join('\n\n'),
+    tools: requestTools,
+    thinkingBudget: 4000,
+  };
+};
 
-  if (functionCalls && functionCalls.length > 0) {
-    for (const call of functionCalls) {
-      if (call && call.name === 'updateMentorStatus') {
-        const args = call.args as { status: 'searching' | 'satisfied' };
-        mentorStatus = args.status;
-      }
+const toChatResponse = (result: ChatResult, aborted?: boolean): ChatResponse => {
+  let assessment: MentorAssessment | undefined = undefined;
+  let completedWalkthroughStep: number | undefined = undefined;
+  let hint: ChatResponse['hint'] = undefined;
+  let levelEvidence: LevelEvidence | undefined = undefined;
+  for (const call of result.functionCalls) {
+    if (call.name === 'updateMentorStatus') {
+      const args = call.args as { status: MentorStatus; concept?: unknown; confidence?: unknown };
+      if (args.status !== 'searching' && args.status !== 'satisfied') continue;
+      assessment = {
+        status: args.status,
+        concept: typeof args.concept === 'string' ? args.concept : undefined,
+        confidence: typeof args.confidence === 'number' ? args.confidence : undefined,
+      };
+    }
+    if (call.name === 'completeWalkthroughStep') {
+      const step = Number((call.args as { step?: unknown }).step);
+      if (Number.isInteger(step) && step > 0) completedWalkthroughStep = step;
+    }
+    if (call.name === 'offerHint') {
+      const args = call.args as { level?: unknown; concept?: unknown };
+      if (!isHintLevel(args.level)) continue;
+      hint = { level: args.level, concept: typeof args.concept === 'string' && args.concept.trim() ? args.concept.trim() : '' };
+    }
+    if (call.name === 'calibrateLevel') {
+      const args = call.args as { step?: unknown; confidence?: unknown; evidence?: unknown; topic?: unknown; diagnostic?: unknown };
+      const step = Number(args.step);
+      if (!Number.isFinite(step)) continue;
+      levelEvidence = {
+        source: args.diagnostic === true ? 'diagnostic' : 'conversation',
+        step,
+        confidence: typeof args.confidence === 'number' ? args.confidence : 0.5,
+        reason: typeof args.evidence === 'string' && args.evidence.trim() ? args.evidence.trim() : undefined,
+        topic: typeof args.topic === 'string' ? args.topic : undefined,
+      };
     }
   }
 
-  let finalText = "";
-  let imagePart: string | undefined = undefined;
+  return { text: result.text, assessment, completedWalkthroughStep, hint, levelEvidence, imagePart: result.images[result.images.length - 1], aborted };
+};
 
-  for (const part of candidate?.content?.parts || []) {
-    if (part.text) finalText += part.text;
-    if (part.inlineData) {
-      imagePart = `data:${part.inlineData.mimeType};base64,${part.inlineData.data}`;
-    }
-  }
+// Model turn replaying a round's calls, followed by the user turn that answers every one of them. Report-only
+// calls (mentor status, hints, walkthrough steps, level evidence) need an answer too, but have nothing to say beyond it.
+const toolRoundTurns = async (result: ChatResult, workspace: TutorWorkspace): Promise<ChatTurn[]> => [
+  {
+    role: 'model',
+    parts: [...(result.text ? [{ text: result.text }] : []), ...result.functionCalls.map(functionCall => ({ functionCall }))],
+  },
+  {
+    role: 'user',
+    parts: await Promise.all(result.functionCalls.map(async call => ({
+      functionResponse: isTutorTool(call.name) ? await runToolCall(call, workspace) : { id: call.id, name: call.name, response: { recorded: true } },
+    }))),
+  },
+];
+
+// The function-call loop: workspace tools are executed and their results sent back until the model answers
+// without calling one, or MAX_TOOL_ROUNDS is reached. Without a workspace it is a single round. `runRound`
+// receives the text of earlier rounds so a streamed reply can keep showing it.
+const runToolLoop = async (
+  request: ChatRequest,
+  workspace: TutorWorkspace | undefined,
+  runRound: (request: ChatRequest, earlierText: string) => Promise<ChatResult>,
+  signal?: AbortSignal
+): Promise<ChatResult> => {
+  const combined: ChatResult = { text: '', functionCalls: [], images: [] };
+  for (let round = 1; ; round++) {
+    const earlierText = combined.text ? `${combined.text}\n\n` : '';
+    const result = await runRound(request, earlierText);
+    if (result.text) combined.text = earlierText + result.text;
+    combined.functionCalls.push(...result.functionCalls);
+    combined.images.push(...result.images);
 
-  if (functionCalls && functionCalls.length > 0 && !finalText) {
-      finalText = "I have updated my mentor status and am analyzing your logic further.";
+    if (!workspace || signal?.aborted || !result.functionCalls.some(call => isTutorTool(call.name))) return combined;
+    const turns = await toolRoundTurns(result, workspace);
+    // The last round's tools still run, but the model gets no further turn to respond to them.
+    if (round >= MAX_TOOL_ROUNDS || signal?.aborted) return combined;
+    request = { ...request, contents: [...request.contents, ...turns] };
   }
+};
 
-  return { text: finalText, mentorStatus, imagePart };
+export const streamMessageToGemini = async (
+  history: ChatTurn[],
+  currentMessage: string | ChatPart[],
+  knowledgeLevel: string,
+  { onText, signal, context, workspace }: StreamOptions
+): Promise<ChatResponse> => {
+  const request = buildChatRequest(history, currentMessage, knowledgeLevel, context, !!workspace);
+  const result = await runToolLoop(request, workspace, (round, earlierText) => {
+    // Only a round that has not started streaming is retried; once text is on screen a retry would repeat it.
+    let started = false;
+    return withRetry(async () => {
+      const deadline = createDeadline(AI_STREAM_IDLE_TIMEOUT_MS, signal);
+      try {
+        const result = await getProvider().streamChat({ ...round, signal: deadline.signal }, text => {
+          started = true;
+          deadline.extend();
+          onText(earlierText + text);
+        });
+        // Providers resolve with the partial text when their signal aborts, including on our own deadline.
+        if (deadline.expired()) throw timeoutError(AI_STREAM_IDLE_TIMEOUT_MS);
+        return result;
+      } catch (error) {
+        throw deadline.expired() ? timeoutError(AI_STREAM_IDLE_TIMEOUT_MS) : error;
+      } finally {
+        deadline.clear();
+      }
+    }, { signal, shouldRetry: error => error.retryable && !started });
+  }, signal);
+  return toChatResponse(result, signal?.aborted);
 };
 
-export const synthesizeTemplate = async (query: string): Promise<Template> => {
-  const ai = getAIInstance();
-  const response = await ai.models.generateContent({
-    model: 'gemini-3-flash-preview',
-    contents: [{ role: 'user', parts: [{ text: `Create a structured LOGIC TEMPLATE for the topic: "${query}". Return JSON.` }]}],
-    config: {
-      responseMimeType: "application/json",
-      responseSchema: {
-        type: Type.OBJECT,
-        properties: {
-          title: { type: Type.STRING },
-          description: { type: Type.STRING },
-          content: { type: Type.STRING },
-          category: { 
-            type: Type.STRING, 
-            enum: Object.values(TemplateCategory)
-          }
-        },
-        required: ['title', 'description', 'content', 'category']
+// Structured calls have no side effects, so they are also retried when the JSON comes back malformed.
+const generateStructured = <T>(request: StructuredRequest, isValid: (data: T) => boolean) =>
+  withRetry(async () => {
+    const deadline = createDeadline(AI_STRUCTURED_TIMEOUT_MS, request.signal);
+    try {
+      const data = await getProvider().generateStructured<T>({ ...request, signal: deadline.signal });
+      if (!data || typeof data !== 'object' || !isValid(data)) {
+        throw new AIServiceError('invalid_output', 'The AI service returned data in an unexpected shape.');
       }
+      return data;
+    } catch (error) {
+      throw deadline.expired() ? timeoutError(AI_STRUCTURED_TIMEOUT_MS) : error;
+    } finally {
+      deadline.clear();
+    }
+  }, { signal: request.signal, shouldRetry: error => error.retryable || error.kind === 'invalid_output' });
+
+// Folds turns that no longer fit in the context window into the running summary of the session.
+export const summarizeConversation = async (previousSummary: string | undefined, turns: { role: string; text: string }[]): Promise<string> => {
+  const transcript = turns.map(turn => `${turn.role === 'user' ? 'Student' : 'Tutor'}: ${turn.text}`).join('\n\n');
+  const data = await generateStructured<{ summary: string }>({
+    prompt: `${previousSummary ? `Summary so far:\n${previousSummary}\n\n` : ''}Turns to fold in:\n${transcript}`,
+    systemInstruction: 'You maintain the running summary of a Socratic tutoring session. Merge the new turns into the summary so far and return the whole updated summary in "summary". Record which concepts the student has demonstrably understood, where they struggled or held misconceptions, questions still open, and any examples or notation the conversation relies on. Use short bullet points, at most 250 words, in English. Never include full solutions.',
+    schema: {
+      type: 'object',
+      properties: {
+        summary: { type: 'string' }
+      },
+      required: ['summary']
     }
-  });
+  }, data => typeof data.summary === 'string' && data.summary.trim().length > 0);
+  return data.summary.trim();
+};
+
+export const synthesizeTemplate = async (query: string): Promise<Template> => {
+  const data = await generateStructured<Omit<Template, 'id'>>({
+    prompt: `Create a structured LOGIC TEMPLATE for the topic: "${query}". Return JSON.`,
+    schema: {
+      type: 'object',
+      properties: {
+        title: { type: 'string' },
+        description: { type: 'string' },
+        content: { type: 'string' },
+        category: { 
+          type: 'string', 
+          enum: Object.values(TemplateCategory).filter(c => c !== TemplateCategory.ALL)
+        }
+      },
+      required: ['title', 'description', 'content', 'category']
+    }
+  }, data => typeof data.title === 'string' && typeof data.content === 'string');
 
-  const data = JSON.parse(response.text || '{}');
   return {
     ...data,
     id: `syn-${Date.now()}`,
@@ -153,44 +364,129 @@ export const synthesizeTemplate = async (query: string): Promise<Template> => {
 };
 
 export const generateImage = async (prompt: string, size: string): Promise<string | undefined> => {
-  const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
-  
-  // Helper to extract base64 from response
-  const extractImage = (response: any) => {
-    for (const part of response.candidates?.[0]?.content?.parts || []) {
-      if (part.inlineData) {
-        return `data:${part.inlineData.mimeType};base64,${part.inlineData.data}`;
-      }
+  return withRetry(() => getProvider().generateImage({ prompt, size, aspectRatio: "1:1" }));
+};
+
+export const repairMermaidDiagram = async (source: string, error: string): Promise<string> => {
+  const data = await generateStructured<{ mermaid?: string }>({
+    prompt: `The following Mermaid diagram fails to parse.\n\nParser error:\n${error}\n\nDiagram source:\n${source}`,
+    systemInstruction: 'You repair Mermaid diagram syntax. Keep the same structure, nodes and labels; change only what is needed to make it parse. Quote labels containing special characters. Return JSON with the corrected source in "mermaid", without code fences.',
+    schema: {
+      type: 'object',
+      properties: {
+        mermaid: { type: 'string' }
+      },
+      required: ['mermaid']
     }
-    return undefined;
-  };
+  }, data => typeof data.mermaid === 'string');
 
-  try {
-    // Attempt with High Quality model
-    const response = await ai.models.generateContent({
-      model: 'gemini-3-pro-image-preview',
-      contents: { parts: [{ text: prompt }] },
-      config: { imageConfig: { imageSize: size, aspectRatio: "1:1" } }
-    });
-    return extractImage(response);
-
-  } catch (error: any) {
-    // If High Quality fails with Permission Denied (403), fallback to Flash
-    if (error.status === 403 || error.message?.includes('403') || error.message?.includes('Permission denied')) {
-        console.warn("Pro image gen failed (403), falling back to Flash model.");
-        try {
-            const fallbackResponse = await ai.models.generateContent({
-                model: 'gemini-2.5-flash-image',
-                contents: { parts: [{ text: prompt }] },
-                config: { imageConfig: { aspectRatio: "1:1" } } // Flash supports aspect ratio but not size in the same way, kept simple
-            });
-            return extractImage(fallbackResponse);
-        } catch (fallbackError) {
-             console.error("Fallback image gen error", fallbackError);
-             throw error; // Throw the original error to trigger UI key selection prompt
+  return String(data.mermaid || '').replace(/^```(?:mermaid)?\s*|```\s*$/g, '').trim();
+};
+
+interface GeneratedQuiz {
+  topic: string;
+  questions: { kind: QuizQuestionKind; prompt: string; options?: string[]; correctIndex?: number; steps?: string[]; referenceAnswer?: string }[];
+}
+
+export const generateQuiz = async (conversation: string, knowledgeLevel: string): Promise<Quiz> => {
+  const data = await generateStructured<GeneratedQuiz>({
+    prompt: `Write a short quiz (3 to 5 questions) that checks understanding of the concept being discussed below. Mix question kinds: "multiple_choice" (options plus the zero-based correctIndex), "ordering" (the steps of an algorithm or proof in their correct order, in "steps") and "short_answer" (a concise referenceAnswer for grading). Pitch it at the ${knowledgeLevel} level.\n\nConversation so far:\n${conversation}`,
+    systemInstruction: 'You write diagnostic quizzes for a Socratic tutor. Questions test reasoning, not recall of trivia. Never ask the student to write a full solution.',
+    schema: {
+      type: 'object',
+      properties: {
+        topic: { type: 'string' },
+        questions: {
+          type: 'array',
+          items: {
+            type: 'object',
+            properties: {
+              kind: { type: 'string', enum: ['multiple_choice', 'ordering', 'short_answer'] },
+              prompt: { type: 'string' },
+              options: { type: 'array', items: { type: 'string' } },
+              correctIndex: { type: 'integer' },
+              steps: { type: 'array', items: { type: 'string' } },
+              referenceAnswer: { type: 'string' }
+            },
+            required: ['kind', 'prompt']
+          }
         }
+      },
+      required: ['topic', 'questions']
     }
-    console.error("Image gen error", error);
-    throw error;
-  }
-};
\ No newline at end of file
+  }, data => Array.isArray(data.questions));
+
+  const createdAt = Date.now();
+  const questions: QuizQuestion[] = (data.questions || [])
+    .filter(q => q.kind !== 'multiple_choice' || (q.options?.length && q.correctIndex !== undefined && q.correctIndex < q.options.length))
+    .filter(q => q.kind !== 'ordering' || (q.steps?.length ?? 0) >= 2)
+    .map((q, index) => ({ ...q, id: `q-${createdAt}-${index}` }));
+
+  return { id: `quiz-${createdAt}`, topic: data.topic || 'Current concept', questions, createdAt };
+};
+
+export const gradeShortAnswer = async (question: QuizQuestion, answer: string): Promise<{ score: number; feedback: string }> => {
+  const data = await generateStructured<{ score: number; feedback: string }>({
+    prompt: `Question: ${question.prompt}\nReference answer (confidential): ${question.referenceAnswer || 'none given'}\nStudent answer: ${answer}`,
+    systemInstruction: 'Grade the student answer against the reference on a 0 to 1 scale for conceptual correctness; wording does not matter. The feedback is shown to the student: one sentence, and it must NOT reveal or paraphrase the reference answer. If the answer is wrong, point at what to reconsider instead.',
+    schema: {
+      type: 'object',
+      properties: {
+        score: { type: 'number' },
+        feedback: { type: 'string' }
+      },
+      required: ['score', 'feedback']
+    }
+  }, data => Number.isFinite(Number(data.score)));
+  return { score: Math.min(1, Math.max(0, Number(data.score) || 0)), feedback: data.feedback || '' };
+};
+
+const stringArray = { type: 'array', items: { type: 'string' } } as const;
+
+export const generateSubmissionReview = async (
+  submission: ChatPart[],
+  rubric: Rubric,
+  knowledgeLevel: string,
+  previous?: FeedbackReport,
+  testResults?: string
+): Promise<GeneratedReview> => {
+  const criteria = rubric.criteria
+    .map(c => `- ${c.id}: ${c.name} (0-${c.maxScore}). ${c.description}`)
+    .join('\n');
+  const revision = previous
+    ? `\n\nThis is a revision. The previous review found these issues:\n${reportIssues(previous).map(issue => `- ${issue}`).join('\n') || '- (none)'}\nIn "resolvedIssues", copy verbatim each previous issue the revision fixes. In "improvements", list what got better.`
+    : '';
+  const tests = testResults
+    ? `\n\nThe code was run against the teacher's hidden tests:\n${testResults}\nUse failing cases to raise targeted logical gaps or edge cases, phrased as what to reconsider. The student must not learn the hidden inputs, expected outputs or the fix from your review.`
+    : '';
+
+  return generateStructured<GeneratedReview>({
+    prompt: `Review the student's submission against the "${rubric.name}" rubric, pitched at the ${knowledgeLevel} level. Score every criterion by its id:\n${criteria}${revision}${tests}\n\nThe submission follows.`,
+    parts: submission,
+    systemInstruction: 'You are a Socratic examiner writing a structured review of student work. Be specific: point at the line, step or case involved. Each list item is one short sentence. Never include corrected code, a finished proof or the full solution; describe what is wrong and what to reconsider instead. Leave a list empty rather than padding it.',
+    schema: {
+      type: 'object',
+      properties: {
+        summary: { type: 'string' },
+        strengths: stringArray,
+        logicalGaps: stringArray,
+        misconceptions: stringArray,
+        unhandledEdgeCases: stringArray,
+        scores: {
+          type: 'array',
+          items: {
+            type: 'object',
+            properties: {
+              criterionId: { type: 'string', enum: rubric.criteria.map(c => c.id) },
+              score: { type: 'integer' },
+              comment: { type: 'string' }
+            },
+            required: ['criterionId', 'score', 'comment']
+          }
+        },
+        ...(previous ? { improvements: stringArray, resolvedIssues: stringArray } : {})
+      },
+      required: ['summary', 'strengths', 'logicalGaps', 'misconceptions', 'unhandledEdgeCases', 'scores']
+    }
+  }, data => typeof data.summary === 'string' && Array.isArray(data.scores));
+};
@@ -0,0 +1,67 @@
+import { HINT_LEVELS, MAX_HINTS_PER_PROBLEM } from "../constants";
+import { HintLevel, HintRecord } from "../types";
+
+export interface ProblemHintUsage {
+  concept: string;
+  levels: HintLevel[]; // In the order they were given
+  requested: number; // How many came from "I'm stuck"
+  overCap: number; // How many the tutor gave after the problem had used its allowance
+}
+
+const problemKey = (concept: string) => concept.trim().toLowerCase();
+
+export const isHintLevel = (value: unknown): value is HintLevel => HINT_LEVELS.includes(value as HintLevel);
+
+export const hintsForProblem = (hints: HintRecord[], concept: string) =>
+  hints.filter(hint => problemKey(hint.concept) === problemKey(concept));
+
+// One entry per problem, in the order each was first hinted on.
+export const summarizeHintUsage = (hints: HintRecord[]): ProblemHintUsage[] => {
+  const problems = new Map<string, ProblemHintUsage>();
+  for (const hint of hints) {
+    const key = problemKey(hint.concept);
+    const usage = problems.get(key) ?? { concept: hint.concept, levels: [], requested: 0, overCap: 0 };
+    usage.levels.push(hint.level);
+    if (hint.requested) usage.requested++;
+    if (hint.overCap) usage.overCap++;
+    problems.set(key, usage);
+  }
+  return [...problems.values()];
+};
+
+// The rung after the highest one given so far, or null once the problem has used its allowance.
+export const nextHintLevel = (levels: HintLevel[]): HintLevel | null => {
+  if (levels.length >= MAX_HINTS_PER_PROBLEM) return null;
+  const highest = Math.max(-1, ...levels.map(level => HINT_LEVELS.indexOf(level)));
+  return HINT_LEVELS[Math.min(highest + 1, HINT_LEVELS.length - 1)];
+};
+
+// "I'm stuck" most likely refers to the problem hinted on last. Once that one is out of hints the student may
+// still be on it, or may have moved on to a new problem; only the tutor can tell which.
+const stuckInstruction = (hints: HintRecord[]) => {
+  const current = hints[hints.length - 1]?.concept;
+  if (current && nextHintLevel(hintsForProblem(hints, current).map(hint => hint.level)) === null) {
+    return `The student pressed "I'm stuck". If they are still working on "${current}", it has no hints left: give no hint, say so, and ask them to explain what they have tried so far or to start on a new problem. If they have moved on to a different problem, give exactly one hint at its first rung and call 'offerHint' with a new name for it.`;
+  }
+  return `The student pressed "I'm stuck". Give exactly one hint, at the next rung for the problem they are working on, and call 'offerHint'.`;
+};
+
+export const buildHintInstruction = (hints: HintRecord[], requested: boolean): string => {
+  const usage = summarizeHintUsage(hints)
+    .map(problem => {
+      const next = nextHintLevel(problem.levels);
+      return `- "${problem.concept}": ${problem.levels.join(', ')} (${problem.levels.length} of ${MAX_HINTS_PER_PROBLEM}; ${next ? `next rung: ${next}` : 'no hints left'})`;
+    })
+    .join('\n');
+
+  return `# HINT LADDER
+Hints climb one rung at a time for the same problem:
+1. nudge: one guiding question that points attention at the right place.
+2. subproblem: name the smaller sub-problem or case the student should solve first.
+3. skeleton: a partial skeleton of the approach, with the key steps left blank for the student.
+Whenever a reply gives a hint, call 'offerHint' with its rung and a short name for the problem, reusing the exact name below if it is the same problem. Ordinary Socratic questions are not hints.
+A problem gets at most ${MAX_HINTS_PER_PROBLEM} hints. Once it has none left, give no more hints on it; ask the student to explain what they have tried instead.
+
+Hints used so far:
+${usage || '- none'}${requested ? `\n\n${stuckInstruction(hints)}` : ''}`;
+};
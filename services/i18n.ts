@@ -0,0 +1,38 @@
+import { UILanguage, UILanguageOption } from "../types";
+import { UI_LANGUAGES } from "../constants";
+import { MESSAGES, MessageKey } from "../locales";
+
+const UI_LANGUAGE_KEY = 'encrypt-ui-language';
+
+export type TranslationParams = Record<string, string | number>;
+
+const isUILanguage = (code: string | null): code is UILanguage =>
+  !!code && UI_LANGUAGES.some(option => option.code === code);
+
+// A saved choice wins; otherwise the browser's language if we have it, then English.
+export const getStoredLanguage = (): UILanguage => {
+  const stored = localStorage.getItem(UI_LANGUAGE_KEY);
+  if (isUILanguage(stored)) return stored;
+  const browser = (navigator.language || '').split('-')[0].toLowerCase();
+  return isUILanguage(browser) ? browser : 'en';
+};
+
+export const setStoredLanguage = (language: UILanguage) => localStorage.setItem(UI_LANGUAGE_KEY, language);
+
+export const languageOption = (language: UILanguage): UILanguageOption =>
+  UI_LANGUAGES.find(option => option.code === language) ?? UI_LANGUAGES[0];
+
+const interpolate = (text: string, params?: TranslationParams) =>
+  params ? text.replace(/\{(\w+)\}/g, (match, name) => (name in params ? String(params[name]) : match)) : text;
+
+export const translate = (language: UILanguage, key: MessageKey, params?: TranslationParams): string =>
+  interpolate(MESSAGES[language][key] ?? MESSAGES.en[key] ?? key, params);
+
+type PluralBase<K extends string> = K extends `${infer Base}_one` ? Base : never;
+export type PluralKey = PluralBase<MessageKey>;
+
+// Picks the "_one" or "_other" form of a key; {count} is filled in with the locale's digits.
+export const translateCount = (language: UILanguage, base: PluralKey, count: number, params?: TranslationParams): string => {
+  const form = new Intl.PluralRules(language).select(count) === 'one' ? 'one' : 'other';
+  return translate(language, `${base}_${form}` as MessageKey, { count: count.toLocaleString(language), ...params });
+};
@@ -0,0 +1,103 @@
+import { LEVEL_CHANGE_THRESHOLD, LEVEL_STEPS_PER_BAND } from "../constants";
+import { KnowledgeLevel, LevelCalibration, LevelChange, LevelEvidenceSource, LevelMode, Quiz } from "../types";
+
+// The adaptive level scale. Each knowledge level is a band of finer steps. Every piece of evidence pulls a
+// running estimate towards the step it points at, weighted by its source and confidence; the step itself
+// only follows once the gap is wide enough, so one lucky or muddled answer does not flip the level.
+
+const BANDS = Object.values(KnowledgeLevel);
+export const LEVEL_STEPS = BANDS.length * LEVEL_STEPS_PER_BAND;
+
+// How far a single, fully confident piece of evidence moves the estimate towards its step.
+const EVIDENCE_WEIGHT: Record<LevelEvidenceSource, number> = { diagnostic: 0.7, quiz: 0.5, conversation: 0.3 };
+
+export interface LevelEvidence {
+  source: LevelEvidenceSource;
+  step: number;
+  confidence: number; // 0..1
+  reason?: string; // Shown to the student when the evidence moves their level
+  topic?: string;
+}
+
+const clampStep = (step: number) => Math.min(LEVEL_STEPS, Math.max(1, Math.round(step)));
+
+export const bandOf = (step: number): KnowledgeLevel => BANDS[Math.floor((clampStep(step) - 1) / LEVEL_STEPS_PER_BAND)];
+
+// 1-based position of a step inside its band.
+export const stepInBand = (step: number) => ((clampStep(step) - 1) % LEVEL_STEPS_PER_BAND) + 1;
+
+// The middle of a band, where a level picked by hand lands.
+export const stepOf = (level: KnowledgeLevel) => BANDS.indexOf(level) * LEVEL_STEPS_PER_BAND + Math.ceil(LEVEL_STEPS_PER_BAND / 2);
+
+export const createCalibration = (level: KnowledgeLevel, mode: LevelMode = 'manual'): LevelCalibration => ({
+  mode,
+  step: stepOf(level),
+  estimate: stepOf(level),
+  diagnosedTopics: [],
+});
+
+export const isAdaptive = (calibration: LevelCalibration) => calibration.mode !== 'manual';
+
+const isDiagnosed = (calibration: LevelCalibration, topic: string) =>
+  calibration.diagnosedTopics.some(t => t.trim().toLowerCase() === topic.trim().toLowerCase());
+
+export interface CalibrationUpdate {
+  calibration: LevelCalibration;
+  change?: LevelChange; // Set when the estimate has drifted to another step; not yet applied
+}
+
+export const applyEvidence = (calibration: LevelCalibration, evidence: LevelEvidence): CalibrationUpdate => {
+  const weight = EVIDENCE_WEIGHT[evidence.source] * Math.min(1, Math.max(0, evidence.confidence));
+  const estimate = calibration.estimate + (Math.min(LEVEL_STEPS, Math.max(1, evidence.step)) - calibration.estimate) * weight;
+  const topic = evidence.source === 'diagnostic' ? evidence.topic?.trim() : undefined;
+  const next: LevelCalibration = {
+    ...calibration,
+    estimate,
+    diagnosedTopics: topic && !isDiagnosed(calibration, topic) ? [...calibration.diagnosedTopics, topic] : calibration.diagnosedTopics,
+  };
+
+  const to = clampStep(estimate);
+  if (Math.abs(estimate - calibration.step) < LEVEL_CHANGE_THRESHOLD || to === calibration.step) return { calibration: next };
+  return { calibration: next, change: { from: calibration.step, to, source: evidence.source, reason: evidence.reason, at: Date.now() } };
+};
+
+// A picked level overrides the evidence so far, so the estimate starts again from it.
+export const applyLevelChange = (calibration: LevelCalibration, change: LevelChange): LevelCalibration => ({
+  ...calibration,
+  step: change.to,
+  estimate: change.source === 'manual' || !isAdaptive(calibration) ? change.to : calibration.estimate,
+});
+
+// Turning a proposal down settles the estimate back on the current step rather than proposing it again next turn.
+export const declineLevelChange = (calibration: LevelCalibration): LevelCalibration => ({ ...calibration, estimate: calibration.step });
+
+// A strong result points above the current step and a weak one below it; a middling one holds it steady.
+// Short quizzes count for less.
+export const quizEvidence = (quiz: Quiz, step: number): LevelEvidence | undefined => {
+  if (quiz.score === undefined || quiz.questions.length === 0) return undefined;
+  const shift = quiz.score >= 0.8 ? 1.5 : quiz.score < 0.5 ? -1.5 : 0;
+  return { source: 'quiz', step: step + shift, confidence: Math.min(1, quiz.questions.length / 5), topic: quiz.topic };
+};
+
+const bandRanges = () => BANDS
+  .map((band, i) => `steps ${i * LEVEL_STEPS_PER_BAND + 1}-${(i + 1) * LEVEL_STEPS_PER_BAND} ${band}`)
+  .join(', ');
+
+export const buildCalibrationInstruction = (calibration: LevelCalibration): string => {
+  const position = stepInBand(calibration.step);
+  const placement = position === 1
+    ? 'the lower end of it, so lean towards the gentler side of that mode'
+    : position === LEVEL_STEPS_PER_BAND
+      ? 'the upper end of it, so lean towards the more demanding side of that mode'
+      : 'the middle of it, so teach squarely in that mode';
+  const topics = calibration.diagnosedTopics.map(topic => `- ${topic}`).join('\n');
+
+  return `# ADAPTIVE LEVEL
+The student's level is calibrated on a ${LEVEL_STEPS}-step scale: ${bandRanges()}. They are at step ${calibration.step}, in the ${bandOf(calibration.step)} band at ${placement}.
+Whenever a student reply shows their level (how accurate their answers are, the vocabulary they use, how they reason), call 'calibrateLevel' with the step that reply suggests, your confidence from 0 to 1 and one short sentence of evidence addressed to the student in their language. One reply is weak evidence; keep confidence low unless it is clear-cut. The app decides when the level actually changes.
+
+Topics already diagnosed:
+${topics || '- none'}
+
+When the student opens a topic that is not listed, start with a short diagnostic before teaching: at most two quick questions of rising difficulty, and nothing else. Once they have answered, call 'calibrateLevel' with diagnostic set to true and the topic's name.`;
+};
@@ -0,0 +1,94 @@
+import { ConceptMastery, Learner, MentorAssessment } from "../types";
+import { LEARNERS_STORE, MASTERY_STORE, openDatabase, promisify, transactionDone } from "./database";
+
+export const DEFAULT_LEARNER_NAME = 'Me';
+
+const ACTIVE_LEARNER_KEY = 'encrypt-active-learner';
+
+// "Binary Search", "binary  search" and "binary-search" are the same concept.
+const conceptKey = (concept: string) => concept.toLowerCase().replace(/[^\p{L}\p{N}]+/gu, ' ').trim();
+
+const clampConfidence = (value: unknown) =>
+  typeof value === 'number' && Number.isFinite(value) ? Math.min(1, Math.max(0, value)) : undefined;
+
+export const createLearnerId = () => `learner-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+
+export const getActiveLearnerId = () => localStorage.getItem(ACTIVE_LEARNER_KEY);
+
+export const setActiveLearnerId = (id: string) => localStorage.setItem(ACTIVE_LEARNER_KEY, id);
+
+export const listLearners = async (): Promise<Learner[]> => {
+  const db = await openDatabase();
+  const tx = db.transaction(LEARNERS_STORE, 'readonly');
+  const learners = await promisify(tx.objectStore(LEARNERS_STORE).getAll()) as Learner[];
+  return learners.sort((a, b) => a.createdAt - b.createdAt);
+};
+
+export const saveLearner = async (learner: Learner): Promise<void> => {
+  const db = await openDatabase();
+  const tx = db.transaction(LEARNERS_STORE, 'readwrite');
+  tx.objectStore(LEARNERS_STORE).put(learner);
+  await transactionDone(tx);
+};
+
+// Every install gets one learner up front, so assessments always have somewhere to go.
+export const ensureLearners = async (): Promise<Learner[]> => {
+  const learners = await listLearners();
+  if (learners.length > 0) return learners;
+  const learner: Learner = { id: createLearnerId(), name: DEFAULT_LEARNER_NAME, createdAt: Date.now() };
+  await saveLearner(learner);
+  return [learner];
+};
+
+export const listMastery = async (learnerId: string): Promise<ConceptMastery[]> => {
+  const db = await openDatabase();
+  const tx = db.transaction(MASTERY_STORE, 'readonly');
+  const records = await promisify(tx.objectStore(MASTERY_STORE).index('learnerId').getAll(learnerId)) as ConceptMastery[];
+  return records.sort((a, b) => b.updatedAt - a.updatedAt);
+};
+
+// Folds one tutor assessment into the learner's record for that concept. The history only grows when the
+// status actually flips; repeated assessments with the same status just refresh the confidence.
+export const recordAssessment = async (
+  learnerId: string,
+  assessment: MentorAssessment,
+  sessionId?: string
+): Promise<ConceptMastery | null> => {
+  const concept = assessment.concept?.trim();
+  if (!concept || !conceptKey(concept)) return null;
+
+  const db = await openDatabase();
+  const tx = db.transaction(MASTERY_STORE, 'readwrite');
+  const store = tx.objectStore(MASTERY_STORE);
+  const id = `${learnerId}:${conceptKey(concept)}`;
+  const existing = await promisify(store.get(id)) as ConceptMastery | undefined;
+  const now = Date.now();
+  const confidence = clampConfidence(assessment.confidence);
+  const transition = { status: assessment.status, confidence, timestamp: now, sessionId };
+
+  const record: ConceptMastery = existing
+    ? {
+        ...existing,
+        concept,
+        status: assessment.status,
+        confidence,
+        assessments: existing.assessments + 1,
+        updatedAt: now,
+        history: existing.status === assessment.status ? existing.history : [...existing.history, transition],
+      }
+    : {
+        id,
+        learnerId,
+        concept,
+        status: assessment.status,
+        confidence,
+        assessments: 1,
+        firstAssessedAt: now,
+        updatedAt: now,
+        history: [transition],
+      };
+
+  store.put(record);
+  await transactionDone(tx);
+  return record;
+};
@@ -0,0 +1,25 @@
+import katex from 'katex';
+
+// Finds LaTeX in plain text such as template content, which is shown as preformatted text rather than
+// Markdown. Follows the same rules as the chat's Markdown math: $$...$$ for display, and $...$ inline only
+// when the dollars hug the formula, so prices like "$5 and $10" stay text.
+
+export type MathSegment = { kind: 'text'; text: string } | { kind: 'math'; html: string; display: boolean };
+
+const MATH_PATTERN = /\$\$([\s\S]+?)\$\$|(?<![\\$])\$(?=\S)([^$\n]*?\S)\$(?!\d)/g;
+
+const renderMath = (tex: string, display: boolean) =>
+  katex.renderToString(tex, { displayMode: display, throwOnError: false, output: 'html' });
+
+export const splitMath = (text: string): MathSegment[] => {
+  const segments: MathSegment[] = [];
+  let last = 0;
+  for (const match of text.matchAll(MATH_PATTERN)) {
+    if (match.index > last) segments.push({ kind: 'text', text: text.slice(last, match.index) });
+    const display = match[1] !== undefined;
+    segments.push({ kind: 'math', html: renderMath((match[1] ?? match[2]).trim(), display), display });
+    last = match.index + match[0].length;
+  }
+  if (last < text.length) segments.push({ kind: 'text', text: text.slice(last) });
+  return segments;
+};
@@ -0,0 +1,59 @@
+import mermaid from 'mermaid';
+
+export interface MermaidRenderResult {
+  svg?: string;
+  error?: string;
+}
+
+let initialized = false;
+let renderCounter = 0;
+
+// mermaid.render shares global state, so renders are serialised through this chain.
+let renderQueue: Promise<unknown> = Promise.resolve();
+
+const ensureInitialized = () => {
+  if (initialized) return;
+  mermaid.initialize({
+    startOnLoad: false,
+    securityLevel: 'strict',
+    suppressErrorRendering: true,
+    theme: 'neutral',
+    fontFamily: 'ui-sans-serif, system-ui, sans-serif',
+  });
+  initialized = true;
+};
+
+const describeError = (error: unknown): string => {
+  if (error instanceof Error) return error.message;
+  if (typeof error === 'string') return error;
+  return 'Unknown Mermaid error';
+};
+
+export const renderMermaid = (source: string): Promise<MermaidRenderResult> => {
+  const task = renderQueue.then(async (): Promise<MermaidRenderResult> => {
+    ensureInitialized();
+    const id = `mermaid-svg-${++renderCounter}`;
+    try {
+      const { svg } = await mermaid.render(id, source.trim());
+      return { svg };
+    } catch (error) {
+      // A failed render can leave its scratch container behind in <body>.
+      document.getElementById(`d${id}`)?.remove();
+      document.getElementById(id)?.remove();
+      return { error: describeError(error) };
+    }
+  });
+  renderQueue = task.catch(() => undefined);
+  return task;
+};
+
+// Resolves to the parser's error message, or null when the source is valid.
+export const validateMermaid = async (source: string): Promise<string | null> => {
+  ensureInitialized();
+  try {
+    await mermaid.parse(source.trim());
+    return null;
+  } catch (error) {
+    return describeError(error);
+  }
+};
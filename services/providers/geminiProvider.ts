@@ -0,0 +1,162 @@
+import { Content, GoogleGenAI, GenerateContentConfig, GenerateContentResponse, Part } from "@google/genai";
+import { isPermissionError, safetyBlockError } from "../aiErrors";
+import { ChatPart, ChatRequest, ChatResult, ChatTurn, ImageRequest, LLMProvider, ProviderConfig, StructuredRequest } from "./types";
+
+const BLOCKED_FINISH_REASONS = ['SAFETY', 'BLOCKLIST', 'PROHIBITED_CONTENT', 'SPII', 'IMAGE_SAFETY'];
+
+// Why the model withheld its reply, if it did.
+const getBlockReason = (response: GenerateContentResponse) => {
+  const finishReason = String(response.candidates?.[0]?.finishReason ?? '');
+  return response.promptFeedback?.blockReason || (BLOCKED_FINISH_REASONS.includes(finishReason) ? finishReason : undefined);
+};
+
+const isEmpty = (result: ChatResult) => !result.text && !result.functionCalls.length && !result.images.length;
+
+const toGeminiConfig = (request: ChatRequest): GenerateContentConfig => ({
+  systemInstruction: request.systemInstruction,
+  tools: request.tools?.length
+    ? [{ functionDeclarations: request.tools.map(tool => ({ name: tool.name, description: tool.description, parametersJsonSchema: tool.parameters })) }]
+    : undefined,
+  thinkingConfig: request.thinkingBudget !== undefined ? { thinkingBudget: request.thinkingBudget } : undefined,
+  abortSignal: request.signal,
+});
+
+// Replayed function calls carry their thought signature on the part, where Gemini 3 expects to find it.
+const toGeminiPart = ({ functionCall, ...part }: ChatPart): Part => {
+  if (!functionCall) return part;
+  const { thoughtSignature, ...call } = functionCall;
+  return { ...part, functionCall: call, thoughtSignature };
+};
+
+const toGeminiContents = (contents: ChatTurn[]): Content[] =>
+  contents.map(turn => ({ role: turn.role, parts: turn.parts.map(toGeminiPart) }));
+
+// Folds response parts into the neutral result shape; thought summaries are never surfaced.
+const collectParts = (parts: Part[], result: ChatResult) => {
+  for (const part of parts) {
+    if (part.thought) continue;
+    if (part.text) result.text += part.text;
+    if (part.functionCall?.name) {
+      result.functionCalls.push({
+        id: part.functionCall.id,
+        name: part.functionCall.name,
+        args: (part.functionCall.args || {}) as Record<string, unknown>,
+        thoughtSignature: part.thoughtSignature,
+      });
+    }
+    if (part.inlineData) {
+      result.images.push(`data:${part.inlineData.mimeType};base64,${part.inlineData.data}`);
+    }
+  }
+};
+
+const extractImage = (response: GenerateContentResponse) => {
+  for (const part of response.candidates?.[0]?.content?.parts || []) {
+    if (part.inlineData) {
+      return `data:${part.inlineData.mimeType};base64,${part.inlineData.data}`;
+    }
+  }
+  const blockReason = getBlockReason(response);
+  if (blockReason) throw safetyBlockError(blockReason);
+  return undefined;
+};
+
+export const createGeminiProvider = (config: ProviderConfig): LLMProvider => {
+  let client: GoogleGenAI | null = null;
+
+  const getClient = () => {
+    if (!client) {
+      client = new GoogleGenAI({ apiKey: config.apiKey ?? process.env.API_KEY });
+    }
+    return client;
+  };
+
+  return {
+    name: 'gemini',
+
+    async chat(request) {
+      const response = await getClient().models.generateContent({
+        model: config.models.chat,
+        contents: toGeminiContents(request.contents),
+        config: toGeminiConfig(request),
+      });
+      const result: ChatResult = { text: '', functionCalls: [], images: [] };
+      collectParts(response.candidates?.[0]?.content?.parts || [], result);
+      const blockReason = getBlockReason(response);
+      if (blockReason && isEmpty(result)) throw safetyBlockError(blockReason);
+      return result;
+    },
+
+    async streamChat(request, onText) {
+      const result: ChatResult = { text: '', functionCalls: [], images: [] };
+      try {
+        const stream = await getClient().models.generateContentStream({
+          model: config.models.chat,
+          contents: toGeminiContents(request.contents),
+          config: toGeminiConfig(request),
+        });
+        let blockReason: string | undefined;
+        for await (const chunk of stream) {
+          const before = result.text;
+          collectParts(chunk.candidates?.[0]?.content?.parts || [], result);
+          blockReason ??= getBlockReason(chunk);
+          if (result.text !== before) onText(result.text);
+        }
+        if (blockReason && isEmpty(result)) throw safetyBlockError(blockReason);
+      } catch (error) {
+        // A user-initiated stop keeps whatever text has already streamed in.
+        if (!request.signal?.aborted) throw error;
+      }
+      return result;
+    },
+
+    async generateStructured<T>(request: StructuredRequest): Promise<T> {
+      const response = await getClient().models.generateContent({
+        model: config.models.chat,
+        contents: [{ role: 'user', parts: [{ text: request.prompt }, ...(request.parts || [])] }],
+        config: {
+          systemInstruction: request.systemInstruction,
+          responseMimeType: "application/json",
+          responseJsonSchema: request.schema,
+          abortSignal: request.signal,
+        }
+      });
+      const blockReason = getBlockReason(response);
+      if (blockReason && !response.text) throw safetyBlockError(blockReason);
+      return JSON.parse(response.text || '{}') as T;
+    },
+
+    async generateImage({ prompt, size = '1K', aspectRatio = '1:1' }: ImageRequest) {
+      // A fresh client picks up a key chosen through the AI Studio key selector since the last call.
+      const ai = new GoogleGenAI({ apiKey: config.apiKey ?? process.env.API_KEY });
+
+      try {
+        // Attempt with High Quality model
+        const response = await ai.models.generateContent({
+          model: config.models.image,
+          contents: { parts: [{ text: prompt }] },
+          config: { imageConfig: { imageSize: size, aspectRatio } }
+        });
+        return extractImage(response);
+      } catch (error: any) {
+        // If High Quality fails with Permission Denied (403), fallback to Flash
+        if (config.models.imageFallback && isPermissionError(error)) {
+          console.warn("Pro image gen failed (403), falling back to Flash model.");
+          try {
+            const fallbackResponse = await ai.models.generateContent({
+              model: config.models.imageFallback,
+              contents: { parts: [{ text: prompt }] },
+              config: { imageConfig: { aspectRatio } } // Flash supports aspect ratio but not size in the same way, kept simple
+            });
+            return extractImage(fallbackResponse);
+          } catch (fallbackError) {
+            console.error("Fallback image gen error", fallbackError);
+            throw error; // Throw the original error to trigger UI key selection prompt
+          }
+        }
+        console.error("Image gen error", error);
+        throw error;
+      }
+    },
+  };
+};
@@ -0,0 +1,57 @@
+import { createGeminiProvider } from "./geminiProvider";
+import { createMockProvider } from "./mockProvider";
+import { createOpenAIProvider } from "./openaiProvider";
+import { createProxyProvider } from "./proxyProvider";
+import { LLMProvider, ProviderConfig, ProviderModels, ProviderName } from "./types";
+
+export * from "./types";
+
+const DEFAULT_MODELS: Record<ProviderName, ProviderModels> = {
+  gemini: { chat: 'gemini-3-flash-preview', image: 'gemini-3-pro-image-preview', imageFallback: 'gemini-2.5-flash-image' },
+  openai: { chat: 'llama3.1', image: 'dall-e-3' },
+  mock: { chat: 'mock-tutor', image: 'mock-canvas' },
+  proxy: { chat: 'server-default', image: 'server-default' }, // The backend picks the real models.
+};
+
+const PROVIDERS: Record<ProviderName, (config: ProviderConfig) => LLMProvider> = {
+  gemini: createGeminiProvider,
+  openai: createOpenAIProvider,
+  mock: createMockProvider,
+  proxy: createProxyProvider,
+};
+
+const isProviderName = (value: unknown): value is ProviderName =>
+  typeof value === 'string' && Object.hasOwn(PROVIDERS, value);
+
+// Values come from the LLM_* environment variables: inlined at build time by vite.config.ts in the browser,
+// read from the real environment by the backend. With nothing configured (e.g. inside AI Studio) the
+// browser talks to Gemini directly using the key AI Studio injects.
+export const resolveProviderConfig = (): ProviderConfig => {
+  const provider = isProviderName(process.env.LLM_PROVIDER) ? process.env.LLM_PROVIDER : 'gemini';
+  const defaults = DEFAULT_MODELS[provider];
+  return {
+    provider,
+    apiKey: process.env.LLM_API_KEY || undefined,
+    baseUrl: process.env.LLM_BASE_URL || undefined,
+    models: {
+      chat: process.env.LLM_CHAT_MODEL || defaults.chat,
+      image: process.env.LLM_IMAGE_MODEL || defaults.image,
+      imageFallback: defaults.imageFallback,
+    },
+  };
+};
+
+let activeProvider: LLMProvider | null = null;
+
+export const getProvider = (): LLMProvider => {
+  if (!activeProvider) {
+    const config = resolveProviderConfig();
+    activeProvider = PROVIDERS[config.provider](config);
+  }
+  return activeProvider;
+};
+
+// Swaps the provider at runtime, e.g. to inject a scripted mock.
+export const setProvider = (provider: LLMProvider) => {
+  activeProvider = provider;
+};
@@ -0,0 +1,152 @@
+import { ChatRequest, ChatResult, FunctionCall, JsonSchema, LLMProvider, ProviderConfig, StructuredRequest } from "./types";
+
+// Deterministic, offline provider for demos and development. Replies come from a fixed script keyed on the
+// latest user message, so the same conversation always plays out the same way.
+
+export interface MockScriptEntry {
+  match: RegExp;
+  reply: string;
+  functionCalls?: FunctionCall[];
+}
+
+const STREAM_CHUNK_DELAY_MS = 15;
+
+export const DEFAULT_MOCK_SCRIPT: MockScriptEntry[] = [
+  {
+    match: /\b(stuck|hint)\b/i,
+    reply: "Here is a nudge rather than an answer: what is the **smallest** version of this problem you could solve by hand, and what would the next-bigger version need from it?",
+    functionCalls: [{ name: 'offerHint', args: { level: 'nudge', concept: 'Current problem' } }],
+  },
+  {
+    match: /\bquiz me\b/i,
+    reply: "Good idea: let's see what has stuck so far. I'm setting up a short quiz on what we have covered.",
+    functionCalls: [{ name: 'startQuiz', args: {} }],
+  },
+  {
+    match: /\b(i (get|understand) it|got it|makes sense|that's clear)\b/i,
+    reply: "Excellent. You have traced the logic yourself, which is exactly the goal. Can you state, in one sentence, **why** the approach terminates?",
+    functionCalls: [{ name: 'updateMentorStatus', args: { status: 'satisfied', concept: 'Recursion', confidence: 0.8 } }],
+  },
+  {
+    match: /recurs/i,
+    reply: [
+      "Let's not write the function yet. First, think about the **shape** of the problem.",
+      "",
+      "```mermaid",
+      "flowchart TD",
+      "    A[Call with input] --> B{Base case reached?}",
+      "    B -- Yes --> C[Return simple result]",
+      "    B -- No --> D[Shrink the input]",
+      "    D --> A",
+      "```",
+      "",
+      "What is the *smallest* input for which you already know the answer without any work?",
+    ].join('\n'),
+    functionCalls: [{ name: 'updateMentorStatus', args: { status: 'searching', concept: 'Recursion', confidence: 0.6 } }],
+  },
+  {
+    match: /binary search|sorted/i,
+    reply: [
+      "Binary search works by throwing away half of the remaining candidates at every step.",
+      "",
+      "```mermaid",
+      "flowchart TD",
+      "    S[low = 0, high = n - 1] --> L{low <= high?}",
+      "    L -- No --> N[Not found]",
+      "    L -- Yes --> M[mid = middle index]",
+      "    M --> C{Compare array at mid with target}",
+      "    C -- Equal --> F[Found]",
+      "    C -- Smaller --> R[Search right half]",
+      "    C -- Larger --> H[Search left half]",
+      "    R --> L",
+      "    H --> L",
+      "```",
+      "",
+      "If the array has 16 elements, how many comparisons do you need in the worst case?",
+    ].join('\n'),
+    functionCalls: [{ name: 'updateMentorStatus', args: { status: 'searching', concept: 'Binary Search', confidence: 0.6 } }],
+  },
+];
+
+const FALLBACK_REPLY = "Interesting. Before we go further, can you describe the **input** and the **expected output** of this problem in your own words?";
+const TOOL_FOLLOW_UP_REPLY = "Take your time, and tell me when you are ready.";
+
+const delay = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+const latestUserText = (request: ChatRequest) => {
+  const turn = [...request.contents].reverse().find(t => t.role === 'user');
+  return turn?.parts.map(p => p.text || '').join('\n') || '';
+};
+
+// The turn after a tool round only carries results, so the reply just wraps up.
+const isToolFollowUp = (request: ChatRequest) =>
+  !!request.contents.at(-1)?.parts.some(part => part.functionResponse);
+
+const findEntry = (script: MockScriptEntry[], request: ChatRequest): MockScriptEntry | undefined => {
+  if (isToolFollowUp(request)) return { match: /$^/, reply: TOOL_FOLLOW_UP_REPLY };
+  const text = latestUserText(request);
+  return script.find(entry => entry.match.test(text));
+};
+
+// Only report function calls the request actually declared, like a real model would.
+const declaredCalls = (request: ChatRequest, calls: FunctionCall[] = []) =>
+  calls.filter(call => request.tools?.some(tool => tool.name === call.name));
+
+const mockValue = (schema: JsonSchema, key: string, topic: string): unknown => {
+  if (schema.enum?.length) return schema.enum[0];
+  switch (schema.type) {
+    case 'object': {
+      const value: Record<string, unknown> = {};
+      for (const [name, child] of Object.entries(schema.properties || {})) value[name] = mockValue(child, name, topic);
+      return value;
+    }
+    case 'array':
+      return schema.items ? [0, 1, 2].map(i => mockValue(schema.items!, `${key} ${i + 1}`, topic)) : [];
+    case 'number':
+    case 'integer':
+      return 1;
+    case 'boolean':
+      return false;
+    default:
+      return key === 'title' ? `${topic} (Offline Draft)` : `Placeholder ${key} for ${topic}.`;
+  }
+};
+
+const placeholderImage = (prompt: string) => {
+  const label = prompt.replace(/[<>&"]/g, '').slice(0, 60);
+  const svg = `<svg xmlns="http://www.w3.org/2000/svg" width="512" height="512"><rect width="100%" height="100%" fill="#f5f3ff"/><text x="50%" y="50%" font-family="sans-serif" font-size="16" fill="#6d28d9" text-anchor="middle">${label}</text></svg>`;
+  return `data:image/svg+xml;base64,${btoa(unescape(encodeURIComponent(svg)))}`;
+};
+
+export const createMockProvider = (_config: ProviderConfig, script: MockScriptEntry[] = DEFAULT_MOCK_SCRIPT): LLMProvider => ({
+  name: 'mock',
+
+  async chat(request) {
+    const entry = findEntry(script, request);
+    return { text: entry?.reply ?? FALLBACK_REPLY, functionCalls: declaredCalls(request, entry?.functionCalls), images: [] };
+  },
+
+  async streamChat(request, onText) {
+    const entry = findEntry(script, request);
+    const reply = entry?.reply ?? FALLBACK_REPLY;
+    const result: ChatResult = { text: '', functionCalls: [], images: [] };
+
+    for (const token of reply.split(/(?<=\s)/)) {
+      if (request.signal?.aborted) return result;
+      await delay(STREAM_CHUNK_DELAY_MS);
+      result.text += token;
+      onText(result.text);
+    }
+    result.functionCalls = declaredCalls(request, entry?.functionCalls);
+    return result;
+  },
+
+  async generateStructured<T>(request: StructuredRequest): Promise<T> {
+    const topic = request.prompt.match(/"([^"]+)"/)?.[1] || 'this topic';
+    return mockValue(request.schema, 'root', topic) as T;
+  },
+
+  async generateImage({ prompt }) {
+    return placeholderImage(prompt);
+  },
+});
@@ -0,0 +1,209 @@
+import { safetyBlockError } from "../aiErrors";
+import { ChatPart, ChatRequest, ChatResult, ChatTurn, FunctionCall, ImageRequest, LLMProvider, ProviderConfig, StructuredRequest } from "./types";
+
+// Speaks the OpenAI Chat Completions dialect, which Ollama, vLLM, LM Studio and most self-hosted gateways expose.
+
+type OpenAIContentPart = { type: 'text'; text: string } | { type: 'image_url'; image_url: { url: string } };
+type OpenAIContent = string | OpenAIContentPart[];
+
+interface OpenAIToolCall {
+  id: string;
+  type: 'function';
+  function: { name: string; arguments: string };
+}
+
+type OpenAIMessage =
+  | { role: 'system' | 'user'; content: OpenAIContent }
+  | { role: 'assistant'; content: OpenAIContent | null; tool_calls?: OpenAIToolCall[] }
+  | { role: 'tool'; tool_call_id: string; content: string };
+
+interface OpenAIToolCallDelta {
+  index?: number;
+  id?: string;
+  function?: { name?: string; arguments?: string };
+}
+
+interface PartialToolCall {
+  id?: string;
+  name?: string;
+  arguments?: string;
+}
+
+const IMAGE_SIZES: Record<string, string> = { '1K': '1024x1024', '2K': '1536x1536', '4K': '2048x2048' };
+
+const toOpenAIContent = (parts: ChatPart[]): OpenAIContent => {
+  if (parts.every(part => !part.inlineData)) {
+    return parts.map(part => part.text || '').join('');
+  }
+  return parts.flatMap((part): OpenAIContentPart[] => {
+    if (part.inlineData) {
+      if (!part.inlineData.mimeType.startsWith('image/')) {
+        return [{ type: 'text', text: `[Attachment of type ${part.inlineData.mimeType} omitted: not supported by this provider]` }];
+      }
+      return [{ type: 'image_url', image_url: { url: `data:${part.inlineData.mimeType};base64,${part.inlineData.data}` } }];
+    }
+    return part.text ? [{ type: 'text', text: part.text }] : [];
+  });
+};
+
+// Results of a tool round go back as one 'tool' message per call rather than as a user turn.
+const toOpenAITurn = (turn: ChatTurn): OpenAIMessage[] => {
+  const responses = turn.parts.filter(part => part.functionResponse);
+  const calls = turn.parts.filter(part => part.functionCall);
+  const rest = turn.parts.filter(part => !part.functionResponse && !part.functionCall);
+  if (turn.role === 'model') {
+    return [{
+      role: 'assistant',
+      content: rest.length ? toOpenAIContent(rest) : null,
+      ...(calls.length ? {
+        tool_calls: calls.map(({ functionCall: call }, index) => ({
+          id: call!.id || `call_${index}`,
+          type: 'function' as const,
+          function: { name: call!.name, arguments: JSON.stringify(call!.args) },
+        })),
+      } : {}),
+    }];
+  }
+  return [
+    ...responses.map(({ functionResponse: response }, index): OpenAIMessage => ({
+      role: 'tool',
+      tool_call_id: response!.id || `call_${index}`,
+      content: JSON.stringify(response!.response),
+    })),
+    ...(rest.length || !responses.length ? [{ role: 'user' as const, content: toOpenAIContent(rest) }] : []),
+  ];
+};
+
+const toOpenAIMessages = (contents: ChatTurn[], systemInstruction?: string): OpenAIMessage[] => [
+  ...(systemInstruction ? [{ role: 'system' as const, content: systemInstruction }] : []),
+  ...contents.flatMap(toOpenAITurn),
+];
+
+const parseArguments = (raw: string | undefined): Record<string, unknown> => {
+  if (!raw) return {};
+  try {
+    return JSON.parse(raw);
+  } catch {
+    return {};
+  }
+};
+
+const toFunctionCalls = (calls: PartialToolCall[]): FunctionCall[] =>
+  calls.filter(call => call.name).map(call => ({ id: call.id, name: call.name as string, args: parseArguments(call.arguments) }));
+
+export const createOpenAIProvider = (config: ProviderConfig): LLMProvider => {
+  const baseUrl = (config.baseUrl || 'http://localhost:11434/v1').replace(/\/$/, '');
+
+  const post = async (path: string, body: unknown, signal?: AbortSignal) => {
+    const response = await fetch(`${baseUrl}${path}`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...(config.apiKey ? { Authorization: `Bearer ${config.apiKey}` } : {}),
+      },
+      body: JSON.stringify(body),
+      signal,
+    });
+    if (!response.ok) {
+      const detail = await response.text().catch(() => '');
+      const retryAfter = Number(response.headers.get('Retry-After')) || undefined;
+      throw Object.assign(new Error(`OpenAI-compatible endpoint returned ${response.status}: ${detail.slice(0, 300)}`), { status: response.status, retryAfter });
+    }
+    return response;
+  };
+
+  const buildChatBody = (request: ChatRequest, stream: boolean) => ({
+    model: config.models.chat,
+    messages: toOpenAIMessages(request.contents, request.systemInstruction),
+    stream,
+    ...(request.tools?.length
+      ? { tools: request.tools.map(tool => ({ type: 'function', function: { name: tool.name, description: tool.description, parameters: tool.parameters } })) }
+      : {}),
+  });
+
+  return {
+    name: 'openai',
+
+    async chat(request) {
+      const response = await post('/chat/completions', buildChatBody(request, false), request.signal);
+      const data = await response.json();
+      const message = data.choices?.[0]?.message || {};
+      if (data.choices?.[0]?.finish_reason === 'content_filter' && !message.content && !message.tool_calls?.length) {
+        throw safetyBlockError('content_filter');
+      }
+      return {
+        text: typeof message.content === 'string' ? message.content : '',
+        functionCalls: toFunctionCalls((message.tool_calls || []).map((call: any) => ({ id: call.id, ...call.function }))),
+        images: [],
+      };
+    },
+
+    async streamChat(request, onText) {
+      const result: ChatResult = { text: '', functionCalls: [], images: [] };
+      const toolCalls: PartialToolCall[] = [];
+
+      try {
+        const response = await post('/chat/completions', buildChatBody(request, true), request.signal);
+        const reader = response.body!.pipeThrough(new TextDecoderStream()).getReader();
+        let buffer = '';
+
+        while (true) {
+          const { value, done } = await reader.read();
+          if (done) break;
+          buffer += value;
+          const lines = buffer.split('\n');
+          buffer = lines.pop() || '';
+
+          for (const line of lines) {
+            const payload = line.replace(/^data:\s*/, '').trim();
+            if (!payload || payload === '[DONE]' || !line.startsWith('data:')) continue;
+            const choice = JSON.parse(payload).choices?.[0] || {};
+            if (choice.finish_reason === 'content_filter' && !result.text) throw safetyBlockError('content_filter');
+            const delta = choice.delta || {};
+            if (delta.content) {
+              result.text += delta.content;
+              onText(result.text);
+            }
+            // Tool call names and arguments arrive in fragments keyed by index.
+            for (const call of (delta.tool_calls || []) as OpenAIToolCallDelta[]) {
+              const slot = (toolCalls[call.index ?? toolCalls.length] ??= {});
+              if (call.id) slot.id = call.id;
+              if (call.function?.name) slot.name = (slot.name || '') + call.function.name;
+              if (call.function?.arguments) slot.arguments = (slot.arguments || '') + call.function.arguments;
+            }
+          }
+        }
+      } catch (error) {
+        if (!request.signal?.aborted) throw error;
+      }
+
+      result.functionCalls = toFunctionCalls(toolCalls);
+      return result;
+    },
+
+    async generateStructured<T>(request: StructuredRequest): Promise<T> {
+      const response = await post('/chat/completions', {
+        model: config.models.chat,
+        messages: toOpenAIMessages([{ role: 'user', parts: [{ text: request.prompt }, ...(request.parts || [])] }], request.systemInstruction),
+        response_format: { type: 'json_schema', json_schema: { name: 'response', schema: request.schema } },
+      }, request.signal);
+      const data = await response.json();
+      const choice = data.choices?.[0] || {};
+      if (choice.finish_reason === 'content_filter' && !choice.message?.content) throw safetyBlockError('content_filter');
+      return JSON.parse(choice.message?.content || '{}') as T;
+    },
+
+    async generateImage({ prompt, size = '1K' }: ImageRequest) {
+      const response = await post('/images/generations', {
+        model: config.models.image,
+        prompt,
+        size: IMAGE_SIZES[size] || IMAGE_SIZES['1K'],
+        response_format: 'b64_json',
+        n: 1,
+      });
+      const data = await response.json();
+      const b64 = data.data?.[0]?.b64_json;
+      return b64 ? `data:image/png;base64,${b64}` : undefined;
+    },
+  };
+};
@@ -0,0 +1,101 @@
+import { ChatRequest, ChatResult, ImageRequest, LLMProvider, ProviderConfig, StructuredRequest } from "./types";
+
+// Talks to the Encrypt backend in server/, which holds the real API key and forwards to the upstream provider.
+
+const CLIENT_ID_KEY = 'encrypt-client-id';
+
+// An anonymous, per-browser id the backend uses as the rate-limit bucket.
+const getClientId = () => {
+  try {
+    let id = localStorage.getItem(CLIENT_ID_KEY);
+    if (!id) {
+      id = `client-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`;
+      localStorage.setItem(CLIENT_ID_KEY, id);
+    }
+    return id;
+  } catch {
+    return 'anonymous';
+  }
+};
+
+export interface ProxyStreamEvent {
+  type: 'text' | 'result' | 'error';
+  text?: string; // Delta for 'text' events
+  result?: ChatResult;
+  error?: { message: string; status?: number; code?: string };
+}
+
+// The wire format drops the AbortSignal, which cannot be serialised.
+const withoutSignal = <T extends { signal?: AbortSignal }>({ signal: _signal, ...rest }: T) => rest;
+
+export const createProxyProvider = (config: ProviderConfig): LLMProvider => {
+  const baseUrl = (config.baseUrl || '/api').replace(/\/$/, '');
+
+  const post = async (path: string, body: unknown, signal?: AbortSignal) => {
+    const response = await fetch(`${baseUrl}${path}`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', 'X-Encrypt-Client': getClientId() },
+      body: JSON.stringify(body),
+      signal,
+    });
+    if (!response.ok) {
+      const data = await response.json().catch(() => ({}));
+      const retryAfter = Number(response.headers.get('Retry-After')) || undefined;
+      throw Object.assign(new Error(data.error || `Backend returned ${response.status}`), { status: response.status, retryAfter, code: data.code });
+    }
+    return response;
+  };
+
+  return {
+    name: 'proxy',
+
+    async chat(request: ChatRequest) {
+      const response = await post('/chat', { request: withoutSignal(request), stream: false }, request.signal);
+      return await response.json() as ChatResult;
+    },
+
+    async streamChat(request, onText) {
+      let result: ChatResult = { text: '', functionCalls: [], images: [] };
+      try {
+        const response = await post('/chat', { request: withoutSignal(request), stream: true }, request.signal);
+        const reader = response.body!.pipeThrough(new TextDecoderStream()).getReader();
+        let buffer = '';
+
+        while (true) {
+          const { value, done } = await reader.read();
+          if (done) break;
+          buffer += value;
+          const lines = buffer.split('\n');
+          buffer = lines.pop() || '';
+
+          for (const line of lines) {
+            if (!line.trim()) continue;
+            const event = JSON.parse(line) as ProxyStreamEvent;
+            if (event.type === 'text' && event.text) {
+              result.text += event.text;
+              onText(result.text);
+            } else if (event.type === 'result' && event.result) {
+              result = event.result;
+            } else if (event.type === 'error') {
+              throw Object.assign(new Error(event.error?.message || 'Upstream error'), { status: event.error?.status, code: event.error?.code });
+            }
+          }
+        }
+      } catch (error) {
+        if (!request.signal?.aborted) throw error;
+      }
+      return result;
+    },
+
+    async generateStructured<T>(request: StructuredRequest): Promise<T> {
+      const response = await post('/structured', { request: withoutSignal(request) }, request.signal);
+      return await response.json() as T;
+    },
+
+    async generateImage(request: ImageRequest) {
+      const response = await post('/image', { request });
+      const data = await response.json() as { image?: string };
+      return data.image;
+    },
+  };
+};
@@ -0,0 +1,98 @@
+// Provider-neutral request/response shapes. Every LLM backend the app can talk to implements LLMProvider.
+
+export interface JsonSchema {
+  type: 'object' | 'array' | 'string' | 'number' | 'integer' | 'boolean';
+  description?: string;
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+  items?: JsonSchema;
+  enum?: string[];
+}
+
+export interface InlineData {
+  mimeType: string;
+  data: string; // Base64 without the data: URL prefix
+}
+
+export interface ChatPart {
+  text?: string;
+  inlineData?: InlineData;
+  functionCall?: FunctionCall; // Replayed on model turns of a tool loop
+  functionResponse?: FunctionResponse; // Sent back on the following user turn
+}
+
+export interface ChatTurn {
+  role: 'user' | 'model';
+  parts: ChatPart[];
+}
+
+export interface ToolDeclaration {
+  name: string;
+  description: string;
+  parameters: JsonSchema;
+}
+
+export interface FunctionCall {
+  id?: string; // Set by providers that pair calls with their results by id
+  name: string;
+  args: Record<string, unknown>;
+  thoughtSignature?: string; // Gemini needs this echoed back when the call is replayed
+}
+
+export interface FunctionResponse {
+  id?: string;
+  name: string;
+  response: Record<string, unknown>;
+}
+
+export interface ChatRequest {
+  contents: ChatTurn[];
+  systemInstruction?: string;
+  tools?: ToolDeclaration[];
+  thinkingBudget?: number;
+  signal?: AbortSignal;
+}
+
+export interface ChatResult {
+  text: string;
+  functionCalls: FunctionCall[];
+  images: string[]; // data: URLs
+}
+
+export interface StructuredRequest {
+  prompt: string;
+  parts?: ChatPart[]; // Sent after the prompt, e.g. submitted images and PDFs
+  schema: JsonSchema;
+  systemInstruction?: string;
+  signal?: AbortSignal;
+}
+
+export interface ImageRequest {
+  prompt: string;
+  size?: string; // '1K' | '2K' | '4K'
+  aspectRatio?: string;
+}
+
+export interface ProviderModels {
+  chat: string;
+  image: string;
+  imageFallback?: string;
+}
+
+export interface LLMProvider {
+  readonly name: ProviderName;
+  chat(request: ChatRequest): Promise<ChatResult>;
+  // onText receives the accumulated text so far. Resolves with whatever arrived if the signal aborts.
+  streamChat(request: ChatRequest, onText: (text: string) => void): Promise<ChatResult>;
+  generateStructured<T>(request: StructuredRequest): Promise<T>;
+  generateImage(request: ImageRequest): Promise<string | undefined>;
+}
+
+export type ProviderName = 'gemini' | 'openai' | 'mock' | 'proxy';
+
+export interface ProviderConfig {
+  provider: ProviderName;
+  apiKey?: string;
+  baseUrl?: string;
+  models: ProviderModels;
+}
@@ -0,0 +1,613 @@
+// Interpreter for the pseudocode dialect used in templates: assignments, WHILE, IF / ELSE IF / ELSE, RETURN,
+// PRINT, FUNCTION definitions and recursion. A run is recorded up front as a list of snapshots, so stepping
+// backwards is just moving through the list.
+
+export type TraceValue = number | string | boolean | null | TraceValue[];
+
+type Expr =
+  | { kind: 'literal'; value: TraceValue }
+  | { kind: 'var'; name: string }
+  | { kind: 'array'; items: Expr[] }
+  | { kind: 'index'; target: Expr; index: Expr }
+  | { kind: 'call'; name: string; args: Expr[] }
+  | { kind: 'unary'; op: '-' | 'not'; operand: Expr }
+  | { kind: 'binary'; op: string; left: Expr; right: Expr };
+
+type Stmt =
+  | { kind: 'assign'; line: number; target: Expr; value: Expr }
+  | { kind: 'if'; line: number; branches: { line: number; cond: Expr | null; body: Stmt[] }[] }
+  | { kind: 'while'; line: number; cond: Expr; body: Stmt[] }
+  | { kind: 'return'; line: number; value: Expr | null }
+  | { kind: 'print'; line: number; value: Expr }
+  | { kind: 'expr'; line: number; expr: Expr };
+
+interface FunctionDef {
+  name: string;
+  params: string[];
+  line: number;
+  body: Stmt[];
+}
+
+interface Program {
+  functions: Map<string, FunctionDef>;
+  main: Stmt[];
+}
+
+export interface TraceFrame {
+  name: string;
+  line: number;
+  args: TraceValue[];
+  vars: Record<string, TraceValue>;
+}
+
+export interface TraceStep {
+  line: number; // 0-based line in the source
+  event: 'line' | 'call' | 'return' | 'done' | 'error';
+  stack: TraceFrame[]; // Outermost call first
+  output: string[];
+  value?: TraceValue; // Return value for 'return' and 'done'
+  error?: string;
+}
+
+export interface ProgramInfo {
+  entry?: { name: string; params: string[] };
+  inputs: string[]; // Entry parameters followed by free variables, in order of first use
+  undefinedFunctions: string[];
+}
+
+export class PseudocodeError extends Error {
+  constructor(message: string, public line?: number) {
+    super(line !== undefined ? `Line ${line + 1}: ${message}` : message);
+  }
+}
+
+const MAX_TRACE_STEPS = 2000;
+const MAX_CALL_DEPTH = 200;
+
+const BUILTINS: Record<string, (...args: TraceValue[]) => TraceValue> = {
+  floor: (x) => Math.floor(Number(x)),
+  ceil: (x) => Math.ceil(Number(x)),
+  round: (x) => Math.round(Number(x)),
+  abs: (x) => Math.abs(Number(x)),
+  sqrt: (x) => Math.sqrt(Number(x)),
+  min: (...xs) => Math.min(...(xs.length === 1 && Array.isArray(xs[0]) ? xs[0] : xs).map(Number)),
+  max: (...xs) => Math.max(...(xs.length === 1 && Array.isArray(xs[0]) ? xs[0] : xs).map(Number)),
+  len: (x) => (Array.isArray(x) || typeof x === 'string' ? x.length : 0),
+  length: (x) => (Array.isArray(x) || typeof x === 'string' ? x.length : 0),
+};
+
+// --- TOKENIZER & EXPRESSION PARSER ---
+
+type Token = { type: 'num' | 'str' | 'id' | 'op'; text: string };
+
+const KEYWORD_OPS = new Set(['AND', 'OR', 'NOT', 'MOD', 'DIV']);
+const CONSTANTS: Record<string, TraceValue> = { TRUE: true, FALSE: false, NULL: null, NIL: null, NONE: null };
+
+const tokenize = (source: string, line: number): Token[] => {
+  const tokens: Token[] = [];
+  const pattern = /\s*(?:(\d+(?:\.\d+)?)|("(?:[^"\\]|\\.)*"|'(?:[^'\\]|\\.)*')|([A-Za-z_]\w*)|(==|!=|<>|<=|>=|&&|\|\||[-+*/%<>=!()[\],]))/y;
+  let index = 0;
+  while (index < source.length) {
+    if (!source.slice(index).trim()) break;
+    pattern.lastIndex = index;
+    const match = pattern.exec(source);
+    if (!match) throw new PseudocodeError(`Unexpected "${source.slice(index).trim()[0]}"`, line);
+    index = pattern.lastIndex;
+    if (match[1]) tokens.push({ type: 'num', text: match[1] });
+    else if (match[2]) tokens.push({ type: 'str', text: match[2].slice(1, -1).replace(/\\(.)/g, '$1') });
+    else if (match[3]) {
+      const upper = match[3].toUpperCase();
+      tokens.push(KEYWORD_OPS.has(upper) ? { type: 'op', text: upper } : { type: 'id', text: match[3] });
+    } else tokens.push({ type: 'op', text: match[4] });
+  }
+  return tokens;
+};
+
+const BINARY_PRECEDENCE: Record<string, number> = {
+  OR: 1, '||': 1,
+  AND: 2, '&&': 2,
+  '==': 4, '=': 4, '!=': 4, '<>': 4, '<': 4, '<=': 4, '>': 4, '>=': 4,
+  '+': 5, '-': 5,
+  '*': 6, '/': 6, '%': 6, MOD: 6, DIV: 6,
+};
+
+const NORMALIZED_OPS: Record<string, string> = { '||': 'OR', '&&': 'AND', '=': '==', '<>': '!=', '%': 'MOD' };
+
+const parseExpression = (source: string, line = 0): Expr => {
+  const tokens = tokenize(source, line);
+  let pos = 0;
+  const peek = () => tokens[pos];
+  const expect = (text: string) => {
+    if (peek()?.text !== text) throw new PseudocodeError(`Expected "${text}"`, line);
+    pos++;
+  };
+
+  const parseList = (close: string): Expr[] => {
+    const items: Expr[] = [];
+    if (peek()?.text === close) { pos++; return items; }
+    for (;;) {
+      items.push(parse(0));
+      if (peek()?.text === ',') { pos++; continue; }
+      expect(close);
+      return items;
+    }
+  };
+
+  const parsePrimary = (): Expr => {
+    const token = tokens[pos++];
+    if (!token) throw new PseudocodeError('Expression ends unexpectedly', line);
+    if (token.type === 'num') return { kind: 'literal', value: Number(token.text) };
+    if (token.type === 'str') return { kind: 'literal', value: token.text };
+    if (token.text === '(') { const inner = parse(0); expect(')'); return inner; }
+    if (token.text === '[') return { kind: 'array', items: parseList(']') };
+    if (token.text === '-') return { kind: 'unary', op: '-', operand: parse(7) };
+    if (token.text === 'NOT' || token.text === '!') return { kind: 'unary', op: 'not', operand: parse(3) };
+    if (token.type === 'id') {
+      const constant = CONSTANTS[token.text.toUpperCase()];
+      if (constant !== undefined) return { kind: 'literal', value: constant };
+      if (peek()?.text === '(') { pos++; return { kind: 'call', name: token.text, args: parseList(')') }; }
+      return { kind: 'var', name: token.text };
+    }
+    throw new PseudocodeError(`Unexpected "${token.text}"`, line);
+  };
+
+  const parse = (minPrecedence: number): Expr => {
+    let left = parsePrimary();
+    for (;;) {
+      const token = peek();
+      if (token?.text === '[') {
+        pos++;
+        const index = parse(0);
+        expect(']');
+        left = { kind: 'index', target: left, index };
+        continue;
+      }
+      const precedence = token?.type === 'op' ? BINARY_PRECEDENCE[token.text] : undefined;
+      if (precedence === undefined || precedence <= minPrecedence) return left;
+      pos++;
+      left = { kind: 'binary', op: NORMALIZED_OPS[token.text] || token.text, left, right: parse(precedence) };
+    }
+  };
+
+  const expr = parse(0);
+  if (pos < tokens.length) throw new PseudocodeError(`Unexpected "${tokens[pos].text}"`, line);
+  return expr;
+};
+
+// --- STATEMENT PARSER ---
+
+interface LineNode {
+  line: number;
+  text: string;
+  indent: number;
+  children: LineNode[];
+}
+
+// Numbered headings like "1. BASE CASE:" only organise the template; their contents belong to the enclosing block.
+const LABEL_LINE = /^\d+[.)]\s+[^:]*:$/;
+const COMMENT_LINE = /^(\/\/|#|--)/;
+
+const buildTree = (source: string): LineNode[] => {
+  const root: LineNode = { line: -1, text: '', indent: -1, children: [] };
+  const stack = [root];
+  source.split('\n').forEach((raw, line) => {
+    const text = raw.trim();
+    if (!text || COMMENT_LINE.test(text)) return;
+    const indent = raw.length - raw.trimStart().length;
+    while (stack[stack.length - 1].indent >= indent) stack.pop();
+    const node = { line, text, indent, children: [] };
+    stack[stack.length - 1].children.push(node);
+    stack.push(node);
+  });
+
+  const flattenLabels = (nodes: LineNode[]): LineNode[] =>
+    nodes.flatMap(node => LABEL_LINE.test(node.text) ? flattenLabels(node.children) : [{ ...node, children: flattenLabels(node.children) }]);
+  return flattenLabels(root.children);
+};
+
+const splitTopLevel = (text: string, separator: string): string[] => {
+  const parts: string[] = [];
+  let depth = 0;
+  let quote: string | null = null;
+  let current = '';
+  for (const ch of text) {
+    if (quote) { if (ch === quote) quote = null; }
+    else if (ch === '"' || ch === "'") quote = ch;
+    else if (ch === '(' || ch === '[') depth++;
+    else if (ch === ')' || ch === ']') depth--;
+    else if (ch === separator && depth === 0) { parts.push(current); current = ''; continue; }
+    current += ch;
+  }
+  parts.push(current);
+  return parts.map(p => p.trim());
+};
+
+const FUNCTION_HEADER = /^(?:FUNCTION\s+)?([A-Za-z_]\w*)\s*\(([^)]*)\)\s*:$/i;
+const IF_HEADER = /^(ELSE\s+IF|IF)\s+(.+?)\s*(?:\bTHEN\b\s*:?|:)\s*(.*)$/i;
+const ELSE_HEADER = /^ELSE\s*:?\s*(.*)$/i;
+const WHILE_HEADER = /^WHILE\s+(.+?)\s*(?:\bDO\b\s*:?|:)\s*(.*)$/i;
+const ASSIGNMENT = /^([A-Za-z_]\w*(?:\s*\[.+\])?)\s*(?:=|:=|<-)(?!=)\s*(.+)$/;
+
+const parseSimple = (text: string, line: number): Stmt => {
+  const ret = text.match(/^RETURN\b\s*(.*)$/i);
+  if (ret) return { kind: 'return', line, value: ret[1].trim() ? parseExpression(ret[1], line) : null };
+
+  const print = text.match(/^(?:PRINT|OUTPUT|DISPLAY)\b\s*(.+)$/i);
+  if (print) return { kind: 'print', line, value: parseExpression(print[1], line) };
+
+  const parts = splitTopLevel(text, ',');
+  const assignments = parts.map(part => part.match(ASSIGNMENT));
+  if (assignments.every(Boolean)) {
+    const stmts = assignments.map(m => ({ kind: 'assign' as const, line, target: parseExpression(m![1], line), value: parseExpression(m![2], line) }));
+    // "low = 0, high = len - 1" becomes a trivially-true IF wrapping both, so it stays one traced line.
+    return stmts.length === 1 ? stmts[0] : { kind: 'if', line, branches: [{ line, cond: { kind: 'literal', value: true }, body: stmts }] };
+  }
+  return { kind: 'expr', line, expr: parseExpression(text, line) };
+};
+
+const parseBlock = (nodes: LineNode[]): Stmt[] => {
+  const stmts: Stmt[] = [];
+  const inlineOrBlock = (rest: string, node: LineNode) =>
+    rest ? [parseSimple(rest, node.line), ...parseBlock(node.children)] : parseBlock(node.children);
+
+  for (const node of nodes) {
+    const whileMatch = node.text.match(WHILE_HEADER);
+    if (whileMatch) {
+      stmts.push({ kind: 'while', line: node.line, cond: parseExpression(whileMatch[1], node.line), body: inlineOrBlock(whileMatch[2], node) });
+      continue;
+    }
+
+    const ifMatch = node.text.match(IF_HEADER);
+    if (ifMatch) {
+      const branch = { line: node.line, cond: parseExpression(ifMatch[2], node.line), body: inlineOrBlock(ifMatch[3], node) };
+      const previous = stmts[stmts.length - 1];
+      if (/^ELSE/i.test(ifMatch[1])) {
+        if (previous?.kind !== 'if') throw new PseudocodeError('ELSE IF without a matching IF', node.line);
+        previous.branches.push(branch);
+      } else stmts.push({ kind: 'if', line: node.line, branches: [branch] });
+      continue;
+    }
+
+    const elseMatch = node.text.match(ELSE_HEADER);
+    if (elseMatch && /^ELSE\b/i.test(node.text)) {
+      const previous = stmts[stmts.length - 1];
+      if (previous?.kind !== 'if') throw new PseudocodeError('ELSE without a matching IF', node.line);
+      previous.branches.push({ line: node.line, cond: null, body: inlineOrBlock(elseMatch[1], node) });
+      continue;
+    }
+
+    if (node.children.length > 0) throw new PseudocodeError(`"${node.text}" cannot contain indented lines`, node.line);
+    stmts.push(parseSimple(node.text, node.line));
+  }
+  return stmts;
+};
+
+export const parseProgram = (source: string): Program => {
+  const functions = new Map<string, FunctionDef>();
+  const mainNodes: LineNode[] = [];
+
+  for (const node of buildTree(source)) {
+    const header = node.text.match(FUNCTION_HEADER);
+    const isControl = /^(IF|ELSE|WHILE)\b/i.test(node.text);
+    if (header && !isControl && (node.children.length > 0 || /^FUNCTION\b/i.test(node.text))) {
+      const params = header[2].split(',').map(p => p.trim()).filter(Boolean);
+      functions.set(header[1], { name: header[1], params, line: node.line, body: parseBlock(node.children) });
+    } else mainNodes.push(node);
+  }
+  return { functions, main: parseBlock(mainNodes) };
+};
+
+// --- STATIC ANALYSIS ---
+
+const walkExpr = (expr: Expr, visit: (expr: Expr) => void) => {
+  visit(expr);
+  if (expr.kind === 'array') expr.items.forEach(e => walkExpr(e, visit));
+  if (expr.kind === 'index') { walkExpr(expr.target, visit); walkExpr(expr.index, visit); }
+  if (expr.kind === 'call') expr.args.forEach(e => walkExpr(e, visit));
+  if (expr.kind === 'unary') walkExpr(expr.operand, visit);
+  if (expr.kind === 'binary') { walkExpr(expr.left, visit); walkExpr(expr.right, visit); }
+};
+
+const walkStmts = (stmts: Stmt[], onExpr: (expr: Expr) => void, onAssign: (name: string) => void) => {
+  for (const stmt of stmts) {
+    if (stmt.kind === 'assign') {
+      if (stmt.target.kind === 'var') onAssign(stmt.target.name);
+      else walkExpr(stmt.target, onExpr);
+      walkExpr(stmt.value, onExpr);
+    } else if (stmt.kind === 'if') {
+      stmt.branches.forEach(b => { if (b.cond) walkExpr(b.cond, onExpr); walkStmts(b.body, onExpr, onAssign); });
+    } else if (stmt.kind === 'while') {
+      walkExpr(stmt.cond, onExpr);
+      walkStmts(stmt.body, onExpr, onAssign);
+    } else if (stmt.kind === 'return') {
+      if (stmt.value) walkExpr(stmt.value, onExpr);
+    } else if (stmt.kind === 'print') walkExpr(stmt.value, onExpr);
+    else walkExpr(stmt.expr, onExpr);
+  }
+};
+
+// Works out what the student has to supply: the entry function's parameters plus any name the code reads but never sets.
+export const analyzeProgram = (program: Program): ProgramInfo => {
+  const entryDef = program.main.length === 0 ? program.functions.values().next().value : undefined;
+  const read: string[] = [];
+  const assigned = new Set<string>();
+  const called = new Set<string>();
+  const onExpr = (expr: Expr) => {
+    if (expr.kind === 'var' && !read.includes(expr.name)) read.push(expr.name);
+    if (expr.kind === 'call') called.add(expr.name);
+  };
+  const onAssign = (name: string) => assigned.add(name);
+
+  for (const fn of program.functions.values()) {
+    fn.params.forEach(onAssign);
+    walkStmts(fn.body, onExpr, onAssign);
+  }
+  walkStmts(program.main, onExpr, onAssign);
+
+  const params = entryDef?.params ?? [];
+  const free = read.filter(name => !assigned.has(name) && !params.includes(name));
+  return {
+    entry: entryDef && { name: entryDef.name, params: entryDef.params },
+    inputs: [...params, ...free.filter(name => !params.includes(name))],
+    undefinedFunctions: [...called].filter(name => !program.functions.has(name) && !(name.toLowerCase() in BUILTINS)),
+  };
+};
+
+// --- INTERPRETER ---
+
+class ReturnSignal {
+  constructor(public value: TraceValue) {}
+}
+
+interface RuntimeFrame {
+  name: string;
+  line: number;
+  args: TraceValue[];
+  vars: Map<string, TraceValue>;
+}
+
+const clone = (value: TraceValue): TraceValue => (Array.isArray(value) ? value.map(clone) : value);
+
+export const formatValue = (value: TraceValue | undefined): string => {
+  if (value === undefined) return '';
+  if (value === null) return 'NULL';
+  if (Array.isArray(value)) return `[${value.map(formatValue).join(', ')}]`;
+  if (typeof value === 'string') return `"${value}"`;
+  if (typeof value === 'boolean') return value ? 'TRUE' : 'FALSE';
+  return String(Number.isInteger(value) ? value : Math.round(value * 1e6) / 1e6);
+};
+
+const equals = (a: TraceValue, b: TraceValue): boolean =>
+  Array.isArray(a) && Array.isArray(b) ? a.length === b.length && a.every((v, i) => equals(v, b[i])) : a === b;
+
+class Tracer {
+  steps: TraceStep[] = [];
+  private stack: RuntimeFrame[] = [];
+  private output: string[] = [];
+
+  constructor(private program: Program, private globals: Map<string, TraceValue>) {}
+
+  record(line: number, event: TraceStep['event'], extra: Partial<TraceStep> = {}) {
+    if (this.steps.length >= MAX_TRACE_STEPS) {
+      throw new PseudocodeError(`Stopped after ${MAX_TRACE_STEPS} steps. Is there a loop that never ends?`, line);
+    }
+    this.steps.push({
+      line,
+      event,
+      stack: this.stack.map(frame => ({ name: frame.name, line: frame.line, args: frame.args.map(clone), vars: Object.fromEntries([...frame.vars].map(([k, v]) => [k, clone(v)])) })),
+      output: [...this.output],
+      ...extra,
+    });
+  }
+
+  // Top-level code (and input expressions) run in a synthetic frame so they have somewhere to keep variables.
+  enterTopLevel(name: string) {
+    this.stack = [{ name, line: 0, args: [], vars: new Map() }];
+  }
+
+  private get frame() {
+    return this.stack[this.stack.length - 1];
+  }
+
+  private lookup(name: string, line: number): TraceValue {
+    if (this.frame.vars.has(name)) return this.frame.vars.get(name)!;
+    if (this.globals.has(name)) return this.globals.get(name)!;
+    throw new PseudocodeError(`"${name}" has no value yet`, line);
+  }
+
+  private indexInto(target: TraceValue, index: TraceValue, line: number) {
+    if (!Array.isArray(target) && typeof target !== 'string') throw new PseudocodeError('Only lists and text can be indexed', line);
+    const i = Number(index);
+    if (!Number.isInteger(i) || i < 0 || i >= target.length) {
+      throw new PseudocodeError(`Index ${formatValue(index)} is outside the list (length ${target.length})`, line);
+    }
+    return i;
+  }
+
+  evaluate(expr: Expr, line: number): TraceValue {
+    switch (expr.kind) {
+      case 'literal': return clone(expr.value);
+      case 'var': return this.lookup(expr.name, line);
+      case 'array': return expr.items.map(item => this.evaluate(item, line));
+      case 'index': {
+        const target = this.evaluate(expr.target, line);
+        const i = this.indexInto(target, this.evaluate(expr.index, line), line);
+        return (target as TraceValue[] | string)[i];
+      }
+      case 'unary': {
+        const operand = this.evaluate(expr.operand, line);
+        return expr.op === '-' ? -Number(operand) : !operand;
+      }
+      case 'binary': {
+        if (expr.op === 'AND') return !!this.evaluate(expr.left, line) && !!this.evaluate(expr.right, line);
+        if (expr.op === 'OR') return !!this.evaluate(expr.left, line) || !!this.evaluate(expr.right, line);
+        const left = this.evaluate(expr.left, line);
+        const right = this.evaluate(expr.right, line);
+        switch (expr.op) {
+          case '+':
+            if (Array.isArray(left) && Array.isArray(right)) return [...left, ...right];
+            if (typeof left === 'string' || typeof right === 'string') return `${left}${right}`;
+            return Number(left) + Number(right);
+          case '-': return Number(left) - Number(right);
+          case '*': return Number(left) * Number(right);
+          case '/':
+            if (Number(right) === 0) throw new PseudocodeError('Division by zero', line);
+            return Number(left) / Number(right);
+          case 'DIV':
+            if (Number(right) === 0) throw new PseudocodeError('Division by zero', line);
+            return Math.floor(Number(left) / Number(right));
+          case 'MOD': return Number(left) % Number(right);
+          case '==': return equals(left, right);
+          case '!=': return !equals(left, right);
+          case '<': return (left as number) < (right as number);
+          case '<=': return (left as number) <= (right as number);
+          case '>': return (left as number) > (right as number);
+          case '>=': return (left as number) >= (right as number);
+        }
+        throw new PseudocodeError(`Unknown operator ${expr.op}`, line);
+      }
+      case 'call': {
+        const args = expr.args.map(arg => this.evaluate(arg, line));
+        const fn = this.program.functions.get(expr.name);
+        if (fn) return this.call(fn, args, line);
+        const builtin = BUILTINS[expr.name.toLowerCase()];
+        if (builtin) return builtin(...args);
+        throw new PseudocodeError(`"${expr.name}" is not defined. Define it with FUNCTION ${expr.name}(...):`, line);
+      }
+    }
+  }
+
+  call(fn: FunctionDef, args: TraceValue[], callLine: number): TraceValue {
+    if (args.length !== fn.params.length) {
+      throw new PseudocodeError(`${fn.name} expects ${fn.params.length} argument(s) but got ${args.length}`, callLine);
+    }
+    if (this.stack.length >= MAX_CALL_DEPTH) throw new PseudocodeError(`Recursion went deeper than ${MAX_CALL_DEPTH} calls. Is the base case reachable?`, callLine);
+
+    this.stack.push({ name: fn.name, line: fn.line, args: args.map(clone), vars: new Map(fn.params.map((p, i) => [p, args[i]])) });
+    this.record(fn.line, 'call');
+    let result: TraceValue = null;
+    try {
+      this.run(fn.body);
+    } catch (signal) {
+      if (!(signal instanceof ReturnSignal)) throw signal;
+      result = signal.value;
+    }
+    this.stack.pop();
+    return result;
+  }
+
+  run(stmts: Stmt[]) {
+    for (const stmt of stmts) {
+      this.frame.line = stmt.line;
+      this.record(stmt.line, 'line');
+      switch (stmt.kind) {
+        case 'assign': this.assign(stmt.target, this.evaluate(stmt.value, stmt.line), stmt.line); break;
+        case 'print': this.output.push(formatValue(this.evaluate(stmt.value, stmt.line)).replace(/^"(.*)"$/, '$1')); break;
+        case 'expr': this.evaluate(stmt.expr, stmt.line); break;
+        case 'while':
+          while (this.evaluate(stmt.cond, stmt.line)) {
+            this.run(stmt.body);
+            this.frame.line = stmt.line;
+            this.record(stmt.line, 'line');
+          }
+          break;
+        case 'if': {
+          const branch = stmt.branches.find(b => b.cond === null || this.evaluate(b.cond, b.line));
+          if (branch) {
+            if (branch.line !== stmt.line) { this.frame.line = branch.line; this.record(branch.line, 'line'); }
+            this.run(branch.body);
+          }
+          break;
+        }
+        case 'return': {
+          const value = stmt.value ? this.evaluate(stmt.value, stmt.line) : null;
+          this.record(stmt.line, 'return', { value });
+          throw new ReturnSignal(value);
+        }
+      }
+    }
+  }
+
+  private assign(target: Expr, value: TraceValue, line: number) {
+    if (target.kind === 'var') {
+      this.frame.vars.set(target.name, value);
+      return;
+    }
+    if (target.kind === 'index') {
+      const container = this.evaluate(target.target, line);
+      if (!Array.isArray(container)) throw new PseudocodeError('Only list elements can be assigned', line);
+      container[this.indexInto(container, this.evaluate(target.index, line), line)] = value;
+      return;
+    }
+    throw new PseudocodeError('Cannot assign to this expression', line);
+  }
+}
+
+// Evaluates the student's input expressions in order, so later inputs can refer to earlier ones (e.g. len = len(Array)).
+export const evaluateInputs = (names: string[], sources: Record<string, string>): Map<string, TraceValue> => {
+  const values = new Map<string, TraceValue>();
+  const tracer = new Tracer({ functions: new Map(), main: [] }, values);
+  tracer.enterTopLevel('inputs');
+  for (const name of names) {
+    const source = sources[name]?.trim();
+    if (!source) throw new PseudocodeError(`Give "${name}" a value`);
+    try {
+      values.set(name, tracer.evaluate(parseExpression(source), 0));
+    } catch (err: any) {
+      throw new PseudocodeError(`Input "${name}": ${err.message.replace(/^Line \d+: /, '')}`);
+    }
+  }
+  return values;
+};
+
+export const traceProgram = (program: Program, info: ProgramInfo, inputs: Map<string, TraceValue>): TraceStep[] => {
+  const globals = new Map(inputs);
+  const tracer = new Tracer(program, globals);
+  try {
+    let result: TraceValue = null;
+    if (info.entry) {
+      const fn = program.functions.get(info.entry.name)!;
+      result = tracer.call(fn, fn.params.map(p => globals.get(p) ?? null), fn.line);
+    } else {
+      tracer.enterTopLevel('main');
+      try {
+        tracer.run(program.main);
+      } catch (signal) {
+        if (!(signal instanceof ReturnSignal)) throw signal;
+        result = signal.value;
+      }
+    }
+    const last = tracer.steps[tracer.steps.length - 1];
+    tracer.steps.push({ line: last?.line ?? 0, event: 'done', stack: [], output: last?.output ?? [], value: result });
+  } catch (err: any) {
+    const last = tracer.steps[tracer.steps.length - 1];
+    tracer.steps.push({
+      line: err instanceof PseudocodeError && err.line !== undefined ? err.line : last?.line ?? 0,
+      event: 'error',
+      stack: last?.stack ?? [],
+      output: last?.output ?? [],
+      error: err?.message || String(err),
+    });
+  }
+  return tracer.steps;
+};
+
+// A template is traceable when it parses and does more than print prose.
+export const isTraceable = (source: string): boolean => {
+  try {
+    const program = parseProgram(source);
+    const stmts = [...program.main, ...[...program.functions.values()].flatMap(fn => fn.body)];
+    return stmts.length > 0 && stmts.some(stmt => stmt.kind !== 'expr' || stmt.expr.kind === 'call');
+  } catch {
+    return false;
+  }
+};
+
+export const suggestInput = (name: string, info: ProgramInfo): string => {
+  const arrayParam = info.inputs.find(input => /arr|list|nums|items|values/i.test(input));
+  if (/^(len|length|n_items|size)$/i.test(name) && arrayParam) return `len(${arrayParam})`;
+  if (/arr|list|nums|items|values/i.test(name)) return '[1, 3, 5, 7, 9, 11, 13]';
+  if (/not_?found|none|missing/i.test(name)) return '-1';
+  if (/target|key|goal|x$|^n$|input|num/i.test(name)) return '7';
+  return '';
+};
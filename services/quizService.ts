@@ -0,0 +1,89 @@
+import { Quiz, QuizAnswerResult, QuizQuestion, QuizResponse } from "../types";
+import { gradeShortAnswer } from "./geminiService";
+
+// Score at or above which an answer counts as correct.
+const PASS_THRESHOLD = 0.7;
+
+const normalize = (value: string) => value.toLowerCase().replace(/[^\p{L}\p{N}]+/gu, ' ').trim();
+
+// Deterministic shuffle seeded by the question id, so the ordering puzzle looks the same after a reload.
+export const shuffledSteps = (question: QuizQuestion): string[] => {
+  const steps = [...(question.steps || [])];
+  let seed = [...question.id].reduce((acc, ch) => (acc * 31 + ch.charCodeAt(0)) >>> 0, 7);
+  const random = () => {
+    seed = (seed * 1664525 + 1013904223) >>> 0;
+    return seed / 2 ** 32;
+  };
+  for (let i = steps.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1));
+    [steps[i], steps[j]] = [steps[j], steps[i]];
+  }
+  // A shuffle that lands on the answer would give it away.
+  if (steps.length > 1 && steps.every((step, i) => step === question.steps![i])) steps.push(steps.shift()!);
+  return steps;
+};
+
+const gradeLocally = (question: QuizQuestion, response: QuizResponse): QuizAnswerResult | null => {
+  const base = { questionId: question.id, response, gradedBy: 'local' as const };
+
+  if (question.kind === 'multiple_choice') {
+    const correct = response === question.correctIndex;
+    return { ...base, score: correct ? 1 : 0, correct };
+  }
+
+  if (question.kind === 'ordering') {
+    const expected = question.steps || [];
+    const given = Array.isArray(response) ? response : [];
+    const inPlace = expected.filter((step, i) => given[i] === step).length;
+    const score = expected.length ? inPlace / expected.length : 0;
+    return { ...base, score, correct: score === 1 };
+  }
+
+  // Short answers that match the reference outright do not need a model call.
+  if (typeof response === 'string' && question.referenceAnswer && normalize(response) === normalize(question.referenceAnswer)) {
+    return { ...base, score: 1, correct: true };
+  }
+  return null;
+};
+
+export const gradeQuiz = async (quiz: Quiz, responses: Record<string, QuizResponse>): Promise<Quiz> => {
+  const results: QuizAnswerResult[] = [];
+
+  for (const question of quiz.questions) {
+    const response = responses[question.id] ?? '';
+    const local = gradeLocally(question, response);
+    if (local) {
+      results.push(local);
+      continue;
+    }
+    const answer = String(response).trim();
+    if (!answer) {
+      results.push({ questionId: question.id, response, score: 0, correct: false, feedback: 'No answer given.', gradedBy: 'local' });
+      continue;
+    }
+    const { score, feedback } = await gradeShortAnswer(question, answer);
+    results.push({ questionId: question.id, response, score, correct: score >= PASS_THRESHOLD, feedback, gradedBy: 'model' });
+  }
+
+  const score = results.length ? results.reduce((sum, r) => sum + r.score, 0) / results.length : 0;
+  return { ...quiz, results, score, completedAt: Date.now() };
+};
+
+const describeResponse = (question: QuizQuestion, response: QuizResponse) => {
+  if (question.kind === 'multiple_choice' && typeof response === 'number') return question.options?.[response] ?? '(no answer)';
+  if (Array.isArray(response)) return response.map((step, i) => `${i + 1}. ${step}`).join(' ');
+  return String(response) || '(no answer)';
+};
+
+// The follow-up names what the student got wrong but never includes the answer key.
+export const buildQuizFollowUpPrompt = (quiz: Quiz): string | null => {
+  const missed = (quiz.results || []).filter(r => !r.correct);
+  if (missed.length === 0) return null;
+
+  const lines = missed.map(result => {
+    const question = quiz.questions.find(q => q.id === result.questionId)!;
+    return `- "${question.prompt}" — I answered: ${describeResponse(question, result.response)}`;
+  });
+
+  return `I just took the quiz on "${quiz.topic}" and scored ${Math.round((quiz.score || 0) * 100)}%. I got these wrong:\n${lines.join('\n')}\n\nDon't tell me the correct answers. Ask me one Socratic question that helps me find the flaw in my reasoning for the first one.`;
+};
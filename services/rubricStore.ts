@@ -0,0 +1,35 @@
+import { Rubric } from "../types";
+import { openDatabase, promisify, RUBRICS_STORE, transactionDone } from "./database";
+
+const ACTIVE_RUBRIC_KEY = 'encrypt-active-rubric';
+
+export const createRubricId = () => `rubric-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+
+export const createCriterionId = () => `criterion-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+
+export const getActiveRubricId = () => localStorage.getItem(ACTIVE_RUBRIC_KEY);
+
+export const setActiveRubricId = (id: string) => localStorage.setItem(ACTIVE_RUBRIC_KEY, id);
+
+export const listRubrics = async (): Promise<Rubric[]> => {
+  const db = await openDatabase();
+  const tx = db.transaction(RUBRICS_STORE, 'readonly');
+  const rubrics = await promisify(tx.objectStore(RUBRICS_STORE).getAll()) as Rubric[];
+  return rubrics.sort((a, b) => a.createdAt - b.createdAt);
+};
+
+export const saveRubric = async (rubric: Rubric): Promise<Rubric> => {
+  const db = await openDatabase();
+  const tx = db.transaction(RUBRICS_STORE, 'readwrite');
+  const record = { ...rubric, updatedAt: Date.now() };
+  tx.objectStore(RUBRICS_STORE).put(record);
+  await transactionDone(tx);
+  return record;
+};
+
+export const deleteRubric = async (id: string): Promise<void> => {
+  const db = await openDatabase();
+  const tx = db.transaction(RUBRICS_STORE, 'readwrite');
+  tx.objectStore(RUBRICS_STORE).delete(id);
+  await transactionDone(tx);
+};
@@ -0,0 +1,131 @@
+import { StudySession, SessionSummary, VisualItem } from "../types";
+import { ASSETS_STORE, openDatabase, promisify, SESSIONS_STORE, transactionDone } from "./database";
+
+// Image items are persisted as Blobs in their own store, so the session record only keeps a reference.
+interface StoredVisualItem extends VisualItem {
+  assetId?: string;
+}
+
+interface StoredSession extends Omit<StudySession, 'visualItems'> {
+  visualItems: StoredVisualItem[];
+}
+
+interface StoredAsset {
+  id: string;
+  sessionId: string;
+  blob: Blob;
+}
+
+// Asset ids already written to disk, so autosave never re-encodes the same image twice.
+const persistedAssets = new Set<string>();
+
+const dataUrlToBlob = (dataUrl: string): Blob => {
+  const [header, data] = dataUrl.split(',', 2);
+  const mimeType = header.match(/^data:([^;]+)/)?.[1] || 'application/octet-stream';
+  const binary = atob(data);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+  return new Blob([bytes], { type: mimeType });
+};
+
+const blobToDataUrl = (blob: Blob): Promise<string> =>
+  new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(blob);
+  });
+
+const toSummary = (session: StoredSession | StudySession): SessionSummary => ({
+  id: session.id,
+  name: session.name,
+  createdAt: session.createdAt,
+  updatedAt: session.updatedAt,
+  messageCount: session.messages.filter(m => m.role === 'user').length,
+});
+
+export const createSessionId = () => `session-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+
+export const listSessions = async (): Promise<SessionSummary[]> => {
+  const db = await openDatabase();
+  const tx = db.transaction(SESSIONS_STORE, 'readonly');
+  const sessions = await promisify(tx.objectStore(SESSIONS_STORE).getAll()) as StoredSession[];
+  return sessions.map(toSummary).sort((a, b) => b.updatedAt - a.updatedAt);
+};
+
+export const saveSession = async (session: StudySession): Promise<SessionSummary> => {
+  const db = await openDatabase();
+  const tx = db.transaction([SESSIONS_STORE, ASSETS_STORE], 'readwrite');
+  const assets = tx.objectStore(ASSETS_STORE);
+  const written: string[] = [];
+
+  const visualItems: StoredVisualItem[] = session.visualItems.map(item => {
+    if (item.type !== 'image' || !item.content.startsWith('data:')) return item;
+    if (!persistedAssets.has(item.id)) {
+      const asset: StoredAsset = { id: item.id, sessionId: session.id, blob: dataUrlToBlob(item.content) };
+      assets.put(asset);
+      written.push(item.id);
+    }
+    return { ...item, content: '', assetId: item.id };
+  });
+
+  // Images removed from the session since the last save leave their blobs behind otherwise.
+  const kept = new Set(visualItems.flatMap(item => item.assetId ? [item.assetId] : []));
+  const orphaned = (await promisify(assets.index('sessionId').getAllKeys(session.id))).map(String).filter(id => !kept.has(id));
+  orphaned.forEach(id => assets.delete(id));
+
+  const stored: StoredSession = { ...session, visualItems };
+  tx.objectStore(SESSIONS_STORE).put(stored);
+  await transactionDone(tx);
+  written.forEach(id => persistedAssets.add(id));
+  orphaned.forEach(id => persistedAssets.delete(id));
+  return toSummary(stored);
+};
+
+export const loadSession = async (id: string): Promise<StudySession | null> => {
+  const db = await openDatabase();
+  const tx = db.transaction([SESSIONS_STORE, ASSETS_STORE], 'readonly');
+  const stored = await promisify(tx.objectStore(SESSIONS_STORE).get(id)) as StoredSession | undefined;
+  if (!stored) return null;
+
+  // Read every blob before decoding: FileReader yields to the event loop, which would close the transaction.
+  const assets = await promisify(tx.objectStore(ASSETS_STORE).index('sessionId').getAll(id)) as StoredAsset[];
+  const blobs = new Map(assets.map(asset => [asset.id, asset.blob]));
+
+  const visualItems: VisualItem[] = [];
+  for (const { assetId, ...item } of stored.visualItems) {
+    if (!assetId) {
+      visualItems.push(item);
+      continue;
+    }
+    const blob = blobs.get(assetId);
+    if (!blob) continue;
+    persistedAssets.add(assetId);
+    visualItems.push({ ...item, content: await blobToDataUrl(blob) });
+  }
+
+  return { ...stored, visualItems };
+};
+
+export const renameSession = async (id: string, name: string): Promise<void> => {
+  const db = await openDatabase();
+  const tx = db.transaction(SESSIONS_STORE, 'readwrite');
+  const store = tx.objectStore(SESSIONS_STORE);
+  const stored = await promisify(store.get(id)) as StoredSession | undefined;
+  if (!stored) return;
+  store.put({ ...stored, name, updatedAt: Date.now() });
+  await transactionDone(tx);
+};
+
+export const deleteSession = async (id: string): Promise<void> => {
+  const db = await openDatabase();
+  const tx = db.transaction([SESSIONS_STORE, ASSETS_STORE], 'readwrite');
+  tx.objectStore(SESSIONS_STORE).delete(id);
+  const assetIndex = tx.objectStore(ASSETS_STORE).index('sessionId');
+  const assetKeys = await promisify(assetIndex.getAllKeys(id));
+  for (const key of assetKeys) {
+    tx.objectStore(ASSETS_STORE).delete(key);
+    persistedAssets.delete(String(key));
+  }
+  await transactionDone(tx);
+};
@@ -0,0 +1,124 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { detectCheatRequest, isSubstantiveAttempt } from './solutionGuard';
+
+// Sentences students actually send, per language: `blocked` asks for the finished solution, `allowed` asks
+// for help with their own work or for an explanation.
+const CASES: { language: string; blocked: string[]; allowed: string[] }[] = [
+  {
+    language: 'English',
+    blocked: [
+      'Give me the full code for this.',
+      'Can you write the solution for me?',
+      'give me the code, no hint needed, just write it',
+      'write the solution, and explain why',
+      'Just solve it for me.',
+      'I want the complete answer.',
+      'Send me the answers to all five questions.',
+      'Could you show how the full program should look, no explanation please?',
+    ],
+    allowed: [
+      'Do you think my solution is right?',
+      'How do I approach this assignment?',
+      "I'm trying to solve this, my answer is 5. Is that correct?",
+      'What do I need to complete first?',
+      'I tried to write the code myself, can you check it?',
+      'Can you show me where my program goes wrong?',
+      'Can you explain the logic behind this program?',
+      'Show me a diagram of how this code flows.',
+      'Give me a hint.',
+      'Should I write the program in Python or Java?',
+      "I'll write the code tonight and send it to you.",
+    ],
+  },
+  {
+    language: 'Hinglish',
+    blocked: ['Bhai pura code de do', 'Is question ka answer batao', 'solution likh do jaldi'],
+    allowed: ['Code ka logic samjhao', 'Maine code likha hai, check karo', 'Is code mein error kyun aa raha hai?', 'code ka logic samjha ke batao'],
+  },
+  {
+    language: 'Hindi',
+    blocked: ['मुझे पूरा कोड लिख दो', 'इस सवाल का जवाब बता दो', 'पूरा हल दिखाओ'],
+    allowed: ['इस कोड का लॉजिक समझा दो', 'कोड समझा दो', 'मैंने कोड लिखा है, क्या यह सही है?', 'मुझे एक संकेत दो', 'कोड दोबारा देखो'],
+  },
+  {
+    language: 'Marathi',
+    blocked: ['मला पूर्ण कोड लिहून द्या', 'या प्रश्नाचे उत्तर सांगा'],
+    allowed: ['हा कोड समजावून सांगा', 'माझा कोड चुकतो आहे, का?'],
+  },
+  {
+    language: 'Telugu',
+    blocked: ['పూర్తి కోడ్ రాయండి', 'ఈ ప్రశ్నకు జవాబు చెప్పండి'],
+    allowed: ['ఈ కోడ్ వివరించండి', 'నాకు ఒక సూచన ఇవ్వండి'],
+  },
+  {
+    language: 'Tamil',
+    blocked: ['முழு குறியீடு எழுதுங்கள்', 'இந்த கேள்விக்கு பதில் சொல்லுங்கள்'],
+    allowed: ['நிரல் ஏன் வேலை செய்யவில்லை என்று விளக்கிச் சொல்லுங்கள்', 'எனக்கு ஒரு குறிப்பு கொடுங்கள்'],
+  },
+  {
+    language: 'Kannada',
+    blocked: ['ಪೂರ್ತಿ ಕೋಡ್ ಬರೆಯಿರಿ', 'ಈ ಪ್ರಶ್ನೆಗೆ ಉತ್ತರ ಹೇಳಿ'],
+    allowed: ['ಈ ಕೋಡ್ ಅನ್ನು ವಿವರಿಸಿ ಹೇಳಿ', 'ನನಗೆ ಒಂದು ಸುಳಿವು ಕೊಡಿ'],
+  },
+  {
+    language: 'Malayalam',
+    blocked: ['മുഴുവൻ കോഡ് എഴുതി തരൂ', 'ഈ ചോദ്യത്തിന്റെ ഉത്തരം പറയൂ'],
+    allowed: ['ഈ കോഡ് വിശദീകരിച്ച് തരൂ', 'എനിക്ക് ഒരു സൂചന തരൂ'],
+  },
+  {
+    language: 'Gujarati',
+    blocked: ['આખો કોડ લખી આપો', 'આ પ્રશ્નનો જવાબ કહો'],
+    allowed: ['આ કોડ મને સમજાવીને બતાવો', 'મને એક સંકેત આપો'],
+  },
+  {
+    language: 'Bengali',
+    blocked: ['পুরো কোড লিখে দাও', 'এই প্রশ্নের উত্তর বলো'],
+    allowed: ['এই কোডটা বুঝিয়ে দাও', 'আমাকে একটা ইঙ্গিত দিন'],
+  },
+  {
+    language: 'Punjabi',
+    blocked: ['ਪੂਰਾ ਕੋਡ ਲਿਖ ਦਿਓ', 'ਇਸ ਸਵਾਲ ਦਾ ਜਵਾਬ ਦੱਸੋ'],
+    allowed: ['ਇਹ ਕੋਡ ਸਮਝਾ ਦਿਓ', 'ਮੈਨੂੰ ਇੱਕ ਸੰਕੇਤ ਦਿਓ'],
+  },
+  {
+    language: 'Odia',
+    blocked: ['ସମ୍ପୂର୍ଣ୍ଣ କୋଡ୍ ଲେଖନ୍ତୁ', 'ଏହି ପ୍ରଶ୍ନର ଉତ୍ତର କୁହନ୍ତୁ'],
+    allowed: ['ଏହି କୋଡ୍ ବୁଝାଇ ଦିଅନ୍ତୁ', 'ମୋତେ ଗୋଟିଏ ସୂଚନା ଦିଅନ୍ତୁ'],
+  },
+  {
+    language: 'Urdu',
+    blocked: ['مجھے پورا کوڈ لکھ دو', 'اس سوال کا جواب بتائیں'],
+    allowed: ['یہ کوڈ سمجھا دیں', 'کوڈ میں غلطی کہاں ہے؟'],
+  },
+];
+
+describe('detectCheatRequest', () => {
+  for (const { language, blocked, allowed } of CASES) {
+    describe(language, () => {
+      for (const text of blocked) {
+        it(`blocks "${text}"`, () => assert.equal(detectCheatRequest(text), language));
+      }
+      for (const text of allowed) {
+        it(`allows "${text}"`, () => assert.equal(detectCheatRequest(text), null));
+      }
+    });
+  }
+});
+
+describe('isSubstantiveAttempt', () => {
+  const attempts = [
+    'My answer is 12 because the loop runs four times and adds three each time.',
+    'def search(xs, t):\n    lo, hi = 0, len(xs) - 1',
+    'x = 3, so 2x + 1 = 7',
+    'I think the base case is wrong because it never reaches an empty list here.',
+  ];
+  const notAttempts = [
+    'I have no idea how to even start this one, sorry',
+    'Please just tell me the answer to this one, I really need it for tomorrow.',
+    'Can you show me where my program goes wrong, I am completely lost here?',
+    'ok',
+  ];
+  for (const text of attempts) it(`counts "${text}"`, () => assert.equal(isSubstantiveAttempt(text), true));
+  for (const text of notAttempts) it(`does not count "${text}"`, () => assert.equal(isSubstantiveAttempt(text), false));
+});
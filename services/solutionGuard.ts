@@ -0,0 +1,254 @@
+import { MIN_ATTEMPT_LENGTH, MIN_PROOF_STEPS, MIN_SOLUTION_CODE_LINES } from "../constants";
+import { GuardIntervention, GuardInterventionKind, Message, SolutionLeakKind } from "../types";
+import { isDiagramBlock } from "./diagramService";
+
+// --- INPUT SIDE ---
+
+// Each language has two patterns. `request` is request-style wording: a "give / write / tell / show" verb right
+// next to a solution-like noun ("write the full code", "कोड लिख दो"). `loose` is the same words anywhere in the
+// message ("show me where my program goes wrong"), which is only a borderline match. Indic scripts have no \b
+// support in JS regexes, so those bound words with Unicode letter classes instead.
+interface CheatPattern {
+  language: string;
+  request: RegExp;
+  loose: RegExp;
+}
+
+// Verb stems for "explain" / "make me understand" in the Indic languages.
+const INDIC_LEARNING = 'समझा|समजाव|వివరించ|விளக்க|ವಿವರಿಸ|വിശദീകരി|સમજાવ|ব্যাখ্যা|বুঝিয়ে|ਸਮਝਾ|ବୁଝା|سمجھا|وضاحت';
+
+// In these languages the noun comes first and the verb last. Nouns take case endings and "explain and give"
+// is a common way to ask for an explanation, so a learning verb between the two never makes a request.
+const nounFirst = (language: string, nouns: string[], verbs: string[]): CheatPattern => {
+  const noun = `(?<![\\p{L}\\p{M}])(?:${nouns.join('|')})[\\p{L}\\p{M}]*`;
+  const verb = `(?:${verbs.join('|')})(?![\\p{L}\\p{M}])`;
+  return {
+    language,
+    request: new RegExp(`${noun}(?:\\s+(?!${INDIC_LEARNING})\\S+)?\\s*${verb}`, 'u'),
+    loose: new RegExp(`${noun}.*${verb}`, 'u'),
+  };
+};
+
+const CHEAT_PATTERNS: CheatPattern[] = [
+  {
+    language: 'English',
+    request: /\b(give|write|show|send|tell|provide|share)\s+(me\s+|us\s+)?(the\s+|your\s+|an?\s+)?((full|complete|whole|entire|final|working|correct)\s+)*(code|answers?|solutions?|program)\b|\b(need|want)\s+(the\s+|your\s+)?(full|complete|whole|entire|final|working)\s+(code|answers?|solutions?|program)\b|\b(do|solve|finish)\s+(it|this|that|my\s+\w+)\s+for\s+me\b/i,
+    loose: /\b(give|write|show|send|tell|provide)\b.*\b(code|answers?|solutions?|program)\b/i,
+  },
+  {
+    language: 'Hinglish',
+    request: /\b(code|answer|solution|program|jawab|uttar)\b(\s+\w+)?\s+(de\s*do|dedo|likh\s*do|likhdo|bata\s*do|batao|bhejo|dikhao)\b/i,
+    loose: /\b(code|answer|solution|program|jawab|uttar)\b.*\b(de\s*do|dedo|likh\s*do|likhdo|bata\s*do|batao|bhejo|dikhao)\b/i,
+  },
+  nounFirst('Hindi', ['कोड', 'उत्तर', 'जवाब', 'हल', 'समाधान', 'प्रोग्राम'], ['दीजिए', 'दे दो', 'लिख दो', 'लिखो', 'बताओ', 'बताइए', 'दिखाओ', 'दो']),
+  nounFirst('Marathi', ['कोड', 'उत्तर', 'सोल्यूशन', 'प्रोग्राम'], ['लिहून द्या', 'लिहा', 'सांगा', 'दाखवा', 'द्या']),
+  nounFirst('Telugu', ['కోడ్', 'సమాధానం', 'జవాబు', 'పరిష్కారం', 'ప్రోగ్రామ్'], ['ఇవ్వండి', 'ఇవ్వు', 'రాయండి', 'రాయి', 'చెప్పండి', 'చెప్పు', 'చూపించు']),
+  nounFirst('Tamil', ['கோட்', 'குறியீடு', 'பதில்', 'விடை', 'தீர்வு', 'நிரல்'], ['கொடுங்கள்', 'கொடு', 'தாருங்கள்', 'எழுதுங்கள்', 'எழுது', 'சொல்லுங்கள்', 'சொல்லு', 'காட்டு', 'தா']),
+  nounFirst('Kannada', ['ಕೋಡ್', 'ಉತ್ತರ', 'ಪರಿಹಾರ', 'ಪ್ರೋಗ್ರಾಂ'], ['ಕೊಡಿ', 'ಕೊಡು', 'ಬರೆಯಿರಿ', 'ಬರೆ', 'ಹೇಳಿ', 'ಹೇಳು', 'ತೋರಿಸು']),
+  nounFirst('Malayalam', ['കോഡ്', 'ഉത്തരം', 'പരിഹാരം', 'പ്രോഗ്രാം'], ['തരൂ', 'തരു', 'എഴുതൂ', 'എഴുതു', 'പറയൂ', 'കാണിക്കൂ', 'താ']),
+  nounFirst('Gujarati', ['કોડ', 'જવાબ', 'ઉકેલ', 'પ્રોગ્રામ'], ['લખી આપો', 'આપો', 'લખો', 'કહો', 'બતાવો', 'આપ']),
+  nounFirst('Bengali', ['কোড', 'উত্তর', 'সমাধান', 'প্রোগ্রাম'], ['লিখে দাও', 'দাও', 'দিন', 'লেখো', 'লিখুন', 'বলো', 'বলুন', 'দেখাও']),
+  nounFirst('Punjabi', ['ਕੋਡ', 'ਜਵਾਬ', 'ਉੱਤਰ', 'ਹੱਲ', 'ਪ੍ਰੋਗਰਾਮ'], ['ਲਿਖ ਦਿਓ', 'ਦਿਓ', 'ਦੇਵੋ', 'ਲਿਖੋ', 'ਦੱਸੋ', 'ਵਿਖਾਓ']),
+  nounFirst('Odia', ['କୋଡ୍', 'ଉତ୍ତର', 'ସମାଧାନ', 'ପ୍ରୋଗ୍ରାମ'], ['ଦିଅନ୍ତୁ', 'ଦିଅ', 'ଲେଖନ୍ତୁ', 'ଲେଖ', 'କୁହନ୍ତୁ', 'କୁହ', 'ଦେଖାଅ']),
+  nounFirst('Urdu', ['کوڈ', 'جواب', 'حل', 'پروگرام'], ['لکھ دو', 'لکھیں', 'لکھو', 'دیجیے', 'دیں', 'بتائیں', 'بتاؤ', 'دکھاؤ', 'دو']),
+];
+
+// Wording that insists on the finished thing ("just write it", "no hints", "the full code", "पूरा").
+const INSISTENCE = /\bjust\s+(write|give|send|do|tell|show)\b|\b(no|without(\s+any)?)\s+(hints?|explanations?|explaining)\b|\bdon'?t\s+(explain|give\s+(me\s+)?(a\s+)?hints?)\b|\bcopy[\s-]?paste\b|\b(full|complete|whole|entire)\s+(code|answers?|solutions?|program)\b|\b(pura|poora|seedha)\b|पूरा|पूर्ण|మొత్తం|முழு|ಪೂರ್ತಿ|ಸಂಪೂರ್ಣ|മുഴുവൻ|પૂરો|આખો|পুরো|সম্পূর্ণ|ਪੂਰਾ|ସମ୍ପୂର୍ଣ୍ଣ|پورا|مکمل/gi;
+
+const LEARNING_INTENT = new RegExp(`\\b(logic|explain|diagram|hint|understand|reasoning|why|samjha\\w*)\\b|${INDIC_LEARNING}`, 'i');
+
+// "I tried to write the code", "should I write the program": the student describing their own work.
+const OWN_WORK = /\b(i|we)('ll|'d|\s+(will|would|can|could|should|must|might|shall))\s+$|\b(can|could|should|shall|may)\s+(i|we)\s+$|\b(i|we)\b((?!\byou\b).)*\bto\s+$/i;
+
+const REQUEST_SCORE = 2;
+const BORDERLINE_SCORE = 1;
+const BLOCK_SCORE = 2;
+
+const isRequest = (text: string, pattern: RegExp) =>
+  [...text.matchAll(new RegExp(pattern.source, `${pattern.flags}g`))]
+    .some(match => !OWN_WORK.test(text.slice(0, match.index).split(/[.!?;,\n]/).pop()!));
+
+// Returns the language a cheat request was detected in, or null when the message is fine. A request always
+// blocks. A borderline match blocks only when it also insists on the finished answer; learning words such as
+// "explain" or "hint" lower its score, except where they are being refused ("no hint needed").
+export const detectCheatRequest = (text: string): string | null => {
+  const insistence = text.search(INSISTENCE) >= 0 ? 1 : 0;
+  const learning = LEARNING_INTENT.test(text.replace(INSISTENCE, ' ')) ? 1 : 0;
+
+  for (const { language, request, loose } of CHEAT_PATTERNS) {
+    const score = isRequest(text, request) ? REQUEST_SCORE + insistence
+      : loose.test(text) ? BORDERLINE_SCORE + insistence - learning
+      : 0;
+    if (score >= BLOCK_SCORE) return language;
+  }
+  return null;
+};
+
+// --- OUTPUT SIDE ---
+
+interface CodeBlock {
+  lang: string;
+  start: number; // index of the opening fence line
+  end: number; // index of the closing fence line, or lines.length while still streaming
+}
+
+const findCodeBlocks = (lines: string[]): CodeBlock[] => {
+  const blocks: CodeBlock[] = [];
+  let open: { fence: string; lang: string; start: number } | null = null;
+
+  lines.forEach((line, index) => {
+    const fence = line.match(/^\s*(`{3,}|~{3,})\s*([^\s`]*)/);
+    if (!open) {
+      if (fence) open = { fence: fence[1], lang: fence[2].toLowerCase(), start: index };
+      return;
+    }
+    if (fence && fence[1][0] === open.fence[0] && fence[1].length >= open.fence.length && !fence[2]) {
+      blocks.push({ lang: open.lang, start: open.start, end: index });
+      open = null;
+    }
+  });
+  // An unclosed block is still being streamed; judge what has arrived so far.
+  if (open) blocks.push({ lang: open!.lang, start: open!.start, end: lines.length });
+  return blocks;
+};
+
+const codeLineIndexes = (lines: string[]) => {
+  const indexes = new Set<number>();
+  for (const block of findCodeBlocks(lines)) {
+    for (let i = block.start; i <= Math.min(block.end, lines.length - 1); i++) indexes.add(i);
+  }
+  return indexes;
+};
+
+const HASH_COMMENT_LANGS = new Set(['python', 'py', 'ruby', 'rb', 'bash', 'sh', 'shell', 'r', 'perl', 'yaml', 'toml']);
+const DASH_COMMENT_LANGS = new Set(['sql', 'lua', 'haskell', 'hs']);
+const NON_CODE_LANGS = new Set(['text', 'txt', 'markdown', 'md', 'output', 'console', 'json', 'csv', 'math', 'latex', 'tex']);
+
+const commentPrefix = (lang: string, body: string[]) => {
+  if (HASH_COMMENT_LANGS.has(lang) || (!lang && body.some(line => /^\s*def\s+\w+\(.*\)\s*:/.test(line)))) return '#';
+  if (DASH_COMMENT_LANGS.has(lang)) return '--';
+  return '//';
+};
+
+const isCommentLine = (line: string) => /^\s*(\/\/|#|--|\/\*|\*|<!--)/.test(line);
+
+const DEFINITION = /^\s*(export\s+)?(async\s+)?(def|function|fn|func|fun|class|struct|impl|public|private|protected|static|int|void|const\s+\w+\s*=\s*(async\s*)?\(|let\s+\w+\s*=\s*(async\s*)?\()|\bmain\s*\(/;
+const EFFECT = /\b(print|println|printf|console\.log|System\.out|cout|return|yield|puts|echo)\b/;
+
+const looksLikeSolution = (lang: string, body: string[]) => {
+  if (NON_CODE_LANGS.has(lang)) return false;
+  const code = body.filter(line => line.trim() && !isCommentLine(line));
+  if (code.length < MIN_SOLUTION_CODE_LINES) return false;
+  return code.some(line => DEFINITION.test(line)) || code.some(line => EFFECT.test(line));
+};
+
+const CONTROL_HEADER = /^(\s*\}?\s*)(else\s+if|elif|if|while|for|foreach|until|switch|when|match)\b.*?(\s*(\{|:|then|do))?\s*$/;
+
+// Keeps the shape of the code (signatures, control flow, nesting) and blanks out the logic the student should write.
+const toSkeleton = (lang: string, body: string[]): string[] => {
+  const comment = commentPrefix(lang, body);
+  const skeleton: string[] = [];
+  let elided = false;
+
+  for (const line of body) {
+    const indent = line.match(/^\s*/)![0];
+    const trimmed = line.trim();
+    const control = line.match(CONTROL_HEADER);
+    let kept: string | null = null;
+
+    if (!trimmed || isCommentLine(line)) kept = trimmed ? line : '';
+    else if (DEFINITION.test(line)) kept = line;
+    else if (control) kept = `${control[1]}${control[2]} ___${control[3] || ''}`;
+    else if (/^(\}|end|fi|done|esac)\b[;)]*$|^[\]})]+;?$/.test(trimmed) || /^(else|try|finally|catch\b.*|except\b.*)\s*[:{]?$/.test(trimmed.replace(/^\}\s*/, ''))) kept = line;
+    else if (/^return\b/.test(trimmed)) kept = `${indent}return ___${trimmed.endsWith(';') ? ';' : ''}`;
+
+    if (kept !== null) {
+      skeleton.push(kept);
+      elided = false;
+    } else if (!elided) {
+      skeleton.push(`${indent}${comment} TODO: your step here`);
+      elided = true;
+    }
+  }
+  return skeleton;
+};
+
+const PROOF_START = /^\s*(#{1,6}\s*|\*\*|_)?(proof|demonstration)\b/i;
+const PROOF_END = /∎|□|\bQ\.?\s?E\.?\s?D\b|hence proved|this completes the proof|which (was|is) what we (wanted|needed) to (show|prove)|as required\.?\s*$/i;
+
+// Finds "Proof … ∎" spans outside code blocks that are long enough to be a worked solution.
+const redactProofs = (lines: string[]): boolean => {
+  let insideCode = codeLineIndexes(lines);
+  let redacted = false;
+  for (let start = 0; start < lines.length; start++) {
+    if (insideCode.has(start) || !PROOF_START.test(lines[start])) continue;
+    let end = start;
+    while (end < lines.length && !insideCode.has(end) && !PROOF_END.test(lines[end])) end++;
+    if (end >= lines.length || insideCode.has(end)) continue;
+
+    // A one-line "Proof: ... ∎" keeps its statement on the heading line, so count steps after it.
+    const steps = lines.slice(start + 1, end + 1).filter(line => line.trim());
+    if (steps.length < MIN_PROOF_STEPS) continue;
+
+    const placeholder = steps.map((_, i) => i === steps.length - 1
+      ? `${i + 1}. ___ _(conclude: why does this establish the claim?)_`
+      : `${i + 1}. ___ _(what follows, and which fact justifies it?)_`);
+    lines.splice(start + 1, end - start, ...placeholder);
+    redacted = true;
+    start += placeholder.length;
+    insideCode = codeLineIndexes(lines);
+  }
+  return redacted;
+};
+
+export interface GuardResult {
+  text: string;
+  kinds: SolutionLeakKind[];
+}
+
+// Inspects a tutor reply (complete or mid-stream) and swaps any complete solution for a skeleton.
+export const guardResponse = (text: string): GuardResult => {
+  const lines = text.split('\n');
+  const kinds = new Set<SolutionLeakKind>();
+  const blocks = findCodeBlocks(lines);
+
+  // Rewrite from the last block backwards so earlier line indexes stay valid.
+  for (const block of [...blocks].reverse()) {
+    const body = lines.slice(block.start + 1, block.end);
+    if (isDiagramBlock(block.lang, body.join('\n')) || !looksLikeSolution(block.lang, body)) continue;
+    lines.splice(block.start + 1, body.length, ...toSkeleton(block.lang, body));
+    kinds.add('code');
+  }
+
+  if (redactProofs(lines)) kinds.add('proof');
+
+  return kinds.size > 0 ? { text: lines.join('\n'), kinds: [...kinds] } : { text, kinds: [] };
+};
+
+// A redacted solution unlocks once the student has posted their own attempt after it.
+export const hasAttemptAfter = (messages: Message[], messageId: string) => {
+  const index = messages.findIndex(m => m.id === messageId);
+  return index >= 0 && messages.slice(index + 1).some(m => m.role === 'user' && m.isAttempt);
+};
+
+// Signs of the student's own work: code, worked steps, or an answer they propose in their own words.
+const CODE_LIKE = /```|`[^`\n]+`|[=!<>]=|=>|[{}]|\w\s*\([^)]*\)\s*[:{;]|^\s*(def|function|return|for|while|if|print)\b/m;
+const WORKING = /\d\s*[-+*/^×÷=<>≤≥]\s*\(?\d|\b[a-z]\w*\s*=\s*[\w(-]/i;
+const PROPOSAL = /\b(my\s+(answer|approach|solution|code|idea|guess|logic)|i\s+(think|got|tried|wrote|believe|would|did|used)|it\s+(should|would|must)\s+be|because|so\s+the\s+answer|maine|mera\s+(answer|jawab|code))\b|मेरा|मैंने|मुझे लगता/i;
+
+// Whether a typed message is the student's own attempt, which unlocks earlier redacted solutions. Anything the
+// input guard matches, even as a borderline match it let through, never counts.
+export const isSubstantiveAttempt = (text: string) => {
+  if (CHEAT_PATTERNS.some(({ request, loose }) => request.test(text) || loose.test(text))) return false;
+  if (CODE_LIKE.test(text) || WORKING.test(text)) return true;
+  return text.trim().length >= MIN_ATTEMPT_LENGTH && PROPOSAL.test(text);
+};
+
+export const createIntervention = (kind: GuardInterventionKind, detail: string, messageId?: string): GuardIntervention => ({
+  id: `guard-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+  kind,
+  timestamp: Date.now(),
+  messageId,
+  detail,
+});
@@ -0,0 +1,188 @@
+import JSZip from 'jszip';
+import { MAX_ARCHIVE_BYTES, MAX_INLINE_FILE_BYTES, MAX_SUBMISSION_BYTES, MAX_SUBMISSION_FILES, MAX_TEXT_FILE_BYTES } from "../constants";
+import { SubmissionAttachment, SubmissionFile, SubmissionFileKind, SubmissionIssue, SubmittedWork } from "../types";
+import { ChatPart } from "./providers";
+
+const IMAGE_TYPES: Record<string, string> = {
+  png: 'image/png',
+  jpg: 'image/jpeg',
+  jpeg: 'image/jpeg',
+  webp: 'image/webp',
+  heic: 'image/heic',
+  heif: 'image/heif',
+};
+
+const SOURCE_EXTENSIONS = [
+  'txt', 'md', 'py', 'js', 'jsx', 'ts', 'tsx', 'java', 'c', 'h', 'cpp', 'hpp', 'cc', 'cs', 'go', 'rs', 'rb', 'php',
+  'kt', 'swift', 'scala', 'sql', 'sh', 'r', 'm', 'hs', 'lua', 'pl', 'dart', 'html', 'css', 'json', 'xml', 'yaml', 'yml',
+  'csv', 'tex', 'ipynb', 'pseudo',
+];
+
+// Value for the file input's accept attribute.
+export const ACCEPTED_SUBMISSION_TYPES = [
+  ...Object.keys(IMAGE_TYPES), 'pdf', 'zip', ...SOURCE_EXTENSIONS,
+].map(ext => `.${ext}`).join(',');
+
+type FileCategory = SubmissionFileKind | 'archive';
+
+const extensionOf = (name: string) => name.includes('.') ? name.split('.').pop()!.toLowerCase() : '';
+
+const classify = (name: string, mimeType: string): FileCategory | null => {
+  const ext = extensionOf(name);
+  if (IMAGE_TYPES[ext] || Object.values(IMAGE_TYPES).includes(mimeType)) return 'image';
+  if (ext === 'pdf' || mimeType === 'application/pdf') return 'pdf';
+  if (ext === 'zip' || mimeType === 'application/zip' || mimeType === 'application/x-zip-compressed') return 'archive';
+  if (SOURCE_EXTENSIONS.includes(ext) || mimeType.startsWith('text/')) return 'text';
+  return null;
+};
+
+const createFileId = () => `file-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+
+export const formatBytes = (bytes: number) =>
+  bytes >= 1024 * 1024 ? `${(bytes / (1024 * 1024)).toFixed(1)}MB` : `${Math.max(1, Math.round(bytes / 1024))}KB`;
+
+const readAsBase64 = (file: Blob) => new Promise<string>((resolve, reject) => {
+  const reader = new FileReader();
+  reader.onload = () => resolve((reader.result as string).split(',')[1] || '');
+  reader.onerror = () => reject(reader.error);
+  reader.readAsDataURL(file);
+});
+
+// A NUL character almost always means a binary file that happens to have a source-like extension.
+const looksBinary = (text: string) => text.includes('\u0000');
+
+const mimeTypeFor = (name: string, kind: SubmissionFileKind, fallback: string) => {
+  if (kind === 'image') return IMAGE_TYPES[extensionOf(name)] || fallback || 'image/png';
+  if (kind === 'pdf') return 'application/pdf';
+  return 'text/plain';
+};
+
+const checkSize = (name: string, kind: SubmissionFileKind, size: number): SubmissionIssue | null => {
+  const limit = kind === 'text' ? MAX_TEXT_FILE_BYTES : MAX_INLINE_FILE_BYTES;
+  return size > limit ? { kind: kind === 'text' ? 'sourceTooLarge' : 'inlineTooLarge', name, size: formatBytes(size), limit: formatBytes(limit) } : null;
+};
+
+const unpackArchive = async (archive: File, errors: SubmissionIssue[]): Promise<SubmissionFile[]> => {
+  let zip: JSZip;
+  try {
+    zip = await JSZip.loadAsync(archive);
+  } catch {
+    errors.push({ kind: 'archiveUnreadable', name: archive.name });
+    return [];
+  }
+
+  const files: SubmissionFile[] = [];
+  let ignored = 0;
+  for (const entry of Object.values(zip.files)) {
+    if (entry.dir) continue;
+    const baseName = entry.name.split('/').pop() || '';
+    if (entry.name.startsWith('__MACOSX/') || baseName.startsWith('.')) continue;
+
+    const name = `${archive.name}/${entry.name}`;
+    const kind = classify(baseName, '');
+    if (!kind || kind === 'archive') { ignored++; continue; }
+
+    if (kind === 'text') {
+      const text = await entry.async('string');
+      if (looksBinary(text)) { ignored++; continue; }
+      const sizeError = checkSize(name, kind, text.length);
+      if (sizeError) { errors.push(sizeError); continue; }
+      files.push({ id: createFileId(), name, kind, mimeType: 'text/plain', size: text.length, text });
+    } else {
+      const data = await entry.async('base64');
+      const size = Math.floor(data.length * 3 / 4);
+      const sizeError = checkSize(name, kind, size);
+      if (sizeError) { errors.push(sizeError); continue; }
+      files.push({ id: createFileId(), name, kind, mimeType: mimeTypeFor(baseName, kind, ''), size, data });
+    }
+  }
+
+  if (files.length === 0 && ignored === 0) errors.push({ kind: 'archiveEmpty', name: archive.name });
+  else if (ignored > 0) errors.push({ kind: 'archiveSkipped', name: archive.name, count: ignored });
+  return files;
+};
+
+const readFile = async (file: File, errors: SubmissionIssue[]): Promise<SubmissionFile[]> => {
+  const kind = classify(file.name, file.type);
+  if (!kind) {
+    errors.push({ kind: 'unsupported', name: file.name });
+    return [];
+  }
+  if (kind === 'archive') {
+    if (file.size > MAX_ARCHIVE_BYTES) {
+      errors.push({ kind: 'archiveTooLarge', name: file.name, size: formatBytes(file.size), limit: formatBytes(MAX_ARCHIVE_BYTES) });
+      return [];
+    }
+    return unpackArchive(file, errors);
+  }
+
+  const sizeError = checkSize(file.name, kind, file.size);
+  if (sizeError) {
+    errors.push(sizeError);
+    return [];
+  }
+  if (kind === 'text') {
+    const text = await file.text();
+    if (looksBinary(text)) {
+      errors.push({ kind: 'notText', name: file.name });
+      return [];
+    }
+    return [{ id: createFileId(), name: file.name, kind, mimeType: 'text/plain', size: file.size, text }];
+  }
+  return [{ id: createFileId(), name: file.name, kind, mimeType: mimeTypeFor(file.name, kind, file.type), size: file.size, data: await readAsBase64(file) }];
+};
+
+// Reads newly picked files and adds them to the pending submission, enforcing the count and total size limits.
+export const addSubmissionFiles = async (incoming: File[], current: SubmissionFile[]): Promise<{ files: SubmissionFile[]; errors: SubmissionIssue[] }> => {
+  const errors: SubmissionIssue[] = [];
+  const files = [...current];
+  let total = current.reduce((sum, f) => sum + f.size, 0);
+
+  for (const file of incoming) {
+    for (const read of await readFile(file, errors)) {
+      if (files.some(f => f.name === read.name && f.size === read.size)) continue;
+      if (files.length >= MAX_SUBMISSION_FILES) {
+        errors.push({ kind: 'tooManyFiles', name: read.name, max: MAX_SUBMISSION_FILES });
+        continue;
+      }
+      if (total + read.size > MAX_SUBMISSION_BYTES) {
+        errors.push({ kind: 'overTotal', name: read.name, limit: formatBytes(MAX_SUBMISSION_BYTES) });
+        continue;
+      }
+      files.push(read);
+      total += read.size;
+    }
+  }
+  return { files, errors };
+};
+
+export const toAttachments = (files: SubmissionFile[]): SubmissionAttachment[] =>
+  files.map(({ name, kind, size }) => ({ name, kind, size }));
+
+// What the submission turn keeps for later turns. Images and PDFs are sent to the review only; replaying them on
+// every turn would cost far more than the conversation around them, so the turn keeps just their names.
+export const toSubmittedWork = (files: SubmissionFile[], testResults?: string): SubmittedWork => ({
+  files: files.map(file => file.kind === 'text' ? file : { ...file, data: undefined }),
+  ...(testResults ? { testResults } : {}),
+});
+
+// Source files are inlined as fenced text; images and PDFs go as inline data parts, each introduced by its name.
+export const buildSubmissionParts = (files: SubmissionFile[]): ChatPart[] => {
+  const textFiles = files.filter(f => f.kind === 'text');
+  const inlineFiles = files.filter(f => f.kind !== 'text');
+  const intro = [
+    `Review the logic in my submission (${files.length} file${files.length > 1 ? 's' : ''}).`,
+    inlineFiles.some(f => f.kind === 'image' && f.data) ? 'Images may be photos of handwritten working; read them carefully and mention anything you cannot make out.' : '',
+    ...textFiles.map(f => `--- File: ${f.name} ---\n\`\`\`${extensionOf(f.name)}\n${f.text}\n\`\`\``),
+  ].filter(Boolean).join('\n\n');
+
+  return [
+    { text: intro },
+    ...inlineFiles.flatMap((f): ChatPart[] => f.data
+      ? [
+        { text: `--- File: ${f.name} (${f.kind === 'pdf' ? 'PDF document' : 'image'}) ---` },
+        { inlineData: { mimeType: f.mimeType, data: f.data } },
+      ]
+      : [{ text: `--- File: ${f.name} (${f.kind === 'pdf' ? 'PDF document' : 'image'}, shown in the review only) ---` }]),
+  ];
+};
@@ -0,0 +1,207 @@
+import { LibraryTemplate, PackImportErrorKind, Template, TemplateCategory, TemplateDraft, TemplateSource, TemplateTests, TemplateVersion } from "../types";
+import { openDatabase, promisify, TEMPLATES_STORE, transactionDone } from "./database";
+
+const PACK_FORMAT = 'encrypt-template-pack';
+const PACK_FORMAT_VERSION = 1;
+
+// What a shared pack file contains; history travels with each template so a department keeps its provenance.
+interface TemplatePack {
+  format: typeof PACK_FORMAT;
+  formatVersion: number;
+  name: string;
+  exportedAt: number;
+  templates: Pick<LibraryTemplate, 'id' | 'title' | 'description' | 'content' | 'category' | 'tests' | 'version' | 'history'>[];
+}
+
+export interface ImportSummary {
+  added: number;
+  updated: number;
+  unchanged: number;
+  skipped: number;
+}
+
+const CATEGORIES = Object.values(TemplateCategory).filter(c => c !== TemplateCategory.ALL) as string[];
+
+export const createTemplateId = () => `tpl-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+
+const draftOf = (tpl: TemplateDraft): TemplateDraft => ({
+  title: tpl.title,
+  description: tpl.description,
+  content: tpl.content,
+  category: tpl.category,
+  tests: tpl.tests,
+});
+
+const sameDraft = (a: TemplateDraft, b: TemplateDraft) =>
+  a.title === b.title && a.description === b.description && a.content === b.content && a.category === b.category
+  && JSON.stringify(a.tests ?? null) === JSON.stringify(b.tests ?? null);
+
+const putTemplate = async (record: LibraryTemplate) => {
+  const db = await openDatabase();
+  const tx = db.transaction(TEMPLATES_STORE, 'readwrite');
+  tx.objectStore(TEMPLATES_STORE).put(record);
+  await transactionDone(tx);
+  return record;
+};
+
+const getTemplate = async (id: string) => {
+  const db = await openDatabase();
+  const tx = db.transaction(TEMPLATES_STORE, 'readonly');
+  return await promisify(tx.objectStore(TEMPLATES_STORE).get(id)) as LibraryTemplate | undefined;
+};
+
+export const listLibrary = async (): Promise<LibraryTemplate[]> => {
+  const db = await openDatabase();
+  const tx = db.transaction(TEMPLATES_STORE, 'readonly');
+  const templates = await promisify(tx.objectStore(TEMPLATES_STORE).getAll()) as LibraryTemplate[];
+  return templates.sort((a, b) => a.createdAt - b.createdAt);
+};
+
+export const createTemplate = (draft: TemplateDraft, source: TemplateSource = 'custom', id = createTemplateId()) => {
+  const now = Date.now();
+  return putTemplate({ ...draftOf(draft), id, source, version: 1, createdAt: now, updatedAt: now, history: [] });
+};
+
+// Saving an edit archives the current revision and bumps the version; saving identical content is a no-op.
+export const updateTemplate = async (id: string, draft: TemplateDraft): Promise<LibraryTemplate> => {
+  const existing = await getTemplate(id);
+  if (!existing) throw new Error(`Template ${id} no longer exists.`);
+  if (sameDraft(existing, draft)) return existing;
+
+  const archived: TemplateVersion = { ...draftOf(existing), version: existing.version, savedAt: existing.updatedAt };
+  return putTemplate({
+    ...existing,
+    ...draftOf(draft),
+    version: existing.version + 1,
+    updatedAt: Date.now(),
+    history: [...existing.history, archived],
+  });
+};
+
+// Restoring is itself a new version, so nothing in the history is ever lost.
+export const restoreTemplateVersion = async (id: string, version: number): Promise<LibraryTemplate> => {
+  const existing = await getTemplate(id);
+  const snapshot = existing?.history.find(v => v.version === version);
+  if (!existing || !snapshot) throw new Error(`Version ${version} of template ${id} was not found.`);
+  return updateTemplate(id, snapshot);
+};
+
+export const duplicateTemplate = (tpl: Template) =>
+  createTemplate({ ...draftOf(tpl), title: `${tpl.title} (copy)` });
+
+// Keeps the synthesized id so sessions that already used the template still point at it.
+export const promoteTemplate = (tpl: Template) => createTemplate(draftOf(tpl), 'promoted', tpl.id);
+
+export const deleteTemplate = async (id: string): Promise<void> => {
+  const db = await openDatabase();
+  const tx = db.transaction(TEMPLATES_STORE, 'readwrite');
+  tx.objectStore(TEMPLATES_STORE).delete(id);
+  await transactionDone(tx);
+};
+
+export const buildTemplatePack = (templates: LibraryTemplate[], name: string): string => {
+  const pack: TemplatePack = {
+    format: PACK_FORMAT,
+    formatVersion: PACK_FORMAT_VERSION,
+    name,
+    exportedAt: Date.now(),
+    templates: templates.map(({ id, title, description, content, category, tests, version, history }) => ({ id, title, description, content, category, tests, version, history })),
+  };
+  return JSON.stringify(pack, null, 2);
+};
+
+// Why a pack file could not be imported; the UI shows the matching `toast.packError.<kind>` message.
+export class PackImportError extends Error {
+  constructor(public kind: PackImportErrorKind, message: string) {
+    super(message);
+    this.name = 'PackImportError';
+  }
+}
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+type PackCase = Record<string, unknown> & { args: string; expected: string };
+
+const isPackCase = (value: unknown): value is PackCase =>
+  isRecord(value) && typeof value.args === 'string' && typeof value.expected === 'string';
+
+// Pack files are hand-editable, so hidden tests are rebuilt from the fields we understand and dropped if unusable.
+const sanitizeTests = (value: unknown): TemplateTests | undefined => {
+  if (!isRecord(value) || typeof value.functionName !== 'string' || !Array.isArray(value.cases)) return undefined;
+  const cases = value.cases
+    .filter(isPackCase)
+    .map((c, index) => ({
+      id: typeof c.id === 'string' && c.id ? c.id : `case-${index + 1}`,
+      args: c.args,
+      expected: c.expected,
+      hint: typeof c.hint === 'string' ? c.hint : '',
+    }));
+  return cases.length > 0 ? { functionName: value.functionName, cases } : undefined;
+};
+
+type PackDraft = Record<string, unknown> & Omit<TemplateDraft, 'tests'>;
+
+const isValidDraft = (value: unknown): value is PackDraft =>
+  isRecord(value)
+  && typeof value.title === 'string' && value.title.trim() !== ''
+  && typeof value.description === 'string'
+  && typeof value.content === 'string' && value.content.trim() !== ''
+  && typeof value.category === 'string' && CATEGORIES.includes(value.category);
+
+const packDraftOf = (entry: PackDraft): TemplateDraft => ({ ...draftOf(entry), tests: sanitizeTests(entry.tests) });
+
+const isPackVersion = (value: unknown): value is PackDraft & { version: number; savedAt: number } =>
+  isValidDraft(value) && Number.isInteger(value.version) && typeof value.savedAt === 'number';
+
+// Templates already in the library get the pack's content as a new version; unknown ids are added as-is.
+export const importTemplatePack = async (json: string): Promise<ImportSummary> => {
+  let pack: unknown;
+  try {
+    pack = JSON.parse(json);
+  } catch {
+    throw new PackImportError('invalidJson', 'The file is not valid JSON.');
+  }
+  if (!isRecord(pack) || pack.format !== PACK_FORMAT || !Array.isArray(pack.templates)) {
+    throw new PackImportError('notPack', 'The file is not an Encrypt template pack.');
+  }
+  if (typeof pack.formatVersion === 'number' && pack.formatVersion > PACK_FORMAT_VERSION) {
+    throw new PackImportError('newerVersion', 'This pack was exported by a newer version of Encrypt.');
+  }
+
+  const summary: ImportSummary = { added: 0, updated: 0, unchanged: 0, skipped: 0 };
+  for (const entry of pack.templates) {
+    if (!isValidDraft(entry)) {
+      summary.skipped++;
+      continue;
+    }
+    const draft = packDraftOf(entry);
+    const id = typeof entry.id === 'string' && entry.id ? entry.id : createTemplateId();
+    const existing = await getTemplate(id);
+
+    if (existing) {
+      if (sameDraft(existing, draft)) summary.unchanged++;
+      else {
+        await updateTemplate(id, draft);
+        summary.updated++;
+      }
+      continue;
+    }
+
+    const history: TemplateVersion[] = Array.isArray(entry.history)
+      ? entry.history.filter(isPackVersion).map(v => ({ ...packDraftOf(v), version: v.version, savedAt: v.savedAt }))
+      : [];
+    const now = Date.now();
+    await putTemplate({
+      ...draft,
+      id,
+      source: 'imported',
+      version: typeof entry.version === 'number' && Number.isInteger(entry.version) && entry.version > 0 ? entry.version : history.length + 1,
+      createdAt: now,
+      updatedAt: now,
+      history,
+    });
+    summary.added++;
+  }
+  return summary;
+};
@@ -0,0 +1,194 @@
+import { KnowledgeLevel, Template, TemplateCategory, TemplateDraft } from "../types";
+import { FunctionCall, FunctionResponse, ToolDeclaration } from "./providers";
+
+// Tools that let the tutor act on the student's workspace instead of only describing what to do there.
+// Each tool pairs the declaration the model sees with an argument parser and a handler that runs against
+// whatever workspace the caller hands in; App provides one backed by its own state.
+
+export interface TutorWorkspace {
+  addBlueprint(mermaid: string): Promise<void>;
+  openTemplate(title: string): Template | undefined; // Shows the best match by title, if there is one
+  createTemplate(draft: TemplateDraft): Template;
+  suggestKnowledgeLevel(level: KnowledgeLevel, reason: string): void; // The student decides whether to switch
+  startQuiz(): void; // Opens once the current reply has finished
+  requestConceptImage(prompt: string): void; // Renders in the background; the reply does not wait for it
+}
+
+export type ToolResult = Record<string, unknown>;
+
+export interface TutorTool<A> {
+  declaration: ToolDeclaration;
+  guidance: string; // When to use the tool, listed in the system instruction whenever the tool is declared
+  // Returns a message for the model instead of the arguments when they are unusable.
+  parseArgs(raw: Record<string, unknown>): A | string;
+  handler(args: A, workspace: TutorWorkspace): ToolResult | Promise<ToolResult>;
+}
+
+const text = (raw: Record<string, unknown>, key: string) => (typeof raw[key] === 'string' ? (raw[key] as string).trim() : '');
+
+const TEMPLATE_CATEGORIES = Object.values(TemplateCategory).filter(c => c !== TemplateCategory.ALL);
+const KNOWLEDGE_LEVELS = Object.values(KnowledgeLevel);
+
+const addBlueprintTool: TutorTool<{ mermaid: string }> = {
+  guidance: 'save a Mermaid diagram to the Visualizer as a standalone blueprint (diagrams in your reply are shown automatically).',
+  declaration: {
+    name: 'addBlueprint',
+    description: 'Adds a Mermaid diagram to the student\'s Visualizer as a blueprint they can keep and come back to.',
+    parameters: {
+      type: 'object',
+      properties: {
+        mermaid: { type: 'string', description: 'Mermaid source only, without the ```mermaid fence.' },
+      },
+      required: ['mermaid'],
+    },
+  },
+  parseArgs: raw => {
+    const mermaid = text(raw, 'mermaid').replace(/^```(?:mermaid)?\s*|```$/g, '').trim();
+    return mermaid ? { mermaid } : 'The "mermaid" argument is empty.';
+  },
+  handler: async ({ mermaid }, workspace) => {
+    await workspace.addBlueprint(mermaid);
+    return { added: true };
+  },
+};
+
+const openTemplateTool: TutorTool<{ title: string }> = {
+  guidance: 'open a template from the student\'s Knowledge library and read its content.',
+  declaration: {
+    name: 'openTemplate',
+    description: 'Opens a logic template from the student\'s Knowledge library in their workspace, and returns its content.',
+    parameters: {
+      type: 'object',
+      properties: {
+        title: { type: 'string', description: 'Title, or part of the title, of the template to open.' },
+      },
+      required: ['title'],
+    },
+  },
+  parseArgs: raw => text(raw, 'title') ? { title: text(raw, 'title') } : 'The "title" argument is empty.',
+  handler: ({ title }, workspace) => {
+    const template = workspace.openTemplate(title);
+    if (!template) return { error: `No template matches "${title}". Offer to create one with createTemplate instead.` };
+    return { opened: template.title, content: template.content };
+  },
+};
+
+const createTemplateTool: TutorTool<TemplateDraft> = {
+  guidance: 'save a new logic template (a skeleton, never a full solution) when no existing one fits.',
+  declaration: {
+    name: 'createTemplate',
+    description: 'Saves a new logic template (a reusable skeleton of steps, never a full solution) to the student\'s session.',
+    parameters: {
+      type: 'object',
+      properties: {
+        title: { type: 'string' },
+        description: { type: 'string', description: 'One sentence on when to use the template.' },
+        content: { type: 'string', description: 'The template itself, as numbered steps or pseudocode with the key parts left for the student.' },
+        category: { type: 'string', enum: TEMPLATE_CATEGORIES },
+      },
+      required: ['title', 'description', 'content', 'category'],
+    },
+  },
+  parseArgs: raw => {
+    const category = TEMPLATE_CATEGORIES.find(c => c === raw.category);
+    if (!text(raw, 'title') || !text(raw, 'content')) return 'A template needs a title and content.';
+    if (!category) return `"category" must be one of: ${TEMPLATE_CATEGORIES.join(', ')}.`;
+    return { title: text(raw, 'title'), description: text(raw, 'description'), content: text(raw, 'content'), category };
+  },
+  handler: (draft, workspace) => ({ created: workspace.createTemplate(draft).title }),
+};
+
+const suggestKnowledgeLevelTool: TutorTool<{ level: KnowledgeLevel; reason: string }> = {
+  guidance: 'suggest a different knowledge level when the student\'s replies consistently sit above or below the current one.',
+  declaration: {
+    name: 'suggestKnowledgeLevel',
+    description: 'Suggests that the student switch to a different knowledge level when their replies are consistently above or below the current one.',
+    parameters: {
+      type: 'object',
+      properties: {
+        level: { type: 'string', enum: KNOWLEDGE_LEVELS },
+        reason: { type: 'string', description: 'One short sentence, addressed to the student, on why this level would suit them better.' },
+      },
+      required: ['level', 'reason'],
+    },
+  },
+  parseArgs: raw => {
+    const level = KNOWLEDGE_LEVELS.find(l => l === raw.level);
+    return level ? { level, reason: text(raw, 'reason') } : `"level" must be one of: ${KNOWLEDGE_LEVELS.join(', ')}.`;
+  },
+  handler: ({ level, reason }, workspace) => {
+    workspace.suggestKnowledgeLevel(level, reason);
+    return { suggested: level, note: 'The student decides whether to switch; keep teaching at the current level until they do.' };
+  },
+};
+
+const startQuizTool: TutorTool<Record<string, never>> = {
+  guidance: 'open a short quiz once the student seems ready to check their understanding.',
+  declaration: {
+    name: 'startQuiz',
+    description: 'Opens a short quiz on what has been covered in this session, once the current reply has finished.',
+    parameters: { type: 'object', properties: {} },
+  },
+  parseArgs: () => ({}),
+  handler: (_args, workspace) => {
+    workspace.startQuiz();
+    return { started: true };
+  },
+};
+
+const requestConceptImageTool: TutorTool<{ prompt: string }> = {
+  guidance: 'render a conceptual image (e.g. "A 3D cross-section of a black hole") in the Visualizer when a picture would help more than a diagram. Describe it in detail, in English.',
+  declaration: {
+    name: 'requestConceptImage',
+    description: 'Renders a conceptual illustration in the Visualizer when a picture would help more than a diagram, e.g. "A cross-section of a black hole".',
+    parameters: {
+      type: 'object',
+      properties: {
+        prompt: { type: 'string', description: 'An English description of the image, e.g. "A detailed, clear educational illustration of ...".' },
+      },
+      required: ['prompt'],
+    },
+  },
+  parseArgs: raw => text(raw, 'prompt') ? { prompt: text(raw, 'prompt') } : 'The "prompt" argument is empty.',
+  handler: ({ prompt }, workspace) => {
+    workspace.requestConceptImage(prompt);
+    return { rendering: true };
+  },
+};
+
+export const TUTOR_TOOLS: TutorTool<unknown>[] = [
+  addBlueprintTool,
+  openTemplateTool,
+  createTemplateTool,
+  suggestKnowledgeLevelTool,
+  startQuizTool,
+  requestConceptImageTool,
+];
+
+export const tutorToolDeclarations = TUTOR_TOOLS.map(tool => tool.declaration);
+
+export const isTutorTool = (name: string) => TUTOR_TOOLS.some(tool => tool.declaration.name === name);
+
+// The system-instruction section on workspace tools, listing only those the request actually declares.
+export const buildToolInstruction = (declared: ToolDeclaration[]): string | null => {
+  const available = TUTOR_TOOLS.filter(tool => declared.some(d => d.name === tool.declaration.name));
+  if (available.length === 0) return null;
+  return `# WORKSPACE TOOLS
+You can act on the student's workspace instead of only describing it. Use these tools when they help the student; never mention a tool by name.
+${available.map(tool => `- '${tool.declaration.name}': ${tool.guidance}`).join('\n')}
+Each tool returns a result; if it reports an error, adjust and try again or carry on without it.`;
+};
+
+// Never rejects: a bad call becomes an error result the model can read and correct on its next round.
+export const runToolCall = async (call: FunctionCall, workspace: TutorWorkspace): Promise<FunctionResponse> => {
+  const respond = (response: ToolResult): FunctionResponse => ({ id: call.id, name: call.name, response });
+  const tool = TUTOR_TOOLS.find(t => t.declaration.name === call.name);
+  if (!tool) return respond({ error: `Unknown tool "${call.name}".` });
+  const args = tool.parseArgs(call.args);
+  if (typeof args === 'string') return respond({ error: args });
+  try {
+    return respond(await tool.handler(args, workspace));
+  } catch (error) {
+    return respond({ error: error instanceof Error ? error.message : String(error) });
+  }
+};
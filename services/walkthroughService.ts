@@ -0,0 +1,95 @@
+import { Template, Walkthrough, WalkthroughStep } from "../types";
+
+const NUMBERED_LINE = /^(\s*)(\d+)[.)]\s+(.*)$/;
+
+const indentOf = (line: string) => line.match(/^\s*/)![0].length;
+
+// "BASE CASE: Show P(1) is true." -> title "Base Case", rest "Show P(1) is true."
+const splitHeading = (text: string) => {
+  const match = text.match(/^([^:]{1,60}):\s*(.*)$/);
+  if (!match) return { title: text.trim(), rest: '' };
+  const title = match[1].trim();
+  const normalized = title === title.toUpperCase() ? title.toLowerCase().replace(/\b\p{L}/gu, ch => ch.toUpperCase()) : title;
+  return { title: normalized, rest: match[2].trim() };
+};
+
+const fromNumberedLines = (lines: string[]): WalkthroughStep[] => {
+  const starts = lines.map((line, index) => ({ index, match: line.match(NUMBERED_LINE) })).filter(l => l.match);
+  if (starts.length < 2) return [];
+  // Only the outermost numbering defines steps; nested "1." lists stay inside their step.
+  const stepIndent = Math.min(...starts.map(s => s.match![1].length));
+  const topLevel = starts.filter(s => s.match![1].length === stepIndent);
+
+  return topLevel.map((start, i) => {
+    const end = i + 1 < topLevel.length ? topLevel[i + 1].index : lines.length;
+    const { title, rest } = splitHeading(start.match![3]);
+    const body = lines.slice(start.index + 1, end).filter(line => line.trim());
+    return { title, detail: [rest, ...body.map(line => line.trim())].filter(Boolean).join('\n') };
+  });
+};
+
+// Unnumbered templates (pseudocode) split on their outermost statements, each with the lines nested under it.
+const fromIndentation = (lines: string[]): WalkthroughStep[] => {
+  let body = lines.filter(line => line.trim());
+  if (body.length > 1 && body[0].trim().endsWith(':') && indentOf(body[1]) > indentOf(body[0])) body = body.slice(1);
+  if (body.length === 0) return [];
+  const baseIndent = Math.min(...body.map(indentOf));
+
+  const steps: WalkthroughStep[] = [];
+  for (const line of body) {
+    if (indentOf(line) === baseIndent || steps.length === 0) {
+      const { title, rest } = splitHeading(line.trim());
+      steps.push({ title, detail: rest });
+    } else {
+      const step = steps[steps.length - 1];
+      step.detail = [step.detail, line.trim()].filter(Boolean).join('\n');
+    }
+  }
+  return steps;
+};
+
+export const parseTemplateSteps = (content: string): WalkthroughStep[] => {
+  const lines = content.split('\n');
+  const numbered = fromNumberedLines(lines);
+  return numbered.length > 0 ? numbered : fromIndentation(lines);
+};
+
+export const createWalkthrough = (template: Template): Walkthrough | null => {
+  const steps = parseTemplateSteps(template.content);
+  if (steps.length < 2) return null;
+  return { templateId: template.id, templateTitle: template.title, steps, currentStep: 0, startedAt: Date.now() };
+};
+
+// Marks a step as understood and moves on. Steps are only ever completed in order.
+export const completeWalkthroughStep = (walkthrough: Walkthrough, stepNumber: number): Walkthrough => {
+  const index = stepNumber - 1;
+  if (index !== walkthrough.currentStep || index >= walkthrough.steps.length) return walkthrough;
+  const now = Date.now();
+  const steps = walkthrough.steps.map((step, i) => i === index ? { ...step, completedAt: now } : step);
+  const currentStep = index + 1;
+  return { ...walkthrough, steps, currentStep, completedAt: currentStep === steps.length ? now : undefined };
+};
+
+export const buildWalkthroughInstruction = (walkthrough: Walkthrough): string => {
+  const outline = walkthrough.steps
+    .map((step, i) => `${i + 1}. ${step.title}${i < walkthrough.currentStep ? ' (understood)' : i === walkthrough.currentStep ? ' (CURRENT)' : ''}`)
+    .join('\n');
+
+  if (walkthrough.currentStep >= walkthrough.steps.length) {
+    return `# GUIDED WALKTHROUGH: "${walkthrough.templateTitle}" (complete)\n${outline}\nThe student has worked through every step. Help them connect the steps into one picture and apply the template to a fresh problem.`;
+  }
+
+  const current = walkthrough.steps[walkthrough.currentStep];
+  return `# GUIDED WALKTHROUGH: "${walkthrough.templateTitle}"
+The student chose to work through this template one step at a time.
+${outline}
+
+Current step ${walkthrough.currentStep + 1}: ${current.title}
+${current.detail}
+
+Rules:
+- Discuss ONLY the current step. Do not reveal or work on later steps yet.
+- Ask Socratic questions until the student can explain this step in their own words.
+- When they have demonstrated understanding of it, call 'completeWalkthroughStep' with step ${walkthrough.currentStep + 1}, then introduce the next step with an opening question.
+- Never call it for a step the student has not explained themselves.`;
+};
@@ -10,6 +10,7 @@ export enum PaneTab {
   TEMPLATES = 'templates',
   UPLOAD = 'upload',
   IMAGE_GEN = 'image_gen',
+  MASTERY = 'mastery',
 }
 
 export enum TemplateCategory {
@@ -30,6 +31,201 @@ export interface Message {
   role: 'user' | 'model' | 'system';
   text: string;
   timestamp: number;
+  isPartial?: boolean; // Streaming was stopped before the reply finished.
+  knowledgeLevel?: KnowledgeLevel; // Level in effect when the turn was sent.
+  quiz?: Quiz;
+  guarded?: GuardedSolution; // Set when the solution guard redacted this reply.
+  isAttempt?: boolean; // The student's own work, which unlocks earlier redacted solutions.
+  attachments?: SubmissionAttachment[];
+  submission?: SubmittedWork; // Set on the turn that uploaded the attachments.
+  failure?: TurnFailure; // Set on a student turn whose reply could not be generated.
+  pinned?: boolean; // Always sent to the model, however long the session grows.
+  hint?: MessageHint; // Set on tutor replies that gave a hint.
+  isHintRequest?: boolean; // Sent with the "I'm stuck" control.
+}
+
+export type HintLevel = 'nudge' | 'subproblem' | 'skeleton';
+
+export interface MessageHint {
+  level: HintLevel;
+  concept: string;
+  number: number; // 1 for the first hint on this problem, and so on
+  overCap?: boolean; // Given after the problem had used its allowance
+}
+
+export interface HintRecord {
+  concept: string; // The problem the hint was for, as the tutor named it
+  level: HintLevel;
+  messageId: string;
+  requested: boolean; // Asked for with "I'm stuck" rather than offered by the tutor
+  overCap?: boolean; // Given after the problem had used its allowance
+  at: number;
+}
+
+// 'suggest' and 'auto' re-estimate the level from the student's answers, vocabulary and quiz results;
+// 'suggest' proposes each change, 'auto' applies it and says why.
+export type LevelMode = 'manual' | 'suggest' | 'auto';
+
+export type LevelEvidenceSource = 'diagnostic' | 'conversation' | 'quiz';
+
+// Position on the fine level scale: steps 1..LEVEL_STEPS, each knowledge level covering a band of them.
+export interface LevelCalibration {
+  mode: LevelMode;
+  step: number; // The step the tutor currently teaches at
+  estimate: number; // Running estimate on the same scale, which moves the step once it drifts far enough
+  diagnosedTopics: string[]; // Topics that have already had their opening diagnostic
+}
+
+export interface LevelChange {
+  from: number;
+  to: number;
+  source: LevelEvidenceSource | 'manual';
+  reason?: string;
+  at: number;
+}
+
+export type AIErrorKind = 'auth' | 'permission' | 'quota' | 'safety' | 'network' | 'timeout' | 'invalid_output' | 'server' | 'unknown';
+
+export interface TurnFailure {
+  kind: AIErrorKind;
+  retryAfterMs?: number;
+  at: number;
+}
+
+export type SubmissionFileKind = 'text' | 'image' | 'pdf';
+
+export interface SubmissionFile {
+  id: string;
+  name: string; // Files unpacked from an archive are named "project.zip/src/main.py"
+  kind: SubmissionFileKind;
+  mimeType: string;
+  size: number;
+  text?: string;
+  data?: string; // Base64 contents of images and PDFs
+}
+
+// What a sent message shows about its files.
+export type SubmissionAttachment = Pick<SubmissionFile, 'name' | 'kind' | 'size'>;
+
+// The submitted work itself, replayed to the tutor on every later turn so follow-ups can discuss it.
+export interface SubmittedWork {
+  files: SubmissionFile[]; // Images and PDFs without their data, which only the review call is sent
+  testResults?: string;
+}
+
+// Why a picked file was not added to the submission; the upload panel shows the `submission.<kind>` message.
+export type SubmissionIssue =
+  | { kind: 'unsupported' | 'notText' | 'archiveUnreadable' | 'archiveEmpty'; name: string }
+  | { kind: 'archiveSkipped'; name: string; count: number }
+  | { kind: 'archiveTooLarge' | 'sourceTooLarge' | 'inlineTooLarge'; name: string; size: string; limit: string }
+  | { kind: 'tooManyFiles'; name: string; max: number }
+  | { kind: 'overTotal'; name: string; limit: string };
+
+export interface RubricCriterion {
+  id: string;
+  name: string;
+  description: string; // What full marks look like, shown to the reviewer
+  maxScore: number;
+}
+
+export interface Rubric {
+  id: string;
+  name: string;
+  criteria: RubricCriterion[];
+  createdAt: number;
+  updatedAt: number;
+}
+
+export interface CriterionScore {
+  criterionId: string;
+  criterion: string;
+  score: number;
+  maxScore: number;
+  comment: string;
+}
+
+export interface ScoreChange {
+  criterion: string;
+  before: number;
+  after: number;
+  maxScore: number;
+}
+
+// How a revised submission compares with the report on the version before it.
+export interface ReportComparison {
+  previousReportId: string;
+  scoreChanges: ScoreChange[];
+  improvements: string[];
+  resolvedIssues: string[];
+  remainingIssues: string[];
+  newIssues: string[];
+}
+
+export interface FeedbackReport {
+  id: string;
+  createdAt: number;
+  rubricId: string;
+  rubricName: string;
+  files: SubmissionAttachment[];
+  summary: string;
+  strengths: string[];
+  logicalGaps: string[];
+  misconceptions: string[];
+  unhandledEdgeCases: string[];
+  scores: CriterionScore[];
+  comparison?: ReportComparison;
+  testRun?: TestRunResult;
+}
+
+export type SolutionLeakKind = 'code' | 'proof';
+
+export interface GuardedSolution {
+  original: string;
+  kinds: SolutionLeakKind[];
+  revealedAt?: number;
+}
+
+export type GuardInterventionKind = 'input_blocked' | 'output_redacted' | 'solution_revealed';
+
+export interface GuardIntervention {
+  id: string;
+  kind: GuardInterventionKind;
+  timestamp: number;
+  messageId?: string;
+  detail: string;
+}
+
+export type QuizQuestionKind = 'multiple_choice' | 'ordering' | 'short_answer';
+
+export interface QuizQuestion {
+  id: string;
+  kind: QuizQuestionKind;
+  prompt: string;
+  options?: string[]; // multiple_choice only
+  correctIndex?: number; // multiple_choice only
+  steps?: string[]; // ordering only, in the correct order; shuffled for display
+  referenceAnswer?: string; // short_answer only, used for grading and never shown
+}
+
+export type QuizResponse = number | string | string[];
+
+export interface QuizAnswerResult {
+  questionId: string;
+  response: QuizResponse;
+  score: number; // 0..1
+  correct: boolean;
+  feedback?: string;
+  gradedBy: 'local' | 'model';
+}
+
+export interface Quiz {
+  id: string;
+  topic: string;
+  questions: QuizQuestion[];
+  createdAt: number;
+  results?: QuizAnswerResult[];
+  score?: number; // 0..1, set once graded
+  completedAt?: number;
 }
 
 export interface Template {
@@ -39,6 +235,85 @@ export interface Template {
   content: string;
   category: TemplateCategory;
   isSynthesized?: boolean;
+  tests?: TemplateTests;
+}
+
+export type RunnerLanguage = 'javascript' | 'typescript' | 'python';
+
+// One hidden test: the arguments and expected return value are JSON, and only the hint is ever shown to students.
+export interface TestCase {
+  id: string;
+  args: string; // JSON array of arguments, e.g. [[1, 3, 5], 3]
+  expected: string; // JSON value
+  hint: string; // e.g. "an empty list"
+}
+
+export interface TemplateTests {
+  functionName: string;
+  cases: TestCase[];
+}
+
+export type TestCaseStatus = 'pass' | 'fail' | 'error' | 'timeout' | 'skipped';
+
+// Why a run or a case did not finish; the report shows the `runner.<kind>` message, with any compiler or
+// runtime message from the student's code underneath.
+export type RunnerErrorKind =
+  | 'invalidFunction' | 'compile' | 'loadTimeout' | 'pythonLoadTimeout' | 'missingFunction' | 'loadFailed'
+  | 'thrown' | 'timeout' | 'resultTooLarge' | 'crashed';
+
+export interface RunnerError {
+  kind: RunnerErrorKind;
+  detail?: string;
+  line?: number; // Where a compile error is
+}
+
+export interface TestCaseResult {
+  id: string;
+  status: TestCaseStatus;
+  hint: string;
+  actual?: string; // JSON, for the tutor only
+  error?: RunnerError;
+  durationMs?: number;
+}
+
+export interface TestRunResult {
+  templateId: string;
+  templateTitle: string;
+  functionName: string;
+  language: RunnerLanguage;
+  fileNames: string[];
+  passed: number;
+  total: number;
+  cases: TestCaseResult[];
+  error?: RunnerError; // The code could not be compiled or loaded at all
+  logs: string[];
+}
+
+export type TemplateDraft = Pick<Template, 'title' | 'description' | 'content' | 'category' | 'tests'>;
+
+export interface TemplateVersion extends TemplateDraft {
+  version: number;
+  savedAt: number;
+}
+
+export type TemplateSource = 'builtin' | 'custom' | 'promoted' | 'imported';
+
+export type PackImportErrorKind = 'invalidJson' | 'notPack' | 'newerVersion';
+
+// A template kept in the persistent library, with every earlier revision.
+export interface LibraryTemplate extends Template {
+  source: TemplateSource;
+  version: number;
+  createdAt: number;
+  updatedAt: number;
+  history: TemplateVersion[]; // Earlier versions, oldest first
+}
+
+export type DiagramOrigin = 'original' | 'repaired' | 'failed' | 'edited';
+
+export interface MermaidRepairAttempt {
+  content: string;
+  error: string;
 }
 
 export interface VisualItem {
@@ -46,6 +321,16 @@ export interface VisualItem {
   type: 'mermaid' | 'image';
   content: string; // Mermaid code or Image URL
   timestamp: number;
+  origin?: DiagramOrigin; // Mermaid only; items saved before validation existed have none.
+  repairHistory?: MermaidRepairAttempt[]; // Every broken version that was sent back for repair, oldest first.
+  parentId?: string; // Edited revisions point at the Blueprint they were saved from.
+}
+
+export type DiagramElementKind = 'node' | 'edge';
+
+export interface DiagramAction {
+  id: 'explain' | 'why-branch' | 'what-if-fails' | 'example';
+  appliesTo: DiagramElementKind[];
 }
 
 export interface LogicDiagram {
@@ -57,3 +342,97 @@ export interface AppState {
   knowledgeLevel: KnowledgeLevel;
   mentorMode: boolean;
 }
+
+export interface WalkthroughStep {
+  title: string;
+  detail: string; // The template lines that belong to this step
+  completedAt?: number;
+}
+
+// A guided session that walks through a template's steps one at a time.
+export interface Walkthrough {
+  templateId: string;
+  templateTitle: string;
+  steps: WalkthroughStep[];
+  currentStep: number; // Index into steps; equals steps.length once finished
+  startedAt: number;
+  completedAt?: number;
+}
+
+export type MentorStatus = 'searching' | 'satisfied';
+
+// What the tutor reports through the updateMentorStatus tool after each turn.
+export interface MentorAssessment {
+  status: MentorStatus;
+  concept?: string;
+  confidence?: number; // 0..1, how sure the tutor is about the status
+}
+
+export interface Learner {
+  id: string;
+  name: string;
+  createdAt: number;
+}
+
+export interface MasteryTransition {
+  status: MentorStatus;
+  confidence?: number;
+  timestamp: number;
+  sessionId?: string;
+}
+
+export interface ConceptMastery {
+  id: string; // learnerId + normalized concept
+  learnerId: string;
+  concept: string; // Display name, as last reported by the tutor
+  status: MentorStatus;
+  confidence?: number;
+  assessments: number;
+  firstAssessedAt: number;
+  updatedAt: number;
+  history: MasteryTransition[]; // Status changes only, oldest first
+}
+
+export interface StudySession {
+  id: string;
+  name: string; // Empty until the first question or the student names it; shown as `sessions.untitled`
+  createdAt: number;
+  updatedAt: number;
+  messages: Message[];
+  visualItems: VisualItem[];
+  sessionTemplates: Template[];
+  usedTemplateIds?: string[]; // Templates the learner pulled into this session, for exports.
+  knowledgeLevel: KnowledgeLevel;
+  mentorMode: boolean;
+  guardLog?: GuardIntervention[];
+  walkthrough?: Walkthrough;
+  reports?: FeedbackReport[];
+  contextSummary?: ConversationSummary;
+  hints?: HintRecord[];
+  calibration?: LevelCalibration;
+  levelHistory?: LevelChange[];
+}
+
+// Older turns folded into a running summary once a session outgrows the context budget.
+export interface ConversationSummary {
+  text: string;
+  throughMessageId: string; // The latest turn the summary covers
+  updatedAt: number;
+}
+
+export interface SessionSummary {
+  id: string;
+  name: string;
+  createdAt: number;
+  updatedAt: number;
+  messageCount: number;
+}
+
+export type UILanguage = 'en' | 'hi' | 'te' | 'ta' | 'kn' | 'ml' | 'mr' | 'gu' | 'bn' | 'pa' | 'or' | 'ur';
+
+export interface UILanguageOption {
+  code: UILanguage;
+  name: string; // English name, also used to tell the tutor which language to reply in
+  nativeName: string;
+  dir: 'ltr' | 'rtl';
+}
@@ -4,15 +4,27 @@ import react from '@vitejs/plugin-react';
 
 export default defineConfig(({ mode }) => {
     const env = loadEnv(mode, '.', '');
+    // By default the browser talks to the backend in server/, so no key is compiled into the bundle.
+    // LLM_CLIENT_MODE=direct restores calling the provider from the browser (e.g. for AI Studio key selection).
+    const isDirect = env.LLM_CLIENT_MODE === 'direct';
+    const clientEnv = (value?: string) => JSON.stringify(isDirect ? value : undefined);
     return {
       server: {
         port: 3000,
         host: '0.0.0.0',
+        proxy: {
+          '/api': `http://localhost:${env.SERVER_PORT || 8787}`,
+        },
       },
       plugins: [react()],
       define: {
-        'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
-        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
+        'process.env.API_KEY': clientEnv(env.GEMINI_API_KEY),
+        'process.env.GEMINI_API_KEY': clientEnv(env.GEMINI_API_KEY),
+        'process.env.LLM_PROVIDER': JSON.stringify(isDirect ? env.LLM_PROVIDER : 'proxy'),
+        'process.env.LLM_BASE_URL': clientEnv(env.LLM_BASE_URL),
+        'process.env.LLM_API_KEY': clientEnv(env.LLM_API_KEY),
+        'process.env.LLM_CHAT_MODEL': clientEnv(env.LLM_CHAT_MODEL),
+        'process.env.LLM_IMAGE_MODEL': clientEnv(env.LLM_IMAGE_MODEL)
       },
       resolve: {
         alias: {